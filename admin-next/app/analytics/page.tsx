@@ -1,10 +1,9 @@
 import { AdminPageShell } from '@/components/admin-page-shell';
-import { ADMINISTRATOR_ROLES } from '@/lib/admin-roles';
 import { AnalyticsPage } from './analytics-page';
 
 export default function Page() {
   return (
-    <AdminPageShell allowedRoles={ADMINISTRATOR_ROLES}>
+    <AdminPageShell permission="analytics:read">
       <AnalyticsPage />
     </AdminPageShell>
   );
@@ -3,22 +3,39 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { Archive, CheckCircle2, History, Plus, Save, Send, Undo2 } from 'lucide-react';
+import { Archive, CheckCircle2, FileUp, History, Plus, Save, Send, Trash2, Undo2 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   approveCmsPost,
   archiveCmsPost,
   createCmsPost,
+  getCmsExamCycles,
   getCmsPost,
   getCmsPostAlertPreview,
   getCmsPostHistory,
+  importNotificationPdf,
   publishCmsPost,
   restoreCmsPost,
   submitCmsPost,
   updateCmsPost,
 } from '@/lib/api';
+import { userHasPermission } from '@/lib/admin-permissions';
 import { useAuth } from '@/lib/auth-context';
-import type { AlertMatchPreview, CmsPost, CmsImportantDate, CmsOfficialSource, EditorialStatus } from '@/lib/types';
+import type {
+  AlertMatchPreview,
+  CmsAgeRelaxation,
+  CmsAgeRelaxationCategory,
+  CmsEligibilityRule,
+  CmsImportantDate,
+  CmsOfficialSource,
+  CmsPost,
+  EditorialStatus,
+  NotificationPdfImport,
+} from '@/lib/types';
+import { PostDuplicatesPanel } from './post-duplicates-panel';
+import { PostSchedulePanel } from './post-schedule-panel';
+import { EMPTY_TRANSLATION, PostTranslationPanel, type PostTranslationForm } from './post-translation-panel';
+import { VersionDiffDialog } from './version-diff-dialog';
 
 interface AnnouncementFormProps {
   id?: string;
@@ -37,6 +54,7 @@ type FormState = {
   qualifications: string;
   institutionName: string;
   examName: string;
+  examCycleName: string;
   location: string;
   salary: string;
   postCount: string;
@@ -49,10 +67,11 @@ type FormState = {
   metaDescription: string;
   importantDates: CmsImportantDate[];
   officialSources: CmsOfficialSource[];
-  eligibility: Array<{ label: string; description: string }>;
+  eligibility: CmsEligibilityRule[];
   feeRules: Array<{ category: string; amount: string; paymentNote?: string }>;
   vacancyRows: Array<{ postName: string; department?: string; vacancies: string; payLevel?: string; salaryNote?: string }>;
   admissionPrograms: Array<{ programName: string; level?: string; department?: string; intake?: string; eligibilityNote?: string }>;
+  hindi: PostTranslationForm;
 };
 
 const EMPTY_FORM: FormState = {
@@ -68,6 +87,7 @@ const EMPTY_FORM: FormState = {
   qualifications: '',
   institutionName: '',
   examName: '',
+  examCycleName: '',
   location: '',
   salary: '',
   postCount: '',
@@ -84,6 +104,7 @@ const EMPTY_FORM: FormState = {
   feeRules: [{ category: 'GENERAL', amount: '', paymentNote: '' }],
   vacancyRows: [{ postName: '', department: '', vacancies: '', payLevel: '', salaryNote: '' }],
   admissionPrograms: [{ programName: '', level: '', department: '', intake: '', eligibilityNote: '' }],
+  hindi: EMPTY_TRANSLATION,
 };
 
 function splitTags(value: string) {
@@ -108,6 +129,7 @@ function toForm(post: CmsPost): FormState {
     qualifications: post.qualifications.map((item) => item.name).join(', '),
     institutionName: post.institution?.name || '',
     examName: post.exam?.name || '',
+    examCycleName: post.examCycle?.name || '',
     location: post.location || '',
     salary: post.salary || '',
     postCount: post.postCount || '',
@@ -124,6 +146,14 @@ function toForm(post: CmsPost): FormState {
     feeRules: post.feeRules.length ? post.feeRules : EMPTY_FORM.feeRules,
     vacancyRows: post.vacancyRows.length ? post.vacancyRows : EMPTY_FORM.vacancyRows,
     admissionPrograms: post.admissionPrograms.length ? post.admissionPrograms : EMPTY_FORM.admissionPrograms,
+    hindi: {
+      title: post.translations?.hi?.title || '',
+      summary: post.translations?.hi?.summary || '',
+      shortInfo: post.translations?.hi?.shortInfo || '',
+      body: post.translations?.hi?.body || '',
+      metaTitle: post.translations?.hi?.metaTitle || '',
+      metaDescription: post.translations?.hi?.metaDescription || '',
+    },
   };
 }
 
@@ -141,6 +171,7 @@ function buildPayload(form: FormState) {
     qualifications: splitTags(form.qualifications),
     institution: form.institutionName ? { name: form.institutionName, slug: form.institutionName.toLowerCase().replace(/[^a-z0-9]+/g, '-') } : null,
     exam: form.examName ? { name: form.examName, slug: form.examName.toLowerCase().replace(/[^a-z0-9]+/g, '-') } : null,
+    examCycle: form.examCycleName ? { name: form.examCycleName, slug: form.examCycleName.toLowerCase().replace(/[^a-z0-9]+/g, '-') } : null,
     location: form.location || undefined,
     salary: form.salary || undefined,
     postCount: form.postCount || undefined,
@@ -155,13 +186,86 @@ function buildPayload(form: FormState) {
     },
     importantDates: form.importantDates.filter((item) => item.label || item.value),
     officialSources: form.officialSources.filter((item) => item.label && item.url),
-    eligibility: form.eligibility.filter((item) => item.label && item.description),
+    eligibility: form.eligibility
+      .filter((item) => item.label && item.description)
+      .map((item) => ({
+        ...item,
+        ageCutoffDate: item.ageCutoffDate || undefined,
+        ageRelaxations: (item.ageRelaxations || []).filter((relaxation) => Number.isFinite(relaxation.years)),
+      })),
     feeRules: form.feeRules.filter((item) => item.category && item.amount),
     vacancyRows: form.vacancyRows.filter((item) => item.postName && item.vacancies),
     admissionPrograms: form.admissionPrograms.filter((item) => item.programName),
+    translations: form.hindi.title.trim()
+      ? {
+          hi: {
+            title: form.hindi.title,
+            summary: form.hindi.summary || undefined,
+            shortInfo: form.hindi.shortInfo || undefined,
+            body: form.hindi.body || undefined,
+            metaTitle: form.hindi.metaTitle || undefined,
+            metaDescription: form.hindi.metaDescription || undefined,
+          },
+        }
+      : {},
   };
 }
 
+async function readPdfAsBase64(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return window.btoa(binary);
+}
+
+// Extracted draft keys that live under a different name in the form.
+const REVIEW_FIELD_ALIASES: Record<string, keyof FormState> = { organization: 'organizationName' };
+
+function draftToForm(draft: NotificationPdfImport['draft']): FormState {
+  return {
+    ...EMPTY_FORM,
+    type: draft.type || EMPTY_FORM.type,
+    title: draft.title || '',
+    summary: draft.summary || '',
+    organizationName: draft.organization?.name || '',
+    postCount: draft.postCount || '',
+    applicationStartDate: draft.applicationStartDate || '',
+    lastDate: draft.lastDate || '',
+    examDate: draft.examDate || '',
+    verificationNote: draft.verificationNote || '',
+    importantDates: draft.importantDates?.length ? draft.importantDates : EMPTY_FORM.importantDates,
+    officialSources: draft.officialSources?.length ? draft.officialSources : EMPTY_FORM.officialSources,
+    eligibility: draft.eligibility?.length ? draft.eligibility : EMPTY_FORM.eligibility,
+    feeRules: draft.feeRules?.length
+      ? draft.feeRules.map((item) => ({ category: item.category, amount: item.amount, paymentNote: item.paymentNote || '' }))
+      : EMPTY_FORM.feeRules,
+    vacancyRows: draft.vacancyRows?.length
+      ? draft.vacancyRows.map((item) => ({
+          postName: item.postName,
+          department: item.department || '',
+          vacancies: item.vacancies,
+          payLevel: item.payLevel || '',
+          salaryNote: item.salaryNote || '',
+        }))
+      : EMPTY_FORM.vacancyRows,
+  };
+}
+
+function NeedsReviewBadge({ onReviewed }: { onReviewed: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onReviewed}
+      title="Extracted from the notification PDF. Click once you have checked it."
+      className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-bold normal-case tracking-normal text-amber-800 hover:bg-amber-200"
+    >
+      Needs review
+    </button>
+  );
+}
+
 function statusPill(status: EditorialStatus) {
   const map: Record<EditorialStatus, string> = {
     draft: 'bg-amber-50 text-amber-700',
@@ -184,16 +288,22 @@ function RowEditor<T extends Record<string, any>>({
   rows,
   onChange,
   createRow,
+  onReviewed,
 }: {
   title: string;
   rows: T[];
   onChange: (next: T[]) => void;
   createRow: () => T;
+  /** Set while the rows were extracted from a PDF and not yet checked. */
+  onReviewed?: () => void;
 }) {
   return (
-    <div className="space-y-3 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+    <div className={`space-y-3 rounded-2xl border bg-white p-4 shadow-sm ${onReviewed ? 'border-amber-200' : 'border-gray-100'}`}>
       <div className="flex items-center justify-between">
-        <h3 className="text-[13px] font-bold text-gray-900">{title}</h3>
+        <h3 className="text-[13px] font-bold text-gray-900">
+          {title}
+          {onReviewed ? <NeedsReviewBadge onReviewed={onReviewed} /> : null}
+        </h3>
         <button
           type="button"
           onClick={() => onChange([...rows, createRow()])}
@@ -226,12 +336,149 @@ function RowEditor<T extends Record<string, any>>({
   );
 }
 
+const AGE_RELAXATION_CATEGORIES: Array<{ value: CmsAgeRelaxationCategory; label: string }> = [
+  { value: 'obc', label: 'OBC' },
+  { value: 'sc', label: 'SC' },
+  { value: 'st', label: 'ST' },
+  { value: 'ews', label: 'EWS' },
+  { value: 'pwbd', label: 'PwBD' },
+  { value: 'ex_serviceman', label: 'Ex-Servicemen' },
+  { value: 'women', label: 'Women' },
+  { value: 'other', label: 'Other' },
+];
+
+// Central government direct-recruitment norms, offered as a starting point for editors.
+const CENTRAL_AGE_RELAXATIONS: CmsAgeRelaxation[] = [
+  { category: 'obc', years: 3, appliesFrom: 'upper_age_limit' },
+  { category: 'sc', years: 5, appliesFrom: 'upper_age_limit' },
+  { category: 'st', years: 5, appliesFrom: 'upper_age_limit' },
+  { category: 'pwbd', years: 10, appliesFrom: 'upper_age_limit' },
+  { category: 'ex_serviceman', years: 3, appliesFrom: 'after_service_deduction' },
+];
+
+function parseAgeInput(value: string) {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.trunc(parsed) : undefined;
+}
+
+function EligibilityEditor({
+  rows,
+  onChange,
+  onReviewed,
+}: {
+  rows: CmsEligibilityRule[];
+  onChange: (next: CmsEligibilityRule[]) => void;
+  onReviewed?: () => void;
+}) {
+  const updateRow = (index: number, patch: Partial<CmsEligibilityRule>) => {
+    onChange(rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...patch } : row)));
+  };
+  const updateRelaxations = (index: number, ageRelaxations: CmsAgeRelaxation[]) => updateRow(index, { ageRelaxations });
+  const inputClass = 'rounded-lg border border-gray-200 bg-white px-3 py-2 text-[12px] text-gray-700 outline-none';
+
+  return (
+    <div className={`space-y-3 rounded-2xl border bg-white p-4 shadow-sm ${onReviewed ? 'border-amber-200' : 'border-gray-100'}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-[13px] font-bold text-gray-900">
+          Eligibility
+          {onReviewed ? <NeedsReviewBadge onReviewed={onReviewed} /> : null}
+        </h3>
+        <button
+          type="button"
+          onClick={() => onChange([...rows, { label: '', description: '', ageRelaxations: [] }])}
+          className="inline-flex items-center gap-1 rounded-lg border border-gray-200 px-2.5 py-1.5 text-[11px] font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          <Plus size={12} />
+          Add Row
+        </button>
+      </div>
+      <div className="space-y-3">
+        {rows.map((row, index) => {
+          const relaxations = row.ageRelaxations || [];
+          return (
+            <div key={index} className="space-y-2 rounded-xl border border-gray-100 bg-gray-50 p-3">
+              <div className="grid gap-2 md:grid-cols-2">
+                <input value={row.label} onChange={(event) => updateRow(index, { label: event.target.value })} placeholder="label" className={inputClass} />
+                <input value={row.qualificationSlug || ''} onChange={(event) => updateRow(index, { qualificationSlug: event.target.value || undefined })} placeholder="qualificationSlug" className={inputClass} />
+                <textarea value={row.description} onChange={(event) => updateRow(index, { description: event.target.value })} placeholder="description" rows={2} className={`${inputClass} md:col-span-2`} />
+              </div>
+              <div className="grid gap-2 md:grid-cols-4">
+                <input type="number" min={0} max={99} value={row.minAge ?? ''} onChange={(event) => updateRow(index, { minAge: parseAgeInput(event.target.value) })} placeholder="minAge" className={inputClass} />
+                <input type="number" min={0} max={99} value={row.maxAge ?? ''} onChange={(event) => updateRow(index, { maxAge: parseAgeInput(event.target.value) })} placeholder="maxAge" className={inputClass} />
+                <input type="date" value={row.ageCutoffDate || ''} onChange={(event) => updateRow(index, { ageCutoffDate: event.target.value || undefined })} title="Age counted as on" className={inputClass} />
+                <input value={row.relaxationNote || ''} onChange={(event) => updateRow(index, { relaxationNote: event.target.value || undefined })} placeholder="relaxationNote" className={inputClass} />
+              </div>
+              <div className="space-y-2 rounded-lg border border-dashed border-gray-200 bg-white p-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Age relaxation</span>
+                  <div className="flex gap-2">
+                    {relaxations.length === 0 ? (
+                      <button
+                        type="button"
+                        onClick={() => updateRelaxations(index, CENTRAL_AGE_RELAXATIONS.map((item) => ({ ...item })))}
+                        className="rounded-lg border border-gray-200 px-2 py-1 text-[11px] font-semibold text-gray-700 hover:bg-gray-50"
+                      >
+                        Use central norms
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      onClick={() => updateRelaxations(index, [...relaxations, { category: 'obc', years: 0, appliesFrom: 'upper_age_limit' }])}
+                      className="inline-flex items-center gap-1 rounded-lg border border-gray-200 px-2 py-1 text-[11px] font-semibold text-gray-700 hover:bg-gray-50"
+                    >
+                      <Plus size={11} />
+                      Add
+                    </button>
+                  </div>
+                </div>
+                {relaxations.map((relaxation, relaxationIndex) => {
+                  const updateRelaxation = (patch: Partial<CmsAgeRelaxation>) => updateRelaxations(
+                    index,
+                    relaxations.map((item, itemIndex) => (itemIndex === relaxationIndex ? { ...item, ...patch } : item)),
+                  );
+                  return (
+                    <div key={relaxationIndex} className="grid gap-2 md:grid-cols-[1fr_0.6fr_1.2fr_1.4fr_auto]">
+                      <select value={relaxation.category} onChange={(event) => updateRelaxation({ category: event.target.value as CmsAgeRelaxationCategory })} className={inputClass}>
+                        {AGE_RELAXATION_CATEGORIES.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      <input type="number" min={0} max={30} value={relaxation.years} onChange={(event) => updateRelaxation({ years: parseAgeInput(event.target.value) ?? 0 })} placeholder="years" className={inputClass} />
+                      <select value={relaxation.appliesFrom} onChange={(event) => updateRelaxation({ appliesFrom: event.target.value as CmsAgeRelaxation['appliesFrom'] })} className={inputClass}>
+                        <option value="upper_age_limit">On upper age limit</option>
+                        <option value="after_service_deduction">After deducting service</option>
+                      </select>
+                      <input value={relaxation.label || ''} onChange={(event) => updateRelaxation({ label: event.target.value || undefined })} placeholder="label (optional)" className={inputClass} />
+                      <button
+                        type="button"
+                        onClick={() => updateRelaxations(index, relaxations.filter((_, itemIndex) => itemIndex !== relaxationIndex))}
+                        className="inline-flex items-center justify-center rounded-lg border border-gray-200 px-2 text-gray-500 hover:bg-gray-50"
+                        aria-label="Remove relaxation"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export function AnnouncementForm({ id }: AnnouncementFormProps) {
   const router = useRouter();
   const queryClient = useQueryClient();
   const { user } = useAuth();
   const isEdit = Boolean(id);
   const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [pdfImport, setPdfImport] = useState<NotificationPdfImport | null>(null);
+  const [needsReview, setNeedsReview] = useState<string[]>([]);
 
   const postQuery = useQuery({
     queryKey: ['cms-post', id],
@@ -249,6 +496,10 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
     queryFn: async () => (await getCmsPostAlertPreview(id!)).data,
     enabled: isEdit,
   });
+  const examCyclesQuery = useQuery({
+    queryKey: ['cms-exam-cycles'],
+    queryFn: async () => (await getCmsExamCycles({ limit: 100 })).data,
+  });
 
   useEffect(() => {
     if (postQuery.data?.data) {
@@ -259,18 +510,42 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
   const saveMutation = useMutation({
     mutationFn: async () => {
       const payload = buildPayload(form);
-      return isEdit ? updateCmsPost(id!, payload) : createCmsPost(payload);
+      if (isEdit) return updateCmsPost(id!, payload);
+      const versionNote = pdfImport
+        ? `Imported from notification PDF ${pdfImport.file.fileName}${needsReview.length ? `; not yet reviewed: ${needsReview.join(', ')}` : ''}`
+        : undefined;
+      return createCmsPost({ ...payload, versionNote: versionNote?.slice(0, 500) });
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['cms-posts'] });
+      queryClient.invalidateQueries({ queryKey: ['cms-post-duplicates', result.data.id] });
       if (!isEdit) {
         router.replace(`/announcements/${result.data.id}`);
       }
       toast.success('Draft saved.');
+      const unresolved = (result.duplicates ?? []).filter((item) => !item.confirmedDistinct);
+      if (unresolved.length > 0) {
+        toast.warning(`This looks like a duplicate of "${unresolved[0].title}". Review it before submitting.`);
+      }
     },
     onError: (error: Error) => toast.error(error.message || 'Failed to save draft'),
   });
 
+  const pdfImportMutation = useMutation({
+    mutationFn: async (file: File) => (await importNotificationPdf({ fileName: file.name, content: await readPdfAsBase64(file) })).data,
+    onSuccess: (result) => {
+      setForm(draftToForm(result.draft));
+      setNeedsReview(result.needsReview.map((key) => REVIEW_FIELD_ALIASES[key] ?? key));
+      setPdfImport(result);
+      toast.success(`Draft pre-filled from ${result.file.fileName}. Review the highlighted fields.`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to read the notification PDF'),
+  });
+
+  const markReviewed = (key: string) => setNeedsReview((current) => current.filter((item) => item !== key));
+  const reviewBadge = (key: string) => (needsReview.includes(key) ? <NeedsReviewBadge onReviewed={() => markReviewed(key)} /> : null);
+  const rowsReviewed = (key: string) => (needsReview.includes(key) ? () => markReviewed(key) : undefined);
+
   const workflowMutation = useMutation({
     mutationFn: async (action: 'submit' | 'approve' | 'publish' | 'archive' | 'restore') => {
       if (!id) throw new Error('Save the draft before running workflow actions');
@@ -295,6 +570,7 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
   const canSubmit = currentPost?.readiness?.canSubmit ?? true;
   const canApprove = currentPost?.readiness?.canApprove ?? true;
   const canPublish = currentPost?.readiness?.canPublish ?? true;
+  const versions = historyQuery.data?.data.versions ?? [];
 
   return (
     <div className="space-y-5">
@@ -307,6 +583,25 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
           <p className="text-[12px] text-gray-500">Structured CMS editor for jobs, results, admit cards, admissions, and notices.</p>
         </div>
         <div className="flex flex-wrap gap-2">
+          {!isEdit ? (
+            <label
+              title="Replaces the form with fields read from the PDF"
+              className={`inline-flex cursor-pointer items-center gap-2 rounded-xl border border-gray-200 px-3 py-2 text-[12px] font-semibold text-gray-700 hover:bg-gray-50 ${pdfImportMutation.isPending ? 'pointer-events-none opacity-50' : ''}`}
+            >
+              <FileUp size={14} />
+              {pdfImportMutation.isPending ? 'Reading PDF…' : 'Import from notification PDF'}
+              <input
+                type="file"
+                accept="application/pdf,.pdf"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  event.target.value = '';
+                  if (file) pdfImportMutation.mutate(file);
+                }}
+              />
+            </label>
+          ) : null}
           <button
             type="button"
             onClick={() => saveMutation.mutate()}
@@ -372,11 +667,38 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
         </div>
       </div>
 
+      {pdfImport && !isEdit ? (
+        <div className="space-y-2 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-[12px] text-amber-900">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-bold">Pre-filled from {pdfImport.file.fileName}</span>
+            <span>{pdfImport.file.pageCount} page(s)</span>
+            <a href={pdfImport.file.url} target="_blank" rel="noreferrer" className="font-semibold underline">Open PDF</a>
+            <button type="button" onClick={() => setNeedsReview([])} className="ml-auto rounded-lg border border-amber-300 px-2 py-1 text-[11px] font-semibold hover:bg-amber-100">
+              Mark all reviewed
+            </button>
+          </div>
+          <div>
+            {needsReview.length
+              ? `${needsReview.length} extracted field(s) still need review. Check each against the notice before submitting.`
+              : 'All extracted fields have been reviewed.'}
+          </div>
+          {pdfImport.warnings.map((warning) => (
+            <div key={warning} className="font-semibold">• {warning}</div>
+          ))}
+          {pdfImport.textPreview ? (
+            <details>
+              <summary className="cursor-pointer font-semibold">Extracted text</summary>
+              <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded-lg bg-white p-2 text-[11px] text-gray-700">{pdfImport.textPreview}</pre>
+            </details>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="grid gap-5 xl:grid-cols-[1.65fr_0.95fr]">
         <div className="space-y-5">
           <div className="grid gap-4 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm md:grid-cols-2">
             <div className="md:col-span-2">
-              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Title</label>
+              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Title{reviewBadge('title')}</label>
               <input value={form.title} onChange={(event) => setForm((current) => ({ ...current, title: event.target.value }))} className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none" />
             </div>
             <div>
@@ -395,7 +717,7 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
               </select>
             </div>
             <div className="md:col-span-2">
-              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Summary</label>
+              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Summary{reviewBadge('summary')}</label>
               <textarea value={form.summary} onChange={(event) => setForm((current) => ({ ...current, summary: event.target.value }))} rows={3} className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none" />
             </div>
             <div className="md:col-span-2">
@@ -406,7 +728,7 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
 
           <div className="grid gap-4 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm md:grid-cols-2">
             <div>
-              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Organization</label>
+              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Organization{reviewBadge('organizationName')}</label>
               <input value={form.organizationName} onChange={(event) => setForm((current) => ({ ...current, organizationName: event.target.value }))} className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none" />
             </div>
             <div>
@@ -429,6 +751,22 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
               <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Exam</label>
               <input value={form.examName} onChange={(event) => setForm((current) => ({ ...current, examName: event.target.value }))} className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none" />
             </div>
+            <div className="md:col-span-2">
+              <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Exam Cycle</label>
+              <input
+                value={form.examCycleName}
+                onChange={(event) => setForm((current) => ({ ...current, examCycleName: event.target.value }))}
+                list="exam-cycle-options"
+                placeholder="SSC CGL 2026"
+                className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none"
+              />
+              <datalist id="exam-cycle-options">
+                {(examCyclesQuery.data ?? []).map((cycle) => (
+                  <option key={cycle.id} value={cycle.name}>{`${cycle.postCount} post${cycle.postCount === 1 ? '' : 's'}`}</option>
+                ))}
+              </datalist>
+              <p className="mt-1 text-[11px] text-gray-500">Links the job, admit card, answer key and result of one recruitment round. Readers tracking the job are notified when the later posts go live.</p>
+            </div>
           </div>
 
           <div className="grid gap-4 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm md:grid-cols-3">
@@ -441,7 +779,7 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
               ['Exam / Result Date', 'examDate'],
             ].map(([label, key]) => (
               <div key={key}>
-                <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">{label}</label>
+                <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">{label}{reviewBadge(key)}</label>
                 <input
                   value={form[key as keyof FormState] as string}
                   onChange={(event) => setForm((current) => ({ ...current, [key]: event.target.value }))}
@@ -451,12 +789,17 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
             ))}
           </div>
 
-          <RowEditor title="Official Sources" rows={form.officialSources} onChange={(officialSources) => setForm((current) => ({ ...current, officialSources }))} createRow={() => ({ label: '', url: '', sourceType: 'website', isPrimary: false })} />
-          <RowEditor title="Important Dates" rows={form.importantDates} onChange={(importantDates) => setForm((current) => ({ ...current, importantDates }))} createRow={() => ({ label: '', value: '', kind: 'other' })} />
-          <RowEditor title="Eligibility" rows={form.eligibility} onChange={(eligibility) => setForm((current) => ({ ...current, eligibility }))} createRow={() => ({ label: '', description: '' })} />
-          <RowEditor title="Fee Rules" rows={form.feeRules} onChange={(feeRules) => setForm((current) => ({ ...current, feeRules }))} createRow={() => ({ category: '', amount: '', paymentNote: '' })} />
-          <RowEditor title="Vacancy Rows" rows={form.vacancyRows} onChange={(vacancyRows) => setForm((current) => ({ ...current, vacancyRows }))} createRow={() => ({ postName: '', department: '', vacancies: '', payLevel: '', salaryNote: '' })} />
+          <RowEditor title="Official Sources" rows={form.officialSources} onReviewed={rowsReviewed('officialSources')} onChange={(officialSources) => setForm((current) => ({ ...current, officialSources }))} createRow={() => ({ label: '', url: '', sourceType: 'website', isPrimary: false })} />
+          <RowEditor title="Important Dates" rows={form.importantDates} onReviewed={rowsReviewed('importantDates')} onChange={(importantDates) => setForm((current) => ({ ...current, importantDates }))} createRow={() => ({ label: '', value: '', kind: 'other' })} />
+          <EligibilityEditor rows={form.eligibility} onReviewed={rowsReviewed('eligibility')} onChange={(eligibility) => setForm((current) => ({ ...current, eligibility }))} />
+          <RowEditor title="Fee Rules" rows={form.feeRules} onReviewed={rowsReviewed('feeRules')} onChange={(feeRules) => setForm((current) => ({ ...current, feeRules }))} createRow={() => ({ category: '', amount: '', paymentNote: '' })} />
+          <RowEditor title="Vacancy Rows" rows={form.vacancyRows} onReviewed={rowsReviewed('vacancyRows')} onChange={(vacancyRows) => setForm((current) => ({ ...current, vacancyRows }))} createRow={() => ({ postName: '', department: '', vacancies: '', payLevel: '', salaryNote: '' })} />
           <RowEditor title="Admission Programs" rows={form.admissionPrograms} onChange={(admissionPrograms) => setForm((current) => ({ ...current, admissionPrograms }))} createRow={() => ({ programName: '', level: '', department: '', intake: '', eligibilityNote: '' })} />
+          <PostTranslationPanel
+            value={form.hindi}
+            status={currentPost?.translationStatus?.hi}
+            onChange={(hindi) => setForm((current) => ({ ...current, hindi }))}
+          />
         </div>
 
         <div className="space-y-5">
@@ -548,10 +891,27 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
             ) : null}
           </div>
 
+          {currentPost ? (
+            <PostDuplicatesPanel post={currentPost} canMerge={currentStatus !== 'archived' && userHasPermission(user, 'posts:write')} />
+          ) : null}
+
+          {currentPost && ['approved', 'published'].includes(currentStatus) && ['admin', 'superadmin'].includes(user?.role || '') ? (
+            <PostSchedulePanel post={currentPost} />
+          ) : null}
+
           <div className="space-y-3 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
             <div className="flex items-center gap-2">
               <History size={14} />
               <h3 className="text-[13px] font-bold text-gray-900">History</h3>
+              {versions.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => setDiffOpen(true)}
+                  className="ml-auto rounded-lg border border-gray-200 px-2 py-1 text-[11px] font-semibold text-gray-700 hover:bg-gray-50"
+                >
+                  Compare versions
+                </button>
+              ) : null}
             </div>
             {historyQuery.isLoading ? (
               <p className="text-[12px] text-gray-500">Loading history…</p>
@@ -570,6 +930,15 @@ export function AnnouncementForm({ id }: AnnouncementFormProps) {
           </div>
         </div>
       </div>
+      {diffOpen && id ? (
+        <VersionDiffDialog
+          postId={id}
+          versions={versions}
+          canRevert={userHasPermission(user, 'posts:revert')}
+          open={diffOpen}
+          onOpenChange={setDiffOpen}
+        />
+      ) : null}
     </div>
   );
 }
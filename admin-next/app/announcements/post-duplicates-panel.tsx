@@ -0,0 +1,112 @@
+'use client';
+
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, GitMerge } from 'lucide-react';
+import { toast } from 'sonner';
+import { confirmCmsPostDistinct, getCmsPostDuplicates, mergeCmsPost } from '@/lib/api';
+import type { CmsPost, CmsPostDuplicateReason } from '@/lib/types';
+
+const REASON_LABELS: Record<CmsPostDuplicateReason, string> = {
+  advertisement_number: 'Same advertisement no.',
+  official_source: 'Same official source',
+  title: 'Similar title',
+  organization: 'Same organization',
+  exam: 'Same exam',
+  key_dates: 'Same key dates',
+};
+
+/**
+ * Likely duplicates of a post. Submitting stays blocked until each one is
+ * confirmed distinct or merged into this post.
+ */
+export function PostDuplicatesPanel({ post, canMerge }: { post: CmsPost; canMerge: boolean }) {
+  const queryClient = useQueryClient();
+  const duplicatesQuery = useQuery({
+    queryKey: ['cms-post-duplicates', post.id],
+    queryFn: async () => (await getCmsPostDuplicates(post.id)).data,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['cms-post-duplicates', post.id] });
+    queryClient.invalidateQueries({ queryKey: ['cms-post', post.id] });
+    queryClient.invalidateQueries({ queryKey: ['cms-post-history', post.id] });
+    queryClient.invalidateQueries({ queryKey: ['cms-posts'] });
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: (otherId: string) => confirmCmsPostDistinct(post.id, otherId),
+    onSuccess: () => {
+      refresh();
+      toast.success('Marked as a different notice.');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to record the review'),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (duplicateId: string) => mergeCmsPost(post.id, duplicateId),
+    onSuccess: (result) => {
+      refresh();
+      toast.success(`Merged "${result.merged.title}" into this post.`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to merge posts'),
+  });
+
+  const duplicates = duplicatesQuery.data ?? [];
+  if (duplicates.length === 0) return null;
+  const pending = confirmMutation.isPending || mergeMutation.isPending;
+  const open = duplicates.filter((item) => !item.confirmedDistinct).length;
+
+  return (
+    <div className={`space-y-3 rounded-2xl border bg-white p-4 shadow-sm ${open > 0 ? 'border-amber-200' : 'border-gray-100'}`}>
+      <div className="flex items-center gap-2">
+        <Copy size={14} />
+        <h3 className="text-[13px] font-bold text-gray-900">Possible Duplicates</h3>
+      </div>
+      {open > 0 ? (
+        <p className="text-[12px] text-amber-800">Confirm each post is a different notice or merge it here before submitting.</p>
+      ) : null}
+      {duplicates.map((item) => (
+        <div key={item.postId} className="space-y-2 rounded-xl border border-gray-100 bg-gray-50 px-3 py-3 text-[12px] text-gray-700">
+          <div className="flex items-start justify-between gap-2">
+            <Link href={`/announcements/${item.postId}`} className="font-semibold text-gray-900 hover:underline">{item.title}</Link>
+            <span className="shrink-0 rounded-full bg-white px-2 py-0.5 text-[11px] font-bold">{Math.round(item.score * 100)}%</span>
+          </div>
+          <div className="text-[11px] text-gray-500">{item.slug} · {item.status.replace('_', ' ')}</div>
+          <div className="flex flex-wrap gap-1">
+            {item.reasons.map((reason) => (
+              <span key={reason} className="rounded-full bg-white px-2 py-0.5 text-[10px] font-semibold text-gray-600">{REASON_LABELS[reason]}</span>
+            ))}
+          </div>
+          {item.confirmedDistinct ? (
+            <div className="text-[11px] text-emerald-700">Confirmed distinct {new Date(item.confirmedDistinct.at).toLocaleDateString('en-IN')}</div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => confirmMutation.mutate(item.postId)}
+                disabled={pending}
+                className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-[11px] font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Not a duplicate
+              </button>
+              {canMerge ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Merge "${item.title}" into this post? It will be archived and its links will point here.`)) mergeMutation.mutate(item.postId);
+                  }}
+                  disabled={pending}
+                  className="inline-flex items-center gap-1 rounded-lg border border-gray-200 bg-white px-2 py-1 text-[11px] font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <GitMerge size={11} />
+                  Merge into this post
+                </button>
+              ) : null}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CalendarClock, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cancelCmsPostSchedule, scheduleCmsPost } from '@/lib/api';
+import type { CmsPost } from '@/lib/types';
+
+function toLocalInput(value?: string) {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+function toIso(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function formatWhen(value: string) {
+  return new Date(value).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Publish/unpublish times for a post; the backend worker performs the transition when each time passes. */
+export function PostSchedulePanel({ post }: { post: CmsPost }) {
+  const queryClient = useQueryClient();
+  const [publishAt, setPublishAt] = useState(toLocalInput(post.scheduledPublishAt));
+  const [unpublishAt, setUnpublishAt] = useState(toLocalInput(post.scheduledUnpublishAt));
+
+  useEffect(() => {
+    setPublishAt(toLocalInput(post.scheduledPublishAt));
+    setUnpublishAt(toLocalInput(post.scheduledUnpublishAt));
+  }, [post.scheduledPublishAt, post.scheduledUnpublishAt]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['cms-post', post.id] });
+    queryClient.invalidateQueries({ queryKey: ['cms-post-history', post.id] });
+    queryClient.invalidateQueries({ queryKey: ['cms-scheduled-posts'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => scheduleCmsPost(post.id, {
+      ...(post.status === 'approved' ? { publishAt: toIso(publishAt) } : {}),
+      unpublishAt: toIso(unpublishAt),
+    }),
+    onSuccess: () => {
+      refresh();
+      toast.success('Schedule saved.');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save schedule'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelCmsPostSchedule(post.id),
+    onSuccess: () => {
+      refresh();
+      toast.success('Schedule cleared.');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to clear schedule'),
+  });
+
+  const pending = saveMutation.isPending || cancelMutation.isPending;
+  const hasSchedule = Boolean(post.scheduledPublishAt || post.scheduledUnpublishAt);
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+      <div className="flex items-center gap-2">
+        <CalendarClock size={14} />
+        <h3 className="text-[13px] font-bold text-gray-900">Schedule</h3>
+      </div>
+      {hasSchedule ? (
+        <div className="rounded-xl border border-blue-100 bg-blue-50 px-3 py-3 text-[12px] text-blue-800">
+          {post.scheduledPublishAt ? <div>Publishes {formatWhen(post.scheduledPublishAt)}</div> : null}
+          {post.scheduledUnpublishAt ? <div>Unpublishes {formatWhen(post.scheduledUnpublishAt)}</div> : null}
+        </div>
+      ) : null}
+      {post.status === 'approved' ? (
+        <div>
+          <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Publish At</label>
+          <input type="datetime-local" value={publishAt} onChange={(event) => setPublishAt(event.target.value)} disabled={pending} className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none" />
+        </div>
+      ) : null}
+      <div>
+        <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">Unpublish At</label>
+        <input type="datetime-local" value={unpublishAt} onChange={(event) => setUnpublishAt(event.target.value)} disabled={pending} className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none" />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => saveMutation.mutate()}
+          disabled={pending || (!publishAt && !unpublishAt)}
+          className="inline-flex items-center gap-2 rounded-xl border border-blue-200 px-3 py-2 text-[12px] font-semibold text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+        >
+          <CalendarClock size={14} />
+          Save Schedule
+        </button>
+        {hasSchedule ? (
+          <button
+            type="button"
+            onClick={() => cancelMutation.mutate()}
+            disabled={pending}
+            className="inline-flex items-center gap-2 rounded-xl border border-gray-200 px-3 py-2 text-[12px] font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <X size={14} />
+            Clear
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import type { CmsTranslationStatus } from '@/lib/types';
+
+export type PostTranslationForm = {
+  title: string;
+  summary: string;
+  shortInfo: string;
+  body: string;
+  metaTitle: string;
+  metaDescription: string;
+};
+
+export const EMPTY_TRANSLATION: PostTranslationForm = {
+  title: '',
+  summary: '',
+  shortInfo: '',
+  body: '',
+  metaTitle: '',
+  metaDescription: '',
+};
+
+const STATUS_COPY: Record<CmsTranslationStatus, { label: string; tone: string }> = {
+  missing: { label: 'Not translated', tone: 'bg-slate-100 text-slate-700' },
+  outdated: { label: 'Outdated', tone: 'bg-amber-50 text-amber-700' },
+  complete: { label: 'Up to date', tone: 'bg-emerald-50 text-emerald-700' },
+};
+
+const FIELDS: Array<{ key: keyof PostTranslationForm; label: string; rows?: number }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'summary', label: 'Summary', rows: 3 },
+  { key: 'shortInfo', label: 'Short Info', rows: 3 },
+  { key: 'body', label: 'Body', rows: 8 },
+  { key: 'metaTitle', label: 'Meta Title' },
+  { key: 'metaDescription', label: 'Meta Description', rows: 3 },
+];
+
+/** Hindi copy for a post. Leaving the title empty removes the translation on save. */
+export function PostTranslationPanel({
+  value,
+  status,
+  onChange,
+}: {
+  value: PostTranslationForm;
+  status?: CmsTranslationStatus;
+  onChange: (next: PostTranslationForm) => void;
+}) {
+  const pill = status ? STATUS_COPY[status] : null;
+
+  return (
+    <div lang="hi" className="space-y-4 rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[13px] font-bold text-gray-900">Hindi Translation</h3>
+        {pill ? <span className={`rounded-full px-2.5 py-1 text-[11px] font-semibold ${pill.tone}`}>{pill.label}</span> : null}
+      </div>
+      {status === 'outdated' ? (
+        <p className="text-[12px] text-amber-700">The English copy changed after this translation was written. Update the Hindi text to match.</p>
+      ) : null}
+      {FIELDS.map((field) => (
+        <div key={field.key}>
+          <label className="mb-1 block text-[11px] font-bold uppercase tracking-[0.08em] text-gray-500">{field.label}</label>
+          {field.rows ? (
+            <textarea
+              value={value[field.key]}
+              onChange={(event) => onChange({ ...value, [field.key]: event.target.value })}
+              rows={field.rows}
+              className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none"
+            />
+          ) : (
+            <input
+              value={value[field.key]}
+              onChange={(event) => onChange({ ...value, [field.key]: event.target.value })}
+              className="w-full rounded-xl border border-gray-200 px-3 py-2.5 text-[13px] text-gray-800 outline-none"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
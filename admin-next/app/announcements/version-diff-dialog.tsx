@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getCmsPostDiff, revertCmsPostVersion } from '@/lib/api';
+import type { CmsPostDiffRowField, CmsPostFieldDiff, CmsPostRevertSelection, CmsPostVersion } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const CURRENT = 'current';
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.length ? value.map(formatValue).join(', ') : '—';
+  const record = value as Record<string, unknown>;
+  if (typeof record.name === 'string') return record.name;
+  const parts = Object.entries(record)
+    .filter(([, entry]) => entry !== undefined && entry !== null && entry !== '')
+    .map(([key, entry]) => `${key}: ${typeof entry === 'object' ? JSON.stringify(entry) : String(entry)}`);
+  return parts.length ? parts.join(' · ') : '—';
+}
+
+function fieldKey(field: string) {
+  return `field:${field}`;
+}
+
+function rowKey(field: CmsPostDiffRowField, index: number) {
+  return `row:${field}:${index}`;
+}
+
+function toSelection(keys: Set<string>): CmsPostRevertSelection {
+  const selection: CmsPostRevertSelection = {};
+  for (const key of keys) {
+    const [kind, field, index] = key.split(':');
+    if (kind === 'field') {
+      selection.fields = [...(selection.fields ?? []), field];
+    } else {
+      const rows = (selection.rows ??= {});
+      rows[field as CmsPostDiffRowField] = [...(rows[field as CmsPostDiffRowField] ?? []), Number(index)];
+    }
+  }
+  return selection;
+}
+
+function DiffCells({ before, after }: { before: unknown; after: unknown }) {
+  return (
+    <>
+      <div className="rounded-lg bg-red-50 px-2 py-1.5 text-[12px] text-red-900 whitespace-pre-wrap break-words">{formatValue(before)}</div>
+      <div className="rounded-lg bg-emerald-50 px-2 py-1.5 text-[12px] text-emerald-900 whitespace-pre-wrap break-words">{formatValue(after)}</div>
+    </>
+  );
+}
+
+function DiffEntry({
+  change,
+  selectable,
+  selected,
+  onToggle,
+}: {
+  change: CmsPostFieldDiff;
+  selectable: boolean;
+  selected: Set<string>;
+  onToggle: (key: string) => void;
+}) {
+  if (change.kind === 'value') {
+    const key = fieldKey(change.field);
+    return (
+      <div className="grid grid-cols-[1.25rem_9rem_1fr_1fr] items-start gap-2 py-2">
+        {selectable ? <Checkbox checked={selected.has(key)} onCheckedChange={() => onToggle(key)} aria-label={`Revert ${change.label}`} /> : <span />}
+        <div className="text-[12px] font-semibold text-gray-700">{change.label}</div>
+        <DiffCells before={change.before} after={change.after} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-2">
+      <div className="mb-1 text-[12px] font-semibold text-gray-700">{change.label}</div>
+      {change.rows.map((row) => {
+        const key = rowKey(change.field, row.index);
+        return (
+          <div key={key} className="grid grid-cols-[1.25rem_9rem_1fr_1fr] items-start gap-2 py-1">
+            {selectable ? <Checkbox checked={selected.has(key)} onCheckedChange={() => onToggle(key)} aria-label={`Revert ${change.label} row ${row.index + 1}`} /> : <span />}
+            <div className="text-[11px] text-gray-500">Row {row.index + 1} · {row.change}</div>
+            <DiffCells before={row.before} after={row.after} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of two post versions. Against the current post,
+ * editors with revert access can restore individual fields or table rows.
+ */
+export function VersionDiffDialog({
+  postId,
+  versions,
+  canRevert,
+  open,
+  onOpenChange,
+}: {
+  postId: string;
+  versions: CmsPostVersion[];
+  canRevert: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [fromVersion, setFromVersion] = useState<number | null>(versions[1]?.version ?? versions[0]?.version ?? null);
+  const [toVersion, setToVersion] = useState<string>(CURRENT);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const diffQuery = useQuery({
+    queryKey: ['cms-post-diff', postId, fromVersion, toVersion],
+    queryFn: async () => (await getCmsPostDiff(postId, fromVersion!, toVersion === CURRENT ? undefined : Number(toVersion))).data,
+    enabled: open && fromVersion !== null,
+  });
+  const changes = diffQuery.data?.changes ?? [];
+  const selectable = canRevert && toVersion === CURRENT;
+
+  const resetSelection = () => setSelected(new Set());
+
+  const revertMutation = useMutation({
+    mutationFn: (selection?: CmsPostRevertSelection) => revertCmsPostVersion(postId, fromVersion!, undefined, selection),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cms-post', postId] });
+      queryClient.invalidateQueries({ queryKey: ['cms-post-history', postId] });
+      queryClient.invalidateQueries({ queryKey: ['cms-post-diff', postId] });
+      queryClient.invalidateQueries({ queryKey: ['cms-posts'] });
+      resetSelection();
+      toast.success(`Reverted to version ${fromVersion}.`);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to revert'),
+  });
+
+  const toggle = (key: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!revertMutation.isPending) onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>Red shows the older version, green the newer one. Tick fields or rows to bring back from the older version.</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-center gap-2 text-[12px]">
+          <Select value={fromVersion !== null ? String(fromVersion) : undefined} onValueChange={(value) => { setFromVersion(Number(value)); resetSelection(); }}>
+            <SelectTrigger className="w-40"><SelectValue placeholder="Version" /></SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={String(version.version)}>Version {version.version}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-gray-500">compared with</span>
+          <Select value={toVersion} onValueChange={(value) => { setToVersion(value); resetSelection(); }}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT}>Current post</SelectItem>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={String(version.version)}>Version {version.version}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="max-h-[55vh] divide-y overflow-y-auto rounded-xl border px-3">
+          {diffQuery.isLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+          ) : diffQuery.isError ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">The comparison could not be loaded.</p>
+          ) : changes.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No differences between these versions.</p>
+          ) : (
+            changes.map((change) => (
+              <DiffEntry key={`${change.kind}-${change.field}`} change={change} selectable={selectable} selected={selected} onToggle={toggle} />
+            ))
+          )}
+        </div>
+        {selectable ? (
+          <DialogFooter>
+            <Button variant="outline" disabled={revertMutation.isPending || fromVersion === null} onClick={() => revertMutation.mutate(undefined)}>
+              Restore whole version
+            </Button>
+            <Button disabled={revertMutation.isPending || selected.size === 0} onClick={() => revertMutation.mutate(toSelection(selected))}>
+              {revertMutation.isPending ? <Loader2 className="animate-spin" /> : <Undo2 />}Revert {selected.size || ''} selected
+            </Button>
+          </DialogFooter>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,17 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getCalendarAnnouncements, getUpcomingDeadlines } from '@/lib/api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { cancelCmsPostSchedule, getCalendarAnnouncements, getScheduledCmsPosts, getUpcomingDeadlines } from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import type { ScheduledCmsPost } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ChevronLeft, ChevronRight, AlertCircle } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, addMonths, subMonths, startOfWeek, endOfWeek, isSameDay, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, AlertCircle, CalendarClock, X } from 'lucide-react';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, addMonths, subMonths, startOfWeek, endOfWeek, isSameDay, parseISO, addDays } from 'date-fns';
 import Link from 'next/link';
 
 const STATUS_COLORS: Record<string, string> = {
@@ -19,6 +22,13 @@ const STATUS_COLORS: Record<string, string> = {
   archived: 'bg-gray-400',
 };
 
+const SCHEDULE_STYLES: Record<ScheduledEntry['kind'], string> = {
+  publish: 'border-blue-300 bg-blue-50 text-blue-800',
+  unpublish: 'border-orange-300 bg-orange-50 text-orange-800',
+};
+
+const endOfDayIso = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59, 59, 999).toISOString();
+
 const TYPE_LABELS: Record<string, string> = {
   job: 'Job',
   result: 'Result',
@@ -28,6 +38,21 @@ const TYPE_LABELS: Record<string, string> = {
   admission: 'Admission',
 };
 
+interface ScheduledEntry {
+  post: ScheduledCmsPost;
+  kind: 'publish' | 'unpublish';
+  at: Date;
+}
+
+function toScheduledEntries(posts: ScheduledCmsPost[] = []): ScheduledEntry[] {
+  return posts
+    .flatMap((post) => [
+      ...(post.scheduledPublishAt ? [{ post, kind: 'publish' as const, at: parseISO(post.scheduledPublishAt) }] : []),
+      ...(post.scheduledUnpublishAt ? [{ post, kind: 'unpublish' as const, at: parseISO(post.scheduledUnpublishAt) }] : []),
+    ])
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
 interface CalendarEvent {
   id: string;
   title: string;
@@ -42,6 +67,9 @@ export function CalendarPage() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const canManageSchedule = ['admin', 'superadmin'].includes(user?.role || '');
 
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
@@ -69,6 +97,33 @@ export function CalendarPage() {
     },
   });
 
+  const scheduledMonthQuery = useQuery({
+    queryKey: ['cms-scheduled-posts', calendarStart.toISOString(), calendarEnd.toISOString()],
+    queryFn: async () => {
+      const res = await getScheduledCmsPosts({ from: calendarStart.toISOString(), to: endOfDayIso(calendarEnd) });
+      return toScheduledEntries(res.data);
+    },
+  });
+
+  const upcomingScheduledQuery = useQuery({
+    queryKey: ['cms-scheduled-posts', 'upcoming'],
+    queryFn: async () => {
+      const now = new Date();
+      const res = await getScheduledCmsPosts({ from: now.toISOString(), to: addDays(now, 30).toISOString() });
+      return toScheduledEntries(res.data);
+    },
+  });
+
+  const cancelScheduleMutation = useMutation({
+    mutationFn: (post: ScheduledCmsPost) => cancelCmsPostSchedule(post.id),
+    onSuccess: (_result, post) => {
+      queryClient.invalidateQueries({ queryKey: ['cms-scheduled-posts'] });
+      queryClient.invalidateQueries({ queryKey: ['cms-post', post.id] });
+      toast.success(`Schedule cleared for "${post.title}".`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to clear schedule'),
+  });
+
   const calendarDays = useMemo(() => {
     return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
   }, [calendarStart, calendarEnd]);
@@ -85,6 +140,9 @@ export function CalendarPage() {
     });
   };
 
+  const getScheduledForDay = (day: Date): ScheduledEntry[] =>
+    (scheduledMonthQuery.data ?? []).filter((entry) => isSameDay(entry.at, day));
+
   const navigateMonth = (direction: 'prev' | 'next') => {
     setCurrentDate(direction === 'prev' ? subMonths(currentDate, 1) : addMonths(currentDate, 1));
   };
@@ -164,6 +222,7 @@ export function CalendarPage() {
             <div className="grid grid-cols-7 gap-px bg-border border border-t-0 rounded-b-lg overflow-hidden">
               {calendarDays.map((day) => {
                 const dayEvents = getEventsForDay(day);
+                const dayScheduled = getScheduledForDay(day);
                 const isCurrentMonth = isSameMonth(day, currentDate);
                 const isTodayDate = isToday(day);
                 
@@ -178,6 +237,17 @@ export function CalendarPage() {
                       {format(day, 'd')}
                     </div>
                     <div className="space-y-1">
+                      {dayScheduled.map(entry => (
+                        <Link
+                          key={`${entry.kind}-${entry.post.id}`}
+                          href={`/announcements/${entry.post.id}`}
+                          className="block"
+                        >
+                          <div className={`text-xs truncate px-1.5 py-0.5 rounded border ${SCHEDULE_STYLES[entry.kind]}`}>
+                            {format(entry.at, 'HH:mm')} {entry.post.title.slice(0, 14)}{entry.post.title.length > 14 ? '...' : ''}
+                          </div>
+                        </Link>
+                      ))}
                       {dayEvents.slice(0, 3).map(event => (
                         <Link
                           key={event.id}
@@ -204,6 +274,49 @@ export function CalendarPage() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Scheduled publishing lane */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-blue-500" />
+                <CardTitle className="text-base">Scheduled</CardTitle>
+              </div>
+              <CardDescription>Automatic publish and unpublish, next 30 days</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {upcomingScheduledQuery.isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading schedule…</p>
+              ) : upcomingScheduledQuery.isError ? (
+                <p className="text-sm text-muted-foreground text-center py-4">Schedule is unavailable</p>
+              ) : upcomingScheduledQuery.data?.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">Nothing scheduled</p>
+              ) : (
+                upcomingScheduledQuery.data?.map(entry => (
+                  <div key={`${entry.kind}-${entry.post.id}`} className="flex items-start gap-2 p-3 rounded-lg border bg-muted/30">
+                    <Link href={`/announcements/${entry.post.id}`} className="flex-1 min-w-0 hover:underline">
+                      <p className="text-sm font-medium line-clamp-2">{entry.post.title}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {entry.kind === 'publish' ? 'Publishes' : 'Unpublishes'} {format(entry.at, 'd MMM, HH:mm')}
+                      </p>
+                    </Link>
+                    {canManageSchedule ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        title="Clear schedule"
+                        disabled={cancelScheduleMutation.isPending}
+                        onClick={() => cancelScheduleMutation.mutate(entry.post)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    ) : null}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
           {/* Upcoming Deadlines */}
           <Card>
             <CardHeader>
@@ -253,6 +366,12 @@ export function CalendarPage() {
                     <span className="text-sm capitalize">{status}</span>
                   </div>
                 ))}
+                {Object.entries(SCHEDULE_STYLES).map(([kind, style]) => (
+                  <div key={kind} className="flex items-center gap-2">
+                    <div className={`w-3 h-3 rounded-full border ${style}`} />
+                    <span className="text-sm">Scheduled {kind}</span>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,318 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Eye, History, Loader2, RefreshCw, RotateCcw, Save, Send } from 'lucide-react';
+
+import {
+  getEmailTemplate,
+  getEmailTemplates,
+  previewEmailTemplate,
+  saveEmailTemplate,
+  sendTestEmailTemplate,
+  type EmailTemplateDetail,
+  type EmailTemplateSummary,
+} from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+type Draft = { subject: string; html: string; note: string };
+type Preview = { subject: string; html: string };
+
+function formatDate(value?: string) {
+  if (!value) return 'Built-in default';
+  return new Intl.DateTimeFormat('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(value));
+}
+
+export function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [detail, setDetail] = useState<EmailTemplateDetail | null>(null);
+  const [draft, setDraft] = useState<Draft>({ subject: '', html: '', note: '' });
+  const [postId, setPostId] = useState('');
+  const [subscriberEmail, setSubscriberEmail] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const dirty = Boolean(detail) && (draft.subject !== detail?.subject || draft.html !== detail?.html);
+
+  useEffect(() => {
+    void loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+    if (selectedKey) void loadTemplate(selectedKey);
+  }, [selectedKey]);
+
+  async function loadTemplates() {
+    setLoading(true);
+    try {
+      const response = await getEmailTemplates();
+      setTemplates(response.data);
+      setSelectedKey((current) => current ?? response.data.find((template) => template.kind === 'template')?.key ?? null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load email templates.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadTemplate(key: string) {
+    try {
+      const response = await getEmailTemplate(key);
+      setDetail(response.data);
+      setDraft({ subject: response.data.subject, html: response.data.html, note: '' });
+    } catch (error) {
+      setDetail(null);
+      toast.error(error instanceof Error ? error.message : 'Failed to load template.');
+    }
+  }
+
+  function previewInput() {
+    return {
+      subject: draft.subject,
+      html: draft.html,
+      postId: postId.trim() || undefined,
+      subscriberEmail: subscriberEmail.trim() || undefined,
+    };
+  }
+
+  async function handlePreview() {
+    if (!selectedKey) return;
+    setBusyAction('preview');
+    try {
+      const response = await previewEmailTemplate(selectedKey, previewInput());
+      setPreview(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to render preview.');
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
+  async function handleTestSend() {
+    if (!selectedKey) return;
+    setBusyAction('test-send');
+    try {
+      const response = await sendTestEmailTemplate(selectedKey, previewInput());
+      toast.success(response.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send test email.');
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
+  async function handleSave() {
+    if (!selectedKey) return;
+    setBusyAction('save');
+    try {
+      const response = await saveEmailTemplate(selectedKey, {
+        subject: draft.subject,
+        html: draft.html,
+        note: draft.note.trim() || undefined,
+      });
+      toast.success(`${response.message} (v${response.data.version})`);
+      await Promise.all([loadTemplate(selectedKey), loadTemplates()]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template.');
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
+  if (loading && templates.length === 0) {
+    return (
+      <div className="flex min-h-105 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const isPartial = detail?.kind === 'partial';
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-[18px] font-extrabold text-foreground">Email Templates</h2>
+          <p className="text-[12px] text-muted-foreground">Edit, preview and test the emails sent to subscribers and staff.</p>
+        </div>
+        <Button type="button" variant="outline" onClick={() => void loadTemplates()} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid gap-4 xl:grid-cols-[280px_minmax(0,1fr)]">
+        <div className="overflow-hidden rounded-lg border border-border bg-card">
+          {(['template', 'partial'] as const).map((kind) => (
+            <div key={kind}>
+              <div className="border-b border-border px-4 py-3">
+                <p className="text-[11px] font-bold uppercase text-muted-foreground">{kind === 'template' ? 'Templates' : 'Partials'}</p>
+              </div>
+              {templates.filter((template) => template.kind === kind).map((template) => (
+                <button
+                  key={template.key}
+                  type="button"
+                  onClick={() => setSelectedKey(template.key)}
+                  className={`w-full border-b border-border px-4 py-3 text-left transition-colors hover:bg-muted/60 ${selectedKey === template.key ? 'bg-muted' : 'bg-card'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="truncate text-sm font-bold text-foreground">{template.name}</p>
+                    <Badge variant="outline">{template.customized ? `v${template.version}` : 'default'}</Badge>
+                  </div>
+                  <p className="mt-1 text-[12px] text-muted-foreground">{template.description}</p>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {detail ? (
+          <div className="space-y-4">
+            <div className="space-y-3 rounded-lg border border-border bg-card p-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h3 className="text-base font-extrabold text-foreground">{detail.name}</h3>
+                  <p className="text-[12px] text-muted-foreground">
+                    {detail.customized ? `Version ${detail.version} · ${formatDate(detail.updatedAt)}` : 'Using the built-in default'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft({ subject: detail.defaultSubject, html: detail.defaultHtml, note: 'Restore default' })}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    Load default
+                  </Button>
+                  <Button type="button" size="sm" onClick={() => void handleSave()} disabled={!dirty || busyAction !== null}>
+                    {busyAction === 'save' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+                    Save version
+                  </Button>
+                </div>
+              </div>
+
+              {detail.variables.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {detail.variables.map((variable) => (
+                    <code key={variable} className="rounded bg-muted px-1.5 py-0.5 text-[11px]">{`{{${variable}}}`}</code>
+                  ))}
+                </div>
+              ) : null}
+
+              {isPartial ? null : (
+                <div className="space-y-1">
+                  <label className="text-[11px] font-bold uppercase text-muted-foreground" htmlFor="email-template-subject">Subject</label>
+                  <Input
+                    id="email-template-subject"
+                    value={draft.subject}
+                    onChange={(event) => setDraft((current) => ({ ...current, subject: event.target.value }))}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <label className="text-[11px] font-bold uppercase text-muted-foreground" htmlFor="email-template-html">HTML</label>
+                <Textarea
+                  id="email-template-html"
+                  value={draft.html}
+                  onChange={(event) => setDraft((current) => ({ ...current, html: event.target.value }))}
+                  className="min-h-90 font-mono text-xs"
+                  spellCheck={false}
+                />
+                <p className="text-[11px] text-muted-foreground">
+                  {'Use {{name}} for escaped values, {{{name}}} for raw HTML, {{#items}}…{{/items}} for lists and {{> partial}} for shared blocks.'}
+                </p>
+              </div>
+              <Input
+                value={draft.note}
+                onChange={(event) => setDraft((current) => ({ ...current, note: event.target.value }))}
+                placeholder="Change note (optional)"
+                maxLength={300}
+              />
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border bg-card p-4">
+              <p className="text-[11px] font-bold uppercase text-muted-foreground">Preview</p>
+              <div className="flex flex-wrap gap-2">
+                <Input value={postId} onChange={(event) => setPostId(event.target.value)} placeholder="Post ID (optional)" className="w-64" />
+                <Input
+                  value={subscriberEmail}
+                  onChange={(event) => setSubscriberEmail(event.target.value)}
+                  placeholder="Subscriber email (optional)"
+                  className="w-64"
+                />
+                <Button type="button" variant="outline" onClick={() => void handlePreview()} disabled={busyAction !== null}>
+                  {busyAction === 'preview' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                  Render
+                </Button>
+                <Button type="button" variant="outline" onClick={() => void handleTestSend()} disabled={busyAction !== null}>
+                  {busyAction === 'test-send' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                  Send test to me
+                </Button>
+              </div>
+              {preview ? (
+                <div className="overflow-hidden rounded-md border border-border">
+                  {isPartial ? null : (
+                    <p className="border-b border-border bg-muted/40 px-3 py-2 text-sm">
+                      <span className="font-semibold">Subject:</span> {preview.subject}
+                    </p>
+                  )}
+                  <iframe title="Email preview" srcDoc={preview.html} sandbox="" className="h-130 w-full bg-white" />
+                </div>
+              ) : (
+                <p className="text-[12px] text-muted-foreground">
+                  Render the current draft against a real post and subscriber, or sample data when left blank.
+                </p>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-border bg-card p-4">
+              <p className="mb-2 flex items-center gap-1.5 text-[11px] font-bold uppercase text-muted-foreground">
+                <History className="h-3.5 w-3.5" />
+                Version history
+              </p>
+              {detail.versions.length === 0 ? (
+                <p className="text-[12px] text-muted-foreground">No saved versions yet.</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {detail.versions.map((version) => (
+                    <div key={version.version} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-foreground">v{version.version}{version.note ? ` · ${version.note}` : ''}</p>
+                        <p className="text-[11px] text-muted-foreground">{formatDate(version.createdAt)} · {version.createdBy}</p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ subject: version.subject, html: version.html, note: `Restore v${version.version}` })}
+                      >
+                        Load
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-border bg-card p-8 text-sm text-muted-foreground">Select a template to edit.</div>
+        )}
+      </div>
+    </div>
+  );
+}
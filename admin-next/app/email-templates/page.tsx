@@ -0,0 +1,10 @@
+import { AdminPageShell } from '@/components/admin-page-shell';
+import { EmailTemplatesPage } from './email-templates-page';
+
+export default function Page() {
+  return (
+    <AdminPageShell permission="campaigns:read">
+      <EmailTemplatesPage />
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { toast } from 'sonner';
+import { ArrowLeft, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+
+import { parsePostImport, runPostImport } from '@/lib/api';
+import type { PostImportFormat, PostImportPreview, PostImportReport, PostImportRowStatus } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+
+type Step = 'upload' | 'mapping' | 'report';
+
+const postTypes = ['job', 'result', 'admit-card', 'answer-key', 'admission', 'syllabus'];
+
+const statusVariant: Record<PostImportRowStatus, 'success' | 'destructive' | 'warning' | 'outline' | 'secondary'> = {
+  valid: 'success',
+  created: 'success',
+  invalid: 'destructive',
+  failed: 'destructive',
+  duplicate: 'warning',
+  skipped: 'secondary',
+};
+
+const selectClass = 'h-8 w-full rounded-lg border bg-background px-2 text-xs';
+
+function detectFormat(fileName: string): PostImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  if (extension === 'json') return 'json';
+  return null;
+}
+
+async function readFileContent(file: File, format: PostImportFormat): Promise<string> {
+  if (format !== 'xlsx') return file.text();
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return window.btoa(binary);
+}
+
+function previewCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+export function ImportsPage() {
+  const [step, setStep] = useState<Step>('upload');
+  const [source, setSource] = useState<{ format: PostImportFormat; content: string; fileName: string } | null>(null);
+  const [preview, setPreview] = useState<PostImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [defaultType, setDefaultType] = useState('');
+  const [defaultCategories, setDefaultCategories] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [report, setReport] = useState<PostImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const missingRequired = useMemo(() => {
+    if (!preview) return [];
+    const mapped = new Set(Object.values(mapping));
+    return preview.fields.filter((field) => {
+      if (!field.required || mapped.has(field.key)) return false;
+      if (field.key === 'type' && defaultType) return false;
+      if (field.key === 'categories' && defaultCategories.trim()) return false;
+      return true;
+    });
+  }, [preview, mapping, defaultType, defaultCategories]);
+
+  async function handleFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const format = detectFormat(file.name);
+    if (!format) {
+      toast.error('Choose a .csv, .xlsx or .json file.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const content = await readFileContent(file, format);
+      const response = await parsePostImport({ format, content, fileName: file.name });
+      setSource({ format, content, fileName: file.name });
+      setPreview(response.data);
+      setMapping(response.data.suggestedMapping);
+      setReport(null);
+      setStep('mapping');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the file.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRun(dryRun: boolean) {
+    if (!source) return;
+    if (!dryRun && !window.confirm('Create draft posts for every importable row?')) return;
+    setBusy(true);
+    try {
+      const categories = defaultCategories.split(',').map((name) => name.trim()).filter(Boolean);
+      const response = await runPostImport({
+        ...source,
+        mapping: Object.fromEntries(Object.entries(mapping).filter(([, field]) => field)),
+        defaults: {
+          type: defaultType || undefined,
+          categories: categories.length > 0 ? categories : undefined,
+        },
+        dryRun,
+        skipDuplicates,
+      });
+      setReport(response.data);
+      setStep('report');
+      if (!dryRun) toast.success(`${response.data.summary.created} drafts created.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function reset() {
+    setStep('upload');
+    setSource(null);
+    setPreview(null);
+    setMapping({});
+    setReport(null);
+  }
+
+  const importable = report ? report.summary.valid + (skipDuplicates ? 0 : report.summary.duplicate) : 0;
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h2 className="text-[18px] font-extrabold text-foreground">Bulk import</h2>
+        <p className="text-[12px] text-muted-foreground">
+          Import full posts from CSV, XLSX or JSON as drafts. Map the columns, check the dry-run report, then import.
+        </p>
+      </div>
+
+      {step === 'upload' ? (
+        <label className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-lg border border-dashed border-border bg-card p-10 text-center">
+          {busy ? <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /> : <Upload className="h-6 w-6 text-muted-foreground" />}
+          <span className="text-sm font-bold text-foreground">Choose a file to import</span>
+          <span className="text-[12px] text-muted-foreground">The first row must hold column names. Up to 500 rows per run.</span>
+          <input type="file" accept=".csv,.txt,.xlsx,.json" className="sr-only" onChange={(event) => void handleFile(event)} disabled={busy} />
+        </label>
+      ) : null}
+
+      {step === 'mapping' && preview && source ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border bg-card px-4 py-3">
+            <p className="flex items-center gap-2 text-sm font-bold text-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {source.fileName}
+              <span className="font-normal text-muted-foreground">· {preview.rowCount} rows · {preview.columns.length} columns</span>
+            </p>
+            <Button type="button" variant="outline" onClick={reset} disabled={busy}>
+              <ArrowLeft className="h-4 w-4" />
+              Choose another file
+            </Button>
+          </div>
+
+          <div className="overflow-hidden rounded-lg border border-border bg-card">
+            <table className="w-full text-left text-[12px]">
+              <thead className="border-b border-border bg-muted/50 text-[11px] uppercase text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2">Column</th>
+                  <th className="px-4 py-2">First row</th>
+                  <th className="w-72 px-4 py-2">Import as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.columns.map((column) => {
+                  const field = preview.fields.find((item) => item.key === mapping[column]);
+                  return (
+                    <tr key={column} className="border-b border-border last:border-0 align-top">
+                      <td className="px-4 py-2 font-semibold text-foreground">{column}</td>
+                      <td className="px-4 py-2 text-muted-foreground">{previewCell(preview.sampleRows[0]?.[column])}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          aria-label={`Field for ${column}`}
+                          value={mapping[column] ?? ''}
+                          onChange={(event) => setMapping((current) => ({ ...current, [column]: event.target.value }))}
+                          className={selectClass}
+                        >
+                          <option value="">Ignore column</option>
+                          {preview.fields.map((item) => (
+                            <option key={item.key} value={item.key}>{item.label}{item.required ? ' *' : ''}</option>
+                          ))}
+                        </select>
+                        {field?.hint ? <p className="mt-1 text-[11px] text-muted-foreground">{field.hint}</p> : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid gap-3 rounded-lg border border-border bg-card p-4 md:grid-cols-3">
+            <label className="space-y-1 text-[12px] font-semibold text-foreground">
+              Default post type
+              <select value={defaultType} onChange={(event) => setDefaultType(event.target.value)} className={selectClass}>
+                <option value="">None</option>
+                {postTypes.map((type) => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-[12px] font-semibold text-foreground">
+              Default categories
+              <Input value={defaultCategories} onChange={(event) => setDefaultCategories(event.target.value)} placeholder="Latest Jobs, Central Govt" />
+            </label>
+            <label className="flex items-center gap-2 self-end text-[12px] font-semibold text-foreground">
+              <Checkbox checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(checked === true)} />
+              Skip rows that duplicate an existing post or an earlier row
+            </label>
+          </div>
+
+          {missingRequired.length > 0 ? (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-[12px] text-amber-800">
+              Not mapped: {missingRequired.map((field) => field.label).join(', ')}. Rows without them will fail validation.
+            </div>
+          ) : null}
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={() => void handleRun(true)} disabled={busy}>
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Run dry run
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {step === 'report' && report ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border bg-card px-4 py-3">
+            <div className="flex flex-wrap items-center gap-2 text-[12px]">
+              <span className="font-bold text-foreground">{report.dryRun ? 'Dry run' : 'Import'} · {report.totalRows} rows</span>
+              {(Object.keys(report.summary) as PostImportRowStatus[])
+                .filter((status) => report.summary[status] > 0)
+                .map((status) => (
+                  <Badge key={status} variant={statusVariant[status]}>{report.summary[status]} {status}</Badge>
+                ))}
+            </div>
+            <div className="flex gap-2">
+              {report.dryRun ? (
+                <>
+                  <Button type="button" variant="outline" onClick={() => setStep('mapping')} disabled={busy}>
+                    <ArrowLeft className="h-4 w-4" />
+                    Adjust mapping
+                  </Button>
+                  <Button type="button" onClick={() => void handleRun(false)} disabled={busy || importable === 0}>
+                    {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                    Import {importable} drafts
+                  </Button>
+                </>
+              ) : (
+                <Button type="button" variant="outline" onClick={reset}>Start another import</Button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-hidden rounded-lg border border-border bg-card">
+            <table className="w-full text-left text-[12px]">
+              <thead className="border-b border-border bg-muted/50 text-[11px] uppercase text-muted-foreground">
+                <tr>
+                  <th className="w-14 px-4 py-2">Row</th>
+                  <th className="px-4 py-2">Post</th>
+                  <th className="w-24 px-4 py-2">Status</th>
+                  <th className="px-4 py-2">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.row} className="border-b border-border last:border-0 align-top">
+                    <td className="px-4 py-2 text-muted-foreground">{row.row}</td>
+                    <td className="px-4 py-2">
+                      {row.postId ? (
+                        <Link href={`/announcements/${row.postId}`} className="font-semibold text-primary hover:underline">{row.title}</Link>
+                      ) : (
+                        <span className="font-semibold text-foreground">{row.title || 'Untitled'}</span>
+                      )}
+                      {row.slug ? <p className="text-[11px] text-muted-foreground">{row.type} · {row.slug}</p> : null}
+                    </td>
+                    <td className="px-4 py-2"><Badge variant={statusVariant[row.status]}>{row.status}</Badge></td>
+                    <td className="space-y-1 px-4 py-2">
+                      {row.errors.map((error) => <p key={error} className="text-destructive">{error}</p>)}
+                      {row.duplicates.map((duplicate) => (
+                        <p key={`${duplicate.source}-${duplicate.postId ?? duplicate.row}`} className="text-amber-700">
+                          {duplicate.source === 'existing' && duplicate.postId ? (
+                            <>Matches <Link href={`/announcements/${duplicate.postId}`} className="underline">{duplicate.title}</Link> ({duplicate.status})</>
+                          ) : (
+                            <>Same slug as row {duplicate.row}</>
+                          )}
+                        </p>
+                      ))}
+                      {row.warnings.map((warning) => <p key={warning} className="text-muted-foreground">{warning}</p>)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
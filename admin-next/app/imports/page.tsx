@@ -0,0 +1,10 @@
+import { AdminPageShell } from '@/components/admin-page-shell';
+import { ImportsPage } from './imports-page';
+
+export default function Page() {
+  return (
+    <AdminPageShell permission="posts:write">
+      <ImportsPage />
+    </AdminPageShell>
+  );
+}
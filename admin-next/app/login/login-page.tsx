@@ -12,11 +12,22 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Shield, Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
+import { RecoveryCodesNotice, TwoFactorStep } from './two-factor-step';
 
 type RecoveryMode = 'login' | 'request' | 'reset';
 
 export function LoginPage() {
-  const { login, loading, error, clearError } = useAuth();
+  const {
+    login,
+    verifyTwoFactor,
+    finishEnrolment,
+    cancelTwoFactor,
+    twoFactor,
+    enrolment,
+    loading,
+    error,
+    clearError,
+  } = useAuth();
 
   const [mode, setMode] = useState<RecoveryMode>('login');
   const [email, setEmail] = useState('');
@@ -113,6 +124,8 @@ export function LoginPage() {
     }
   };
 
+  const step = enrolment ? 'enrolment' : twoFactor ? 'two-factor' : mode;
+
   const backToLogin = () => {
     setMode('login');
     clearRecoveryFeedback();
@@ -128,16 +141,18 @@ export function LoginPage() {
           <div>
             <CardTitle className="text-2xl">Admin Console</CardTitle>
             <CardDescription className="mt-1">
-              {mode === 'login' && 'Sign in to manage SarkariExams.me'}
-              {mode === 'request' && 'Request a password recovery token'}
-              {mode === 'reset' && 'Reset password using your recovery token'}
+              {step === 'login' && 'Sign in to manage SarkariExams.me'}
+              {step === 'request' && 'Request a password recovery token'}
+              {step === 'reset' && 'Reset password using your recovery token'}
+              {step === 'two-factor' && (twoFactor?.setupRequired ? 'Set up two-factor authentication' : 'Enter the code from your authenticator app')}
+              {step === 'enrolment' && 'Save your recovery codes'}
             </CardDescription>
           </div>
         </CardHeader>
         <CardContent>
-          {(mode === 'login' || recoveryMessage || recoveryError) && (
+          {(step === 'login' || recoveryMessage || recoveryError) && (
             <div className="space-y-2 mb-4">
-              {mode === 'login' && error && (
+              {step === 'login' && error && (
                 <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
                   <AlertCircle className="h-4 w-4 shrink-0" />
                   <span>{error}</span>
@@ -157,7 +172,7 @@ export function LoginPage() {
             </div>
           )}
 
-          {mode === 'login' && (
+          {step === 'login' && (
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
                 <label htmlFor="email" className="text-sm font-medium text-foreground">
@@ -224,7 +239,7 @@ export function LoginPage() {
             </form>
           )}
 
-          {mode === 'request' && (
+          {step === 'request' && (
             <form onSubmit={handleRecoveryRequest} className="space-y-4">
               <div className="space-y-2">
                 <label htmlFor="recoveryEmail" className="text-sm font-medium text-foreground">
@@ -262,7 +277,7 @@ export function LoginPage() {
             </form>
           )}
 
-          {mode === 'reset' && (
+          {step === 'reset' && (
             <form onSubmit={handleRecoveryReset} className="space-y-4">
               <div className="space-y-2">
                 <label htmlFor="recoveryToken" className="text-sm font-medium text-foreground">
@@ -333,6 +348,14 @@ export function LoginPage() {
               </button>
             </form>
           )}
+
+          {step === 'two-factor' && twoFactor && (
+            <TwoFactorStep challenge={twoFactor} onVerify={verifyTwoFactor} onCancel={cancelTwoFactor} />
+          )}
+
+          {step === 'enrolment' && enrolment && (
+            <RecoveryCodesNotice codes={enrolment.recoveryCodes} onContinue={finishEnrolment} />
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ApiError, startTwoFactorSetup } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, ArrowLeft, Copy, KeyRound, Loader2 } from 'lucide-react';
+import type { TwoFactorChallenge } from '@/lib/types';
+
+function formatSecret(secret: string) {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+export function TwoFactorStep({
+  challenge,
+  onVerify,
+  onCancel,
+}: {
+  challenge: TwoFactorChallenge;
+  onVerify: (input: { code: string } | { recoveryCode: string }) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setupQuery = useQuery({
+    queryKey: ['two-factor-setup', challenge.challengeToken],
+    queryFn: () => startTwoFactorSetup(challenge.challengeToken),
+    enabled: challenge.setupRequired,
+    staleTime: Infinity,
+    retry: false,
+  });
+  const setup = setupQuery.data?.data;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = code.trim();
+    if (!value) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onVerify(useRecoveryCode ? { recoveryCode: value } : { code: value.replace(/\s/g, '') });
+    } catch (err) {
+      setError(err instanceof ApiError && err.status === 401
+        ? 'That code is not valid. Check your authenticator and try again.'
+        : err instanceof Error ? err.message : 'Verification failed.');
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {challenge.setupRequired && (
+        <div className="space-y-3 rounded-lg border bg-muted/40 p-3 text-sm">
+          <p>Two-factor authentication is required for staff accounts. Add this account to an authenticator app, then enter the 6-digit code it shows.</p>
+          {setupQuery.isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {setupQuery.isError && <p className="text-destructive">Could not start setup. Go back and sign in again.</p>}
+          {setup && (
+            <>
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">Setup key</div>
+                <div className="mt-1 flex items-center gap-2">
+                  <code className="break-all rounded bg-background px-2 py-1 text-xs font-semibold">{formatSecret(setup.secret)}</code>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Copy setup key"
+                    onClick={() => { void navigator.clipboard?.writeText(setup.secret); }}
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <a href={setup.otpauthUri} className="inline-flex items-center gap-1 text-xs text-primary hover:underline">
+                <KeyRound className="h-3.5 w-3.5" />
+                Open in authenticator app
+              </a>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="twoFactorCode" className="text-sm font-medium text-foreground">
+          {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+        </label>
+        <Input
+          id="twoFactorCode"
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          value={code}
+          onChange={e => { setCode(e.target.value); setError(null); }}
+          maxLength={useRecoveryCode ? 40 : 7}
+          required
+          autoFocus
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={submitting || !code.trim() || (challenge.setupRequired && !setup)}>
+        {submitting ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          'Verify'
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between text-xs">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-foreground inline-flex items-center gap-1"
+          onClick={onCancel}
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Back to sign in
+        </button>
+        {!challenge.setupRequired && (
+          <button
+            type="button"
+            className="text-primary hover:underline"
+            onClick={() => { setUseRecoveryCode(value => !value); setCode(''); setError(null); }}
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export function RecoveryCodesNotice({ codes, onContinue }: { codes: string[]; onContinue: () => void }) {
+  const [confirmed, setConfirmed] = useState(false);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Two-factor authentication is on. Store these recovery codes somewhere safe — each one signs you in once if you lose your authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/40 p-3 font-mono text-sm">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => { void navigator.clipboard?.writeText(codes.join('\n')); }}>
+          <Copy className="h-3.5 w-3.5" />
+          Copy codes
+        </Button>
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={confirmed} onChange={e => setConfirmed(e.target.checked)} />
+          I have saved these codes
+        </label>
+      </div>
+      <Button type="button" className="w-full" disabled={!confirmed} onClick={onContinue}>
+        Continue to admin console
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Inbox, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+
+import { clearMailbox, getMailbox, getMailboxMessage, type CapturedEmailSummary } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type Message = CapturedEmailSummary & { html: string };
+
+function formatDate(value: string) {
+  return new Intl.DateTimeFormat('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).format(new Date(value));
+}
+
+export function MailboxPage() {
+  const [messages, setMessages] = useState<CapturedEmailSummary[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [transport, setTransport] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [selected, setSelected] = useState<Message | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [clearing, setClearing] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await getMailbox({ to: recipient.trim() || undefined });
+        if (cancelled) return;
+        setMessages(response.data);
+        setEnabled(response.meta.enabled);
+        setTransport(response.meta.transport);
+      } catch (error) {
+        if (!cancelled) toast.error(error instanceof Error ? error.message : 'Failed to load mailbox.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [recipient, reloadToken]);
+
+  async function openMessage(id: string) {
+    try {
+      const response = await getMailboxMessage(id);
+      setSelected(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load message.');
+    }
+  }
+
+  async function handleClear() {
+    if (!window.confirm('Delete every captured email?')) return;
+    setClearing(true);
+    try {
+      const response = await clearMailbox();
+      toast.success(response.message);
+      setSelected(null);
+      setReloadToken((current) => current + 1);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to clear mailbox.');
+    } finally {
+      setClearing(false);
+    }
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-[18px] font-extrabold text-foreground">Mailbox</h2>
+          <p className="text-[12px] text-muted-foreground">Outgoing email captured instead of sent, for development and testing.</p>
+        </div>
+        <div className="flex gap-2">
+          <Input value={recipient} onChange={(event) => setRecipient(event.target.value)} placeholder="Filter by recipient" className="w-56" />
+          <Button type="button" variant="outline" onClick={() => setReloadToken((current) => current + 1)} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button type="button" variant="outline" onClick={() => void handleClear()} disabled={!enabled || clearing || messages.length === 0}>
+            {clearing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {!enabled ? (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800">
+          Email capture is off. The active transport is <strong>{transport ?? 'none'}</strong>; set <code>EMAIL_TRANSPORT=capture</code> to
+          collect outgoing email here instead of sending it.
+        </div>
+      ) : (
+        <div className="grid gap-4 xl:grid-cols-[minmax(320px,0.8fr)_minmax(480px,1.2fr)]">
+          <div className="overflow-hidden rounded-lg border border-border bg-card">
+            <div className="border-b border-border px-4 py-3">
+              <p className="text-[11px] font-bold uppercase text-muted-foreground">{messages.length} messages</p>
+            </div>
+            <div className="max-h-170 overflow-y-auto">
+              {messages.length === 0 ? (
+                <p className="px-4 py-8 text-sm text-muted-foreground">No captured email yet.</p>
+              ) : messages.map((message) => (
+                <button
+                  key={message.id}
+                  type="button"
+                  onClick={() => void openMessage(message.id)}
+                  className={`w-full border-b border-border px-4 py-3 text-left transition-colors hover:bg-muted/60 ${selected?.id === message.id ? 'bg-muted' : 'bg-card'}`}
+                >
+                  <p className="truncate text-sm font-bold text-foreground">{message.subject}</p>
+                  <p className="mt-1 flex justify-between gap-3 text-[12px] text-muted-foreground">
+                    <span className="truncate">{message.to}</span>
+                    <span className="shrink-0">{formatDate(message.createdAt)}</span>
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {selected ? (
+            <div className="overflow-hidden rounded-lg border border-border bg-card">
+              <div className="space-y-1 border-b border-border px-4 py-3 text-sm">
+                <p className="font-bold text-foreground">{selected.subject}</p>
+                <p className="text-[12px] text-muted-foreground">From {selected.from} to {selected.to} · {formatDate(selected.createdAt)}</p>
+              </div>
+              <iframe title="Captured email" srcDoc={selected.html} sandbox="" className="h-170 w-full bg-white" />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center gap-2 rounded-lg border border-border bg-card p-8 text-sm text-muted-foreground">
+              <Inbox className="h-4 w-4" />
+              Select a message to read it.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { AdminPageShell } from '@/components/admin-page-shell';
+import { MailboxPage } from './mailbox-page';
+
+export default function Page() {
+  return (
+    <AdminPageShell permission="campaigns:read">
+      <MailboxPage />
+    </AdminPageShell>
+  );
+}
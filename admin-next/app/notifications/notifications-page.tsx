@@ -10,23 +10,32 @@ import {
   Eye,
   Loader2,
   Mail,
+  MessageCircle,
   Plus,
   RefreshCw,
   RotateCcw,
+  Save,
   Send,
   Smartphone,
 } from 'lucide-react';
 
 import {
   createCampaign,
+  createSavedSegment,
   estimateCampaign,
+  estimateSegment,
   getCampaigns,
   getCampaignStats,
+  getSavedSegments,
   getSegments,
   retryFailedCampaign,
   sendCampaign,
+  type CampaignChannel,
+  type CampaignChannelTemplates,
   type CampaignDeliveryStats,
   type CampaignRecipientEstimate,
+  type SavedCampaignSegment,
+  type SegmentGroup,
 } from '@/lib/api';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -44,6 +53,8 @@ import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 
+import { EMPTY_SEGMENT, SegmentBuilder, segmentIsComplete } from './segment-builder';
+
 type Campaign = Awaited<ReturnType<typeof getCampaigns>>['data'][number];
 type SegmentData = Awaited<ReturnType<typeof getSegments>>['data'];
 type CampaignForm = {
@@ -52,7 +63,11 @@ type CampaignForm = {
   url: string;
   segmentType: string;
   segmentValue: string;
+  audience: SegmentGroup;
+  savedSegmentId: string;
   scheduledAt: string;
+  channels: CampaignChannel[];
+  templates: Record<CampaignChannel, { title: string; body: string }>;
 };
 type FormErrors = Partial<Record<keyof CampaignForm, string>>;
 
@@ -62,9 +77,48 @@ const emptyForm: CampaignForm = {
   url: '',
   segmentType: 'all',
   segmentValue: 'all',
+  audience: EMPTY_SEGMENT,
+  savedSegmentId: '',
   scheduledAt: '',
+  channels: ['email', 'push'],
+  templates: {
+    email: { title: '', body: '' },
+    push: { title: '', body: '' },
+    telegram: { title: '', body: '' },
+    whatsapp: { title: '', body: '' },
+  },
 };
 
+const campaignChannels: Array<{ value: CampaignChannel; label: string; icon: typeof Mail; hint: string }> = [
+  { value: 'email', label: 'Email', icon: Mail, hint: 'Verified subscribers in the segment.' },
+  { value: 'push', label: 'Push', icon: Smartphone, hint: 'Browser push for users in the segment.' },
+  { value: 'telegram', label: 'Telegram', icon: Send, hint: 'Posts to the public channels; the segment does not apply.' },
+  { value: 'whatsapp', label: 'WhatsApp', icon: MessageCircle, hint: 'Subscribers in the segment who gave a phone number.' },
+];
+
+function channelLabel(channel: CampaignChannel) {
+  return campaignChannels.find((item) => item.value === channel)?.label ?? channel;
+}
+
+function toTemplateForm(templates?: CampaignChannelTemplates): CampaignForm['templates'] {
+  return {
+    email: { title: templates?.email?.title ?? '', body: templates?.email?.body ?? '' },
+    push: { title: templates?.push?.title ?? '', body: templates?.push?.body ?? '' },
+    telegram: { title: templates?.telegram?.title ?? '', body: templates?.telegram?.body ?? '' },
+    whatsapp: { title: templates?.whatsapp?.title ?? '', body: templates?.whatsapp?.body ?? '' },
+  };
+}
+
+function buildChannelTemplates(form: CampaignForm): CampaignChannelTemplates | undefined {
+  const templates: CampaignChannelTemplates = {};
+  for (const channel of form.channels) {
+    const title = form.templates[channel].title.trim();
+    const body = form.templates[channel].body.trim();
+    if (title || body) templates[channel] = { title: title || undefined, body: body || undefined };
+  }
+  return Object.keys(templates).length > 0 ? templates : undefined;
+}
+
 const segmentTypes = [
   { value: 'all', label: 'All subscribers' },
   { value: 'state', label: 'State' },
@@ -72,6 +126,7 @@ const segmentTypes = [
   { value: 'organization', label: 'Organization' },
   { value: 'qualification', label: 'Qualification' },
   { value: 'type', label: 'Content type' },
+  { value: 'custom', label: 'Custom segment' },
 ];
 
 const contentTypes = ['job', 'result', 'admit-card', 'answer-key', 'admission', 'syllabus'];
@@ -154,6 +209,9 @@ export function NotificationsPage() {
   const [stats, setStats] = useState<CampaignDeliveryStats | null>(null);
   const [segments, setSegments] = useState<SegmentData | null>(null);
   const [segmentsLoading, setSegmentsLoading] = useState(true);
+  const [savedSegments, setSavedSegments] = useState<SavedCampaignSegment[]>([]);
+  const [audienceEstimate, setAudienceEstimate] = useState<CampaignRecipientEstimate | null>(null);
+  const [audienceEstimating, setAudienceEstimating] = useState(false);
   const [formOpen, setFormOpen] = useState(false);
   const [formMode, setFormMode] = useState<'create' | 'duplicate'>('create');
   const [form, setForm] = useState<CampaignForm>(emptyForm);
@@ -196,8 +254,34 @@ export function NotificationsPage() {
       .then((response) => setSegments(response.data))
       .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to load segments.'))
       .finally(() => setSegmentsLoading(false));
+    void getSavedSegments()
+      .then((response) => setSavedSegments(response.data))
+      .catch(() => undefined);
   }, []);
 
+  useEffect(() => {
+    setAudienceEstimate(null);
+    if (!formOpen || form.segmentType !== 'custom' || form.channels.length === 0 || !segmentIsComplete(form.audience)) return;
+
+    let cancelled = false;
+    const timeout = window.setTimeout(() => {
+      setAudienceEstimating(true);
+      void estimateSegment(form.audience, form.channels)
+        .then((response) => {
+          if (!cancelled) setAudienceEstimate(response.data);
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          if (!cancelled) setAudienceEstimating(false);
+        });
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [formOpen, form.segmentType, form.audience, form.channels]);
+
   useEffect(() => {
     setEstimate(null);
     setStats(null);
@@ -239,7 +323,11 @@ export function NotificationsPage() {
       url: selectedCampaign.url ?? '',
       segmentType: selectedCampaign.unsupportedSegment ? 'all' : selectedCampaign.segment.type,
       segmentValue: selectedCampaign.unsupportedSegment ? 'all' : selectedCampaign.segment.value,
+      audience: selectedCampaign.segmentExpression ?? EMPTY_SEGMENT,
+      savedSegmentId: '',
       scheduledAt: toLocalDateTime(selectedCampaign.scheduledAt),
+      channels: selectedCampaign.channels,
+      templates: toTemplateForm(selectedCampaign.channelTemplates),
     });
     setFormErrors({});
     setFormOpen(true);
@@ -262,8 +350,11 @@ export function NotificationsPage() {
     else if (form.title.trim().length < 5) errors.title = 'Title must be at least 5 characters.';
     if (!form.body.trim()) errors.body = 'Body is required.';
     else if (form.body.trim().length < 10) errors.body = 'Body must be at least 10 characters.';
+    if (form.channels.length === 0) errors.channels = 'Choose at least one channel.';
     if (!form.segmentType) errors.segmentType = 'Segment is required.';
-    if (form.segmentType !== 'all' && !form.segmentValue.trim()) {
+    if (form.segmentType === 'custom') {
+      if (!segmentIsComplete(form.audience)) errors.audience = 'Every condition needs at least one value.';
+    } else if (form.segmentType !== 'all' && !form.segmentValue.trim()) {
       errors.segmentValue = 'Segment value is required.';
     }
     if (form.url.trim()) {
@@ -293,8 +384,13 @@ export function NotificationsPage() {
         url: form.url.trim() || undefined,
         segment: {
           type: form.segmentType,
-          value: form.segmentType === 'all' ? 'all' : form.segmentValue.trim(),
+          value: form.segmentType === 'all' ? 'all' : form.segmentType === 'custom' ? '' : form.segmentValue.trim(),
         },
+        ...(form.segmentType === 'custom'
+          ? form.savedSegmentId ? { savedSegmentId: form.savedSegmentId } : { audience: form.audience }
+          : {}),
+        channels: form.channels,
+        channelTemplates: buildChannelTemplates(form),
         scheduledAt: mode === 'scheduled' ? new Date(form.scheduledAt).toISOString() : undefined,
       });
       toast.success(mode === 'scheduled' ? 'Campaign scheduled.' : 'Campaign saved as draft.');
@@ -307,6 +403,45 @@ export function NotificationsPage() {
     }
   }
 
+  function updateAudience(audience: SegmentGroup) {
+    setForm((current) => ({ ...current, audience, savedSegmentId: '' }));
+    setFormErrors((current) => ({ ...current, audience: undefined }));
+  }
+
+  function chooseSavedSegment(id: string) {
+    const saved = savedSegments.find((segment) => segment.id === id);
+    setForm((current) => ({
+      ...current,
+      savedSegmentId: saved?.id ?? '',
+      audience: saved?.expression ?? current.audience,
+    }));
+    setFormErrors((current) => ({ ...current, audience: undefined }));
+  }
+
+  async function saveAudience() {
+    if (!segmentIsComplete(form.audience)) {
+      setFormErrors((current) => ({ ...current, audience: 'Every condition needs at least one value.' }));
+      return;
+    }
+    const name = window.prompt('Name for this segment');
+    if (name === null) return;
+    if (name.trim().length < 2) {
+      toast.error('Segment name must be at least 2 characters.');
+      return;
+    }
+    setBusyAction('save-segment');
+    try {
+      const response = await createSavedSegment({ name: name.trim(), expression: form.audience });
+      setSavedSegments((current) => [...current, response.data].sort((a, b) => a.name.localeCompare(b.name)));
+      setForm((current) => ({ ...current, savedSegmentId: response.data.id }));
+      toast.success('Segment saved.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save segment.');
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
   async function runEstimate() {
     if (!selectedCampaign) return;
     setBusyAction('estimate');
@@ -381,7 +516,7 @@ export function NotificationsPage() {
     if (!selectedCampaign) return reason;
     const context = [
       estimate
-        ? `estimate=${estimate.total} total/${estimate.email} email/${estimate.push} push`
+        ? `estimate=${estimate.total} total/${selectedCampaign.channels.map((channel) => `${estimate[channel] ?? 0} ${channel}`).join('/')}`
         : 'estimate=missing-confirmed',
       `segment=${segmentLabel(selectedCampaign.segment)}`,
       selectedCampaign.scheduledAt ? `scheduledAt=${formatDate(selectedCampaign.scheduledAt)}` : undefined,
@@ -393,14 +528,16 @@ export function NotificationsPage() {
     ? segments?.segments.states ?? []
     : form.segmentType === 'category'
       ? segments?.segments.categories ?? []
-      : form.segmentType === 'type'
-        ? contentTypes
-        : [];
+      : form.segmentType === 'organization'
+        ? segments?.segments.organizations ?? []
+        : form.segmentType === 'qualification'
+          ? segments?.segments.qualifications ?? []
+          : form.segmentType === 'type'
+            ? contentTypes
+            : [];
   const segmentCount = segments?.counts.find(
     (item) => item.type === form.segmentType && item.value === (form.segmentType === 'all' ? 'all' : form.segmentValue),
   )?.count;
-  const emailStats = stats?.byChannel.find((item) => item.channel === 'email');
-  const pushStats = stats?.byChannel.find((item) => item.channel === 'push');
   const attempts = stats?.total ?? (selectedCampaign ? selectedCampaign.sentCount + selectedCampaign.failedCount : 0);
   const progressPercentage = estimate && estimate.total > 0
     ? Math.min(100, Math.round((attempts / estimate.total) * 100))
@@ -476,7 +613,7 @@ export function NotificationsPage() {
                   <div className="flex items-start justify-between gap-3">
                     <div className="min-w-0">
                       <p className="truncate text-sm font-bold text-foreground">{campaign.title}</p>
-                      <p className="mt-1 text-[12px] text-muted-foreground">{segmentLabel(campaign.segment)}</p>
+                      <p className="mt-1 text-[12px] text-muted-foreground">{segmentLabel(campaign.segment)} · {campaign.channels.map(channelLabel).join(', ')}</p>
                     </div>
                     <Badge className={statusClass[label] ?? statusClass.draft} variant="outline">{label}</Badge>
                   </div>
@@ -573,8 +710,9 @@ export function NotificationsPage() {
                   <h4 className="text-sm font-bold text-foreground">Recipient Estimate</h4>
                 </div>
                 <div className="grid gap-2 sm:grid-cols-3">
-                  <ChannelStat label="Email" value={estimate?.email ?? 0} icon={Mail} />
-                  <ChannelStat label="Push" value={estimate?.push ?? 0} icon={Smartphone} />
+                  {campaignChannels.filter((item) => selectedCampaign.channels.includes(item.value)).map((item) => (
+                    <ChannelStat key={item.value} label={item.label} value={estimate?.[item.value] ?? 0} icon={item.icon} />
+                  ))}
                   <ChannelStat label="Total" value={estimate?.total ?? 0} icon={BarChart3} />
                 </div>
               </div>
@@ -582,14 +720,15 @@ export function NotificationsPage() {
               <div className="rounded-lg border border-border bg-card p-4">
                 <h4 className="mb-3 text-sm font-bold text-foreground">Channel Breakdown</h4>
                 <div className="space-y-2 text-sm">
-                  <div className="flex justify-between rounded-lg bg-muted px-3 py-2">
-                    <span>Email</span>
-                    <span>{emailStats?.sent ?? 0} sent / {emailStats?.failed ?? 0} failed</span>
-                  </div>
-                  <div className="flex justify-between rounded-lg bg-muted px-3 py-2">
-                    <span>Push</span>
-                    <span>{pushStats?.sent ?? 0} sent / {pushStats?.failed ?? 0} failed</span>
-                  </div>
+                  {selectedCampaign.channels.map((channel) => {
+                    const channelStats = stats?.byChannel.find((item) => item.channel === channel);
+                    return (
+                      <div key={channel} className="flex justify-between rounded-lg bg-muted px-3 py-2">
+                        <span>{channelLabel(channel)}</span>
+                        <span>{channelStats?.sent ?? 0} sent / {channelStats?.failed ?? 0} failed</span>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -629,7 +768,7 @@ export function NotificationsPage() {
                       </tr>
                     ) : stats?.recentFailures.map((failure) => (
                       <tr key={failure.id} className="border-t border-border">
-                        <td className="px-4 py-2 font-semibold">{failure.channel}</td>
+                        <td className="px-4 py-2 font-semibold">{channelLabel(failure.channel)}</td>
                         <td className="max-w-65 truncate px-4 py-2">{failure.recipient}</td>
                         <td className="px-4 py-2">{failure.attemptCount}</td>
                         <td className="max-w-70 truncate px-4 py-2 text-red-600">{failure.error || 'Unknown failure'}</td>
@@ -688,8 +827,16 @@ export function NotificationsPage() {
                 {formErrors.segmentType ? <p className="text-xs text-red-600">{formErrors.segmentType}</p> : null}
               </div>
               <div className="space-y-1.5">
-                <label className="text-sm font-semibold">Segment value</label>
-                {form.segmentType === 'all' ? (
+                <label className="text-sm font-semibold">{form.segmentType === 'custom' ? 'Saved segment' : 'Segment value'}</label>
+                {form.segmentType === 'custom' ? (
+                  <Select value={form.savedSegmentId || 'new'} onValueChange={(value) => chooseSavedSegment(value === 'new' ? '' : value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="new">Build a new segment</SelectItem>
+                      {savedSegments.map((segment) => <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                ) : form.segmentType === 'all' ? (
                   <Input value="All active subscribers" disabled />
                 ) : segmentValues.length > 0 ? (
                   <Select value={form.segmentValue} onValueChange={(value) => updateForm('segmentValue', value)}>
@@ -705,6 +852,88 @@ export function NotificationsPage() {
                 {segmentCount !== undefined ? <p className="text-xs text-muted-foreground">{segmentCount.toLocaleString('en-IN')} matching subscribers</p> : null}
               </div>
             </div>
+            {form.segmentType === 'custom' ? (
+              <div className="space-y-2">
+                <SegmentBuilder
+                  value={form.audience}
+                  onChange={updateAudience}
+                  options={{
+                    states: segments?.segments.states ?? [],
+                    categories: segments?.segments.categories ?? [],
+                    organizations: segments?.segments.organizations ?? [],
+                    qualifications: segments?.segments.qualifications ?? [],
+                    campaigns: campaigns.filter((campaign) => campaign.sentCount > 0).map((campaign) => ({ id: campaign.id, title: campaign.title })),
+                  }}
+                />
+                {formErrors.audience ? <p className="text-xs text-red-600">{formErrors.audience}</p> : null}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {audienceEstimating
+                      ? 'Estimating recipients…'
+                      : audienceEstimate
+                        ? `${audienceEstimate.total.toLocaleString('en-IN')} estimated recipients (${form.channels.map((channel) => `${(audienceEstimate[channel] ?? 0).toLocaleString('en-IN')} ${channelLabel(channel)}`).join(', ')})`
+                        : 'Complete the conditions to see a live recipient estimate.'}
+                  </p>
+                  <Button type="button" variant="outline" size="sm" onClick={() => void saveAudience()} disabled={busyAction !== null || Boolean(form.savedSegmentId)}>
+                    <Save className="h-3.5 w-3.5" />
+                    Save segment
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Channels</p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {campaignChannels.map((item) => (
+                  <label key={item.value} className="flex items-start gap-2 rounded-lg border border-border p-3 text-sm">
+                    <Checkbox
+                      checked={form.channels.includes(item.value)}
+                      onCheckedChange={(checked) => updateForm(
+                        'channels',
+                        checked
+                          ? campaignChannels.map((entry) => entry.value).filter((value) => value === item.value || form.channels.includes(value))
+                          : form.channels.filter((value) => value !== item.value),
+                      )}
+                    />
+                    <span>
+                      <span className="font-semibold">{item.label}</span>
+                      <span className="block text-xs text-muted-foreground">{item.hint}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              {formErrors.channels ? <p className="text-xs text-red-600">{formErrors.channels}</p> : null}
+            </div>
+            {form.channels.length > 0 ? (
+              <div className="space-y-3 rounded-lg border border-border p-3">
+                <div>
+                  <p className="text-sm font-semibold">Channel templates</p>
+                  <p className="text-xs text-muted-foreground">Optional. Leave blank to use the campaign title and body; {'{{title}}'}, {'{{body}}'} and {'{{url}}'} are filled in.</p>
+                </div>
+                {form.channels.map((channel) => (
+                  <div key={channel} className="grid gap-2 sm:grid-cols-[7rem_1fr]">
+                    <span className="pt-2 text-xs font-semibold uppercase text-muted-foreground">{channelLabel(channel)}</span>
+                    <div className="space-y-2">
+                      <Input
+                        value={form.templates[channel].title}
+                        onChange={(event) => updateForm('templates', { ...form.templates, [channel]: { ...form.templates[channel], title: event.target.value } })}
+                        placeholder="Title"
+                        maxLength={200}
+                        aria-label={`${channelLabel(channel)} title template`}
+                      />
+                      <Textarea
+                        value={form.templates[channel].body}
+                        onChange={(event) => updateForm('templates', { ...form.templates, [channel]: { ...form.templates[channel], body: event.target.value } })}
+                        placeholder="Body"
+                        maxLength={2000}
+                        rows={2}
+                        aria-label={`${channelLabel(channel)} body template`}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : null}
             <div className="space-y-1.5">
               <label htmlFor="campaign-scheduled-at" className="text-sm font-semibold">Scheduled date</label>
               <Input id="campaign-scheduled-at" type="datetime-local" value={form.scheduledAt} min={toLocalDateTime(new Date(Date.now() + 60_000).toISOString())} onChange={(event) => updateForm('scheduledAt', event.target.value)} aria-invalid={Boolean(formErrors.scheduledAt)} />
@@ -729,7 +958,7 @@ export function NotificationsPage() {
         <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Confirm campaign delivery</DialogTitle>
-            <DialogDescription>This action queues real email and push deliveries and cannot be undone.</DialogDescription>
+            <DialogDescription>This action queues real deliveries on every selected channel and cannot be undone.</DialogDescription>
           </DialogHeader>
           {selectedCampaign ? (
             <div className="space-y-4">
@@ -756,6 +985,10 @@ export function NotificationsPage() {
                   <p className="text-xs font-semibold uppercase text-muted-foreground">Segment value</p>
                   <p className="mt-1 font-bold text-foreground">{selectedSegment?.value}</p>
                 </div>
+                <div>
+                  <p className="text-xs font-semibold uppercase text-muted-foreground">Channels</p>
+                  <p className="mt-1 font-bold text-foreground">{selectedCampaign.channels.map(channelLabel).join(', ')}</p>
+                </div>
                 <div>
                   <p className="text-xs font-semibold uppercase text-muted-foreground">Scheduled</p>
                   <p className="mt-1 font-bold text-foreground">{formatDate(selectedCampaign.scheduledAt)}</p>
@@ -773,8 +1006,9 @@ export function NotificationsPage() {
                       <p className="mt-1 text-2xl font-extrabold">{estimate.total.toLocaleString('en-IN')}</p>
                     </div>
                     <div className="text-right text-sm font-semibold">
-                      <p>{estimate.email.toLocaleString('en-IN')} email</p>
-                      <p>{estimate.push.toLocaleString('en-IN')} push</p>
+                      {selectedCampaign.channels.map((channel) => (
+                        <p key={channel}>{(estimate[channel] ?? 0).toLocaleString('en-IN')} {channelLabel(channel)}</p>
+                      ))}
                     </div>
                   </div>
                   {isVeryLargeSend ? (
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState } from 'react';
+import { FolderPlus, Plus, Trash2, X } from 'lucide-react';
+
+import type { SegmentCondition, SegmentConditionField, SegmentGroup } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export type SegmentBuilderOptions = {
+  states: string[];
+  categories: string[];
+  organizations: string[];
+  qualifications: string[];
+  campaigns: Array<{ id: string; title: string }>;
+};
+
+type Rule = SegmentCondition | SegmentGroup;
+
+const MAX_DEPTH = 4;
+
+export const EMPTY_SEGMENT: SegmentGroup = { type: 'group', combinator: 'and', rules: [] };
+
+const fields: Array<{ value: SegmentConditionField; label: string }> = [
+  { value: 'state', label: 'State' },
+  { value: 'category', label: 'Category' },
+  { value: 'organization', label: 'Organization' },
+  { value: 'qualification', label: 'Qualification' },
+  { value: 'postType', label: 'Content type' },
+  { value: 'frequency', label: 'Digest frequency' },
+  { value: 'lastActive', label: 'Active in last (days)' },
+  { value: 'trackedStatus', label: 'Tracked application status' },
+  { value: 'campaignReceived', label: 'Received campaign' },
+];
+
+const fixedChoices: Partial<Record<SegmentConditionField, Array<{ value: string; label: string }>>> = {
+  postType: ['job', 'result', 'admit-card', 'answer-key', 'admission', 'syllabus'].map((value) => ({ value, label: value })),
+  frequency: [
+    { value: 'instant', label: 'Instant' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
+  ],
+  trackedStatus: [
+    { value: 'saved', label: 'Saved' },
+    { value: 'applied', label: 'Applied' },
+    { value: 'admit-card', label: 'Admit card' },
+    { value: 'exam', label: 'Exam' },
+    { value: 'result', label: 'Result' },
+  ],
+};
+
+function suggestionsFor(field: SegmentConditionField, options: SegmentBuilderOptions) {
+  if (field === 'state') return options.states;
+  if (field === 'category') return options.categories;
+  if (field === 'organization') return options.organizations;
+  if (field === 'qualification') return options.qualifications;
+  return [];
+}
+
+function newCondition(): SegmentCondition {
+  return { type: 'condition', field: 'state', values: [] };
+}
+
+/** Client-side check mirroring the API: every condition needs values (or days). */
+export function segmentIsComplete(rule: Rule): boolean {
+  if (rule.type === 'group') return rule.rules.every(segmentIsComplete);
+  return rule.field === 'lastActive' ? Boolean(rule.days && rule.days > 0) : Boolean(rule.values?.length);
+}
+
+function ValueChips({
+  values,
+  suggestions,
+  listId,
+  onChange,
+}: {
+  values: string[];
+  suggestions: string[];
+  listId: string;
+  onChange: (next: string[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+
+  function addDraft() {
+    const value = draft.trim();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setDraft('');
+  }
+
+  return (
+    <div className="flex flex-1 flex-wrap items-center gap-1.5">
+      {values.map((value) => (
+        <span key={value} className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs font-semibold">
+          {value}
+          <button type="button" onClick={() => onChange(values.filter((item) => item !== value))} aria-label={`Remove ${value}`}>
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <Input
+        value={draft}
+        list={listId}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' || event.key === ',') {
+            event.preventDefault();
+            addDraft();
+          }
+        }}
+        onBlur={addDraft}
+        placeholder="Type and press Enter"
+        className="h-8 min-w-40 flex-1"
+      />
+      <datalist id={listId}>
+        {suggestions.map((value) => <option key={value} value={value} />)}
+      </datalist>
+    </div>
+  );
+}
+
+function ConditionRow({
+  condition,
+  path,
+  options,
+  onChange,
+  onRemove,
+}: {
+  condition: SegmentCondition;
+  path: string;
+  options: SegmentBuilderOptions;
+  onChange: (next: SegmentCondition) => void;
+  onRemove: () => void;
+}) {
+  const values = condition.values ?? [];
+  const choices = condition.field === 'campaignReceived'
+    ? options.campaigns.map((campaign) => ({ value: campaign.id, label: campaign.title }))
+    : fixedChoices[condition.field];
+
+  return (
+    <div className="flex flex-wrap items-start gap-2 rounded-md border border-border bg-background p-2">
+      <label className="flex items-center gap-1.5 pt-1.5 text-xs font-semibold text-muted-foreground">
+        <Checkbox checked={Boolean(condition.negate)} onCheckedChange={(checked) => onChange({ ...condition, negate: checked === true })} />
+        NOT
+      </label>
+      <div className="w-48">
+        <Select
+          value={condition.field}
+          onValueChange={(field) => onChange({
+            type: 'condition',
+            field: field as SegmentConditionField,
+            negate: condition.negate,
+            ...(field === 'lastActive' ? { days: 30 } : { values: [] }),
+          })}
+        >
+          <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {fields.map((field) => <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      {condition.field === 'lastActive' ? (
+        <Input
+          type="number"
+          min={1}
+          max={3650}
+          value={condition.days ?? ''}
+          onChange={(event) => onChange({ ...condition, days: Number(event.target.value) || undefined })}
+          className="h-8 w-28"
+          aria-label="Days since last sign-in"
+        />
+      ) : choices ? (
+        <div className="flex flex-1 flex-wrap gap-1.5 pt-1">
+          {choices.length === 0 ? <span className="text-xs text-muted-foreground">No options available.</span> : null}
+          {choices.map((choice) => {
+            const active = values.includes(choice.value);
+            return (
+              <button
+                key={choice.value}
+                type="button"
+                onClick={() => onChange({
+                  ...condition,
+                  values: active ? values.filter((value) => value !== choice.value) : [...values, choice.value],
+                })}
+                className={`rounded-full border px-2 py-0.5 text-xs font-semibold ${active ? 'border-primary bg-primary text-primary-foreground' : 'border-border bg-card text-muted-foreground'}`}
+              >
+                {choice.label}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <ValueChips
+          values={values}
+          suggestions={suggestionsFor(condition.field, options)}
+          listId={`segment-${path}`}
+          onChange={(next) => onChange({ ...condition, values: next })}
+        />
+      )}
+      <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove} aria-label="Remove condition">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  path,
+  depth,
+  options,
+  onChange,
+  onRemove,
+}: {
+  group: SegmentGroup;
+  path: string;
+  depth: number;
+  options: SegmentBuilderOptions;
+  onChange: (next: SegmentGroup) => void;
+  onRemove?: () => void;
+}) {
+  function updateRule(index: number, next: Rule) {
+    onChange({ ...group, rules: group.rules.map((rule, ruleIndex) => (ruleIndex === index ? next : rule)) });
+  }
+
+  function removeRule(index: number) {
+    onChange({ ...group, rules: group.rules.filter((_, ruleIndex) => ruleIndex !== index) });
+  }
+
+  return (
+    <div className={`space-y-2 rounded-lg border p-3 ${depth === 0 ? 'border-border' : 'border-dashed border-primary/40 bg-muted/30'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex overflow-hidden rounded-md border border-border">
+          {(['and', 'or'] as const).map((combinator) => (
+            <button
+              key={combinator}
+              type="button"
+              onClick={() => onChange({ ...group, combinator })}
+              className={`px-2.5 py-1 text-xs font-bold uppercase ${group.combinator === combinator ? 'bg-primary text-primary-foreground' : 'bg-card text-muted-foreground'}`}
+            >
+              {combinator}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground">
+          <Checkbox checked={Boolean(group.negate)} onCheckedChange={(checked) => onChange({ ...group, negate: checked === true })} />
+          NOT
+        </label>
+        <span className="text-xs text-muted-foreground">
+          {group.combinator === 'and' ? 'Match all of' : 'Match any of'}
+        </span>
+        <div className="ml-auto flex gap-1">
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...group, rules: [...group.rules, newCondition()] })}>
+            <Plus className="h-3.5 w-3.5" />
+            Condition
+          </Button>
+          {depth + 1 < MAX_DEPTH ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...group, rules: [...group.rules, { type: 'group', combinator: 'or', rules: [newCondition()] }] })}
+            >
+              <FolderPlus className="h-3.5 w-3.5" />
+              Group
+            </Button>
+          ) : null}
+          {onRemove ? (
+            <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label="Remove group">
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          ) : null}
+        </div>
+      </div>
+      {group.rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No conditions yet; the campaign goes to every active subscriber.</p>
+      ) : null}
+      {group.rules.map((rule, index) => (
+        rule.type === 'group' ? (
+          <GroupEditor
+            key={`${path}-${index}`}
+            group={rule}
+            path={`${path}-${index}`}
+            depth={depth + 1}
+            options={options}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={`${path}-${index}`}
+            condition={rule}
+            path={`${path}-${index}`}
+            options={options}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        )
+      ))}
+    </div>
+  );
+}
+
+/** Visual editor for nested AND/OR/NOT audience expressions. */
+export function SegmentBuilder({
+  value,
+  options,
+  onChange,
+}: {
+  value: SegmentGroup;
+  options: SegmentBuilderOptions;
+  onChange: (next: SegmentGroup) => void;
+}) {
+  return <GroupEditor group={value} path="root" depth={0} options={options} onChange={onChange} />;
+}
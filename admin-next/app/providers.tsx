@@ -3,6 +3,7 @@
 import { ThemeProvider } from 'next-themes';
 import { AuthProvider } from '@/lib/auth-context';
 import { QueryProvider } from '@/lib/query-provider';
+import { StepUpProvider } from '@/components/step-up-provider';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { Toaster } from 'sonner';
 
@@ -12,7 +13,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
       <QueryProvider>
         <AuthProvider>
           <TooltipProvider>
-            {children}
+            <StepUpProvider>{children}</StepUpProvider>
             <Toaster richColors position="top-right" />
           </TooltipProvider>
         </AuthProvider>
@@ -21,6 +21,7 @@ interface SettingsState {
   alertsEnabled: boolean;
   tickerEnabled: boolean;
   loginEnabled: boolean;
+  requireStaffTwoFactor: boolean;
   fbUrl: string;
   twUrl: string;
   ytUrl: string;
@@ -42,6 +43,7 @@ const DEFAULT_SETTINGS: SettingsState = {
   alertsEnabled: true,
   tickerEnabled: true,
   loginEnabled: true,
+  requireStaffTwoFactor: false,
   fbUrl: '',
   twUrl: '',
   ytUrl: '',
@@ -67,6 +69,7 @@ function mapApiToForm(data?: SiteSettings): SettingsState {
     alertsEnabled: flags.alertsEnabled !== false,
     tickerEnabled: flags.tickerEnabled !== false,
     loginEnabled: data.registrationEnabled !== false,
+    requireStaffTwoFactor: data.requireStaffTwoFactor === true,
     fbUrl: String(flags.fbUrl || DEFAULT_SETTINGS.fbUrl),
     twUrl: data.twitterUrl || DEFAULT_SETTINGS.twUrl,
     ytUrl: data.youtubeUrl || DEFAULT_SETTINGS.ytUrl,
@@ -211,6 +214,7 @@ export function SettingsPage() {
     saveMutation.mutate({ payload: {
       maintenanceMode: form.maintenanceMode,
       registrationEnabled: form.loginEnabled,
+      requireStaffTwoFactor: form.requireStaffTwoFactor,
       featureFlags: baseFeatureFlags,
     }, successMessage: 'Feature toggles updated.' });
   }
@@ -353,6 +357,7 @@ export function SettingsPage() {
           <ToggleRow label="Job Alerts / Email Subscriptions" desc="Allow users to subscribe to job alert notifications" value={form.alertsEnabled} onChange={value => updateField('alertsEnabled', value)} />
           <ToggleRow label="Live Ticker" desc="Show the scrolling news ticker at the top of every page" value={form.tickerEnabled} onChange={value => updateField('tickerEnabled', value)} />
           <ToggleRow label="User Login / Registration" desc="Allow users to create accounts and sign in" value={form.loginEnabled} onChange={value => updateField('loginEnabled', value)} />
+          <ToggleRow label="Require 2FA for Staff" desc="Editors, reviewers and admins must sign in with an authenticator code" value={form.requireStaffTwoFactor} onChange={value => updateField('requireStaffTwoFactor', value)} />
           <div className="flex justify-end pt-4">
             <button
               type="button"
@@ -8,6 +8,8 @@ import { toast } from 'sonner';
 import { deleteSubscriber, getEditorialSubscriberCoverage, getSubscriberStats, getSubscribers } from '@/lib/api';
 import type { AlertSubscriber } from '@/lib/types';
 
+import { SuppressionList } from './suppression-list';
+
 function formatDate(value?: string) {
   if (!value) return '-';
   const parsed = new Date(value);
@@ -353,6 +355,8 @@ export function SubscribersPage() {
           <div className="px-4 py-10 text-center text-[13px] text-gray-500">No alert subscribers found for the current filters.</div>
         ) : null}
       </div>
+
+      <SuppressionList />
     </div>
   );
 }
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Ban, Plus, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { addEmailSuppression, getEmailSuppressions, removeEmailSuppression, type EmailSuppression } from '@/lib/api';
+
+const REASON_LABELS: Record<EmailSuppression['reason'], { label: string; tone: string }> = {
+  hard_bounce: { label: 'Hard bounce', tone: 'bg-red-100 text-red-600' },
+  complaint: { label: 'Complaint', tone: 'bg-amber-100 text-amber-700' },
+  manual: { label: 'Manual', tone: 'bg-gray-100 text-gray-600' },
+};
+
+function formatDate(value?: string) {
+  if (!value) return '-';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+export function SuppressionList() {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [reason, setReason] = useState<'all' | EmailSuppression['reason']>('all');
+  const [email, setEmail] = useState('');
+  const [note, setNote] = useState('');
+
+  const suppressionsQuery = useQuery({
+    queryKey: ['email-suppressions', search, reason],
+    queryFn: () => getEmailSuppressions({ search: search || undefined, reason: reason === 'all' ? undefined : reason, limit: 100 }),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['email-suppressions'] });
+    queryClient.invalidateQueries({ queryKey: ['alert-subscribers'] });
+    queryClient.invalidateQueries({ queryKey: ['alert-subscriber-stats'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => addEmailSuppression({ email: email.trim(), note: note.trim() || undefined }),
+    onSuccess: () => {
+      invalidate();
+      setEmail('');
+      setNote('');
+      toast.success('Address suppressed.');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to suppress address');
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (address: string) => removeEmailSuppression(address),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Suppression removed.');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove suppression');
+    },
+  });
+
+  const suppressions = suppressionsQuery.data?.data || [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-xl border border-gray-200 bg-gray-50">
+          <Ban className="h-4.5 w-4.5 text-gray-600" />
+        </div>
+        <div>
+          <h2 className="text-[18px] font-extrabold text-gray-800">Suppression List</h2>
+          <p className="text-[11px] text-gray-400">
+            {(suppressionsQuery.data?.total ?? 0).toLocaleString()} addresses never receive email. Hard bounces and complaints are added automatically.
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-[22px] border border-gray-100 bg-white p-4 shadow-sm">
+        <form
+          className="flex flex-wrap gap-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (email.trim()) addMutation.mutate();
+          }}
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="Email address"
+            required
+            className="min-w-48 flex-1 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2 text-[13px] text-gray-700 outline-none placeholder:text-gray-400"
+          />
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note (optional)"
+            maxLength={300}
+            className="min-w-48 flex-1 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2 text-[13px] text-gray-700 outline-none placeholder:text-gray-400"
+          />
+          <button
+            type="submit"
+            disabled={addMutation.isPending}
+            className="flex items-center gap-2 rounded-xl bg-gray-800 px-4 py-2 text-[13px] font-semibold text-white transition-colors hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Suppress
+          </button>
+        </form>
+
+        <div className="mt-3 flex flex-wrap gap-3">
+          <div className="flex min-w-48 flex-1 items-center gap-2 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2">
+            <Search className="h-3.5 w-3.5 shrink-0 text-gray-400" />
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search suppressed addresses..."
+              className="flex-1 bg-transparent text-[13px] text-gray-700 outline-none placeholder:text-gray-400"
+            />
+          </div>
+
+          <div className="flex rounded-xl bg-gray-100 p-1">
+            {(['all', 'hard_bounce', 'complaint', 'manual'] as const).map((item) => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => setReason(item)}
+                className={`rounded-lg px-3 py-1.5 text-[12px] font-semibold transition-all ${reason === item ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {item === 'all' ? 'All' : REASON_LABELS[item].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-[22px] border border-gray-100 bg-white shadow-sm">
+        <div className="grid grid-cols-[1.2fr_auto_auto_auto] items-center gap-3 border-b border-[#e8ecf8] bg-gradient-to-r from-[#f8f9ff] to-[#f0f4ff] px-4 py-3">
+          <span className="text-[10px] font-bold uppercase tracking-[0.08em] text-gray-500">Address</span>
+          <span className="text-[10px] font-bold uppercase tracking-[0.08em] text-gray-500">Reason</span>
+          <span className="text-[10px] font-bold uppercase tracking-[0.08em] text-gray-500">Added</span>
+          <span className="text-[10px] font-bold uppercase tracking-[0.08em] text-gray-500">Action</span>
+        </div>
+
+        {suppressionsQuery.isLoading ? <div className="px-4 py-10 text-center text-[13px] text-gray-500">Loading suppression list…</div> : null}
+        {suppressionsQuery.isError ? (
+          <div className="px-4 py-10 text-center text-[13px] text-red-600">Suppression list could not be loaded.</div>
+        ) : null}
+        {!suppressionsQuery.isLoading && !suppressionsQuery.isError ? suppressions.map((entry, index) => (
+          <div
+            key={entry.email}
+            className={`grid grid-cols-[1.2fr_auto_auto_auto] items-center gap-3 border-b border-gray-50 px-4 py-3.5 ${index % 2 === 1 ? 'bg-gray-50/20' : ''}`}
+          >
+            <div className="min-w-0">
+              <p className="truncate text-[13px] font-semibold text-gray-800">{entry.email}</p>
+              {entry.note ? <p className="mt-1 truncate text-[11px] text-gray-400">{entry.note}</p> : null}
+            </div>
+            <span className={`rounded-full px-2.5 py-1 text-[10px] font-bold ${REASON_LABELS[entry.reason].tone}`}>
+              {REASON_LABELS[entry.reason].label}
+            </span>
+            <span className="text-[11px] text-gray-500">
+              {formatDate(entry.createdAt)} · {entry.source === 'webhook' ? 'Provider' : 'Admin'}
+            </span>
+            <div className="text-right">
+              <button
+                type="button"
+                disabled={removeMutation.isPending}
+                onClick={() => {
+                  if (window.confirm(`Allow email to "${entry.email}" again?`)) removeMutation.mutate(entry.email);
+                }}
+                aria-label={`Remove suppression for ${entry.email}`}
+                title={`Remove suppression for ${entry.email}`}
+                className="rounded-lg bg-red-50 p-2 text-red-500 transition-colors hover:bg-red-100 disabled:opacity-50"
+              >
+                <Trash2 className="h-3.5 w-3.5" /><span className="sr-only">Remove suppression for {entry.email}</span>
+              </button>
+            </div>
+          </div>
+        )) : null}
+
+        {!suppressionsQuery.isLoading && !suppressionsQuery.isError && suppressions.length === 0 ? (
+          <div className="px-4 py-10 text-center text-[13px] text-gray-500">No suppressed addresses.</div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
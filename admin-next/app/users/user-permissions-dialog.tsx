@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getPermissionCatalog, getUserPermissions, updateUserPermissions } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import type { AdminPermission, AdminPermissionDefinition, User, UserPermissionState } from '@/lib/types';
+
+type OverrideChoice = 'default' | 'grant' | 'deny';
+
+interface PermissionsFormProps {
+  user: User;
+  catalog: AdminPermissionDefinition[];
+  roleDefaults: AdminPermission[];
+  state: UserPermissionState;
+  canManage: boolean;
+  onDone: () => void;
+}
+
+function PermissionsForm({ user, catalog, roleDefaults, state, canManage, onDone }: PermissionsFormProps) {
+  const queryClient = useQueryClient();
+  const [choices, setChoices] = useState<Partial<Record<AdminPermission, OverrideChoice>>>(
+    () => Object.fromEntries(state.overrides.map((override) => [override.permission, override.effect]))
+  );
+  const [auditReason, setAuditReason] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateUserPermissions(
+      user.id,
+      Object.entries(choices)
+        .filter(([, choice]) => choice === 'grant' || choice === 'deny')
+        .map(([permission, choice]) => ({ permission: permission as AdminPermission, effect: choice as 'grant' | 'deny' })),
+      auditReason.trim(),
+    ),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['admin-user-permissions', user.id] });
+      toast.success('Permissions updated.');
+      onDone();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update permissions.'),
+  });
+
+  const groups = Array.from(new Set(catalog.map((definition) => definition.group)));
+
+  return (
+    <>
+      <div className="max-h-[55vh] space-y-4 overflow-y-auto pr-1">
+        {groups.map((group) => (
+          <div key={group}>
+            <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{group}</div>
+            <div className="divide-y rounded-xl border">
+              {catalog.filter((definition) => definition.group === group).map((definition) => {
+                const choice = choices[definition.key] ?? 'default';
+                const byDefault = roleDefaults.includes(definition.key);
+                const effective = choice === 'default' ? byDefault : choice === 'grant';
+                return (
+                  <div key={definition.key} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <code className="text-xs font-semibold">{definition.key}</code>
+                        <Badge variant={effective ? 'default' : 'outline'}>{effective ? 'Allowed' : 'Denied'}</Badge>
+                      </div>
+                      <div className="mt-0.5 text-xs text-muted-foreground">{definition.description}</div>
+                    </div>
+                    <select
+                      aria-label={`Override for ${definition.key}`}
+                      value={choice}
+                      disabled={!canManage || saveMutation.isPending}
+                      onChange={(event) => setChoices((current) => ({ ...current, [definition.key]: event.target.value as OverrideChoice }))}
+                      className="h-8 rounded-lg border bg-background px-2 text-xs"
+                    >
+                      <option value="default">Role default ({byDefault ? 'allowed' : 'denied'})</option>
+                      <option value="grant">Grant</option>
+                      <option value="deny">Deny</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      {canManage ? (
+        <div>
+          <label htmlFor="permissions-audit-reason" className="text-sm font-medium">Audit reason <span className="text-destructive">*</span></label>
+          <Textarea id="permissions-audit-reason" value={auditReason} onChange={(event) => setAuditReason(event.target.value)} disabled={saveMutation.isPending} maxLength={500} placeholder="Explain why this access change is required…" className="mt-2" />
+        </div>
+      ) : null}
+      <DialogFooter>
+        <Button variant="outline" disabled={saveMutation.isPending} onClick={onDone}>{canManage ? 'Cancel' : 'Close'}</Button>
+        {canManage ? (
+          <Button disabled={saveMutation.isPending || auditReason.trim().length < 3} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending ? <Loader2 className="animate-spin" /> : null}Save permissions
+          </Button>
+        ) : null}
+      </DialogFooter>
+    </>
+  );
+}
+
+export function UserPermissionsDialog({ user, canManage, onClose }: { user: User | null; canManage: boolean; onClose: () => void }) {
+  const catalogQuery = useQuery({
+    queryKey: ['admin-permission-catalog'],
+    queryFn: getPermissionCatalog,
+    enabled: Boolean(user),
+    staleTime: 5 * 60 * 1000,
+  });
+  const stateQuery = useQuery({
+    queryKey: ['admin-user-permissions', user?.id],
+    queryFn: () => getUserPermissions(user!.id),
+    enabled: Boolean(user),
+  });
+
+  const catalog = catalogQuery.data?.data;
+  const state = stateQuery.data?.data;
+
+  return (
+    <Dialog open={Boolean(user)} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Permissions{user ? ` · ${user.username}` : ''}</DialogTitle>
+          <DialogDescription>Overrides apply on top of the {user?.role ?? 'role'} defaults and are written to the audit log.</DialogDescription>
+        </DialogHeader>
+        {user && catalog && state ? (
+          <PermissionsForm
+            key={`${user.id}-${stateQuery.dataUpdatedAt}`}
+            user={user}
+            catalog={catalog.permissions}
+            roleDefaults={catalog.roles[user.role] ?? []}
+            state={state}
+            canManage={canManage}
+            onDone={onClose}
+          />
+        ) : catalogQuery.isError || stateQuery.isError ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Permissions are unavailable. Try again later.</p>
+        ) : (
+          <div className="flex justify-center py-10"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
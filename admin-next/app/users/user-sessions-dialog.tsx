@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getUserSessions, revokeUserSessions } from '@/lib/api';
+import { SessionList } from '@/components/signed-in-devices';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, LogOut } from 'lucide-react';
+import type { User } from '@/lib/types';
+
+export function UserSessionsDialog({ user, canManage, onClose }: { user: User | null; canManage: boolean; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [auditReason, setAuditReason] = useState('');
+
+  const sessionsQuery = useQuery({
+    queryKey: ['admin-user-sessions', user?.id],
+    queryFn: () => getUserSessions(user!.id),
+    enabled: Boolean(user),
+  });
+  const sessions = sessionsQuery.data?.data ?? [];
+
+  const close = () => {
+    setAuditReason('');
+    onClose();
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: () => revokeUserSessions(user!.id, auditReason.trim()),
+    onSuccess: async (response) => {
+      await queryClient.invalidateQueries({ queryKey: ['admin-user-sessions', user?.id] });
+      toast.success(response.data.revoked
+        ? `Signed ${user?.username} out of ${response.data.revoked} session${response.data.revoked === 1 ? '' : 's'}.`
+        : 'The user had no active sessions.');
+      close();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to sign the user out.'),
+  });
+
+  return (
+    <Dialog open={Boolean(user)} onOpenChange={(open) => { if (!open && !revokeMutation.isPending) close(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sessions{user ? ` · ${user.username}` : ''}</DialogTitle>
+          <DialogDescription>Devices where this account is signed in. Forcing a sign-out is written to the audit log.</DialogDescription>
+        </DialogHeader>
+        {sessionsQuery.isLoading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : sessionsQuery.isError ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Sessions are unavailable. Try again later.</p>
+        ) : (
+          <SessionList sessions={sessions} />
+        )}
+        {canManage && sessions.length > 0 ? (
+          <div>
+            <label htmlFor="sessions-audit-reason" className="text-sm font-medium">Audit reason <span className="text-destructive">*</span></label>
+            <Textarea id="sessions-audit-reason" value={auditReason} onChange={(event) => setAuditReason(event.target.value)} disabled={revokeMutation.isPending} maxLength={500} placeholder="Explain why this user must be signed out…" className="mt-2" />
+          </div>
+        ) : null}
+        <DialogFooter>
+          <Button variant="outline" disabled={revokeMutation.isPending} onClick={close}>Close</Button>
+          {canManage && sessions.length > 0 ? (
+            <Button variant="destructive" disabled={revokeMutation.isPending || auditReason.trim().length < 3} onClick={() => revokeMutation.mutate()}>
+              {revokeMutation.isPending ? <Loader2 className="animate-spin" /> : <LogOut />}Sign out everywhere
+            </Button>
+          ) : null}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
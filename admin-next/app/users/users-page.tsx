@@ -3,8 +3,9 @@
 import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { deleteUser, getUsers, updateUser } from '@/lib/api';
+import { deleteUser, getUsers, resetUserTwoFactor, updateUser } from '@/lib/api';
 import { useAuth } from '@/lib/auth-context';
+import { userHasPermission } from '@/lib/admin-permissions';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -23,7 +24,10 @@ import {
   AlertTriangle,
   ChevronLeft,
   ChevronRight,
+  KeyRound,
   Loader2,
+  MonitorSmartphone,
+  RotateCcw,
   Search,
   Shield,
   ShieldOff,
@@ -32,13 +36,16 @@ import {
   UserX,
 } from 'lucide-react';
 import type { AdminRole, User } from '@/lib/types';
+import { UserPermissionsDialog } from './user-permissions-dialog';
+import { UserSessionsDialog } from './user-sessions-dialog';
 
 const PAGE_SIZE = 20;
 
 type PendingAction =
   | { kind: 'role'; user: User; nextRole: AdminRole }
   | { kind: 'status'; user: User; nextActive: boolean }
-  | { kind: 'delete'; user: User };
+  | { kind: 'delete'; user: User }
+  | { kind: 'reset-two-factor'; user: User };
 
 function formatDate(value?: string) {
   if (!value) return 'Never';
@@ -58,6 +65,9 @@ export function UsersPage() {
   const [page, setPage] = useState(0);
   const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
   const [auditReason, setAuditReason] = useState('');
+  const [permissionsUser, setPermissionsUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const canManage = userHasPermission(currentUser, 'users:manage');
 
   const filters = {
     search: search || undefined,
@@ -97,10 +107,21 @@ export function UsersPage() {
     onError: (error: Error) => toast.error(error.message || 'Failed to delete user.'),
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => resetUserTwoFactor(id, reason),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+      toast.success('Two-factor authentication reset. The user will enrol again at next sign-in.');
+      closeDialog();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to reset two-factor authentication.'),
+  });
+
   const users = usersQuery.data?.data || [];
   const total = usersQuery.data?.total || 0;
   const totalPages = Math.ceil(total / PAGE_SIZE);
-  const mutationPending = updateMutation.isPending || deleteMutation.isPending;
+  const mutationPending = updateMutation.isPending || deleteMutation.isPending || resetTwoFactorMutation.isPending;
+  const actionsLocked = mutationPending || !canManage;
   const loadedSuperadmins = users.filter((user) => user.role === 'superadmin').length;
   const loadedActiveSuperadmins = users.filter((user) => user.role === 'superadmin' && user.isActive).length;
   const completeSuperadminView = !search && total <= PAGE_SIZE && (roleFilter === 'superadmin' || roleFilter === 'all');
@@ -128,6 +149,8 @@ export function UsersPage() {
       updateMutation.mutate({ id: pendingAction.user.id, updates: { role: pendingAction.nextRole, auditReason: auditReason.trim() } });
     } else if (pendingAction.kind === 'status') {
       updateMutation.mutate({ id: pendingAction.user.id, updates: { isActive: pendingAction.nextActive, auditReason: auditReason.trim() } });
+    } else if (pendingAction.kind === 'reset-two-factor') {
+      resetTwoFactorMutation.mutate({ id: pendingAction.user.id, reason: auditReason.trim() });
     } else {
       deleteMutation.mutate({ id: pendingAction.user.id, reason: auditReason.trim() });
     }
@@ -137,7 +160,9 @@ export function UsersPage() {
     ? 'Confirm role change'
     : pendingAction?.kind === 'status'
       ? `Confirm ${pendingAction.nextActive ? 'activation' : 'deactivation'}`
-      : 'Confirm user deletion';
+      : pendingAction?.kind === 'reset-two-factor'
+        ? 'Confirm two-factor reset'
+        : 'Confirm user deletion';
 
   return (
     <div className="space-y-6">
@@ -220,7 +245,7 @@ export function UsersPage() {
                           </div>
                         </td>
                         <td className="hidden px-4 py-4 align-top md:table-cell">
-                          <div className="flex flex-wrap gap-2"><Badge variant={['admin', 'superadmin'].includes(user.role) ? 'default' : 'secondary'}>{roleLabel(user.role)}</Badge><Badge variant={user.isActive ? 'outline' : 'destructive'}>{user.isActive ? 'Active' : 'Inactive'}</Badge></div>
+                          <div className="flex flex-wrap gap-2"><Badge variant={['admin', 'superadmin'].includes(user.role) ? 'default' : 'secondary'}>{roleLabel(user.role)}</Badge><Badge variant={user.isActive ? 'outline' : 'destructive'}>{user.isActive ? 'Active' : 'Inactive'}</Badge>{user.twoFactorEnabled ? <Badge variant="outline">2FA</Badge> : null}</div>
                           {onlySuperadmin ? <div className="mt-2 text-xs font-medium text-amber-700">Only visible superadmin</div> : lastActiveSuperadmin ? <div className="mt-2 text-xs font-medium text-amber-700">Last visible active superadmin</div> : null}
                         </td>
                         <td className="hidden px-4 py-4 align-top text-xs text-muted-foreground xl:table-cell">
@@ -229,13 +254,28 @@ export function UsersPage() {
                         </td>
                         <td className="px-4 py-4 align-top">
                           <div className="flex flex-wrap justify-end gap-2">
-                            <Button variant="outline" size="sm" disabled={mutationPending || roleBlocked} title={roleBlocked ? (self ? 'You cannot demote your own admin account' : 'The only superadmin cannot be demoted') : undefined} onClick={() => openAction({ kind: 'role', user, nextRole })}>
+                            <Button variant="outline" size="sm" disabled={actionsLocked || roleBlocked} title={roleBlocked ? (self ? 'You cannot demote your own admin account' : 'The only superadmin cannot be demoted') : undefined} onClick={() => openAction({ kind: 'role', user, nextRole })}>
                               {user.role === 'user' ? <Shield /> : <ShieldOff />}{user.role === 'user' ? 'Promote to admin' : 'Demote to user'}
                             </Button>
-                            <Button variant="outline" size="sm" disabled={mutationPending || deactivateBlocked} title={deactivateBlocked ? (self ? 'You cannot deactivate yourself' : 'The last active superadmin cannot be deactivated') : undefined} onClick={() => openAction({ kind: 'status', user, nextActive: !user.isActive })}>
+                            <Button variant="outline" size="sm" disabled={actionsLocked || deactivateBlocked} title={deactivateBlocked ? (self ? 'You cannot deactivate yourself' : 'The last active superadmin cannot be deactivated') : undefined} onClick={() => openAction({ kind: 'status', user, nextActive: !user.isActive })}>
                               {user.isActive ? <UserX /> : <UserCheck />}{user.isActive ? 'Deactivate' : 'Activate'}
                             </Button>
-                            <Button variant="destructive" size="sm" disabled={mutationPending || deleteBlocked} title={deleteBlocked ? (self ? 'You cannot delete yourself' : 'The only superadmin cannot be deleted') : undefined} onClick={() => openAction({ kind: 'delete', user })}>
+                            {['editor', 'reviewer', 'admin'].includes(user.role) && !self ? (
+                              <Button variant="outline" size="sm" onClick={() => setPermissionsUser(user)}>
+                                <KeyRound />Permissions
+                              </Button>
+                            ) : null}
+                            {!self ? (
+                              <Button variant="outline" size="sm" onClick={() => setSessionsUser(user)}>
+                                <MonitorSmartphone />Sessions
+                              </Button>
+                            ) : null}
+                            {user.twoFactorEnabled ? (
+                              <Button variant="outline" size="sm" disabled={actionsLocked} onClick={() => openAction({ kind: 'reset-two-factor', user })}>
+                                <RotateCcw />Reset 2FA
+                              </Button>
+                            ) : null}
+                            <Button variant="destructive" size="sm" disabled={actionsLocked || deleteBlocked} title={deleteBlocked ? (self ? 'You cannot delete yourself' : 'The only superadmin cannot be deleted') : undefined} onClick={() => openAction({ kind: 'delete', user })}>
                               <Trash2 />Delete
                             </Button>
                           </div>
@@ -261,6 +301,9 @@ export function UsersPage() {
         </div>
       ) : null}
 
+      <UserPermissionsDialog user={permissionsUser} canManage={canManage} onClose={() => setPermissionsUser(null)} />
+      <UserSessionsDialog user={sessionsUser} canManage={canManage} onClose={() => setSessionsUser(null)} />
+
       <Dialog open={Boolean(pendingAction)} onOpenChange={(open) => { if (!open && !mutationPending) closeDialog(); }}>
         <DialogContent showCloseButton={!mutationPending}>
           <DialogHeader>
@@ -275,6 +318,7 @@ export function UsersPage() {
                 {pendingAction.kind === 'role' ? <div className="mt-3 flex items-center gap-2"><Badge variant="secondary">{roleLabel(pendingAction.user.role)}</Badge><span>→</span><Badge>{roleLabel(pendingAction.nextRole)}</Badge></div> : null}
                 {pendingAction.kind === 'status' ? <div className="mt-3 text-xs"><span className="font-medium">Status:</span> {pendingAction.user.isActive ? 'Active' : 'Inactive'} → {pendingAction.nextActive ? 'Active' : 'Inactive'}</div> : null}
                 {pendingAction.kind === 'delete' ? <div className="mt-3 text-xs font-medium text-destructive">Deletion cannot be undone.</div> : null}
+                {pendingAction.kind === 'reset-two-factor' ? <div className="mt-3 text-xs">Their authenticator and recovery codes stop working. They will set up 2FA again at next sign-in if it is required.</div> : null}
               </div>
               <div>
                 <label htmlFor="audit-reason" className="text-sm font-medium">Audit reason <span className="text-destructive">*</span></label>
@@ -6,6 +6,8 @@ import { AlertTriangle, CheckCircle2, Clock3, Loader2, RefreshCcw, Search, Send,
 import { toast } from 'sonner';
 import {
   approveCmsPost,
+  checkCmsPostSource,
+  closeSourceChangeTask,
   getEditorialWorkflowAlertsImpact,
   getEditorialWorkflowFreshness,
   getEditorialWorkflowQueue,
@@ -15,7 +17,26 @@ import {
   getEditorialWorkflowTrust,
   runEditorialFreshnessSweep,
 } from '@/lib/api';
-import type { CmsPost } from '@/lib/types';
+import type { CmsPost, SourceChangeKind, SourceChangeTask, SourceMonitorSummary } from '@/lib/types';
+
+const SOURCE_CHANGE_LABELS: Record<SourceChangeKind, string> = {
+  new_pdf_links: 'New PDF links',
+  removed_pdf_links: 'PDF links removed',
+  dates_changed: 'Dates changed',
+  content_changed: 'Page text changed',
+  not_found: 'Page not found',
+  domain_redirect: 'Redirects to another domain',
+  unreachable: 'Unreachable',
+};
+
+const SOURCE_MONITOR_LABELS: Record<SourceMonitorSummary['status'], string> = {
+  pending: 'Not checked yet',
+  ok: 'Unchanged',
+  changed: 'Changed',
+  not_found: 'Not found',
+  redirected: 'Redirected',
+  unreachable: 'Unreachable',
+};
 
 function formatFreshnessMeta(item: CmsPost) {
   const daysToExpiry = item.freshness?.daysToExpiry;
@@ -28,6 +49,25 @@ function formatFreshnessMeta(item: CmsPost) {
   return chunks.join(' · ');
 }
 
+function formatSourceChangeDiff(task: SourceChangeTask) {
+  const { diff } = task;
+  const chunks: string[] = [];
+  if (diff.addedPdfLinks.length > 0) chunks.push(`+${diff.addedPdfLinks.length} PDF`);
+  if (diff.removedPdfLinks.length > 0) chunks.push(`-${diff.removedPdfLinks.length} PDF`);
+  if (diff.addedDates.length > 0) chunks.push(`New dates: ${diff.addedDates.join(', ')}`);
+  if (diff.removedDates.length > 0) chunks.push(`Dropped dates: ${diff.removedDates.join(', ')}`);
+  if (diff.current.finalUrl && diff.current.finalUrl !== task.url) chunks.push(`Now at ${diff.current.finalUrl}`);
+  if (diff.error) chunks.push(diff.error);
+  return chunks.join(' · ');
+}
+
+function formatSourceMonitor(monitor: SourceMonitorSummary | null) {
+  if (!monitor) return 'Source monitor: not checked yet';
+  const checked = monitor.checkedAt ? ` · checked ${new Date(monitor.checkedAt).toLocaleString()}` : '';
+  const http = monitor.httpStatus ? ` · HTTP ${monitor.httpStatus}` : '';
+  return `Source monitor: ${SOURCE_MONITOR_LABELS[monitor.status]}${http}${checked}`;
+}
+
 export function WorkflowPage() {
   const queryClient = useQueryClient();
   const pendingQuery = useQuery({
@@ -80,6 +120,26 @@ export function WorkflowPage() {
     onError: (error: Error) => toast.error(error.message || 'Failed to approve post'),
   });
 
+  const closeSourceChangeMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: 'resolved' | 'dismissed' }) => closeSourceChangeTask(id, { status }),
+    onSuccess: async (_data, { status }) => {
+      await refreshWorkflowQueries();
+      toast.success(status === 'resolved' ? 'Source change marked as handled.' : 'Source change dismissed.');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to close source change'),
+  });
+
+  const sourceCheckMutation = useMutation({
+    mutationFn: (id: string) => checkCmsPostSource(id),
+    onSuccess: async ({ data }) => {
+      await refreshWorkflowQueries();
+      toast.message(data.kinds.length > 0
+        ? `Source changed: ${data.kinds.map((kind) => SOURCE_CHANGE_LABELS[kind]).join(', ')}.`
+        : `Source check: ${SOURCE_MONITOR_LABELS[data.status]}.`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to check official source'),
+  });
+
   const previewSweepMutation = useMutation({
     mutationFn: () => runEditorialFreshnessSweep({ dryRun: true, limit: 100, note: 'Manual dry-run from workflow dashboard' }),
     onSuccess: ({ data }) => {
@@ -212,10 +272,42 @@ export function WorkflowPage() {
                 {freshnessQuery.data.slice(0, 6).map((item) => (
                   <div key={item.id} className="rounded-2xl border border-amber-100 bg-amber-50 p-4">
                     <div className="font-semibold text-amber-900">{item.title}</div>
-                    <div className="mt-1 text-[12px] text-amber-700">{item.freshness?.staleReason || 'Needs freshness review'}</div>
-                    <div className="mt-1 text-[11px] text-amber-600">
-                      {formatFreshnessMeta(item)}{item.readiness?.warningCount ? ` · ${item.readiness.warningCount} warning(s)` : ''}
-                    </div>
+                    {item.sourceChange ? (
+                      <>
+                        <div className="mt-1 text-[12px] text-amber-700">
+                          Official source: {item.sourceChange.kinds.map((kind) => SOURCE_CHANGE_LABELS[kind]).join(', ')}
+                        </div>
+                        <div className="mt-1 break-all text-[11px] text-amber-600">{formatSourceChangeDiff(item.sourceChange) || item.sourceChange.url}</div>
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          <Link href={`/announcements/${item.id}`} className="rounded-lg border border-amber-200 px-2 py-1 text-[11px] font-semibold text-amber-800 hover:bg-amber-100">
+                            Edit post
+                          </Link>
+                          <button
+                            type="button"
+                            onClick={() => closeSourceChangeMutation.mutate({ id: item.sourceChange!.id, status: 'resolved' })}
+                            disabled={closeSourceChangeMutation.isPending}
+                            className="rounded-lg border border-emerald-200 px-2 py-1 text-[11px] font-semibold text-emerald-800 hover:bg-emerald-50 disabled:opacity-50"
+                          >
+                            Mark handled
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => closeSourceChangeMutation.mutate({ id: item.sourceChange!.id, status: 'dismissed' })}
+                            disabled={closeSourceChangeMutation.isPending}
+                            className="rounded-lg border border-slate-200 px-2 py-1 text-[11px] font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="mt-1 text-[12px] text-amber-700">{item.freshness?.staleReason || 'Needs freshness review'}</div>
+                        <div className="mt-1 text-[11px] text-amber-600">
+                          {formatFreshnessMeta(item)}{item.readiness?.warningCount ? ` · ${item.readiness.warningCount} warning(s)` : ''}
+                        </div>
+                      </>
+                    )}
                   </div>
                 ))}
               </div>
@@ -243,6 +335,22 @@ export function WorkflowPage() {
                     Verification: {item.trust?.verificationStatus || 'unknown'}
                     {item.trust?.sourceNeedsRefresh ? ' · Source refresh needed' : ''}
                   </div>
+                  <div className="mt-1 flex items-center justify-between gap-2 text-[11px] text-red-600">
+                    <span>
+                      {formatSourceMonitor(item.sourceMonitor)}
+                      {item.sourceMonitor?.openTask ? ' · change awaiting review' : ''}
+                    </span>
+                    {item.trust?.hasPrimarySource ? (
+                      <button
+                        type="button"
+                        onClick={() => sourceCheckMutation.mutate(item.id)}
+                        disabled={sourceCheckMutation.isPending}
+                        className="shrink-0 rounded-md border border-red-200 px-1.5 py-0.5 font-semibold text-red-800 hover:bg-red-100 disabled:opacity-50"
+                      >
+                        Check now
+                      </button>
+                    ) : null}
+                  </div>
                 </div>
               ))}
             </div>
@@ -2,10 +2,19 @@
 
 import { useAuth } from '@/lib/auth-context';
 import { LoginPage } from '@/app/login/login-page';
-import type { AdminRole } from '@/lib/types';
+import { userHasPermission } from '@/lib/admin-permissions';
+import type { AdminPermission, AdminRole } from '@/lib/types';
 import { Loader2 } from 'lucide-react';
 
-export function AdminGuard({ children, allowedRoles }: { children: React.ReactNode; allowedRoles?: readonly AdminRole[] }) {
+export function AdminGuard({
+  children,
+  allowedRoles,
+  permission,
+}: {
+  children: React.ReactNode;
+  allowedRoles?: readonly AdminRole[];
+  permission?: AdminPermission;
+}) {
   const { user, loading } = useAuth();
 
   if (loading) {
@@ -18,12 +27,12 @@ export function AdminGuard({ children, allowedRoles }: { children: React.ReactNo
 
   if (!user) return <LoginPage />;
 
-  if (allowedRoles && !allowedRoles.includes(user.role)) {
+  if ((allowedRoles && !allowedRoles.includes(user.role)) || !userHasPermission(user, permission)) {
     return (
       <div className="flex min-h-screen items-center justify-center p-6">
         <div className="max-w-md rounded-2xl border bg-card p-6 text-center shadow-sm">
           <h1 className="text-lg font-semibold">Access denied</h1>
-          <p className="mt-2 text-sm text-muted-foreground">Your role does not have access to this admin page.</p>
+          <p className="mt-2 text-sm text-muted-foreground">Your account does not have access to this admin page.</p>
         </div>
       </div>
     );
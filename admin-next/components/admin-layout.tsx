@@ -23,10 +23,13 @@ import {
   ExternalLink,
   FileText,
   Hash,
+  Inbox,
   LayoutDashboard,
   LogOut,
+  Mail,
   Menu,
   MessageSquare,
+  MonitorSmartphone,
   Plus,
   Search,
   SearchCheck,
@@ -34,6 +37,7 @@ import {
   Shield,
   SquareKanban,
   Trophy,
+  Upload,
   UserCog,
   Users,
   X,
@@ -42,15 +46,10 @@ import {
 import { toast } from 'sonner';
 import { useAuth } from '@/lib/auth-context';
 import { cn } from '@/lib/utils';
-import type { AdminRole } from '@/lib/types';
-import {
-  ADMINISTRATOR_ROLES,
-  CONTENT_WRITE_ROLES,
-  MODERATION_ROLES,
-  REVIEW_WORKFLOW_ROLES,
-  roleIsAllowed,
-} from '@/lib/admin-roles';
-import { RoleGuard } from './role-guard';
+import type { AdminPermission, AdminRole, User } from '@/lib/types';
+import { CONTENT_WRITE_ROLES, roleIsAllowed } from '@/lib/admin-roles';
+import { userHasPermission } from '@/lib/admin-permissions';
+import { SignedInDevicesDialog } from './signed-in-devices';
 import { ThemeToggle } from './theme-toggle';
 import { useTheme } from 'next-themes';
 
@@ -62,6 +61,7 @@ type NavItem = {
   sub?: boolean;
   match?: (pathname: string, searchParams: ReadonlyURLSearchParams) => boolean;
   roles?: readonly AdminRole[];
+  permission?: AdminPermission;
 };
 
 type NavSection = {
@@ -74,7 +74,7 @@ const NAV_SECTIONS: NavSection[] = [
     label: 'Command',
     items: [
       { href: '/', label: 'Dashboard', icon: LayoutDashboard, match: pathname => pathname === '/' },
-      { href: '/workflow', label: 'Tasks / Workflow', icon: SquareKanban, roles: REVIEW_WORKFLOW_ROLES },
+      { href: '/workflow', label: 'Tasks / Workflow', icon: SquareKanban, permission: 'posts:approve' },
       { href: '/calendar', label: 'Calendar', icon: CalendarDays },
     ],
   },
@@ -129,11 +129,17 @@ const NAV_SECTIONS: NavSection[] = [
         sub: true,
         match: (pathname, searchParams) => pathname === '/announcements' && searchParams.get('type') === 'syllabus',
       },
+      {
+        href: '/imports',
+        label: 'Bulk Import',
+        icon: Upload,
+        permission: 'posts:write',
+      },
       {
         href: '/taxonomies',
         label: 'Taxonomies',
         icon: BookOpen,
-        roles: CONTENT_WRITE_ROLES,
+        permission: 'taxonomies:manage',
       },
       {
         href: '/data-quality',
@@ -146,36 +152,42 @@ const NAV_SECTIONS: NavSection[] = [
   {
     label: 'Growth',
     items: [
-      { href: '/subscribers', label: 'Subscribers', icon: Users, roles: ADMINISTRATOR_ROLES },
-      { href: '/notifications', label: 'Campaigns / Notifications', icon: Bell, roles: ADMINISTRATOR_ROLES },
+      { href: '/subscribers', label: 'Subscribers', icon: Users, permission: 'subscribers:read' },
+      { href: '/notifications', label: 'Campaigns / Notifications', icon: Bell, permission: 'campaigns:read' },
+      { href: '/email-templates', label: 'Email Templates', icon: Mail, permission: 'campaigns:read' },
+      { href: '/mailbox', label: 'Mailbox', icon: Inbox, permission: 'campaigns:read' },
     ],
   },
   {
     label: 'Moderation',
     items: [
-      { href: '/community', label: 'Community Moderation', icon: MessageSquare, roles: MODERATION_ROLES },
-      { href: '/engagement', label: 'Engagement', icon: Users, roles: ADMINISTRATOR_ROLES },
-      { href: '/error-reports', label: 'Error Reports / User Reports', icon: FileText, roles: ADMINISTRATOR_ROLES },
+      { href: '/community', label: 'Community Moderation', icon: MessageSquare, permission: 'community:moderate' },
+      { href: '/engagement', label: 'Engagement', icon: Users, permission: 'analytics:read' },
+      { href: '/error-reports', label: 'Error Reports / User Reports', icon: FileText, permission: 'reports:manage' },
     ],
   },
   {
     label: 'Insights',
     items: [
-      { href: '/analytics', label: 'Analytics', icon: BarChart3, roles: ADMINISTRATOR_ROLES },
-      { href: '/seo', label: 'SEO', icon: SearchCheck, roles: ADMINISTRATOR_ROLES },
+      { href: '/analytics', label: 'Analytics', icon: BarChart3, permission: 'analytics:read' },
+      { href: '/seo', label: 'SEO', icon: SearchCheck, permission: 'analytics:read' },
     ],
   },
   {
     label: 'Operations',
     items: [
-      { href: '/users', label: 'Users', icon: UserCog, roles: ADMINISTRATOR_ROLES },
-      { href: '/audit-log', label: 'Activity Log', icon: Activity, roles: ADMINISTRATOR_ROLES },
-      { href: '/system-admin', label: 'System Admin', icon: Shield, roles: ADMINISTRATOR_ROLES },
-      { href: '/settings', label: 'Settings', icon: Settings, roles: ADMINISTRATOR_ROLES },
+      { href: '/users', label: 'Users', icon: UserCog, permission: 'users:read' },
+      { href: '/audit-log', label: 'Activity Log', icon: Activity, permission: 'audit:read' },
+      { href: '/system-admin', label: 'System Admin', icon: Shield, permission: 'system:read' },
+      { href: '/settings', label: 'Settings', icon: Settings, permission: 'settings:read' },
     ],
   },
 ];
 
+function canSeeNavItem(item: NavItem, user: User | null) {
+  return (!item.roles || roleIsAllowed(item.roles, user?.role)) && userHasPermission(user, item.permission);
+}
+
 function matchesNavItem(item: NavItem, pathname: string, searchParams: ReadonlyURLSearchParams) {
   if (item.match) return item.match(pathname, searchParams);
   return pathname === item.href || pathname.startsWith(`${item.href}/`);
@@ -223,9 +235,17 @@ export function AdminLayout({ children }: { children: ReactNode }) {
   const [paletteOpen, setPaletteOpen] = useState(false);
   const [paletteQuery, setPaletteQuery] = useState('');
   const [notifOpen, setNotifOpen] = useState(false);
+  const [devicesOpen, setDevicesOpen] = useState(false);
   const paletteRef = useRef<HTMLInputElement>(null);
 
   const flatItems = useMemo(() => NAV_SECTIONS.flatMap(section => section.items), []);
+  const visibleSections = useMemo(
+    () => NAV_SECTIONS
+      .map(section => ({ ...section, items: section.items.filter(item => canSeeNavItem(item, user)) }))
+      .filter(section => section.items.length > 0),
+    [user]
+  );
+  const canCreatePost = userHasPermission(user, 'posts:submit');
   const currentItem = useMemo(
     () => flatItems.find(item => matchesNavItem(item, pathname, searchParams)),
     [flatItems, pathname, searchParams]
@@ -256,11 +276,10 @@ export function AdminLayout({ children }: { children: ReactNode }) {
 
   const commandItems = useMemo(
     () => [
-      ...(roleIsAllowed(CONTENT_WRITE_ROLES, user?.role)
+      ...(canCreatePost
         ? [{ id: 'new-post', label: 'New Post', icon: Plus, description: 'Action', run: () => router.push('/announcements/new') }]
         : []),
-      ...NAV_SECTIONS.flatMap(section => section.items
-        .filter(item => !item.roles || roleIsAllowed(item.roles, user?.role))
+      ...visibleSections.flatMap(section => section.items
         .map(item => ({
           id: item.href,
           label: item.label,
@@ -269,9 +288,10 @@ export function AdminLayout({ children }: { children: ReactNode }) {
           run: () => router.push(item.href),
         }))),
       { id: 'view-site', label: 'View Live Site', icon: ExternalLink, description: 'Open homepage', run: () => openLiveSite() },
+      { id: 'sessions', label: "Where you're signed in", icon: MonitorSmartphone, description: 'Manage your sessions', run: () => setDevicesOpen(true) },
       { id: 'logout', label: 'Logout', icon: LogOut, description: 'End admin session', run: () => void handleLogout() },
     ],
-    [handleLogout, openLiveSite, router, user]
+    [canCreatePost, handleLogout, openLiveSite, router, visibleSections]
   );
 
   const filteredCommands = useMemo(() => {
@@ -462,7 +482,7 @@ export function AdminLayout({ children }: { children: ReactNode }) {
           </div>
         )}
 
-        {!collapsed && roleIsAllowed(CONTENT_WRITE_ROLES, user?.role) && (
+        {!collapsed && canCreatePost && (
           <div className="px-3 pb-2">
             <Link
               href="/announcements/new"
@@ -477,7 +497,7 @@ export function AdminLayout({ children }: { children: ReactNode }) {
         )}
 
         <nav className="scrollbar-none flex-1 overflow-y-auto px-2 py-1">
-          {NAV_SECTIONS.map(section => (
+          {visibleSections.map(section => (
             <div key={section.label}>
               {section.label && !collapsed && (
                 <div className="px-2 pb-1 pt-4">
@@ -543,13 +563,6 @@ export function AdminLayout({ children }: { children: ReactNode }) {
                   </Link>
                 );
 
-                if (item.roles) {
-                  return (
-                    <RoleGuard key={item.href} allowedRoles={item.roles}>
-                      {LinkNode}
-                    </RoleGuard>
-                  );
-                }
                 return <Fragment key={item.href}>{LinkNode}</Fragment>;
               })}
             </div>
@@ -558,7 +571,12 @@ export function AdminLayout({ children }: { children: ReactNode }) {
 
         <div className="shrink-0 space-y-1 border-t border-white/10 p-2.5">
           {!collapsed && (
-            <div className="mb-1 flex items-center gap-2.5 rounded-2xl border border-white/8 bg-white/5 px-3 py-2.5">
+            <button
+              type="button"
+              onClick={() => setDevicesOpen(true)}
+              className="mb-1 flex w-full items-center gap-2.5 rounded-2xl border border-white/8 bg-white/5 px-3 py-2.5 text-left transition-colors hover:bg-white/10"
+              title="Where you're signed in"
+            >
               <div
                 className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-[11px] font-extrabold text-white"
                 style={{ background: 'linear-gradient(135deg, #e65100, #bf360c)', boxShadow: '0 2px 8px rgba(230,81,0,0.4)' }}
@@ -570,7 +588,7 @@ export function AdminLayout({ children }: { children: ReactNode }) {
                 <div className="text-[9px] font-semibold text-[#fdd83599]">{userRoleLabel}</div>
               </div>
               <div className="h-2 w-2 shrink-0 rounded-full bg-green-400" title="Online" />
-            </div>
+            </button>
           )}
 
           <div className={cn('flex gap-1', collapsed ? 'flex-col' : 'flex-row')}>
@@ -687,7 +705,7 @@ export function AdminLayout({ children }: { children: ReactNode }) {
               </button>
 
               <div className="flex items-center gap-2 border-l border-gray-200 pl-3">
-                <RoleGuard allowedRoles={ADMINISTRATOR_ROLES}>
+                {userHasPermission(user, 'system:read') && (
                   <Link
                     href="/system-admin"
                     className="flex items-center gap-2 rounded-xl border border-orange-200 bg-gradient-to-r from-orange-50 to-amber-50 px-2.5 py-1.5 transition-colors hover:bg-orange-100/60"
@@ -702,7 +720,7 @@ export function AdminLayout({ children }: { children: ReactNode }) {
                     <span className="hidden text-xs font-bold text-gray-700 sm:block">{userLabel}</span>
                     <span className="rounded-full bg-orange-500 px-1.5 py-0.5 text-[7px] font-black tracking-[0.08em] text-white">{userRoleLabel}</span>
                   </Link>
-                </RoleGuard>
+                )}
                 <button
                   type="button"
                   onClick={() => void handleLogout()}
@@ -720,6 +738,8 @@ export function AdminLayout({ children }: { children: ReactNode }) {
           {children}
         </main>
       </div>
+
+      <SignedInDevicesDialog open={devicesOpen} onOpenChange={setDevicesOpen} />
     </div>
   );
 }
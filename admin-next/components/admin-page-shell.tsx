@@ -3,16 +3,17 @@
 import type { ReactNode } from 'react';
 import { AdminGuard } from './admin-guard';
 import { AdminLayout } from './admin-layout';
-import type { AdminRole } from '@/lib/types';
+import type { AdminPermission, AdminRole } from '@/lib/types';
 
 interface AdminPageShellProps {
   children: ReactNode;
   allowedRoles?: readonly AdminRole[];
+  permission?: AdminPermission;
 }
 
-export function AdminPageShell({ children, allowedRoles }: AdminPageShellProps) {
+export function AdminPageShell({ children, allowedRoles, permission }: AdminPageShellProps) {
   return (
-    <AdminGuard allowedRoles={allowedRoles}>
+    <AdminGuard allowedRoles={allowedRoles} permission={permission}>
       <AdminLayout>{children}</AdminLayout>
     </AdminGuard>
   );
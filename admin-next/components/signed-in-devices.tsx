@@ -0,0 +1,132 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, LogOut, MonitorSmartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import { getMySessions, revokeMyOtherSessions, revokeMySession } from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import type { UserSession } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+function formatSeen(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? 'Unknown' : date.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function SessionList({
+  sessions,
+  onRevoke,
+  revokingId,
+}: {
+  sessions: UserSession[];
+  onRevoke?: (session: UserSession) => void;
+  revokingId?: string | null;
+}) {
+  if (sessions.length === 0) {
+    return <p className="rounded-xl border bg-muted/40 p-4 text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <ul className="max-h-[50vh] divide-y overflow-y-auto rounded-xl border">
+      {sessions.map((session) => (
+        <li key={session.id} className="flex items-center gap-3 px-3 py-2.5">
+          <MonitorSmartphone className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+              {session.device}
+              {session.current ? <Badge variant="outline">This device</Badge> : null}
+            </div>
+            <div className="mt-0.5 text-xs text-muted-foreground">
+              {[session.ipAddress, session.country].filter(Boolean).join(' · ') || 'Unknown location'} · Last active {formatSeen(session.lastSeenAt)}
+            </div>
+          </div>
+          {onRevoke ? (
+            <Button variant="ghost" size="sm" disabled={Boolean(revokingId)} onClick={() => onRevoke(session)}>
+              {revokingId === session.id ? <Loader2 className="animate-spin" /> : <LogOut />}Sign out
+            </Button>
+          ) : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** The signed-in admin's own sessions, with per-device and "everywhere else" sign-out. */
+export function SignedInDevicesDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const queryClient = useQueryClient();
+  const { logout } = useAuth();
+
+  const sessionsQuery = useQuery({
+    queryKey: ['my-sessions'],
+    queryFn: getMySessions,
+    enabled: open,
+  });
+  const sessions = sessionsQuery.data?.data ?? [];
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: UserSession) => revokeMySession(session.id),
+    onSuccess: async (_response, session) => {
+      if (session.current) {
+        onOpenChange(false);
+        await logout();
+        return;
+      }
+      await queryClient.invalidateQueries({ queryKey: ['my-sessions'] });
+      toast.success(`Signed out of ${session.device}.`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to sign out that device.'),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: revokeMyOtherSessions,
+    onSuccess: async (response) => {
+      await queryClient.invalidateQueries({ queryKey: ['my-sessions'] });
+      toast.success(response.data.revoked
+        ? `Signed out of ${response.data.revoked} other device${response.data.revoked === 1 ? '' : 's'}.`
+        : 'No other devices were signed in.');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to sign out other devices.'),
+  });
+
+  const pending = revokeMutation.isPending || revokeOthersMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!pending) onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Where you&apos;re signed in</DialogTitle>
+          <DialogDescription>Sign out any device you don&apos;t recognise. Signing out this device ends your current session.</DialogDescription>
+        </DialogHeader>
+        {sessionsQuery.isLoading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : sessionsQuery.isError ? (
+          <p className="text-sm text-destructive">Sessions are unavailable. Try again later.</p>
+        ) : (
+          <SessionList
+            sessions={sessions}
+            onRevoke={(session) => revokeMutation.mutate(session)}
+            revokingId={revokeMutation.isPending ? revokeMutation.variables?.id : null}
+          />
+        )}
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={pending || !sessions.some((session) => !session.current)}
+            onClick={() => revokeOthersMutation.mutate()}
+          >
+            {revokeOthersMutation.isPending ? <Loader2 className="animate-spin" /> : null}Sign out all other devices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type FormEvent, type ReactNode } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { ApiError, requestStepUp, setStepUpHandler } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+/**
+ * Prompts for a password or authenticator code when the backend answers
+ * STEP_UP_REQUIRED.
+ * Requests waiting on the prompt share one pending confirmation and are
+ * retried by the API client once it resolves.
+ */
+export function StepUpProvider({ children }: { children: ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [useCode, setUseCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const pending = useRef<{ promise: Promise<boolean>; resolve: (confirmed: boolean) => void } | null>(null);
+
+  const settle = useCallback((confirmed: boolean) => {
+    pending.current?.resolve(confirmed);
+    pending.current = null;
+    setOpen(false);
+    setPassword('');
+    setUseCode(false);
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    setStepUpHandler(() => {
+      if (!pending.current) {
+        let resolve: (confirmed: boolean) => void = () => {};
+        const promise = new Promise<boolean>((done) => { resolve = done; });
+        pending.current = { promise, resolve };
+        setOpen(true);
+      }
+      return pending.current.promise;
+    });
+    return () => {
+      setStepUpHandler(null);
+      pending.current?.resolve(false);
+      pending.current = null;
+    };
+  }, []);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!password) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await requestStepUp(useCode ? { code: password.replace(/\s/g, '') } : { password });
+      settle(true);
+    } catch (err) {
+      setError(err instanceof ApiError && err.status === 401
+        ? (useCode ? 'That code is not valid. Try again.' : 'Incorrect password. Try again.')
+        : err instanceof Error ? err.message : 'Could not confirm your identity.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      {children}
+      <Dialog open={open} onOpenChange={(next) => { if (!next && !submitting) settle(false); }}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" />Confirm it&apos;s you</DialogTitle>
+              <DialogDescription>This action needs a recent password or authenticator confirmation. It stays valid for a few minutes.</DialogDescription>
+            </DialogHeader>
+            <div>
+              <label htmlFor="step-up-password" className="text-sm font-medium">{useCode ? 'Authenticator code' : 'Password'}</label>
+              <Input
+                id="step-up-password"
+                type={useCode ? 'text' : 'password'}
+                inputMode={useCode ? 'numeric' : undefined}
+                autoComplete={useCode ? 'one-time-code' : 'current-password'}
+                autoFocus
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                disabled={submitting}
+                className="mt-2"
+              />
+              {error ? <p role="alert" className="mt-2 text-sm text-destructive">{error}</p> : null}
+              <button
+                type="button"
+                className="mt-2 text-xs text-primary hover:underline"
+                disabled={submitting}
+                onClick={() => { setUseCode((value) => !value); setPassword(''); setError(null); }}
+              >
+                {useCode ? 'Use password instead' : 'Use authenticator code instead'}
+              </button>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" disabled={submitting} onClick={() => settle(false)}>Cancel</Button>
+              <Button type="submit" disabled={submitting || !password}>
+                {submitting ? <Loader2 className="animate-spin" /> : null}Confirm
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -60,7 +60,7 @@ test.describe('authenticated admin shell', () => {
     await page.goto('/admin/users');
 
     await expect(page.getByRole('heading', { name: 'Access denied' })).toBeVisible();
-    await expect(page.getByText('Your role does not have access to this admin page.')).toBeVisible();
+    await expect(page.getByText('Your account does not have access to this admin page.')).toBeVisible();
     await expect(page.getByRole('button', { name: 'Sign in' })).toHaveCount(0);
   });
 });
@@ -0,0 +1,14 @@
+import { ADMINISTRATOR_ROLES, roleIsAllowed } from './admin-roles';
+import type { AdminPermission, User } from './types';
+
+/**
+ * Whether the signed-in user holds a permission. Permissions come from the
+ * backend session (`/auth/me`); sessions issued before permissions existed fall
+ * back to the administrator role, which holds every permission by default.
+ */
+export function userHasPermission(user: User | null | undefined, permission?: AdminPermission) {
+  if (!user) return false;
+  if (!permission) return true;
+  if (!user.permissions) return roleIsAllowed(ADMINISTRATOR_ROLES, user.role);
+  return user.permissions.includes(permission);
+}
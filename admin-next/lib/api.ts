@@ -1,4 +1,8 @@
 import type {
+  AdminPermission,
+  AdminPermissionDefinition,
+  AdminPermissionOverride,
+  AdminRole,
   AlertImpactQueueItem,
   AlertMatchPreview,
   AlertPreferenceCoverage,
@@ -7,22 +11,43 @@ import type {
   Announcement,
   AnalyticsOverview,
   CmsDashboardData,
+  CmsExamCycle,
   CmsPost,
+  CmsPostDuplicate,
+  CmsPostRevertSelection,
+  CmsPostVersion,
+  CmsPostVersionDiff,
   CmsTaxonomy,
   DashboardData,
   EditorialAuditEntry,
   EditorialBulkTransitionResult,
+  FreshnessQueuePost,
+  NotificationPdfImport,
   PaginatedResponse,
+  PostImportFormat,
+  PostImportPreview,
+  PostImportReport,
+  ScheduledCmsPost,
   SiteSettings,
+  SourceChangeTask,
+  SourceMonitorSummary,
+  TrustQueuePost,
+  TwoFactorChallenge,
+  TwoFactorSetup,
   User,
+  UserPermissionState,
+  UserSession,
   WorkflowViolation,
 } from './types';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 const CSRF_COOKIE_NAME = 'csrf_token';
 const CSRF_HEADER_NAME = 'X-CSRF-Token';
+const STEP_UP_HEADER_NAME = 'X-Step-Up-Token';
 
 let csrfTokenCache: string | null = null;
+let stepUpToken: { token: string; expiresAt: number } | null = null;
+let stepUpHandler: (() => Promise<boolean>) | null = null;
 
 function readCookie(name: string): string | null {
   if (typeof document === 'undefined') return null;
@@ -78,6 +103,7 @@ async function apiFetchWithCsrf<T>(path: string, options: RequestInit = {}): Pro
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       ...(options.headers as Record<string, string> || {}),
+      ...currentStepUpHeader(),
       [CSRF_HEADER_NAME]: csrfToken,
     };
     const res = await fetch(`${API_BASE}${path}`, { ...options, headers, credentials: 'include' });
@@ -91,10 +117,37 @@ async function apiFetchWithCsrf<T>(path: string, options: RequestInit = {}): Pro
         (err.body as Record<string, unknown> | null)?.error === 'csrf_invalid') {
       return doRequest(true);
     }
+    if (isStepUpRequired(err) && stepUpHandler) {
+      stepUpToken = null;
+      if (await stepUpHandler()) return doRequest(false);
+    }
     throw err;
   }
 }
 
+function currentStepUpHeader(): Record<string, string> {
+  if (!stepUpToken || stepUpToken.expiresAt <= Date.now()) return {};
+  return { [STEP_UP_HEADER_NAME]: stepUpToken.token };
+}
+
+export function isStepUpRequired(err: unknown): boolean {
+  return err instanceof ApiError && err.status === 403 &&
+    (err.body as Record<string, unknown> | null)?.code === 'STEP_UP_REQUIRED';
+}
+
+/**
+ * Register the prompt shown when the backend asks for step-up re-authentication.
+ * The handler resolves `true` once a fresh token is stored, and the original
+ * request is then retried with it.
+ */
+export function setStepUpHandler(handler: (() => Promise<boolean>) | null) {
+  stepUpHandler = handler;
+}
+
+export function clearStepUpToken() {
+  stepUpToken = null;
+}
+
 function qs(params: Record<string, string | number | boolean | undefined>): string {
   const entries = Object.entries(params).filter(([, v]) => v !== undefined && v !== '');
   if (entries.length === 0) return '';
@@ -103,12 +156,26 @@ function qs(params: Record<string, string | number | boolean | undefined>): stri
 
 // ─── Auth ───
 export function login(email: string, password: string) {
-  return apiFetchWithCsrf<{ data: { user: User } }>('/auth/login', {
+  return apiFetchWithCsrf<{ data: { user: User; twoFactor?: undefined } | { user?: undefined; twoFactor: TwoFactorChallenge } }>('/auth/login', {
     method: 'POST',
     body: JSON.stringify({ email, password }),
   });
 }
 
+export function startTwoFactorSetup(challengeToken: string) {
+  return apiFetchWithCsrf<{ data: TwoFactorSetup }>('/auth/2fa/setup', {
+    method: 'POST',
+    body: JSON.stringify({ challengeToken }),
+  });
+}
+
+export function verifyTwoFactor(challengeToken: string, input: { code: string } | { recoveryCode: string }) {
+  return apiFetchWithCsrf<{ data: { user: User; recoveryCodes?: string[] } }>('/auth/2fa/verify', {
+    method: 'POST',
+    body: JSON.stringify({ challengeToken, ...input }),
+  });
+}
+
 export function getMe() {
   return apiFetch<{ data: { user: User } }>('/auth/me');
 }
@@ -117,6 +184,18 @@ export function logout() {
   return apiFetchWithCsrf<{ message: string }>('/auth/logout', { method: 'POST' });
 }
 
+export function getMySessions() {
+  return apiFetch<{ data: UserSession[] }>('/auth/sessions');
+}
+
+export function revokeMySession(id: string) {
+  return apiFetchWithCsrf<{ message: string; data: { revoked: number; current: boolean } }>(`/auth/sessions/${id}`, { method: 'DELETE' });
+}
+
+export function revokeMyOtherSessions() {
+  return apiFetchWithCsrf<{ message: string; data: { revoked: number } }>('/auth/sessions/revoke-others', { method: 'POST' });
+}
+
 export function requestPasswordRecovery(email: string) {
   return apiFetchWithCsrf<{ message: string; data?: { testToken?: string } }>('/auth/password-recovery/request', {
     method: 'POST',
@@ -138,6 +217,15 @@ export function resetPasswordWithRecoveryToken(token: string, password: string)
   });
 }
 
+export async function requestStepUp(credentials: { password: string } | { code: string }) {
+  const res = await apiFetchWithCsrf<{ data: { stepUpToken: string; method: string; expiresAt: string } }>('/auth/step-up', {
+    method: 'POST',
+    body: JSON.stringify(credentials),
+  });
+  stepUpToken = { token: res.data.stepUpToken, expiresAt: Date.parse(res.data.expiresAt) };
+  return res;
+}
+
 export function clearCsrfCache() {
   csrfTokenCache = null;
 }
@@ -234,6 +322,43 @@ export function deleteUser(id: string, auditReason?: string) {
   });
 }
 
+export function resetUserTwoFactor(id: string, auditReason?: string) {
+  return apiFetchWithCsrf<{ message: string }>(`/admin/users/${id}/two-factor/reset`, {
+    method: 'POST',
+    body: JSON.stringify({ auditReason }),
+  });
+}
+
+export function getUserSessions(id: string) {
+  return apiFetch<{ data: UserSession[] }>(`/admin/users/${id}/sessions`);
+}
+
+export function revokeUserSessions(id: string, auditReason?: string) {
+  return apiFetchWithCsrf<{ message: string; data: { revoked: number } }>(`/admin/users/${id}/sessions/revoke`, {
+    method: 'POST',
+    body: JSON.stringify({ auditReason }),
+  });
+}
+
+export function getPermissionCatalog() {
+  return apiFetch<{ data: { permissions: AdminPermissionDefinition[]; roles: Partial<Record<AdminRole, AdminPermission[]>> } }>('/admin/permissions');
+}
+
+export function getUserPermissions(id: string) {
+  return apiFetch<{ data: UserPermissionState }>(`/admin/users/${id}/permissions`);
+}
+
+export function updateUserPermissions(
+  id: string,
+  overrides: Array<Pick<AdminPermissionOverride, 'permission' | 'effect' | 'reason'>>,
+  auditReason?: string,
+) {
+  return apiFetchWithCsrf<{ data: UserPermissionState }>(`/admin/users/${id}/permissions`, {
+    method: 'PUT',
+    body: JSON.stringify({ overrides, auditReason }),
+  });
+}
+
 // ─── Analytics ───
 export function getAnalyticsOverview(days = 30) {
   return apiFetch<{ data: AnalyticsOverview; cached: boolean }>(`/admin/analytics/overview${qs({ days })}`);
@@ -262,6 +387,31 @@ export function deleteSubscriber(id: string) {
   return apiFetchWithCsrf<{ message: string }>(`/admin/subscribers/${id}`, { method: 'DELETE' });
 }
 
+export type EmailSuppression = {
+  email: string;
+  reason: 'hard_bounce' | 'complaint' | 'manual';
+  source: 'webhook' | 'admin';
+  note?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function getEmailSuppressions(filters: { search?: string; reason?: EmailSuppression['reason']; limit?: number; offset?: number } = {}) {
+  return apiFetch<{ data: EmailSuppression[]; total: number; count: number }>(`/admin/email-suppressions${qs(filters as Record<string, string | number | undefined>)}`);
+}
+
+export function addEmailSuppression(data: { email: string; note?: string }) {
+  return apiFetchWithCsrf<{ data: EmailSuppression; message: string }>('/admin/email-suppressions', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export function removeEmailSuppression(email: string) {
+  return apiFetchWithCsrf<{ message: string }>(`/admin/email-suppressions/${encodeURIComponent(email)}`, { method: 'DELETE' });
+}
+
 // ─── Push Subscribers ───
 export function getPushSubscribers(filters: { limit?: number; offset?: number } = {}) {
   return apiFetch<{ data: any[]; total: number; count: number }>(`/admin/push-subscribers${qs(filters as Record<string, string | number | undefined>)}`);
@@ -472,14 +622,18 @@ export function getUpcomingDeadlines(limit = 10) {
 // ─── Notification Campaigns ───
 export type CampaignDeliveryStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'partial_failed' | 'simulated' | 'failed';
 
+export type CampaignChannel = 'email' | 'push' | 'telegram' | 'whatsapp';
+
+export type CampaignChannelTemplates = Partial<Record<CampaignChannel, { title?: string; body?: string }>>;
+
 export type CampaignDeliveryStats = {
   total: number;
   sent: number;
   failed: number;
-  byChannel: Array<{ channel: 'email' | 'push'; sent: number; failed: number; total: number }>;
+  byChannel: Array<{ channel: CampaignChannel; sent: number; failed: number; total: number }>;
   recentFailures: Array<{
     id: string;
-    channel: 'email' | 'push';
+    channel: CampaignChannel;
     recipient: string;
     status: string;
     error?: string;
@@ -489,12 +643,45 @@ export type CampaignDeliveryStats = {
   }>;
 };
 
-export type CampaignRecipientEstimate = {
-  email: number;
-  push: number;
+export type CampaignRecipientEstimate = Partial<Record<CampaignChannel, number>> & {
   total: number;
 };
 
+export type SegmentConditionField =
+  | 'state'
+  | 'category'
+  | 'organization'
+  | 'qualification'
+  | 'postType'
+  | 'frequency'
+  | 'lastActive'
+  | 'trackedStatus'
+  | 'campaignReceived';
+
+export type SegmentCondition = {
+  type: 'condition';
+  field: SegmentConditionField;
+  values?: string[];
+  days?: number;
+  negate?: boolean;
+};
+
+export type SegmentGroup = {
+  type: 'group';
+  combinator: 'and' | 'or';
+  negate?: boolean;
+  rules: Array<SegmentCondition | SegmentGroup>;
+};
+
+export type SavedCampaignSegment = {
+  id: string;
+  name: string;
+  description?: string;
+  expression: SegmentGroup;
+  createdAt: string;
+  updatedAt: string;
+};
+
 export function getCampaigns() {
   return apiFetch<{ data: Array<{
     id: string;
@@ -508,6 +695,9 @@ export function getCampaigns() {
     sentAt?: string;
     createdAt: string;
     segment: { type: string; value: string };
+    segmentExpression?: SegmentGroup;
+    channels: CampaignChannel[];
+    channelTemplates?: CampaignChannelTemplates;
     unsupportedSegment: boolean;
   }> }>('/admin/campaigns');
 }
@@ -517,6 +707,10 @@ export function createCampaign(data: {
   body: string;
   url?: string;
   segment: { type: string; value: string };
+  audience?: SegmentGroup;
+  savedSegmentId?: string;
+  channels: CampaignChannel[];
+  channelTemplates?: CampaignChannelTemplates;
   scheduledAt?: string;
 }) {
   return apiFetchWithCsrf<{ data: { id: string }; message: string }>('/admin/campaigns', {
@@ -552,6 +746,8 @@ export function getSegments() {
     segments: {
       states: string[];
       categories: string[];
+      organizations: string[];
+      qualifications: string[];
       languages: string[];
       totalUsers: number;
     };
@@ -559,6 +755,123 @@ export function getSegments() {
   } }>('/admin/segments');
 }
 
+export function estimateSegment(audience: SegmentGroup, channels: CampaignChannel[]) {
+  return apiFetchWithCsrf<{ data: CampaignRecipientEstimate }>('/admin/campaign-segments/estimate', {
+    method: 'POST',
+    body: JSON.stringify({ audience, channels }),
+  });
+}
+
+export function getSavedSegments() {
+  return apiFetch<{ data: SavedCampaignSegment[] }>('/admin/campaign-segments');
+}
+
+export function createSavedSegment(data: { name: string; description?: string; expression: SegmentGroup }) {
+  return apiFetchWithCsrf<{ data: SavedCampaignSegment; message: string }>('/admin/campaign-segments', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export function deleteSavedSegment(id: string) {
+  return apiFetchWithCsrf<{ message: string }>(`/admin/campaign-segments/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+// ─── Email templates ───
+export type EmailTemplateSummary = {
+  key: string;
+  kind: 'template' | 'partial';
+  name: string;
+  description: string;
+  variables: string[];
+  version: number;
+  customized: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+export type EmailTemplateVersion = {
+  version: number;
+  subject: string;
+  html: string;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+};
+
+export type EmailTemplateDetail = EmailTemplateSummary & {
+  subject: string;
+  html: string;
+  defaultSubject: string;
+  defaultHtml: string;
+  versions: EmailTemplateVersion[];
+};
+
+export type EmailTemplatePreviewInput = {
+  subject?: string;
+  html?: string;
+  postId?: string;
+  subscriberEmail?: string;
+};
+
+export function getEmailTemplates() {
+  return apiFetch<{ data: EmailTemplateSummary[] }>('/admin/email-templates');
+}
+
+export function getEmailTemplate(key: string) {
+  return apiFetch<{ data: EmailTemplateDetail }>(`/admin/email-templates/${key}`);
+}
+
+export function saveEmailTemplate(key: string, data: { subject: string; html: string; note?: string }) {
+  return apiFetchWithCsrf<{ data: { version: number }; message: string }>(`/admin/email-templates/${key}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export function previewEmailTemplate(key: string, data: EmailTemplatePreviewInput) {
+  return apiFetchWithCsrf<{ data: { subject: string; html: string } }>(`/admin/email-templates/${key}/preview`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export function sendTestEmailTemplate(key: string, data: EmailTemplatePreviewInput) {
+  return apiFetchWithCsrf<{ message: string }>(`/admin/email-templates/${key}/test-send`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+// ─── Captured mailbox ───
+export type CapturedEmailSummary = {
+  id: string;
+  to: string;
+  from: string;
+  subject: string;
+  createdAt: string;
+};
+
+export function getMailbox(params: { to?: string; limit?: number } = {}) {
+  const search = new URLSearchParams();
+  if (params.to) search.set('to', params.to);
+  if (params.limit) search.set('limit', String(params.limit));
+  const query = search.toString();
+  return apiFetch<{ data: CapturedEmailSummary[]; meta: { enabled: boolean; transport: string | null } }>(
+    `/admin/mailbox${query ? `?${query}` : ''}`,
+  );
+}
+
+export function getMailboxMessage(id: string) {
+  return apiFetch<{ data: CapturedEmailSummary & { html: string } }>(`/admin/mailbox/${id}`);
+}
+
+export function clearMailbox() {
+  return apiFetchWithCsrf<{ message: string }>('/admin/mailbox', { method: 'DELETE' });
+}
+
 // ─── Workflow ───
 export function assignAnnouncement(data: { announcementId: string; assigneeUserId: string; assigneeEmail: string; reviewDueAt?: string }) {
   return apiFetchWithCsrf('/admin/assign', {
@@ -711,19 +1024,48 @@ export function getCmsPost(id: string) {
 }
 
 export function createCmsPost(data: Record<string, unknown>) {
-  return apiFetchWithCsrf<{ data: CmsPost }>('/editorial/posts', {
+  return apiFetchWithCsrf<{ data: CmsPost; duplicates?: CmsPostDuplicate[] }>('/editorial/posts', {
     method: 'POST',
     body: JSON.stringify(data),
   });
 }
 
 export function updateCmsPost(id: string, data: Record<string, unknown>) {
-  return apiFetchWithCsrf<{ data: CmsPost }>(`/editorial/posts/${id}`, {
+  return apiFetchWithCsrf<{ data: CmsPost; duplicates?: CmsPostDuplicate[] }>(`/editorial/posts/${id}`, {
     method: 'PUT',
     body: JSON.stringify(data),
   });
 }
 
+export function parsePostImport(data: { format: PostImportFormat; content: string; fileName?: string }) {
+  return apiFetchWithCsrf<{ data: PostImportPreview }>('/editorial/imports/parse', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export function runPostImport(data: {
+  format: PostImportFormat;
+  content: string;
+  fileName?: string;
+  mapping: Record<string, string>;
+  defaults?: { type?: string; categories?: string[] };
+  dryRun: boolean;
+  skipDuplicates: boolean;
+}) {
+  return apiFetchWithCsrf<{ data: PostImportReport }>('/editorial/imports/run', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export function importNotificationPdf(data: { fileName: string; content: string }) {
+  return apiFetchWithCsrf<{ data: NotificationPdfImport }>('/editorial/notification-pdfs', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
 function editorialWorkflowAction(path: string, note?: string) {
   return apiFetchWithCsrf<{ data: CmsPost }>(path, {
     method: 'POST',
@@ -755,21 +1097,64 @@ export function restoreCmsPost(id: string, note?: string) {
   return editorialWorkflowAction(`/editorial/posts/${id}/restore`, note);
 }
 
-export function revertCmsPostVersion(id: string, version: number, note?: string) {
+export function scheduleCmsPost(id: string, schedule: { publishAt?: string | null; unpublishAt?: string | null; note?: string }) {
+  return apiFetchWithCsrf<{ data: CmsPost }>(`/editorial/posts/${id}/schedule`, {
+    method: 'PUT',
+    body: JSON.stringify(schedule),
+  });
+}
+
+export function cancelCmsPostSchedule(id: string) {
+  return apiFetchWithCsrf<{ data: CmsPost }>(`/editorial/posts/${id}/schedule`, {
+    method: 'DELETE',
+  });
+}
+
+export function revertCmsPostVersion(id: string, version: number, note?: string, selection?: CmsPostRevertSelection) {
   return apiFetchWithCsrf<{ data: CmsPost }>(`/editorial/posts/${id}/revert`, {
     method: 'POST',
-    body: JSON.stringify({ version, note }),
+    body: JSON.stringify({ version, note, ...selection }),
   });
 }
 
 export function getCmsPostHistory(id: string) {
-  return apiFetch<{ data: { versions: any[]; audit: any[] } }>(`/editorial/posts/${id}/history`);
+  return apiFetch<{ data: { versions: CmsPostVersion[]; audit: any[] } }>(`/editorial/posts/${id}/history`);
+}
+
+export function getCmsPostDiff(id: string, from: number, to?: number) {
+  return apiFetch<{ data: CmsPostVersionDiff }>(`/editorial/posts/${id}/diff${qs({ from, to })}`);
 }
 
 export function getCmsPostAlertPreview(id: string) {
   return apiFetch<{ data: AlertMatchPreview }>(`/editorial/posts/${id}/alert-preview`);
 }
 
+export function getCmsPostDuplicates(id: string) {
+  return apiFetch<{ data: CmsPostDuplicate[] }>(`/editorial/posts/${id}/duplicates`);
+}
+
+export function confirmCmsPostDistinct(id: string, otherId: string, note?: string) {
+  return apiFetchWithCsrf<{ data: unknown }>(`/editorial/posts/${id}/duplicates/${otherId}/confirm-distinct`, {
+    method: 'POST',
+    body: JSON.stringify({ note }),
+  });
+}
+
+export function mergeCmsPost(id: string, duplicateId: string, note?: string) {
+  return apiFetchWithCsrf<{ data: CmsPost; merged: CmsPost }>(`/editorial/posts/${id}/merge`, {
+    method: 'POST',
+    body: JSON.stringify({ duplicateId, note }),
+  });
+}
+
+export function getCmsExamCycles(params: { search?: string; limit?: number } = {}) {
+  const search = new URLSearchParams();
+  if (params.search) search.set('search', params.search);
+  if (params.limit) search.set('limit', String(params.limit));
+  const query = search.toString();
+  return apiFetch<{ data: CmsExamCycle[] }>(`/editorial/exam-cycles${query ? `?${query}` : ''}`);
+}
+
 export function getEditorialTaxonomies(type: 'states' | 'organizations' | 'categories' | 'institutions' | 'exams' | 'qualifications') {
   return apiFetch<{ data: CmsTaxonomy[] }>(`/editorial/taxonomies/${type}`);
 }
@@ -812,16 +1197,37 @@ export function getEditorialWorkflowQueue() {
   return apiFetch<{ data: CmsPost[] }>('/editorial/workflow/pending');
 }
 
+export function getScheduledCmsPosts(filters: { from?: string; to?: string; limit?: number } = {}) {
+  return apiFetch<{ data: ScheduledCmsPost[] }>(`/editorial/workflow/scheduled${qs(filters)}`);
+}
+
 export function getEditorialWorkflowSla() {
   return apiFetch<{ data: WorkflowViolation[] }>('/editorial/workflow/sla');
 }
 
 export function getEditorialWorkflowFreshness() {
-  return apiFetch<{ data: CmsPost[] }>('/editorial/workflow/freshness');
+  return apiFetch<{ data: FreshnessQueuePost[] }>('/editorial/workflow/freshness');
 }
 
 export function getEditorialWorkflowTrust(limit = 24) {
-  return apiFetch<{ data: CmsPost[] }>(`/editorial/workflow/trust${qs({ limit })}`);
+  return apiFetch<{ data: TrustQueuePost[] }>(`/editorial/workflow/trust${qs({ limit })}`);
+}
+
+export function getSourceChangeTasks(filters: { status?: SourceChangeTask['status']; postId?: string; limit?: number } = {}) {
+  return apiFetch<{ data: SourceChangeTask[] }>(`/editorial/workflow/source-changes${qs(filters)}`);
+}
+
+export function closeSourceChangeTask(id: string, params: { status?: 'resolved' | 'dismissed'; note?: string } = {}) {
+  return apiFetchWithCsrf<{ data: SourceChangeTask }>(`/editorial/workflow/source-changes/${id}/close`, {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+export function checkCmsPostSource(id: string) {
+  return apiFetchWithCsrf<{
+    data: { postId: string; status: SourceMonitorSummary['status']; kinds: SourceChangeTask['kinds']; taskId?: string; sourceMonitor: SourceMonitorSummary | null };
+  }>(`/editorial/posts/${id}/source-check`, { method: 'POST' });
 }
 
 export function getEditorialWorkflowSearchReadiness(limit = 24) {
@@ -1,22 +1,39 @@
 'use client';
 
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-import { getMe, login as apiLogin, logout as apiLogout, clearCsrfCache, ApiError } from './api';
-import type { User } from './types';
+import {
+  getMe,
+  login as apiLogin,
+  logout as apiLogout,
+  verifyTwoFactor as apiVerifyTwoFactor,
+  clearCsrfCache,
+  clearStepUpToken,
+  ApiError,
+} from './api';
+import type { TwoFactorChallenge, User } from './types';
 import { isAdminConsoleRole } from './admin-roles';
 
 interface AuthState {
   user: User | null;
   loading: boolean;
   error: string | null;
+  /** Set after a correct password when the account still needs a TOTP step. */
+  twoFactor?: TwoFactorChallenge | null;
+  /** Recovery codes from a fresh enrolment, shown once before the session starts. */
+  enrolment?: { user: User; recoveryCodes: string[] } | null;
 }
 
 interface AuthContextValue extends AuthState {
   login: (email: string, password: string) => Promise<void>;
+  verifyTwoFactor: (input: { code: string } | { recoveryCode: string }) => Promise<void>;
+  finishEnrolment: () => void;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
   clearError: () => void;
 }
 
+const ADMIN_ONLY_ERROR = 'Admin access required. Your account does not have admin console privileges.';
+
 const AuthContext = createContext<AuthContextValue | null>(null);
 export function useAuth() {
   const ctx = useContext(AuthContext);
@@ -52,10 +69,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setState(s => ({ ...s, loading: true, error: null }));
     try {
       const res = await apiLogin(email, password);
+      if (res.data.twoFactor) {
+        setState({ user: null, loading: false, error: null, twoFactor: res.data.twoFactor });
+        return;
+      }
       const user = res.data.user;
       if (!isAdminConsoleRole(user.role)) {
         clearCsrfCache();
-        setState({ user: null, loading: false, error: 'Admin access required. Your account does not have admin console privileges.' });
+        setState({ user: null, loading: false, error: ADMIN_ONLY_ERROR });
         return;
       }
       setState({ user, loading: false, error: null });
@@ -67,9 +88,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Errors are rethrown so the login form can keep the code step open; an
+  // expired challenge sends the user back to the password step instead.
+  const verifyTwoFactor = useCallback(async (input: { code: string } | { recoveryCode: string }) => {
+    const challenge = state.twoFactor;
+    if (!challenge) return;
+    try {
+      const res = await apiVerifyTwoFactor(challenge.challengeToken, input);
+      const user = res.data.user;
+      if (!isAdminConsoleRole(user.role)) {
+        clearCsrfCache();
+        setState({ user: null, loading: false, error: ADMIN_ONLY_ERROR });
+        return;
+      }
+      if (res.data.recoveryCodes?.length) {
+        setState({ user: null, loading: false, error: null, enrolment: { user, recoveryCodes: res.data.recoveryCodes } });
+        return;
+      }
+      setState({ user, loading: false, error: null });
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 400 &&
+          (err.body as Record<string, unknown> | null)?.error === 'invalid_or_expired_challenge') {
+        setState({ user: null, loading: false, error: 'Sign-in has expired. Please sign in again.' });
+        return;
+      }
+      throw err;
+    }
+  }, [state.twoFactor]);
+
+  const finishEnrolment = useCallback(() => {
+    setState(s => (s.enrolment ? { user: s.enrolment.user, loading: false, error: null } : s));
+  }, []);
+
+  const cancelTwoFactor = useCallback(() => {
+    setState({ user: null, loading: false, error: null });
+  }, []);
+
   const logout = useCallback(async () => {
     try { await apiLogout(); } catch { /* ignore */ }
     clearCsrfCache();
+    clearStepUpToken();
     setState({ user: null, loading: false, error: null });
   }, []);
 
@@ -78,7 +136,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <AuthContext.Provider value={{ ...state, login, logout, clearError }}>
+    <AuthContext.Provider value={{ ...state, login, verifyTwoFactor, finishEnrolment, cancelTwoFactor, logout, clearError }}>
       {children}
     </AuthContext.Provider>
   );
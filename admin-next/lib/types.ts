@@ -2,6 +2,33 @@ export type ContentType = 'job' | 'result' | 'admit-card' | 'syllabus' | 'answer
 export type AnnouncementStatus = 'draft' | 'pending' | 'scheduled' | 'published' | 'archived';
 
 export type AdminRole = 'superadmin' | 'editor' | 'reviewer' | 'admin' | 'user';
+
+export type AdminPermission =
+  | 'posts:write'
+  | 'posts:submit'
+  | 'posts:approve'
+  | 'posts:publish'
+  | 'posts:archive'
+  | 'posts:revert'
+  | 'announcements:manage'
+  | 'taxonomies:manage'
+  | 'workflow:manage'
+  | 'workflow:freshness'
+  | 'subscribers:read'
+  | 'subscribers:manage'
+  | 'campaigns:read'
+  | 'campaigns:write'
+  | 'campaigns:send'
+  | 'community:moderate'
+  | 'reports:manage'
+  | 'analytics:read'
+  | 'ai:assist'
+  | 'users:read'
+  | 'users:manage'
+  | 'audit:read'
+  | 'settings:read'
+  | 'settings:write'
+  | 'system:read';
 export type EditorialStatus = 'draft' | 'in_review' | 'approved' | 'published' | 'archived';
 
 export interface User {
@@ -9,12 +36,56 @@ export interface User {
   email: string;
   username: string;
   role: AdminRole;
+  permissions?: AdminPermission[];
   isActive: boolean;
   createdAt?: string;
   lastLogin?: string;
   twoFactorEnabled?: boolean;
 }
 
+export interface TwoFactorChallenge {
+  required: true;
+  setupRequired: boolean;
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface UserSession {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  country?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface AdminPermissionDefinition {
+  key: AdminPermission;
+  group: string;
+  description: string;
+}
+
+export interface AdminPermissionOverride {
+  permission: AdminPermission;
+  effect: 'grant' | 'deny';
+  reason?: string;
+  grantedBy?: string;
+  updatedAt?: string;
+}
+
+export interface UserPermissionState {
+  userId: string;
+  role: AdminRole;
+  overrides: AdminPermissionOverride[];
+  effective: AdminPermission[];
+}
+
 export interface TaxonomyRef {
   id?: string;
   name: string;
@@ -37,6 +108,27 @@ export interface CmsImportantDate {
   note?: string;
 }
 
+export type CmsAgeRelaxationCategory = 'obc' | 'sc' | 'st' | 'ews' | 'pwbd' | 'ex_serviceman' | 'women' | 'other';
+
+export interface CmsAgeRelaxation {
+  category: CmsAgeRelaxationCategory;
+  label?: string;
+  years: number;
+  appliesFrom: 'upper_age_limit' | 'after_service_deduction';
+  note?: string;
+}
+
+export interface CmsEligibilityRule {
+  label: string;
+  description: string;
+  qualificationSlug?: string;
+  minAge?: number;
+  maxAge?: number;
+  ageCutoffDate?: string;
+  ageRelaxations?: CmsAgeRelaxation[];
+  relaxationNote?: string;
+}
+
 export interface CmsPost {
   id: string;
   title: string;
@@ -53,8 +145,9 @@ export interface CmsPost {
   qualifications: TaxonomyRef[];
   institution?: TaxonomyRef | null;
   exam?: TaxonomyRef | null;
+  examCycle?: TaxonomyRef | null;
   importantDates: CmsImportantDate[];
-  eligibility: Array<{ label: string; description: string }>;
+  eligibility: CmsEligibilityRule[];
   feeRules: Array<{ category: string; amount: string; paymentNote?: string }>;
   vacancyRows: Array<{ postName: string; department?: string; vacancies: string; payLevel?: string; salaryNote?: string }>;
   admissionPrograms: Array<{ programName: string; level?: string; department?: string; intake?: string; eligibilityNote?: string }>;
@@ -86,6 +179,8 @@ export interface CmsPost {
   lastDate?: string;
   examDate?: string;
   publishedAt?: string;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
   updatedAt: string;
   createdAt: string;
   currentVersion: number;
@@ -127,6 +222,21 @@ export interface CmsPost {
     effectiveDescription?: string;
     effectiveCanonicalPath?: string;
   };
+  translations?: { hi?: CmsPostTranslation };
+  translationStatus?: { hi?: CmsTranslationStatus };
+}
+
+export type CmsTranslationStatus = 'missing' | 'outdated' | 'complete';
+
+export interface CmsPostTranslation {
+  title: string;
+  summary?: string;
+  shortInfo?: string;
+  body?: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  sourceHash?: string;
+  updatedAt?: string;
 }
 
 export interface CmsDashboardData {
@@ -138,6 +248,50 @@ export interface CmsDashboardData {
   recentPosts: CmsPost[];
 }
 
+export interface CmsPostVersion {
+  id: string;
+  postId: string;
+  version: number;
+  note?: string;
+  reason?: string;
+  actorId?: string;
+  snapshot: CmsPost;
+  createdAt: string;
+}
+
+export type CmsPostDiffRowField = 'importantDates' | 'eligibility' | 'feeRules' | 'vacancyRows' | 'admissionPrograms' | 'officialSources';
+
+export type CmsPostFieldDiff =
+  | { kind: 'value'; field: string; label: string; before?: unknown; after?: unknown }
+  | {
+      kind: 'rows';
+      field: CmsPostDiffRowField;
+      label: string;
+      rows: Array<{ index: number; change: 'added' | 'removed' | 'changed'; before?: unknown; after?: unknown }>;
+    };
+
+export interface CmsPostVersionDiff {
+  postId: string;
+  fromVersion: number;
+  toVersion: number | 'current';
+  changes: CmsPostFieldDiff[];
+}
+
+export interface CmsPostRevertSelection {
+  fields?: string[];
+  rows?: Partial<Record<CmsPostDiffRowField, number[]>>;
+}
+
+export interface ScheduledCmsPost {
+  id: string;
+  title: string;
+  slug: string;
+  type: CmsPost['type'];
+  status: EditorialStatus;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
+}
+
 export interface WorkflowViolation {
   id: string;
   title: string;
@@ -172,6 +326,7 @@ export interface CmsTaxonomy {
   shortName?: string;
   priority?: number;
   type?: 'states' | 'organizations' | 'categories' | 'institutions' | 'exams' | 'qualifications';
+  translations?: { hi?: { name: string; description?: string } };
   createdAt?: string;
   updatedAt?: string;
 }
@@ -215,6 +370,130 @@ export interface EditorialBulkTransitionResult {
   revalidatedCount?: number;
 }
 
+export type SourceChangeKind =
+  | 'new_pdf_links'
+  | 'removed_pdf_links'
+  | 'dates_changed'
+  | 'content_changed'
+  | 'not_found'
+  | 'domain_redirect'
+  | 'unreachable';
+
+export interface SourceCheckState {
+  contentHash?: string;
+  httpStatus?: number;
+  finalUrl?: string;
+  checkedAt?: string;
+}
+
+export interface SourceChangeTask {
+  id: string;
+  postId: string;
+  url: string;
+  kinds: SourceChangeKind[];
+  diff: {
+    previous?: SourceCheckState;
+    current: SourceCheckState;
+    addedPdfLinks: string[];
+    removedPdfLinks: string[];
+    addedDates: string[];
+    removedDates: string[];
+    error?: string;
+  };
+  status: 'open' | 'resolved' | 'dismissed';
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolutionNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SourceMonitorSummary {
+  status: 'pending' | 'ok' | 'changed' | 'not_found' | 'redirected' | 'unreachable';
+  url: string;
+  checkedAt?: string;
+  changedAt?: string;
+  httpStatus?: number;
+  finalUrl?: string;
+  lastError?: string;
+  openTask?: Pick<SourceChangeTask, 'id' | 'kinds' | 'createdAt'>;
+}
+
+export type PostImportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface PostImportField {
+  key: string;
+  label: string;
+  kind: 'text' | 'date' | 'type' | 'tag' | 'taxonomy' | 'taxonomyList' | 'rows';
+  required?: boolean;
+  hint?: string;
+}
+
+export interface PostImportPreview {
+  columns: string[];
+  rowCount: number;
+  sampleRows: Array<Record<string, unknown>>;
+  suggestedMapping: Record<string, string>;
+  fields: PostImportField[];
+}
+
+export type PostImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created' | 'skipped' | 'failed';
+
+export interface PostImportRowReport {
+  row: number;
+  title?: string;
+  slug?: string;
+  type?: string;
+  status: PostImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  duplicates: Array<{ source: 'existing' | 'file'; postId?: string; row?: number; title: string; status?: string }>;
+  postId?: string;
+}
+
+export interface PostImportReport {
+  batchId: string;
+  dryRun: boolean;
+  totalRows: number;
+  summary: Record<PostImportRowStatus, number>;
+  rows: PostImportRowReport[];
+}
+
+export interface CmsExamCycle extends TaxonomyRef {
+  id: string;
+  exam?: TaxonomyRef | null;
+  postCount: number;
+  updatedAt: string;
+}
+
+export type CmsPostDuplicateReason = 'advertisement_number' | 'official_source' | 'title' | 'organization' | 'exam' | 'key_dates';
+
+export interface CmsPostDuplicate {
+  postId: string;
+  title: string;
+  slug: string;
+  type: ContentType;
+  status: EditorialStatus;
+  score: number;
+  reasons: CmsPostDuplicateReason[];
+  confirmedDistinct?: { by?: string; at: string; note?: string };
+}
+
+export interface NotificationPdfImport {
+  file: { id: string; fileName: string; size: number; pageCount: number; url: string };
+  draft: Partial<Pick<CmsPost,
+    | 'type' | 'title' | 'summary' | 'organization' | 'postCount' | 'applicationStartDate' | 'lastDate' | 'examDate'
+    | 'importantDates' | 'feeRules' | 'vacancyRows' | 'eligibility' | 'officialSources'
+  >> & { verificationNote?: string };
+  needsReview: string[];
+  textPreview: string;
+  warnings: string[];
+}
+
+export type TrustQueuePost = CmsPost & { sourceMonitor: SourceMonitorSummary | null };
+
+export type FreshnessQueuePost = CmsPost & { sourceChange?: SourceChangeTask | null };
+
 export interface AlertImpactQueueItem {
   post: CmsPost;
   preview: AlertMatchPreview;
@@ -381,5 +660,6 @@ export interface SiteSettings {
   youtubeUrl: string;
   maintenanceMode: boolean;
   registrationEnabled: boolean;
+  requireStaffTwoFactor: boolean;
   featureFlags: Record<string, boolean>;
 }
@@ -0,0 +1,12 @@
+ALTER TABLE "app_user_profiles"
+    ADD COLUMN "date_of_birth" DATE,
+    ADD COLUMN "reservation_category" TEXT,
+    ADD COLUMN "gender" TEXT,
+    ADD COLUMN "domicile_state" TEXT,
+    ADD COLUMN "is_pwbd" BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN "is_ex_serviceman" BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN "military_service_years" INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT "app_user_profiles_reservation_category_check"
+        CHECK ("reservation_category" IS NULL OR "reservation_category" IN ('general', 'ews', 'obc', 'sc', 'st')),
+    ADD CONSTRAINT "app_user_profiles_gender_check"
+        CHECK ("gender" IS NULL OR "gender" IN ('male', 'female', 'other'));
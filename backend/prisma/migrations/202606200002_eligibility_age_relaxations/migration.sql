@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "eligibility_rules" ADD COLUMN "ageCutoffDate" DATE;
+
+-- CreateTable
+CREATE TABLE "age_relaxation_rules" (
+    "id" TEXT NOT NULL,
+    "eligibilityRuleId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "label" TEXT,
+    "years" INTEGER NOT NULL,
+    "appliesFrom" TEXT NOT NULL DEFAULT 'upper_age_limit',
+    "note" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "age_relaxation_rules_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "age_relaxation_rules_category_check" CHECK ("category" IN ('obc', 'sc', 'st', 'ews', 'pwbd', 'ex_serviceman', 'women', 'other')),
+    CONSTRAINT "age_relaxation_rules_applies_from_check" CHECK ("appliesFrom" IN ('upper_age_limit', 'after_service_deduction')),
+    CONSTRAINT "age_relaxation_rules_years_check" CHECK ("years" >= 0)
+);
+
+-- CreateIndex
+CREATE INDEX "age_relaxation_rules_eligibilityRuleId_position_idx" ON "age_relaxation_rules"("eligibilityRuleId", "position");
+
+-- AddForeignKey
+ALTER TABLE "age_relaxation_rules" ADD CONSTRAINT "age_relaxation_rules_eligibilityRuleId_fkey" FOREIGN KEY ("eligibilityRuleId") REFERENCES "eligibility_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
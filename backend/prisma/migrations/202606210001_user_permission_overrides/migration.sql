@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS app_user_permission_overrides (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  permission TEXT NOT NULL,
+  effect TEXT NOT NULL,
+  reason TEXT,
+  granted_by TEXT,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT app_user_permission_overrides_effect_check
+    CHECK (effect IN ('grant', 'deny')),
+  CONSTRAINT app_user_permission_overrides_user_id_fkey
+    FOREIGN KEY (user_id)
+    REFERENCES app_users(id)
+    ON DELETE CASCADE
+    ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_user_permission_overrides_user_id_permission_key
+  ON app_user_permission_overrides(user_id, permission);
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS app_user_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  user_agent TEXT,
+  device TEXT,
+  ip_address TEXT,
+  country TEXT,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP(3) NOT NULL,
+  revoked_at TIMESTAMP(3),
+  revoked_reason TEXT,
+  CONSTRAINT app_user_sessions_user_id_fkey
+    FOREIGN KEY (user_id)
+    REFERENCES app_users(id)
+    ON DELETE CASCADE
+    ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS app_user_sessions_user_id_revoked_at_expires_at_idx
+  ON app_user_sessions(user_id, revoked_at, expires_at);
@@ -0,0 +1,12 @@
+ALTER TABLE "posts"
+    ADD COLUMN "scheduledPublishAt" TIMESTAMP(3),
+    ADD COLUMN "scheduledUnpublishAt" TIMESTAMP(3);
+
+CREATE INDEX "posts_scheduledPublishAt_idx" ON "posts"("scheduledPublishAt");
+CREATE INDEX "posts_scheduledUnpublishAt_idx" ON "posts"("scheduledUnpublishAt");
+
+-- The hourly automation job used to publish APPROVED posts once "publishedAt"
+-- passed. Carry those pending publishes over to the scheduler.
+UPDATE "posts"
+SET "scheduledPublishAt" = "publishedAt"
+WHERE status = 'approved' AND "publishedAt" IS NOT NULL AND "scheduledPublishAt" IS NULL;
@@ -0,0 +1,11 @@
+ALTER TABLE "posts" ADD COLUMN "translations" JSONB;
+ALTER TABLE "content_pages" ADD COLUMN "translations" JSONB;
+
+ALTER TABLE "organizations" ADD COLUMN "translations" JSONB;
+ALTER TABLE "states" ADD COLUMN "translations" JSONB;
+ALTER TABLE "categories" ADD COLUMN "translations" JSONB;
+ALTER TABLE "qualifications" ADD COLUMN "translations" JSONB;
+ALTER TABLE "exams" ADD COLUMN "translations" JSONB;
+ALTER TABLE "colleges" ADD COLUMN "translations" JSONB;
+
+ALTER TABLE "subscriptions" ADD COLUMN "locale" TEXT NOT NULL DEFAULT 'en';
@@ -0,0 +1,4 @@
+ALTER TABLE "app_notification_campaigns" ADD COLUMN "channels" TEXT[] NOT NULL DEFAULT ARRAY['email', 'push']::TEXT[];
+ALTER TABLE "app_notification_campaigns" ADD COLUMN "channel_templates" JSONB;
+
+ALTER TABLE "subscriptions" ADD COLUMN "phone" TEXT;
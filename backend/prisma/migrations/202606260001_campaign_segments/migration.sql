@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS app_campaign_segments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  expression JSONB NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_campaign_segments_name_key
+  ON app_campaign_segments(name);
+
+ALTER TABLE app_notification_campaigns ADD COLUMN IF NOT EXISTS segment_expression JSONB;
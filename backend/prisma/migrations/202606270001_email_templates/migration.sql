@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS app_email_templates (
+  id TEXT PRIMARY KEY,
+  key TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'template',
+  subject TEXT NOT NULL DEFAULT '',
+  html TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_by TEXT,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_email_templates_key_key
+  ON app_email_templates(key);
+
+CREATE TABLE IF NOT EXISTS app_email_template_versions (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL REFERENCES app_email_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  subject TEXT NOT NULL DEFAULT '',
+  html TEXT NOT NULL,
+  note TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_email_template_versions_template_id_version_key
+  ON app_email_template_versions(template_id, version);
@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS app_email_suppressions (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'webhook',
+  note TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_email_suppressions_email_key
+  ON app_email_suppressions(email);
+CREATE INDEX IF NOT EXISTS app_email_suppressions_reason_created_at_idx
+  ON app_email_suppressions(reason, created_at);
+
+CREATE TABLE IF NOT EXISTS app_email_delivery_events (
+  id TEXT PRIMARY KEY,
+  event_id TEXT,
+  email TEXT NOT NULL,
+  type TEXT NOT NULL,
+  bounce_type TEXT,
+  reason TEXT,
+  message_id TEXT,
+  occurred_at TIMESTAMP(3) NOT NULL,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_email_delivery_events_event_id_key
+  ON app_email_delivery_events(event_id);
+CREATE INDEX IF NOT EXISTS app_email_delivery_events_email_type_occurred_at_idx
+  ON app_email_delivery_events(email, type, occurred_at);
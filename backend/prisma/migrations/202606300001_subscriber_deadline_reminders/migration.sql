@@ -0,0 +1,4 @@
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "reminder_days" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[];
+
+ALTER TABLE "alert_dispatch_logs" ADD COLUMN IF NOT EXISTS "dedupeKey" TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS "alert_dispatch_logs_dedupeKey_key" ON "alert_dispatch_logs"("dedupeKey");
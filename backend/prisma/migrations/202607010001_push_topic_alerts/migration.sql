@@ -0,0 +1,15 @@
+ALTER TABLE "app_push_subscriptions" ADD COLUMN IF NOT EXISTS "instant_alerts" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "app_push_subscriptions" ADD COLUMN IF NOT EXISTS "state_slugs" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "app_push_subscriptions" ADD COLUMN IF NOT EXISTS "category_slugs" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "app_push_subscriptions" ADD COLUMN IF NOT EXISTS "post_types" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE TABLE IF NOT EXISTS "app_push_alert_logs" (
+    "post_id" TEXT NOT NULL,
+    "recipients" INTEGER NOT NULL DEFAULT 0,
+    "sent" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "app_push_alert_logs_pkey" PRIMARY KEY ("post_id")
+);
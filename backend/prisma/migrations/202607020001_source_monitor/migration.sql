@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS app_source_monitors (
+  post_id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  content_hash TEXT,
+  http_status INTEGER,
+  final_url TEXT,
+  snapshot JSONB,
+  last_error TEXT,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  checked_at TIMESTAMP(3),
+  changed_at TIMESTAMP(3),
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS app_source_monitors_checked_at_idx
+  ON app_source_monitors(checked_at);
+
+CREATE TABLE IF NOT EXISTS app_source_change_tasks (
+  id TEXT PRIMARY KEY,
+  post_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  kinds TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  diff JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  resolved_by TEXT,
+  resolved_at TIMESTAMP(3),
+  resolution_note TEXT,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS app_source_change_tasks_status_created_at_idx
+  ON app_source_change_tasks(status, created_at);
+CREATE INDEX IF NOT EXISTS app_source_change_tasks_post_id_status_idx
+  ON app_source_change_tasks(post_id, status);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS app_post_duplicate_reviews (
+  id TEXT PRIMARY KEY,
+  post_id TEXT NOT NULL,
+  other_post_id TEXT NOT NULL,
+  decision TEXT NOT NULL DEFAULT 'distinct',
+  note TEXT,
+  reviewed_by TEXT,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_post_duplicate_reviews_post_id_other_post_id_key
+  ON app_post_duplicate_reviews(post_id, other_post_id);
+CREATE INDEX IF NOT EXISTS app_post_duplicate_reviews_other_post_id_idx
+  ON app_post_duplicate_reviews(other_post_id);
@@ -0,0 +1,21 @@
+CREATE TABLE "exam_cycles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "examId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exam_cycles_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "exam_cycles_slug_key" ON "exam_cycles"("slug");
+CREATE INDEX "exam_cycles_examId_idx" ON "exam_cycles"("examId");
+
+ALTER TABLE "exam_cycles" ADD CONSTRAINT "exam_cycles_examId_fkey" FOREIGN KEY ("examId") REFERENCES "exams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "posts" ADD COLUMN "examCycleId" TEXT;
+
+CREATE INDEX "posts_examCycleId_idx" ON "posts"("examCycleId");
+
+ALTER TABLE "posts" ADD CONSTRAINT "posts_examCycleId_fkey" FOREIGN KEY ("examCycleId") REFERENCES "exam_cycles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS app_calendar_feeds (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  token TEXT NOT NULL,
+  created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at TIMESTAMP(3)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_calendar_feeds_user_id_key
+  ON app_calendar_feeds(user_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS app_calendar_feeds_token_key
+  ON app_calendar_feeds(token);
@@ -0,0 +1,43 @@
+-- Trigram indexes for the search suggest endpoint. The earlier title index
+-- from 202604140002_search_indexes was dropped in 20260419024341_optimize_indexes;
+-- these match the lower(...) expressions the suggest queries filter on.
+-- Prisma does not model expression indexes, so keep them out of generated
+-- DROP INDEX statements when creating future migrations.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS "posts_title_lower_trgm_idx"
+  ON "posts" USING GIN (lower("title") gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "organizations_name_lower_trgm_idx"
+  ON "organizations" USING GIN (lower("name") gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "organizations_shortName_lower_trgm_idx"
+  ON "organizations" USING GIN (lower("shortName") gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "exams_name_lower_trgm_idx"
+  ON "exams" USING GIN (lower("name") gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "states_name_lower_trgm_idx"
+  ON "states" USING GIN (lower("name") gin_trgm_ops);
+
+-- Words from published titles and taxonomy names for "did you mean"
+-- corrections. Refreshed after publishes and by the hourly automation run.
+CREATE MATERIALIZED VIEW IF NOT EXISTS "search_vocabulary" AS
+  SELECT DISTINCT word
+  FROM (
+    SELECT p."title" AS txt FROM "posts" p WHERE p."status" = 'published'
+    UNION ALL SELECT o."name" FROM "organizations" o
+    UNION ALL SELECT o."shortName" FROM "organizations" o WHERE o."shortName" IS NOT NULL
+    UNION ALL SELECT e."name" FROM "exams" e
+    UNION ALL SELECT s."name" FROM "states" s
+  ) source,
+  regexp_split_to_table(lower(source.txt), '[^a-z0-9]+') AS word
+  WHERE length(word) >= 2;
+
+-- REFRESH ... CONCURRENTLY needs a unique index.
+CREATE UNIQUE INDEX IF NOT EXISTS "search_vocabulary_word_key"
+  ON "search_vocabulary" ("word");
+
+CREATE INDEX IF NOT EXISTS "search_vocabulary_word_trgm_idx"
+  ON "search_vocabulary" USING GIN ("word" gin_trgm_ops);
@@ -0,0 +1,2 @@
+-- Last accepted TOTP time step per account; codes from that step or earlier are rejected.
+ALTER TABLE "app_users" ADD COLUMN IF NOT EXISTS "two_factor_last_used_step" INTEGER;
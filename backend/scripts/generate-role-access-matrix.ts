@@ -0,0 +1,24 @@
+import fs from 'fs';
+import path from 'path';
+
+import { renderRoleAccessMatrix } from '../src/services/permissions.js';
+
+const backendRoot = process.cwd();
+const repoRoot = path.resolve(backendRoot, '..');
+const matrixPath = path.join(repoRoot, 'docs', 'admin-role-access-matrix.md');
+const checkOnly = process.argv.includes('--check');
+
+const rendered = renderRoleAccessMatrix();
+const current = fs.existsSync(matrixPath) ? fs.readFileSync(matrixPath, 'utf8') : '';
+
+if (checkOnly) {
+    if (current === rendered) {
+        console.log('[permissions-docs] OK. docs/admin-role-access-matrix.md matches src/services/permissions.ts.');
+        process.exit(0);
+    }
+    console.error('[permissions-docs] docs/admin-role-access-matrix.md is stale. Run `npm run docs:permissions` in backend/.');
+    process.exit(1);
+}
+
+fs.writeFileSync(matrixPath, rendered);
+console.log(`[permissions-docs] Wrote ${path.relative(repoRoot, matrixPath)}.`);
@@ -12,6 +12,7 @@ const ROUTER_FILE_BY_VAR: Record<string, string> = {
     announcementsRouter: 'src/routes/announcements.ts',
     authRouter: 'src/routes/auth.ts',
     bookmarksRouter: 'src/routes/bookmarks.ts',
+    calendarRouter: 'src/routes/calendar.ts',
     communityRouter: 'src/routes/community.ts',
     contentRouter: 'src/routes/content.ts',
     editorialRouter: 'src/routes/editorial.ts',
@@ -20,6 +21,7 @@ const ROUTER_FILE_BY_VAR: Record<string, string> = {
     pushRouter: 'src/routes/push.ts',
     subscriptionsRouter: 'src/routes/subscriptions.ts',
     supportRouter: 'src/routes/support.ts',
+    webhooksRouter: 'src/routes/webhooks.ts',
 };
 
 const METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
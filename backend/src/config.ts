@@ -146,6 +146,10 @@ const passwordRecoveryMaxAttempts = Math.max(
   1,
   parseNumber(process.env.PASSWORD_RECOVERY_MAX_ATTEMPTS, 5),
 );
+const adminStepUpTtlSeconds = Math.max(
+  60,
+  parseNumber(process.env.ADMIN_STEP_UP_TTL_SECONDS, 10 * 60),
+);
 const metricsToken = process.env.METRICS_TOKEN ?? "";
 const securityLogRetentionHours = Math.max(
   1,
@@ -209,8 +213,15 @@ const adminUrl =
   process.env.ADMIN_URL ??
   process.env.NEXT_PUBLIC_ADMIN_URL ??
   `${frontendUrl.replace(/\/$/, "")}/admin`;
+// Public base of this API as seen by mail clients (nginx serves it under /api).
+const publicApiUrl = (
+  process.env.PUBLIC_API_URL?.trim() || `${frontendUrl.replace(/\/$/, "")}/api`
+).replace(/\/$/, "");
 const adminRecoveryConfirmToken =
   process.env.ADMIN_RECOVERY_CONFIRM_TOKEN ?? "";
+const contentSearchAdapter =
+  process.env.CONTENT_SEARCH_ADAPTER?.trim().toLowerCase() ||
+  "postgres-tokenized";
 const featureFlags = {
   search_overlay_v2: parseBoolean(process.env.FEATURE_SEARCH_OVERLAY_V2, true),
   compare_jobs_v2: parseBoolean(process.env.FEATURE_COMPARE_JOBS_V2, true),
@@ -230,6 +241,11 @@ validateSecret("JWT_SECRET", jwtSecret, [
   "jwt-secret",
 ]);
 
+const emailApiKey = process.env.SENDGRID_API_KEY ?? process.env.EMAIL_PASS ?? "";
+const emailTransport =
+  process.env.EMAIL_TRANSPORT?.trim().toLowerCase() ||
+  (emailApiKey ? "sendgrid" : "");
+
 const runtimeWarnings: string[] = [];
 
 if (!postgresPrismaUrl) {
@@ -238,6 +254,12 @@ if (!postgresPrismaUrl) {
   );
 }
 
+if (isProduction && emailTransport === "capture") {
+  runtimeWarnings.push(
+    "EMAIL_TRANSPORT=capture in production; outgoing email is stored for the admin mailbox and never delivered.",
+  );
+}
+
 if (!legacyMongoConfigured) {
   runtimeWarnings.push(
     "Mongo/Cosmos legacy bridge is not configured; compatibility-only legacy surfaces (backup metadata, security audit history, migration scripts) stay unavailable.",
@@ -308,6 +330,7 @@ export const config = {
   passwordBreachCheckTimeoutMs,
   passwordRecoveryTokenTtlSeconds,
   passwordRecoveryMaxAttempts,
+  adminStepUpTtlSeconds,
   metricsToken,
   securityLogRetentionHours,
   securityLogPersistenceEnabled,
@@ -316,6 +339,7 @@ export const config = {
   readinessCacheTtlMs,
   postgresHealthTimeoutMs,
   contentDbMode,
+  contentSearchAdapter,
   postgresPrismaUrl,
   postgresDirectUrl,
   redisConfigured,
@@ -332,15 +356,49 @@ export const config = {
   // Telegram bot config (optional)
   telegramBotToken: process.env.TELEGRAM_BOT_TOKEN ?? "",
   telegramChannelId: process.env.TELEGRAM_CHANNEL_ID ?? "",
-
-  // SendGrid email config (optional)
+  // Optional separate channel for Hindi-language posts
+  telegramChannelIdHi: process.env.TELEGRAM_CHANNEL_ID_HI ?? "",
+
+  // WhatsApp/SMS provider for campaigns (optional). "file" writes messages to
+  // MESSAGING_OUTBOX_DIR instead of sending them, for local testing.
+  messagingProvider: process.env.MESSAGING_PROVIDER?.trim().toLowerCase() ?? "",
+  messagingOutboxDir: process.env.MESSAGING_OUTBOX_DIR ?? "./tmp/messaging-outbox",
+
+  // Official source monitor fetcher: "http" (default) or "fixture", which
+  // answers from SOURCE_MONITOR_FIXTURE_DIR/index.json for local testing.
+  sourceMonitorFetcher: process.env.SOURCE_MONITOR_FETCHER?.trim().toLowerCase() || "http",
+  sourceMonitorFixtureDir: process.env.SOURCE_MONITOR_FIXTURE_DIR ?? "./tmp/source-fixtures",
+
+  // Uploaded notification PDFs, served publicly as official source attachments.
+  notificationPdfDir: process.env.NOTIFICATION_PDF_DIR ?? "./tmp/notification-pdfs",
+
+  // Email transport (optional): "sendgrid", "smtp" or "capture". Defaults to
+  // SendGrid when an API key is set. "capture" stores messages in
+  // EMAIL_CAPTURE_DIR for the admin mailbox instead of sending them.
+  emailTransport,
   emailUser: process.env.EMAIL_USER ?? "",
-  emailPass: process.env.SENDGRID_API_KEY ?? process.env.EMAIL_PASS ?? "",
+  emailPass: emailApiKey,
   emailFrom:
     process.env.EMAIL_FROM ?? "Sarkari Result <noreply@sarkariresult.com>",
+  smtpHost: process.env.SMTP_HOST ?? "",
+  smtpPort: parseNumber(process.env.SMTP_PORT, 587),
+  smtpSecure: parseBoolean(process.env.SMTP_SECURE, false),
+  smtpUser: process.env.SMTP_USER ?? "",
+  smtpPass: process.env.SMTP_PASS ?? "",
+  emailCaptureDir: process.env.EMAIL_CAPTURE_DIR ?? "./tmp/email-capture",
+  // Shared secret for signed delivery-event webhooks (bounces, complaints).
+  emailWebhookSecret: process.env.EMAIL_WEBHOOK_SECRET ?? "",
+  emailHardBounceLimit: Math.max(1, parseNumber(process.env.EMAIL_HARD_BOUNCE_LIMIT, 2)),
+  // Days before a post's last date that subscribers can ask to be reminded.
+  subscriberReminderOffsets: Array.from(new Set(
+    parseCsv(process.env.SUBSCRIBER_REMINDER_OFFSETS_DAYS || "3,1")
+      .map(Number)
+      .filter((days) => Number.isInteger(days) && days >= 1 && days <= 30),
+  )).sort((a, b) => b - a),
 
   // Frontend URL for links in emails
   frontendUrl,
+  publicApiUrl,
   adminUrl,
   frontendRevalidateUrl,
   frontendRevalidateToken: process.env.FRONTEND_REVALIDATE_TOKEN ?? "",
@@ -378,6 +436,7 @@ if (!isProduction) {
   console.log(
     `[CONFIG] Frontend revalidation: ${frontendRevalidationConfigured ? "configured" : "not fully configured"}`,
   );
+  console.log(`[CONFIG] Content search adapter: ${contentSearchAdapter}`);
   console.log(`[CONFIG] Readiness cache TTL: ${readinessCacheTtlMs}ms`);
   console.log(
     `[CONFIG] PostgreSQL health timeout: ${postgresHealthTimeoutMs}ms`,
@@ -389,11 +448,14 @@ if (!isProduction) {
     `[CONFIG] Push notifications: ${config.vapidPublicKey ? "enabled" : "disabled"}`,
   );
   console.log(
-    `[CONFIG] Email notifications: ${config.emailPass ? "enabled" : "disabled"}`,
+    `[CONFIG] Email transport: ${config.emailTransport || "disabled"}`,
   );
   console.log(
     `[CONFIG] Telegram notifications: ${config.telegramBotToken ? "enabled" : "disabled"}`,
   );
+  console.log(
+    `[CONFIG] WhatsApp/SMS provider: ${config.messagingProvider || "disabled"}`,
+  );
   for (const warning of runtimeWarnings) {
     console.warn(`[CONFIG] Warning: ${warning}`);
   }
@@ -12,6 +12,26 @@ export type EditorialRole = (typeof editorialRoleValues)[number];
 export const trustBadgeValues = ['urgent', 'new', 'last-date', 'verified'] as const;
 export type TrustBadge = (typeof trustBadgeValues)[number];
 
+export const ageRelaxationCategoryValues = ['obc', 'sc', 'st', 'ews', 'pwbd', 'ex_serviceman', 'women', 'other'] as const;
+export type AgeRelaxationCategory = (typeof ageRelaxationCategoryValues)[number];
+
+export const ageRelaxationBasisValues = ['upper_age_limit', 'after_service_deduction'] as const;
+export type AgeRelaxationBasis = (typeof ageRelaxationBasisValues)[number];
+
+/** Post types that make up an exam cycle's timeline, in the order they are released. */
+export const examLifecycleStageValues = ['job', 'admit-card', 'answer-key', 'result'] as const;
+export type ExamLifecycleStage = (typeof examLifecycleStageValues)[number];
+
+export const importantDateKindValues = ['application_start', 'last_date', 'exam_date', 'result_date', 'admit_card', 'counselling', 'other'] as const;
+export type ImportantDateKind = (typeof importantDateKindValues)[number];
+
+export const contentLocaleValues = ['en', 'hi'] as const;
+export type ContentLocale = (typeof contentLocaleValues)[number];
+/** English is the source language; every other locale is stored as a translation. */
+export type TranslatableLocale = Exclude<ContentLocale, 'en'>;
+
+export type TranslationStatus = 'missing' | 'outdated' | 'complete';
+
 export interface TaxonomyRef {
   id?: string;
   name: string;
@@ -29,17 +49,32 @@ export interface OfficialSource {
 export interface ImportantDateRecord {
   label: string;
   value: string;
-  kind?: 'application_start' | 'last_date' | 'exam_date' | 'result_date' | 'admit_card' | 'counselling' | 'other';
+  kind?: ImportantDateKind;
   isPrimary?: boolean;
   note?: string;
 }
 
+export interface AgeRelaxationRecord {
+  category: AgeRelaxationCategory;
+  label?: string;
+  years: number;
+  /**
+   * `upper_age_limit` adds `years` to the maximum age. `after_service_deduction`
+   * (ex-servicemen) also deducts the candidate's military service first.
+   */
+  appliesFrom: AgeRelaxationBasis;
+  note?: string;
+}
+
 export interface EligibilityRecord {
   label: string;
   description: string;
   qualificationSlug?: string;
   minAge?: number;
   maxAge?: number;
+  /** YYYY-MM-DD date on which age is counted, when the notice fixes one. */
+  ageCutoffDate?: string;
+  ageRelaxations?: AgeRelaxationRecord[];
   relaxationNote?: string;
 }
 
@@ -135,6 +170,20 @@ export interface AlertMatchPreview {
   weekly: number;
 }
 
+export interface PostTranslation {
+  title: string;
+  summary?: string;
+  shortInfo?: string;
+  body?: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  /** Hash of the English text the translation was written against. */
+  sourceHash?: string;
+  updatedAt?: string;
+}
+
+export type PostTranslations = Partial<Record<TranslatableLocale, PostTranslation>>;
+
 export interface PostRecord {
   id: string;
   legacyAnnouncementId?: string;
@@ -154,6 +203,8 @@ export interface PostRecord {
   qualifications: TaxonomyRef[];
   institution?: TaxonomyRef | null;
   exam?: TaxonomyRef | null;
+  /** The recruitment round this post belongs to; links it to the round's other posts. */
+  examCycle?: TaxonomyRef | null;
   importantDates: ImportantDateRecord[];
   eligibility: EligibilityRecord[];
   feeRules: FeeRuleRecord[];
@@ -185,6 +236,8 @@ export interface PostRecord {
   expiresAt?: string;
   archivedAt?: string;
   publishedAt?: string;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
   updatedAt: string;
   createdAt: string;
   createdBy?: string;
@@ -196,6 +249,18 @@ export interface PostRecord {
   freshness?: FreshnessSignals;
   searchMeta?: SearchMeta;
   readiness?: EditorialReadiness;
+  translations?: PostTranslations;
+  translationStatus?: Partial<Record<TranslatableLocale, TranslationStatus>>;
+}
+
+export interface ScheduledPostItem {
+  id: string;
+  title: string;
+  slug: string;
+  type: PostType;
+  status: PostWorkflowStatus;
+  scheduledPublishAt?: string;
+  scheduledUnpublishAt?: string;
 }
 
 export interface PostVersionRecord {
@@ -209,6 +274,45 @@ export interface PostVersionRecord {
   createdAt: string;
 }
 
+export type PostDiffRowField =
+  | 'importantDates'
+  | 'eligibility'
+  | 'feeRules'
+  | 'vacancyRows'
+  | 'admissionPrograms'
+  | 'officialSources';
+
+export interface PostValueDiff {
+  kind: 'value';
+  field: string;
+  label: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PostRowChange {
+  index: number;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PostRowsDiff {
+  kind: 'rows';
+  field: PostDiffRowField;
+  label: string;
+  rows: PostRowChange[];
+}
+
+export type PostFieldDiff = PostValueDiff | PostRowsDiff;
+
+export interface PostVersionDiff {
+  postId: string;
+  fromVersion: number;
+  toVersion: number | 'current';
+  changes: PostFieldDiff[];
+}
+
 export interface AuditLogRecord {
   id: string;
   entityType: 'post' | 'workflow' | 'auth' | 'subscription' | 'campaign' | 'community' | 'settings';
@@ -245,6 +349,22 @@ export interface ContentPageRecord {
   updatedAt: string;
   createdBy?: string;
   updatedBy?: string;
+  translations?: Partial<Record<TranslatableLocale, ContentPageTranslation>>;
+}
+
+export interface ContentPageTranslation {
+  title: string;
+  eyebrow?: string;
+  description?: string;
+  /** Keys here replace the matching top-level keys of the English payload. */
+  payload?: Record<string, unknown>;
+  seoTitle?: string;
+  seoDescription?: string;
+}
+
+export interface TaxonomyTranslation {
+  name: string;
+  description?: string;
 }
 
 export interface TaxonomyDocument extends TaxonomyRef {
@@ -256,6 +376,7 @@ export interface TaxonomyDocument extends TaxonomyRef {
   type?: TaxonomyType;
   createdAt?: string;
   updatedAt?: string;
+  translations?: Partial<Record<TranslatableLocale, TaxonomyTranslation>>;
 }
 
 export interface AlertSubscriptionRecord {
@@ -273,6 +394,8 @@ export interface AlertSubscriptionRecord {
   qualificationSlugs: string[];
   qualificationNames: string[];
   postTypes: PostType[];
+  locale: ContentLocale;
+  phone?: string;
   verificationToken?: string;
   unsubscribeToken: string;
   source?: string;
@@ -280,10 +403,26 @@ export interface AlertSubscriptionRecord {
   lastAlertedAt?: string;
   lastDigestDailySentAt?: string;
   lastDigestWeeklySentAt?: string;
+  pausedUntil?: string;
+  /** Days before a post's last date to send a reminder; empty means no reminders. */
+  reminderDays: number[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type SearchMatchField = 'title' | 'organization' | 'exam' | 'summary' | 'searchText';
+
+export interface SearchHighlight {
+  field: SearchMatchField;
+  snippet: string;
+}
+
+export interface PublicCardSearchMatch {
+  score: number;
+  matchedFields: SearchMatchField[];
+  highlights: SearchHighlight[];
+}
+
 export interface PublicPostCard {
   id: string;
   legacyId?: string;
@@ -303,6 +442,34 @@ export interface PublicPostCard {
   publishedAt?: string;
   updatedAt?: string;
   indexable?: boolean;
+  search?: PublicCardSearchMatch;
+  translations?: Partial<Record<TranslatableLocale, { title: string; summary?: string }>>;
+  availableLocales?: ContentLocale[];
+}
+
+export interface ExamLifecycleEntry {
+  id: string;
+  type: ExamLifecycleStage;
+  title: string;
+  slug: string;
+  href: string;
+  publishedAt?: string;
+  /** The date the stage is about: last date, exam date or result date. */
+  keyDate?: string;
+  current: boolean;
+}
+
+/** Published posts of one exam cycle, in stage order then oldest first. */
+export interface ExamLifecycle {
+  cycle: TaxonomyRef;
+  entries: ExamLifecycleEntry[];
+}
+
+export interface ExamCycleSummary extends TaxonomyRef {
+  id: string;
+  exam?: TaxonomyRef | null;
+  postCount: number;
+  updatedAt: string;
 }
 
 export interface PublicPostDetail {
@@ -313,6 +480,9 @@ export interface PublicPostDetail {
   relatedCards: PublicPostCard[];
   breadcrumbs: Array<{ label: string; href: string }>;
   archiveState: 'active' | 'expired' | 'archived';
+  lifecycle?: ExamLifecycle;
+  locale?: ContentLocale;
+  availableLocales?: ContentLocale[];
 }
 
 export interface PublicTaxonomyLanding {
@@ -355,17 +525,27 @@ export const officialSourceSchema = z.object({
 export const importantDateSchema = z.object({
   label: z.string().trim().min(1).max(120),
   value: z.string().trim().min(1).max(120),
-  kind: z.enum(['application_start', 'last_date', 'exam_date', 'result_date', 'admit_card', 'counselling', 'other']).optional(),
+  kind: z.enum(importantDateKindValues).optional(),
   isPrimary: z.boolean().optional(),
   note: z.string().trim().max(240).optional(),
 });
 
+export const ageRelaxationSchema = z.object({
+  category: z.enum(ageRelaxationCategoryValues),
+  label: z.string().trim().max(80).optional(),
+  years: z.coerce.number().int().min(0).max(30),
+  appliesFrom: z.enum(ageRelaxationBasisValues).default('upper_age_limit'),
+  note: z.string().trim().max(240).optional(),
+});
+
 export const eligibilitySchema = z.object({
   label: z.string().trim().min(1).max(120),
   description: z.string().trim().min(1).max(600),
   qualificationSlug: z.string().trim().max(180).optional(),
   minAge: z.coerce.number().int().min(0).max(99).optional(),
   maxAge: z.coerce.number().int().min(0).max(99).optional(),
+  ageCutoffDate: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional().or(z.literal('')),
+  ageRelaxations: z.array(ageRelaxationSchema).max(12).default([]),
   relaxationNote: z.string().trim().max(240).optional(),
 });
 
@@ -401,6 +581,15 @@ export const seoFieldsSchema = z.object({
   ogImage: z.string().url().optional().or(z.literal('')),
 }).optional();
 
+export const postTranslationSchema = z.object({
+  title: z.string().trim().max(300).optional(),
+  summary: z.string().trim().max(500).optional(),
+  shortInfo: z.string().trim().max(600).optional(),
+  body: z.string().trim().max(50000).optional(),
+  metaTitle: z.string().trim().max(160).optional(),
+  metaDescription: z.string().trim().max(320).optional(),
+});
+
 export const postEditorSchema = z.object({
   title: z.string().trim().min(3).max(300),
   slug: z.string().trim().max(220).optional(),
@@ -416,6 +605,7 @@ export const postEditorSchema = z.object({
   qualifications: z.array(taxonomyRefSchema).default([]),
   institution: taxonomyRefSchema.nullish(),
   exam: taxonomyRefSchema.nullish(),
+  examCycle: taxonomyRefSchema.nullish(),
   importantDates: z.array(importantDateSchema).default([]),
   eligibility: z.array(eligibilitySchema).default([]),
   feeRules: z.array(feeRuleSchema).default([]),
@@ -447,6 +637,7 @@ export const postEditorSchema = z.object({
   resultDate: z.string().trim().max(80).optional(),
   expiresAt: z.string().trim().max(80).optional(),
   seo: seoFieldsSchema,
+  translations: z.object({ hi: postTranslationSchema.optional() }).optional(),
   versionNote: z.string().trim().max(280).optional(),
 });
 
@@ -472,7 +663,12 @@ export const publicPostListQuerySchema = z.object({
   organization: z.string().trim().max(120).optional(),
   qualification: z.string().trim().max(120).optional(),
   status: z.enum(['active', 'expired', 'archived', 'all']).default('active'),
-  sort: z.enum(['newest', 'oldest', 'updated', 'closing']).default('newest'),
+  sort: z.enum(['newest', 'oldest', 'updated', 'closing', 'relevance']).optional(),
+  locale: z.enum(contentLocaleValues).default('en'),
+});
+
+export const publicLocaleQuerySchema = z.object({
+  locale: z.enum(contentLocaleValues).default('en'),
 });
 
 export const taxonomyTypeValues = ['states', 'organizations', 'categories', 'institutions', 'exams', 'qualifications'] as const;
@@ -482,6 +678,30 @@ export const workflowNoteSchema = z.object({
   note: z.string().trim().max(500).optional(),
 });
 
+export const postScheduleSchema = z.object({
+  publishAt: z.string().datetime({ offset: true }).nullable().optional(),
+  unpublishAt: z.string().datetime({ offset: true }).nullable().optional(),
+  note: z.string().trim().max(500).optional(),
+}).refine((value) => value.publishAt !== undefined || value.unpublishAt !== undefined, {
+  message: 'Provide publishAt or unpublishAt',
+});
+
+export const scheduledPostsQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+export const examCycleQuerySchema = z.object({
+  search: z.string().trim().max(120).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const calendarFeedQuerySchema = z.object({
+  kind: z.enum(importantDateKindValues).optional(),
+  type: z.enum(postTypeValues).optional(),
+});
+
 export const editorialQueueQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(24),
 });
@@ -509,6 +729,12 @@ export const taxonomyEditorSchema = z.object({
   officialWebsite: z.string().url().optional().or(z.literal('')),
   shortName: z.string().trim().max(60).optional(),
   priority: z.coerce.number().int().min(0).max(9999).optional(),
+  translations: z.object({
+    hi: z.object({
+      name: z.string().trim().min(1).max(160),
+      description: z.string().trim().max(500).optional(),
+    }).optional(),
+  }).optional(),
 });
 
 export const alertSubscriptionPublicSchema = z.object({
@@ -519,9 +745,35 @@ export const alertSubscriptionPublicSchema = z.object({
   qualifications: z.array(z.string().trim().min(1).max(160)).default([]),
   postTypes: z.array(z.enum(postTypeValues)).default([]),
   frequency: z.enum(['instant', 'daily', 'weekly']).default('daily'),
+  locale: z.enum(contentLocaleValues).optional(),
+  phone: z.string().trim().regex(/^\+[1-9]\d{7,14}$/, 'Use international format, e.g. +919876543210').optional(),
+  reminderDays: z.array(z.coerce.number().int().min(1).max(30)).max(5).optional(),
   source: z.string().trim().max(40).optional(),
 });
 
+export const alertTopicKinds = ['category', 'state', 'organization', 'qualification', 'postType'] as const;
+export type AlertTopicKind = typeof alertTopicKinds[number];
+
+export const alertPreferenceUpdateSchema = alertSubscriptionPublicSchema.pick({
+  categories: true,
+  states: true,
+  organizations: true,
+  qualifications: true,
+  postTypes: true,
+  frequency: true,
+  locale: true,
+  reminderDays: true,
+});
+
+export const alertPreferencePauseSchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(12),
+});
+
+export const alertTopicRemoveSchema = z.object({
+  kind: z.enum(alertTopicKinds),
+  value: z.string().trim().min(1).max(160),
+});
+
 export const alertSubscriptionAdminQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
   offset: z.coerce.number().int().min(0).default(0),
@@ -2,17 +2,27 @@ import type { NextFunction, Request, Response } from 'express';
 import jwt, { type VerifyOptions } from 'jsonwebtoken';
 
 import { config } from '../config.js';
+import { PermissionOverrideModelPostgres } from '../models/permissionOverrides.postgres.js';
 import { UserModelPostgres } from '../models/users.postgres.js';
+import type { Permission } from '../services/permissions.js';
+import { isStaffRole, resolvePermissions } from '../services/permissions.js';
 import RedisCache from '../services/redis.js';
+import { isSessionActive } from '../services/sessions.js';
+import { STEP_UP_HEADER_NAME, verifyStepUpToken } from '../services/stepUp.js';
 import type { JwtPayload } from '../types.js';
 
+import { getCountry } from './cloudflare.js';
+import { getClientIP } from './security.js';
+
 export const AUTH_COOKIE_NAME = 'auth_token';
 export const EDITORIAL_ROLES = ['editor', 'reviewer', 'admin', 'superadmin'] as const;
 
 declare module 'express-serve-static-core' {
   interface Request {
     user?: JwtPayload;
+    permissions?: Permission[];
     requestId?: string;
+    sessionId?: string;
   }
 }
 
@@ -55,6 +65,15 @@ export async function isTokenBlacklisted(token: string): Promise<boolean> {
   return !!result;
 }
 
+/**
+ * Tokens without a `jti` predate session tracking and can't be revoked, so
+ * staff holding one must sign in again; members keep them until expiry.
+ */
+const isTokenSessionActive = (req: Request, decoded: JwtPayload, role: JwtPayload['role']): Promise<boolean> =>
+  decoded.jti
+    ? isSessionActive(decoded.jti, { ipAddress: getClientIP(req), country: getCountry(req) })
+    : Promise.resolve(!isStaffRole(role));
+
 export async function authenticateToken(req: Request, res: Response, next: NextFunction): Promise<void> {
   const token = readAuthToken(req);
   if (!token) {
@@ -74,9 +93,14 @@ export async function authenticateToken(req: Request, res: Response, next: NextF
       res.status(401).json({ error: 'User account deactivated' });
       return;
     }
+    if (!(await isTokenSessionActive(req, decoded, user.role))) {
+      res.status(401).json({ error: 'Session has been revoked', code: 'SESSION_REVOKED' });
+      return;
+    }
 
     decoded.role = user.role;
     req.user = decoded;
+    req.sessionId = decoded.jti;
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -107,9 +131,10 @@ export async function optionalAuth(req: Request, _res: Response, next: NextFunct
   try {
     const decoded = verifyToken(token);
     const user = await UserModelPostgres.findById(decoded.userId);
-    if (user?.isActive) {
+    if (user?.isActive && await isTokenSessionActive(req, decoded, user.role)) {
       decoded.role = user.role;
       req.user = decoded;
+      req.sessionId = decoded.jti;
     }
   } catch {
     // Invalid token is ignored for optional auth.
@@ -144,12 +169,65 @@ export function requireRoles(...roles: string[]) {
   };
 }
 
-export function requirePermission(_permission: string) {
-  return (_req: Request, res: Response, _next: NextFunction): void => {
-    res.status(410).json({ error: 'Administrative functionality has been removed' });
+export async function getUserPermissions(userId: string, role: string | undefined): Promise<Permission[]> {
+  const overrides = isStaffRole(role) && role !== 'superadmin'
+    ? await PermissionOverrideModelPostgres.listByUser(userId)
+    : [];
+  return resolvePermissions(role, overrides);
+}
+
+/**
+ * Effective permissions for the authenticated user, resolved once per request.
+ */
+export async function userHasPermission(req: Request, permission: Permission): Promise<boolean> {
+  if (!req.user) return false;
+  if (!req.permissions) {
+    req.permissions = await getUserPermissions(req.user.userId, req.user.role);
+  }
+  return req.permissions.includes(permission);
+}
+
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!(await userHasPermission(req, permission))) {
+        res.status(403).json({ error: 'Insufficient permissions', permission });
+        return;
+      }
+    } catch (error) {
+      console.error('[Auth] Permission lookup error:', error);
+      res.status(500).json({ error: 'Failed to verify permissions' });
+      return;
+    }
+    next();
   };
 }
 
-export function requireAdminStepUp(_req: Request, res: Response, _next: NextFunction): void {
-  res.status(410).json({ error: 'Administrative functionality has been removed' });
+/**
+ * Gate destructive admin actions behind a recent re-authentication. Clients
+ * obtain a token from `POST /api/auth/step-up` and send it in the
+ * `X-Step-Up-Token` header; it is only valid for the session that requested it.
+ */
+export async function requireAdminStepUp(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.user) {
+    res.status(401).json({ error: 'Access token required' });
+    return;
+  }
+
+  try {
+    const header = req.headers[STEP_UP_HEADER_NAME];
+    const stepUp = await verifyStepUpToken(Array.isArray(header) ? header[0] : header, {
+      userId: req.user.userId,
+      sessionToken: readAuthToken(req),
+    });
+    if (!stepUp) {
+      res.status(403).json({ error: 'Step-up authentication required', code: 'STEP_UP_REQUIRED' });
+      return;
+    }
+  } catch (error) {
+    console.error('[Auth] Step-up verification error:', error);
+    res.status(500).json({ error: 'Failed to verify step-up authentication' });
+    return;
+  }
+  next();
 }
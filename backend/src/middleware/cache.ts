@@ -169,12 +169,9 @@ export const cacheKeys = {
 
     jobMatch: (req: Request) => {
         const params = [
-            `age:${req.query.age || ''}`,
-            `qualification:${req.query.qualification || ''}`,
-            `location:${req.query.location || ''}`,
-            `category:${req.query.category || ''}`,
-            `gender:${req.query.gender || ''}`,
-        ];
+            'dob', 'age', 'qualification', 'state', 'location', 'category', 'pwbd',
+            'exServiceman', 'serviceYears', 'gender', 'type', 'limit', 'includeIneligible',
+        ].map((key) => `${key}:${req.query[key] || ''}`);
         return `job-match:${params.join(':')}`;
     },
 
@@ -284,6 +284,10 @@ export function blockSuspiciousAgents(req: Request, res: Response, next: NextFun
  * Validate Content-Type for POST/PUT/PATCH
  * Skip OPTIONS requests (CORS preflight)
  */
+// RFC 8058 one-click unsubscribes post `List-Unsubscribe=One-Click` as a form.
+const FORM_POST_PATHS = new Set(['/api/subscriptions/unsubscribe']);
+const FORM_CONTENT_TYPE = /^(application\/x-www-form-urlencoded|multipart\/form-data)\b/i;
+
 export function validateContentType(req: Request, res: Response, next: NextFunction) {
     // Skip OPTIONS preflight requests (CORS)
     if (req.method === 'OPTIONS') {
@@ -301,6 +305,9 @@ export function validateContentType(req: Request, res: Response, next: NextFunct
             }
             return res.status(415).json({ error: 'Content-Type must be application/json' });
         }
+        if (FORM_POST_PATHS.has(req.path) && FORM_CONTENT_TYPE.test(contentType)) {
+            return next();
+        }
         if (!contentType.includes('application/json')) {
             return res.status(415).json({ error: 'Content-Type must be application/json' });
         }
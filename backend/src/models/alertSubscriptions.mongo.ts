@@ -5,6 +5,7 @@ import { ObjectId } from 'mongodb';
 
 import type {
   AlertSubscriptionRecord,
+  ContentLocale,
   PostRecord,
   PostType,
 } from '../content/types.js';
@@ -16,6 +17,8 @@ interface AlertSubscriptionDoc extends Document {
   verified: boolean;
   isActive: boolean;
   frequency: 'instant' | 'daily' | 'weekly';
+  locale?: ContentLocale;
+  phone?: string;
   categorySlugs: string[];
   categoryNames: string[];
   stateSlugs: string[];
@@ -42,6 +45,8 @@ interface AlertSubscriptionCreateInput {
   qualifications?: string[];
   postTypes?: PostType[];
   frequency?: 'instant' | 'daily' | 'weekly';
+  locale?: ContentLocale;
+  phone?: string;
   source?: string;
   verified?: boolean;
 }
@@ -76,11 +81,14 @@ function docToRecord(doc: WithId<AlertSubscriptionDoc>): AlertSubscriptionRecord
     qualificationSlugs: doc.qualificationSlugs || [],
     qualificationNames: doc.qualificationNames || [],
     postTypes: doc.postTypes || [],
+    locale: doc.locale || 'en',
+    phone: doc.phone,
     verificationToken: doc.verificationToken,
     unsubscribeToken: doc.unsubscribeToken,
     source: doc.source,
     alertCount: doc.alertCount || 0,
     lastAlertedAt: doc.lastAlertedAt?.toISOString(),
+    reminderDays: [],
     createdAt: doc.createdAt.toISOString(),
     updatedAt: doc.updatedAt.toISOString(),
   };
@@ -158,6 +166,8 @@ export class AlertSubscriptionModelMongo {
       verified,
       isActive: true,
       frequency: input.frequency ?? existing?.frequency ?? 'daily',
+      locale: input.locale ?? existing?.locale ?? 'en',
+      phone: input.phone ?? existing?.phone,
       categorySlugs: categories.map((item) => item.slug),
       categoryNames: categories.map((item) => item.name),
       stateSlugs: states.map((item) => item.slug),
@@ -8,6 +8,8 @@ import {
 
 import type {
   AlertSubscriptionRecord,
+  AlertTopicKind,
+  ContentLocale,
   PostRecord,
   PostType,
 } from '../content/types.js';
@@ -22,10 +24,24 @@ interface AlertSubscriptionCreateInput {
   qualifications?: string[];
   postTypes?: PostType[];
   frequency?: 'instant' | 'daily' | 'weekly';
+  locale?: ContentLocale;
+  phone?: string;
+  reminderDays?: number[];
   source?: string;
   verified?: boolean;
 }
 
+interface AlertPreferenceUpdateInput {
+  categories?: string[];
+  states?: string[];
+  organizations?: string[];
+  qualifications?: string[];
+  postTypes?: PostType[];
+  frequency?: 'instant' | 'daily' | 'weekly';
+  locale?: ContentLocale;
+  reminderDays?: number[];
+}
+
 const includeRelations = {
   categoryPrefs: { include: { category: true } },
   statePrefs: { include: { state: true } },
@@ -130,6 +146,8 @@ function toRecord(row: SubscriptionRow): AlertSubscriptionRecord {
     qualificationSlugs: row.qualificationPrefs.map((item) => item.qualification.slug),
     qualificationNames: row.qualificationPrefs.map((item) => item.qualification.name),
     postTypes: mappedPostTypes,
+    locale: row.locale === 'hi' ? 'hi' : 'en',
+    phone: row.phone || undefined,
     verificationToken: row.verificationToken || undefined,
     unsubscribeToken: row.unsubscribeToken,
     source: row.source || undefined,
@@ -137,11 +155,18 @@ function toRecord(row: SubscriptionRow): AlertSubscriptionRecord {
     lastAlertedAt: row.lastAlertedAt?.toISOString(),
     lastDigestDailySentAt: row.lastDigestDailySentAt?.toISOString(),
     lastDigestWeeklySentAt: row.lastDigestWeeklySentAt?.toISOString(),
+    pausedUntil: row.pausedUntil?.toISOString(),
+    reminderDays: row.reminderDays ?? [],
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
 }
 
+/** Subscriptions whose pause window, if any, has ended. */
+function notPaused(now = new Date()): Prisma.SubscriptionWhereInput {
+  return { OR: [{ pausedUntil: null }, { pausedUntil: { lte: now } }] };
+}
+
 function invalidatePreferenceCoverageCache() {
   preferenceCoverageCache = null;
 }
@@ -250,6 +275,9 @@ export class AlertSubscriptionModelPostgres {
       const unsubscribeToken = existing?.unsubscribeToken || randomBytes(24).toString('hex');
       const source = input.source || existing?.source || null;
       const frequency = toPrismaFrequency(input.frequency ?? fromPrismaFrequency(existing?.frequency ?? SubscriptionFrequency.DAILY));
+      const locale = input.locale ?? existing?.locale ?? 'en';
+      const phone = input.phone ?? existing?.phone ?? null;
+      const reminderDays = input.reminderDays ?? existing?.reminderDays ?? [];
 
       const effectivePostTypes = input.postTypes && input.postTypes.length > 0
         ? Array.from(new Set(input.postTypes))
@@ -264,6 +292,9 @@ export class AlertSubscriptionModelPostgres {
           verified,
           isActive: true,
           frequency,
+          locale,
+          phone,
+          reminderDays,
           verificationToken,
           unsubscribeToken,
           source,
@@ -271,7 +302,11 @@ export class AlertSubscriptionModelPostgres {
         update: {
           verified,
           isActive: true,
+          pausedUntil: null,
           frequency,
+          locale,
+          phone,
+          reminderDays,
           verificationToken,
           source,
         },
@@ -327,6 +362,108 @@ export class AlertSubscriptionModelPostgres {
     return toRecord(updated);
   }
 
+  static async findByUnsubscribeToken(token: string) {
+    const row = await prisma.subscription.findUnique({
+      where: { unsubscribeToken: token },
+      include: includeRelations,
+    });
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * Replaces every preference of the subscription behind `token`. Unlike
+   * `upsert`, empty lists clear the matching filter.
+   */
+  static async updatePreferencesByToken(token: string, input: AlertPreferenceUpdateInput) {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.subscription.findUnique({
+        where: { unsubscribeToken: token },
+        select: { id: true },
+      });
+      if (!existing) return null;
+
+      await tx.subscription.update({
+        where: { id: existing.id },
+        data: {
+          isActive: true,
+          ...(input.frequency ? { frequency: toPrismaFrequency(input.frequency) } : {}),
+          ...(input.locale ? { locale: input.locale } : {}),
+          ...(input.reminderDays ? { reminderDays: input.reminderDays } : {}),
+        },
+      });
+      await syncCategoryPrefs(tx, existing.id, normalizeTokens(input.categories));
+      await syncStatePrefs(tx, existing.id, normalizeTokens(input.states));
+      await syncOrganizationPrefs(tx, existing.id, normalizeTokens(input.organizations));
+      await syncQualificationPrefs(tx, existing.id, normalizeTokens(input.qualifications));
+      await syncPostTypePrefs(tx, existing.id, Array.from(new Set(input.postTypes ?? [])));
+
+      const record = await tx.subscription.findUnique({
+        where: { id: existing.id },
+        include: includeRelations,
+      });
+      invalidatePreferenceCoverageCache();
+      return record ? toRecord(record) : null;
+    });
+  }
+
+  /** Pauses alerts until `until`; `null` resumes them. */
+  static async setPausedUntilByToken(token: string, until: Date | null) {
+    const existing = await prisma.subscription.findUnique({
+      where: { unsubscribeToken: token },
+      select: { id: true },
+    });
+    if (!existing) return null;
+
+    const updated = await prisma.subscription.update({
+      where: { id: existing.id },
+      data: { pausedUntil: until, ...(until ? {} : { isActive: true }) },
+      include: includeRelations,
+    });
+    invalidatePreferenceCoverageCache();
+    return toRecord(updated);
+  }
+
+  /** Drops one topic (matched by slug, or post type) from the subscription behind `token`. */
+  static async removeTopicByToken(token: string, kind: AlertTopicKind, value: string) {
+    const existing = await prisma.subscription.findUnique({
+      where: { unsubscribeToken: token },
+      select: { id: true },
+    });
+    if (!existing) return null;
+
+    const subscriptionId = existing.id;
+    const slug = slugify(value);
+    if (kind === 'category') {
+      await prisma.subscriptionCategory.deleteMany({ where: { subscriptionId, category: { slug } } });
+    } else if (kind === 'state') {
+      await prisma.subscriptionState.deleteMany({ where: { subscriptionId, state: { slug } } });
+    } else if (kind === 'organization') {
+      await prisma.subscriptionOrganization.deleteMany({ where: { subscriptionId, organization: { slug } } });
+    } else if (kind === 'qualification') {
+      await prisma.subscriptionQualification.deleteMany({ where: { subscriptionId, qualification: { slug } } });
+    } else {
+      const postType = postTypeToPrisma[value as PostType];
+      if (postType) await prisma.subscriptionPostType.deleteMany({ where: { subscriptionId, postType } });
+    }
+
+    const row = await prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: includeRelations,
+    });
+    invalidatePreferenceCoverageCache();
+    return row ? toRecord(row) : null;
+  }
+
+  /** Turns off alerts for an address, e.g. after repeated hard bounces. */
+  static async deactivateByEmail(email: string): Promise<boolean> {
+    const result = await prisma.subscription.updateMany({
+      where: { email: email.trim().toLowerCase(), isActive: true },
+      data: { isActive: false },
+    });
+    if (result.count > 0) invalidatePreferenceCoverageCache();
+    return result.count > 0;
+  }
+
   static async listAdmin(filters: {
     search?: string;
     status?: 'all' | 'active' | 'inactive';
@@ -486,7 +623,15 @@ export class AlertSubscriptionModelPostgres {
     }
   }
 
-  static async listMatchingPost(post: PostRecord, frequency?: 'instant' | 'daily' | 'weekly') {
+  /**
+   * Active subscribers whose filters match `post`. `reminderDay` narrows this
+   * to those who asked for a last-date reminder that many days ahead.
+   */
+  static async listMatchingPost(
+    post: PostRecord,
+    frequency?: 'instant' | 'daily' | 'weekly',
+    options: { reminderDay?: number } = {},
+  ) {
     const categorySlugs = post.categories.map((item) => item.slug).filter(Boolean);
     const stateSlugs = post.states.map((item) => item.slug).filter(Boolean);
     const organizationSlug = post.organization?.slug;
@@ -496,7 +641,9 @@ export class AlertSubscriptionModelPostgres {
       isActive: true,
       verified: true,
       ...(frequency ? { frequency: toPrismaFrequency(frequency) } : {}),
+      ...(options.reminderDay ? { reminderDays: { has: options.reminderDay } } : {}),
       AND: [
+        notPaused(),
         {
           OR: [
             { categoryPrefs: { none: {} } },
@@ -553,6 +700,7 @@ export class AlertSubscriptionModelPostgres {
         email: { in: normalized },
         isActive: true,
         verified: true,
+        ...notPaused(),
       },
       include: includeRelations,
     });
@@ -576,9 +724,9 @@ export class AlertSubscriptionModelPostgres {
         isActive: true,
         verified: true,
         frequency,
-        OR: [
-          nullField,
-          lastSentField,
+        AND: [
+          notPaused(),
+          { OR: [nullField, lastSentField] },
         ],
       },
       include: includeRelations,
@@ -0,0 +1,71 @@
+import { randomBytes, randomUUID } from 'crypto';
+
+import { prismaApp } from '../services/postgres/prisma.js';
+
+/** A user's secret calendar feed; the token is the only credential the feed URL carries. */
+export interface CalendarFeedRecord {
+  id: string;
+  userId: string;
+  token: string;
+  createdAt: Date;
+  lastAccessedAt?: Date;
+}
+
+interface CalendarFeedRow {
+  id: string;
+  userId: string;
+  token: string;
+  createdAt: Date;
+  lastAccessedAt: Date | null;
+}
+
+function toFeedRecord(row: CalendarFeedRow): CalendarFeedRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    token: row.token,
+    createdAt: row.createdAt,
+    lastAccessedAt: row.lastAccessedAt ?? undefined,
+  };
+}
+
+const newToken = () => randomBytes(32).toString('base64url');
+
+// Calendar apps poll every few hours; recording each fetch would be a write per poll.
+const ACCESS_TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+export class CalendarFeedModelPostgres {
+  static async getOrCreateForUser(userId: string): Promise<CalendarFeedRecord> {
+    const row = await prismaApp.calendarFeedEntry.upsert({
+      where: { userId },
+      create: { id: randomUUID(), userId, token: newToken() },
+      update: {},
+    });
+    return toFeedRecord(row);
+  }
+
+  /** Issues a new token; calendars subscribed with the old URL stop receiving updates. */
+  static async rotate(userId: string): Promise<CalendarFeedRecord> {
+    const token = newToken();
+    const row = await prismaApp.calendarFeedEntry.upsert({
+      where: { userId },
+      create: { id: randomUUID(), userId, token },
+      update: { token, createdAt: new Date(), lastAccessedAt: null },
+    });
+    return toFeedRecord(row);
+  }
+
+  static async findByToken(token: string): Promise<CalendarFeedRecord | null> {
+    const row = await prismaApp.calendarFeedEntry.findUnique({ where: { token } });
+    if (!row) return null;
+
+    const now = new Date();
+    if (!row.lastAccessedAt || now.getTime() - row.lastAccessedAt.getTime() > ACCESS_TOUCH_INTERVAL_MS) {
+      await prismaApp.calendarFeedEntry.update({ where: { id: row.id }, data: { lastAccessedAt: now } });
+      return toFeedRecord({ ...row, lastAccessedAt: now });
+    }
+    return toFeedRecord(row);
+  }
+}
+
+export default CalendarFeedModelPostgres;
@@ -4,7 +4,8 @@ import type { Prisma } from '@prisma/client';
 
 import { prismaApp } from '../services/postgres/prisma.js';
 
-export type CampaignDispatchChannel = 'email' | 'push';
+export const campaignDispatchChannels = ['email', 'push', 'telegram', 'whatsapp'] as const;
+export type CampaignDispatchChannel = typeof campaignDispatchChannels[number];
 export type CampaignDispatchStatus = 'pending' | 'sent' | 'failed';
 
 export interface CampaignDispatchLogRecord {
@@ -59,7 +60,7 @@ interface CampaignDispatchLogRow {
 }
 
 function asChannel(value: string): CampaignDispatchChannel {
-  return value === 'push' ? 'push' : 'email';
+  return (campaignDispatchChannels as readonly string[]).includes(value) ? value as CampaignDispatchChannel : 'email';
 }
 
 function asStatus(value: string): CampaignDispatchStatus {
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+
+import type { Prisma } from '@prisma/client';
+
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export const segmentConditionFields = [
+  'state',
+  'category',
+  'organization',
+  'qualification',
+  'postType',
+  'frequency',
+  'lastActive',
+  'trackedStatus',
+  'campaignReceived',
+] as const;
+
+export type SegmentConditionField = typeof segmentConditionFields[number];
+
+export interface SegmentCondition {
+  type: 'condition';
+  field: SegmentConditionField;
+  /** Matches when any value applies. Unused for `lastActive`. */
+  values?: string[];
+  /** `lastActive` only: signed in within this many days. */
+  days?: number;
+  negate?: boolean;
+}
+
+export interface SegmentGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  negate?: boolean;
+  rules: SegmentRule[];
+}
+
+export type SegmentRule = SegmentCondition | SegmentGroup;
+
+export interface CampaignSegmentRecord {
+  id: string;
+  name: string;
+  description?: string;
+  expression: SegmentGroup;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CampaignSegmentRow {
+  id: string;
+  name: string;
+  description: string | null;
+  expression: unknown;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Expressions are validated before they are written, so rows only need a shape check. */
+export function asSegmentGroup(value: unknown): SegmentGroup | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const group = value as Partial<SegmentGroup>;
+  if (group.type !== 'group' || !Array.isArray(group.rules)) {
+    return undefined;
+  }
+  return group as SegmentGroup;
+}
+
+function toJsonValue(value: SegmentGroup): Prisma.InputJsonValue {
+  return value as unknown as Prisma.InputJsonValue;
+}
+
+function toRecord(row: CampaignSegmentRow): CampaignSegmentRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    expression: asSegmentGroup(row.expression) ?? { type: 'group', combinator: 'and', rules: [] },
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export function isDuplicateSegmentName(error: unknown): boolean {
+  return typeof error === 'object'
+    && error !== null
+    && 'code' in error
+    && error.code === 'P2002';
+}
+
+export class CampaignSegmentModelPostgres {
+  static async list(): Promise<CampaignSegmentRecord[]> {
+    const rows = await prismaApp.campaignSegmentEntry.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return rows.map((row) => toRecord(row));
+  }
+
+  static async findById(id: string): Promise<CampaignSegmentRecord | null> {
+    const row = await prismaApp.campaignSegmentEntry.findUnique({ where: { id } });
+    return row ? toRecord(row) : null;
+  }
+
+  static async create(
+    input: { name: string; description?: string; expression: SegmentGroup },
+    userId: string,
+  ): Promise<CampaignSegmentRecord> {
+    const row = await prismaApp.campaignSegmentEntry.create({
+      data: {
+        id: randomUUID(),
+        name: input.name,
+        description: input.description || null,
+        expression: toJsonValue(input.expression),
+        createdBy: userId,
+      },
+    });
+    return toRecord(row);
+  }
+
+  static async update(
+    id: string,
+    input: { name?: string; description?: string; expression?: SegmentGroup },
+  ): Promise<CampaignSegmentRecord | null> {
+    const updated = await prismaApp.campaignSegmentEntry.updateMany({
+      where: { id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.expression !== undefined ? { expression: toJsonValue(input.expression) } : {}),
+      },
+    });
+    return updated.count > 0 ? this.findById(id) : null;
+  }
+
+  static async remove(id: string): Promise<boolean> {
+    const deleted = await prismaApp.campaignSegmentEntry.deleteMany({ where: { id } });
+    return deleted.count > 0;
+  }
+}
+
+export default CampaignSegmentModelPostgres;
@@ -47,6 +47,7 @@ function toRecord(row: {
   headerColor: string | null;
   layoutVariant: string | null;
   payload: unknown;
+  translations: unknown;
   status: PrismaWorkflowStatus;
   seoTitle: string | null;
   seoDescription: string | null;
@@ -80,6 +81,7 @@ function toRecord(row: {
     updatedAt: row.updatedAt.toISOString(),
     createdBy: row.createdBy || undefined,
     updatedBy: row.updatedBy || undefined,
+    translations: isPayload(row.translations) ? row.translations as ContentPageRecord['translations'] : undefined,
   };
 }
 
@@ -9,6 +9,7 @@ function baseTaxonomy(type: TaxonomyType, record: {
   name: string;
   slug: string;
   priority: number;
+  translations: Prisma.JsonValue | null;
   createdAt: Date;
   updatedAt: Date;
 }): TaxonomyDocument {
@@ -18,11 +19,25 @@ function baseTaxonomy(type: TaxonomyType, record: {
     slug: record.slug,
     priority: record.priority,
     type,
+    translations: (record.translations as TaxonomyDocument['translations'] | null) || undefined,
     createdAt: record.createdAt.toISOString(),
     updatedAt: record.updatedAt.toISOString(),
   };
 }
 
+/** Undefined leaves stored translations untouched; an empty object clears them. */
+function toTranslationsJson(translations: TaxonomyDocument['translations']) {
+  if (translations === undefined) return undefined;
+  const hiName = translations?.hi?.name?.trim();
+  if (!hiName) return Prisma.DbNull;
+  return {
+    hi: {
+      name: hiName,
+      ...(translations?.hi?.description?.trim() ? { description: translations.hi.description.trim() } : {}),
+    },
+  };
+}
+
 export class ContentTaxonomyModelPostgres {
   static async list(type: TaxonomyType, limit = 100): Promise<TaxonomyDocument[]> {
     if (type === 'states') {
@@ -208,6 +223,7 @@ export class ContentTaxonomyModelPostgres {
     const name = input.name.trim();
     const slug = slugify(input.slug || name);
     const priority = input.priority ?? 0;
+    const translations = toTranslationsJson(input.translations);
 
     try {
       if (type === 'states') {
@@ -216,6 +232,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
           },
         });
         return {
@@ -232,6 +249,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
             officialWebsite: input.officialWebsite?.trim() || null,
             shortName: input.shortName?.trim() || null,
@@ -251,6 +269,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
           },
         });
@@ -266,6 +285,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
             officialWebsite: input.officialWebsite?.trim() || null,
             shortName: input.shortName?.trim() || null,
@@ -285,6 +305,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
           },
         });
@@ -299,6 +320,7 @@ export class ContentTaxonomyModelPostgres {
           name,
           slug,
           priority,
+          translations,
           description: input.description?.trim() || null,
         },
       });
@@ -321,6 +343,7 @@ export class ContentTaxonomyModelPostgres {
     const name = input.name.trim();
     const slug = slugify(input.slug || name);
     const priority = input.priority ?? 0;
+    const translations = toTranslationsJson(input.translations);
 
     try {
       if (type === 'states') {
@@ -330,6 +353,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
           },
         });
         return {
@@ -347,6 +371,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
             officialWebsite: input.officialWebsite?.trim() || null,
             shortName: input.shortName?.trim() || null,
@@ -367,6 +392,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
           },
         });
@@ -383,6 +409,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
             officialWebsite: input.officialWebsite?.trim() || null,
             shortName: input.shortName?.trim() || null,
@@ -403,6 +430,7 @@ export class ContentTaxonomyModelPostgres {
             name,
             slug,
             priority,
+            translations,
             description: input.description?.trim() || null,
           },
         });
@@ -418,6 +446,7 @@ export class ContentTaxonomyModelPostgres {
           name,
           slug,
           priority,
+          translations,
           description: input.description?.trim() || null,
         },
       });
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+
+import type { Prisma } from '@prisma/client';
+
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export const emailSuppressionReasons = ['hard_bounce', 'complaint', 'manual'] as const;
+export type EmailSuppressionReason = typeof emailSuppressionReasons[number];
+
+export const emailDeliveryEventTypes = ['delivered', 'bounce', 'complaint', 'dropped', 'deferred'] as const;
+export type EmailDeliveryEventType = typeof emailDeliveryEventTypes[number];
+
+export interface EmailSuppressionRecord {
+  email: string;
+  reason: EmailSuppressionReason;
+  source: 'webhook' | 'admin';
+  note?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EmailDeliveryEventInput {
+  eventId?: string;
+  email: string;
+  type: EmailDeliveryEventType;
+  bounceType?: 'hard' | 'soft';
+  reason?: string;
+  messageId?: string;
+  occurredAt: Date;
+}
+
+interface EmailSuppressionRow {
+  email: string;
+  reason: string;
+  source: string;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toRecord(row: EmailSuppressionRow): EmailSuppressionRecord {
+  return {
+    email: row.email,
+    reason: (emailSuppressionReasons as readonly string[]).includes(row.reason) ? row.reason as EmailSuppressionReason : 'manual',
+    source: row.source === 'admin' ? 'admin' : 'webhook',
+    note: row.note || undefined,
+    createdBy: row.createdBy || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object'
+    && error !== null
+    && 'code' in error
+    && error.code === 'P2002';
+}
+
+export class EmailSuppressionModelPostgres {
+  /** Returns the subset of `emails` (lower-cased) that must not receive mail. */
+  static async listSuppressedEmails(emails: string[]): Promise<Set<string>> {
+    const normalized = Array.from(new Set(emails.map(normalizeEmail).filter(Boolean)));
+    if (normalized.length === 0) return new Set();
+    const rows = await prismaApp.emailSuppressionEntry.findMany({
+      where: { email: { in: normalized } },
+      select: { email: true },
+    });
+    return new Set(rows.map((row) => row.email));
+  }
+
+  static async list(filters: {
+    search?: string;
+    reason?: EmailSuppressionReason;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ data: EmailSuppressionRecord[]; total: number; count: number }> {
+    const where: Prisma.EmailSuppressionEntryWhereInput = {};
+    if (filters.search?.trim()) {
+      where.email = { contains: filters.search.trim(), mode: 'insensitive' };
+    }
+    if (filters.reason) where.reason = filters.reason;
+
+    const [rows, total] = await Promise.all([
+      prismaApp.emailSuppressionEntry.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit ?? 20,
+        skip: filters.offset ?? 0,
+      }),
+      prismaApp.emailSuppressionEntry.count({ where }),
+    ]);
+
+    const data = rows.map((row) => toRecord(row));
+    return { data, total, count: data.length };
+  }
+
+  static async upsert(input: {
+    email: string;
+    reason: EmailSuppressionReason;
+    source: 'webhook' | 'admin';
+    note?: string;
+    createdBy?: string;
+  }): Promise<EmailSuppressionRecord> {
+    const email = normalizeEmail(input.email);
+    const row = await prismaApp.emailSuppressionEntry.upsert({
+      where: { email },
+      create: {
+        id: randomUUID(),
+        email,
+        reason: input.reason,
+        source: input.source,
+        note: input.note || null,
+        createdBy: input.createdBy || null,
+      },
+      update: {
+        reason: input.reason,
+        source: input.source,
+        note: input.note || null,
+        createdBy: input.createdBy || null,
+      },
+    });
+    return toRecord(row);
+  }
+
+  static async remove(email: string): Promise<boolean> {
+    const result = await prismaApp.emailSuppressionEntry.deleteMany({ where: { email: normalizeEmail(email) } });
+    return result.count > 0;
+  }
+
+  /** Stores a delivery event; returns false when the provider event id was already seen. */
+  static async recordEvent(event: EmailDeliveryEventInput): Promise<boolean> {
+    try {
+      await prismaApp.emailDeliveryEventEntry.create({
+        data: {
+          id: randomUUID(),
+          eventId: event.eventId || null,
+          email: normalizeEmail(event.email),
+          type: event.type,
+          bounceType: event.bounceType || null,
+          reason: event.reason || null,
+          messageId: event.messageId || null,
+          occurredAt: event.occurredAt,
+        },
+      });
+      return true;
+    } catch (error) {
+      if (isUniqueViolation(error)) return false;
+      throw error;
+    }
+  }
+
+  static async countHardBounces(email: string): Promise<number> {
+    return prismaApp.emailDeliveryEventEntry.count({
+      where: { email: normalizeEmail(email), type: 'bounce', bounceType: 'hard' },
+    });
+  }
+}
+
+export default EmailSuppressionModelPostgres;
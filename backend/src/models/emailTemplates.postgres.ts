@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export type EmailTemplateKind = 'template' | 'partial';
+
+export interface StoredEmailTemplate {
+  key: string;
+  kind: EmailTemplateKind;
+  subject: string;
+  html: string;
+  version: number;
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+export interface EmailTemplateVersionRecord {
+  version: number;
+  subject: string;
+  html: string;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+interface EmailTemplateRow {
+  key: string;
+  kind: string;
+  subject: string;
+  html: string;
+  version: number;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+interface EmailTemplateVersionRow {
+  version: number;
+  subject: string;
+  html: string;
+  note: string | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+function toRecord(row: EmailTemplateRow): StoredEmailTemplate {
+  return {
+    key: row.key,
+    kind: row.kind === 'partial' ? 'partial' : 'template',
+    subject: row.subject,
+    html: row.html,
+    version: row.version,
+    updatedBy: row.updatedBy || undefined,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toVersionRecord(row: EmailTemplateVersionRow): EmailTemplateVersionRecord {
+  return {
+    version: row.version,
+    subject: row.subject,
+    html: row.html,
+    note: row.note || undefined,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+  };
+}
+
+export class EmailTemplateModelPostgres {
+  static async listAll(): Promise<StoredEmailTemplate[]> {
+    const rows = await prismaApp.emailTemplateEntry.findMany({ orderBy: { key: 'asc' } });
+    return rows.map((row) => toRecord(row));
+  }
+
+  static async findByKey(key: string): Promise<StoredEmailTemplate | null> {
+    const row = await prismaApp.emailTemplateEntry.findUnique({ where: { key } });
+    return row ? toRecord(row) : null;
+  }
+
+  static async listVersions(key: string, limit = 20): Promise<EmailTemplateVersionRecord[]> {
+    const rows = await prismaApp.emailTemplateVersionEntry.findMany({
+      where: { template: { key } },
+      orderBy: { version: 'desc' },
+      take: limit,
+    });
+    return rows.map((row) => toVersionRecord(row));
+  }
+
+  /**
+   * Stores new content as the next version. The first save of a key starts
+   * at version 1; the built-in default counts as version 0.
+   */
+  static async saveVersion(
+    key: string,
+    kind: EmailTemplateKind,
+    input: { subject: string; html: string; note?: string },
+    userId: string,
+  ): Promise<StoredEmailTemplate> {
+    return prismaApp.$transaction(async (tx) => {
+      const existing = await tx.emailTemplateEntry.findUnique({ where: { key } });
+      const version = (existing?.version ?? 0) + 1;
+      const row = existing
+        ? await tx.emailTemplateEntry.update({
+            where: { key },
+            data: { subject: input.subject, html: input.html, version, updatedBy: userId },
+          })
+        : await tx.emailTemplateEntry.create({
+            data: {
+              id: randomUUID(),
+              key,
+              kind,
+              subject: input.subject,
+              html: input.html,
+              version,
+              updatedBy: userId,
+            },
+          });
+      await tx.emailTemplateVersionEntry.create({
+        data: {
+          id: randomUUID(),
+          templateId: row.id,
+          version,
+          subject: input.subject,
+          html: input.html,
+          note: input.note || null,
+          createdBy: userId,
+        },
+      });
+      return toRecord(row);
+    });
+  }
+}
+
+export default EmailTemplateModelPostgres;
@@ -2,6 +2,9 @@ import { randomUUID } from 'crypto';
 
 import { prismaApp } from '../services/postgres/prisma.js';
 
+import { campaignDispatchChannels, type CampaignDispatchChannel } from './campaignDispatchLogs.postgres.js';
+import { asSegmentGroup, type SegmentGroup } from './campaignSegments.postgres.js';
+
 export type NotificationCampaignSegmentType =
   | 'all'
   | 'state'
@@ -9,7 +12,8 @@ export type NotificationCampaignSegmentType =
   | 'organization'
   | 'qualification'
   | 'type'
-  | 'language';
+  | 'language'
+  | 'custom';
 
 export type NotificationCampaignStatus =
   | 'draft'
@@ -20,6 +24,16 @@ export type NotificationCampaignStatus =
   | 'simulated'
   | 'failed';
 
+export const DEFAULT_CAMPAIGN_CHANNELS: CampaignDispatchChannel[] = ['email', 'push'];
+
+/** Per-channel copy; `{{title}}`, `{{body}}` and `{{url}}` are filled from the campaign. */
+export interface CampaignChannelTemplate {
+  title?: string;
+  body?: string;
+}
+
+export type CampaignChannelTemplates = Partial<Record<CampaignDispatchChannel, CampaignChannelTemplate>>;
+
 export interface NotificationCampaignRecord {
   id: string;
   title: string;
@@ -29,6 +43,10 @@ export interface NotificationCampaignRecord {
     type: NotificationCampaignSegmentType;
     value: string;
   };
+  /** Audience expression for `custom` segments, copied from the builder or a saved segment. */
+  segmentExpression?: SegmentGroup;
+  channels: CampaignDispatchChannel[];
+  channelTemplates?: CampaignChannelTemplates;
   status: NotificationCampaignStatus;
   unsupportedSegment: boolean;
   sentCount: number;
@@ -53,6 +71,9 @@ interface NotificationCampaignRow {
   url: string | null;
   segmentType: string;
   segmentValue: string;
+  segmentExpression: unknown;
+  channels: string[];
+  channelTemplates: unknown;
   status: string;
   sentCount: number;
   failedCount: number;
@@ -73,7 +94,8 @@ function asSegmentType(value: string): NotificationCampaignSegmentType {
     value === 'organization' ||
     value === 'qualification' ||
     value === 'type' ||
-    value === 'language'
+    value === 'language' ||
+    value === 'custom'
   ) {
     return value;
   }
@@ -129,6 +151,29 @@ function asAbTest(value: unknown): NotificationCampaignRecord['abTest'] {
   };
 }
 
+function asChannels(values: string[]): CampaignDispatchChannel[] {
+  const channels = campaignDispatchChannels.filter((channel) => values.includes(channel));
+  return channels.length > 0 ? channels : DEFAULT_CAMPAIGN_CHANNELS;
+}
+
+function asChannelTemplates(value: unknown): CampaignChannelTemplates | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const templates: CampaignChannelTemplates = {};
+  for (const channel of campaignDispatchChannels) {
+    const entry = (value as Record<string, unknown>)[channel];
+    if (!entry || typeof entry !== 'object') continue;
+    const { title, body } = entry as { title?: unknown; body?: unknown };
+    templates[channel] = {
+      title: typeof title === 'string' && title ? title : undefined,
+      body: typeof body === 'string' && body ? body : undefined,
+    };
+  }
+  return Object.keys(templates).length > 0 ? templates : undefined;
+}
+
 function toRecord(row: NotificationCampaignRow): NotificationCampaignRecord {
   return {
     id: row.id,
@@ -139,8 +184,12 @@ function toRecord(row: NotificationCampaignRow): NotificationCampaignRecord {
       type: asSegmentType(row.segmentType),
       value: row.segmentValue,
     },
+    segmentExpression: asSegmentGroup(row.segmentExpression),
+    channels: asChannels(row.channels),
+    channelTemplates: asChannelTemplates(row.channelTemplates),
     status: asStatus(row.status),
-    unsupportedSegment: row.segmentType === 'language',
+    unsupportedSegment: row.segmentType === 'language'
+      || (row.segmentType === 'custom' && !asSegmentGroup(row.segmentExpression)),
     sentCount: row.sentCount,
     failedCount: row.failedCount,
     openCount: row.openCount,
@@ -160,6 +209,9 @@ export class NotificationCampaignModelPostgres {
       body: string;
       url?: string;
       segment: { type: NotificationCampaignSegmentType; value: string };
+      segmentExpression?: SegmentGroup;
+      channels?: CampaignDispatchChannel[];
+      channelTemplates?: CampaignChannelTemplates;
       scheduledAt?: Date;
       abTest?: NotificationCampaignRecord['abTest'];
     },
@@ -175,6 +227,9 @@ export class NotificationCampaignModelPostgres {
         url: input.url || null,
         segmentType: input.segment.type,
         segmentValue: input.segment.value,
+        segmentExpression: input.segmentExpression ?? null,
+        channels: input.channels?.length ? input.channels : DEFAULT_CAMPAIGN_CHANNELS,
+        channelTemplates: input.channelTemplates ?? null,
         status,
         sentCount: 0,
         failedCount: 0,
@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+
+import type { Permission, PermissionEffect, PermissionOverride } from '../services/permissions.js';
+import { isPermission } from '../services/permissions.js';
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export interface PermissionOverrideRecord extends PermissionOverride {
+  id: string;
+  userId: string;
+  reason?: string;
+  grantedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PermissionOverrideInput {
+  permission: Permission;
+  effect: PermissionEffect;
+  reason?: string;
+}
+
+interface PermissionOverrideRow {
+  id: string;
+  userId: string;
+  permission: string;
+  effect: string;
+  reason: string | null;
+  grantedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toRecord(row: PermissionOverrideRow): PermissionOverrideRecord | null {
+  // Rows naming a permission that has since been retired are ignored.
+  if (!isPermission(row.permission)) return null;
+  return {
+    id: row.id,
+    userId: row.userId,
+    permission: row.permission,
+    effect: row.effect === 'grant' ? 'grant' : 'deny',
+    reason: row.reason || undefined,
+    grantedBy: row.grantedBy || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class PermissionOverrideModelPostgres {
+  static async listByUser(userId: string): Promise<PermissionOverrideRecord[]> {
+    const rows = await prismaApp.userPermissionOverrideEntry.findMany({
+      where: { userId },
+      orderBy: { permission: 'asc' },
+    });
+    return rows
+      .map((row) => toRecord(row))
+      .filter((record): record is PermissionOverrideRecord => record !== null);
+  }
+
+  /**
+   * Replace every override for a user in one transaction.
+   */
+  static async replaceForUser(
+    userId: string,
+    overrides: PermissionOverrideInput[],
+    grantedBy?: string,
+  ): Promise<PermissionOverrideRecord[]> {
+    await prismaApp.$transaction([
+      prismaApp.userPermissionOverrideEntry.deleteMany({ where: { userId } }),
+      prismaApp.userPermissionOverrideEntry.createMany({
+        data: overrides.map((override) => ({
+          id: randomUUID(),
+          userId,
+          permission: override.permission,
+          effect: override.effect,
+          reason: override.reason ?? null,
+          grantedBy: grantedBy ?? null,
+        })),
+      }),
+    ]);
+    return this.listByUser(userId);
+  }
+}
+
+export default PermissionOverrideModelPostgres;
@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto';
+
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export const postDuplicateDecisions = ['distinct', 'merged'] as const;
+export type PostDuplicateDecision = typeof postDuplicateDecisions[number];
+
+/** An editor's verdict on a pair of posts the duplicate detector flagged. */
+export interface PostDuplicateReviewRecord {
+  id: string;
+  postId: string;
+  otherPostId: string;
+  decision: PostDuplicateDecision;
+  note?: string;
+  reviewedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PostDuplicateReviewRow {
+  id: string;
+  postId: string;
+  otherPostId: string;
+  decision: string;
+  note: string | null;
+  reviewedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toReviewRecord(row: PostDuplicateReviewRow): PostDuplicateReviewRecord {
+  return {
+    id: row.id,
+    postId: row.postId,
+    otherPostId: row.otherPostId,
+    decision: (postDuplicateDecisions as readonly string[]).includes(row.decision) ? row.decision as PostDuplicateDecision : 'distinct',
+    note: row.note || undefined,
+    reviewedBy: row.reviewedBy || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// A pair is stored once, whichever post the editor was looking at.
+function orderPair(a: string, b: string): { postId: string; otherPostId: string } {
+  return a < b ? { postId: a, otherPostId: b } : { postId: b, otherPostId: a };
+}
+
+export class PostDuplicateReviewModelPostgres {
+  static async listForPost(postId: string): Promise<PostDuplicateReviewRecord[]> {
+    const rows = await prismaApp.postDuplicateReviewEntry.findMany({
+      where: { OR: [{ postId }, { otherPostId: postId }] },
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map((row) => toReviewRecord(row));
+  }
+
+  static async record(input: {
+    postId: string;
+    otherPostId: string;
+    decision: PostDuplicateDecision;
+    reviewedBy?: string;
+    note?: string;
+  }): Promise<PostDuplicateReviewRecord> {
+    const pair = orderPair(input.postId, input.otherPostId);
+    const data = { decision: input.decision, reviewedBy: input.reviewedBy || null, note: input.note || null };
+    const row = await prismaApp.postDuplicateReviewEntry.upsert({
+      where: { postId_otherPostId: pair },
+      create: { id: randomUUID(), ...pair, ...data },
+      update: data,
+    });
+    return toReviewRecord(row);
+  }
+}
+
+export default PostDuplicateReviewModelPostgres;
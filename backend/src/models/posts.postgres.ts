@@ -7,20 +7,31 @@ import {
 } from '@prisma/client';
 
 import type {
+  AgeRelaxationRecord,
   AlertMatchPreview,
   AdminPostListResult,
   AuditLogRecord,
+  ExamCycleSummary,
+  ExamLifecycle,
+  ExamLifecycleStage,
   PostRecord,
+  PostTranslations,
   PostType,
   PostWorkflowStatus,
+  PostVersionDiff,
   PostVersionRecord,
   PublicPostCard,
   PublicPostDetail,
   PublicSection,
+  ScheduledPostItem,
   TaxonomyRef,
+  TaxonomyType,
 } from '../content/types.js';
-import { publicSectionMap } from '../content/types.js';
+import { examLifecycleStageValues, publicSectionMap } from '../content/types.js';
+import { postTranslationStatus, preparePostTranslations } from '../services/contentLocalization.js';
+import { buildSelectiveRevert, diffPostSnapshots, type PostRevertSelection } from '../services/postDiff.js';
 import { prisma } from '../services/postgres/prisma.js';
+import type { ContentSearchAdapter } from '../services/searchAdapter.js';
 import { slugify } from '../utils/slugify.js';
 
 import AlertSubscriptionModelPostgres from './alertSubscriptions.postgres.js';
@@ -30,6 +41,7 @@ const postInclude = {
   organization: true,
   institution: true,
   exam: true,
+  examCycle: true,
   program: true,
   postCategories: {
     include: { category: true },
@@ -47,7 +59,12 @@ const postInclude = {
     orderBy: { position: 'asc' },
   },
   eligibilityRules: {
-    include: { qualification: true },
+    include: {
+      qualification: true,
+      ageRelaxations: {
+        orderBy: { position: 'asc' },
+      },
+    },
     orderBy: { position: 'asc' },
   },
   feeRules: {
@@ -73,7 +90,10 @@ const postCardInclude = {
 
 type PostWithRelations = Prisma.PostGetPayload<{ include: typeof postInclude }>;
 type PostCardWithRelations = Prisma.PostGetPayload<{ include: typeof postCardInclude }>;
-type PostInput = Omit<PostRecord, 'id' | 'createdAt' | 'updatedAt' | 'currentVersion' | 'searchText' | 'freshness' | 'searchMeta' | 'readiness'>;
+type PostInput = Omit<
+  PostRecord,
+  'id' | 'createdAt' | 'updatedAt' | 'currentVersion' | 'searchText' | 'freshness' | 'searchMeta' | 'readiness' | 'scheduledPublishAt' | 'scheduledUnpublishAt' | 'translationStatus'
+>;
 
 const SEARCH_STOP_WORDS = new Set(['the', 'for', 'and', 'with', 'from', 'into', 'over', 'under', 'exam', 'online']);
 const SEARCH_TYPE_TERMS: Record<PostType, string[]> = {
@@ -258,9 +278,18 @@ function toPublicCard(post: PostWithRelations | PostCardWithRelations): PublicPo
     publishedAt: post.publishedAt?.toISOString(),
     updatedAt: post.updatedAt.toISOString(),
     indexable: post.seoIndexable,
+    translations: toCardTranslations(post.translations as PostTranslations | null),
   };
 }
 
+function toCardTranslations(translations: PostTranslations | null): PublicPostCard['translations'] {
+  if (!translations) return undefined;
+  const entries = Object.entries(translations)
+    .filter(([, translation]) => translation?.title)
+    .map(([locale, translation]) => [locale, { title: translation!.title, summary: translation!.summary }]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 function toPostRecord(post: PostWithRelations): PostRecord {
   const officialSources = post.officialSources.map((item) => ({
     label: item.label,
@@ -299,6 +328,7 @@ function toPostRecord(post: PostWithRelations): PostRecord {
     trust: trustSummary,
   });
   const searchMeta = deriveSearchMeta(post.searchText, legacySlugs);
+  const translations = (post.translations as PostTranslations | null) || undefined;
   const readiness = deriveReadiness({
     status: mapWorkflowStatus(post.status),
     summary: post.summary,
@@ -336,6 +366,7 @@ function toPostRecord(post: PostWithRelations): PostRecord {
     })),
     institution: toTaxonomyRef(post.institution),
     exam: toTaxonomyRef(post.exam),
+    examCycle: toTaxonomyRef(post.examCycle),
     importantDates: post.importantDates.map((item) => ({
       label: item.label,
       value: item.value,
@@ -349,6 +380,14 @@ function toPostRecord(post: PostWithRelations): PostRecord {
       qualificationSlug: item.qualification?.slug || undefined,
       minAge: item.minAge || undefined,
       maxAge: item.maxAge || undefined,
+      ageCutoffDate: item.ageCutoffDate?.toISOString().slice(0, 10),
+      ageRelaxations: item.ageRelaxations.map((relaxation) => ({
+        category: relaxation.category as AgeRelaxationRecord['category'],
+        label: relaxation.label || undefined,
+        years: relaxation.years,
+        appliesFrom: relaxation.appliesFrom === 'after_service_deduction' ? 'after_service_deduction' as const : 'upper_age_limit' as const,
+        note: relaxation.note || undefined,
+      })),
       relaxationNote: item.relaxationNote || undefined,
     })),
     feeRules: post.feeRules.map((item) => ({
@@ -407,6 +446,8 @@ function toPostRecord(post: PostWithRelations): PostRecord {
     expiresAt: post.expiresAt?.toISOString(),
     archivedAt: post.archivedAt?.toISOString(),
     publishedAt: post.publishedAt?.toISOString(),
+    scheduledPublishAt: post.scheduledPublishAt?.toISOString(),
+    scheduledUnpublishAt: post.scheduledUnpublishAt?.toISOString(),
     updatedAt: post.updatedAt.toISOString(),
     createdAt: post.createdAt.toISOString(),
     createdBy: post.createdBy || undefined,
@@ -418,9 +459,76 @@ function toPostRecord(post: PostWithRelations): PostRecord {
     freshness: freshnessSummary,
     searchMeta,
     readiness,
+    translations,
+    translationStatus: postTranslationStatus({
+      title: post.title,
+      summary: post.summary,
+      shortInfo: post.shortInfo || undefined,
+      body: post.body || undefined,
+      translations,
+    }),
   };
 }
 
+const LIFECYCLE_KEY_DATE: Record<ExamLifecycleStage, 'lastDate' | 'examDate' | 'resultDate'> = {
+  job: 'lastDate',
+  'admit-card': 'examDate',
+  'answer-key': 'examDate',
+  result: 'resultDate',
+};
+
+/**
+ * Timeline of an exam cycle: its published job, admit card, answer key and
+ * result posts. Expired posts stay on it; the current post is always listed.
+ */
+async function loadExamLifecycle(cycle: { id: string; name: string; slug: string }, currentId: string): Promise<ExamLifecycle> {
+  const rows = await prisma.post.findMany({
+    where: {
+      examCycleId: cycle.id,
+      type: { in: examLifecycleStageValues.map((type) => mapContentTypeToPrisma(type)) },
+      OR: [{ status: PrismaWorkflowStatus.PUBLISHED }, { id: currentId }],
+    },
+    select: { id: true, type: true, title: true, slug: true, publishedAt: true, lastDate: true, examDate: true, resultDate: true },
+    orderBy: { publishedAt: 'asc' },
+    take: 40,
+  });
+
+  const entries = rows
+    .map((item) => {
+      const type = mapPrismaTypeToContent(item.type) as ExamLifecycleStage;
+      return {
+        id: item.id,
+        type,
+        title: item.title,
+        slug: item.slug,
+        href: canonicalPath(type, item.slug),
+        publishedAt: item.publishedAt?.toISOString(),
+        keyDate: item[LIFECYCLE_KEY_DATE[type]] || undefined,
+        current: item.id === currentId,
+      };
+    })
+    .sort((a, b) => examLifecycleStageValues.indexOf(a.type) - examLifecycleStageValues.indexOf(b.type));
+
+  return { cycle: { id: cycle.id, name: cycle.name, slug: cycle.slug }, entries };
+}
+
+function buildTaxonomyWhere(type: TaxonomyType, slug: string): Prisma.PostWhereInput {
+  switch (type) {
+    case 'states':
+      return { postStates: { some: { state: { slug } } } };
+    case 'organizations':
+      return { organization: { slug } };
+    case 'categories':
+      return { postCategories: { some: { category: { slug } } } };
+    case 'qualifications':
+      return { postQualifications: { some: { qualification: { slug } } } };
+    case 'institutions':
+      return { institution: { slug } };
+    case 'exams':
+      return { exam: { slug } };
+  }
+}
+
 function buildPublicWhere(filters?: {
   type?: PostType;
   search?: string;
@@ -512,7 +620,7 @@ function buildPublicWhere(filters?: {
   return where;
 }
 
-function buildSort(sort?: 'newest' | 'oldest' | 'updated' | 'published' | 'closing'): Prisma.PostOrderByWithRelationInput[] {
+function buildSort(sort?: 'newest' | 'oldest' | 'updated' | 'published' | 'closing' | 'relevance'): Prisma.PostOrderByWithRelationInput[] {
   if (sort === 'oldest') return [{ createdAt: 'asc' }, { id: 'asc' }];
   if (sort === 'updated') return [{ updatedAt: 'desc' }, { id: 'desc' }];
   if (sort === 'published') return [{ publishedAt: 'desc' }, { id: 'desc' }];
@@ -926,6 +1034,25 @@ async function upsertExam(tx: Prisma.TransactionClient, ref?: TaxonomyRef | null
   return row;
 }
 
+// A cycle keeps the exam it was first linked to unless a post names another one.
+async function upsertExamCycle(tx: Prisma.TransactionClient, ref?: TaxonomyRef | null, examId?: string | null) {
+  const normalized = normalizeRef(ref);
+  if (!normalized) return null;
+  const row = await tx.examCycle.upsert({
+    where: { slug: normalized.slug },
+    update: {
+      name: normalized.name,
+      ...(examId ? { examId } : {}),
+    },
+    create: {
+      name: normalized.name,
+      slug: normalized.slug,
+      examId: examId || null,
+    },
+  });
+  return row;
+}
+
 async function upsertProgram(
   tx: Prisma.TransactionClient,
   programInput: PostInput['admissionPrograms'][number] | undefined,
@@ -1056,6 +1183,177 @@ export class PostModelPostgres {
     return row ? toPostRecord(row) : null;
   }
 
+  static async listEligibilityCandidates(filters?: { type?: PostType; limit?: number }): Promise<PostRecord[]> {
+    const rows = await prisma.post.findMany({
+      where: buildPublicWhere({ type: filters?.type }),
+      include: postInclude,
+      orderBy: buildSort('published'),
+      take: Math.min(Math.max(filters?.limit ?? 100, 1), MAX_PUBLIC_LIST_LIMIT),
+    });
+    return rows.map((row) => toPostRecord(row));
+  }
+
+  /** Live published posts that carry a last date; callers parse `lastDate` themselves. */
+  static async listUpcomingDeadlines(limit = 500): Promise<PostRecord[]> {
+    const rows = await prisma.post.findMany({
+      where: { AND: [buildPublicWhere(), { lastDate: { not: null } }] },
+      include: postInclude,
+      orderBy: [{ expiresAt: 'asc' }, { id: 'asc' }],
+      take: Math.min(Math.max(limit, 1), 1000),
+    });
+    return rows.map((row) => toPostRecord(row));
+  }
+
+  static async findByIds(ids: string[]): Promise<PostRecord[]> {
+    if (ids.length === 0) return [];
+    const rows = await prisma.post.findMany({
+      where: { id: { in: ids } },
+      include: postInclude,
+    });
+    return rows.map((row) => toPostRecord(row));
+  }
+
+  /** Posts whose current or legacy slug is one of `slugs`, in any status. */
+  static async findBySlugs(slugs: string[]): Promise<Array<{
+    id: string;
+    title: string;
+    slug: string;
+    type: PostType;
+    status: PostWorkflowStatus;
+    legacySlugs: string[];
+  }>> {
+    if (slugs.length === 0) return [];
+    const rows = await prisma.post.findMany({
+      where: { OR: [{ slug: { in: slugs } }, { legacySlugs: { hasSome: slugs } }] },
+      select: { id: true, title: true, slug: true, type: true, status: true, legacySlugs: true },
+    });
+    return rows.map((row) => ({
+      ...row,
+      type: mapPrismaTypeToContent(row.type),
+      status: mapWorkflowStatus(row.status),
+    }));
+  }
+
+  /** Primary official source of each live post, ordered the same way `deriveTrust` picks it. */
+  static async listPrimarySources(limit = 1000): Promise<Array<{ postId: string; url: string }>> {
+    const rows = await prisma.post.findMany({
+      where: { AND: [buildPublicWhere(), { officialSources: { some: {} } }] },
+      select: {
+        id: true,
+        officialSources: {
+          select: { url: true },
+          orderBy: [{ isPrimary: 'desc' }, { position: 'asc' }],
+          take: 1,
+        },
+      },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      take: Math.min(Math.max(limit, 1), 5000),
+    });
+    return rows.flatMap((row) => (row.officialSources[0] ? [{ postId: row.id, url: row.officialSources[0].url }] : []));
+  }
+
+  /**
+   * Posts of the same type that share an organization, exam, official source
+   * or title term with the subject; the duplicate detector scores them.
+   */
+  static async listDuplicateCandidates(subject: {
+    excludeId?: string;
+    type: PostType;
+    organizationSlug?: string;
+    examSlug?: string;
+    sourceUrls: string[];
+    terms: string[];
+  }, limit = 100): Promise<PostRecord[]> {
+    const or: Prisma.PostWhereInput[] = [
+      ...(subject.organizationSlug ? [{ organization: { slug: subject.organizationSlug } }] : []),
+      ...(subject.examSlug ? [{ exam: { slug: subject.examSlug } }] : []),
+      ...(subject.sourceUrls.length > 0 ? [{ officialSources: { some: { url: { in: subject.sourceUrls } } } }] : []),
+      ...subject.terms.map((term) => ({ title: { contains: term, mode: 'insensitive' as const } })),
+    ];
+    if (or.length === 0) return [];
+    const rows = await prisma.post.findMany({
+      where: {
+        type: mapContentTypeToPrisma(subject.type),
+        status: { not: PrismaWorkflowStatus.ARCHIVED },
+        ...(subject.excludeId ? { id: { not: subject.excludeId } } : {}),
+        OR: or,
+      },
+      include: postInclude,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      take: Math.min(Math.max(limit, 1), 500),
+    });
+    return rows.map((row) => toPostRecord(row));
+  }
+
+  /** Exam cycles for the editor's picker, most recently touched first. */
+  static async listExamCycles(filters?: { search?: string; limit?: number }): Promise<ExamCycleSummary[]> {
+    const search = filters?.search?.trim();
+    const rows = await prisma.examCycle.findMany({
+      where: search
+        ? { OR: [{ name: { contains: search, mode: 'insensitive' } }, { slug: { contains: slugify(search) } }] }
+        : undefined,
+      include: { exam: true, _count: { select: { posts: true } } },
+      orderBy: { updatedAt: 'desc' },
+      take: Math.min(Math.max(filters?.limit ?? 20, 1), 100),
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      exam: toTaxonomyRef(row.exam),
+      postCount: row._count.posts,
+      updatedAt: row.updatedAt.toISOString(),
+    }));
+  }
+
+  /** Job posts of an exam cycle, with every slug readers may have tracked them under. */
+  static async listExamCycleJobs(cycleSlug: string): Promise<Array<{ id: string; slug: string; slugs: string[] }>> {
+    const rows = await prisma.post.findMany({
+      where: { examCycle: { slug: cycleSlug }, type: PrismaPostType.JOB },
+      select: { id: true, slug: true, legacySlugs: true, slugAliases: { select: { slug: true } } },
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      slug: row.slug,
+      slugs: Array.from(new Set([row.slug, ...row.legacySlugs, ...row.slugAliases.map((item) => item.slug)])),
+    }));
+  }
+
+  /**
+   * Posts feeding an iCalendar feed: live posts of a taxonomy, or specific posts
+   * by id. Recently archived posts are included so feeds can cancel their events.
+   */
+  static async listCalendarPosts(filters: {
+    ids?: string[];
+    taxonomy?: { type: TaxonomyType; slug: string };
+    type?: PostType;
+    archivedSince?: Date;
+  }, limit = 500): Promise<PostRecord[]> {
+    const andClauses: Prisma.PostWhereInput[] = [];
+    if (filters.ids) {
+      if (filters.ids.length === 0) return [];
+      andClauses.push({ id: { in: filters.ids } });
+    }
+    if (filters.taxonomy) {
+      andClauses.push(buildTaxonomyWhere(filters.taxonomy.type, slugify(filters.taxonomy.slug)));
+    }
+    if (filters.type) {
+      andClauses.push({ type: mapContentTypeToPrisma(filters.type) });
+    }
+    andClauses.push({ OR: [
+      { status: PrismaWorkflowStatus.PUBLISHED },
+      { status: PrismaWorkflowStatus.ARCHIVED, archivedAt: { gte: filters.archivedSince ?? new Date(0) } },
+    ] });
+
+    const rows = await prisma.post.findMany({
+      where: { AND: andClauses },
+      include: postInclude,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      take: Math.min(Math.max(limit, 1), 1000),
+    });
+    return rows.map((row) => toPostRecord(row));
+  }
+
   static async findPublicCards(filters?: {
     type?: PostType;
     search?: string;
@@ -1064,14 +1362,22 @@ export class PostModelPostgres {
     organization?: string;
     qualification?: string;
     status?: 'active' | 'expired' | 'archived' | 'all';
-    sort?: 'newest' | 'oldest' | 'updated' | 'closing';
+    sort?: 'newest' | 'oldest' | 'updated' | 'closing' | 'relevance';
     limit?: number;
     offset?: number;
+    searchAdapter?: ContentSearchAdapter;
   }) {
-    const where = buildPublicWhere(filters);
     const take = Math.min(Math.max(filters?.limit ?? 20, 1), MAX_PUBLIC_LIST_LIMIT);
     const skip = Math.max(filters?.offset ?? 0, 0);
 
+    const adapter = filters?.searchAdapter;
+    const rankedSearch = filters?.search?.trim().slice(0, SEARCH_MAX_QUERY_LENGTH);
+    if (adapter?.supportsAdvancedRanking && adapter.rank && rankedSearch && (!filters?.sort || filters.sort === 'relevance')) {
+      return this.findRankedPublicCards(adapter, rankedSearch, { ...filters, search: undefined }, take, skip);
+    }
+
+    const where = buildPublicWhere(filters);
+
     const [rows, total] = await Promise.all([
       prisma.post.findMany({
         where,
@@ -1091,6 +1397,57 @@ export class PostModelPostgres {
     };
   }
 
+  private static async findRankedPublicCards(
+    adapter: ContentSearchAdapter,
+    search: string,
+    filters: Parameters<typeof buildPublicWhere>[0],
+    take: number,
+    skip: number,
+  ) {
+    // Visibility, type and taxonomy filters run inside the ranked query so
+    // paging and the total count only cover posts the public list would show.
+    const { hits, total } = await adapter.rank!(search, {
+      filters: {
+        type: filters?.type,
+        status: filters?.status,
+        organization: filters?.organization ? slugify(filters.organization) : undefined,
+        category: filters?.category ? slugify(filters.category) : undefined,
+        state: filters?.state ? slugify(filters.state) : undefined,
+        qualification: filters?.qualification ? slugify(filters.qualification) : undefined,
+      },
+      limit: take,
+      offset: skip,
+    });
+
+    const rows = hits.length > 0
+      ? await prisma.post.findMany({
+        where: { id: { in: hits.map((hit) => hit.id) } },
+        include: postCardInclude,
+      })
+      : [];
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+    const cards = hits.flatMap((hit) => {
+      const row = rowsById.get(hit.id);
+      if (!row) return [];
+      return [{
+        ...toPublicCard(row),
+        search: {
+          score: hit.score,
+          matchedFields: hit.matchedFields,
+          highlights: hit.highlights,
+        },
+      }];
+    });
+
+    return {
+      data: cards,
+      total,
+      count: cards.length,
+      searchAdapter: adapter.name,
+    };
+  }
+
   static async findAdmin(filters?: {
     type?: PostType;
     status?: PostWorkflowStatus | 'all';
@@ -1143,6 +1500,7 @@ export class PostModelPostgres {
 
     const card = toPublicCard(row);
     const postType = mapPrismaTypeToContent(row.type);
+    const lifecycle = row.examCycle ? await loadExamLifecycle(row.examCycle, row.id) : undefined;
     const relatedRows = await prisma.post.findMany({
       where: {
         ...buildPublicWhere({
@@ -1174,6 +1532,7 @@ export class PostModelPostgres {
         : row.expiresAt && row.expiresAt.getTime() <= Date.now()
           ? 'expired'
           : 'active',
+      ...(lifecycle ? { lifecycle } : {}),
     };
   }
 
@@ -1264,33 +1623,8 @@ export class PostModelPostgres {
     });
     if (!existing) return null;
 
-    const existingRecord = toPostRecord(existing);
-    const mergedOfficialSources =
-      input.officialSources
-      ?? input.trust?.officialSources
-      ?? existingRecord.officialSources
-      ?? [];
-
-    const merged = {
-      ...existingRecord,
-      ...input,
-      id,
-      status: input.status || existingRecord.status,
-      trust: {
-        verificationNote: input.trust?.verificationNote ?? existingRecord.trust?.verificationNote,
-        sourceNote: input.trust?.sourceNote ?? existingRecord.trust?.sourceNote,
-        correctionNote: input.trust?.correctionNote ?? existingRecord.trust?.correctionNote,
-        updatedLabel: input.trust?.updatedLabel ?? existingRecord.trust?.updatedLabel,
-        officialSources: mergedOfficialSources,
-      },
-      officialSources: mergedOfficialSources,
-      seo: input.seo ?? existingRecord.seo ?? {},
-      flags: input.flags ?? existingRecord.flags ?? {},
-      home: input.home ?? existingRecord.home ?? {},
-    } as unknown as PostInput;
-
     return this.persistPost({
-      input: merged,
+      input: this.mergeWithRecord(toPostRecord(existing), input),
       actorId,
       actorRole,
       note,
@@ -1341,6 +1675,8 @@ export class PostModelPostgres {
           publishedAt: action === 'publish' ? now : undefined,
           publishedBy: action === 'publish' ? actorId || null : undefined,
           archivedAt: action === 'archive' ? now : action === 'restore' || action === 'publish' ? null : undefined,
+          scheduledPublishAt: action === 'publish' || action === 'archive' ? null : undefined,
+          scheduledUnpublishAt: ['unpublish', 'archive', 'restore'].includes(action) ? null : undefined,
           currentVersion: { increment: 1 },
         },
         include: postInclude,
@@ -1378,6 +1714,247 @@ export class PostModelPostgres {
     });
   }
 
+  /**
+   * Folds a duplicate into the post that stays: the duplicate is archived under
+   * a retired slug, and its slugs and official sources move to the kept post so
+   * old links keep resolving.
+   */
+  static async mergeDuplicate(
+    keepId: string,
+    duplicateId: string,
+    actorId?: string,
+    actorRole?: string,
+    note?: string,
+  ): Promise<{ post: PostRecord; merged: PostRecord } | null> {
+    if (keepId === duplicateId) throw new Error('A post cannot be merged into itself');
+
+    return prisma.$transaction(async (tx) => {
+      const [keep, duplicate] = await Promise.all([
+        tx.post.findUnique({ where: { id: keepId }, include: postInclude }),
+        tx.post.findUnique({ where: { id: duplicateId }, include: postInclude }),
+      ]);
+      if (!keep || !duplicate) return null;
+      if (keep.status === PrismaWorkflowStatus.ARCHIVED) {
+        throw new Error('Restore the post before merging a duplicate into it');
+      }
+      if (duplicate.status === PrismaWorkflowStatus.PUBLISHED && keep.status !== PrismaWorkflowStatus.PUBLISHED) {
+        throw new Error('The duplicate is live; merge this post into it instead');
+      }
+
+      const keepRecord = toPostRecord(keep);
+      const duplicateRecord = toPostRecord(duplicate);
+      const now = new Date();
+      const retiredSlug = await ensureUniqueSlug(tx, `${duplicate.slug}-merged`, duplicate.id);
+
+      await tx.slugAlias.deleteMany({ where: { postId: duplicate.id } });
+      const retired = await tx.post.update({
+        where: { id: duplicate.id },
+        data: {
+          slug: retiredSlug,
+          legacySlugs: [],
+          status: PrismaWorkflowStatus.ARCHIVED,
+          archivedAt: now,
+          scheduledPublishAt: null,
+          scheduledUnpublishAt: null,
+          updatedAt: now,
+          updatedBy: actorId || null,
+          currentVersion: { increment: 1 },
+        },
+        include: postInclude,
+      });
+      const merged = toPostRecord(retired);
+      await tx.postVersion.create({
+        data: {
+          postId: merged.id,
+          version: merged.currentVersion,
+          note: note || null,
+          reason: 'merge',
+          actorId: actorId || null,
+          snapshot: toJsonValue(merged),
+        },
+      });
+      await tx.auditLog.create({
+        data: {
+          entityType: 'post',
+          entityId: merged.id,
+          postId: merged.id,
+          action: 'merge',
+          actorId: actorId || null,
+          actorRole: actorRole || null,
+          summary: `Merged ${merged.type} "${merged.title}" into "${keepRecord.title}"`,
+          metadata: toJsonValue({ mergedInto: keepRecord.id, previousSlug: duplicate.slug, note }),
+        },
+      });
+
+      const knownUrls = new Set(keepRecord.officialSources.map((item) => item.url.trim()));
+      const officialSources = [
+        ...keepRecord.officialSources,
+        ...duplicateRecord.officialSources
+          .filter((item) => !knownUrls.has(item.url.trim()))
+          .map((item) => ({ ...item, isPrimary: false })),
+      ];
+      const post = await this.persistPost({
+        input: this.mergeWithRecord(keepRecord, {
+          legacySlugs: [...keepRecord.legacySlugs, duplicate.slug, ...duplicateRecord.legacySlugs],
+          officialSources,
+          examCycle: keepRecord.examCycle ?? duplicateRecord.examCycle,
+        }),
+        actorId,
+        actorRole,
+        note: note || `Merged duplicate "${duplicateRecord.title}" (${duplicate.slug})`,
+        reason: 'update',
+        existing: keep,
+        tx,
+      });
+
+      return { post, merged };
+    }, {
+      maxWait: 20_000,
+      timeout: 120_000,
+    });
+  }
+
+  /**
+   * Set or clear when a post goes live / comes down. `null` clears a slot,
+   * `undefined` leaves it as is. Publishing can only be scheduled for approved
+   * posts; unpublishing needs the post to be live (or scheduled to go live).
+   */
+  static async setSchedule(
+    id: string,
+    schedule: { publishAt?: Date | null; unpublishAt?: Date | null },
+    actorId?: string,
+    actorRole?: string,
+    note?: string,
+  ): Promise<PostRecord | null> {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.post.findUnique({
+        where: { id },
+        select: { id: true, title: true, type: true, status: true, scheduledPublishAt: true, scheduledUnpublishAt: true },
+      });
+      if (!existing) return null;
+
+      const now = new Date();
+      const status = mapWorkflowStatus(existing.status);
+      const publishAt = schedule.publishAt === undefined ? existing.scheduledPublishAt : schedule.publishAt;
+      const unpublishAt = schedule.unpublishAt === undefined ? existing.scheduledUnpublishAt : schedule.unpublishAt;
+
+      if (schedule.publishAt) {
+        if (status !== 'approved') throw new Error('Only approved content can be scheduled for publishing');
+        if (schedule.publishAt <= now) throw new Error('Scheduled publish time must be in the future');
+      }
+      if (schedule.unpublishAt) {
+        if (status !== 'published' && !publishAt) throw new Error('Only published or scheduled content can be scheduled for unpublishing');
+        if (schedule.unpublishAt <= now) throw new Error('Scheduled unpublish time must be in the future');
+      }
+      if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+        throw new Error('Scheduled unpublish time must be after the publish time');
+      }
+
+      await tx.post.update({
+        where: { id },
+        data: {
+          scheduledPublishAt: publishAt,
+          scheduledUnpublishAt: unpublishAt,
+          updatedBy: actorId || null,
+        },
+      });
+
+      const cleared = !publishAt && !unpublishAt;
+      await tx.auditLog.create({
+        data: {
+          entityType: 'workflow',
+          entityId: id,
+          postId: id,
+          action: cleared ? 'schedule_cleared' : 'schedule_set',
+          actorId: actorId || null,
+          actorRole: actorRole || null,
+          summary: cleared
+            ? `cleared schedule for ${mapPrismaTypeToContent(existing.type)} "${existing.title}"`
+            : `scheduled ${mapPrismaTypeToContent(existing.type)} "${existing.title}"`,
+          metadata: toJsonValue({
+            publishAt: publishAt?.toISOString() ?? null,
+            unpublishAt: unpublishAt?.toISOString() ?? null,
+            previousPublishAt: existing.scheduledPublishAt?.toISOString() ?? null,
+            previousUnpublishAt: existing.scheduledUnpublishAt?.toISOString() ?? null,
+            note,
+          }),
+        },
+      });
+
+      const updated = await tx.post.findUnique({ where: { id }, include: postInclude });
+      return updated ? toPostRecord(updated) : null;
+    });
+  }
+
+  static async listScheduled(filters?: { from?: Date; to?: Date; limit?: number }): Promise<ScheduledPostItem[]> {
+    const range = {
+      ...(filters?.from ? { gte: filters.from } : {}),
+      ...(filters?.to ? { lte: filters.to } : {}),
+    };
+    const rows = await prisma.post.findMany({
+      where: {
+        OR: [
+          { scheduledPublishAt: { not: null, ...range } },
+          { scheduledUnpublishAt: { not: null, ...range } },
+        ],
+      },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        type: true,
+        status: true,
+        scheduledPublishAt: true,
+        scheduledUnpublishAt: true,
+      },
+      orderBy: [{ scheduledPublishAt: 'asc' }, { scheduledUnpublishAt: 'asc' }],
+      take: Math.min(Math.max(filters?.limit ?? 200, 1), 500),
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      slug: row.slug,
+      type: mapPrismaTypeToContent(row.type),
+      status: mapWorkflowStatus(row.status),
+      scheduledPublishAt: row.scheduledPublishAt?.toISOString(),
+      scheduledUnpublishAt: row.scheduledUnpublishAt?.toISOString(),
+    }));
+  }
+
+  /**
+   * Claim schedule slots that are due. Each slot is cleared with a
+   * compare-and-set on its timestamp, so concurrent workers never claim the
+   * same one and a claimed transition is attempted exactly once.
+   */
+  static async claimDueSchedules(
+    kind: 'publish' | 'unpublish',
+    now = new Date(),
+    limit = 50,
+  ): Promise<Array<{ id: string; scheduledAt: Date }>> {
+    const field = kind === 'publish' ? 'scheduledPublishAt' : 'scheduledUnpublishAt';
+    const due = await prisma.post.findMany({
+      where: { [field]: { lte: now } },
+      select: { id: true, scheduledPublishAt: true, scheduledUnpublishAt: true },
+      orderBy: { [field]: 'asc' },
+      take: limit,
+    });
+
+    const claimed: Array<{ id: string; scheduledAt: Date }> = [];
+    for (const row of due) {
+      const scheduledAt = row[field];
+      if (!scheduledAt) continue;
+      const result = await prisma.post.updateMany({
+        where: { id: row.id, [field]: scheduledAt },
+        data: { [field]: null },
+      });
+      if (result.count === 1) {
+        claimed.push({ id: row.id, scheduledAt });
+      }
+    }
+    return claimed;
+  }
+
   static async getHistory(id: string): Promise<{ versions: PostVersionRecord[]; audit: AuditLogRecord[] }> {
     const [versions, audit] = await Promise.all([
       prisma.postVersion.findMany({
@@ -1464,6 +2041,62 @@ export class PostModelPostgres {
     });
   }
 
+  private static async findVersionSnapshot(id: string, version: number): Promise<PostRecord | null> {
+    const versionRow = await prisma.postVersion.findFirst({
+      where: { postId: id, version },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!versionRow) return null;
+    if (!versionRow.snapshot || typeof versionRow.snapshot !== 'object' || Array.isArray(versionRow.snapshot)) {
+      throw new Error('Selected snapshot payload is invalid');
+    }
+    return versionRow.snapshot as unknown as PostRecord;
+  }
+
+  static async getVersionDiff(id: string, fromVersion: number, toVersion?: number): Promise<PostVersionDiff | null> {
+    const [before, after] = await Promise.all([
+      this.findVersionSnapshot(id, fromVersion),
+      toVersion === undefined ? this.findById(id) : this.findVersionSnapshot(id, toVersion),
+    ]);
+    if (!before || !after) return null;
+
+    return {
+      postId: id,
+      fromVersion,
+      toVersion: toVersion ?? 'current',
+      changes: diffPostSnapshots(before, after),
+    };
+  }
+
+  static async revertFields(
+    id: string,
+    version: number,
+    selection: PostRevertSelection,
+    actorId?: string,
+    actorRole?: string,
+    note?: string,
+  ): Promise<PostRecord | null> {
+    const [current, snapshot] = await Promise.all([
+      this.findById(id),
+      this.findVersionSnapshot(id, version),
+    ]);
+    if (!current || !snapshot) return null;
+
+    const patch = buildSelectiveRevert(current, snapshot, selection);
+    const reverted = Object.keys(patch);
+    if (reverted.length === 0) {
+      throw new Error('Select at least one field or row to revert');
+    }
+
+    return this.update(
+      id,
+      patch as Partial<PostInput>,
+      actorId,
+      actorRole,
+      note?.trim() || `Reverted ${reverted.join(', ')} to version ${version}`,
+    );
+  }
+
   static async getAlertMatchPreview(id: string): Promise<AlertMatchPreview | null> {
     const post = await this.findById(id);
     if (!post) return null;
@@ -1811,6 +2444,33 @@ export class PostModelPostgres {
     };
   }
 
+  /** Applies a partial edit on top of the stored record, the way `update` saves it. */
+  private static mergeWithRecord(existingRecord: PostRecord, input: Partial<PostInput>): PostInput {
+    const mergedOfficialSources =
+      input.officialSources
+      ?? input.trust?.officialSources
+      ?? existingRecord.officialSources
+      ?? [];
+
+    return {
+      ...existingRecord,
+      ...input,
+      id: existingRecord.id,
+      status: input.status || existingRecord.status,
+      trust: {
+        verificationNote: input.trust?.verificationNote ?? existingRecord.trust?.verificationNote,
+        sourceNote: input.trust?.sourceNote ?? existingRecord.trust?.sourceNote,
+        correctionNote: input.trust?.correctionNote ?? existingRecord.trust?.correctionNote,
+        updatedLabel: input.trust?.updatedLabel ?? existingRecord.trust?.updatedLabel,
+        officialSources: mergedOfficialSources,
+      },
+      officialSources: mergedOfficialSources,
+      seo: input.seo ?? existingRecord.seo ?? {},
+      flags: input.flags ?? existingRecord.flags ?? {},
+      home: input.home ?? existingRecord.home ?? {},
+    } as unknown as PostInput;
+  }
+
   private static async persistPost(params: {
     input: PostInput;
     actorId?: string;
@@ -1819,10 +2479,12 @@ export class PostModelPostgres {
     reason: 'create' | 'update';
     existing?: PostWithRelations | null;
     forcedId?: string;
+    /** Runs inside the caller's transaction instead of opening one. */
+    tx?: Prisma.TransactionClient;
   }): Promise<PostRecord> {
     const { input, actorId, actorRole, note, reason, existing, forcedId } = params;
 
-    return prisma.$transaction(async (tx) => {
+    const persist = async (tx: Prisma.TransactionClient) => {
       const normalizedOrganization = normalizeRef(input.organization);
       const normalizedInstitution = normalizeRef(input.institution);
       const normalizedExam = normalizeRef(input.exam);
@@ -1833,6 +2495,7 @@ export class PostModelPostgres {
       const organization = await upsertOrganization(tx, normalizedOrganization);
       const institution = await upsertCollege(tx, normalizedInstitution);
       const exam = await upsertExam(tx, normalizedExam, organization?.id);
+      const examCycle = await upsertExamCycle(tx, input.examCycle, exam?.id);
       const programInput = input.admissionPrograms?.[0];
       const program = await upsertProgram(tx, programInput, institution?.id);
       const categories = await upsertCategories(tx, normalizedCategories);
@@ -1882,6 +2545,16 @@ export class PostModelPostgres {
         resultDate: input.resultDate || null,
       });
       const defaultUpdatedLabel = formatEditorialDate(now);
+      const translations = preparePostTranslations(
+        input.translations,
+        (existing?.translations as PostTranslations | null) || undefined,
+        {
+          title: input.title.trim(),
+          summary: input.summary.trim(),
+          shortInfo: input.shortInfo?.trim() || undefined,
+          body: input.body?.trim() || undefined,
+        },
+      );
 
       const baseData = {
         legacyAnnouncementId: input.legacyAnnouncementId || null,
@@ -1897,6 +2570,7 @@ export class PostModelPostgres {
         organizationId: organization?.id || null,
         institutionId: institution?.id || null,
         examId: exam?.id || null,
+        examCycleId: examCycle?.id || null,
         programId: program?.id || null,
         location: input.location?.trim() || null,
         salary: input.salary?.trim() || null,
@@ -1920,6 +2594,7 @@ export class PostModelPostgres {
           hasContentJson && input.contentJson !== undefined
             ? toJsonValue(input.contentJson)
             : null,
+        translations: translations ? toJsonValue(translations) : null,
         tag: mapTagToPrisma(input.tag),
         isUrgent: Boolean(input.flags?.urgent),
         isNew: Boolean(input.flags?.isNew),
@@ -2064,18 +2739,30 @@ export class PostModelPostgres {
         if (found) qualificationBySlug.set(normalized, found.id);
       }
 
-      if ((input.eligibility || []).length > 0) {
-        await tx.eligibilityRule.createMany({
-          data: (input.eligibility || []).map((item, index) => ({
+      // Rules are created one at a time so their age relaxation rows can be nested.
+      for (const [index, item] of (input.eligibility || []).entries()) {
+        await tx.eligibilityRule.create({
+          data: {
             postId,
             qualificationId: item.qualificationSlug ? qualificationBySlug.get(slugify(item.qualificationSlug)) || null : null,
             label: item.label.trim(),
             description: item.description.trim(),
             minAge: item.minAge ?? null,
             maxAge: item.maxAge ?? null,
+            ageCutoffDate: maybeDate(item.ageCutoffDate),
             relaxationNote: item.relaxationNote?.trim() || null,
             position: index,
-          })),
+            ageRelaxations: {
+              create: (item.ageRelaxations || []).map((relaxation, relaxationIndex) => ({
+                category: relaxation.category,
+                label: relaxation.label?.trim() || null,
+                years: relaxation.years,
+                appliesFrom: relaxation.appliesFrom,
+                note: relaxation.note?.trim() || null,
+                position: relaxationIndex,
+              })),
+            },
+          },
         });
       }
 
@@ -2157,7 +2844,9 @@ export class PostModelPostgres {
       });
 
       return record;
-    });
+    };
+
+    return params.tx ? persist(params.tx) : prisma.$transaction(persist);
   }
 
   private static resolveNextStatus(
@@ -1,5 +1,6 @@
 import { randomUUID } from 'crypto';
 
+import type { CandidateGender, ReservationCategory } from '../services/eligibilityMatcher.js';
 import { prismaApp } from '../services/postgres/prisma.js';
 import type { ContentType, TrackerStatus } from '../types.js';
 
@@ -13,6 +14,13 @@ export interface UserProfileRecord {
   ageGroup: string | null;
   educationLevel: string | null;
   experienceYears: number;
+  dateOfBirth: string | null;
+  reservationCategory: ReservationCategory | null;
+  gender: CandidateGender | null;
+  domicileState: string | null;
+  isPwbd: boolean;
+  isExServiceman: boolean;
+  militaryServiceYears: number;
   emailNotifications: boolean;
   pushNotifications: boolean;
   notificationFrequency: 'instant' | 'daily' | 'weekly';
@@ -84,6 +92,13 @@ type ProfileRow = {
   ageGroup: string | null;
   educationLevel: string | null;
   experienceYears: number;
+  dateOfBirth: Date | null;
+  reservationCategory: string | null;
+  gender: string | null;
+  domicileState: string | null;
+  isPwbd: boolean;
+  isExServiceman: boolean;
+  militaryServiceYears: number;
   emailNotifications: boolean;
   pushNotifications: boolean;
   notificationFrequency: string;
@@ -141,6 +156,16 @@ function asFrequency(value: string): 'instant' | 'daily' | 'weekly' {
   return value === 'instant' || value === 'weekly' ? value : 'daily';
 }
 
+function asReservationCategory(value: string | null): ReservationCategory | null {
+  if (value === 'general' || value === 'ews' || value === 'obc' || value === 'sc' || value === 'st') return value;
+  return null;
+}
+
+function asGender(value: string | null): CandidateGender | null {
+  if (value === 'male' || value === 'female' || value === 'other') return value;
+  return null;
+}
+
 function asContentType(value: string): ContentType {
   if (value === 'result' || value === 'admit-card' || value === 'syllabus' || value === 'answer-key' || value === 'admission') {
     return value;
@@ -180,6 +205,13 @@ function toProfileRecord(row: ProfileRow): UserProfileRecord {
     ageGroup: row.ageGroup,
     educationLevel: row.educationLevel,
     experienceYears: row.experienceYears,
+    dateOfBirth: row.dateOfBirth ? row.dateOfBirth.toISOString().slice(0, 10) : null,
+    reservationCategory: asReservationCategory(row.reservationCategory),
+    gender: asGender(row.gender),
+    domicileState: row.domicileState,
+    isPwbd: row.isPwbd,
+    isExServiceman: row.isExServiceman,
+    militaryServiceYears: row.militaryServiceYears,
     emailNotifications: row.emailNotifications,
     pushNotifications: row.pushNotifications,
     notificationFrequency: asFrequency(row.notificationFrequency),
@@ -298,6 +330,13 @@ export class ProfileModelPostgres {
     if (patch.ageGroup !== undefined) data.ageGroup = patch.ageGroup;
     if (patch.educationLevel !== undefined) data.educationLevel = patch.educationLevel;
     if (patch.experienceYears !== undefined) data.experienceYears = patch.experienceYears;
+    if (patch.dateOfBirth !== undefined) data.dateOfBirth = patch.dateOfBirth ? new Date(`${patch.dateOfBirth}T00:00:00.000Z`) : null;
+    if (patch.reservationCategory !== undefined) data.reservationCategory = patch.reservationCategory;
+    if (patch.gender !== undefined) data.gender = patch.gender;
+    if (patch.domicileState !== undefined) data.domicileState = patch.domicileState;
+    if (patch.isPwbd !== undefined) data.isPwbd = patch.isPwbd;
+    if (patch.isExServiceman !== undefined) data.isExServiceman = patch.isExServiceman;
+    if (patch.militaryServiceYears !== undefined) data.militaryServiceYears = patch.militaryServiceYears;
     if (patch.emailNotifications !== undefined) data.emailNotifications = patch.emailNotifications;
     if (patch.pushNotifications !== undefined) data.pushNotifications = patch.pushNotifications;
     if (patch.notificationFrequency !== undefined) data.notificationFrequency = patch.notificationFrequency;
@@ -540,6 +579,23 @@ export class ProfileModelPostgres {
     return rows.map((row) => toTrackedRecord(row));
   }
 
+  /** Tracked applications for any of the given posts, matched by id or slug. */
+  static async listTrackedApplicationsForPosts(args: {
+    announcementIds: string[];
+    slugs: string[];
+  }): Promise<TrackedApplicationRecord[]> {
+    if (!args.announcementIds.length && !args.slugs.length) return [];
+    const rows = await prismaApp.trackedApplicationEntry.findMany({
+      where: {
+        OR: [
+          { announcementId: { in: args.announcementIds } },
+          { slug: { in: args.slugs } },
+        ],
+      },
+    });
+    return rows.map((row) => toTrackedRecord(row));
+  }
+
   static async upsertTrackedApplicationBySlug(userId: string, payload: {
     announcementId?: string;
     slug: string;
@@ -8,10 +8,22 @@ interface PushSubscriptionRow {
   p256dh: string;
   auth: string;
   userId?: string | null;
+  instantAlerts?: boolean;
+  stateSlugs?: string[];
+  categorySlugs?: string[];
+  postTypes?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** Topics a push subscriber picked; an empty list matches every value. */
+export interface PushTopicPreferences {
+  instantAlerts: boolean;
+  stateSlugs: string[];
+  categorySlugs: string[];
+  postTypes: string[];
+}
+
 export interface PushSubscriptionRecord {
   id: string;
   endpoint: string;
@@ -20,6 +32,7 @@ export interface PushSubscriptionRecord {
     auth: string;
   };
   userId?: string;
+  topics: PushTopicPreferences;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,6 +46,12 @@ function toRecord(row: PushSubscriptionRow): PushSubscriptionRecord {
       auth: row.auth,
     },
     userId: row.userId || undefined,
+    topics: {
+      instantAlerts: row.instantAlerts ?? false,
+      stateSlugs: row.stateSlugs ?? [],
+      categorySlugs: row.categorySlugs ?? [],
+      postTypes: row.postTypes ?? [],
+    },
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
@@ -43,6 +62,7 @@ export class PushSubscriptionModelPostgres {
     endpoint: string;
     keys: { p256dh: string; auth: string };
     userId?: string;
+    topics?: PushTopicPreferences;
   }): Promise<PushSubscriptionRecord | null> {
     const row = await prismaApp.pushSubscriptionEntry.upsert({
       where: { endpoint: input.endpoint },
@@ -52,11 +72,13 @@ export class PushSubscriptionModelPostgres {
         p256dh: input.keys.p256dh,
         auth: input.keys.auth,
         userId: input.userId ?? null,
+        ...(input.topics ?? {}),
       },
       update: {
         p256dh: input.keys.p256dh,
         auth: input.keys.auth,
         userId: input.userId ?? null,
+        ...(input.topics ?? {}),
       },
     });
 
@@ -108,6 +130,41 @@ export class PushSubscriptionModelPostgres {
     return row ? toRecord(row) : null;
   }
 
+  static async updateTopics(endpoint: string, topics: PushTopicPreferences): Promise<PushSubscriptionRecord | null> {
+    const result = await prismaApp.pushSubscriptionEntry.updateMany({
+      where: { endpoint },
+      data: topics,
+    });
+    return result.count > 0 ? this.findByEndpoint(endpoint) : null;
+  }
+
+  /** Subscribers opted into instant pushes whose topics match the post. */
+  static async listForInstantAlert(post: {
+    type: string;
+    stateSlugs: string[];
+    categorySlugs: string[];
+  }): Promise<PushSubscriptionRecord[]> {
+    const matchAny = (field: 'stateSlugs' | 'categorySlugs', values: string[]) => ({
+      OR: [
+        { [field]: { isEmpty: true } },
+        ...(values.length > 0 ? [{ [field]: { hasSome: values } }] : []),
+      ],
+    });
+
+    const rows = await prismaApp.pushSubscriptionEntry.findMany({
+      where: {
+        instantAlerts: true,
+        AND: [
+          matchAny('stateSlugs', post.stateSlugs),
+          matchAny('categorySlugs', post.categorySlugs),
+          { OR: [{ postTypes: { isEmpty: true } }, { postTypes: { has: post.type } }] },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row: PushSubscriptionRow) => toRecord(row));
+  }
+
   static async deleteByEndpoint(endpoint: string): Promise<boolean> {
     const result = await prismaApp.pushSubscriptionEntry.deleteMany({
       where: { endpoint },
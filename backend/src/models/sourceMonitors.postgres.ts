@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+
+import type { Prisma } from '@prisma/client';
+
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export const sourceMonitorStatuses = ['pending', 'ok', 'changed', 'not_found', 'redirected', 'unreachable'] as const;
+export type SourceMonitorStatus = typeof sourceMonitorStatuses[number];
+
+export const sourceChangeKinds = [
+  'new_pdf_links',
+  'removed_pdf_links',
+  'dates_changed',
+  'content_changed',
+  'not_found',
+  'domain_redirect',
+  'unreachable',
+] as const;
+export type SourceChangeKind = typeof sourceChangeKinds[number];
+
+export const sourceChangeTaskStatuses = ['open', 'resolved', 'dismissed'] as const;
+export type SourceChangeTaskStatus = typeof sourceChangeTaskStatuses[number];
+
+/** What the monitor keeps from a fetched page to compare against the next fetch. */
+export interface SourceSnapshot {
+  title?: string;
+  pdfLinks: string[];
+  dates: string[];
+}
+
+export interface SourceCheckState {
+  contentHash?: string;
+  httpStatus?: number;
+  finalUrl?: string;
+  checkedAt?: string;
+}
+
+export interface SourceChangeDiff {
+  previous?: SourceCheckState;
+  current: SourceCheckState;
+  addedPdfLinks: string[];
+  removedPdfLinks: string[];
+  addedDates: string[];
+  removedDates: string[];
+  error?: string;
+}
+
+export interface SourceMonitorRecord {
+  postId: string;
+  url: string;
+  status: SourceMonitorStatus;
+  contentHash?: string;
+  httpStatus?: number;
+  finalUrl?: string;
+  snapshot?: SourceSnapshot;
+  lastError?: string;
+  consecutiveFailures: number;
+  checkedAt?: Date;
+  changedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SourceChangeTaskRecord {
+  id: string;
+  postId: string;
+  url: string;
+  kinds: SourceChangeKind[];
+  diff: SourceChangeDiff;
+  status: SourceChangeTaskStatus;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SourceMonitorRow {
+  postId: string;
+  url: string;
+  status: string;
+  contentHash: string | null;
+  httpStatus: number | null;
+  finalUrl: string | null;
+  snapshot: Prisma.JsonValue | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  checkedAt: Date | null;
+  changedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SourceChangeTaskRow {
+  id: string;
+  postId: string;
+  url: string;
+  kinds: string[];
+  diff: Prisma.JsonValue;
+  status: string;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+  resolutionNote: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toMonitorRecord(row: SourceMonitorRow): SourceMonitorRecord {
+  return {
+    postId: row.postId,
+    url: row.url,
+    status: (sourceMonitorStatuses as readonly string[]).includes(row.status) ? row.status as SourceMonitorStatus : 'pending',
+    contentHash: row.contentHash || undefined,
+    httpStatus: row.httpStatus ?? undefined,
+    finalUrl: row.finalUrl || undefined,
+    snapshot: row.snapshot && typeof row.snapshot === 'object' ? row.snapshot as unknown as SourceSnapshot : undefined,
+    lastError: row.lastError || undefined,
+    consecutiveFailures: row.consecutiveFailures,
+    checkedAt: row.checkedAt ?? undefined,
+    changedAt: row.changedAt ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toTaskRecord(row: SourceChangeTaskRow): SourceChangeTaskRecord {
+  return {
+    id: row.id,
+    postId: row.postId,
+    url: row.url,
+    kinds: row.kinds.filter((kind): kind is SourceChangeKind => (sourceChangeKinds as readonly string[]).includes(kind)),
+    diff: row.diff as unknown as SourceChangeDiff,
+    status: (sourceChangeTaskStatuses as readonly string[]).includes(row.status) ? row.status as SourceChangeTaskStatus : 'open',
+    resolvedBy: row.resolvedBy || undefined,
+    resolvedAt: row.resolvedAt ?? undefined,
+    resolutionNote: row.resolutionNote || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toJson(value: SourceSnapshot | SourceChangeDiff): Prisma.InputJsonValue {
+  return value as unknown as Prisma.InputJsonValue;
+}
+
+export class SourceMonitorModelPostgres {
+  static async findByPostId(postId: string): Promise<SourceMonitorRecord | null> {
+    const row = await prismaApp.sourceMonitorEntry.findUnique({ where: { postId } });
+    return row ? toMonitorRecord(row) : null;
+  }
+
+  static async listByPostIds(postIds: string[]): Promise<SourceMonitorRecord[]> {
+    if (postIds.length === 0) return [];
+    const rows = await prismaApp.sourceMonitorEntry.findMany({ where: { postId: { in: postIds } } });
+    return rows.map((row) => toMonitorRecord(row));
+  }
+
+  /** Stores the outcome of one check. Leaving `snapshot` out keeps the last good one. */
+  static async saveCheck(input: {
+    postId: string;
+    url: string;
+    status: SourceMonitorStatus;
+    contentHash?: string;
+    httpStatus?: number;
+    finalUrl?: string;
+    snapshot?: SourceSnapshot;
+    lastError?: string;
+    consecutiveFailures: number;
+    checkedAt: Date;
+    changedAt?: Date;
+  }): Promise<SourceMonitorRecord> {
+    const data = {
+      url: input.url,
+      status: input.status,
+      contentHash: input.contentHash ?? null,
+      httpStatus: input.httpStatus ?? null,
+      finalUrl: input.finalUrl ?? null,
+      ...(input.snapshot ? { snapshot: toJson(input.snapshot) } : {}),
+      lastError: input.lastError ?? null,
+      consecutiveFailures: input.consecutiveFailures,
+      checkedAt: input.checkedAt,
+      ...(input.changedAt ? { changedAt: input.changedAt } : {}),
+    };
+    const row = await prismaApp.sourceMonitorEntry.upsert({
+      where: { postId: input.postId },
+      create: { postId: input.postId, ...data },
+      update: data,
+    });
+    return toMonitorRecord(row);
+  }
+
+  static async findOpenTask(postId: string): Promise<SourceChangeTaskRecord | null> {
+    const row = await prismaApp.sourceChangeTaskEntry.findFirst({
+      where: { postId, status: 'open' },
+      orderBy: { createdAt: 'desc' },
+    });
+    return row ? toTaskRecord(row) : null;
+  }
+
+  static async createTask(input: {
+    postId: string;
+    url: string;
+    kinds: SourceChangeKind[];
+    diff: SourceChangeDiff;
+  }): Promise<SourceChangeTaskRecord> {
+    const row = await prismaApp.sourceChangeTaskEntry.create({
+      data: {
+        id: randomUUID(),
+        postId: input.postId,
+        url: input.url,
+        kinds: input.kinds,
+        diff: toJson(input.diff),
+      },
+    });
+    return toTaskRecord(row);
+  }
+
+  static async updateTask(id: string, input: {
+    url: string;
+    kinds: SourceChangeKind[];
+    diff: SourceChangeDiff;
+  }): Promise<SourceChangeTaskRecord> {
+    const row = await prismaApp.sourceChangeTaskEntry.update({
+      where: { id },
+      data: { url: input.url, kinds: input.kinds, diff: toJson(input.diff) },
+    });
+    return toTaskRecord(row);
+  }
+
+  static async listTasks(filters: {
+    status?: SourceChangeTaskStatus;
+    postId?: string;
+    limit?: number;
+  } = {}): Promise<SourceChangeTaskRecord[]> {
+    const where: Prisma.SourceChangeTaskEntryWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.postId) where.postId = filters.postId;
+    const rows = await prismaApp.sourceChangeTaskEntry.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+    });
+    return rows.map((row) => toTaskRecord(row));
+  }
+
+  static async listOpenTasksByPostIds(postIds: string[]): Promise<SourceChangeTaskRecord[]> {
+    if (postIds.length === 0) return [];
+    const rows = await prismaApp.sourceChangeTaskEntry.findMany({
+      where: { postId: { in: postIds }, status: 'open' },
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map((row) => toTaskRecord(row));
+  }
+
+  /** Closes an open task; returns null when there is no open task with that id. */
+  static async closeTask(id: string, input: {
+    status: Exclude<SourceChangeTaskStatus, 'open'>;
+    resolvedBy?: string;
+    note?: string;
+  }): Promise<SourceChangeTaskRecord | null> {
+    const result = await prismaApp.sourceChangeTaskEntry.updateMany({
+      where: { id, status: 'open' },
+      data: {
+        status: input.status,
+        resolvedBy: input.resolvedBy || null,
+        resolvedAt: new Date(),
+        resolutionNote: input.note || null,
+      },
+    });
+    if (result.count === 0) return null;
+    const row = await prismaApp.sourceChangeTaskEntry.findUnique({ where: { id } });
+    return row ? toTaskRecord(row) : null;
+  }
+}
+
+export default SourceMonitorModelPostgres;
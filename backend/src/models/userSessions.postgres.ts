@@ -0,0 +1,125 @@
+import { prismaApp } from '../services/postgres/prisma.js';
+
+export interface UserSessionRecord {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  device?: string;
+  ipAddress?: string;
+  country?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+}
+
+interface UserSessionRow {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  device: string | null;
+  ipAddress: string | null;
+  country: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+function toRecord(row: UserSessionRow): UserSessionRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    userAgent: row.userAgent || undefined,
+    device: row.device || undefined,
+    ipAddress: row.ipAddress || undefined,
+    country: row.country || undefined,
+    createdAt: row.createdAt,
+    lastSeenAt: row.lastSeenAt,
+    expiresAt: row.expiresAt,
+    revokedAt: row.revokedAt || undefined,
+    revokedReason: row.revokedReason || undefined,
+  };
+}
+
+const activeWhere = (userId: string) => ({
+  userId,
+  revokedAt: null,
+  expiresAt: { gt: new Date() },
+});
+
+export class UserSessionModelPostgres {
+  static async create(data: {
+    id: string;
+    userId: string;
+    userAgent?: string;
+    device?: string;
+    ipAddress?: string;
+    country?: string;
+    expiresAt: Date;
+  }): Promise<UserSessionRecord> {
+    const row = await prismaApp.userSessionEntry.create({
+      data: {
+        id: data.id,
+        userId: data.userId,
+        userAgent: data.userAgent ?? null,
+        device: data.device ?? null,
+        ipAddress: data.ipAddress ?? null,
+        country: data.country ?? null,
+        expiresAt: data.expiresAt,
+      },
+    });
+    return toRecord(row);
+  }
+
+  static async findById(id: string): Promise<UserSessionRecord | null> {
+    const row = await prismaApp.userSessionEntry.findUnique({ where: { id } });
+    return row ? toRecord(row) : null;
+  }
+
+  static async listActiveByUser(userId: string): Promise<UserSessionRecord[]> {
+    const rows = await prismaApp.userSessionEntry.findMany({
+      where: activeWhere(userId),
+      orderBy: { lastSeenAt: 'desc' },
+    });
+    return rows.map((row) => toRecord(row));
+  }
+
+  static async touch(id: string, data: { ipAddress?: string; country?: string }): Promise<void> {
+    await prismaApp.userSessionEntry.updateMany({
+      where: { id, revokedAt: null },
+      data: {
+        lastSeenAt: new Date(),
+        ...(data.ipAddress ? { ipAddress: data.ipAddress } : {}),
+        ...(data.country ? { country: data.country } : {}),
+      },
+    });
+  }
+
+  /**
+   * Revoke active sessions for a user, optionally limited to specific ids or
+   * sparing one (the caller's own session). Returns the revoked sessions.
+   */
+  static async revokeForUser(
+    userId: string,
+    options: { ids?: string[]; exceptId?: string; reason: string },
+  ): Promise<UserSessionRecord[]> {
+    const where = {
+      ...activeWhere(userId),
+      ...(options.ids ? { id: { in: options.ids } } : {}),
+      ...(options.exceptId && !options.ids ? { id: { not: options.exceptId } } : {}),
+    };
+    const rows = await prismaApp.userSessionEntry.findMany({ where });
+    if (rows.length === 0) return [];
+
+    await prismaApp.userSessionEntry.updateMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      data: { revokedAt: new Date(), revokedReason: options.reason },
+    });
+    return rows.map((row) => toRecord(row));
+  }
+}
+
+export default UserSessionModelPostgres;
@@ -22,6 +22,7 @@ interface UserRow {
   twoFactorVerifiedAt: Date | null;
   twoFactorBackupCodes: unknown;
   twoFactorBackupCodesUpdatedAt: Date | null;
+  twoFactorLastUsedStep: number | null;
 }
 
 export interface User {
@@ -41,6 +42,7 @@ export interface UserAuth extends User {
   twoFactorVerifiedAt?: string;
   twoFactorBackupCodes?: Array<{ codeHash: string; usedAt?: string | null }>;
   twoFactorBackupCodesUpdatedAt?: string | null;
+  twoFactorLastUsedStep?: number | null;
 }
 
 type UserRoleFilter = string | string[];
@@ -91,6 +93,7 @@ function toUserAuth(row: UserRow): UserAuth {
     twoFactorVerifiedAt: row.twoFactorVerifiedAt?.toISOString(),
     twoFactorBackupCodes: backupCodes,
     twoFactorBackupCodesUpdatedAt: row.twoFactorBackupCodesUpdatedAt?.toISOString() ?? null,
+    twoFactorLastUsedStep: row.twoFactorLastUsedStep,
   };
 }
 
@@ -202,6 +205,7 @@ export class UserModelPostgres {
     twoFactorVerifiedAt: Date | null;
     twoFactorBackupCodes: Array<{ codeHash: string; usedAt?: Date | null }>;
     twoFactorBackupCodesUpdatedAt: Date | null;
+    twoFactorLastUsedStep: number | null;
   }>): Promise<User | null> {
     const existing = await findUserRowById(id);
     if (!existing) return null;
@@ -246,6 +250,9 @@ export class UserModelPostgres {
     if (data.twoFactorBackupCodesUpdatedAt !== undefined) {
       updateData.twoFactorBackupCodesUpdatedAt = data.twoFactorBackupCodesUpdatedAt ?? null;
     }
+    if (data.twoFactorLastUsedStep !== undefined) {
+      updateData.twoFactorLastUsedStep = data.twoFactorLastUsedStep ?? null;
+    }
 
     await prismaApp.userAccountEntry.update({
       where: { id },
@@ -255,6 +262,52 @@ export class UserModelPostgres {
     return this.findById(id);
   }
 
+  /**
+   * Record a TOTP time step as used. Only succeeds when the step is newer than
+   * the last accepted one, so a code cannot be replayed within its window.
+   */
+  static async claimTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const claimed = await prismaApp.$executeRaw`
+      UPDATE "app_users"
+      SET "two_factor_last_used_step" = ${step}
+      WHERE "id" = ${id}
+        AND ("two_factor_last_used_step" IS NULL OR "two_factor_last_used_step" < ${step})
+    `;
+    return claimed > 0;
+  }
+
+  /**
+   * Mark an unused recovery code as used in one conditional write, so two
+   * sign-ins racing with the same code cannot both redeem it. Returns how many
+   * codes remain unused, or null when the code is unknown or already spent.
+   */
+  static async claimRecoveryCode(id: string, codeHash: string, usedAt: Date = new Date()): Promise<number | null> {
+    const rows = await prismaApp.$queryRaw<Array<{ remaining: number }>>`
+      UPDATE "app_users"
+      SET "two_factor_backup_codes" = (
+        SELECT jsonb_agg(
+          CASE
+            WHEN entry->>'codeHash' = ${codeHash} AND entry->>'usedAt' IS NULL
+              THEN jsonb_set(entry, '{usedAt}', to_jsonb(${usedAt.toISOString()}::text))
+            ELSE entry
+          END
+          ORDER BY position
+        )
+        FROM jsonb_array_elements("two_factor_backup_codes") WITH ORDINALITY AS codes(entry, position)
+      )
+      WHERE "id" = ${id}
+        AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements("two_factor_backup_codes") AS entry
+          WHERE entry->>'codeHash' = ${codeHash} AND entry->>'usedAt' IS NULL
+        )
+      RETURNING (
+        SELECT count(*)::int FROM jsonb_array_elements("two_factor_backup_codes") AS entry
+        WHERE entry->>'usedAt' IS NULL
+      ) AS "remaining"
+    `;
+    return rows.length > 0 ? Number(rows[0].remaining) : null;
+  }
+
   static async delete(id: string): Promise<boolean> {
     try {
       const deleted = await prismaApp.userAccountEntry.deleteMany({
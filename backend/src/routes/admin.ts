@@ -4,17 +4,30 @@ import webpush from 'web-push';
 import { z } from 'zod';
 
 import type { AuditLogRecord } from '../content/types.js';
-import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { authenticateToken, requireAdminStepUp, requireEditorialAccess, requirePermission } from '../middleware/auth.js';
 import { rateLimit } from '../middleware/rateLimit.js';
+import { getClientIP } from '../middleware/security.js';
 import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
 import AnnouncementModel from '../models/announcements.postgres.js';
 import AuditLogModelPostgres from '../models/auditLogs.postgres.js';
 import CommunityModelPostgres from '../models/community.postgres.js';
 import ErrorReportModelPostgres from '../models/errorReports.postgres.js';
+import PermissionOverrideModelPostgres, { type PermissionOverrideInput } from '../models/permissionOverrides.postgres.js';
 import PushSubscriptionModelPostgres from '../models/pushSubscriptions.postgres.js';
 import SiteSettingsModelPostgres from '../models/siteSettings.postgres.js';
 import { UserModelPostgres } from '../models/users.postgres.js';
 import { getAnalyticsOverview } from '../services/analyticsOverview.js';
+import {
+  PERMISSION_DEFINITIONS,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  type Permission,
+  isStaffRole,
+  resolvePermissions,
+} from '../services/permissions.js';
+import { SecurityLogger } from '../services/securityLogger.js';
+import { listActiveSessions, revokeUserSessions, toSessionSummary } from '../services/sessions.js';
+import { resetTwoFactor } from '../services/twoFactor.js';
 import type { ContentType, AnnouncementStatus, CreateAnnouncementDto } from '../types.js';
 
 const router = express.Router();
@@ -26,9 +39,10 @@ router.use(expressRateLimit({
   legacyHeaders: false,
 }));
 
-// All admin routes require authentication + admin role
+// All admin routes require an authenticated staff account; each route then
+// checks its own permission (see services/permissions.ts).
 router.use(authenticateToken);
-router.use(requireAdmin);
+router.use(requireEditorialAccess);
 
 // ─── Validation Schemas ───
 
@@ -118,6 +132,18 @@ const updateUserSchema = z.object({
   auditReason: z.string().trim().min(3).max(500).optional(),
 });
 
+const permissionOverridesSchema = z.object({
+  overrides: z.array(z.object({
+    permission: z.enum(PERMISSIONS as [Permission, ...Permission[]]),
+    effect: z.enum(['grant', 'deny'] as const),
+    reason: z.string().trim().max(300).optional(),
+  })).max(PERMISSIONS.length).refine(
+    (overrides) => new Set(overrides.map((override) => override.permission)).size === overrides.length,
+    { message: 'Each permission may only be overridden once' },
+  ),
+  auditReason: z.string().trim().min(3).max(500).optional(),
+});
+
 const userActionReasonSchema = z.object({
   auditReason: z.string().trim().min(3).max(500).optional(),
 });
@@ -193,6 +219,57 @@ function isPrivilegedRole(role: string | undefined) {
   return privilegedRoles.includes(role as (typeof privilegedRoles)[number]);
 }
 
+/**
+ * Only a superadmin may hand out admin or superadmin, and nobody may assign a
+ * role that carries permissions they do not hold themselves. Mirrors the grant
+ * check on `PUT /users/:id/permissions`.
+ */
+function canAssignRole(req: express.Request, role: (typeof adminRoleValues)[number]) {
+  if (isPrivilegedRole(role) && req.user?.role !== 'superadmin') {
+    return { allowed: false, reason: `Only a superadmin can assign the ${role} role` };
+  }
+
+  const actorPermissions = req.permissions ?? [];
+  const missing = isStaffRole(role)
+    ? ROLE_PERMISSIONS[role].find((permission) => !actorPermissions.includes(permission))
+    : undefined;
+  if (missing) {
+    return { allowed: false, reason: `Cannot assign the ${role} role without holding ${missing}` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Guards changes to an existing account by its current role: only a superadmin
+ * may change an admin or superadmin, and anyone else must hold every
+ * permission the account currently has, overrides included.
+ */
+async function canManageUser(req: express.Request, user: { id: string; role: string }) {
+  if (isPrivilegedRole(user.role) && req.user?.role !== 'superadmin') {
+    return { allowed: false, reason: `Only a superadmin can change ${user.role} accounts` };
+  }
+  if (!isStaffRole(user.role) || req.user?.role === 'superadmin') {
+    return { allowed: true };
+  }
+
+  const actorPermissions = req.permissions ?? [];
+  const overrides = await PermissionOverrideModelPostgres.listByUser(user.id);
+  const missing = resolvePermissions(user.role, overrides).find((permission) => !actorPermissions.includes(permission));
+  if (missing) {
+    return { allowed: false, reason: `Cannot change an account holding ${missing} without holding it` };
+  }
+  return { allowed: true };
+}
+
+// Role changes need a fresh step-up like deletes; status and username edits do not.
+function requireStepUpForRoleChange(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.body?.role === undefined) {
+    next();
+    return;
+  }
+  return requireAdminStepUp(req, res, next);
+}
+
 function cleanAuditMetadata(metadata: Record<string, unknown>) {
   return Object.fromEntries(
     Object.entries(metadata).filter(([, value]) => value !== undefined),
@@ -277,7 +354,7 @@ async function wouldRemoveLastActivePrivilegedUser(
 // DASHBOARD
 // ═══════════════════════════════════════════
 
-router.get('/dashboard', async (_req, res) => {
+router.get('/dashboard', requirePermission('analytics:read'), async (_req, res) => {
   try {
     const [
       announcementCounts,
@@ -337,7 +414,7 @@ router.get('/dashboard', async (_req, res) => {
 // ═══════════════════════════════════════════
 
 // List all announcements (admin view — includes drafts, archived, etc.)
-router.get('/announcements', async (req, res) => {
+router.get('/announcements', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const parseResult = adminAnnouncementListSchema.safeParse(req.query);
     if (!parseResult.success) {
@@ -375,7 +452,7 @@ router.get('/announcements', async (req, res) => {
 });
 
 // Get single announcement by ID (full detail with versions)
-router.get('/announcements/:id', async (req, res) => {
+router.get('/announcements/:id', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const id = req.params.id as string;
     const announcement = await AnnouncementModel.findById(id);
@@ -390,7 +467,7 @@ router.get('/announcements/:id', async (req, res) => {
 });
 
 // Create announcement
-router.post('/announcements', async (req, res) => {
+router.post('/announcements', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const parseResult = createAnnouncementSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -407,7 +484,7 @@ router.post('/announcements', async (req, res) => {
 });
 
 // Update announcement
-router.put('/announcements/:id', async (req, res) => {
+router.put('/announcements/:id', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const id = req.params.id as string;
     const parseResult = updateAnnouncementSchema.safeParse(req.body);
@@ -428,7 +505,7 @@ router.put('/announcements/:id', async (req, res) => {
 });
 
 // Change announcement status
-router.patch('/announcements/:id/status', async (req, res) => {
+router.patch('/announcements/:id/status', requirePermission('posts:publish'), async (req, res) => {
   try {
     const id = req.params.id as string;
     const parseResult = statusChangeSchema.safeParse(req.body);
@@ -451,7 +528,7 @@ router.patch('/announcements/:id/status', async (req, res) => {
 });
 
 // Soft delete announcement
-router.delete('/announcements/:id', async (req, res) => {
+router.delete('/announcements/:id', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const id = req.params.id as string;
     const deleted = await AnnouncementModel.softDelete(id, req.user!.userId);
@@ -466,7 +543,7 @@ router.delete('/announcements/:id', async (req, res) => {
 });
 
 // Bulk status change
-router.post('/announcements/bulk-status', async (req, res) => {
+router.post('/announcements/bulk-status', requirePermission('posts:publish'), requireAdminStepUp, async (req, res) => {
   try {
     const parseResult = bulkStatusSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -502,7 +579,7 @@ router.post('/announcements/bulk-status', async (req, res) => {
 // ═══════════════════════════════════════════
 
 // List users
-router.get('/users', async (req, res) => {
+router.get('/users', requirePermission('users:read'), async (req, res) => {
   try {
     const parseResult = userListSchema.safeParse(req.query);
     if (!parseResult.success) {
@@ -531,7 +608,7 @@ router.get('/users', async (req, res) => {
 });
 
 // Get single user
-router.get('/users/:id', async (req, res) => {
+router.get('/users/:id', requirePermission('users:read'), async (req, res) => {
   try {
     const id = req.params.id as string;
     const user = await UserModelPostgres.findById(id);
@@ -546,7 +623,7 @@ router.get('/users/:id', async (req, res) => {
 });
 
 // Update user (role, active status)
-router.patch('/users/:id', async (req, res) => {
+router.patch('/users/:id', requirePermission('users:manage'), requireStepUpForRoleChange, async (req, res) => {
   try {
     const id = req.params.id as string;
     const parseResult = updateUserSchema.safeParse(req.body);
@@ -554,14 +631,31 @@ router.patch('/users/:id', async (req, res) => {
       return res.status(400).json({ error: parseResult.error.flatten() });
     }
 
+    const nextRole = parseResult.data.role;
+    if (nextRole) {
+      const roleCheck = canAssignRole(req, nextRole);
+      if (!roleCheck.allowed) {
+        return res.status(403).json({ error: roleCheck.reason });
+      }
+    }
+
     // Prevent admin from deactivating themselves
     if (id === req.user!.userId && parseResult.data.isActive === false) {
       return res.status(400).json({ error: 'Cannot deactivate your own account' });
     }
 
-    // Prevent an authenticated admin from removing their own console access.
-    if (id === req.user!.userId && parseResult.data.role && !isPrivilegedRole(parseResult.data.role)) {
-      return res.status(400).json({ error: 'Cannot demote your own admin account' });
+    // Role changes always go through another account, in either direction.
+    if (id === req.user!.userId && nextRole) {
+      return res.status(400).json({ error: 'Cannot change your own role' });
+    }
+
+    const target = await UserModelPostgres.findById(id);
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const targetCheck = await canManageUser(req, target);
+    if (!targetCheck.allowed) {
+      return res.status(403).json({ error: targetCheck.reason });
     }
 
     const lastPrivilegedCheck = await wouldRemoveLastActivePrivilegedUser(id, parseResult.data);
@@ -602,7 +696,7 @@ router.patch('/users/:id', async (req, res) => {
 });
 
 // Delete user
-router.delete('/users/:id', async (req, res) => {
+router.delete('/users/:id', requirePermission('users:manage'), requireAdminStepUp, async (req, res) => {
   try {
     const id = req.params.id as string;
     const reasonResult = userActionReasonSchema.safeParse(req.body || {});
@@ -615,6 +709,15 @@ router.delete('/users/:id', async (req, res) => {
       return res.status(400).json({ error: 'Cannot delete your own account' });
     }
 
+    const user = await UserModelPostgres.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const targetCheck = await canManageUser(req, user);
+    if (!targetCheck.allowed) {
+      return res.status(403).json({ error: targetCheck.reason });
+    }
+
     const lastPrivilegedCheck = await wouldRemoveLastActivePrivilegedUser(id, { delete: true });
     if (lastPrivilegedCheck.missing) {
       return res.status(404).json({ error: 'User not found' });
@@ -623,7 +726,6 @@ router.delete('/users/:id', async (req, res) => {
       return res.status(400).json({ error: lastPrivilegedCheck.reason });
     }
 
-    const user = await UserModelPostgres.findById(id);
     const deleted = await UserModelPostgres.delete(id);
     if (!deleted) {
       return res.status(404).json({ error: 'User not found' });
@@ -646,12 +748,220 @@ router.delete('/users/:id', async (req, res) => {
   }
 });
 
+// Clear a user's TOTP enrolment so they can enrol again (lost device)
+router.post('/users/:id/two-factor/reset', requirePermission('users:manage'), requireAdminStepUp, async (req, res) => {
+  try {
+    const id = req.params.id as string;
+    const reasonResult = userActionReasonSchema.safeParse(req.body || {});
+    if (!reasonResult.success) {
+      return res.status(400).json({ error: reasonResult.error.flatten() });
+    }
+
+    const user = await UserModelPostgres.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const targetCheck = await canManageUser(req, user);
+    if (!targetCheck.allowed) {
+      return res.status(403).json({ error: targetCheck.reason });
+    }
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled for this user' });
+    }
+
+    await resetTwoFactor(id);
+
+    await SecurityLogger.log({
+      ip_address: getClientIP(req),
+      event_type: 'two_factor',
+      endpoint: req.originalUrl,
+      metadata: {
+        action: 'two_factor_reset',
+        userId: id,
+        actorId: req.user?.userId,
+      },
+    });
+    await recordAdminAudit(req, {
+      entityType: 'auth',
+      entityId: id,
+      targetType: 'user',
+      action: 'admin_user_two_factor_reset',
+      summary: `Reset two-factor authentication for ${user.email}`,
+      auditReason: reasonResult.data.auditReason,
+      metadata: {
+        targetEmail: user.email,
+      },
+    });
+    return res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    console.error('[Admin] Reset two-factor error:', error);
+    return res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+// Devices a user is currently signed in on
+router.get('/users/:id/sessions', requirePermission('users:read'), async (req, res) => {
+  try {
+    const id = req.params.id as string;
+    const user = await UserModelPostgres.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const sessions = await listActiveSessions(id);
+    return res.json({ data: sessions.map((session) => toSessionSummary(session, req.sessionId)) });
+  } catch (error) {
+    console.error('[Admin] List user sessions error:', error);
+    return res.status(500).json({ error: 'Failed to load sessions' });
+  }
+});
+
+// Force-logout: revoke every active session for a user
+router.post('/users/:id/sessions/revoke', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const id = req.params.id as string;
+    const reasonResult = userActionReasonSchema.safeParse(req.body || {});
+    if (!reasonResult.success) {
+      return res.status(400).json({ error: reasonResult.error.flatten() });
+    }
+
+    const user = await UserModelPostgres.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const targetCheck = await canManageUser(req, user);
+    if (!targetCheck.allowed) {
+      return res.status(403).json({ error: targetCheck.reason });
+    }
+
+    const revoked = await revokeUserSessions(id, { reason: 'admin_revoked' });
+
+    await recordAdminAudit(req, {
+      entityType: 'auth',
+      entityId: id,
+      targetType: 'user',
+      action: 'admin_user_sessions_revoked',
+      summary: `Signed ${user.email} out of ${revoked.length} session(s)`,
+      auditReason: reasonResult.data.auditReason,
+      metadata: {
+        targetEmail: user.email,
+        revokedSessions: revoked.length,
+      },
+    });
+    return res.json({ message: 'User signed out everywhere', data: { revoked: revoked.length } });
+  } catch (error) {
+    console.error('[Admin] Revoke user sessions error:', error);
+    return res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// Permission catalogue and role defaults
+router.get('/permissions', requirePermission('users:read'), async (_req, res) => {
+  return res.json({
+    data: {
+      permissions: PERMISSION_DEFINITIONS,
+      roles: ROLE_PERMISSIONS,
+    },
+  });
+});
+
+// Effective permissions and overrides for one user
+router.get('/users/:id/permissions', requirePermission('users:read'), async (req, res) => {
+  try {
+    const id = req.params.id as string;
+    const user = await UserModelPostgres.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const overrides = await PermissionOverrideModelPostgres.listByUser(id);
+    return res.json({
+      data: {
+        userId: id,
+        role: user.role,
+        overrides,
+        effective: resolvePermissions(user.role, overrides),
+      },
+    });
+  } catch (error) {
+    console.error('[Admin] Get user permissions error:', error);
+    return res.status(500).json({ error: 'Failed to fetch user permissions' });
+  }
+});
+
+// Replace per-user permission overrides
+router.put('/users/:id/permissions', requirePermission('users:manage'), requireAdminStepUp, async (req, res) => {
+  try {
+    const id = req.params.id as string;
+    const parseResult = permissionOverridesSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: parseResult.error.flatten() });
+    }
+
+    if (id === req.user!.userId) {
+      return res.status(400).json({ error: 'Cannot change your own permissions' });
+    }
+
+    const user = await UserModelPostgres.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!isStaffRole(user.role) || user.role === 'superadmin') {
+      return res.status(400).json({ error: 'Permission overrides apply to editor, reviewer and admin accounts only' });
+    }
+    const targetCheck = await canManageUser(req, user);
+    if (!targetCheck.allowed) {
+      return res.status(403).json({ error: targetCheck.reason });
+    }
+
+    // Nobody can hand out a permission they do not hold themselves. The route
+    // guard has already resolved the actor's permissions onto the request.
+    const actorPermissions = req.permissions ?? [];
+    const escalation = parseResult.data.overrides.find(
+      (override) => override.effect === 'grant' && !actorPermissions.includes(override.permission),
+    );
+    if (escalation) {
+      return res.status(403).json({ error: `Cannot grant ${escalation.permission} without holding it` });
+    }
+
+    const { overrides, auditReason } = parseResult.data;
+    const previous = await PermissionOverrideModelPostgres.listByUser(id);
+    const saved = await PermissionOverrideModelPostgres.replaceForUser(id, overrides as PermissionOverrideInput[], req.user!.userId);
+
+    await recordAdminAudit(req, {
+      entityType: 'auth',
+      entityId: id,
+      targetType: 'user',
+      action: 'admin_user_permissions_changed',
+      summary: `Updated permission overrides for ${user.email}`,
+      auditReason,
+      metadata: {
+        targetEmail: user.email,
+        previous: previous.map((override) => `${override.effect}:${override.permission}`),
+        next: saved.map((override) => `${override.effect}:${override.permission}`),
+      },
+    });
+
+    return res.json({
+      data: {
+        userId: id,
+        role: user.role,
+        overrides: saved,
+        effective: resolvePermissions(user.role, saved),
+      },
+    });
+  } catch (error) {
+    console.error('[Admin] Update user permissions error:', error);
+    return res.status(500).json({ error: 'Failed to update user permissions' });
+  }
+});
+
 // ═══════════════════════════════════════════
 // ANALYTICS
 // ═══════════════════════════════════════════
 
 // Analytics overview
-router.get('/analytics/overview', async (req, res) => {
+router.get('/analytics/overview', requirePermission('analytics:read'), async (req, res) => {
   try {
     const parseResult = analyticsQuerySchema.safeParse(req.query);
     if (!parseResult.success) {
@@ -668,7 +978,7 @@ router.get('/analytics/overview', async (req, res) => {
 });
 
 // Content performance — top announcements by views
-router.get('/analytics/content', async (req, res) => {
+router.get('/analytics/content', requirePermission('analytics:read'), async (req, res) => {
   try {
     const parseResult = contentAnalyticsQuerySchema.safeParse(req.query);
     if (!parseResult.success) {
@@ -702,7 +1012,7 @@ router.get('/analytics/content', async (req, res) => {
 // SUBSCRIBERS (Email)
 // ═══════════════════════════════════════════
 
-router.get('/subscribers', async (req, res) => {
+router.get('/subscribers', requirePermission('subscribers:read'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -727,7 +1037,7 @@ router.get('/subscribers', async (req, res) => {
   }
 });
 
-router.get('/subscribers/stats', async (_req, res) => {
+router.get('/subscribers/stats', requirePermission('subscribers:read'), async (_req, res) => {
   try {
     const stats = await AlertSubscriptionModelPostgres.getStats();
     return res.json({ data: stats });
@@ -737,7 +1047,7 @@ router.get('/subscribers/stats', async (_req, res) => {
   }
 });
 
-router.delete('/subscribers/:id', async (req, res) => {
+router.delete('/subscribers/:id', requirePermission('subscribers:manage'), async (req, res) => {
   try {
     const id = String(req.params.id);
     const deleted = await AlertSubscriptionModelPostgres.deleteById(id);
@@ -751,11 +1061,67 @@ router.delete('/subscribers/:id', async (req, res) => {
   }
 });
 
+router.get('/email-suppressions', requirePermission('subscribers:read'), async (req, res) => {
+  try {
+    const { listSuppressions } = await import('../services/emailSuppression.js');
+    const result = await listSuppressions(req.query);
+    if (!result.success) return res.status(400).json({ error: result.error });
+    return res.json(result.data);
+  } catch (error) {
+    console.error('[Admin] Email suppressions error:', error);
+    return res.status(500).json({ error: 'Failed to fetch suppression list' });
+  }
+});
+
+router.post('/email-suppressions', requirePermission('subscribers:manage'), async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Authentication required' });
+
+    const { addSuppression } = await import('../services/emailSuppression.js');
+    const result = await addSuppression(req.body, userId);
+    if (!result.success || !result.data) return res.status(400).json({ error: result.error });
+
+    await recordAdminAudit(req, {
+      entityType: 'subscription',
+      entityId: result.data.email,
+      targetType: 'email_suppression',
+      action: 'admin_email_suppression_added',
+      summary: `Suppressed email to ${result.data.email}`,
+    });
+    return res.status(201).json({ data: result.data, message: 'Address suppressed' });
+  } catch (error) {
+    console.error('[Admin] Add email suppression error:', error);
+    return res.status(500).json({ error: 'Failed to suppress address' });
+  }
+});
+
+router.delete('/email-suppressions/:email', requirePermission('subscribers:manage'), async (req, res) => {
+  try {
+    const email = String(req.params.email);
+    const { removeSuppression } = await import('../services/emailSuppression.js');
+    const removed = await removeSuppression(email);
+    if (!removed) return res.status(404).json({ error: 'Address is not suppressed' });
+
+    await recordAdminAudit(req, {
+      entityType: 'subscription',
+      entityId: email,
+      targetType: 'email_suppression',
+      action: 'admin_email_suppression_removed',
+      summary: `Removed suppression for ${email}`,
+    });
+    return res.json({ message: 'Suppression removed' });
+  } catch (error) {
+    console.error('[Admin] Remove email suppression error:', error);
+    return res.status(500).json({ error: 'Failed to remove suppression' });
+  }
+});
+
 // ═══════════════════════════════════════════
 // PUSH SUBSCRIBERS
 // ═══════════════════════════════════════════
 
-router.get('/push-subscribers', async (req, res) => {
+router.get('/push-subscribers', requirePermission('subscribers:read'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -777,7 +1143,7 @@ router.get('/push-subscribers', async (req, res) => {
   }
 });
 
-router.post('/push/send', async (req, res) => {
+router.post('/push/send', requirePermission('campaigns:send'), requireAdminStepUp, async (req, res) => {
   try {
     const schema = z.object({
       title: z.string().trim().min(1).max(200),
@@ -822,7 +1188,7 @@ router.post('/push/send', async (req, res) => {
 // COMMUNITY MODERATION
 // ═══════════════════════════════════════════
 
-router.get('/community/forums', async (req, res) => {
+router.get('/community/forums', requirePermission('community:moderate'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -834,7 +1200,7 @@ router.get('/community/forums', async (req, res) => {
   }
 });
 
-router.delete('/community/forums/:id', async (req, res) => {
+router.delete('/community/forums/:id', requirePermission('community:moderate'), async (req, res) => {
   try {
     const id = String(req.params.id);
     const deleted = await CommunityModelPostgres.deleteForum(id);
@@ -853,7 +1219,7 @@ router.delete('/community/forums/:id', async (req, res) => {
   }
 });
 
-router.get('/community/qa', async (req, res) => {
+router.get('/community/qa', requirePermission('community:moderate'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -865,7 +1231,7 @@ router.get('/community/qa', async (req, res) => {
   }
 });
 
-router.delete('/community/qa/:id', async (req, res) => {
+router.delete('/community/qa/:id', requirePermission('community:moderate'), async (req, res) => {
   try {
     const id = String(req.params.id);
     const deleted = await CommunityModelPostgres.deleteQa(id);
@@ -884,7 +1250,7 @@ router.delete('/community/qa/:id', async (req, res) => {
   }
 });
 
-router.patch('/community/qa/:id', async (req, res) => {
+router.patch('/community/qa/:id', requirePermission('community:moderate'), async (req, res) => {
   try {
     const schema = z.object({ answer: z.string().trim().min(1).max(2000) });
     const parse = schema.safeParse(req.body);
@@ -914,7 +1280,7 @@ router.patch('/community/qa/:id', async (req, res) => {
   }
 });
 
-router.get('/community/groups', async (req, res) => {
+router.get('/community/groups', requirePermission('community:moderate'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -926,7 +1292,7 @@ router.get('/community/groups', async (req, res) => {
   }
 });
 
-router.delete('/community/groups/:id', async (req, res) => {
+router.delete('/community/groups/:id', requirePermission('community:moderate'), async (req, res) => {
   try {
     const deleted = await CommunityModelPostgres.deleteGroup(String(req.params.id));
     if (!deleted) return res.status(404).json({ error: 'Item not found' });
@@ -937,7 +1303,7 @@ router.delete('/community/groups/:id', async (req, res) => {
   }
 });
 
-router.get('/community/flags', async (req, res) => {
+router.get('/community/flags', requirePermission('community:moderate'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -953,7 +1319,7 @@ router.get('/community/flags', async (req, res) => {
   }
 });
 
-router.patch('/community/flags/:id', async (req, res) => {
+router.patch('/community/flags/:id', requirePermission('community:moderate'), async (req, res) => {
   try {
     const schema = z.object({ status: z.enum(['reviewed', 'resolved']) });
     const parse = schema.safeParse(req.body);
@@ -983,7 +1349,7 @@ router.patch('/community/flags/:id', async (req, res) => {
 // ERROR REPORTS
 // ═══════════════════════════════════════════
 
-router.get('/error-reports', async (req, res) => {
+router.get('/error-reports', requirePermission('reports:manage'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 20, offset: 0 };
@@ -999,7 +1365,7 @@ router.get('/error-reports', async (req, res) => {
   }
 });
 
-router.patch('/error-reports/:id', async (req, res) => {
+router.patch('/error-reports/:id', requirePermission('reports:manage'), async (req, res) => {
   try {
     const schema = z.object({
       status: z.enum(['triaged', 'resolved']),
@@ -1025,7 +1391,7 @@ router.patch('/error-reports/:id', async (req, res) => {
 // AUDIT LOG
 // ═══════════════════════════════════════════
 
-router.get('/audit-log', async (req, res) => {
+router.get('/audit-log', requirePermission('audit:read'), async (req, res) => {
   try {
     const parse = paginationSchema.safeParse(req.query);
     const { limit, offset } = parse.success ? parse.data : { limit: 50, offset: 0 };
@@ -1061,7 +1427,7 @@ router.get('/audit-log', async (req, res) => {
 // SETTINGS (with persistence)
 // ═══════════════════════════════════════════
 
-router.get('/settings', async (_req, res) => {
+router.get('/settings', requirePermission('settings:read'), async (_req, res) => {
   try {
     const { config } = await import('../config.js');
     const saved = await SiteSettingsModelPostgres.getMain();
@@ -1079,6 +1445,7 @@ router.get('/settings', async (_req, res) => {
       youtubeUrl: '',
       maintenanceMode: false,
       registrationEnabled: true,
+      requireStaffTwoFactor: false,
       featureFlags: config.featureFlags || {},
     };
 
@@ -1089,7 +1456,7 @@ router.get('/settings', async (_req, res) => {
   }
 });
 
-router.put('/settings', async (req, res) => {
+router.put('/settings', requirePermission('settings:write'), requireAdminStepUp, async (req, res) => {
   try {
     const schema = z.object({
       siteName: z.string().trim().max(100).optional(),
@@ -1103,6 +1470,7 @@ router.put('/settings', async (req, res) => {
       youtubeUrl: z.string().trim().max(200).optional(),
       maintenanceMode: z.boolean().optional(),
       registrationEnabled: z.boolean().optional(),
+      requireStaffTwoFactor: z.boolean().optional(),
       featureFlags: z.record(z.boolean()).optional(),
     });
 
@@ -1133,7 +1501,7 @@ router.put('/settings', async (req, res) => {
 // AI CONTENT ASSISTANT
 // ═══════════════════════════════════════════
 
-router.post('/ai/generate-meta', rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 50, keyPrefix: 'admin-ai' }), async (req, res) => {
+router.post('/ai/generate-meta', requirePermission('ai:assist'), rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 50, keyPrefix: 'admin-ai' }), async (req, res) => {
   try {
     const schema = z.object({
       title: z.string().min(5).max(200),
@@ -1162,7 +1530,7 @@ router.post('/ai/generate-meta', rateLimit({ windowMs: 60 * 60 * 1000, maxReques
   }
 });
 
-router.post('/ai/suggest-tags', rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 50, keyPrefix: 'admin-ai' }), async (req, res) => {
+router.post('/ai/suggest-tags', requirePermission('ai:assist'), rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 50, keyPrefix: 'admin-ai' }), async (req, res) => {
   try {
     const schema = z.object({
       title: z.string().min(5),
@@ -1189,7 +1557,7 @@ router.post('/ai/suggest-tags', rateLimit({ windowMs: 60 * 60 * 1000, maxRequest
   }
 });
 
-router.post('/ai/social-summary', rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 50, keyPrefix: 'admin-ai' }), async (req, res) => {
+router.post('/ai/social-summary', requirePermission('ai:assist'), rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 50, keyPrefix: 'admin-ai' }), async (req, res) => {
   try {
     const schema = z.object({
       title: z.string().min(5),
@@ -1214,7 +1582,7 @@ router.post('/ai/social-summary', rateLimit({ windowMs: 60 * 60 * 1000, maxReque
 // LIVE ANALYTICS
 // ═══════════════════════════════════════════
 
-router.get('/analytics/live', async (req, res) => {
+router.get('/analytics/live', requirePermission('analytics:read'), async (req, res) => {
   try {
     const { getLiveMetrics } = await import('../services/live-analytics.js');
     const metrics = await getLiveMetrics();
@@ -1229,7 +1597,7 @@ router.get('/analytics/live', async (req, res) => {
 // CONTENT CALENDAR
 // ═══════════════════════════════════════════
 
-router.get('/calendar', async (req, res) => {
+router.get('/calendar', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const parseResult = calendarQuerySchema.safeParse(req.query);
     if (!parseResult.success) {
@@ -1251,7 +1619,7 @@ router.get('/calendar', async (req, res) => {
   }
 });
 
-router.post('/bulk-import', async (req, res) => {
+router.post('/bulk-import', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const userId = req.user?.userId;
     if (!userId) {
@@ -1268,7 +1636,7 @@ router.post('/bulk-import', async (req, res) => {
   }
 });
 
-router.get('/upcoming-deadlines', async (req, res) => {
+router.get('/upcoming-deadlines', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const parseResult = limitQuerySchema(10, 100).safeParse(req.query);
     if (!parseResult.success) {
@@ -1288,7 +1656,7 @@ router.get('/upcoming-deadlines', async (req, res) => {
 // NOTIFICATION CAMPAIGNS
 // ═══════════════════════════════════════════
 
-router.get('/campaigns', async (req, res) => {
+router.get('/campaigns', requirePermission('campaigns:read'), async (req, res) => {
   try {
     const { getCampaigns } = await import('../services/notifications.js');
     const campaigns = await getCampaigns();
@@ -1299,7 +1667,7 @@ router.get('/campaigns', async (req, res) => {
   }
 });
 
-router.post('/campaigns', async (req, res) => {
+router.post('/campaigns', requirePermission('campaigns:write'), async (req, res) => {
   try {
     const userId = req.user?.userId;
     if (!userId) return res.status(401).json({ error: 'Authentication required' });
@@ -1328,18 +1696,18 @@ router.post('/campaigns', async (req, res) => {
   }
 });
 
-router.post('/campaigns/:id/send', async (req, res) => {
+router.post('/campaigns/:id/send', requirePermission('campaigns:send'), requireAdminStepUp, async (req, res) => {
   try {
     const parse = campaignActionSchema.safeParse(req.body || {});
     if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
     const { queueCampaignDelivery } = await import('../services/notifications.js');
-    const result = await queueCampaignDelivery(req.params.id);
+    const result = await queueCampaignDelivery(String(req.params.id));
     
     if (!result.success) return res.status(400).json({ error: result.error });
     await recordAdminAudit(req, {
       entityType: 'campaign',
-      entityId: req.params.id,
+      entityId: String(req.params.id),
       targetType: 'notification_campaign',
       action: 'admin_campaign_send_queued',
       summary: `Queued campaign ${req.params.id} for delivery`,
@@ -1362,10 +1730,10 @@ router.post('/campaigns/:id/send', async (req, res) => {
   }
 });
 
-router.get('/campaigns/:id/estimate', async (req, res) => {
+router.get('/campaigns/:id/estimate', requirePermission('campaigns:read'), async (req, res) => {
   try {
     const { estimateCampaignRecipients } = await import('../services/notifications.js');
-    const result = await estimateCampaignRecipients(req.params.id);
+    const result = await estimateCampaignRecipients(String(req.params.id));
 
     if (!result.success) return res.status(400).json({ error: result.error });
     return res.json({ data: result.data });
@@ -1375,10 +1743,10 @@ router.get('/campaigns/:id/estimate', async (req, res) => {
   }
 });
 
-router.get('/campaigns/:id/stats', async (req, res) => {
+router.get('/campaigns/:id/stats', requirePermission('campaigns:read'), async (req, res) => {
   try {
     const { getCampaignStats } = await import('../services/notifications.js');
-    const result = await getCampaignStats(req.params.id);
+    const result = await getCampaignStats(String(req.params.id));
 
     if (!result.success) return res.status(400).json({ error: result.error });
     return res.json({ data: result.data });
@@ -1388,18 +1756,18 @@ router.get('/campaigns/:id/stats', async (req, res) => {
   }
 });
 
-router.post('/campaigns/:id/retry-failed', async (req, res) => {
+router.post('/campaigns/:id/retry-failed', requirePermission('campaigns:send'), async (req, res) => {
   try {
     const parse = campaignActionSchema.safeParse(req.body || {});
     if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
     const { queueFailedCampaignRetry } = await import('../services/notifications.js');
-    const result = await queueFailedCampaignRetry(req.params.id);
+    const result = await queueFailedCampaignRetry(String(req.params.id));
 
     if (!result.success) return res.status(400).json({ error: result.error });
     await recordAdminAudit(req, {
       entityType: 'campaign',
-      entityId: req.params.id,
+      entityId: String(req.params.id),
       targetType: 'notification_campaign',
       action: 'admin_campaign_retry_queued',
       summary: `Queued failed deliveries for campaign ${req.params.id}`,
@@ -1422,7 +1790,7 @@ router.post('/campaigns/:id/retry-failed', async (req, res) => {
   }
 });
 
-router.get('/segments', async (req, res) => {
+router.get('/segments', requirePermission('campaigns:read'), async (req, res) => {
   try {
     const { getUserSegments, getSegmentUserCount } = await import('../services/notifications.js');
     const segments = await getUserSegments();
@@ -1438,11 +1806,263 @@ router.get('/segments', async (req, res) => {
   }
 });
 
+router.get('/campaign-segments', requirePermission('campaigns:read'), async (_req, res) => {
+  try {
+    const { listSavedSegments } = await import('../services/campaignSegments.js');
+    return res.json({ data: await listSavedSegments() });
+  } catch (error) {
+    console.error('[Admin] Campaign segments error:', error);
+    return res.status(500).json({ error: 'Failed to fetch saved segments' });
+  }
+});
+
+router.post('/campaign-segments/estimate', requirePermission('campaigns:read'), async (req, res) => {
+  try {
+    const { estimateCampaignRecipients } = await import('../services/notifications.js');
+    const result = await estimateCampaignRecipients({
+      audience: req.body?.audience,
+      channels: req.body?.channels,
+    });
+
+    if (!result.success) return res.status(400).json({ error: result.error });
+    return res.json({ data: result.data });
+  } catch (error) {
+    console.error('[Admin] Segment estimate error:', error);
+    return res.status(500).json({ error: 'Failed to estimate segment recipients' });
+  }
+});
+
+router.post('/campaign-segments', requirePermission('campaigns:write'), async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Authentication required' });
+
+    const { createSavedSegment } = await import('../services/campaignSegments.js');
+    const result = await createSavedSegment(req.body, userId);
+    if (!result.success || !result.data) return res.status(400).json({ error: result.error });
+
+    await recordAdminAudit(req, {
+      entityType: 'campaign',
+      entityId: result.data.id,
+      targetType: 'campaign_segment',
+      action: 'admin_campaign_segment_created',
+      summary: `Created campaign segment ${result.data.name}`,
+    });
+    return res.status(201).json({ data: result.data, message: 'Segment saved' });
+  } catch (error) {
+    console.error('[Admin] Create campaign segment error:', error);
+    return res.status(500).json({ error: 'Failed to save segment' });
+  }
+});
+
+router.patch('/campaign-segments/:id', requirePermission('campaigns:write'), async (req, res) => {
+  try {
+    const { updateSavedSegment } = await import('../services/campaignSegments.js');
+    const result = await updateSavedSegment(String(req.params.id), req.body);
+    if (!result.success || !result.data) {
+      return res.status(result.error === 'Segment not found' ? 404 : 400).json({ error: result.error });
+    }
+
+    await recordAdminAudit(req, {
+      entityType: 'campaign',
+      entityId: result.data.id,
+      targetType: 'campaign_segment',
+      action: 'admin_campaign_segment_updated',
+      summary: `Updated campaign segment ${result.data.name}`,
+    });
+    return res.json({ data: result.data, message: 'Segment updated' });
+  } catch (error) {
+    console.error('[Admin] Update campaign segment error:', error);
+    return res.status(500).json({ error: 'Failed to update segment' });
+  }
+});
+
+router.delete('/campaign-segments/:id', requirePermission('campaigns:write'), async (req, res) => {
+  try {
+    const { deleteSavedSegment } = await import('../services/campaignSegments.js');
+    const deleted = await deleteSavedSegment(String(req.params.id));
+    if (!deleted) return res.status(404).json({ error: 'Segment not found' });
+
+    await recordAdminAudit(req, {
+      entityType: 'campaign',
+      entityId: String(req.params.id),
+      targetType: 'campaign_segment',
+      action: 'admin_campaign_segment_deleted',
+      summary: `Deleted campaign segment ${String(req.params.id)}`,
+    });
+    return res.json({ message: 'Segment deleted' });
+  } catch (error) {
+    console.error('[Admin] Delete campaign segment error:', error);
+    return res.status(500).json({ error: 'Failed to delete segment' });
+  }
+});
+
+// ═══════════════════════════════════════════
+// EMAIL TEMPLATES
+// ═══════════════════════════════════════════
+
+router.get('/email-templates', requirePermission('campaigns:read'), async (_req, res) => {
+  try {
+    const { listEmailTemplates } = await import('../services/emailTemplates.js');
+    return res.json({ data: await listEmailTemplates() });
+  } catch (error) {
+    console.error('[Admin] List email templates error:', error);
+    return res.status(500).json({ error: 'Failed to load email templates' });
+  }
+});
+
+router.get('/email-templates/:key', requirePermission('campaigns:read'), async (req, res) => {
+  try {
+    const { getEmailTemplate } = await import('../services/emailTemplates.js');
+    const template = await getEmailTemplate(String(req.params.key));
+    if (!template) return res.status(404).json({ error: 'Unknown email template' });
+    return res.json({ data: template });
+  } catch (error) {
+    console.error('[Admin] Get email template error:', error);
+    return res.status(500).json({ error: 'Failed to load email template' });
+  }
+});
+
+router.put('/email-templates/:key', requirePermission('campaigns:write'), async (req, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Authentication required' });
+
+    const key = String(req.params.key);
+    const { saveEmailTemplate } = await import('../services/emailTemplates.js');
+    const result = await saveEmailTemplate(key, req.body, userId);
+    if (!result.success || !result.data) {
+      return res.status(result.error === 'Unknown email template' ? 404 : 400).json({ error: result.error });
+    }
+
+    await recordAdminAudit(req, {
+      entityType: 'campaign',
+      entityId: key,
+      targetType: 'email_template',
+      action: 'admin_email_template_saved',
+      summary: `Saved email template ${key} v${result.data.version}`,
+      metadata: { version: result.data.version },
+    });
+    return res.json({ data: result.data, message: 'Template saved' });
+  } catch (error) {
+    console.error('[Admin] Save email template error:', error);
+    return res.status(500).json({ error: 'Failed to save email template' });
+  }
+});
+
+router.post('/email-templates/:key/preview', requirePermission('campaigns:read'), async (req, res) => {
+  try {
+    const { previewEmailTemplate } = await import('../services/emailTemplates.js');
+    const result = await previewEmailTemplate(String(req.params.key), req.body);
+    if (!result.success) return res.status(400).json({ error: result.error });
+    return res.json({ data: result.data });
+  } catch (error) {
+    console.error('[Admin] Preview email template error:', error);
+    return res.status(500).json({ error: 'Failed to render preview' });
+  }
+});
+
+router.post('/email-templates/:key/test-send', requirePermission('campaigns:write'), async (req, res) => {
+  try {
+    const email = req.user?.email;
+    if (!email) return res.status(401).json({ error: 'Authentication required' });
+
+    const key = String(req.params.key);
+    const { previewEmailTemplate } = await import('../services/emailTemplates.js');
+    const preview = await previewEmailTemplate(key, req.body);
+    if (!preview.success || !preview.data) return res.status(400).json({ error: preview.error });
+
+    const { sendRenderedEmail } = await import('../services/email.js');
+    const sent = await sendRenderedEmail(email, {
+      subject: `[Test] ${preview.data.subject}`,
+      html: preview.data.html,
+    });
+    if (!sent.success) return res.status(502).json({ error: sent.error });
+
+    await recordAdminAudit(req, {
+      entityType: 'campaign',
+      entityId: key,
+      targetType: 'email_template',
+      action: 'admin_email_template_test_sent',
+      summary: `Sent test of email template ${key} to ${email}`,
+    });
+    return res.json({ message: `Test email sent to ${email}` });
+  } catch (error) {
+    console.error('[Admin] Test-send email template error:', error);
+    return res.status(500).json({ error: 'Failed to send test email' });
+  }
+});
+
+// Captured outgoing email, available when EMAIL_TRANSPORT=capture.
+const mailboxDisabledError = 'Email capture is not enabled; set EMAIL_TRANSPORT=capture';
+
+router.get('/mailbox', requirePermission('campaigns:read'), async (req, res) => {
+  try {
+    const { getCaptureMailbox, getEmailTransport } = await import('../services/emailTransport.js');
+    const mailbox = getCaptureMailbox();
+    const transport = getEmailTransport()?.name ?? null;
+    if (!mailbox) return res.json({ data: [], meta: { enabled: false, transport } });
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '100'), 10) || 100, 1), 500);
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+    const messages = await mailbox.list({ to, limit });
+    return res.json({
+      data: messages.map((message) => ({
+        id: message.id,
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        createdAt: message.createdAt,
+      })),
+      meta: { enabled: true, transport },
+    });
+  } catch (error) {
+    console.error('[Admin] List mailbox error:', error);
+    return res.status(500).json({ error: 'Failed to load mailbox' });
+  }
+});
+
+router.get('/mailbox/:id', requirePermission('campaigns:read'), async (req, res) => {
+  try {
+    const { getCaptureMailbox } = await import('../services/emailTransport.js');
+    const mailbox = getCaptureMailbox();
+    if (!mailbox) return res.status(409).json({ error: mailboxDisabledError });
+
+    const message = await mailbox.get(String(req.params.id));
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+    return res.json({ data: message });
+  } catch (error) {
+    console.error('[Admin] Get mailbox message error:', error);
+    return res.status(500).json({ error: 'Failed to load message' });
+  }
+});
+
+router.delete('/mailbox', requirePermission('campaigns:write'), async (req, res) => {
+  try {
+    const { getCaptureMailbox } = await import('../services/emailTransport.js');
+    const mailbox = getCaptureMailbox();
+    if (!mailbox) return res.status(409).json({ error: mailboxDisabledError });
+
+    await mailbox.clear();
+    await recordAdminAudit(req, {
+      entityType: 'campaign',
+      entityId: 'mailbox',
+      targetType: 'email_mailbox',
+      action: 'admin_mailbox_cleared',
+      summary: 'Cleared captured email mailbox',
+    });
+    return res.json({ message: 'Mailbox cleared' });
+  } catch (error) {
+    console.error('[Admin] Clear mailbox error:', error);
+    return res.status(500).json({ error: 'Failed to clear mailbox' });
+  }
+});
+
 // ═══════════════════════════════════════════
 // EDITORIAL WORKFLOW
 // ═══════════════════════════════════════════
 
-router.post('/assign', async (req, res) => {
+router.post('/assign', requirePermission('workflow:manage'), async (req, res) => {
   try {
     const userId = req.user?.userId;
     if (!userId) return res.status(401).json({ error: 'Authentication required' });
@@ -1460,7 +2080,7 @@ router.post('/assign', async (req, res) => {
   }
 });
 
-router.post('/approve/:id', async (req, res) => {
+router.post('/approve/:id', requirePermission('workflow:manage'), async (req, res) => {
   try {
     const userId = req.user?.userId;
     if (!userId) return res.status(401).json({ error: 'Authentication required' });
@@ -1469,7 +2089,7 @@ router.post('/approve/:id', async (req, res) => {
     if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
     const { approveAnnouncement } = await import('../services/workflow.js');
-    const result = await approveAnnouncement(req.params.id, userId, parse.data.note);
+    const result = await approveAnnouncement(String(req.params.id), userId, parse.data.note);
     if (!result.success) return res.status(400).json({ error: result.error });
     return res.json({ message: 'Approved' });
   } catch (error) {
@@ -1478,7 +2098,7 @@ router.post('/approve/:id', async (req, res) => {
   }
 });
 
-router.post('/reject/:id', async (req, res) => {
+router.post('/reject/:id', requirePermission('workflow:manage'), async (req, res) => {
   try {
     const userId = req.user?.userId;
     if (!userId) return res.status(401).json({ error: 'Authentication required' });
@@ -1487,7 +2107,7 @@ router.post('/reject/:id', async (req, res) => {
     if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
     const { rejectAnnouncement } = await import('../services/workflow.js');
-    const result = await rejectAnnouncement(req.params.id, userId, parse.data.reason);
+    const result = await rejectAnnouncement(String(req.params.id), userId, parse.data.reason);
     if (!result.success) return res.status(400).json({ error: result.error });
     return res.json({ message: 'Rejected' });
   } catch (error) {
@@ -1496,7 +2116,7 @@ router.post('/reject/:id', async (req, res) => {
   }
 });
 
-router.get('/pending-approvals', async (req, res) => {
+router.get('/pending-approvals', requirePermission('workflow:manage'), async (req, res) => {
   try {
     const { getPendingApprovals } = await import('../services/workflow.js');
     const pending = await getPendingApprovals(req.query.assignee as string);
@@ -1507,10 +2127,10 @@ router.get('/pending-approvals', async (req, res) => {
   }
 });
 
-router.get('/workflow-logs/:id', async (req, res) => {
+router.get('/workflow-logs/:id', requirePermission('workflow:manage'), async (req, res) => {
   try {
     const { getWorkflowLogs } = await import('../services/workflow.js');
-    const logs = await getWorkflowLogs(req.params.id);
+    const logs = await getWorkflowLogs(String(req.params.id));
     return res.json({ data: logs });
   } catch (error) {
     console.error('[Admin] Workflow logs error:', error);
@@ -1518,7 +2138,7 @@ router.get('/workflow-logs/:id', async (req, res) => {
   }
 });
 
-router.get('/sla-violations', async (req, res) => {
+router.get('/sla-violations', requirePermission('workflow:manage'), async (req, res) => {
   try {
     const { checkSLAViolations } = await import('../services/workflow.js');
     const violations = await checkSLAViolations();
@@ -1533,7 +2153,7 @@ router.get('/sla-violations', async (req, res) => {
 // USER ENGAGEMENT
 // ═══════════════════════════════════════════
 
-router.get('/feedback', async (req, res) => {
+router.get('/feedback', requirePermission('reports:manage'), async (req, res) => {
   try {
     const parseResult = limitQuerySchema(50, 100).safeParse(req.query);
     if (!parseResult.success) {
@@ -1549,7 +2169,7 @@ router.get('/feedback', async (req, res) => {
   }
 });
 
-router.get('/comments-pending', async (req, res) => {
+router.get('/comments-pending', requirePermission('community:moderate'), async (req, res) => {
   try {
     const parseResult = limitQuerySchema(50, 100).safeParse(req.query);
     if (!parseResult.success) {
@@ -1565,20 +2185,20 @@ router.get('/comments-pending', async (req, res) => {
   }
 });
 
-router.post('/moderate-comment/:id', async (req, res) => {
+router.post('/moderate-comment/:id', requirePermission('community:moderate'), async (req, res) => {
   try {
     const parse = moderateCommentSchema.safeParse(req.body);
     if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
     const { moderateComment } = await import('../services/engagement.js');
-    const result = await moderateComment(req.params.id, parse.data.action);
+    const result = await moderateComment(String(req.params.id), parse.data.action);
     if (!result) return res.status(400).json({ error: 'Failed to moderate' });
     const moderationAction = parse.data.action === 'approve'
       ? 'admin_comment_approved'
       : 'admin_comment_rejected';
     await recordAdminAudit(req, {
       entityType: 'community',
-      entityId: req.params.id,
+      entityId: String(req.params.id),
       targetType: 'comment',
       action: moderationAction,
       summary: `${parse.data.action === 'approve' ? 'Approved' : 'Rejected'} comment ${req.params.id}`,
@@ -1594,7 +2214,7 @@ router.post('/moderate-comment/:id', async (req, res) => {
   }
 });
 
-router.get('/engagement-metrics', async (req, res) => {
+router.get('/engagement-metrics', requirePermission('analytics:read'), async (req, res) => {
   try {
     const parseResult = daysQuerySchema(30, 365).safeParse(req.query);
     if (!parseResult.success) {
@@ -1614,7 +2234,7 @@ router.get('/engagement-metrics', async (req, res) => {
 // SEO MONITORING
 // ═══════════════════════════════════════════
 
-router.get('/seo-metrics', async (req, res) => {
+router.get('/seo-metrics', requirePermission('analytics:read'), async (req, res) => {
   try {
     const { getSEOMetrics, getTopSearchQueries, getIndexCoverage } = await import('../services/seo.js');
     const [metrics, queries, coverage] = await Promise.all([
@@ -1634,7 +2254,7 @@ router.get('/seo-metrics', async (req, res) => {
 // ═══════════════════════════════════════════
 
 // Backups
-router.get('/backups', async (req, res) => {
+router.get('/backups', requirePermission('system:read'), async (req, res) => {
   try {
     const parseResult = limitQuerySchema(20, 100).safeParse(req.query);
     if (!parseResult.success) {
@@ -1650,7 +2270,7 @@ router.get('/backups', async (req, res) => {
   }
 });
 
-router.post('/export/announcements', async (req, res) => {
+router.post('/export/announcements', requirePermission('announcements:manage'), async (req, res) => {
   try {
     const { exportAnnouncementsToCSV } = await import('../services/backup.js');
     const csv = await exportAnnouncementsToCSV();
@@ -1664,7 +2284,7 @@ router.post('/export/announcements', async (req, res) => {
 });
 
 // Security Audit
-router.get('/security/events', async (req, res) => {
+router.get('/security/events', requirePermission('system:read'), async (req, res) => {
   try {
     const parseResult = securityEventsQuerySchema.safeParse(req.query);
     if (!parseResult.success) {
@@ -1684,7 +2304,7 @@ router.get('/security/events', async (req, res) => {
   }
 });
 
-router.get('/security/stats', async (req, res) => {
+router.get('/security/stats', requirePermission('system:read'), async (req, res) => {
   try {
     const { getSecurityStats, getFailedLoginAttempts } = await import('../services/security-audit.js');
     const [stats, failedLogins] = await Promise.all([
@@ -1699,7 +2319,7 @@ router.get('/security/stats', async (req, res) => {
 });
 
 // Performance
-router.get('/performance/summary', async (req, res) => {
+router.get('/performance/summary', requirePermission('system:read'), async (req, res) => {
   try {
     const { getPerformanceSummary, getSlowEndpoints, getErrorSummary } = await import('../services/performance.js');
     const [summary, slowEndpoints, errors] = await Promise.all([
@@ -1715,7 +2335,7 @@ router.get('/performance/summary', async (req, res) => {
 });
 
 // Rate Limiting
-router.get('/rate-limit/stats', async (req, res) => {
+router.get('/rate-limit/stats', requirePermission('system:read'), async (req, res) => {
   try {
     const { getRateLimitStats, getRateLimitByEndpoint } = await import('../services/rate-limit.js');
     const [stats, byEndpoint] = await Promise.all([
@@ -1730,7 +2350,7 @@ router.get('/rate-limit/stats', async (req, res) => {
 });
 
 // System Health
-router.get('/health', async (req, res) => {
+router.get('/health', requirePermission('system:read'), async (req, res) => {
   try {
     const { getSystemHealth, getServiceStatus, getRecentErrors } = await import('../services/health.js');
     const [health, services, errors] = await Promise.all([
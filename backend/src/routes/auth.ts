@@ -1,10 +1,21 @@
+import { randomUUID } from 'crypto';
+
 import express from 'express';
 import { rateLimit as expressRateLimit } from 'express-rate-limit';
 import jwt, { type SignOptions } from 'jsonwebtoken';
 import { z } from 'zod';
 
 import { config } from '../config.js';
-import { AUTH_COOKIE_NAME, authenticateToken, blacklistToken, optionalAuth } from '../middleware/auth.js';
+import {
+  AUTH_COOKIE_NAME,
+  authenticateToken,
+  blacklistToken,
+  getUserPermissions,
+  optionalAuth,
+  requireAdminStepUp,
+  requireEditorialAccess,
+} from '../middleware/auth.js';
+import { getCountry } from '../middleware/cloudflare.js';
 import { clearCsrfCookie, ensureCsrfCookie, setCsrfCookie } from '../middleware/csrf.js';
 import { rateLimit } from '../middleware/rateLimit.js';
 import {
@@ -14,7 +25,7 @@ import {
   recordFailedLoginWithEmail,
 } from '../middleware/security.js';
 import AuditLogModelPostgres from '../models/auditLogs.postgres.js';
-import { UserModelPostgres } from '../models/users.postgres.js';
+import { type User, UserModelPostgres } from '../models/users.postgres.js';
 import { recordAnalyticsEvent } from '../services/analytics.js';
 import { sendPasswordRecoveryEmail } from '../services/email.js';
 import {
@@ -24,7 +35,22 @@ import {
   revokePasswordRecoveryTokenForUser,
 } from '../services/passwordRecovery.js';
 import { checkPasswordSecurity } from '../services/passwordSecurity.js';
+import { SecurityLogger } from '../services/securityLogger.js';
 import { incrementAuthLoginFailure, incrementBruteForceBlockedResponse } from '../services/securityMetrics.js';
+import { createUserSession, listActiveSessions, revokeUserSessions, toSessionSummary } from '../services/sessions.js';
+import { issueStepUpToken } from '../services/stepUp.js';
+import { buildOtpAuthUri, findTotpStep, generateTotpSecret } from '../services/totp.js';
+import {
+  consumeTwoFactorChallenge,
+  enableTwoFactor,
+  getTwoFactorChallenge,
+  isTwoFactorEnforcedForRole,
+  issueTwoFactorChallenge,
+  markTwoFactorChallengeAttempt,
+  regenerateRecoveryCodes,
+  resetTwoFactor,
+  verifySecondFactor,
+} from '../services/twoFactor.js';
 
 const router = express.Router();
 
@@ -65,6 +91,28 @@ const passwordRecoveryResetSchema = passwordRecoveryTokenSchema.extend({
   password: passwordSchema,
 });
 
+const stepUpSchema = z.object({
+  password: z.string().min(1).max(200).optional(),
+  code: z.string().trim().regex(/^\d{6}$/).optional(),
+}).refine((value) => Boolean(value.password) !== Boolean(value.code), {
+  message: 'Provide either password or code',
+});
+
+const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().trim().min(20).max(300),
+});
+
+const twoFactorVerifySchema = twoFactorChallengeSchema.extend({
+  code: z.string().trim().regex(/^\d{6}$/).optional(),
+  recoveryCode: z.string().trim().min(8).max(40).optional(),
+}).refine((value) => Boolean(value.code) !== Boolean(value.recoveryCode), {
+  message: 'Provide either code or recoveryCode',
+});
+
+const twoFactorEnrolConfirmSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/),
+});
+
 const buildJwtOptions = (expiresIn: SignOptions['expiresIn']): SignOptions => {
   const options: SignOptions = { expiresIn };
   if (config.jwtIssuer) options.issuer = config.jwtIssuer;
@@ -105,6 +153,43 @@ const setAuthCookie = (
   setCsrfCookie(res);
 };
 
+/**
+ * Sign a JWT bound to a new session row (its `jti`) and set the auth cookie.
+ * The row is what lets users see and revoke where they're signed in.
+ */
+const issueSessionToken = async (req: express.Request, res: express.Response, user: User) => {
+  const sessionId = randomUUID();
+  const token = jwt.sign(
+    { userId: user.id, email: user.email, role: user.role },
+    config.jwtSecret,
+    { ...buildJwtOptions(config.jwtExpiry as SignOptions['expiresIn']), jwtid: sessionId }
+  );
+  const { exp } = jwt.decode(token) as { exp: number };
+
+  await createUserSession({
+    sessionId,
+    userId: user.id,
+    userAgent: req.get('user-agent'),
+    ipAddress: getClientIP(req),
+    country: getCountry(req),
+    expiresAt: new Date(exp * 1000),
+  });
+
+  setAuthCookie(res, token, config.jwtExpiry as SignOptions['expiresIn']);
+};
+
+const startSession = async (req: express.Request, res: express.Response, user: User) => {
+  await issueSessionToken(req, res, user);
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.username,
+    role: user.role,
+    permissions: await getUserPermissions(user.id, user.role),
+  };
+};
+
 const getBearerToken = (req: express.Request): string | undefined => {
   const authHeader = req.headers.authorization;
   return authHeader ? authHeader.split(' ')[1] : undefined;
@@ -166,13 +251,7 @@ router.post('/register', rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 10,
       role: 'user',
     });
 
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      config.jwtSecret,
-      buildJwtOptions(config.jwtExpiry as SignOptions['expiresIn'])
-    );
-
-    setAuthCookie(res, token, config.jwtExpiry as SignOptions['expiresIn']);
+    await issueSessionToken(req, res, user);
 
     recordAnalyticsEvent({
       type: 'auth_register',
@@ -221,24 +300,24 @@ router.post('/login', rateLimit({ windowMs: 60 * 1000, maxRequests: 20, keyPrefi
 
     await clearFailedLoginsWithEmail(clientIP, validated.email);
 
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      config.jwtSecret,
-      buildJwtOptions(config.jwtExpiry as SignOptions['expiresIn'])
-    );
-
-    setAuthCookie(res, token, config.jwtExpiry as SignOptions['expiresIn']);
-
-    return res.json({
-      data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.username,
-          role: user.role,
+    // Staff accounts with 2FA (or required to enrol) finish signing in via /2fa/verify.
+    const twoFactorStage = user.twoFactorEnabled
+      ? 'verify'
+      : await isTwoFactorEnforcedForRole(user.role) ? 'setup' : null;
+    if (twoFactorStage) {
+      const challengeToken = await issueTwoFactorChallenge({ userId: user.id, stage: twoFactorStage });
+      return res.json({
+        data: {
+          twoFactor: {
+            required: true,
+            setupRequired: twoFactorStage === 'setup',
+            challengeToken,
+          },
         },
-      },
-    });
+      });
+    }
+
+    return res.json({ data: { user: await startSession(req, res, user) } });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.flatten() });
@@ -370,6 +449,7 @@ router.post('/password-recovery/reset', rateLimit({ windowMs: 10 * 60 * 1000, ma
     }
 
     await revokePasswordRecoveryTokenForUser(consumed.userId);
+    await revokeUserSessions(consumed.userId, { reason: 'password_reset' });
 
     await AuditLogModelPostgres.create({
       entityType: 'auth',
@@ -397,6 +477,11 @@ router.post('/logout', async (req, res) => {
   const token = getAuthToken(req);
   if (token) {
     await blacklistToken(token);
+    const decoded = jwt.decode(token) as { jti?: string; userId?: string } | null;
+    if (decoded?.jti && decoded.userId) {
+      await revokeUserSessions(decoded.userId, { ids: [decoded.jti], reason: 'logout' })
+        .catch((error) => console.error('[Auth] Failed to revoke session on logout:', error));
+    }
   }
 
   res.clearCookie(AUTH_COOKIE_NAME, {
@@ -416,6 +501,323 @@ router.post('/logout', async (req, res) => {
   return res.json({ message: 'Logged out successfully' });
 });
 
+router.post('/2fa/setup', rateLimit({ windowMs: 10 * 60 * 1000, maxRequests: 20, keyPrefix: 'auth-2fa-setup' }), async (req, res) => {
+  try {
+    const validated = twoFactorChallengeSchema.parse(req.body);
+    const challenge = await getTwoFactorChallenge(validated.challengeToken);
+    if (!challenge || challenge.stage !== 'setup') {
+      return res.status(400).json({ error: 'invalid_or_expired_challenge', message: 'Sign-in has expired. Please sign in again.' });
+    }
+
+    const user = await UserModelPostgres.findById(challenge.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'User account deactivated' });
+    }
+
+    const secret = generateTotpSecret();
+    await UserModelPostgres.update(user.id, { twoFactorTempSecret: secret });
+
+    return res.json({
+      data: {
+        secret,
+        otpauthUri: buildOtpAuthUri({ secret, accountName: user.email, issuer: 'SarkariExams.me' }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.flatten() });
+    }
+    console.error('[Auth] Two-factor setup error:', error);
+    return res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+router.post('/2fa/verify', rateLimit({ windowMs: 10 * 60 * 1000, maxRequests: 30, keyPrefix: 'auth-2fa-verify' }), async (req, res) => {
+  const clientIP = getClientIP(req);
+
+  try {
+    const validated = twoFactorVerifySchema.parse(req.body);
+    const challenge = await getTwoFactorChallenge(validated.challengeToken);
+    if (!challenge) {
+      return res.status(400).json({ error: 'invalid_or_expired_challenge', message: 'Sign-in has expired. Please sign in again.' });
+    }
+
+    const user = await UserModelPostgres.findByIdWithSecrets(challenge.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'User account deactivated' });
+    }
+
+    let recoveryCodes: string[] | undefined;
+
+    if (challenge.stage === 'setup') {
+      const enrolmentStep = validated.code && user.twoFactorTempSecret
+        ? findTotpStep(user.twoFactorTempSecret, validated.code)
+        : null;
+      if (!user.twoFactorTempSecret || enrolmentStep === null) {
+        await markTwoFactorChallengeAttempt(validated.challengeToken);
+        return res.status(401).json({ error: 'Invalid two-factor code' });
+      }
+
+      recoveryCodes = await enableTwoFactor(user.id, user.twoFactorTempSecret, enrolmentStep);
+      await AuditLogModelPostgres.create({
+        entityType: 'auth',
+        entityId: user.id,
+        action: 'two_factor_enabled',
+        actorId: user.id,
+        actorRole: user.role,
+        summary: `Two-factor authentication enabled for ${maskEmail(user.email)}`,
+        metadata: {
+          requestIp: clientIP,
+        },
+      });
+    } else {
+      const verified = await verifySecondFactor(user, validated);
+      if (!verified) {
+        await markTwoFactorChallengeAttempt(validated.challengeToken);
+        incrementAuthLoginFailure();
+        return res.status(401).json({ error: 'Invalid two-factor code' });
+      }
+
+      if (verified.method === 'recovery_code') {
+        await SecurityLogger.log({
+          ip_address: clientIP,
+          event_type: 'two_factor',
+          endpoint: req.originalUrl,
+          metadata: {
+            action: 'recovery_code_used',
+            userId: user.id,
+            remainingRecoveryCodes: verified.remainingRecoveryCodes,
+          },
+        });
+        await AuditLogModelPostgres.create({
+          entityType: 'auth',
+          entityId: user.id,
+          action: 'two_factor_recovery_code_used',
+          actorId: user.id,
+          actorRole: user.role,
+          summary: `Recovery code used to sign in as ${maskEmail(user.email)}`,
+          metadata: {
+            requestIp: clientIP,
+            remainingRecoveryCodes: verified.remainingRecoveryCodes,
+          },
+        });
+      }
+    }
+
+    await consumeTwoFactorChallenge(validated.challengeToken);
+
+    return res.json({
+      data: {
+        user: await startSession(req, res, user),
+        ...(recoveryCodes ? { recoveryCodes } : {}),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.flatten() });
+    }
+    console.error('[Auth] Two-factor verify error:', error);
+    return res.status(500).json({ error: 'Failed to verify two-factor code' });
+  }
+});
+
+/** Security log and audit entry for a user changing their own two-factor setup. */
+const recordOwnTwoFactorChange = async (
+  req: express.Request,
+  user: Pick<User, 'id' | 'email' | 'role'>,
+  action: 'two_factor_enabled' | 'two_factor_recovery_codes_regenerated' | 'two_factor_disabled',
+  summary: string,
+) => {
+  await SecurityLogger.log({
+    ip_address: getClientIP(req),
+    event_type: 'two_factor',
+    endpoint: req.originalUrl,
+    metadata: {
+      action,
+      userId: user.id,
+      actorId: user.id,
+    },
+  });
+  await AuditLogModelPostgres.create({
+    entityType: 'auth',
+    entityId: user.id,
+    action,
+    actorId: user.id,
+    actorRole: user.role,
+    summary: `${summary} for ${maskEmail(user.email)}`,
+    metadata: {
+      requestIp: getClientIP(req),
+    },
+  });
+};
+
+// Self-service two-factor management from a signed-in session; every change needs a fresh step-up.
+router.post('/2fa/enrol', rateLimit({ windowMs: 10 * 60 * 1000, maxRequests: 20, keyPrefix: 'auth-2fa-enrol' }), authenticateToken, requireEditorialAccess, requireAdminStepUp, async (req, res) => {
+  try {
+    const user = await UserModelPostgres.findById(req.user!.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'User account deactivated' });
+    }
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateTotpSecret();
+    await UserModelPostgres.update(user.id, { twoFactorTempSecret: secret });
+
+    return res.json({
+      data: {
+        secret,
+        otpauthUri: buildOtpAuthUri({ secret, accountName: user.email, issuer: 'SarkariExams.me' }),
+      },
+    });
+  } catch (error) {
+    console.error('[Auth] Two-factor enrol error:', error);
+    return res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+router.post('/2fa/enrol/confirm', rateLimit({ windowMs: 10 * 60 * 1000, maxRequests: 30, keyPrefix: 'auth-2fa-enrol-confirm' }), authenticateToken, requireEditorialAccess, requireAdminStepUp, async (req, res) => {
+  try {
+    const validated = twoFactorEnrolConfirmSchema.parse(req.body);
+    const user = await UserModelPostgres.findByIdWithSecrets(req.user!.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'User account deactivated' });
+    }
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.twoFactorTempSecret) {
+      return res.status(400).json({ error: 'Start two-factor setup first' });
+    }
+
+    const enrolmentStep = findTotpStep(user.twoFactorTempSecret, validated.code);
+    if (enrolmentStep === null) {
+      return res.status(401).json({ error: 'Invalid two-factor code' });
+    }
+
+    const recoveryCodes = await enableTwoFactor(user.id, user.twoFactorTempSecret, enrolmentStep);
+    await recordOwnTwoFactorChange(req, user, 'two_factor_enabled', 'Two-factor authentication enabled');
+
+    return res.json({ data: { recoveryCodes } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.flatten() });
+    }
+    console.error('[Auth] Two-factor enrol confirm error:', error);
+    return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+router.post('/2fa/recovery-codes', rateLimit({ windowMs: 10 * 60 * 1000, maxRequests: 10, keyPrefix: 'auth-2fa-recovery-codes' }), authenticateToken, requireEditorialAccess, requireAdminStepUp, async (req, res) => {
+  try {
+    const user = await UserModelPostgres.findById(req.user!.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'User account deactivated' });
+    }
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    await recordOwnTwoFactorChange(req, user, 'two_factor_recovery_codes_regenerated', 'Recovery codes regenerated');
+
+    return res.json({ data: { recoveryCodes } });
+  } catch (error) {
+    console.error('[Auth] Recovery code regenerate error:', error);
+    return res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+router.post('/2fa/disable', rateLimit({ windowMs: 10 * 60 * 1000, maxRequests: 10, keyPrefix: 'auth-2fa-disable' }), authenticateToken, requireEditorialAccess, requireAdminStepUp, async (req, res) => {
+  try {
+    const user = await UserModelPostgres.findById(req.user!.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ error: 'User account deactivated' });
+    }
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+    if (await isTwoFactorEnforcedForRole(user.role)) {
+      return res.status(400).json({ error: 'Two-factor authentication is required for your role' });
+    }
+
+    await resetTwoFactor(user.id);
+    await recordOwnTwoFactorChange(req, user, 'two_factor_disabled', 'Two-factor authentication disabled');
+
+    return res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('[Auth] Two-factor disable error:', error);
+    return res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+router.post('/step-up', rateLimit({ windowMs: 15 * 60 * 1000, maxRequests: 10, keyPrefix: 'auth-step-up' }), authenticateToken, requireEditorialAccess, async (req, res) => {
+  try {
+    const validated = stepUpSchema.parse(req.body);
+    const userId = req.user!.userId;
+    const sessionToken = getAuthToken(req);
+    if (!sessionToken) {
+      return res.status(401).json({ error: 'Access token required' });
+    }
+
+    let verified = false;
+    if (validated.password) {
+      verified = await UserModelPostgres.verifyPasswordById(userId, validated.password);
+    } else if (validated.code) {
+      const account = await UserModelPostgres.findByIdWithSecrets(userId);
+      verified = Boolean(account && await verifySecondFactor(account, { code: validated.code }));
+    }
+    const method = validated.password ? 'password' : 'totp';
+
+    if (!verified) {
+      await AuditLogModelPostgres.create({
+        entityType: 'auth',
+        entityId: userId,
+        action: 'admin_step_up_failed',
+        actorId: userId,
+        actorRole: req.user!.role,
+        summary: 'Step-up re-authentication failed',
+        metadata: {
+          method,
+          requestIp: getClientIP(req),
+        },
+      });
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const { token, payload } = await issueStepUpToken({ userId, sessionToken, method });
+
+    await AuditLogModelPostgres.create({
+      entityType: 'auth',
+      entityId: userId,
+      action: 'admin_step_up_granted',
+      actorId: userId,
+      actorRole: req.user!.role,
+      summary: 'Step-up re-authentication granted',
+      metadata: {
+        method: payload.method,
+        expiresAt: payload.expiresAt,
+        requestIp: getClientIP(req),
+      },
+    });
+
+    return res.json({
+      data: {
+        stepUpToken: token,
+        method: payload.method,
+        expiresAt: payload.expiresAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.flatten() });
+    }
+    console.error('[Auth] Step-up error:', error);
+    return res.status(500).json({ error: 'Failed to verify credentials' });
+  }
+});
+
 router.get('/session', rateLimit({ windowMs: 60 * 1000, maxRequests: 120, keyPrefix: 'auth-session' }), optionalAuth, async (req, res) => {
   try {
     if (!req.user) {
@@ -436,6 +838,7 @@ router.get('/session', rateLimit({ windowMs: 60 * 1000, maxRequests: 120, keyPre
           email: user.email,
           name: user.username,
           role: user.role,
+          permissions: await getUserPermissions(user.id, user.role),
           isActive: user.isActive,
           createdAt: user.createdAt,
           lastLogin: user.lastLogin,
@@ -464,6 +867,7 @@ router.get('/me', rateLimit({ windowMs: 60 * 1000, maxRequests: 60, keyPrefix: '
           email: user.email,
           name: user.username,
           role: user.role,
+          permissions: await getUserPermissions(user.id, user.role),
           isActive: user.isActive,
           createdAt: user.createdAt,
           lastLogin: user.lastLogin,
@@ -476,4 +880,41 @@ router.get('/me', rateLimit({ windowMs: 60 * 1000, maxRequests: 60, keyPrefix: '
   }
 });
 
+router.get('/sessions', rateLimit({ windowMs: 60 * 1000, maxRequests: 60, keyPrefix: 'auth-sessions' }), authenticateToken, async (req, res) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.userId);
+    return res.json({ data: sessions.map((session) => toSessionSummary(session, req.sessionId)) });
+  } catch (error) {
+    console.error('[Auth] List sessions error:', error);
+    return res.status(500).json({ error: 'Failed to load sessions' });
+  }
+});
+
+router.delete('/sessions/:id', rateLimit({ windowMs: 60 * 1000, maxRequests: 30, keyPrefix: 'auth-sessions-revoke' }), authenticateToken, async (req, res) => {
+  try {
+    const sessionId = req.params.id as string;
+    const revoked = await revokeUserSessions(req.user!.userId, { ids: [sessionId], reason: 'user_revoked' });
+    if (revoked.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    return res.json({ message: 'Session revoked', data: { revoked: revoked.length, current: sessionId === req.sessionId } });
+  } catch (error) {
+    console.error('[Auth] Revoke session error:', error);
+    return res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+router.post('/sessions/revoke-others', rateLimit({ windowMs: 60 * 1000, maxRequests: 10, keyPrefix: 'auth-sessions-revoke-others' }), authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.userId, {
+      exceptId: req.sessionId,
+      reason: 'user_revoked_others',
+    });
+    return res.json({ message: 'Other sessions revoked', data: { revoked: revoked.length } });
+  } catch (error) {
+    console.error('[Auth] Revoke other sessions error:', error);
+    return res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
 export default router;
@@ -0,0 +1,77 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { calendarFeedQuerySchema, taxonomyTypeValues } from '../content/types.js';
+import { cacheControl, noCache } from '../middleware/cacheControl.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { buildTaxonomyCalendar, buildUserCalendar } from '../services/calendarFeeds.js';
+
+const router = express.Router();
+
+const taxonomyParamSchema = z.object({
+  type: z.enum(taxonomyTypeValues),
+  file: z.string().regex(/^[a-z0-9-]{1,160}\.ics$/),
+});
+
+const feedParamSchema = z.object({
+  file: z.string().regex(/^[A-Za-z0-9_-]{20,100}\.ics$/),
+});
+
+function sendCalendar(res: express.Response, body: string, filename: string) {
+  res.type('text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+  return res.send(body);
+}
+
+router.get(
+  '/taxonomies/:type/:file',
+  cacheControl(1800),
+  async (req, res) => {
+    const params = taxonomyParamSchema.safeParse(req.params);
+    if (!params.success) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+    const query = calendarFeedQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: query.error.flatten() });
+    }
+
+    try {
+      const slug = params.data.file.replace(/\.ics$/, '');
+      const calendar = await buildTaxonomyCalendar(params.data.type, slug, query.data);
+      if (!calendar) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+      return sendCalendar(res, calendar, params.data.file);
+    } catch (error) {
+      console.error('[Calendar] Taxonomy feed error:', error);
+      return res.status(500).json({ error: 'Failed to build calendar' });
+    }
+  },
+);
+
+router.get(
+  '/feeds/:file',
+  noCache,
+  rateLimit({ windowMs: 60 * 1000, maxRequests: 30, keyPrefix: 'calendar-feed' }),
+  async (req, res) => {
+    res.setHeader('X-Robots-Tag', 'noindex');
+    const params = feedParamSchema.safeParse(req.params);
+    if (!params.success) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    try {
+      const calendar = await buildUserCalendar(params.data.file.replace(/\.ics$/, ''));
+      if (!calendar) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+      return sendCalendar(res, calendar, 'my-deadlines.ics');
+    } catch (error) {
+      console.error('[Calendar] Personal feed error:', error);
+      return res.status(500).json({ error: 'Failed to build calendar' });
+    }
+  },
+);
+
+export default router;
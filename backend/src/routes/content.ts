@@ -1,28 +1,51 @@
+import fs from 'fs/promises';
+
 import express from 'express';
 import { z } from 'zod';
 
-import { contentPageTypeValues, publicPostListQuerySchema, taxonomyTypeValues } from '../content/types.js';
+import {
+  contentLocaleValues,
+  contentPageTypeValues,
+  postTypeValues,
+  publicLocaleQuerySchema,
+  publicPostListQuerySchema,
+  taxonomyTypeValues,
+} from '../content/types.js';
 import { cacheMiddleware } from '../middleware/cache.js';
 import { cacheControl } from '../middleware/cacheControl.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { localizeCard, localizeContentPage, localizeDetail, localizeTaxonomy } from '../services/contentLocalization.js';
 import { getContentPageReadModel, getContentPostReadModel, getContentTaxonomyReadModel } from '../services/contentReadProvider.js';
-import { postgresTokenSearchAdapter } from '../services/searchAdapter.js';
+import { notificationPdfPath } from '../services/notificationPdfs.js';
+import { getContentSearchAdapter } from '../services/searchAdapter.js';
+import { getSearchCorrection, getSearchSuggestions } from '../services/searchSuggest.js';
 
 const router = express.Router();
 const PostModel = getContentPostReadModel();
 const TaxonomyModel = getContentTaxonomyReadModel();
 const PageModel = getContentPageReadModel();
+const searchAdapter = getContentSearchAdapter();
 
 const homepageQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(20).default(12),
+  locale: z.enum(contentLocaleValues).default('en'),
 });
 
 const taxonomyQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(50).default(20),
+  locale: z.enum(contentLocaleValues).default('en'),
+});
+
+const searchSuggestQuerySchema = z.object({
+  q: z.string().trim().max(100).optional().default(''),
+  type: z.enum(postTypeValues).optional(),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
 });
 
 const contentPageListQuerySchema = z.object({
   type: z.enum(contentPageTypeValues).optional(),
   limit: z.coerce.number().int().min(1).max(200).default(100),
+  locale: z.enum(contentLocaleValues).default('en'),
 });
 
 router.get(
@@ -36,8 +59,12 @@ router.get(
         return res.status(400).json({ error: parse.error.flatten() });
       }
 
+      const { locale } = parse.data;
       const sections = await PostModel.getHomepageSections(parse.data.limit);
-      return res.json({ data: sections });
+      const localized = Object.fromEntries(
+        Object.entries(sections).map(([section, cards]) => [section, cards.map((card) => localizeCard(card, locale))]),
+      );
+      return res.json({ data: localized });
     } catch (error) {
       console.error('[Content] Homepage error:', error);
       return res.status(500).json({ error: 'Failed to fetch homepage content' });
@@ -56,16 +83,17 @@ router.get(
         return res.status(400).json({ error: parse.error.flatten() });
       }
 
-      const filters = postgresTokenSearchAdapter.normalize(parse.data);
+      const filters = searchAdapter.normalize(parse.data);
       const result = await PostModel.findPublicCards({
         ...filters,
         status: parse.data.status,
         sort: parse.data.sort,
         limit: parse.data.limit,
         offset: parse.data.offset,
+        searchAdapter,
       });
 
-      return res.json(result);
+      return res.json({ ...result, data: result.data.map((card) => localizeCard(card, parse.data.locale)) });
     } catch (error) {
       console.error('[Content] List posts error:', error);
       return res.status(500).json({ error: 'Failed to fetch posts' });
@@ -73,17 +101,68 @@ router.get(
   },
 );
 
+router.get(
+  '/search/suggest',
+  rateLimit({ windowMs: 60 * 1000, maxRequests: 120, keyPrefix: 'content-suggest' }),
+  cacheMiddleware({ ttl: 180 }),
+  cacheControl(60),
+  async (req, res) => {
+    try {
+      const parse = searchSuggestQuerySchema.safeParse(req.query);
+      if (!parse.success) {
+        return res.status(400).json({ error: parse.error.flatten() });
+      }
+
+      const { q, type, limit } = parse.data;
+      const suggestions = await getSearchSuggestions(q, { limit, type });
+
+      // Only offer a correction when the query as typed finds nothing.
+      let resultCount: number | null = null;
+      let didYouMean = null;
+      if (suggestions.query.length >= 2) {
+        const main = await PostModel.findPublicCards({
+          ...searchAdapter.normalize({ search: q, type }),
+          status: 'active',
+          limit: 1,
+          searchAdapter,
+        });
+        resultCount = main.total;
+        if (main.total === 0) {
+          didYouMean = await getSearchCorrection(q);
+        }
+      }
+
+      return res.json({
+        data: {
+          query: suggestions.query,
+          groups: suggestions.groups,
+          resultCount,
+          didYouMean,
+        },
+      });
+    } catch (error) {
+      console.error('[Content] Search suggest error:', error);
+      return res.status(500).json({ error: 'Failed to fetch search suggestions' });
+    }
+  },
+);
+
 router.get(
   '/posts/:slug',
   cacheMiddleware({ ttl: 180 }),
   cacheControl(120),
   async (req, res) => {
     try {
+      const parse = publicLocaleQuerySchema.safeParse(req.query);
+      if (!parse.success) {
+        return res.status(400).json({ error: parse.error.flatten() });
+      }
+
       const detail = await PostModel.findBySlugOrLegacy(String(req.params.slug));
       if (!detail) {
         return res.status(404).json({ error: 'Post not found' });
       }
-      return res.json({ data: detail });
+      return res.json({ data: localizeDetail(detail, parse.data.locale) });
     } catch (error) {
       console.error('[Content] Post detail error:', error);
       return res.status(500).json({ error: 'Failed to fetch post detail' });
@@ -107,7 +186,7 @@ router.get(
       }
 
       const pages = await PageModel.listPublicByType(parse.data.type, parse.data.limit);
-      return res.json({ data: pages });
+      return res.json({ data: pages.map((page) => localizeContentPage(page, parse.data.locale)) });
     } catch (error) {
       console.error('[Content] Page list error:', error);
       return res.status(500).json({ error: 'Failed to fetch content pages' });
@@ -121,11 +200,16 @@ router.get(
   cacheControl(180),
   async (req, res) => {
     try {
+      const parse = publicLocaleQuerySchema.safeParse(req.query);
+      if (!parse.success) {
+        return res.status(400).json({ error: parse.error.flatten() });
+      }
+
       const page = await PageModel.findPublicBySlug(String(req.params.slug));
       if (!page) {
         return res.status(404).json({ error: 'Content page not found' });
       }
-      return res.json({ data: page });
+      return res.json({ data: localizeContentPage(page, parse.data.locale) });
     } catch (error) {
       console.error('[Content] Page detail error:', error);
       return res.status(500).json({ error: 'Failed to fetch content page' });
@@ -150,7 +234,7 @@ router.get(
       }
 
       const result = await TaxonomyModel.list(type, parse.data.limit);
-      return res.json({ data: result });
+      return res.json({ data: result.map((taxonomy) => localizeTaxonomy(taxonomy, parse.data.locale)) });
     } catch (error) {
       console.error('[Content] Taxonomy list error:', error);
       return res.status(500).json({ error: 'Failed to fetch taxonomies' });
@@ -179,7 +263,14 @@ router.get(
         return res.status(404).json({ error: 'Taxonomy not found' });
       }
 
-      return res.json({ data: landing });
+      const { locale } = parse.data;
+      return res.json({
+        data: {
+          ...landing,
+          taxonomy: localizeTaxonomy(landing.taxonomy, locale),
+          cards: landing.cards.map((card) => localizeCard(card, locale)),
+        },
+      });
     } catch (error) {
       console.error('[Content] Taxonomy detail error:', error);
       return res.status(500).json({ error: 'Failed to fetch taxonomy landing page' });
@@ -187,4 +278,22 @@ router.get(
   },
 );
 
+router.get(
+  '/notification-pdfs/:file',
+  cacheControl(86400),
+  async (req, res) => {
+    const filePath = notificationPdfPath(String(req.params.file));
+    if (!filePath) {
+      return res.status(404).json({ error: 'Notification PDF not found' });
+    }
+    try {
+      await fs.access(filePath);
+    } catch {
+      return res.status(404).json({ error: 'Notification PDF not found' });
+    }
+    res.type('application/pdf');
+    return res.sendFile(filePath);
+  },
+);
+
 export default router;
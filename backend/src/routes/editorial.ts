@@ -7,18 +7,41 @@ import {
   alertSubscriptionAdminQuerySchema,
   adminPostListQuerySchema,
   editorialQueueQuerySchema,
+  examCycleQuerySchema,
   type PostRecord,
   postEditorSchema,
+  postScheduleSchema,
+  scheduledPostsQuerySchema,
   taxonomyEditorSchema,
+  type TaxonomyDocument,
   taxonomyTypeValues,
   workflowBulkActionSchema,
   workflowFreshnessSweepSchema,
   workflowNoteSchema,
 } from '../content/types.js';
-import { authenticateToken, requireEditorialAccess, requireRoles } from '../middleware/auth.js';
+import { authenticateToken, requireEditorialAccess, requirePermission, userHasPermission } from '../middleware/auth.js';
 import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
+import SourceMonitorModelPostgres, { sourceChangeTaskStatuses, type SourceChangeTaskRecord } from '../models/sourceMonitors.postgres.js';
 import { getEditorialDataProvider } from '../services/editorialDataProvider.js';
+import { queueExamCycleAlerts } from '../services/examCycleAlerts.js';
 import { triggerFrontendRevalidation } from '../services/frontendRevalidation.js';
+import { importNotificationPdf, notificationPdfUploadSchema } from '../services/notificationPdfs.js';
+import { PdfTextError } from '../services/pdfText.js';
+import type { Permission } from '../services/permissions.js';
+import { POST_DIFF_ROW_FIELDS, POST_DIFF_VALUE_FIELDS } from '../services/postDiff.js';
+import {
+  confirmPostDistinct,
+  findPostDuplicates,
+  getDuplicateSubmitBlock,
+  mergeDuplicatePost,
+  type PostDuplicateMatch,
+  postDuplicateConfirmSchema,
+  postMergeSchema,
+} from '../services/postDuplicates.js';
+import { postImportRunSchema, postImportSourceSchema, previewPostImport, runPostImport } from '../services/postImport.js';
+import { queuePostPushAlerts } from '../services/pushAlerts.js';
+import { queueSearchVocabularyRefresh } from '../services/searchSuggest.js';
+import { checkPostSource, getSourceMonitorSummaries } from '../services/sourceMonitor.js';
 
 const router = express.Router();
 const { postModel, taxonomyModel, auditLogModel } = getEditorialDataProvider();
@@ -43,16 +66,46 @@ async function buildEditorialResponse(post: PostRecord | null, forceRevalidate =
   return { data: post, revalidation };
 }
 
-function canRunWorkflowAction(role: string | undefined, action: 'submit' | 'approve' | 'publish' | 'unpublish' | 'archive' | 'restore') {
-  if (['admin', 'superadmin'].includes(role || '')) return true;
-  if (action === 'submit' && role === 'editor') return true;
-  if (action === 'approve' && role === 'reviewer') return true;
-  return false;
+// Saving never fails because the detector did; the submit gate checks again.
+async function detectDuplicates(post: PostRecord): Promise<PostDuplicateMatch[]> {
+  try {
+    return await findPostDuplicates(post);
+  } catch (error) {
+    console.error('[Editorial] Duplicate detection error:', error);
+    return [];
+  }
 }
 
+const WORKFLOW_ACTION_PERMISSIONS: Record<'submit' | 'approve' | 'publish' | 'unpublish' | 'archive' | 'restore', Permission> = {
+  submit: 'posts:submit',
+  approve: 'posts:approve',
+  publish: 'posts:publish',
+  unpublish: 'posts:publish',
+  archive: 'posts:archive',
+  restore: 'posts:archive',
+};
+
 const revertVersionSchema = z.object({
   version: z.coerce.number().int().min(1),
   note: z.string().trim().max(500).optional(),
+  fields: z.array(z.enum(POST_DIFF_VALUE_FIELDS)).max(POST_DIFF_VALUE_FIELDS.length).optional(),
+  rows: z.record(z.enum(POST_DIFF_ROW_FIELDS), z.array(z.number().int().min(0).max(500)).max(500)).optional(),
+});
+
+const versionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+const sourceChangeQuerySchema = z.object({
+  status: z.enum(sourceChangeTaskStatuses).default('open'),
+  postId: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const sourceChangeCloseSchema = z.object({
+  status: z.enum(['resolved', 'dismissed']).default('resolved'),
+  note: z.string().trim().max(500).optional(),
 });
 
 router.use(authenticateToken);
@@ -123,7 +176,7 @@ router.get('/posts/:id', async (req, res) => {
   }
 });
 
-router.post('/posts', requireRoles('editor', 'reviewer', 'admin', 'superadmin'), async (req, res) => {
+router.post('/posts', requirePermission('posts:write'), async (req, res) => {
   try {
     const parse = postEditorSchema.safeParse(req.body);
     if (!parse.success) {
@@ -158,14 +211,57 @@ router.post('/posts', requireRoles('editor', 'reviewer', 'admin', 'superadmin'),
       parse.data.versionNote,
     );
 
-    return res.status(201).json({ data: post });
+    return res.status(201).json({ data: post, duplicates: await detectDuplicates(post) });
   } catch (error) {
     console.error('[Editorial] Create post error:', error);
     return res.status(500).json({ error: 'Failed to create post' });
   }
 });
 
-router.put('/posts/:id', requireRoles('editor', 'reviewer', 'admin', 'superadmin'), async (req, res) => {
+router.post('/notification-pdfs', requirePermission('posts:write'), async (req, res) => {
+  try {
+    const parse = notificationPdfUploadSchema.safeParse(req.body);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    return res.status(201).json({ data: await importNotificationPdf(parse.data) });
+  } catch (error) {
+    if (error instanceof PdfTextError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('[Editorial] Notification PDF import error:', error);
+    return res.status(500).json({ error: 'Failed to import notification PDF' });
+  }
+});
+
+router.post('/imports/parse', requirePermission('posts:write'), async (req, res) => {
+  try {
+    const parse = postImportSourceSchema.safeParse(req.body);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    return res.json({ data: previewPostImport(parse.data) });
+  } catch (error) {
+    console.error('[Editorial] Import parse error:', error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to read import file' });
+  }
+});
+
+router.post('/imports/run', requirePermission('posts:write'), async (req, res) => {
+  try {
+    const parse = postImportRunSchema.safeParse(req.body);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const report = await runPostImport(parse.data, { userId: req.user?.userId, role: req.user?.role });
+    return res.status(report.dryRun ? 200 : 201).json({ data: report });
+  } catch (error) {
+    console.error('[Editorial] Import run error:', error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to import posts' });
+  }
+});
+
+router.put('/posts/:id', requirePermission('posts:write'), async (req, res) => {
   try {
     const parse = postEditorSchema.partial().safeParse(req.body);
     if (!parse.success) {
@@ -197,21 +293,30 @@ router.put('/posts/:id', requireRoles('editor', 'reviewer', 'admin', 'superadmin
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
-    return res.json(await buildEditorialResponse(post));
+    return res.json({ ...(await buildEditorialResponse(post)), duplicates: await detectDuplicates(post) });
   } catch (error) {
     console.error('[Editorial] Update post error:', error);
     return res.status(500).json({ error: 'Failed to update post' });
   }
 });
 
-router.post('/posts/:id/submit', requireRoles('editor', 'admin', 'superadmin'), async (req, res) => {
+router.post('/posts/:id/submit', requirePermission('posts:submit'), async (req, res) => {
   try {
     const parse = workflowNoteSchema.safeParse(req.body ?? {});
     if (!parse.success) {
       return res.status(400).json({ error: parse.error.flatten() });
     }
 
-    const post = await postModel.transition(String(req.params.id), 'submit', req.user?.userId, req.user?.role, parse.data.note);
+    const existing = await postModel.findById(String(req.params.id));
+    if (!existing) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    const duplicateBlock = await getDuplicateSubmitBlock(existing);
+    if (duplicateBlock) {
+      return res.status(409).json({ error: duplicateBlock, duplicates: await findPostDuplicates(existing) });
+    }
+
+    const post = await postModel.transition(existing.id, 'submit', req.user?.userId, req.user?.role, parse.data.note);
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
@@ -222,7 +327,70 @@ router.post('/posts/:id/submit', requireRoles('editor', 'admin', 'superadmin'),
   }
 });
 
-router.post('/posts/:id/approve', requireRoles('reviewer', 'admin', 'superadmin'), async (req, res) => {
+router.get('/posts/:id/duplicates', async (req, res) => {
+  try {
+    const post = await postModel.findById(String(req.params.id));
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    return res.json({ data: await findPostDuplicates(post) });
+  } catch (error) {
+    console.error('[Editorial] Duplicate list error:', error);
+    return res.status(500).json({ error: 'Failed to check for duplicates' });
+  }
+});
+
+router.post('/posts/:id/duplicates/:otherId/confirm-distinct', requirePermission('posts:write'), async (req, res) => {
+  try {
+    const parse = postDuplicateConfirmSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const [post, other] = await Promise.all([
+      postModel.findById(String(req.params.id)),
+      postModel.findById(String(req.params.otherId)),
+    ]);
+    if (!post || !other) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    const review = await confirmPostDistinct(post.id, other.id, req.user?.userId, parse.data.note);
+    return res.json({ data: review });
+  } catch (error) {
+    console.error('[Editorial] Duplicate confirm error:', error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to record duplicate review' });
+  }
+});
+
+router.post('/posts/:id/merge', requirePermission('posts:write'), async (req, res) => {
+  try {
+    const parse = postMergeSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const duplicate = await postModel.findById(parse.data.duplicateId);
+    if (!duplicate) {
+      return res.status(404).json({ error: 'Duplicate post not found' });
+    }
+    // Merging archives the duplicate, so a live one needs the archive permission.
+    if (['approved', 'published'].includes(duplicate.status) && !(await userHasPermission(req, 'posts:archive'))) {
+      return res.status(403).json({ error: 'Insufficient permissions to archive the duplicate', permission: 'posts:archive' });
+    }
+
+    const result = await mergeDuplicatePost(String(req.params.id), duplicate.id, { userId: req.user?.userId, role: req.user?.role }, parse.data.note);
+    if (!result) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (duplicate.status === 'published') {
+      await triggerFrontendRevalidation(result.merged).catch((error) => console.error('[Editorial] Merge revalidation error:', error));
+    }
+    return res.json({ ...(await buildEditorialResponse(result.post)), merged: result.merged });
+  } catch (error) {
+    console.error('[Editorial] Merge error:', error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to merge posts' });
+  }
+});
+
+router.post('/posts/:id/approve', requirePermission('posts:approve'), async (req, res) => {
   try {
     const parse = workflowNoteSchema.safeParse(req.body ?? {});
     if (!parse.success) {
@@ -239,7 +407,7 @@ router.post('/posts/:id/approve', requireRoles('reviewer', 'admin', 'superadmin'
   }
 });
 
-router.post('/posts/:id/publish', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.post('/posts/:id/publish', requirePermission('posts:publish'), async (req, res) => {
   try {
     const parse = workflowNoteSchema.safeParse(req.body ?? {});
     if (!parse.success) {
@@ -249,6 +417,9 @@ router.post('/posts/:id/publish', requireRoles('admin', 'superadmin'), async (re
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
+    queuePostPushAlerts([post]);
+    queueExamCycleAlerts([post]);
+    queueSearchVocabularyRefresh();
     return res.json(await buildEditorialResponse(post, true));
   } catch (error) {
     console.error('[Editorial] Publish error:', error);
@@ -256,7 +427,7 @@ router.post('/posts/:id/publish', requireRoles('admin', 'superadmin'), async (re
   }
 });
 
-router.post('/posts/:id/unpublish', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.post('/posts/:id/unpublish', requirePermission('posts:publish'), async (req, res) => {
   try {
     const parse = workflowNoteSchema.safeParse(req.body ?? {});
     if (!parse.success) {
@@ -273,7 +444,7 @@ router.post('/posts/:id/unpublish', requireRoles('admin', 'superadmin'), async (
   }
 });
 
-router.post('/posts/:id/archive', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.post('/posts/:id/archive', requirePermission('posts:archive'), async (req, res) => {
   try {
     const parse = workflowNoteSchema.safeParse(req.body ?? {});
     if (!parse.success) {
@@ -290,7 +461,7 @@ router.post('/posts/:id/archive', requireRoles('admin', 'superadmin'), async (re
   }
 });
 
-router.post('/posts/:id/restore', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.post('/posts/:id/restore', requirePermission('posts:archive'), async (req, res) => {
   try {
     const parse = workflowNoteSchema.safeParse(req.body ?? {});
     if (!parse.success) {
@@ -307,6 +478,48 @@ router.post('/posts/:id/restore', requireRoles('admin', 'superadmin'), async (re
   }
 });
 
+router.put('/posts/:id/schedule', requirePermission('posts:publish'), async (req, res) => {
+  try {
+    const parse = postScheduleSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const toDate = (value?: string | null) => (typeof value === 'string' ? new Date(value) : value);
+    const post = await postModel.setSchedule(
+      String(req.params.id),
+      { publishAt: toDate(parse.data.publishAt), unpublishAt: toDate(parse.data.unpublishAt) },
+      req.user?.userId,
+      req.user?.role,
+      parse.data.note,
+    );
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    return res.json({ data: post });
+  } catch (error) {
+    console.error('[Editorial] Schedule error:', error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to schedule post' });
+  }
+});
+
+router.delete('/posts/:id/schedule', requirePermission('posts:publish'), async (req, res) => {
+  try {
+    const post = await postModel.setSchedule(
+      String(req.params.id),
+      { publishAt: null, unpublishAt: null },
+      req.user?.userId,
+      req.user?.role,
+    );
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    return res.json({ data: post });
+  } catch (error) {
+    console.error('[Editorial] Cancel schedule error:', error);
+    return res.status(500).json({ error: 'Failed to cancel schedule' });
+  }
+});
+
 router.get('/posts/:id/history', async (req, res) => {
   try {
     const history = await postModel.getHistory(String(req.params.id));
@@ -317,20 +530,36 @@ router.get('/posts/:id/history', async (req, res) => {
   }
 });
 
-router.post('/posts/:id/revert', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.get('/posts/:id/diff', async (req, res) => {
+  try {
+    const parse = versionDiffQuerySchema.safeParse(req.query);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+
+    const diff = await postModel.getVersionDiff(String(req.params.id), parse.data.from, parse.data.to);
+    if (!diff) {
+      return res.status(404).json({ error: 'Post or version not found' });
+    }
+    return res.json({ data: diff });
+  } catch (error) {
+    console.error('[Editorial] Version diff error:', error);
+    return res.status(500).json({ error: 'Failed to compare post versions' });
+  }
+});
+
+router.post('/posts/:id/revert', requirePermission('posts:revert'), async (req, res) => {
   try {
     const parse = revertVersionSchema.safeParse(req.body ?? {});
     if (!parse.success) {
       return res.status(400).json({ error: parse.error.flatten() });
     }
 
-    const reverted = await postModel.revertToVersion(
-      String(req.params.id),
-      parse.data.version,
-      req.user?.userId,
-      req.user?.role,
-      parse.data.note,
-    );
+    // Passing fields or rows reverts only those; otherwise the whole version is restored.
+    const { version, note, fields, rows } = parse.data;
+    const reverted = fields || rows
+      ? await postModel.revertFields(String(req.params.id), version, { fields, rows }, req.user?.userId, req.user?.role, note)
+      : await postModel.revertToVersion(String(req.params.id), version, req.user?.userId, req.user?.role, note);
 
     if (!reverted) {
       return res.status(404).json({ error: 'Post or version not found' });
@@ -356,6 +585,24 @@ router.get('/posts/:id/alert-preview', async (req, res) => {
   }
 });
 
+router.get('/workflow/scheduled', async (req, res) => {
+  try {
+    const parse = scheduledPostsQuerySchema.safeParse(req.query);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const items = await postModel.listScheduled({
+      from: parse.data.from ? new Date(parse.data.from) : undefined,
+      to: parse.data.to ? new Date(parse.data.to) : undefined,
+      limit: parse.data.limit,
+    });
+    return res.json({ data: items });
+  } catch (error) {
+    console.error('[Editorial] Scheduled queue error:', error);
+    return res.status(500).json({ error: 'Failed to fetch scheduled posts' });
+  }
+});
+
 router.get('/workflow/pending', async (_req, res) => {
   try {
     const result = await postModel.findAdmin({ status: 'in_review', limit: 100, sort: 'updated' });
@@ -372,7 +619,22 @@ router.get('/workflow/freshness', async (req, res) => {
     if (!parse.success) {
       return res.status(400).json({ error: parse.error.flatten() });
     }
-    const result = await postModel.listFreshnessQueue(parse.data.limit);
+    const [queue, tasks] = await Promise.all([
+      postModel.listFreshnessQueue(parse.data.limit),
+      SourceMonitorModelPostgres.listTasks({ status: 'open', limit: parse.data.limit }),
+    ]);
+
+    // Posts with an open source change task lead the queue, even if they are not otherwise stale.
+    const taskByPost = new Map<string, SourceChangeTaskRecord>();
+    for (const task of tasks) {
+      if (!taskByPost.has(task.postId)) taskByPost.set(task.postId, task);
+    }
+    const queuedIds = new Set(queue.map((post) => post.id));
+    const flagged = await postModel.findByIds(Array.from(taskByPost.keys()).filter((id) => !queuedIds.has(id)));
+    const result = [...flagged, ...queue]
+      .map((post) => ({ ...post, sourceChange: taskByPost.get(post.id) ?? null }))
+      .sort((a, b) => Number(Boolean(b.sourceChange)) - Number(Boolean(a.sourceChange)))
+      .slice(0, parse.data.limit);
     return res.json({ data: result });
   } catch (error) {
     console.error('[Editorial] Freshness queue error:', error);
@@ -386,7 +648,9 @@ router.get('/workflow/trust', async (req, res) => {
     if (!parse.success) {
       return res.status(400).json({ error: parse.error.flatten() });
     }
-    const result = await postModel.listTrustQueue(parse.data.limit);
+    const posts = await postModel.listTrustQueue(parse.data.limit);
+    const monitors = await getSourceMonitorSummaries(posts.map((post) => post.id));
+    const result = posts.map((post) => ({ ...post, sourceMonitor: monitors.get(post.id) ?? null }));
     return res.json({ data: result });
   } catch (error) {
     console.error('[Editorial] Trust queue error:', error);
@@ -436,24 +700,44 @@ router.get('/workflow/alerts-impact', async (req, res) => {
   }
 });
 
-router.post('/workflow/bulk-transition', requireRoles('editor', 'reviewer', 'admin', 'superadmin'), async (req, res) => {
+router.post('/workflow/bulk-transition', requirePermission('posts:write'), async (req, res) => {
   try {
     const parse = workflowBulkActionSchema.safeParse(req.body ?? {});
     if (!parse.success) {
       return res.status(400).json({ error: parse.error.flatten() });
     }
 
-    if (!canRunWorkflowAction(req.user?.role, parse.data.action)) {
+    if (!(await userHasPermission(req, WORKFLOW_ACTION_PERMISSIONS[parse.data.action]))) {
       return res.status(403).json({ error: 'Insufficient role for requested workflow action' });
     }
 
-    const result = await postModel.bulkTransition(
-      parse.data.ids,
+    const blocked: Array<{ id: string; error: string }> = [];
+    if (parse.data.action === 'submit') {
+      for (const post of await postModel.findByIds(parse.data.ids)) {
+        const duplicateBlock = await getDuplicateSubmitBlock(post);
+        if (duplicateBlock) blocked.push({ id: post.id, error: duplicateBlock });
+      }
+    }
+
+    const transitioned = await postModel.bulkTransition(
+      parse.data.ids.filter((id) => !blocked.some((item) => item.id === id)),
       parse.data.action,
       req.user?.userId,
       req.user?.role,
       parse.data.note,
     );
+    const result = blocked.length === 0 ? transitioned : {
+      ...transitioned,
+      total: transitioned.total + blocked.length,
+      failureCount: transitioned.failureCount + blocked.length,
+      failures: [...blocked, ...transitioned.failures],
+    };
+
+    if (parse.data.action === 'publish') {
+      queuePostPushAlerts(result.updated);
+      queueExamCycleAlerts(result.updated);
+      if (result.updated.length > 0) queueSearchVocabularyRefresh();
+    }
 
     let revalidatedCount = 0;
     if (['publish', 'unpublish', 'archive', 'restore'].includes(parse.data.action) && result.updated.length > 0) {
@@ -473,7 +757,61 @@ router.post('/workflow/bulk-transition', requireRoles('editor', 'reviewer', 'adm
   }
 });
 
-router.post('/workflow/freshness/sweep', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.get('/workflow/source-changes', async (req, res) => {
+  try {
+    const parse = sourceChangeQuerySchema.safeParse(req.query);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const data = await SourceMonitorModelPostgres.listTasks(parse.data);
+    return res.json({ data });
+  } catch (error) {
+    console.error('[Editorial] Source change list error:', error);
+    return res.status(500).json({ error: 'Failed to fetch source change tasks' });
+  }
+});
+
+router.post('/workflow/source-changes/:id/close', requirePermission('workflow:freshness'), async (req, res) => {
+  try {
+    const parse = sourceChangeCloseSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const task = await SourceMonitorModelPostgres.closeTask(String(req.params.id), {
+      status: parse.data.status ?? 'resolved',
+      resolvedBy: req.user?.userId,
+      note: parse.data.note,
+    });
+    if (!task) {
+      return res.status(404).json({ error: 'Open source change task not found' });
+    }
+    return res.json({ data: task });
+  } catch (error) {
+    console.error('[Editorial] Source change close error:', error);
+    return res.status(500).json({ error: 'Failed to close source change task' });
+  }
+});
+
+router.post('/posts/:id/source-check', requirePermission('workflow:freshness'), async (req, res) => {
+  try {
+    const post = await postModel.findById(String(req.params.id));
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    const primary = post.officialSources.find((item) => item.isPrimary) ?? post.officialSources[0];
+    if (!primary) {
+      return res.status(400).json({ error: 'Post has no official source to check' });
+    }
+    const outcome = await checkPostSource({ postId: post.id, url: primary.url });
+    const monitors = await getSourceMonitorSummaries([post.id]);
+    return res.json({ data: { ...outcome, sourceMonitor: monitors.get(post.id) ?? null } });
+  } catch (error) {
+    console.error('[Editorial] Source check error:', error);
+    return res.status(500).json({ error: 'Failed to check official source' });
+  }
+});
+
+router.post('/workflow/freshness/sweep', requirePermission('workflow:freshness'), async (req, res) => {
   try {
     const parse = workflowFreshnessSweepSchema.safeParse(req.body ?? {});
     if (!parse.success) {
@@ -523,6 +861,20 @@ router.get('/workflow/sla', async (_req, res) => {
   }
 });
 
+router.get('/exam-cycles', async (req, res) => {
+  try {
+    const parse = examCycleQuerySchema.safeParse(req.query);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.flatten() });
+    }
+    const data = await postModel.listExamCycles({ search: parse.data.search, limit: parse.data.limit });
+    return res.json({ data });
+  } catch (error) {
+    console.error('[Editorial] Exam cycle list error:', error);
+    return res.status(500).json({ error: 'Failed to fetch exam cycles' });
+  }
+});
+
 router.get('/taxonomies/:type', async (req, res) => {
   try {
     const type = req.params.type as (typeof taxonomyTypeValues)[number];
@@ -537,7 +889,7 @@ router.get('/taxonomies/:type', async (req, res) => {
   }
 });
 
-router.post('/taxonomies/:type', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.post('/taxonomies/:type', requirePermission('taxonomies:manage'), async (req, res) => {
   try {
     const type = req.params.type as (typeof taxonomyTypeValues)[number];
     if (!(taxonomyTypeValues as readonly string[]).includes(type)) {
@@ -556,6 +908,7 @@ router.post('/taxonomies/:type', requireRoles('admin', 'superadmin'), async (req
       officialWebsite: parse.data.officialWebsite,
       shortName: parse.data.shortName,
       priority: parse.data.priority,
+      translations: parse.data.translations as TaxonomyDocument['translations'],
     });
     return res.status(201).json({ data: created });
   } catch (error) {
@@ -564,7 +917,7 @@ router.post('/taxonomies/:type', requireRoles('admin', 'superadmin'), async (req
   }
 });
 
-router.put('/taxonomies/:type/:id', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.put('/taxonomies/:type/:id', requirePermission('taxonomies:manage'), async (req, res) => {
   try {
     const type = req.params.type as (typeof taxonomyTypeValues)[number];
     if (!(taxonomyTypeValues as readonly string[]).includes(type)) {
@@ -583,6 +936,7 @@ router.put('/taxonomies/:type/:id', requireRoles('admin', 'superadmin'), async (
       officialWebsite: parse.data.officialWebsite,
       shortName: parse.data.shortName,
       priority: parse.data.priority,
+      translations: parse.data.translations as TaxonomyDocument['translations'],
     });
     if (!updated) {
       return res.status(404).json({ error: 'Taxonomy not found' });
@@ -595,7 +949,7 @@ router.put('/taxonomies/:type/:id', requireRoles('admin', 'superadmin'), async (
   }
 });
 
-router.delete('/taxonomies/:type/:id', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.delete('/taxonomies/:type/:id', requirePermission('taxonomies:manage'), async (req, res) => {
   try {
     const type = req.params.type as (typeof taxonomyTypeValues)[number];
     if (!(taxonomyTypeValues as readonly string[]).includes(type)) {
@@ -614,7 +968,7 @@ router.delete('/taxonomies/:type/:id', requireRoles('admin', 'superadmin'), asyn
   }
 });
 
-router.get('/alert-subscriptions', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.get('/alert-subscriptions', requirePermission('subscribers:read'), async (req, res) => {
   try {
     const parse = alertSubscriptionAdminQuerySchema.safeParse(req.query);
     if (!parse.success) {
@@ -629,7 +983,7 @@ router.get('/alert-subscriptions', requireRoles('admin', 'superadmin'), async (r
   }
 });
 
-router.get('/alert-subscriptions/stats', requireRoles('admin', 'superadmin'), async (_req, res) => {
+router.get('/alert-subscriptions/stats', requirePermission('subscribers:read'), async (_req, res) => {
   try {
     const data = await AlertSubscriptionModelPostgres.getStats();
     return res.json({ data });
@@ -639,7 +993,7 @@ router.get('/alert-subscriptions/stats', requireRoles('admin', 'superadmin'), as
   }
 });
 
-router.get('/alert-subscriptions/coverage', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.get('/alert-subscriptions/coverage', requirePermission('subscribers:read'), async (req, res) => {
   try {
     const parse = alertCoverageQuerySchema.safeParse(req.query);
     if (!parse.success) {
@@ -654,7 +1008,7 @@ router.get('/alert-subscriptions/coverage', requireRoles('admin', 'superadmin'),
   }
 });
 
-router.delete('/alert-subscriptions/:id', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.delete('/alert-subscriptions/:id', requirePermission('subscribers:manage'), async (req, res) => {
   try {
     const deleted = await AlertSubscriptionModelPostgres.deleteById(String(req.params.id));
     if (!deleted) {
@@ -667,7 +1021,7 @@ router.delete('/alert-subscriptions/:id', requireRoles('admin', 'superadmin'), a
   }
 });
 
-router.get('/audit-log', requireRoles('admin', 'superadmin'), async (req, res) => {
+router.get('/audit-log', requirePermission('audit:read'), async (req, res) => {
   try {
     const limit = Math.min(Number(req.query.limit || 50), 200);
     const offset = Math.max(Number(req.query.offset || 0), 0);
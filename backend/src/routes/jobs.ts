@@ -1,167 +1,113 @@
 import { Router } from 'express';
 import { z } from 'zod';
 
+import { authenticateToken } from '../middleware/auth.js';
 import { cacheMiddleware, cacheKeys } from '../middleware/cache.js';
 import { rateLimit } from '../middleware/rateLimit.js';
-import AnnouncementModelPostgres from '../models/announcements.postgres.js';
+import ProfileModelPostgres from '../models/profile.postgres.js';
+import { candidateFromProfile, findEligibilityMatches } from '../services/eligibilityMatcher.js';
 
 const router = Router();
 
-const matchQuerySchema = z.object({
-    age: z.coerce.number().int().min(15).max(80),
-    qualification: z.string().trim().min(1),
-    location: z.string().trim().min(1),
-    category: z.string().trim().optional(),
-    gender: z.string().trim().optional(),
+const queryFlagSchema = z.enum(['true', 'false', '1', '0']).transform((value) => value === 'true' || value === '1');
+
+const matchOptionsSchema = z.object({
+    type: z.enum(['job', 'admission']).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    includeIneligible: queryFlagSchema.optional(),
 });
 
-function parseAgeRange(ageLimit?: string): { min?: number; max?: number } {
-    if (!ageLimit) return {};
-    const numbers = ageLimit.match(/\d+/g)?.map(num => parseInt(num, 10)) || [];
-    if (numbers.length >= 2) return { min: numbers[0], max: numbers[1] };
-    if (numbers.length === 1) return { max: numbers[0] };
-    return {};
-}
+const matchQuerySchema = matchOptionsSchema.extend({
+    dob: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+    age: z.coerce.number().int().min(15).max(80).optional(),
+    qualification: z.string().trim().min(1).max(120),
+    state: z.string().trim().max(120).optional(),
+    // Older clients send the domicile state as `location`.
+    location: z.string().trim().max(120).optional(),
+    category: z.enum(['general', 'ews', 'obc', 'sc', 'st']).optional(),
+    pwbd: queryFlagSchema.optional(),
+    exServiceman: queryFlagSchema.optional(),
+    serviceYears: z.coerce.number().int().min(0).max(40).optional(),
+    gender: z.enum(['male', 'female', 'other']).optional(),
+}).refine((query) => query.dob || query.age !== undefined, {
+    message: 'Provide dob or age',
+    path: ['dob'],
+});
 
-function normalize(value?: string): string {
-    return (value || '').toLowerCase();
-}
+const matchRateLimit = rateLimit({ windowMs: 60 * 1000, maxRequests: 30, keyPrefix: 'jobs-match' });
 
-router.get('/match', rateLimit({ windowMs: 60 * 1000, maxRequests: 30, keyPrefix: 'jobs-match' }), cacheMiddleware({ ttl: 300, keyGenerator: cacheKeys.jobMatch }), async (req, res) => {
+router.get('/match', matchRateLimit, cacheMiddleware({ ttl: 300, keyGenerator: cacheKeys.jobMatch }), async (req, res) => {
     const parseResult = matchQuerySchema.safeParse(req.query);
     if (!parseResult.success) {
-        return res.status(400).json({ 
+        return res.status(400).json({
             error: 'Invalid query parameters',
             details: parseResult.error.flatten().fieldErrors
         });
     }
 
-    const { age, qualification, location, category, gender } = parseResult.data;
-    const normalizedQualification = normalize(qualification);
-    const normalizedLocation = normalize(location);
+    const query = parseResult.data;
+    const candidate = {
+        dateOfBirth: query.dob,
+        age: query.age,
+        category: query.category,
+        pwbd: query.pwbd,
+        exServiceman: query.exServiceman,
+        militaryServiceYears: query.serviceYears,
+        qualification: query.qualification,
+        state: query.state ?? (query.location && query.location.toLowerCase() !== 'all india' ? query.location : undefined),
+        gender: query.gender,
+    };
 
     try {
-        // Add timeout to prevent hanging requests
-        const timeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => reject(new Error('Job matching timeout')), 10000);
+        const result = await findEligibilityMatches(candidate, {
+            type: query.type,
+            limit: query.limit,
+            includeIneligible: query.includeIneligible,
         });
-
-        const jobsPromise = AnnouncementModelPostgres.findAll({ 
-            type: 'job', 
-            limit: 200
+        return res.json({
+            data: result.data,
+            summary: result.summary,
+            queryInfo: candidate,
         });
-
-        const jobs = await Promise.race([jobsPromise, timeoutPromise]) as any[];
-
-        if (!Array.isArray(jobs) || jobs.length === 0) {
-            return res.json({ 
-                data: [],
-                message: 'No matching jobs found',
-                queryInfo: { age, qualification, location, category, gender }
-            });
-        }
-
-        const matches = jobs.map(job => {
-            let score = 0;
-            const reasons: string[] = [];
-
-            // Qualification matching with better scoring
-            const jobQualification = normalize(job.minQualification);
-            if (jobQualification) {
-                if (jobQualification.includes(normalizedQualification)) {
-                    score += 40;
-                    reasons.push('Qualification match');
-                } else if (normalizedQualification.includes(jobQualification)) {
-                    score += 30;
-                    reasons.push('Qualification compatible');
-                }
-            }
-
-            // Location matching with priority for exact matches
-            const jobLocation = normalize(job.location || 'all india');
-            if (normalizedLocation === 'all india' || jobLocation.includes('all india')) {
-                score += 15;
-                reasons.push('National eligibility');
-            } else if (jobLocation.includes(normalizedLocation)) {
-                score += 25;
-                reasons.push('Location match');
-            } else if (normalizedLocation.includes(jobLocation)) {
-                score += 20;
-                reasons.push('Location compatible');
-            }
-
-            // Category matching
-            if (category) {
-                const jobCategory = normalize(job.category || '');
-                if (jobCategory.includes(normalize(category)) || normalize(category).includes(jobCategory)) {
-                    score += 15;
-                    reasons.push('Category match');
-                }
-            }
-
-            // Age eligibility with better validation
-            const ageRange = parseAgeRange(job.ageLimit);
-            if (!ageRange.min && !ageRange.max) {
-                score += 5; // No age restriction
-            } else {
-                const minAge = ageRange.min || 15;
-                const maxAge = ageRange.max || 80;
-                if (age >= minAge && age <= maxAge) {
-                    score += 20;
-                    reasons.push('Age eligibility');
-                } else {
-                    // Penalty for age mismatch
-                    score = Math.max(0, score - 10);
-                }
-            }
-
-            // Gender matching if specified
-            if (gender && job.gender) {
-                const jobGender = normalize(job.gender);
-                const userGender = normalize(gender);
-                if (jobGender === userGender || jobGender.includes('any') || jobGender.includes('both')) {
-                    score += 10;
-                    reasons.push('Gender eligibility');
-                }
-            }
-
-            return { job, score, reasons };
+    } catch (error) {
+        console.error('Job match error:', error);
+        return res.status(500).json({
+            error: 'Failed to match jobs',
+            message: 'An internal error occurred while processing your request.'
         });
+    }
+});
 
-        const result = matches
-            .filter(item => item.score > 0)
-            .sort((a, b) => {
-                // Sort by score first, then by date
-                if (b.score !== a.score) return b.score - a.score;
-                return new Date(b.job.createdAt || 0).getTime() - new Date(a.job.createdAt || 0).getTime();
-            })
-            .slice(0, 50)
-            .map(item => ({
-                ...item.job,
-                matchScore: Math.min(100, Math.max(0, item.score)),
-                matchReasons: item.reasons.length > 0 ? item.reasons : ['General match'],
-                relevanceRank: matches.indexOf(item) + 1
-            }));
+// Same matcher, fed from the eligibility fields on the signed-in user's profile.
+router.get('/match/me', authenticateToken, matchRateLimit, async (req, res) => {
+    const parseResult = matchOptionsSchema.safeParse(req.query);
+    if (!parseResult.success) {
+        return res.status(400).json({
+            error: 'Invalid query parameters',
+            details: parseResult.error.flatten().fieldErrors
+        });
+    }
 
-        return res.json({ 
-            data: result,
-            totalMatches: matches.filter(item => item.score > 0).length,
-            queryInfo: { age, qualification, location, category, gender }
+    try {
+        const profile = await ProfileModelPostgres.getOrCreateProfile(req.user!.userId);
+        const candidate = candidateFromProfile(profile);
+        const missingFields = [
+            !candidate.dateOfBirth ? 'dateOfBirth' : null,
+            !candidate.qualification ? 'educationLevel' : null,
+            !candidate.category ? 'reservationCategory' : null,
+            !candidate.state ? 'domicileState' : null,
+            !candidate.gender ? 'gender' : null,
+        ].filter((field): field is string => Boolean(field));
+
+        const result = await findEligibilityMatches(candidate, parseResult.data);
+        return res.json({
+            data: result.data,
+            summary: result.summary,
+            profile: { ...candidate, missingFields },
         });
     } catch (error) {
-        console.error('Job match error:', error);
-        
-        // Return more detailed error information
-        if (error instanceof Error) {
-            if (error.message === 'Job matching timeout') {
-                return res.status(504).json({ 
-                    error: 'Request timeout',
-                    message: 'Job matching took too long. Please try again.'
-                });
-            }
-        }
-        
-        return res.status(500).json({ 
+        console.error('Profile job match error:', error);
+        return res.status(500).json({
             error: 'Failed to match jobs',
             message: 'An internal error occurred while processing your request.'
         });
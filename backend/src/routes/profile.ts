@@ -4,8 +4,10 @@ import { z } from 'zod';
 
 import { authenticateToken } from '../middleware/auth.js';
 import AnnouncementModelPostgres from '../models/announcements.postgres.js';
+import CalendarFeedModelPostgres, { type CalendarFeedRecord } from '../models/calendarFeeds.postgres.js';
 import ProfileModelPostgres from '../models/profile.postgres.js';
 import { recordAnalyticsEvent } from '../services/analytics.js';
+import { calendarFeedUrls } from '../services/calendarFeeds.js';
 import { ContentType, TrackerStatus } from '../types.js';
 import { getPathParam } from '../utils/routeParams.js';
 
@@ -18,6 +20,13 @@ interface UserProfileDoc {
     ageGroup: string | null;
     educationLevel: string | null;
     experienceYears: number;
+    dateOfBirth: string | null;
+    reservationCategory: 'general' | 'ews' | 'obc' | 'sc' | 'st' | null;
+    gender: 'male' | 'female' | 'other' | null;
+    domicileState: string | null;
+    isPwbd: boolean;
+    isExServiceman: boolean;
+    militaryServiceYears: number;
     emailNotifications: boolean;
     pushNotifications: boolean;
     notificationFrequency: 'instant' | 'daily' | 'weekly';
@@ -103,6 +112,16 @@ const profileUpdateSchema = z.object({
     ageGroup: z.string().nullable().optional(),
     educationLevel: z.string().nullable().optional(),
     experienceYears: z.number().int().min(0).optional(),
+    dateOfBirth: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').refine(
+        (value) => !Number.isNaN(Date.parse(`${value}T00:00:00.000Z`)),
+        'Invalid date'
+    ).nullable().optional(),
+    reservationCategory: z.enum(['general', 'ews', 'obc', 'sc', 'st']).nullable().optional(),
+    gender: z.enum(['male', 'female', 'other']).nullable().optional(),
+    domicileState: z.string().trim().max(120).nullable().optional(),
+    isPwbd: z.boolean().optional(),
+    isExServiceman: z.boolean().optional(),
+    militaryServiceYears: z.number().int().min(0).max(40).optional(),
     emailNotifications: z.boolean().optional(),
     pushNotifications: z.boolean().optional(),
     notificationFrequency: z.enum(['instant', 'daily', 'weekly']).optional(),
@@ -229,6 +248,14 @@ const AGE_GROUPS = [
     '40+',
 ];
 
+const RESERVATION_CATEGORIES = [
+    { value: 'general', label: 'General (UR)' },
+    { value: 'ews', label: 'EWS' },
+    { value: 'obc', label: 'OBC (Non-Creamy Layer)' },
+    { value: 'sc', label: 'SC' },
+    { value: 'st', label: 'ST' },
+];
+
 const EDUCATION_LEVELS = [
     'High School',
     'Intermediate',
@@ -501,6 +528,8 @@ router.get('/options', async (_req, res) => {
                 qualifications: QUALIFICATIONS,
                 ageGroups: AGE_GROUPS,
                 educationLevels: EDUCATION_LEVELS,
+                reservationCategories: RESERVATION_CATEGORIES,
+                genders: ['male', 'female', 'other'],
                 notificationFrequencies: ['instant', 'daily', 'weekly'],
                 locations: LOCATIONS,
                 organizations,
@@ -1010,6 +1039,33 @@ router.post('/tracked-applications/import', authenticateToken, async (req, res)
     }
 });
 
+// Calendar feed
+const formatCalendarFeed = (feed: CalendarFeedRecord) => ({
+    ...calendarFeedUrls(feed.token),
+    createdAt: feed.createdAt.toISOString(),
+    lastAccessedAt: feed.lastAccessedAt?.toISOString() ?? null,
+});
+
+router.get('/calendar-feed', authenticateToken, async (req, res) => {
+    try {
+        const feed = await CalendarFeedModelPostgres.getOrCreateForUser(req.user!.userId);
+        return res.json({ data: formatCalendarFeed(feed) });
+    } catch (error) {
+        console.error('Calendar feed fetch error:', error);
+        return res.status(500).json({ error: 'Failed to load calendar feed' });
+    }
+});
+
+router.post('/calendar-feed/rotate', authenticateToken, async (req, res) => {
+    try {
+        const feed = await CalendarFeedModelPostgres.rotate(req.user!.userId);
+        return res.json({ data: formatCalendarFeed(feed) });
+    } catch (error) {
+        console.error('Calendar feed rotate error:', error);
+        return res.status(500).json({ error: 'Failed to reset calendar feed' });
+    }
+});
+
 router.get('/widgets', authenticateToken, async (req, res) => {
     try {
         const profile = await getOrCreateProfile(req.user!.userId);
@@ -3,10 +3,12 @@ import { rateLimit as expressRateLimit } from 'express-rate-limit';
 import { z } from 'zod';
 
 import { config } from '../config.js';
+import { postTypeValues } from '../content/types.js';
 import { optionalAuth } from '../middleware/auth.js';
-import PushSubscriptionModelPostgres from '../models/pushSubscriptions.postgres.js';
+import PushSubscriptionModelPostgres, { type PushTopicPreferences } from '../models/pushSubscriptions.postgres.js';
 import { recordAnalyticsEvent } from '../services/analytics.js';
 import { normalizeAttribution } from '../services/attribution.js';
+import { slugify } from '../utils/slugify.js';
 
 const router = Router();
 
@@ -17,6 +19,13 @@ router.use(expressRateLimit({
     legacyHeaders: false,
 }));
 
+const topicsSchema = z.object({
+    instantAlerts: z.boolean().default(true),
+    states: z.array(z.string().trim().min(1).max(80)).max(40).default([]),
+    categories: z.array(z.string().trim().min(1).max(80)).max(40).default([]),
+    postTypes: z.array(z.enum(postTypeValues)).max(postTypeValues.length).default([]),
+});
+
 const subscriptionSchema = z.object({
     endpoint: z.string().url(),
     expirationTime: z.number().nullable().optional(),
@@ -24,6 +33,26 @@ const subscriptionSchema = z.object({
         p256dh: z.string(),
         auth: z.string(),
     }),
+    topics: topicsSchema.optional(),
+});
+
+const topicsUpdateSchema = topicsSchema.extend({
+    endpoint: z.string().url(),
+});
+
+const clickSchema = z.object({
+    action: z.enum(['open', 'apply', 'save']).default('open'),
+    postId: z.string().max(100).optional(),
+    campaignId: z.string().max(100).optional(),
+    campaign: z.string().max(60).optional(),
+});
+
+/** States and categories arrive as names or slugs; store slugs. */
+const toTopicPreferences = (topics: z.infer<typeof topicsSchema>): PushTopicPreferences => ({
+    instantAlerts: topics.instantAlerts ?? true,
+    stateSlugs: Array.from(new Set((topics.states ?? []).map((item) => slugify(item)).filter(Boolean))),
+    categorySlugs: Array.from(new Set((topics.categories ?? []).map((item) => slugify(item)).filter(Boolean))),
+    postTypes: Array.from(new Set(topics.postTypes ?? [])),
 });
 
 const pickQueryValue = (value: unknown): string | undefined => {
@@ -91,6 +120,7 @@ router.post('/subscribe', optionalAuth, async (req, res) => {
             endpoint: subscription.endpoint,
             keys,
             userId: req.user?.userId,
+            topics: subscription.topics ? toTopicPreferences(subscription.topics) : undefined,
         });
         if (!saved) {
             throw new Error('Failed to persist push subscription');
@@ -130,4 +160,71 @@ router.post('/subscribe', optionalAuth, async (req, res) => {
     }
 });
 
+// Read the topics of a push subscription; the endpoint URL identifies it
+router.get('/topics', async (req, res) => {
+    const endpoint = pickQueryValue(req.query.endpoint);
+    if (!endpoint) {
+        return res.status(400).json({ error: 'Endpoint is required' });
+    }
+
+    try {
+        const subscription = await PushSubscriptionModelPostgres.findByEndpoint(endpoint);
+        if (!subscription) {
+            return res.status(404).json({ error: 'Push subscription not found' });
+        }
+        return res.json({ data: subscription.topics });
+    } catch (error) {
+        console.error('[Push] Failed to load topics:', error);
+        return res.status(500).json({ error: 'Failed to load push topics' });
+    }
+});
+
+// Replace the topics of a push subscription
+router.put('/topics', async (req, res) => {
+    const parseResult = topicsUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.flatten() });
+    }
+
+    try {
+        const subscription = await PushSubscriptionModelPostgres.updateTopics(
+            parseResult.data.endpoint,
+            toTopicPreferences(parseResult.data),
+        );
+        if (!subscription) {
+            return res.status(404).json({ error: 'Push subscription not found' });
+        }
+        return res.json({ data: subscription.topics, message: 'Push topics updated' });
+    } catch (error) {
+        console.error('[Push] Failed to update topics:', error);
+        return res.status(500).json({ error: 'Failed to update push topics' });
+    }
+});
+
+// Notification click-through reported by the service worker
+router.post('/click', (req, res) => {
+    const parseResult = clickSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.flatten() });
+    }
+
+    const { action, postId, campaignId, campaign } = parseResult.data;
+    const attribution = normalizeAttribution({
+        source: 'push',
+        medium: 'push',
+        campaign: campaign ?? (campaignId ? 'campaign' : 'instant_alert'),
+    });
+    recordAnalyticsEvent({
+        type: 'deep_link_click',
+        announcementId: postId,
+        metadata: {
+            ...attribution,
+            action,
+            campaignId: campaignId ?? null,
+        },
+    }).catch(console.error);
+
+    return res.status(204).end();
+});
+
 export default router;
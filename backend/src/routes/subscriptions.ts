@@ -1,7 +1,16 @@
 import { Router } from 'express';
 import { rateLimit as expressRateLimit } from 'express-rate-limit';
 
-import { alertSubscriptionPublicSchema } from '../content/types.js';
+import { config } from '../config.js';
+import {
+    alertPreferencePauseSchema,
+    alertPreferenceUpdateSchema,
+    alertSubscriptionPublicSchema,
+    alertTopicKinds,
+    alertTopicRemoveSchema,
+    type AlertSubscriptionRecord,
+    type AlertTopicKind,
+} from '../content/types.js';
 import { rateLimit } from '../middleware/rateLimit.js';
 import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
 import { recordAnalyticsEvent } from '../services/analytics.js';
@@ -32,6 +41,52 @@ function buildPreferenceSummary(data: {
     ];
 }
 
+function readToken(query: unknown): string {
+    const token = (query as Record<string, unknown> | undefined)?.token;
+    return typeof token === 'string' ? token : '';
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Keep only the reminder offsets the server sends, largest first. */
+function allowedReminderDays(days?: number[]): number[] | undefined {
+    if (!days) return undefined;
+    return [...new Set(days)]
+        .filter((day) => config.subscriberReminderOffsets.includes(day))
+        .sort((a, b) => b - a);
+}
+
+/** What the preference center may show: no ids or tokens. */
+function toPreferenceView(record: AlertSubscriptionRecord) {
+    const pairs = (slugs: string[], names: string[]) => slugs.map((slug, index) => ({ slug, name: names[index] ?? slug }));
+    const pausedUntil = record.pausedUntil && new Date(record.pausedUntil).getTime() > Date.now()
+        ? record.pausedUntil
+        : null;
+    return {
+        email: record.email,
+        verified: record.verified,
+        isActive: record.isActive,
+        frequency: record.frequency,
+        locale: record.locale,
+        pausedUntil,
+        categories: pairs(record.categorySlugs, record.categoryNames),
+        states: pairs(record.stateSlugs, record.stateNames),
+        organizations: pairs(record.organizationSlugs, record.organizationNames),
+        qualifications: pairs(record.qualificationSlugs, record.qualificationNames),
+        postTypes: record.postTypes,
+        reminderDays: record.reminderDays,
+        reminderOptions: config.subscriberReminderOffsets,
+    };
+}
+
+function topicSlugs(record: AlertSubscriptionRecord, kind: AlertTopicKind): string[] {
+    if (kind === 'category') return record.categorySlugs;
+    if (kind === 'state') return record.stateSlugs;
+    if (kind === 'organization') return record.organizationSlugs;
+    if (kind === 'qualification') return record.qualificationSlugs;
+    return record.postTypes;
+}
+
 // Create or update subscription
 router.post('/', rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 20, keyPrefix: 'subscriptions' }), async (req, res) => {
     const parseResult = alertSubscriptionPublicSchema.safeParse(req.body);
@@ -51,7 +106,10 @@ router.post('/', rateLimit({ windowMs: 60 * 60 * 1000, maxRequests: 20, keyPrefi
             organizations: data.organizations,
             qualifications: data.qualifications,
             postTypes: data.postTypes,
+            reminderDays: allowedReminderDays(data.reminderDays),
             frequency: data.frequency,
+            locale: data.locale,
+            phone: data.phone,
             source: data.source || 'public-api',
             verified,
         });
@@ -135,4 +193,157 @@ router.get('/unsubscribe', async (req, res) => {
     }
 });
 
+// RFC 8058 one-click unsubscribe, the target of the List-Unsubscribe header
+router.post('/unsubscribe', async (req, res) => {
+    const token = readToken(req.query);
+    if (!token) {
+        return res.status(400).json({ error: 'Token is required' });
+    }
+
+    try {
+        const doc = await AlertSubscriptionModelPostgres.unsubscribeByToken(token);
+        if (!doc) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+
+        recordAnalyticsEvent({
+            type: 'subscription_unsubscribe',
+            metadata: { source: 'one-click' },
+        }).catch(console.error);
+
+        return res.json({ message: 'Unsubscribed successfully' });
+    } catch (error) {
+        console.error('One-click unsubscribe error:', error);
+        return res.status(500).json({ error: 'Failed to unsubscribe' });
+    }
+});
+
+// Preference center: read
+router.get('/preferences', async (req, res) => {
+    const token = readToken(req.query);
+    if (!token) {
+        return res.status(400).json({ error: 'Token is required' });
+    }
+
+    try {
+        const record = await AlertSubscriptionModelPostgres.findByUnsubscribeToken(token);
+        if (!record) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+        return res.json({ data: toPreferenceView(record) });
+    } catch (error) {
+        console.error('Get preferences error:', error);
+        return res.status(500).json({ error: 'Failed to load preferences' });
+    }
+});
+
+// Preference center: replace all preferences
+router.put('/preferences', async (req, res) => {
+    const token = readToken(req.query);
+    if (!token) {
+        return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const parseResult = alertPreferenceUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.flatten() });
+    }
+
+    try {
+        const record = await AlertSubscriptionModelPostgres.updatePreferencesByToken(token, {
+            ...parseResult.data,
+            reminderDays: allowedReminderDays(parseResult.data.reminderDays),
+        });
+        if (!record) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+        return res.json({ data: toPreferenceView(record), message: 'Preferences updated' });
+    } catch (error) {
+        console.error('Update preferences error:', error);
+        return res.status(500).json({ error: 'Failed to update preferences' });
+    }
+});
+
+// Preference center: pause alerts for a number of weeks
+router.post('/preferences/pause', async (req, res) => {
+    const token = readToken(req.query);
+    if (!token) {
+        return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const parseResult = alertPreferencePauseSchema.safeParse(req.body);
+    if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.flatten() });
+    }
+
+    try {
+        const until = new Date(Date.now() + parseResult.data.weeks * WEEK_MS);
+        const record = await AlertSubscriptionModelPostgres.setPausedUntilByToken(token, until);
+        if (!record) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+        return res.json({ data: toPreferenceView(record), message: 'Alerts paused' });
+    } catch (error) {
+        console.error('Pause alerts error:', error);
+        return res.status(500).json({ error: 'Failed to pause alerts' });
+    }
+});
+
+// Preference center: resume alerts (also re-activates an unsubscribed address)
+router.post('/preferences/resume', async (req, res) => {
+    const token = readToken(req.query);
+    if (!token) {
+        return res.status(400).json({ error: 'Token is required' });
+    }
+
+    try {
+        const record = await AlertSubscriptionModelPostgres.setPausedUntilByToken(token, null);
+        if (!record) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+        return res.json({ data: toPreferenceView(record), message: 'Alerts resumed' });
+    } catch (error) {
+        console.error('Resume alerts error:', error);
+        return res.status(500).json({ error: 'Failed to resume alerts' });
+    }
+});
+
+// Preference center: stop alerts for one topic
+router.delete('/preferences/topics/:kind/:value', async (req, res) => {
+    const token = readToken(req.query);
+    if (!token) {
+        return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const parseResult = alertTopicRemoveSchema.safeParse(req.params);
+    if (!parseResult.success) {
+        return res.status(400).json({ error: `kind must be one of: ${alertTopicKinds.join(', ')}` });
+    }
+    const { kind, value } = parseResult.data;
+
+    try {
+        const record = await AlertSubscriptionModelPostgres.findByUnsubscribeToken(token);
+        if (!record) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+        const current = topicSlugs(record, kind);
+        if (!current.includes(value)) {
+            return res.status(404).json({ error: 'Topic is not part of this subscription' });
+        }
+        // An empty filter means "everything", so dropping the last topic would widen alerts.
+        if (current.length === 1) {
+            return res.status(409).json({ error: 'This is the only topic of its kind. Edit your preferences or unsubscribe instead.' });
+        }
+
+        const updated = await AlertSubscriptionModelPostgres.removeTopicByToken(token, kind, value);
+        if (!updated) {
+            return res.status(404).json({ error: 'Invalid token' });
+        }
+        return res.json({ data: toPreferenceView(updated), message: 'Topic removed' });
+    } catch (error) {
+        console.error('Remove topic error:', error);
+        return res.status(500).json({ error: 'Failed to remove topic' });
+    }
+});
+
 export default router;
@@ -0,0 +1,51 @@
+import type { IncomingMessage } from 'http';
+
+import { Router } from 'express';
+
+import { processDeliveryEvents, verifyWebhookSignature } from '../services/emailSuppression.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    rawBody?: Buffer;
+  }
+}
+
+export const WEBHOOK_PATH_PREFIX = '/api/webhooks/';
+
+/**
+ * `express.json` verify hook: keeps the exact request bytes for webhook
+ * routes so signatures can be checked against them.
+ */
+export function captureWebhookRawBody(req: IncomingMessage, _res: unknown, buffer: Buffer): void {
+  if (req.url?.startsWith(WEBHOOK_PATH_PREFIX)) {
+    (req as IncomingMessage & { rawBody?: Buffer }).rawBody = Buffer.from(buffer);
+  }
+}
+
+const router = Router();
+
+/**
+ * Delivery events from the email provider (or a relay that normalizes them):
+ * `{ "events": [{ "type": "bounce", "email": "...", "bounceType": "hard" }] }`.
+ */
+router.post('/email-events', async (req, res) => {
+  const valid = verifyWebhookSignature({
+    rawBody: req.rawBody ?? '',
+    timestamp: req.get('x-webhook-timestamp'),
+    signature: req.get('x-webhook-signature'),
+  });
+  if (!valid) {
+    return res.status(401).json({ error: 'Invalid webhook signature' });
+  }
+
+  try {
+    const result = await processDeliveryEvents(req.body);
+    if (!result.success) return res.status(400).json({ error: result.error });
+    return res.json({ data: result.data });
+  } catch (error) {
+    console.error('[Webhooks] Email event processing error:', error);
+    return res.status(500).json({ error: 'Failed to process email events' });
+  }
+});
+
+export default router;
@@ -26,6 +26,7 @@ import adminRouter from './routes/admin.js';
 import announcementsRouter from './routes/announcements.js';
 import authRouter from './routes/auth.js';
 import bookmarksRouter from './routes/bookmarks.js';
+import calendarRouter from './routes/calendar.js';
 import communityRouter from './routes/community.js';
 import contentRouter from './routes/content.js';
 import editorialRouter from './routes/editorial.js';
@@ -34,6 +35,7 @@ import profileRouter from './routes/profile.js';
 import pushRouter from './routes/push.js';
 import subscriptionsRouter from './routes/subscriptions.js';
 import supportRouter from './routes/support.js';
+import webhooksRouter, { captureWebhookRawBody } from './routes/webhooks.js';
 import { scheduleAnalyticsRollups } from './services/analytics.js';
 import { scheduleAutomationJobs } from './services/automationJobs.js';
 import {
@@ -49,7 +51,10 @@ import { scheduleCampaignProcessor } from './services/notifications.js';
 import { getPostgresHealthErrorDiagnostics, postgresHealthCheck } from './services/postgres/prisma.js';
 import RedisCache from './services/redis.js';
 import { scheduleSavedSearchAlerts } from './services/savedSearchAlerts.js';
+import { scheduleScheduledPublishing } from './services/scheduledPublishing.js';
 import { getSecurityMetricSnapshot } from './services/securityMetrics.js';
+import { scheduleSourceMonitor } from './services/sourceMonitor.js';
+import { scheduleSubscriberDeadlineReminders } from './services/subscriberDeadlineReminders.js';
 import { scheduleTrackerReminders } from './services/trackerReminders.js';
 import logger from './utils/logger.js';
 
@@ -133,6 +138,7 @@ app.use(cors({
     'X-CSRF-Token',
     'X-XSRF-Token',
     'X-Metrics-Token',
+    'X-Step-Up-Token',
     'Idempotency-Key',
   ]
 }));
@@ -160,7 +166,7 @@ app.use('/api/auth', distributedRateLimit({
 
 // Body parsing
 app.use(cookieParser());
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: captureWebhookRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(validateContentType);
 
@@ -190,6 +196,19 @@ app.use('/api', (req, res, next) => {
     return;
   }
 
+  // Provider webhooks are server-to-server and authenticate with a signature.
+  if (req.path.startsWith('/webhooks/')) {
+    next();
+    return;
+  }
+
+  // Mail clients send RFC 8058 one-click unsubscribes without an Origin; the
+  // subscription token in the URL authenticates them.
+  if (req.method.toUpperCase() === 'POST' && req.path === '/subscriptions/unsubscribe') {
+    next();
+    return;
+  }
+
   const origin = req.get('origin');
   const hasBearerToken = /^Bearer\s+/i.test(req.get('authorization') ?? '');
   if (!origin && !hasBearerToken) {
@@ -601,12 +620,14 @@ app.use('/api/announcements', announcementsRouter);
 app.use('/api/content', contentRouter);
 app.use('/api/editorial', editorialRouter);
 app.use('/api/bookmarks', bookmarksRouter);
+app.use('/api/calendar', calendarRouter);
 app.use('/api/subscriptions', subscriptionsRouter);
 app.use('/api/profile', profileRouter);
 app.use('/api/push', pushRouter);
 app.use('/api/jobs', jobsRouter);
 app.use('/api/community', communityRouter);
 app.use('/api/support', supportRouter);
+app.use('/api/webhooks', webhooksRouter);
 
 // 404 handler for API routes
 app.use('/api', (req, res) => {
@@ -650,6 +671,11 @@ async function startPostgresPrimaryRuntime() {
   }
   scheduleSavedSearchAlerts();
   scheduleTrackerReminders();
+  scheduleSubscriberDeadlineReminders();
+  scheduleScheduledPublishing();
+  if (process.env.SOURCE_MONITOR_ENABLED !== 'false') {
+    scheduleSourceMonitor();
+  }
 
   logger.info('[Server] Postgres primary runtime schedulers started');
 }
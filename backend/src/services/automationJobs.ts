@@ -1,9 +1,8 @@
-import { WorkflowStatus } from '@prisma/client';
-
 import PostModelPostgres from '../models/posts.postgres.js';
 
 import { invalidateAnnouncementCaches } from './cacheInvalidation.js';
 import { prismaApp } from './postgres/prisma.js';
+import { refreshSearchVocabulary } from './searchSuggest.js';
 
 let automationIntervalRef: NodeJS.Timeout | null = null;
 const RUN_EVERY_MINUTES = 60; // Run every hour
@@ -72,33 +71,8 @@ export async function runAutomationJobs() {
             // We are skipping persisting health events to Mongo.
         }
 
-        // 2. Scheduling Automation
-        // Find scheduled posts where publishAt <= now
-        console.log('[Automation] Executing Scheduled Posts...');
-        const scheduledPosts = await prismaApp.post.findMany({
-            where: {
-                status: WorkflowStatus.APPROVED,
-                publishedAt: { lte: now },
-            },
-            select: { id: true },
-        });
-
-        for (const post of scheduledPosts) {
-            try {
-                const published = await PostModelPostgres.transition(
-                    post.id,
-                    'publish',
-                    'system',
-                    'system',
-                    'Auto-published by scheduling automation',
-                );
-                if (published) {
-                    cachesInvalidated = true;
-                }
-            } catch (error) {
-                console.warn(`[Automation] Failed to auto-publish ${post.id}:`, error);
-            }
-        }
+        // 2. Scheduled publish/unpublish runs on its own minute-level worker
+        // (services/scheduledPublishing.ts) off Post.scheduledPublishAt.
 
         // 3. Expiry Automation
         // Archive published posts whose expiry is beyond the configured grace period.
@@ -123,6 +97,12 @@ export async function runAutomationJobs() {
             await invalidateAnnouncementCaches().catch(console.error);
         }
 
+        // 4. Search vocabulary
+        // Catches title and taxonomy edits that happen outside a publish.
+        await refreshSearchVocabulary().catch((error) => {
+            console.error('[Automation] Search vocabulary refresh failed:', error);
+        });
+
     } catch (error) {
         console.error('[Automation] Failed to run background jobs:', error);
     }
@@ -0,0 +1,224 @@
+import { config } from '../config.js';
+import {
+  publicSectionMap,
+  type ImportantDateKind,
+  type PostRecord,
+  type PostType,
+  type TaxonomyType,
+} from '../content/types.js';
+import BookmarkModelPostgres from '../models/bookmarks.postgres.js';
+import CalendarFeedModelPostgres from '../models/calendarFeeds.postgres.js';
+import ContentTaxonomyModelPostgres from '../models/contentTaxonomies.postgres.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+import ProfileModelPostgres, { type TrackedApplicationRecord } from '../models/profile.postgres.js';
+import { slugify } from '../utils/slugify.js';
+
+import { parseEligibilityDate } from './eligibilityMatcher.js';
+import { buildICalendar, type CalendarEvent } from './icalendar.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Events further back than this are dropped; calendar apps keep what they already have. */
+const PAST_WINDOW_MS = 180 * DAY_MS;
+/** Archived posts stay in feeds this long so subscribers receive the cancellation. */
+const ARCHIVE_WINDOW_MS = 60 * DAY_MS;
+
+const KIND_LABELS: Record<ImportantDateKind, string> = {
+  application_start: 'Application Start',
+  last_date: 'Last Date',
+  exam_date: 'Exam Date',
+  result_date: 'Result Date',
+  admit_card: 'Admit Card',
+  counselling: 'Counselling',
+  other: 'Important Date',
+};
+
+interface PostDate {
+  kind: ImportantDateKind;
+  label: string;
+  date: Date;
+  note?: string;
+}
+
+export interface CalendarFeedFilters {
+  kind?: ImportantDateKind;
+  type?: PostType;
+}
+
+function uidHost(): string {
+  try {
+    return new URL(config.frontendUrl).host;
+  } catch {
+    return 'sarkariexams.me';
+  }
+}
+
+function postUrl(type: PostType, slug: string): string {
+  return new URL(`/${publicSectionMap[type]}/${slug}`, config.frontendUrl).toString();
+}
+
+/** Secret feed URL for a token, plus the `webcal:` form calendar apps open directly. */
+export function calendarFeedUrls(token: string): { url: string; webcalUrl: string } {
+  const url = `${config.publicApiUrl.replace(/\/$/, '')}/calendar/feeds/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+}
+
+/**
+ * Dated entries of a post. Structured important dates win; posts entered
+ * before those existed fall back to their legacy date columns.
+ */
+function postDates(post: PostRecord): PostDate[] {
+  const structured = post.importantDates.flatMap((item) => {
+    const date = parseEligibilityDate(item.value);
+    return date ? [{ kind: item.kind ?? 'other', label: item.label, date, note: item.note }] : [];
+  });
+  if (structured.length > 0) return structured;
+
+  const legacy: Array<[ImportantDateKind, string | undefined]> = [
+    ['application_start', post.applicationStartDate],
+    ['last_date', post.lastDate],
+    ['exam_date', post.examDate],
+    ['result_date', post.resultDate],
+  ];
+  return legacy.flatMap(([kind, value]) => {
+    const date = parseEligibilityDate(value);
+    return date ? [{ kind, label: KIND_LABELS[kind], date }] : [];
+  });
+}
+
+/**
+ * One all-day event per important date. The UID is derived from the post id
+ * and the date's kind and label, so edits update the event in place and the
+ * post version drives SEQUENCE. Posts no longer published are sent as
+ * cancellations.
+ */
+export function buildPostEvents(post: PostRecord, options: { kind?: ImportantDateKind; now?: Date } = {}): CalendarEvent[] {
+  const host = uidHost();
+  const cutoff = (options.now ?? new Date()).getTime() - PAST_WINDOW_MS;
+  const cancelled = post.status !== 'published';
+  const url = postUrl(post.type, post.slug);
+  const seen = new Set<string>();
+
+  return postDates(post).flatMap((item) => {
+    if (options.kind && item.kind !== options.kind) return [];
+    if (item.date.getTime() < cutoff) return [];
+
+    const uid = `post-${post.id}-${item.kind}-${slugify(item.label) || 'date'}@${host}`;
+    if (seen.has(uid)) return [];
+    seen.add(uid);
+
+    return [{
+      uid,
+      summary: `${item.label}: ${post.title}`,
+      description: [post.organization?.name, item.note, url].filter(Boolean).join('\n'),
+      url,
+      categories: [KIND_LABELS[item.kind]],
+      start: item.date,
+      allDay: true,
+      sequence: post.currentVersion + (cancelled ? 1 : 0),
+      lastModified: new Date(post.updatedAt),
+      cancelled,
+    }];
+  });
+}
+
+/** The tracked deadline as an all-day event and the user's reminder as a timed one with an alarm. */
+export function buildTrackedEvents(item: TrackedApplicationRecord, options: { includeDeadline?: boolean; now?: Date } = {}): CalendarEvent[] {
+  const host = uidHost();
+  const cutoff = (options.now ?? new Date()).getTime() - PAST_WINDOW_MS;
+  const url = postUrl(item.type, item.slug);
+  const sequence = Math.floor(item.updatedAt.getTime() / 1000);
+  const description = [item.organization, item.notes, url].filter(Boolean).join('\n');
+  const events: CalendarEvent[] = [];
+
+  if (item.deadline && options.includeDeadline !== false && item.deadline.getTime() >= cutoff) {
+    events.push({
+      uid: `tracked-${item.id}-deadline@${host}`,
+      summary: `Last Date: ${item.title}`,
+      description,
+      url,
+      categories: [KIND_LABELS.last_date],
+      start: item.deadline,
+      allDay: true,
+      sequence,
+      lastModified: item.updatedAt,
+    });
+  }
+
+  if (item.reminderAt && item.reminderAt.getTime() >= cutoff) {
+    events.push({
+      uid: `tracked-${item.id}-reminder@${host}`,
+      summary: `Reminder: ${item.title}`,
+      description,
+      url,
+      start: item.reminderAt,
+      allDay: false,
+      durationMinutes: 15,
+      sequence,
+      lastModified: item.updatedAt,
+      alarmMinutesBefore: 0,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * The personal feed behind a secret token: tracked deadlines and reminders
+ * plus the important dates of bookmarked posts. Returns null for unknown tokens.
+ */
+export async function buildUserCalendar(token: string, now = new Date()): Promise<string | null> {
+  const feed = await CalendarFeedModelPostgres.findByToken(token);
+  if (!feed) return null;
+
+  const [tracked, bookmarkIds] = await Promise.all([
+    ProfileModelPostgres.listTrackedApplications(feed.userId),
+    BookmarkModelPostgres.findAnnouncementIdsByUser(feed.userId),
+  ]);
+  const posts = await PostModelPostgres.listCalendarPosts({
+    ids: bookmarkIds,
+    archivedSince: new Date(now.getTime() - ARCHIVE_WINDOW_MS),
+  });
+
+  // A bookmarked post already contributes its last date; don't show it twice.
+  const coveredDeadlines = new Set(posts
+    .filter((post) => postDates(post).some((item) => item.kind === 'last_date'))
+    .map((post) => post.id));
+
+  const events = [
+    ...tracked.flatMap((item) => buildTrackedEvents(item, {
+      includeDeadline: !(item.announcementId && coveredDeadlines.has(item.announcementId)),
+      now,
+    })),
+    ...posts.flatMap((post) => buildPostEvents(post, { now })),
+  ];
+
+  return buildICalendar({
+    name: 'My Application Deadlines',
+    description: 'Tracked applications and bookmarked posts from SarkariExams',
+    events,
+  }, now);
+}
+
+/** Public feed of one taxonomy's important dates, optionally narrowed to a date kind or post type. */
+export async function buildTaxonomyCalendar(
+  type: TaxonomyType,
+  slug: string,
+  filters: CalendarFeedFilters = {},
+  now = new Date(),
+): Promise<string | null> {
+  const taxonomy = await ContentTaxonomyModelPostgres.findBySlug(type, slugify(slug));
+  if (!taxonomy) return null;
+
+  const posts = await PostModelPostgres.listCalendarPosts({
+    taxonomy: { type, slug: taxonomy.slug },
+    type: filters.type,
+    archivedSince: new Date(now.getTime() - ARCHIVE_WINDOW_MS),
+  });
+  const label = filters.kind ? `${KIND_LABELS[filters.kind]}s` : 'Important Dates';
+
+  return buildICalendar({
+    name: `${taxonomy.shortName || taxonomy.name} ${label}`,
+    description: `${label} for ${taxonomy.name} from SarkariExams`,
+    events: posts.flatMap((post) => buildPostEvents(post, { kind: filters.kind, now })),
+  }, now);
+}
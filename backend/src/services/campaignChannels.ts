@@ -0,0 +1,364 @@
+import webpush from 'web-push';
+
+import { config } from '../config.js';
+import type {
+  CampaignDispatchChannel,
+  CampaignDispatchLogInput,
+  CampaignDispatchLogRecord,
+} from '../models/campaignDispatchLogs.postgres.js';
+import type { NotificationCampaignRecord } from '../models/notificationCampaigns.postgres.js';
+import PushSubscriptionModelPostgres, { type PushSubscriptionRecord } from '../models/pushSubscriptions.postgres.js';
+
+import { sendCampaignEmail } from './email.js';
+import { getSuppressedEmails } from './emailSuppression.js';
+import { getMessagingProvider } from './messaging.js';
+import { prisma, prismaApp } from './postgres/prisma.js';
+import { escapeHtml, listTelegramChannels, sendTelegramMessageTo } from './telegram.js';
+
+/** Verified subscribers matched by the campaign segment. */
+export interface CampaignSubscriber {
+  id: string;
+  email: string;
+  phone?: string | null;
+  unsubscribeToken?: string | null;
+}
+
+export interface CampaignAudience {
+  campaign: NotificationCampaignRecord;
+  subscribers: CampaignSubscriber[];
+}
+
+/** Recipients resolved for one channel, delivered later with bounded concurrency. */
+export interface CampaignChannelBatch {
+  recipientCount: number;
+  send(concurrency: number): Promise<CampaignDispatchLogInput[]>;
+}
+
+/**
+ * One delivery channel of a notification campaign. `prepare` resolves who the
+ * campaign reaches on the channel; `retry` re-sends a single failed dispatch.
+ */
+export interface CampaignChannelAdapter {
+  channel: CampaignDispatchChannel;
+  prepare(audience: CampaignAudience): Promise<CampaignChannelBatch>;
+  retry(campaign: NotificationCampaignRecord, log: CampaignDispatchLogRecord): Promise<CampaignDispatchLogInput>;
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  handler: (item: T) => Promise<R>,
+): Promise<R[]> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  const workerCount = Math.min(Math.max(1, concurrency), items.length);
+
+  await Promise.all(Array.from({ length: workerCount }, async () => {
+    while (nextIndex < items.length) {
+      const currentIndex = nextIndex;
+      nextIndex += 1;
+      results[currentIndex] = await handler(items[currentIndex]);
+    }
+  }));
+
+  return results;
+}
+
+function batchOf<T>(recipients: T[], deliver: (recipient: T) => Promise<CampaignDispatchLogInput>): CampaignChannelBatch {
+  return {
+    recipientCount: recipients.length,
+    send: (concurrency) => mapWithConcurrency(recipients, concurrency, deliver),
+  };
+}
+
+function fillTemplate(template: string, values: Record<'title' | 'body' | 'url', string>): string {
+  return template.replace(/\{\{\s*(title|body|url)\s*\}\}/g, (_match, key: 'title' | 'body' | 'url') => values[key]);
+}
+
+export function trackedCampaignUrl(campaign: NotificationCampaignRecord, medium: string): string {
+  if (!campaign.url) return config.frontendUrl;
+  const trackedUrl = new URL(campaign.url, config.frontendUrl);
+  trackedUrl.searchParams.set('source', 'campaign');
+  trackedUrl.searchParams.set('medium', medium);
+  trackedUrl.searchParams.set('campaign', campaign.id);
+  return trackedUrl.toString();
+}
+
+/**
+ * Title and body for a channel: the channel template when one is set,
+ * otherwise the campaign's own copy.
+ */
+export function renderCampaignMessage(
+  campaign: NotificationCampaignRecord,
+  channel: CampaignDispatchChannel,
+): { title: string; body: string } {
+  const template = campaign.channelTemplates?.[channel];
+  const values = { title: campaign.title, body: campaign.body, url: trackedCampaignUrl(campaign, channel) };
+  return {
+    title: template?.title ? fillTemplate(template.title, values) : campaign.title,
+    body: template?.body ? fillTemplate(template.body, values) : campaign.body,
+  };
+}
+
+async function dispatchEmail(campaign: NotificationCampaignRecord, recipient: CampaignSubscriber): Promise<CampaignDispatchLogInput> {
+  const message = renderCampaignMessage(campaign, 'email');
+  const result = await sendCampaignEmail({
+    to: recipient.email,
+    title: message.title,
+    body: message.body,
+    url: campaign.url,
+    campaignId: campaign.id,
+    unsubscribeToken: recipient.unsubscribeToken,
+  });
+
+  const deliveredAt = result.success ? new Date() : undefined;
+  return {
+    campaignId: campaign.id,
+    channel: 'email',
+    recipient: recipient.email,
+    subscriptionId: recipient.id,
+    status: result.success ? 'sent' : 'failed',
+    messageId: result.messageId,
+    error: result.error,
+    metadata: { source: 'campaign' },
+    deliveredAt,
+  };
+}
+
+export function configureWebPush(): boolean {
+  if (!config.vapidPublicKey || !config.vapidPrivateKey) {
+    return false;
+  }
+
+  webpush.setVapidDetails('mailto:admin@sarkariexams.me', config.vapidPublicKey, config.vapidPrivateKey);
+  return true;
+}
+
+function campaignPushPayload(campaign: NotificationCampaignRecord): string {
+  const message = renderCampaignMessage(campaign, 'push');
+  return JSON.stringify({
+    title: message.title,
+    body: message.body,
+    url: trackedCampaignUrl(campaign, 'push'),
+    campaignId: campaign.id,
+  });
+}
+
+async function dispatchPush(
+  campaign: NotificationCampaignRecord,
+  subscription: PushSubscriptionRecord,
+  options?: { vapidConfigured?: boolean },
+): Promise<CampaignDispatchLogInput> {
+  if (options?.vapidConfigured === false) {
+    return {
+      campaignId: campaign.id,
+      channel: 'push',
+      recipient: subscription.endpoint,
+      recipientUserId: subscription.userId,
+      pushEndpoint: subscription.endpoint,
+      status: 'failed',
+      error: 'VAPID keys are not configured',
+      metadata: { source: 'campaign' },
+    };
+  }
+
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      campaignPushPayload(campaign),
+    );
+
+    return {
+      campaignId: campaign.id,
+      channel: 'push',
+      recipient: subscription.endpoint,
+      recipientUserId: subscription.userId,
+      pushEndpoint: subscription.endpoint,
+      status: 'sent',
+      metadata: { source: 'campaign' },
+      deliveredAt: new Date(),
+    };
+  } catch (error) {
+    const statusCode = typeof (error as { statusCode?: unknown }).statusCode === 'number'
+      ? (error as { statusCode: number }).statusCode
+      : undefined;
+    if (statusCode === 404 || statusCode === 410) {
+      await PushSubscriptionModelPostgres.deleteByEndpoint(subscription.endpoint).catch(() => undefined);
+    }
+
+    return {
+      campaignId: campaign.id,
+      channel: 'push',
+      recipient: subscription.endpoint,
+      recipientUserId: subscription.userId,
+      pushEndpoint: subscription.endpoint,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to send push notification',
+      metadata: { source: 'campaign', statusCode },
+    };
+  }
+}
+
+async function resolveUserIdsForEmails(emails: string[]): Promise<string[]> {
+  const uniqueEmails = Array.from(new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean)));
+  if (uniqueEmails.length === 0) {
+    return [];
+  }
+
+  const users = await prismaApp.userAccountEntry.findMany({
+    where: {
+      email: { in: uniqueEmails, mode: 'insensitive' },
+      isActive: true,
+    },
+    select: { id: true },
+  });
+
+  return users.map((user: { id: string }) => user.id);
+}
+
+function telegramText(campaign: NotificationCampaignRecord): string {
+  const message = renderCampaignMessage(campaign, 'telegram');
+  const url = trackedCampaignUrl(campaign, 'telegram');
+  return `📢 <b>${escapeHtml(message.title)}</b>\n\n${escapeHtml(message.body)}\n\n🔗 <a href="${url}">${escapeHtml(url)}</a>`;
+}
+
+async function dispatchTelegram(campaign: NotificationCampaignRecord, chatId: string): Promise<CampaignDispatchLogInput> {
+  const result = await sendTelegramMessageTo(chatId, telegramText(campaign));
+  return {
+    campaignId: campaign.id,
+    channel: 'telegram',
+    recipient: chatId,
+    status: result.success ? 'sent' : 'failed',
+    messageId: result.messageId,
+    error: result.error,
+    metadata: { source: 'campaign' },
+    deliveredAt: result.success ? new Date() : undefined,
+  };
+}
+
+async function dispatchWhatsApp(
+  campaign: NotificationCampaignRecord,
+  recipient: { phone: string; subscriptionId?: string },
+): Promise<CampaignDispatchLogInput> {
+  const base = {
+    campaignId: campaign.id,
+    channel: 'whatsapp' as const,
+    recipient: recipient.phone,
+    subscriptionId: recipient.subscriptionId,
+    metadata: { source: 'campaign' },
+  };
+  const provider = getMessagingProvider();
+  if (!provider) {
+    return { ...base, status: 'failed', error: 'WhatsApp provider is not configured' };
+  }
+
+  const message = renderCampaignMessage(campaign, 'whatsapp');
+  const result = await provider.send({
+    to: recipient.phone,
+    text: `${message.title}\n\n${message.body}\n\n${trackedCampaignUrl(campaign, 'whatsapp')}`,
+    campaignId: campaign.id,
+  });
+  return {
+    ...base,
+    status: result.success ? 'sent' : 'failed',
+    messageId: result.messageId,
+    error: result.error,
+    metadata: { source: 'campaign', provider: provider.name },
+    deliveredAt: result.success ? new Date() : undefined,
+  };
+}
+
+const emailChannel: CampaignChannelAdapter = {
+  channel: 'email',
+  async prepare({ campaign, subscribers }) {
+    const suppressed = await getSuppressedEmails(subscribers.map((recipient) => recipient.email));
+    const recipients = subscribers.filter((recipient) => !suppressed.has(recipient.email.toLowerCase()));
+    return batchOf(recipients, (recipient) => dispatchEmail(campaign, recipient));
+  },
+  async retry(campaign, log) {
+    // Dispatch logs do not keep the token; a removed subscription retries without links.
+    const subscription = log.subscriptionId
+      ? await prisma.subscription.findUnique({ where: { id: log.subscriptionId }, select: { unsubscribeToken: true } })
+      : null;
+    return dispatchEmail(campaign, {
+      id: log.subscriptionId ?? log.id,
+      email: log.recipient,
+      unsubscribeToken: subscription?.unsubscribeToken,
+    });
+  },
+};
+
+const pushChannel: CampaignChannelAdapter = {
+  channel: 'push',
+  async prepare({ campaign, subscribers }) {
+    const pushRecipients = campaign.segment.type === 'all'
+      ? await PushSubscriptionModelPostgres.listAll()
+      : await PushSubscriptionModelPostgres.listForUserIds(
+          await resolveUserIdsForEmails(subscribers.map((recipient) => recipient.email)),
+        );
+
+    return {
+      recipientCount: pushRecipients.length,
+      send: (concurrency) => {
+        const vapidConfigured = configureWebPush();
+        return mapWithConcurrency(pushRecipients, concurrency, (subscription) => dispatchPush(campaign, subscription, { vapidConfigured }));
+      },
+    };
+  },
+  async retry(campaign, log) {
+    const endpoint = log.pushEndpoint ?? log.recipient;
+    const subscription = await PushSubscriptionModelPostgres.findByEndpoint(endpoint);
+    if (!subscription) {
+      return {
+        campaignId: campaign.id,
+        channel: 'push',
+        recipient: endpoint,
+        recipientUserId: log.recipientUserId,
+        pushEndpoint: endpoint,
+        status: 'failed',
+        error: 'Push subscription no longer exists',
+      };
+    }
+    return dispatchPush(campaign, subscription, { vapidConfigured: configureWebPush() });
+  },
+};
+
+// Telegram posts to the public broadcast channels, so the segment does not narrow it.
+const telegramChannel: CampaignChannelAdapter = {
+  channel: 'telegram',
+  async prepare({ campaign }) {
+    const chatIds = listTelegramChannels().map((channel) => channel.chatId);
+    return batchOf(chatIds, (chatId) => dispatchTelegram(campaign, chatId));
+  },
+  retry(campaign, log) {
+    return dispatchTelegram(campaign, log.recipient);
+  },
+};
+
+const whatsappChannel: CampaignChannelAdapter = {
+  channel: 'whatsapp',
+  async prepare({ campaign, subscribers }) {
+    const recipients = subscribers
+      .filter((subscriber) => Boolean(subscriber.phone))
+      .map((subscriber) => ({ phone: subscriber.phone as string, subscriptionId: subscriber.id }));
+    return batchOf(recipients, (recipient) => dispatchWhatsApp(campaign, recipient));
+  },
+  retry(campaign, log) {
+    return dispatchWhatsApp(campaign, { phone: log.recipient, subscriptionId: log.subscriptionId });
+  },
+};
+
+const CAMPAIGN_CHANNEL_ADAPTERS: Record<CampaignDispatchChannel, CampaignChannelAdapter> = {
+  email: emailChannel,
+  push: pushChannel,
+  telegram: telegramChannel,
+  whatsapp: whatsappChannel,
+};
+
+export function getCampaignChannelAdapter(channel: CampaignDispatchChannel): CampaignChannelAdapter {
+  return CAMPAIGN_CHANNEL_ADAPTERS[channel];
+}
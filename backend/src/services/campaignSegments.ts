@@ -0,0 +1,268 @@
+import { PostType as PrismaPostType, SubscriptionFrequency, type Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+import { postTypeValues } from '../content/types.js';
+import CampaignSegmentModelPostgres, {
+  isDuplicateSegmentName,
+  segmentConditionFields,
+  type CampaignSegmentRecord,
+  type SegmentCondition,
+  type SegmentConditionField,
+  type SegmentGroup,
+  type SegmentRule,
+} from '../models/campaignSegments.postgres.js';
+import type { TrackerStatus } from '../types.js';
+import { slugify } from '../utils/slugify.js';
+
+import { prismaApp } from './postgres/prisma.js';
+
+const MAX_SEGMENT_DEPTH = 4;
+const MAX_GROUP_RULES = 20;
+const TRACKER_STATUSES: TrackerStatus[] = ['saved', 'applied', 'admit-card', 'exam', 'result'];
+
+const segmentConditionSchema = z.object({
+  type: z.literal('condition'),
+  field: z.enum(segmentConditionFields),
+  values: z.array(z.string().trim().min(1).max(160)).max(50).optional(),
+  days: z.number().int().min(1).max(3650).optional(),
+  negate: z.boolean().optional(),
+}).superRefine((condition, ctx) => {
+  if (condition.field === 'lastActive') {
+    if (!condition.days) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Days are required for last-active conditions', path: ['days'] });
+    }
+    return;
+  }
+  if (!condition.values?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'At least one value is required', path: ['values'] });
+  }
+  if (condition.field === 'postType' && condition.values?.some((value) => !(postTypeValues as readonly string[]).includes(value))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown post type', path: ['values'] });
+  }
+  if (condition.field === 'frequency' && condition.values?.some((value) => !['instant', 'daily', 'weekly'].includes(value))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown frequency', path: ['values'] });
+  }
+  if (condition.field === 'trackedStatus' && condition.values?.some((value) => !TRACKER_STATUSES.includes(value as TrackerStatus))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown tracker status', path: ['values'] });
+  }
+});
+
+const segmentGroupSchema = z.lazy(() => z.object({
+  type: z.literal('group'),
+  combinator: z.enum(['and', 'or']),
+  negate: z.boolean().optional(),
+  rules: z.array(z.union([segmentConditionSchema, segmentGroupSchema])).max(MAX_GROUP_RULES),
+})) as z.ZodType<SegmentGroup>;
+
+function ruleDepth(rule: SegmentRule): number {
+  return rule.type === 'group' ? 1 + Math.max(0, ...rule.rules.map(ruleDepth)) : 0;
+}
+
+/** Top-level audience expression; always a group so the builder has a root to add to. */
+export const segmentExpressionSchema = segmentGroupSchema.refine(
+  (group) => ruleDepth(group) <= MAX_SEGMENT_DEPTH,
+  { message: `Segments can nest at most ${MAX_SEGMENT_DEPTH} groups deep` },
+);
+
+const POST_TYPE_TO_PRISMA: Record<string, PrismaPostType> = {
+  job: PrismaPostType.JOB,
+  result: PrismaPostType.RESULT,
+  'admit-card': PrismaPostType.ADMIT_CARD,
+  'answer-key': PrismaPostType.ANSWER_KEY,
+  admission: PrismaPostType.ADMISSION,
+  syllabus: PrismaPostType.SYLLABUS,
+};
+
+const FREQUENCY_TO_PRISMA: Record<string, SubscriptionFrequency> = {
+  instant: SubscriptionFrequency.INSTANT,
+  daily: SubscriptionFrequency.DAILY,
+  weekly: SubscriptionFrequency.WEEKLY,
+};
+
+function taxonomyMatch(values: string[]) {
+  return {
+    OR: values.flatMap((value) => [
+      { slug: slugify(value) },
+      { name: { equals: value, mode: 'insensitive' as const } },
+    ]),
+  };
+}
+
+async function emailsForUserIds(userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const users = await prismaApp.userAccountEntry.findMany({
+    where: { id: { in: userIds }, isActive: true },
+    select: { email: true },
+  });
+  return users.map((user: { email: string }) => user.email);
+}
+
+function emailIn(emails: string[]): Prisma.SubscriptionWhereInput {
+  return { email: { in: emails, mode: 'insensitive' } };
+}
+
+async function compileCondition(condition: SegmentCondition): Promise<Prisma.SubscriptionWhereInput> {
+  const values = condition.values ?? [];
+  switch (condition.field) {
+    case 'state':
+      return { statePrefs: { some: { state: taxonomyMatch(values) } } };
+    case 'category':
+      return { categoryPrefs: { some: { category: taxonomyMatch(values) } } };
+    case 'organization':
+      return { organizationPrefs: { some: { organization: taxonomyMatch(values) } } };
+    case 'qualification':
+      return { qualificationPrefs: { some: { qualification: taxonomyMatch(values) } } };
+    case 'postType':
+      return {
+        postTypePrefs: {
+          some: { postType: { in: values.map((value) => POST_TYPE_TO_PRISMA[value]).filter(Boolean) } },
+        },
+      };
+    case 'frequency':
+      return { frequency: { in: values.map((value) => FREQUENCY_TO_PRISMA[value]).filter(Boolean) } };
+    case 'lastActive': {
+      const since = new Date(Date.now() - (condition.days ?? 0) * 86_400_000);
+      const users = await prismaApp.userAccountEntry.findMany({
+        where: { isActive: true, lastLogin: { gte: since } },
+        select: { email: true },
+      });
+      return emailIn(users.map((user: { email: string }) => user.email));
+    }
+    case 'trackedStatus': {
+      const tracked = await prismaApp.trackedApplicationEntry.findMany({
+        where: { status: { in: values } },
+        select: { userId: true },
+        distinct: ['userId'],
+      });
+      return emailIn(await emailsForUserIds(tracked.map((entry: { userId: string }) => entry.userId)));
+    }
+    case 'campaignReceived': {
+      const logs = await prismaApp.campaignDispatchLogEntry.findMany({
+        where: { campaignId: { in: values }, status: 'sent', subscriptionId: { not: null } },
+        select: { subscriptionId: true },
+        distinct: ['subscriptionId'],
+      });
+      return { id: { in: logs.map((log) => log.subscriptionId as string) } };
+    }
+    default:
+      return { id: '__unsupported_segment_condition__' };
+  }
+}
+
+/**
+ * Turns a segment expression into a subscription filter. Conditions on user
+ * accounts (activity, tracked applications) match subscribers by email.
+ */
+export async function compileSegmentRule(rule: SegmentRule): Promise<Prisma.SubscriptionWhereInput> {
+  let where: Prisma.SubscriptionWhereInput;
+  if (rule.type === 'group') {
+    const parts = await Promise.all(rule.rules.map(compileSegmentRule));
+    where = parts.length === 0 ? {} : rule.combinator === 'or' ? { OR: parts } : { AND: parts };
+  } else {
+    where = await compileCondition(rule);
+  }
+  return rule.negate ? { NOT: where } : where;
+}
+
+const FIELD_LABELS: Record<SegmentConditionField, string> = {
+  state: 'State',
+  category: 'Category',
+  organization: 'Organization',
+  qualification: 'Qualification',
+  postType: 'Post type',
+  frequency: 'Frequency',
+  lastActive: 'Active in last',
+  trackedStatus: 'Tracked status',
+  campaignReceived: 'Received campaign',
+};
+
+/** One-line summary of an expression for campaign lists and audit notes. */
+export function describeSegmentRule(rule: SegmentRule): string {
+  let text: string;
+  if (rule.type === 'group') {
+    const parts = rule.rules.map((child) => (child.type === 'group' ? `(${describeSegmentRule(child)})` : describeSegmentRule(child)));
+    text = parts.length > 0 ? parts.join(rule.combinator === 'or' ? ' OR ' : ' AND ') : 'All subscribers';
+  } else if (rule.field === 'lastActive') {
+    text = `${FIELD_LABELS.lastActive} ${rule.days} days`;
+  } else {
+    text = `${FIELD_LABELS[rule.field]}: ${(rule.values ?? []).join(' / ')}`;
+  }
+  return rule.negate ? `NOT ${rule.type === 'group' ? `(${text})` : text}` : text;
+}
+
+const savedSegmentSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  description: z.string().trim().max(500).optional(),
+  expression: segmentExpressionSchema,
+});
+
+export async function listSavedSegments(): Promise<CampaignSegmentRecord[]> {
+  try {
+    return await CampaignSegmentModelPostgres.list();
+  } catch (error) {
+    console.error('[CampaignSegments] Error listing segments:', error);
+    return [];
+  }
+}
+
+export async function createSavedSegment(
+  data: unknown,
+  userId: string,
+): Promise<{ success: boolean; data?: CampaignSegmentRecord; error?: string }> {
+  const parse = savedSegmentSchema.safeParse(data);
+  if (!parse.success) {
+    return { success: false, error: parse.error.message };
+  }
+
+  try {
+    const segment = await CampaignSegmentModelPostgres.create({
+      name: parse.data.name,
+      description: parse.data.description,
+      expression: parse.data.expression,
+    }, userId);
+    return { success: true, data: segment };
+  } catch (error) {
+    if (isDuplicateSegmentName(error)) {
+      return { success: false, error: 'A segment with this name already exists' };
+    }
+    console.error('[CampaignSegments] Error creating segment:', error);
+    return { success: false, error: 'Failed to create segment' };
+  }
+}
+
+export async function updateSavedSegment(
+  id: string,
+  data: unknown,
+): Promise<{ success: boolean; data?: CampaignSegmentRecord; error?: string }> {
+  const parse = savedSegmentSchema.partial().safeParse(data);
+  if (!parse.success) {
+    return { success: false, error: parse.error.message };
+  }
+
+  try {
+    const segment = await CampaignSegmentModelPostgres.update(id, {
+      name: parse.data.name,
+      description: parse.data.description,
+      expression: parse.data.expression,
+    });
+    if (!segment) {
+      return { success: false, error: 'Segment not found' };
+    }
+    return { success: true, data: segment };
+  } catch (error) {
+    if (isDuplicateSegmentName(error)) {
+      return { success: false, error: 'A segment with this name already exists' };
+    }
+    console.error('[CampaignSegments] Error updating segment:', error);
+    return { success: false, error: 'Failed to update segment' };
+  }
+}
+
+export async function deleteSavedSegment(id: string): Promise<boolean> {
+  try {
+    return await CampaignSegmentModelPostgres.remove(id);
+  } catch (error) {
+    console.error('[CampaignSegments] Error deleting segment:', error);
+    return false;
+  }
+}
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+
+import type {
+  ContentLocale,
+  ContentPageRecord,
+  PostRecord,
+  PostTranslation,
+  PostTranslations,
+  PublicPostCard,
+  PublicPostDetail,
+  TaxonomyDocument,
+  TranslatableLocale,
+  TranslationStatus,
+} from '../content/types.js';
+
+export const TRANSLATABLE_LOCALES: TranslatableLocale[] = ['hi'];
+
+type EnglishSource = Pick<PostRecord, 'title' | 'summary' | 'shortInfo' | 'body'>;
+type TranslationInput = Partial<Record<TranslatableLocale, Partial<PostTranslation> | undefined>>;
+
+const POST_TRANSLATION_TEXT_FIELDS = ['title', 'summary', 'shortInfo', 'body', 'metaTitle', 'metaDescription'] as const;
+
+function clean(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Fingerprint of the English copy a translation was written against. */
+export function hashTranslationSource(source: EnglishSource) {
+  return crypto
+    .createHash('sha1')
+    .update([source.title, source.summary, source.shortInfo, source.body].map((value) => value ?? '').join('\u0000'))
+    .digest('hex');
+}
+
+function sameTranslationText(a: PostTranslation | undefined, b: PostTranslation) {
+  return Boolean(a) && POST_TRANSLATION_TEXT_FIELDS.every((field) => (a?.[field] ?? '') === (b[field] ?? ''));
+}
+
+/**
+ * Normalizes editor input before it is stored. A locale without a title is
+ * dropped. Unchanged translations keep their source hash so they still show
+ * as outdated when only the English copy was edited.
+ */
+export function preparePostTranslations(
+  input: TranslationInput | undefined,
+  previous: PostTranslations | undefined,
+  englishSource: EnglishSource,
+): PostTranslations | undefined {
+  if (!input) return previous;
+
+  const prepared: PostTranslations = {};
+  for (const locale of TRANSLATABLE_LOCALES) {
+    const entry = input[locale];
+    const title = clean(entry?.title);
+    if (!entry || !title) continue;
+
+    const translation: PostTranslation = { title };
+    for (const field of POST_TRANSLATION_TEXT_FIELDS) {
+      const value = clean(entry[field]);
+      if (value) translation[field] = value;
+    }
+
+    const earlier = previous?.[locale];
+    if (earlier && sameTranslationText(earlier, translation)) {
+      translation.sourceHash = earlier.sourceHash;
+      translation.updatedAt = earlier.updatedAt;
+    } else {
+      translation.sourceHash = hashTranslationSource(englishSource);
+      translation.updatedAt = new Date().toISOString();
+    }
+    prepared[locale] = translation;
+  }
+
+  return Object.keys(prepared).length > 0 ? prepared : undefined;
+}
+
+export function postTranslationStatus(
+  post: EnglishSource & { translations?: PostTranslations },
+): Partial<Record<TranslatableLocale, TranslationStatus>> {
+  const sourceHash = hashTranslationSource(post);
+  return Object.fromEntries(
+    TRANSLATABLE_LOCALES.map((locale) => {
+      const translation = post.translations?.[locale];
+      if (!translation) return [locale, 'missing'];
+      return [locale, translation.sourceHash === sourceHash ? 'complete' : 'outdated'];
+    }),
+  );
+}
+
+function availableLocales(translations: Partial<Record<TranslatableLocale, unknown>> | undefined): ContentLocale[] {
+  return ['en', ...TRANSLATABLE_LOCALES.filter((locale) => Boolean(translations?.[locale]))];
+}
+
+/** Overlays the translated copy on a post; fields without a translation stay in English. */
+export function localizePost(post: PostRecord, locale: ContentLocale): PostRecord {
+  const { translations, ...rest } = post;
+  delete rest.translationStatus;
+  const translation = locale === 'en' ? undefined : translations?.[locale];
+  if (!translation) return rest;
+
+  return {
+    ...rest,
+    title: translation.title,
+    summary: translation.summary ?? rest.summary,
+    shortInfo: translation.shortInfo ?? rest.shortInfo,
+    body: translation.body ?? rest.body,
+    seo: {
+      ...rest.seo,
+      metaTitle: translation.metaTitle ?? translation.title,
+      metaDescription: translation.metaDescription ?? translation.summary ?? rest.seo?.metaDescription,
+      effectiveTitle: translation.metaTitle ?? translation.title,
+      effectiveDescription: translation.metaDescription ?? translation.summary ?? rest.seo?.effectiveDescription,
+      effectiveCanonicalPath: rest.seo?.effectiveCanonicalPath ? `/${locale}${rest.seo.effectiveCanonicalPath}` : undefined,
+    },
+  };
+}
+
+export function localizeCard(card: PublicPostCard, locale: ContentLocale): PublicPostCard {
+  const { translations, ...rest } = card;
+  const translation = locale === 'en' ? undefined : translations?.[locale];
+  const localized: PublicPostCard = { ...rest, availableLocales: availableLocales(translations) };
+  if (!translation) return localized;
+
+  return {
+    ...localized,
+    title: translation.title,
+    summary: translation.summary ?? rest.summary,
+    href: `/${locale}${rest.href}`,
+  };
+}
+
+export function localizeDetail(detail: PublicPostDetail, locale: ContentLocale): PublicPostDetail {
+  const locales = availableLocales(detail.post.translations);
+  const resolved = locales.includes(locale) ? locale : 'en';
+
+  return {
+    ...detail,
+    post: localizePost(detail.post, resolved),
+    card: localizeCard(detail.card, resolved),
+    canonicalPath: resolved === 'en' ? detail.canonicalPath : `/${resolved}${detail.canonicalPath}`,
+    relatedCards: detail.relatedCards.map((card) => localizeCard(card, locale)),
+    locale: resolved,
+    availableLocales: locales,
+  };
+}
+
+export function localizeTaxonomy<T extends TaxonomyDocument>(taxonomy: T, locale: ContentLocale): T {
+  const { translations, ...rest } = taxonomy;
+  const translation = locale === 'en' ? undefined : translations?.[locale];
+  if (!translation) return rest as T;
+
+  return {
+    ...rest,
+    name: translation.name,
+    description: translation.description ?? rest.description,
+  } as T;
+}
+
+export function localizeContentPage(page: ContentPageRecord, locale: ContentLocale): ContentPageRecord {
+  const { translations, ...rest } = page;
+  const translation = locale === 'en' ? undefined : translations?.[locale];
+  if (!translation) return rest;
+
+  return {
+    ...rest,
+    title: translation.title,
+    eyebrow: translation.eyebrow ?? rest.eyebrow,
+    description: translation.description ?? rest.description,
+    payload: { ...rest.payload, ...(translation.payload ?? {}) },
+    seoTitle: translation.seoTitle ?? rest.seoTitle,
+    seoDescription: translation.seoDescription ?? rest.seoDescription,
+  };
+}
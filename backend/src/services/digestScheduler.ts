@@ -1,9 +1,16 @@
-import type { AlertSubscriptionRecord } from '../content/types.js';
+import { publicSectionMap, type AlertSubscriptionRecord, type TranslatableLocale } from '../content/types.js';
 import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
 import PostModelPostgres from '../models/posts.postgres.js';
 import type { ContentType } from '../types.js';
 
 import { sendDigestEmail } from './email.js';
+import { getSuppressedEmails } from './emailSuppression.js';
+import {
+    collectDueSubscriberReminders,
+    markSubscriberRemindersDispatched,
+    reserveSubscriberReminders,
+    type DueSubscriberReminders,
+} from './subscriberDeadlineReminders.js';
 
 interface CandidateDigestAnnouncement {
     title: string;
@@ -16,6 +23,7 @@ interface CandidateDigestAnnouncement {
     organizationSlug?: string;
     stateSlug?: string;
     qualificationSlug?: string;
+    translatedTitles?: Partial<Record<TranslatableLocale, string>>;
 }
 
 const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
@@ -150,6 +158,7 @@ async function listCandidateAnnouncements(frequency: 'daily' | 'weekly', now: Da
                 organizationSlug: normalizeToken(organization?.slug || organization?.name),
                 stateSlug: normalizeToken(state?.slug || state?.name || post.location),
                 qualificationSlug: normalizeToken(qualification?.slug || qualification?.name),
+                translatedTitles: post.translations?.hi ? { hi: post.translations.hi.title } : undefined,
             };
         })
         .filter(Boolean) as CandidateDigestAnnouncement[];
@@ -162,11 +171,17 @@ async function markDigestSent(subscriptionEmail: string, frequency: 'daily' | 'w
 async function processFrequency(frequency: 'daily' | 'weekly', now: Date): Promise<void> {
     if (!frequencyWindowOpen(frequency, now)) return;
 
-    const subscribers = await listDueSubscribers(frequency, now);
+    const dueSubscribers = await listDueSubscribers(frequency, now);
+    const suppressed = await getSuppressedEmails(dueSubscribers.map((subscriber) => subscriber.email));
+    const subscribers = dueSubscribers.filter((subscriber) => !suppressed.has(subscriber.email?.toLowerCase()));
     if (subscribers.length === 0) return;
 
     const candidates = await listCandidateAnnouncements(frequency, now);
-    if (candidates.length === 0) return;
+    // Daily digests carry last-date reminders for subscribers who opted in.
+    const dueReminders = frequency === 'daily'
+        ? await collectDueSubscriberReminders(now, ['daily'])
+        : new Map<string, DueSubscriberReminders>();
+    if (candidates.length === 0 && dueReminders.size === 0) return;
 
     const windowLabel = getFrequencyWindowLabel(frequency, now);
     let sent = 0;
@@ -181,16 +196,25 @@ async function processFrequency(frequency: 'daily' | 'weekly', now: Date): Promi
         const matches = candidates
             .filter((announcement) => matchesSubscription(announcement, subscriber))
             .slice(0, schedulerConfig.maxItems)
-            .map((announcement) => ({
-                title: announcement.title,
-                slug: announcement.slug,
-                type: announcement.type,
-                category: announcement.category,
-                organization: announcement.organization,
-                deadline: announcement.deadline,
-            }));
-
-        if (matches.length === 0) {
+            .map((announcement) => {
+                const translatedTitle = subscriber.locale !== 'en' ? announcement.translatedTitles?.[subscriber.locale] : undefined;
+                return {
+                    title: translatedTitle || announcement.title,
+                    slug: announcement.slug,
+                    type: announcement.type,
+                    category: announcement.category,
+                    organization: announcement.organization,
+                    deadline: announcement.deadline,
+                    path: translatedTitle ? `/${subscriber.locale}/${publicSectionMap[announcement.type]}/${announcement.slug}` : undefined,
+                };
+            });
+
+        const reminders = dueReminders.get(subscriber.id);
+        const reservation = reminders
+            ? await reserveSubscriberReminders(subscriber.id, reminders.items)
+            : { reserved: [], logIds: [], deduped: 0 };
+
+        if (matches.length === 0 && reservation.reserved.length === 0) {
             skipped += 1;
             continue;
         }
@@ -198,10 +222,13 @@ async function processFrequency(frequency: 'daily' | 'weekly', now: Date): Promi
         const delivered = await sendDigestEmail({
             email: subscriber.email,
             announcements: matches,
+            reminders: reservation.reserved,
             unsubscribeToken: subscriber.unsubscribeToken,
             frequency,
             windowLabel,
+            locale: subscriber.locale,
         });
+        await markSubscriberRemindersDispatched(reservation.logIds, delivered);
 
         if (delivered) {
             await markDigestSent(subscriber.email, frequency, now);
@@ -0,0 +1,530 @@
+import type {
+  AgeRelaxationCategory,
+  AgeRelaxationRecord,
+  EligibilityRecord,
+  PostRecord,
+  PostType,
+} from '../content/types.js';
+import { publicSectionMap } from '../content/types.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+import type { UserProfileRecord } from '../models/profile.postgres.js';
+import { slugify } from '../utils/slugify.js';
+
+export type ReservationCategory = 'general' | 'ews' | 'obc' | 'sc' | 'st';
+export type CandidateGender = 'male' | 'female' | 'other';
+export type EligibilityStatus = 'eligible' | 'borderline' | 'not_eligible';
+export type EligibilityCheck = 'age' | 'qualification' | 'domicile' | 'gender';
+
+export interface EligibilityCandidate {
+  /** YYYY-MM-DD. Preferred over `age` because age is computed on each post's cut-off date. */
+  dateOfBirth?: string;
+  age?: number;
+  category?: ReservationCategory;
+  pwbd?: boolean;
+  exServiceman?: boolean;
+  militaryServiceYears?: number;
+  qualification?: string;
+  state?: string;
+  gender?: CandidateGender;
+}
+
+export interface EligibilityReason {
+  check: EligibilityCheck;
+  outcome: 'pass' | 'warn' | 'fail';
+  message: string;
+}
+
+export interface PostEligibilityResult {
+  postId: string;
+  status: EligibilityStatus;
+  reasons: EligibilityReason[];
+  cutoffDate: string | null;
+  cutoffSource: 'age_cutoff_date' | 'last_date' | 'evaluation_date';
+  ageOnCutoff: number | null;
+  ageLimit: {
+    min: number | null;
+    max: number | null;
+    relaxationYears: number;
+    effectiveMax: number | null;
+  } | null;
+}
+
+type AgeCutoff = { date: Date; source: PostEligibilityResult['cutoffSource'] };
+
+type AgeCheck = {
+  reason: EligibilityReason;
+  cutoff: AgeCutoff;
+  ageOnCutoff: number | null;
+  ageLimit: PostEligibilityResult['ageLimit'];
+};
+
+export interface EligibilityMatch extends PostEligibilityResult {
+  post: {
+    id: string;
+    title: string;
+    slug: string;
+    type: PostType;
+    href: string;
+    organization?: string;
+    lastDate?: string;
+  };
+}
+
+export interface EligibilityMatchSummary {
+  evaluated: number;
+  eligible: number;
+  borderline: number;
+  notEligible: number;
+}
+
+// Central government norms for direct recruitment. Notifications can differ,
+// so results that lean on relaxation say so in their reasons.
+const CATEGORY_AGE_RELAXATION: Record<ReservationCategory, number> = {
+  general: 0,
+  ews: 0,
+  obc: 3,
+  sc: 5,
+  st: 5,
+};
+const PWBD_AGE_RELAXATION = 10;
+const EX_SERVICEMEN_AGE_RELAXATION = 3;
+
+const CATEGORY_LABELS: Record<ReservationCategory, string> = {
+  general: 'General',
+  ews: 'EWS',
+  obc: 'OBC',
+  sc: 'SC',
+  st: 'ST',
+};
+
+// Checked top-down, so "post graduate" is read before "graduate" and
+// "senior secondary" before "secondary".
+const QUALIFICATION_LEVELS: Array<{ level: number; label: string; pattern: RegExp }> = [
+  { level: 6, label: 'PhD', pattern: /\b(phd|doctorate|doctoral)\b/ },
+  { level: 5, label: 'Post Graduate', pattern: /\b(post ?graduat\w*|pg|masters?|ma|msc|mcom|mtech|me|mba|mca|llm|md|ms)\b/ },
+  { level: 4, label: 'Graduate', pattern: /\b(graduat\w*|degree|bachelors?|ba|bsc|bcom|btech|be|bca|bba|llb|mbbs|bed|bpharm)\b/ },
+  { level: 3, label: 'Diploma', pattern: /\b(diploma|polytechnic)\b/ },
+  { level: 2, label: '12th Pass / ITI', pattern: /\b(12th|intermediate|higher secondary|senior secondary|hsc|10 ?\+ ?2|iti)\b/ },
+  { level: 1, label: '10th Pass', pattern: /\b(10th|matric\w*|high school|ssc|secondary)\b/ },
+];
+
+const FEMALE_ONLY_PATTERN = /\b(female|women|woman|girls?)\s+(candidates\s+)?only\b|\bonly\s+(female|women|girls?)\b|\bmahila\b/i;
+const MALE_ONLY_PATTERN = /\bmale\s+(candidates\s+)?only\b|\bonly\s+male\b/i;
+
+// Without a published cut-off date the evaluation date stands in, so ages this
+// close to a limit are reported as borderline rather than decided.
+const ESTIMATED_CUTOFF_MARGIN_YEARS = 1;
+
+const MATCH_CANDIDATE_POOL = 200;
+const MAX_MATCH_RESULTS = 100;
+
+const OUTCOME_RANK: Record<EligibilityReason['outcome'], number> = {
+  pass: 0,
+  warn: 1,
+  fail: 2,
+};
+
+const STATUS_RANK: Record<EligibilityStatus, number> = {
+  eligible: 0,
+  borderline: 1,
+  not_eligible: 2,
+};
+
+function toUtcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Parse the display dates editors type into important-date rows
+ * ("15/03/2026", "15-03-2026", "2026-03-15", "15 March 2026") as UTC midnight.
+ */
+export function parseEligibilityDate(value?: string | null): Date | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toUtcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dayFirst = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) return toUtcDate(Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1]));
+
+  const parsed = new Date(trimmed);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return toUtcDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+}
+
+/** Completed years on `on`, the way recruitment notices count age. */
+export function ageOnDate(dateOfBirth: Date, on: Date): number {
+  let age = on.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const monthDelta = on.getUTCMonth() - dateOfBirth.getUTCMonth();
+  if (monthDelta < 0 || (monthDelta === 0 && on.getUTCDate() < dateOfBirth.getUTCDate())) {
+    age -= 1;
+  }
+  return age;
+}
+
+/**
+ * Total upper-age relaxation for a candidate. Relaxation rows published with the
+ * post take over from the standard central norms; categories the notice leaves
+ * out get none.
+ */
+export function getAgeRelaxationYears(
+  candidate: EligibilityCandidate,
+  options: { includeCategory?: boolean; relaxations?: AgeRelaxationRecord[] } = {},
+): number {
+  const rows = options.relaxations ?? [];
+  const notified = rows.length > 0;
+  const rowFor = (category: AgeRelaxationCategory) => rows.find((row) => row.category === category);
+  const category = candidate.category ?? 'general';
+  const serviceYears = Math.max(0, candidate.militaryServiceYears ?? 0);
+
+  const categoryYears = options.includeCategory === false || category === 'general'
+    ? 0
+    : notified ? rowFor(category)?.years ?? 0 : CATEGORY_AGE_RELAXATION[category];
+  const pwbdYears = !candidate.pwbd
+    ? 0
+    : notified ? rowFor('pwbd')?.years ?? 0 : PWBD_AGE_RELAXATION;
+  const exServicemanRow = rowFor('ex_serviceman');
+  const exServicemanYears = !candidate.exServiceman
+    ? 0
+    : !notified
+      ? EX_SERVICEMEN_AGE_RELAXATION + serviceYears
+      : exServicemanRow
+        ? exServicemanRow.years + (exServicemanRow.appliesFrom === 'after_service_deduction' ? serviceYears : 0)
+        : 0;
+  const womenYears = notified && candidate.gender === 'female' ? rowFor('women')?.years ?? 0 : 0;
+
+  // PwBD, ex-servicemen and women relaxations are alternatives, each stacked on the category one.
+  return categoryYears + Math.max(pwbdYears, exServicemanYears, womenYears);
+}
+
+function relaxationLabel(candidate: EligibilityCandidate): string {
+  const parts = [
+    candidate.category && candidate.category !== 'general' ? CATEGORY_LABELS[candidate.category] : null,
+    candidate.pwbd ? 'PwBD' : null,
+    candidate.exServiceman ? 'ex-servicemen' : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' + ') : 'age';
+}
+
+/** Rank a qualification name or slug on the 10th → PhD ladder; null when unrecognised. */
+export function getQualificationLevel(value?: string | null): number | null {
+  const normalized = (value || '').toLowerCase().replace(/\./g, '').replace(/[-_]+/g, ' ');
+  if (!normalized.trim()) return null;
+  return QUALIFICATION_LEVELS.find((entry) => entry.pattern.test(normalized))?.level ?? null;
+}
+
+function qualificationLabel(level: number) {
+  return QUALIFICATION_LEVELS.find((entry) => entry.level === level)?.label ?? 'the required qualification';
+}
+
+function formatIsoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function resolveCutoff(post: PostRecord, rule: EligibilityRecord | undefined, today: Date): AgeCutoff {
+  const ruleCutoff = parseEligibilityDate(rule?.ageCutoffDate);
+  if (ruleCutoff) return { date: ruleCutoff, source: 'age_cutoff_date' };
+
+  const lastDateRow = post.importantDates.find((item) => item.kind === 'last_date');
+  const lastDate = parseEligibilityDate(lastDateRow?.value) ?? parseEligibilityDate(post.lastDate);
+  if (lastDate) return { date: lastDate, source: 'last_date' };
+
+  return { date: today, source: 'evaluation_date' };
+}
+
+function checkDomicile(post: PostRecord, candidate: EligibilityCandidate): { reason: EligibilityReason; domiciled: boolean } {
+  if (post.states.length === 0) {
+    return { domiciled: true, reason: { check: 'domicile', outcome: 'pass', message: 'Open to candidates from all states.' } };
+  }
+
+  const stateNames = post.states.map((state) => state.name).join(', ');
+  if (!candidate.state?.trim()) {
+    return {
+      domiciled: false,
+      reason: { check: 'domicile', outcome: 'warn', message: `State-level recruitment for ${stateNames}; add your domicile state to confirm.` },
+    };
+  }
+
+  const candidateSlug = slugify(candidate.state);
+  const domiciled = post.states.some((state) => state.slug === candidateSlug || slugify(state.name) === candidateSlug);
+  if (domiciled) {
+    return { domiciled: true, reason: { check: 'domicile', outcome: 'pass', message: `Domicile matches ${stateNames}.` } };
+  }
+  return {
+    domiciled: false,
+    reason: {
+      check: 'domicile',
+      outcome: 'warn',
+      message: `State-level recruitment for ${stateNames}; other-state candidates usually apply as unreserved, if at all.`,
+    },
+  };
+}
+
+function checkAgeRule(
+  rule: EligibilityRecord,
+  candidate: EligibilityCandidate,
+  cutoff: AgeCutoff,
+  domiciled: boolean,
+): AgeCheck {
+  const min = typeof rule.minAge === 'number' ? rule.minAge : null;
+  const max = typeof rule.maxAge === 'number' ? rule.maxAge : null;
+  const relaxationYears = getAgeRelaxationYears(candidate, { includeCategory: domiciled, relaxations: rule.ageRelaxations });
+  const effectiveMax = max === null ? null : max + relaxationYears;
+  const ageLimit = { min, max, relaxationYears, effectiveMax };
+
+  const dateOfBirth = parseEligibilityDate(candidate.dateOfBirth);
+  const ageOnCutoff = dateOfBirth ? ageOnDate(dateOfBirth, cutoff.date) : candidate.age ?? null;
+  const estimated = cutoff.source === 'evaluation_date';
+
+  if (ageOnCutoff === null) {
+    return {
+      cutoff,
+      ageOnCutoff,
+      ageLimit,
+      reason: { check: 'age', outcome: 'warn', message: 'Add your date of birth to check the age limit.' },
+    };
+  }
+
+  const asOf = estimated ? 'today (no cut-off date published)' : `on ${formatIsoDate(cutoff.date)}`;
+  if (min !== null && ageOnCutoff < min) {
+    const outcome = estimated && min - ageOnCutoff <= ESTIMATED_CUTOFF_MARGIN_YEARS ? 'warn' : 'fail';
+    return {
+      cutoff,
+      ageOnCutoff,
+      ageLimit,
+      reason: { check: 'age', outcome, message: `Age ${ageOnCutoff} ${asOf} is below the minimum of ${min}.` },
+    };
+  }
+
+  if (effectiveMax !== null && ageOnCutoff > effectiveMax) {
+    const outcome = estimated && ageOnCutoff - effectiveMax <= ESTIMATED_CUTOFF_MARGIN_YEARS ? 'warn' : 'fail';
+    const relaxed = relaxationYears > 0 ? ` including ${relaxationYears} years of relaxation` : '';
+    return {
+      cutoff,
+      ageOnCutoff,
+      ageLimit,
+      reason: { check: 'age', outcome, message: `Age ${ageOnCutoff} ${asOf} is above the limit of ${effectiveMax}${relaxed}.` },
+    };
+  }
+
+  const needsRelaxation = max !== null && ageOnCutoff > max;
+  const nearLimit = estimated && (
+    (min !== null && ageOnCutoff - min < ESTIMATED_CUTOFF_MARGIN_YEARS)
+    || (effectiveMax !== null && effectiveMax - ageOnCutoff < ESTIMATED_CUTOFF_MARGIN_YEARS)
+  );
+  if (needsRelaxation) {
+    const basis = rule.ageRelaxations?.length ? 'as notified' : 'under standard central norms';
+    return {
+      cutoff,
+      ageOnCutoff,
+      ageLimit,
+      reason: {
+        check: 'age',
+        outcome: nearLimit ? 'warn' : 'pass',
+        message: `Age ${ageOnCutoff} ${asOf} is within the limit with ${relaxationYears} years of ${relaxationLabel(candidate)} relaxation ${basis}.`,
+      },
+    };
+  }
+
+  return {
+    cutoff,
+    ageOnCutoff,
+    ageLimit,
+    reason: {
+      check: 'age',
+      outcome: nearLimit ? 'warn' : 'pass',
+      message: `Age ${ageOnCutoff} ${asOf} is within ${min ?? 'the'}–${max ?? 'open'} years.`,
+    },
+  };
+}
+
+function checkAge(post: PostRecord, candidate: EligibilityCandidate, today: Date, domiciled: boolean): AgeCheck {
+  const ageRules = post.eligibility.filter((rule) => typeof rule.minAge === 'number' || typeof rule.maxAge === 'number');
+
+  if (ageRules.length === 0) {
+    const cutoff = resolveCutoff(post, undefined, today);
+    const dateOfBirth = parseEligibilityDate(candidate.dateOfBirth);
+    return {
+      cutoff,
+      ageOnCutoff: dateOfBirth ? ageOnDate(dateOfBirth, cutoff.date) : candidate.age ?? null,
+      ageLimit: null,
+      reason: { check: 'age', outcome: 'warn', message: 'No age limit is listed for this post; check the official notification.' },
+    };
+  }
+
+  // Several rules usually mean several posts in one notice; fitting any one is enough.
+  return ageRules
+    .map((rule) => checkAgeRule(rule, candidate, resolveCutoff(post, rule, today), domiciled))
+    .sort((a, b) => OUTCOME_RANK[a.reason.outcome] - OUTCOME_RANK[b.reason.outcome])[0];
+}
+
+function checkQualification(post: PostRecord, candidate: EligibilityCandidate): EligibilityReason {
+  const required = new Map<string, string>();
+  for (const rule of post.eligibility) {
+    if (rule.qualificationSlug) required.set(rule.qualificationSlug, rule.qualificationSlug);
+  }
+  for (const qualification of post.qualifications) {
+    required.set(qualification.slug, qualification.name);
+  }
+
+  if (required.size === 0) {
+    return { check: 'qualification', outcome: 'warn', message: 'No qualification is listed for this post; check the official notification.' };
+  }
+  if (!candidate.qualification?.trim()) {
+    return { check: 'qualification', outcome: 'warn', message: 'Add your highest qualification to check eligibility.' };
+  }
+
+  const candidateSlug = slugify(candidate.qualification);
+  if (required.has(candidateSlug)) {
+    return { check: 'qualification', outcome: 'pass', message: `${required.get(candidateSlug)} matches the required qualification.` };
+  }
+
+  const candidateLevel = getQualificationLevel(candidate.qualification);
+  const requiredLevels = Array.from(required.entries())
+    .map(([slug, name]) => getQualificationLevel(name) ?? getQualificationLevel(slug))
+    .filter((level): level is number => level !== null);
+  if (candidateLevel === null || requiredLevels.length === 0) {
+    return { check: 'qualification', outcome: 'warn', message: 'Could not compare qualifications; check the official notification.' };
+  }
+
+  // Listed qualifications are alternatives, so the lowest one is the bar.
+  const requiredLevel = Math.min(...requiredLevels);
+  if (candidateLevel > requiredLevel) {
+    return { check: 'qualification', outcome: 'pass', message: `Higher than the required ${qualificationLabel(requiredLevel)}.` };
+  }
+  if (candidateLevel === requiredLevel) {
+    return {
+      check: 'qualification',
+      outcome: 'warn',
+      message: `Same level as the required ${Array.from(required.values()).join(' / ')}; confirm the discipline matches.`,
+    };
+  }
+  return { check: 'qualification', outcome: 'fail', message: `Requires at least ${qualificationLabel(requiredLevel)}.` };
+}
+
+function checkGender(post: PostRecord, candidate: EligibilityCandidate): EligibilityReason {
+  const text = [post.title, ...post.eligibility.flatMap((rule) => [rule.label, rule.description])].join(' ');
+  const restriction = FEMALE_ONLY_PATTERN.test(text) ? 'female' : MALE_ONLY_PATTERN.test(text) ? 'male' : null;
+
+  if (!restriction) {
+    return { check: 'gender', outcome: 'pass', message: 'Open to all genders.' };
+  }
+  if (!candidate.gender) {
+    return { check: 'gender', outcome: 'warn', message: `Only ${restriction} candidates can apply.` };
+  }
+  if (candidate.gender !== restriction) {
+    return { check: 'gender', outcome: 'fail', message: `Only ${restriction} candidates can apply.` };
+  }
+  return { check: 'gender', outcome: 'pass', message: `Open to ${restriction} candidates.` };
+}
+
+/**
+ * Check one post against a candidate. Any failed check makes the post
+ * not eligible; any check that needs a human look makes it borderline.
+ */
+export function evaluatePostEligibility(
+  post: PostRecord,
+  candidate: EligibilityCandidate,
+  now: Date = new Date(),
+): PostEligibilityResult {
+  const today = toUtcDate(now.getUTCFullYear(), now.getUTCMonth() + 1, now.getUTCDate())!;
+
+  const domicile = checkDomicile(post, candidate);
+  const age = checkAge(post, candidate, today, domicile.domiciled);
+  const reasons: EligibilityReason[] = [
+    age.reason,
+    checkQualification(post, candidate),
+    domicile.reason,
+    checkGender(post, candidate),
+  ];
+
+  const categoryRelaxation = CATEGORY_AGE_RELAXATION[candidate.category ?? 'general'];
+  const maxAge = age.ageLimit?.max ?? null;
+  if (!domicile.domiciled && categoryRelaxation > 0 && maxAge !== null && age.ageOnCutoff !== null && age.ageOnCutoff > maxAge) {
+    reasons.push({
+      check: 'domicile',
+      outcome: 'warn',
+      message: `${CATEGORY_LABELS[candidate.category ?? 'general']} age relaxation was not applied; state posts usually limit it to domicile holders.`,
+    });
+  }
+
+  const status: EligibilityStatus = reasons.some((reason) => reason.outcome === 'fail')
+    ? 'not_eligible'
+    : reasons.some((reason) => reason.outcome === 'warn')
+      ? 'borderline'
+      : 'eligible';
+
+  return {
+    postId: post.id,
+    status,
+    reasons,
+    cutoffDate: formatIsoDate(age.cutoff.date),
+    cutoffSource: age.cutoff.source,
+    ageOnCutoff: age.ageOnCutoff,
+    ageLimit: age.ageLimit,
+  };
+}
+
+/** Build a matcher candidate from the eligibility fields saved on a user profile. */
+export function candidateFromProfile(profile: UserProfileRecord): EligibilityCandidate {
+  return {
+    dateOfBirth: profile.dateOfBirth ?? undefined,
+    category: profile.reservationCategory ?? undefined,
+    pwbd: profile.isPwbd,
+    exServiceman: profile.isExServiceman,
+    militaryServiceYears: profile.militaryServiceYears,
+    qualification: profile.educationLevel ?? profile.preferredQualifications[0] ?? undefined,
+    state: profile.domicileState ?? undefined,
+    gender: profile.gender ?? undefined,
+  };
+}
+
+/**
+ * Evaluate the newest open posts for a candidate. Not-eligible posts are
+ * dropped unless asked for, but always counted in the summary.
+ */
+export async function findEligibilityMatches(
+  candidate: EligibilityCandidate,
+  options: { type?: PostType; limit?: number; includeIneligible?: boolean; now?: Date } = {},
+): Promise<{ data: EligibilityMatch[]; summary: EligibilityMatchSummary }> {
+  const posts = await PostModelPostgres.listEligibilityCandidates({
+    type: options.type ?? 'job',
+    limit: MATCH_CANDIDATE_POOL,
+  });
+  const now = options.now ?? new Date();
+
+  const matches: EligibilityMatch[] = posts.map((post) => ({
+    post: {
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      type: post.type,
+      href: `/${publicSectionMap[post.type]}/${post.slug}`,
+      organization: post.organization?.name,
+      lastDate: post.lastDate,
+    },
+    ...evaluatePostEligibility(post, candidate, now),
+  }));
+
+  const summary: EligibilityMatchSummary = {
+    evaluated: matches.length,
+    eligible: matches.filter((match) => match.status === 'eligible').length,
+    borderline: matches.filter((match) => match.status === 'borderline').length,
+    notEligible: matches.filter((match) => match.status === 'not_eligible').length,
+  };
+
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), MAX_MATCH_RESULTS);
+  const data = matches
+    .filter((match) => options.includeIneligible || match.status !== 'not_eligible')
+    .sort((a, b) => (
+      STATUS_RANK[a.status] - STATUS_RANK[b.status]
+      || Number(a.cutoffSource === 'evaluation_date') - Number(b.cutoffSource === 'evaluation_date')
+      || (a.cutoffDate ?? '').localeCompare(b.cutoffDate ?? '')
+    ))
+    .slice(0, limit);
+
+  return { data, summary };
+}
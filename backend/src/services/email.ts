@@ -1,32 +1,61 @@
-import sgMail from '@sendgrid/mail';
-
 import { config } from '../config.js';
+import type { ContentLocale } from '../content/types.js';
 import { Announcement } from '../types.js';
+import { escapeHtml } from '../utils/html.js';
 
-// Initialize SendGrid
-const initSendGrid = () => {
-  if (!config.emailPass) {
-    console.warn('SENDGRID_API_KEY not configured. Email notifications disabled.');
-    return false;
-  }
-  sgMail.setApiKey(config.emailPass);
-  return true;
-};
-
-const isConfigured = initSendGrid();
+import {
+  buildAlertEmailContext,
+  buildDigestEmailContext,
+  buildSubscriptionLinks,
+  renderEmailTemplate,
+  type RenderedEmail,
+} from './emailTemplates.js';
+import { getEmailTransport, type EmailSendResult } from './emailTransport.js';
 
 /**
  * Check if email service is configured
  */
 export const isEmailConfigured = (): boolean => {
-  return isConfigured;
+  return getEmailTransport() !== null;
 };
 
-const escapeHtml = (value: string): string => value
-  .replace(/&/g, '&amp;')
-  .replace(/</g, '&lt;')
-  .replace(/>/g, '&gt;')
-  .replace(/"/g, '&quot;');
+const deliver = async (
+  to: string,
+  rendered: RenderedEmail,
+  headers?: Record<string, string>,
+): Promise<EmailSendResult> => {
+  const transport = getEmailTransport();
+  if (!transport) {
+    return { success: false, error: 'Email transport is not configured' };
+  }
+  return transport.send({
+    to,
+    from: config.emailFrom || 'noreply@sarkariresult.com',
+    subject: rendered.subject,
+    html: rendered.html,
+    ...(headers ? { headers } : {}),
+  });
+};
+
+/**
+ * RFC 8058 one-click unsubscribe headers for subscriber mail.
+ */
+export const listUnsubscribeHeaders = (oneClickUrl: string): Record<string, string> => ({
+  'List-Unsubscribe': `<${oneClickUrl}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+});
+
+/**
+ * Send an already-rendered email, e.g. a template test-send from the admin console.
+ */
+export const sendRenderedEmail = async (
+  to: string,
+  rendered: RenderedEmail,
+): Promise<EmailSendResult> => {
+  const result = await deliver(to, rendered);
+  if (!result.success) console.error('Failed to send rendered email:', result.error);
+  return result;
+};
 
 /**
  * Send a free-form admin notification campaign email.
@@ -37,9 +66,11 @@ export const sendCampaignEmail = async (options: {
   body: string;
   url?: string;
   campaignId: string;
-}): Promise<{ success: boolean; messageId?: string; error?: string }> => {
-  if (!isConfigured) {
-    return { success: false, error: 'SendGrid is not configured' };
+  /** Subscriber token for the preference, unsubscribe and one-click links. */
+  unsubscribeToken?: string | null;
+}): Promise<EmailSendResult> => {
+  if (!isEmailConfigured()) {
+    return { success: false, error: 'Email transport is not configured' };
   }
 
   const campaignUrl = options.url
@@ -51,52 +82,19 @@ export const sendCampaignEmail = async (options: {
         return url.toString();
       })()
     : config.frontendUrl;
+  const links = options.unsubscribeToken ? buildSubscriptionLinks(options.unsubscribeToken) : null;
+  const rendered = await renderEmailTemplate('campaign', {
+    title: options.title,
+    body: options.body,
+    bodyHtml: escapeHtml(options.body).replace(/\n/g, '<br>'),
+    url: campaignUrl,
+    unsubscribeUrl: links?.unsubscribeUrl,
+    preferencesUrl: links?.preferencesUrl,
+  });
 
-  try {
-    const [response] = await sgMail.send({
-      to: options.to,
-      from: config.emailFrom || 'noreply@sarkariresult.com',
-      subject: options.title,
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #111827; }
-            .container { max-width: 640px; margin: 0 auto; padding: 20px; }
-            .header { background: #1a365d; color: white; padding: 20px; text-align: center; }
-            .content { padding: 20px; background: #f8fafc; }
-            .card { background: white; padding: 18px; border-radius: 8px; }
-            .button { display: inline-block; background: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; }
-            .footer { padding: 16px; text-align: center; font-size: 12px; color: #6b7280; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>${escapeHtml(options.title)}</h1>
-            </div>
-            <div class="content">
-              <div class="card">
-                <p>${escapeHtml(options.body).replace(/\n/g, '<br>')}</p>
-                <p><a href="${campaignUrl}" class="button">View details</a></p>
-              </div>
-            </div>
-            <div class="footer">
-              <p>You are receiving this email because you subscribed to SarkariExams updates.</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
-    });
-
-    const messageId = response.headers?.['x-message-id'];
-    return { success: true, messageId: Array.isArray(messageId) ? messageId[0] : messageId };
-  } catch (error) {
-    console.error('Failed to send campaign email:', error);
-    return { success: false, error: error instanceof Error ? error.message : 'Failed to send campaign email' };
-  }
+  const result = await deliver(options.to, rendered, links ? listUnsubscribeHeaders(links.oneClickUrl) : undefined);
+  if (!result.success) console.error('Failed to send campaign email:', result.error);
+  return result;
 };
 
 /**
@@ -106,63 +104,18 @@ export const sendPasswordRecoveryEmail = async (
   email: string,
   recoveryToken: string,
 ): Promise<boolean> => {
-  if (!isConfigured) {
-    console.log('SendGrid not configured, skipping password recovery email');
+  if (!isEmailConfigured()) {
+    console.log('Email transport not configured, skipping password recovery email');
     return false;
   }
 
   const baseUrl = (config.adminUrl || `${config.frontendUrl.replace(/\/$/, '')}/admin`).replace(/\/$/, '');
   const resetUrl = `${baseUrl}?recovery_token=${encodeURIComponent(recoveryToken)}`;
+  const rendered = await renderEmailTemplate('password_recovery', { email, resetUrl, recoveryToken });
 
-  try {
-    await sgMail.send({
-      to: email,
-      from: config.emailFrom || 'noreply@sarkariresult.com',
-      subject: 'Reset your SarkariExams account password',
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #111827; }
-            .container { max-width: 640px; margin: 0 auto; padding: 20px; }
-            .header { background: #1a365d; color: white; padding: 20px; text-align: center; }
-            .content { padding: 20px; background: #f8fafc; }
-            .card { background: white; padding: 18px; border-radius: 8px; }
-            .button { display: inline-block; background: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; }
-            .token { margin-top: 16px; padding: 10px; border-radius: 6px; background: #f3f4f6; font-family: monospace; word-break: break-all; }
-            .footer { padding: 16px; text-align: center; font-size: 12px; color: #6b7280; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>SarkariExams Account Recovery</h1>
-            </div>
-            <div class="content">
-              <div class="card">
-                <p>We received a password recovery request for your account.</p>
-                <p>Use the secure link below to continue:</p>
-                <p><a href="${resetUrl}" class="button">Reset Password</a></p>
-                <p>If the link does not open in the admin console, use this token manually:</p>
-                <div class="token">${recoveryToken}</div>
-                <p>This token expires automatically. If you did not request this, you can ignore this email.</p>
-              </div>
-            </div>
-            <div class="footer">
-              <p>© SarkariExams.me</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
-    });
-
-    return true;
-  } catch (error) {
-    console.error('Failed to send password recovery email:', error);
-    return false;
-  }
+  const result = await deliver(email, rendered);
+  if (!result.success) console.error('Failed to send password recovery email:', result.error);
+  return result.success;
 };
 
 /**
@@ -173,59 +126,22 @@ export const sendVerificationEmail = async (
   verificationToken: string,
   categories: string[]
 ): Promise<boolean> => {
-  if (!isConfigured) {
-    console.log('SendGrid not configured, skipping verification email');
+  if (!isEmailConfigured()) {
+    console.log('Email transport not configured, skipping verification email');
     return false;
   }
 
   const verifyUrl = `${config.frontendUrl}/verify?token=${verificationToken}`;
   const categoryList = categories.length > 0 ? categories.join(', ') : 'All categories';
+  const rendered = await renderEmailTemplate('verification', { email, verifyUrl, categories: categoryList });
 
-  try {
-    await sgMail.send({
-      to: email,
-      from: config.emailFrom || 'noreply@sarkariresult.com',
-      subject: '📧 Verify your Sarkari Result subscription',
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: #1a365d; color: white; padding: 20px; text-align: center; }
-            .content { padding: 20px; background: #f9f9f9; }
-            .button { display: inline-block; background: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
-            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>🏛️ Sarkari Result</h1>
-            </div>
-            <div class="content">
-              <h2>Confirm your subscription</h2>
-              <p>Thank you for subscribing to Sarkari Result notifications!</p>
-              <p><strong>Categories:</strong> ${categoryList}</p>
-              <p>Please click the button below to verify your email address:</p>
-              <a href="${verifyUrl}" class="button">✅ Verify Email</a>
-              <p>If you didn't subscribe, you can ignore this email.</p>
-            </div>
-            <div class="footer">
-              <p>© 2024 Sarkari Result | Government Jobs & Results Portal</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
-    });
-    console.log(`Verification email sent to ${email}`);
-    return true;
-  } catch (error) {
-    console.error('Failed to send verification email:', error);
+  const result = await deliver(email, rendered);
+  if (!result.success) {
+    console.error('Failed to send verification email:', result.error);
     return false;
   }
+  console.log(`Verification email sent to ${email}`);
+  return true;
 };
 
 /**
@@ -234,9 +150,10 @@ export const sendVerificationEmail = async (
 export const sendAnnouncementEmail = async (
   emails: string[],
   announcement: Announcement,
-  unsubscribeTokens: Map<string, string>
+  unsubscribeTokens: Map<string, string>,
+  locale: ContentLocale = 'en'
 ): Promise<number> => {
-  if (!isConfigured || emails.length === 0) {
+  if (!isEmailConfigured() || emails.length === 0) {
     return 0;
   }
 
@@ -245,57 +162,26 @@ export const sendAnnouncementEmail = async (
 
   for (const email of emails) {
     const unsubscribeToken = unsubscribeTokens.get(email);
-    const unsubscribeUrl = `${config.frontendUrl}/unsubscribe?token=${unsubscribeToken}`;
+    const links = unsubscribeToken ? buildSubscriptionLinks(unsubscribeToken) : null;
+    const rendered = await renderEmailTemplate('instant_alert', buildAlertEmailContext({
+      post: {
+        title: announcement.title,
+        type: announcement.type,
+        organization: announcement.organization,
+        category: announcement.category,
+        deadline: announcement.deadline,
+        url: announcementUrl,
+      },
+      locale,
+      unsubscribeUrl: links?.unsubscribeUrl,
+      preferencesUrl: links?.preferencesUrl,
+    }));
 
-    try {
-      await sgMail.send({
-        to: email,
-        from: config.emailFrom || 'noreply@sarkariresult.com',
-        subject: `🆕 New ${announcement.type}: ${announcement.title}`,
-        html: `
-          <!DOCTYPE html>
-          <html>
-          <head>
-            <style>
-              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-              .header { background: #1a365d; color: white; padding: 20px; text-align: center; }
-              .content { padding: 20px; background: #f9f9f9; }
-              .announcement { background: white; padding: 15px; border-left: 4px solid #f97316; margin: 15px 0; }
-              .button { display: inline-block; background: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; }
-              .meta { color: #666; font-size: 14px; margin: 10px 0; }
-              .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <div class="header">
-                <h1>🏛️ Sarkari Result</h1>
-                <p>New ${announcement.type.toUpperCase()} Alert!</p>
-              </div>
-              <div class="content">
-                <div class="announcement">
-                  <h2>${announcement.title}</h2>
-                  <p class="meta">
-                    📌 <strong>${announcement.organization}</strong><br>
-                    📂 Category: ${announcement.category}<br>
-                    ${announcement.deadline ? `📅 Deadline: ${new Date(announcement.deadline).toLocaleDateString('en-IN')}` : ''}
-                  </p>
-                </div>
-                <a href="${announcementUrl}" class="button">📄 View Details</a>
-              </div>
-              <div class="footer">
-                <p>© 2024 Sarkari Result | Government Jobs & Results Portal</p>
-                <p><a href="${unsubscribeUrl}">Unsubscribe</a> from these notifications</p>
-              </div>
-            </div>
-          </body>
-          </html>
-        `,
-      });
+    const result = await deliver(email, rendered, links ? listUnsubscribeHeaders(links.oneClickUrl) : undefined);
+    if (result.success) {
       sentCount++;
-    } catch (error) {
-      console.error(`Failed to send email to ${email}:`, error);
+    } else {
+      console.error(`Failed to send email to ${email}:`, result.error);
     }
   }
 
@@ -308,17 +194,24 @@ export const sendAnnouncementEmail = async (
  */
 export const sendDigestEmail = async (options: {
   email: string;
-  announcements: Array<Pick<Announcement, 'title' | 'slug' | 'type' | 'category' | 'organization' | 'deadline'>>;
+  /** `path` overrides the default `/<type>/<slug>` link, e.g. for a translated page. */
+  announcements: Array<Pick<Announcement, 'title' | 'slug' | 'type' | 'category' | 'organization' | 'deadline'> & { path?: string }>;
   unsubscribeToken: string;
   frequency: 'daily' | 'weekly';
   windowLabel: string;
   variant?: 'A' | 'B';
+  locale?: ContentLocale;
+  /** Posts closing soon, rendered in the reminder section with the days left. */
+  reminders?: Array<Pick<Announcement, 'title' | 'slug' | 'type' | 'category' | 'organization' | 'deadline'> & { path?: string; daysLeft: number }>;
+  /** Defaults to the `<frequency>_digest` template. */
+  template?: 'tracker_reminder' | 'deadline_reminder';
 }): Promise<boolean> => {
-  if (!isConfigured || options.announcements.length === 0) {
+  const reminders = options.reminders ?? [];
+  if (!isEmailConfigured() || (options.announcements.length === 0 && reminders.length === 0)) {
     return false;
   }
 
-  const unsubscribeUrl = `${config.frontendUrl}/unsubscribe?token=${options.unsubscribeToken}`;
+  const links = buildSubscriptionLinks(options.unsubscribeToken);
   const resolveVariant = (email: string, provided?: 'A' | 'B') => {
     if (provided) return provided;
     let hash = 0;
@@ -337,79 +230,45 @@ export const sendDigestEmail = async (options: {
     });
     return url.toString();
   };
-  const listItems = options.announcements.map((announcement) => {
-    const announcementUrl = buildTrackedUrl(`/${announcement.type}/${announcement.slug}`, {
+  const items = options.announcements.map((announcement) => ({
+    title: announcement.title,
+    organization: announcement.organization,
+    category: announcement.category,
+    deadline: announcement.deadline,
+    url: buildTrackedUrl(announcement.path || `/${announcement.type}/${announcement.slug}`, {
       source: 'digest',
       medium: 'email',
       campaign,
       variant,
       digest: options.frequency,
       content: announcement.type,
-    });
-    const deadline = announcement.deadline
-      ? new Date(announcement.deadline).toLocaleDateString('en-IN')
-      : 'Not specified';
-    return `
-      <tr>
-        <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
-          <div style="font-weight: 600; color: #111827;">${announcement.title}</div>
-          <div style="color: #6b7280; font-size: 13px;">
-            ${announcement.organization} · ${announcement.category} · Deadline: ${deadline}
-          </div>
-          <a href="${announcementUrl}" style="color: #2563eb; font-size: 13px; text-decoration: none;">
-            View details
-          </a>
-        </td>
-      </tr>
-    `;
-  }).join('');
+    }),
+  }));
+  const reminderItems = reminders.map((reminder) => ({
+    title: reminder.title,
+    organization: reminder.organization,
+    category: reminder.category,
+    deadline: reminder.deadline,
+    daysLeft: reminder.daysLeft,
+    url: buildTrackedUrl(reminder.path || `/${reminder.type}/${reminder.slug}`, {
+      source: 'reminder',
+      medium: 'email',
+      campaign: 'deadline_reminder',
+      content: reminder.type,
+    }),
+  }));
+  const rendered = await renderEmailTemplate(options.template ?? `${options.frequency}_digest`, buildDigestEmailContext({
+    items,
+    frequency: options.frequency,
+    windowLabel: options.windowLabel,
+    variant,
+    locale: options.locale,
+    unsubscribeUrl: links.unsubscribeUrl,
+    preferencesUrl: links.preferencesUrl,
+    reminders: reminderItems,
+  }));
 
-  try {
-    await sgMail.send({
-      to: options.email,
-      from: config.emailFrom || 'noreply@sarkariresult.com',
-      subject: variant === 'A'
-        ? `Your ${options.frequency} SarkariExams digest`
-        : `${options.announcements.length} fresh updates in your ${options.frequency} digest`,
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #111827; }
-            .container { max-width: 640px; margin: 0 auto; padding: 20px; }
-            .header { background: #1a365d; color: white; padding: 20px; text-align: center; }
-            .content { padding: 20px; background: #f8fafc; }
-            .card { background: white; padding: 16px; border-radius: 8px; }
-            .footer { padding: 16px; text-align: center; font-size: 12px; color: #6b7280; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>SarkariExams Digest</h1>
-              <p>${options.windowLabel}</p>
-            </div>
-            <div class="content">
-              <div class="card">
-                <p style="margin-top: 0;">Here are the latest updates matching your interests.</p>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  ${listItems}
-                </table>
-              </div>
-            </div>
-            <div class="footer">
-              <p>You are receiving this email because you subscribed to updates.</p>
-              <p><a href="${unsubscribeUrl}">Unsubscribe</a></p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
-    });
-    return true;
-  } catch (error) {
-    console.error('Failed to send digest email:', error);
-    return false;
-  }
+  const result = await deliver(options.email, rendered, listUnsubscribeHeaders(links.oneClickUrl));
+  if (!result.success) console.error('Failed to send digest email:', result.error);
+  return result.success;
 };
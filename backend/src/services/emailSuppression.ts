@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+
+import { z } from 'zod';
+
+import { config } from '../config.js';
+import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
+import EmailSuppressionModelPostgres, {
+  emailDeliveryEventTypes,
+  emailSuppressionReasons,
+  type EmailSuppressionRecord,
+} from '../models/emailSuppressions.postgres.js';
+
+/** Signed webhook requests older than this are rejected as replays. */
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const deliveryEventSchema = z.object({
+  id: z.string().trim().min(1).max(200).optional(),
+  type: z.enum(emailDeliveryEventTypes),
+  email: z.string().trim().email().max(320),
+  bounceType: z.enum(['hard', 'soft']).optional(),
+  reason: z.string().trim().max(500).optional(),
+  messageId: z.string().trim().max(200).optional(),
+  occurredAt: z.coerce.date().optional(),
+});
+
+const webhookPayloadSchema = z.object({
+  events: z.array(deliveryEventSchema).min(1).max(500),
+});
+
+const suppressionCreateSchema = z.object({
+  email: z.string().trim().email().max(320),
+  note: z.string().trim().max(300).optional(),
+});
+
+const suppressionListSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  reason: z.enum(emailSuppressionReasons).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export interface DeliveryEventSummary {
+  received: number;
+  recorded: number;
+  duplicates: number;
+  suppressed: string[];
+}
+
+/**
+ * Checks `X-Webhook-Signature: sha256=<hex>`, an HMAC-SHA256 of
+ * `<timestamp>.<raw body>` keyed with EMAIL_WEBHOOK_SECRET.
+ */
+export function verifyWebhookSignature(args: {
+  rawBody: Buffer | string;
+  timestamp?: string;
+  signature?: string;
+  now?: number;
+}): boolean {
+  if (!config.emailWebhookSecret || !args.timestamp || !args.signature) return false;
+
+  const sentAt = Number(args.timestamp) * 1000;
+  if (!Number.isFinite(sentAt) || Math.abs((args.now ?? Date.now()) - sentAt) > WEBHOOK_TOLERANCE_MS) return false;
+
+  const expected = crypto
+    .createHmac('sha256', config.emailWebhookSecret)
+    .update(`${args.timestamp}.`)
+    .update(args.rawBody)
+    .digest('hex');
+  const provided = args.signature.replace(/^sha256=/, '').trim();
+  return provided.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+}
+
+async function suppress(email: string, reason: 'hard_bounce' | 'complaint', detail?: string): Promise<boolean> {
+  const existing = await EmailSuppressionModelPostgres.listSuppressedEmails([email]);
+  if (existing.size > 0) return false;
+  await EmailSuppressionModelPostgres.upsert({ email, reason, source: 'webhook', note: detail });
+  await AlertSubscriptionModelPostgres.deactivateByEmail(email);
+  return true;
+}
+
+/**
+ * Records provider delivery events. Complaints suppress the address at once;
+ * hard bounces do so once EMAIL_HARD_BOUNCE_LIMIT is reached.
+ */
+export async function processDeliveryEvents(
+  payload: unknown,
+): Promise<{ success: boolean; data?: DeliveryEventSummary; error?: string }> {
+  const parse = webhookPayloadSchema.safeParse(payload);
+  if (!parse.success) {
+    return { success: false, error: parse.error.message };
+  }
+
+  const summary: DeliveryEventSummary = { received: parse.data.events.length, recorded: 0, duplicates: 0, suppressed: [] };
+  for (const event of parse.data.events) {
+    const email = event.email.toLowerCase();
+    // Providers report generic bounces for permanent failures.
+    const bounceType = event.type === 'bounce' ? event.bounceType ?? 'hard' : undefined;
+    const recorded = await EmailSuppressionModelPostgres.recordEvent({
+      eventId: event.id,
+      email,
+      type: event.type,
+      bounceType,
+      reason: event.reason,
+      messageId: event.messageId,
+      occurredAt: event.occurredAt ?? new Date(),
+    });
+    if (!recorded) {
+      summary.duplicates++;
+      continue;
+    }
+    summary.recorded++;
+
+    let suppressed = false;
+    if (event.type === 'complaint') {
+      suppressed = await suppress(email, 'complaint', event.reason);
+    } else if (bounceType === 'hard') {
+      const bounces = await EmailSuppressionModelPostgres.countHardBounces(email);
+      if (bounces >= config.emailHardBounceLimit) {
+        suppressed = await suppress(email, 'hard_bounce', event.reason);
+      }
+    }
+    if (suppressed && !summary.suppressed.includes(email)) summary.suppressed.push(email);
+  }
+  return { success: true, data: summary };
+}
+
+/**
+ * Addresses among `emails` that must not be mailed. Lookup failures are
+ * logged and treated as "nothing suppressed" so alerts keep flowing.
+ */
+export async function getSuppressedEmails(emails: string[]): Promise<Set<string>> {
+  try {
+    return await EmailSuppressionModelPostgres.listSuppressedEmails(emails);
+  } catch (error) {
+    console.error('[EmailSuppression] Failed to load suppression list:', error);
+    return new Set();
+  }
+}
+
+export async function listSuppressions(query: unknown) {
+  const parse = suppressionListSchema.safeParse(query ?? {});
+  if (!parse.success) {
+    return { success: false as const, error: parse.error.message };
+  }
+  return { success: true as const, data: await EmailSuppressionModelPostgres.list(parse.data) };
+}
+
+export async function addSuppression(
+  data: unknown,
+  userId: string,
+): Promise<{ success: boolean; data?: EmailSuppressionRecord; error?: string }> {
+  const parse = suppressionCreateSchema.safeParse(data);
+  if (!parse.success) {
+    return { success: false, error: parse.error.message };
+  }
+  const record = await EmailSuppressionModelPostgres.upsert({
+    email: parse.data.email,
+    reason: 'manual',
+    source: 'admin',
+    note: parse.data.note,
+    createdBy: userId,
+  });
+  await AlertSubscriptionModelPostgres.deactivateByEmail(record.email);
+  return { success: true, data: record };
+}
+
+export async function removeSuppression(email: string): Promise<boolean> {
+  return EmailSuppressionModelPostgres.remove(email);
+}
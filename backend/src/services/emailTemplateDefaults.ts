@@ -0,0 +1,392 @@
+import type { EmailTemplateKind } from '../models/emailTemplates.postgres.js';
+
+export const emailTemplateKeys = [
+  'verification',
+  'instant_alert',
+  'daily_digest',
+  'weekly_digest',
+  'tracker_reminder',
+  'deadline_reminder',
+  'password_recovery',
+  'campaign',
+] as const;
+
+export const emailPartialKeys = ['styles', 'header', 'footer', 'post_list', 'reminder_list'] as const;
+
+export type EmailTemplateKey = typeof emailTemplateKeys[number];
+export type EmailPartialKey = typeof emailPartialKeys[number];
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey | EmailPartialKey;
+  kind: EmailTemplateKind;
+  name: string;
+  description: string;
+  /** Variables the sender provides, listed in the editor. */
+  variables: string[];
+  subject: string;
+  html: string;
+}
+
+const DIGEST_VARIABLES = [
+  'locale',
+  'windowLabel',
+  'count',
+  'items[].title',
+  'items[].organization',
+  'items[].category',
+  'items[].deadline',
+  'items[].url',
+  'reminders[].title',
+  'reminders[].daysLeft',
+  'reminders[].deadline',
+  'reminders[].url',
+  'unsubscribeUrl',
+  'preferencesUrl',
+  'copy.*',
+];
+
+const DIGEST_HTML = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>{{copy.digestTitle}}</h1>
+      <p>{{windowLabel}}</p>
+    </div>
+    <div class="content">
+      {{#hasItems}}
+      <div class="card">
+        <p style="margin-top: 0;">{{copy.digestIntro}}</p>
+        {{> post_list}}
+      </div>
+      {{/hasItems}}
+      {{#hasReminders}}
+      <div class="card">
+        <h2 style="margin-top: 0; font-size: 18px;">{{copy.reminderTitle}}</h2>
+        <p>{{copy.reminderIntro}}</p>
+        {{> reminder_list}}
+      </div>
+      {{/hasReminders}}
+    </div>
+    <div class="footer">
+      <p>{{copy.digestReason}}</p>
+      <p><a href="{{preferencesUrl}}">{{copy.managePreferences}}</a> · <a href="{{unsubscribeUrl}}">{{copy.unsubscribe}}</a></p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+
+/**
+ * Built-in templates. They are used until an admin saves a version of the
+ * same key, and stay available as version 0 in the editor.
+ */
+export const DEFAULT_EMAIL_TEMPLATES: readonly EmailTemplateDefinition[] = [
+  {
+    key: 'styles',
+    kind: 'partial',
+    name: 'Shared styles',
+    description: 'Inline <style> block included in the <head> of every email.',
+    variables: [],
+    subject: '',
+    html: `<style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #111827; }
+    .container { max-width: 640px; margin: 0 auto; padding: 20px; }
+    .header { background: #1a365d; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; background: #f8fafc; }
+    .card { background: white; padding: 18px; border-radius: 8px; }
+    .announcement { background: white; padding: 15px; border-left: 4px solid #f97316; margin: 15px 0; }
+    .button { display: inline-block; background: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; }
+    .meta { color: #666; font-size: 14px; margin: 10px 0; }
+    .token { margin-top: 16px; padding: 10px; border-radius: 6px; background: #f3f4f6; font-family: monospace; word-break: break-all; }
+    .footer { padding: 16px; text-align: center; font-size: 12px; color: #6b7280; }
+  </style>`,
+  },
+  {
+    key: 'header',
+    kind: 'partial',
+    name: 'Brand header',
+    description: 'Site banner shown at the top of account and alert emails.',
+    variables: ['siteName'],
+    subject: '',
+    html: `<div class="header">
+      <h1>🏛️ {{siteName}}</h1>
+    </div>`,
+  },
+  {
+    key: 'footer',
+    kind: 'partial',
+    name: 'Footer',
+    description: 'Copyright line and optional preference and unsubscribe links.',
+    variables: ['siteName', 'year', 'preferencesUrl', 'unsubscribeUrl', 'copy.managePreferences', 'copy.unsubscribe', 'copy.unsubscribeSuffix'],
+    subject: '',
+    html: `<div class="footer">
+      <p>© {{year}} {{siteName}} | Government Jobs & Results Portal</p>
+      {{#preferencesUrl}}<p><a href="{{preferencesUrl}}">{{copy.managePreferences}}</a></p>{{/preferencesUrl}}
+      {{#unsubscribeUrl}}<p><a href="{{unsubscribeUrl}}">{{copy.unsubscribe}}</a> {{copy.unsubscribeSuffix}}</p>{{/unsubscribeUrl}}
+    </div>`,
+  },
+  {
+    key: 'post_list',
+    kind: 'partial',
+    name: 'Post list',
+    description: 'Table of posts used by digests and reminders.',
+    variables: ['items[].title', 'items[].organization', 'items[].category', 'items[].deadline', 'items[].url', 'copy.deadline', 'copy.viewDetails'],
+    subject: '',
+    html: `<table width="100%" cellpadding="0" cellspacing="0">
+          {{#items}}
+          <tr>
+            <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+              <div style="font-weight: 600; color: #111827;">{{title}}</div>
+              <div style="color: #6b7280; font-size: 13px;">
+                {{organization}} · {{category}} · {{copy.deadline}}: {{deadline}}
+              </div>
+              <a href="{{url}}" style="color: #2563eb; font-size: 13px; text-decoration: none;">{{copy.viewDetails}}</a>
+            </td>
+          </tr>
+          {{/items}}
+        </table>`,
+  },
+  {
+    key: 'reminder_list',
+    kind: 'partial',
+    name: 'Reminder list',
+    description: 'Posts closing soon, with the days left before the last date.',
+    variables: ['reminders[].title', 'reminders[].daysLeft', 'reminders[].deadline', 'reminders[].url', 'copy.deadline', 'copy.viewDetails'],
+    subject: '',
+    html: `<table width="100%" cellpadding="0" cellspacing="0">
+          {{#reminders}}
+          <tr>
+            <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+              <div style="font-weight: 600; color: #111827;">{{title}}</div>
+              <div style="color: #b91c1c; font-size: 13px; font-weight: 600;">{{daysLeft}}</div>
+              <div style="color: #6b7280; font-size: 13px;">{{copy.deadline}}: {{deadline}}</div>
+              <a href="{{url}}" style="color: #2563eb; font-size: 13px; text-decoration: none;">{{copy.viewDetails}}</a>
+            </td>
+          </tr>
+          {{/reminders}}
+        </table>`,
+  },
+  {
+    key: 'verification',
+    kind: 'template',
+    name: 'Subscription verification',
+    description: 'Sent when someone subscribes to email alerts.',
+    variables: ['email', 'verifyUrl', 'categories'],
+    subject: '📧 Verify your {{siteName}} subscription',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    {{> header}}
+    <div class="content">
+      <h2>Confirm your subscription</h2>
+      <p>Thank you for subscribing to {{siteName}} notifications!</p>
+      <p><strong>Categories:</strong> {{categories}}</p>
+      <p>Please click the button below to verify your email address:</p>
+      <a href="{{verifyUrl}}" class="button">✅ Verify Email</a>
+      <p>If you didn't subscribe, you can ignore this email.</p>
+    </div>
+    {{> footer}}
+  </div>
+</body>
+</html>
+`,
+  },
+  {
+    key: 'instant_alert',
+    kind: 'template',
+    name: 'Instant alert',
+    description: 'One new post, sent to matching subscribers as soon as it is published.',
+    variables: ['locale', 'post.title', 'post.type', 'post.organization', 'post.category', 'post.deadline', 'post.url', 'preferencesUrl', 'unsubscribeUrl', 'copy.*'],
+    subject: '{{copy.subject}}',
+    html: `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>🏛️ {{siteName}}</h1>
+      <p>{{copy.newAlert}}</p>
+    </div>
+    <div class="content">
+      <div class="announcement">
+        <h2>{{post.title}}</h2>
+        <p class="meta">
+          📌 <strong>{{post.organization}}</strong><br>
+          📂 {{copy.category}}: {{post.category}}<br>
+          {{#post.deadline}}📅 {{copy.deadline}}: {{post.deadline}}{{/post.deadline}}
+        </p>
+      </div>
+      <a href="{{post.url}}" class="button">📄 {{copy.viewDetails}}</a>
+    </div>
+    {{> footer}}
+  </div>
+</body>
+</html>
+`,
+  },
+  {
+    key: 'daily_digest',
+    kind: 'template',
+    name: 'Daily digest',
+    description: 'Daily summary of posts matching a subscriber\'s alerts.',
+    variables: DIGEST_VARIABLES,
+    subject: '{{copy.digestSubject}}',
+    html: DIGEST_HTML,
+  },
+  {
+    key: 'weekly_digest',
+    kind: 'template',
+    name: 'Weekly digest',
+    description: 'Weekly summary of posts matching a subscriber\'s alerts.',
+    variables: DIGEST_VARIABLES,
+    subject: '{{copy.digestSubject}}',
+    html: DIGEST_HTML,
+  },
+  {
+    key: 'tracker_reminder',
+    kind: 'template',
+    name: 'Tracker reminder',
+    description: 'Upcoming deadlines for tracked applications and bookmarks.',
+    variables: DIGEST_VARIABLES,
+    subject: 'Reminder: {{count}} upcoming deadlines',
+    html: `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Upcoming deadlines</h1>
+      <p>{{windowLabel}}</p>
+    </div>
+    <div class="content">
+      <div class="card">
+        <p style="margin-top: 0;">These applications and bookmarks close soon.</p>
+        {{> post_list}}
+      </div>
+    </div>
+    <div class="footer">
+      <p>{{copy.digestReason}}</p>
+      <p><a href="{{preferencesUrl}}">{{copy.managePreferences}}</a> · <a href="{{unsubscribeUrl}}">{{copy.unsubscribe}}</a></p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+  {
+    key: 'deadline_reminder',
+    kind: 'template',
+    name: 'Last-date reminder',
+    description: 'Posts matching a subscriber\'s alerts whose last date is near, for instant and weekly subscribers.',
+    variables: DIGEST_VARIABLES,
+    subject: '{{copy.reminderSubject}}',
+    html: `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>{{copy.reminderTitle}}</h1>
+      <p>{{windowLabel}}</p>
+    </div>
+    <div class="content">
+      <div class="card">
+        <p style="margin-top: 0;">{{copy.reminderIntro}}</p>
+        {{> reminder_list}}
+      </div>
+    </div>
+    <div class="footer">
+      <p>{{copy.digestReason}}</p>
+      <p><a href="{{preferencesUrl}}">{{copy.managePreferences}}</a> · <a href="{{unsubscribeUrl}}">{{copy.unsubscribe}}</a></p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+  {
+    key: 'password_recovery',
+    kind: 'template',
+    name: 'Password recovery',
+    description: 'Reset link for staff and user accounts.',
+    variables: ['email', 'resetUrl', 'recoveryToken'],
+    subject: 'Reset your {{siteName}} account password',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>{{siteName}} Account Recovery</h1>
+    </div>
+    <div class="content">
+      <div class="card">
+        <p>We received a password recovery request for your account.</p>
+        <p>Use the secure link below to continue:</p>
+        <p><a href="{{resetUrl}}" class="button">Reset Password</a></p>
+        <p>If the link does not open in the admin console, use this token manually:</p>
+        <div class="token">{{recoveryToken}}</div>
+        <p>This token expires automatically. If you did not request this, you can ignore this email.</p>
+      </div>
+    </div>
+    <div class="footer">
+      <p>© {{siteName}}</p>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+  {
+    key: 'campaign',
+    kind: 'template',
+    name: 'Campaign',
+    description: 'Free-form admin notification campaign.',
+    variables: ['title', 'body', 'bodyHtml', 'url', 'preferencesUrl', 'unsubscribeUrl'],
+    subject: '{{title}}',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  {{> styles}}
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>{{title}}</h1>
+    </div>
+    <div class="content">
+      <div class="card">
+        <p>{{{bodyHtml}}}</p>
+        <p><a href="{{url}}" class="button">View details</a></p>
+      </div>
+    </div>
+    <div class="footer">
+      <p>You are receiving this email because you subscribed to {{siteName}} updates.</p>
+      {{#preferencesUrl}}<p><a href="{{preferencesUrl}}">Manage preferences</a> · <a href="{{unsubscribeUrl}}">Unsubscribe</a></p>{{/preferencesUrl}}
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+];
+
+export function getDefaultEmailTemplate(key: string): EmailTemplateDefinition | undefined {
+  return DEFAULT_EMAIL_TEMPLATES.find((template) => template.key === key);
+}
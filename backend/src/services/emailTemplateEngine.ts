@@ -0,0 +1,138 @@
+import { escapeHtml } from '../utils/html.js';
+
+/**
+ * Minimal mustache-style renderer for stored email templates.
+ *
+ *   {{name}}            escaped value, dotted paths allowed (`post.title`)
+ *   {{{name}}}          raw value (pre-rendered HTML only)
+ *   {{#name}}…{{/name}} repeats for arrays, renders once for truthy values
+ *   {{^name}}…{{/name}} renders when the value is missing, false or empty
+ *   {{> name}}          includes a partial with the current context
+ *   {{.}}               the current array item
+ */
+
+export class EmailTemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailTemplateSyntaxError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; raw: boolean }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+const TAG_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([#^/>]?)\s*([\w.]+|\.)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 5;
+
+export function parseEmailTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+  let cursor = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const current = stack[stack.length - 1];
+    if (match.index > cursor) {
+      current.children.push({ type: 'text', value: source.slice(cursor, match.index) });
+    }
+    cursor = match.index + match[0].length;
+
+    if (match[1]) {
+      current.children.push({ type: 'variable', name: match[1], raw: true });
+      continue;
+    }
+
+    const sigil = match[2];
+    const name = match[3];
+    if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: sigil === '^', children: [] };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (sigil === '/') {
+      if (stack.length === 1 || current.name !== name) {
+        throw new EmailTemplateSyntaxError(`Unexpected closing tag {{/${name}}}`);
+      }
+      stack.pop();
+    } else if (sigil === '>') {
+      current.children.push({ type: 'partial', name });
+    } else {
+      current.children.push({ type: 'variable', name, raw: false });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new EmailTemplateSyntaxError(`Section {{#${stack[stack.length - 1].name}}} is never closed`);
+  }
+  if (cursor < source.length) {
+    root.push({ type: 'text', value: source.slice(cursor) });
+  }
+  return root;
+}
+
+function lookup(stack: unknown[], name: string): unknown {
+  if (name === '.') return stack[stack.length - 1];
+  const [head, ...rest] = name.split('.');
+  for (let index = stack.length - 1; index >= 0; index--) {
+    const scope = stack[index];
+    if (scope && typeof scope === 'object' && head in scope) {
+      let value: unknown = (scope as Record<string, unknown>)[head];
+      for (const part of rest) {
+        value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === false || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  stack: unknown[],
+  partials: Record<string, string>,
+  depth: number,
+  escape: boolean,
+): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      const value = lookup(stack, node.name);
+      const text = value === undefined || value === null ? '' : String(value);
+      output += node.raw || !escape ? text : escapeHtml(text);
+    } else if (node.type === 'section') {
+      const value = lookup(stack, node.name);
+      if (node.inverted) {
+        if (isEmpty(value)) output += renderNodes(node.children, stack, partials, depth, escape);
+      } else if (Array.isArray(value)) {
+        for (const item of value) output += renderNodes(node.children, [...stack, item], partials, depth, escape);
+      } else if (!isEmpty(value)) {
+        output += renderNodes(node.children, typeof value === 'object' ? [...stack, value] : stack, partials, depth, escape);
+      }
+    } else {
+      const partial = partials[node.name];
+      if (partial === undefined) continue;
+      if (depth >= MAX_PARTIAL_DEPTH) {
+        throw new EmailTemplateSyntaxError(`Partials nest deeper than ${MAX_PARTIAL_DEPTH} levels`);
+      }
+      output += renderNodes(parseEmailTemplate(partial), stack, partials, depth + 1, escape);
+    }
+  }
+  return output;
+}
+
+/** Pass `escape: false` for plain-text output such as subject lines. */
+export function renderEmailTemplateSource(
+  source: string,
+  context: Record<string, unknown>,
+  partials: Record<string, string> = {},
+  options: { escape?: boolean } = {},
+): string {
+  return renderNodes(parseEmailTemplate(source), [context], partials, 0, options.escape ?? true);
+}
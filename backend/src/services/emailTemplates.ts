@@ -0,0 +1,542 @@
+import { z } from 'zod';
+
+import { config } from '../config.js';
+import type { ContentLocale, PostRecord } from '../content/types.js';
+import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
+import EmailTemplateModelPostgres, {
+  type EmailTemplateKind,
+  type EmailTemplateVersionRecord,
+  type StoredEmailTemplate,
+} from '../models/emailTemplates.postgres.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+import { deleteCache, getCache, setCache } from '../utils/cache.js';
+import { escapeHtml } from '../utils/html.js';
+
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  emailPartialKeys,
+  getDefaultEmailTemplate,
+  type EmailTemplateKey,
+} from './emailTemplateDefaults.js';
+import { parseEmailTemplate, renderEmailTemplateSource } from './emailTemplateEngine.js';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+export interface EmailTemplateSummary {
+  key: string;
+  kind: EmailTemplateKind;
+  name: string;
+  description: string;
+  variables: string[];
+  version: number;
+  customized: boolean;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export interface EmailTemplateDetail extends EmailTemplateSummary {
+  subject: string;
+  html: string;
+  defaultSubject: string;
+  defaultHtml: string;
+  versions: EmailTemplateVersionRecord[];
+}
+
+const STORED_TEMPLATES_CACHE_KEY = 'email-templates:stored';
+const STORED_TEMPLATES_TTL_SECONDS = 60;
+
+/**
+ * Subscriber-facing copy for the alert emails. Post titles come from the
+ * caller, already translated where a translation exists.
+ */
+const ALERT_EMAIL_COPY: Record<ContentLocale, {
+  dateLocale: string;
+  newAlert: (type: string) => string;
+  subject: (type: string, title: string) => string;
+  category: string;
+  deadline: string;
+  notSpecified: string;
+  viewDetails: string;
+  unsubscribe: string;
+  unsubscribeSuffix: string;
+  managePreferences: string;
+  digestTitle: string;
+  digestSubject: (frequency: 'daily' | 'weekly', count: number, variant: 'A' | 'B') => string;
+  digestIntro: string;
+  digestReason: string;
+  reminderTitle: string;
+  reminderSubject: (count: number) => string;
+  reminderIntro: string;
+  daysLeft: (days: number) => string;
+}> = {
+  en: {
+    dateLocale: 'en-IN',
+    newAlert: (type) => `New ${type.toUpperCase()} Alert!`,
+    subject: (type, title) => `🆕 New ${type}: ${title}`,
+    category: 'Category',
+    deadline: 'Deadline',
+    notSpecified: 'Not specified',
+    viewDetails: 'View details',
+    unsubscribe: 'Unsubscribe',
+    unsubscribeSuffix: 'from these notifications',
+    managePreferences: 'Manage alert preferences',
+    digestTitle: 'SarkariExams Digest',
+    digestSubject: (frequency, count, variant) => (variant === 'A'
+      ? `Your ${frequency} SarkariExams digest`
+      : `${count} fresh updates in your ${frequency} digest`),
+    digestIntro: 'Here are the latest updates matching your interests.',
+    digestReason: 'You are receiving this email because you subscribed to updates.',
+    reminderTitle: 'Last dates coming up',
+    reminderSubject: (count) => (count === 1 ? 'Reminder: 1 last date coming up' : `Reminder: ${count} last dates coming up`),
+    reminderIntro: 'These posts match your alerts and close soon.',
+    daysLeft: (days) => (days === 1 ? '1 day left' : `${days} days left`),
+  },
+  hi: {
+    dateLocale: 'hi-IN',
+    newAlert: (type) => `नया ${type.toUpperCase()} अलर्ट!`,
+    subject: (type, title) => `🆕 नया ${type}: ${title}`,
+    category: 'श्रेणी',
+    deadline: 'अंतिम तिथि',
+    notSpecified: 'उल्लेख नहीं',
+    viewDetails: 'विवरण देखें',
+    unsubscribe: 'सदस्यता समाप्त करें',
+    unsubscribeSuffix: '— ये सूचनाएं बंद करने के लिए',
+    managePreferences: 'अलर्ट प्राथमिकताएं बदलें',
+    digestTitle: 'SarkariExams डाइजेस्ट',
+    digestSubject: (frequency, count, variant) => {
+      const label = frequency === 'daily' ? 'दैनिक' : 'साप्ताहिक';
+      return variant === 'A'
+        ? `आपका ${label} SarkariExams डाइजेस्ट`
+        : `आपके ${label} डाइजेस्ट में ${count} नए अपडेट`;
+    },
+    digestIntro: 'आपकी रुचि से मेल खाते नवीनतम अपडेट यहां हैं।',
+    digestReason: 'आपको यह ईमेल इसलिए मिला है क्योंकि आपने अपडेट के लिए सदस्यता ली है।',
+    reminderTitle: 'अंतिम तिथियां नज़दीक हैं',
+    reminderSubject: (count) => `रिमाइंडर: ${count} अंतिम तिथियां नज़दीक`,
+    reminderIntro: 'ये पोस्ट आपके अलर्ट से मेल खाती हैं और जल्द बंद होंगी।',
+    daysLeft: (days) => `${days} दिन शेष`,
+  },
+};
+
+export interface AlertEmailPost {
+  title: string;
+  type: string;
+  organization?: string;
+  category?: string;
+  deadline?: string | Date;
+  url: string;
+}
+
+export interface DigestEmailItem {
+  title: string;
+  organization?: string;
+  category?: string;
+  deadline?: string | Date;
+  url: string;
+}
+
+export interface ReminderEmailItem extends DigestEmailItem {
+  daysLeft: number;
+}
+
+function formatDeadline(value: string | Date | undefined, locale: ContentLocale): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toLocaleDateString(ALERT_EMAIL_COPY[locale].dateLocale);
+}
+
+export function buildAlertEmailContext(args: {
+  post: AlertEmailPost;
+  locale?: ContentLocale;
+  unsubscribeUrl?: string;
+  preferencesUrl?: string;
+}): Record<string, unknown> {
+  const locale = args.locale ?? 'en';
+  const copy = ALERT_EMAIL_COPY[locale];
+  return {
+    locale,
+    unsubscribeUrl: args.unsubscribeUrl,
+    preferencesUrl: args.preferencesUrl,
+    post: { ...args.post, deadline: formatDeadline(args.post.deadline, locale) },
+    copy: {
+      newAlert: copy.newAlert(args.post.type),
+      subject: copy.subject(args.post.type, args.post.title),
+      category: copy.category,
+      deadline: copy.deadline,
+      viewDetails: copy.viewDetails,
+      unsubscribe: copy.unsubscribe,
+      unsubscribeSuffix: copy.unsubscribeSuffix,
+      managePreferences: copy.managePreferences,
+    },
+  };
+}
+
+export function buildDigestEmailContext(args: {
+  items: DigestEmailItem[];
+  frequency: 'daily' | 'weekly';
+  windowLabel: string;
+  variant: 'A' | 'B';
+  locale?: ContentLocale;
+  unsubscribeUrl: string;
+  preferencesUrl?: string;
+  /** Posts whose last date is one of the subscriber's reminder offsets away. */
+  reminders?: ReminderEmailItem[];
+}): Record<string, unknown> {
+  const locale = args.locale ?? 'en';
+  const copy = ALERT_EMAIL_COPY[locale];
+  const reminders = args.reminders ?? [];
+  return {
+    locale,
+    frequency: args.frequency,
+    windowLabel: args.windowLabel,
+    variant: args.variant,
+    count: args.items.length,
+    hasItems: args.items.length > 0,
+    unsubscribeUrl: args.unsubscribeUrl,
+    preferencesUrl: args.preferencesUrl,
+    items: args.items.map((item) => ({
+      ...item,
+      deadline: formatDeadline(item.deadline, locale) ?? copy.notSpecified,
+    })),
+    reminderCount: reminders.length,
+    hasReminders: reminders.length > 0,
+    reminders: reminders.map((item) => ({
+      ...item,
+      deadline: formatDeadline(item.deadline, locale) ?? copy.notSpecified,
+      daysLeft: copy.daysLeft(item.daysLeft),
+    })),
+    copy: {
+      digestTitle: copy.digestTitle,
+      digestSubject: copy.digestSubject(args.frequency, args.items.length, args.variant),
+      digestIntro: copy.digestIntro,
+      digestReason: copy.digestReason,
+      reminderTitle: copy.reminderTitle,
+      reminderSubject: copy.reminderSubject(reminders.length),
+      reminderIntro: copy.reminderIntro,
+      deadline: copy.deadline,
+      viewDetails: copy.viewDetails,
+      unsubscribe: copy.unsubscribe,
+      managePreferences: copy.managePreferences,
+    },
+  };
+}
+
+/**
+ * Token links every subscriber email carries: the preference center, the
+ * same page opened on its unsubscribe step, and the RFC 8058 one-click
+ * endpoint used in the List-Unsubscribe header.
+ */
+export function buildSubscriptionLinks(unsubscribeToken: string) {
+  const token = encodeURIComponent(unsubscribeToken);
+  const preferencesUrl = `${config.frontendUrl.replace(/\/$/, '')}/preferences?token=${token}`;
+  return {
+    preferencesUrl,
+    unsubscribeUrl: `${preferencesUrl}&action=unsubscribe`,
+    oneClickUrl: `${config.publicApiUrl}/subscriptions/unsubscribe?token=${token}`,
+  };
+}
+
+async function loadStoredTemplates(): Promise<Map<string, StoredEmailTemplate>> {
+  const cached = getCache(STORED_TEMPLATES_CACHE_KEY) as Map<string, StoredEmailTemplate> | null;
+  if (cached) return cached;
+
+  try {
+    const stored = new Map((await EmailTemplateModelPostgres.listAll()).map((template) => [template.key, template]));
+    setCache(STORED_TEMPLATES_CACHE_KEY, stored, STORED_TEMPLATES_TTL_SECONDS);
+    return stored;
+  } catch (error) {
+    console.error('[EmailTemplates] Failed to load stored templates, using defaults:', error);
+    return new Map();
+  }
+}
+
+function resolvePartials(stored: Map<string, StoredEmailTemplate>): Record<string, string> {
+  const partials: Record<string, string> = {};
+  for (const key of emailPartialKeys) {
+    partials[key] = stored.get(key)?.html ?? getDefaultEmailTemplate(key)?.html ?? '';
+  }
+  return partials;
+}
+
+function baseContext(): Record<string, unknown> {
+  return {
+    siteName: 'SarkariExams',
+    siteUrl: config.frontendUrl,
+    year: new Date().getFullYear(),
+  };
+}
+
+function renderWith(
+  source: RenderedEmail,
+  context: Record<string, unknown>,
+  partials: Record<string, string>,
+): RenderedEmail {
+  const fullContext = { ...baseContext(), ...context };
+  return {
+    subject: renderEmailTemplateSource(source.subject, fullContext, partials, { escape: false }).trim(),
+    html: renderEmailTemplateSource(source.html, fullContext, partials),
+  };
+}
+
+/**
+ * Render a template by key, using the latest saved version or the built-in
+ * default when none has been saved.
+ */
+export async function renderEmailTemplate(key: EmailTemplateKey, context: Record<string, unknown>): Promise<RenderedEmail> {
+  const stored = await loadStoredTemplates();
+  const fallback = getDefaultEmailTemplate(key)!;
+  const template = stored.get(key) ?? fallback;
+  try {
+    return renderWith({ subject: template.subject, html: template.html }, context, resolvePartials(stored));
+  } catch (error) {
+    // A stored version that no longer renders must not block delivery.
+    console.error(`[EmailTemplates] Failed to render ${key}, using default:`, error);
+    return renderWith(fallback, context, Object.fromEntries(
+      emailPartialKeys.map((partial) => [partial, getDefaultEmailTemplate(partial)?.html ?? '']),
+    ));
+  }
+}
+
+function toSummary(key: string, stored?: StoredEmailTemplate): EmailTemplateSummary {
+  const definition = getDefaultEmailTemplate(key)!;
+  return {
+    key,
+    kind: definition.kind,
+    name: definition.name,
+    description: definition.description,
+    variables: definition.variables,
+    version: stored?.version ?? 0,
+    customized: Boolean(stored),
+    updatedAt: stored?.updatedAt,
+    updatedBy: stored?.updatedBy,
+  };
+}
+
+export async function listEmailTemplates(): Promise<EmailTemplateSummary[]> {
+  const stored = await loadStoredTemplates();
+  return DEFAULT_EMAIL_TEMPLATES.map((definition) => toSummary(definition.key, stored.get(definition.key)));
+}
+
+export async function getEmailTemplate(key: string): Promise<EmailTemplateDetail | null> {
+  const definition = getDefaultEmailTemplate(key);
+  if (!definition) return null;
+
+  const [stored, versions] = await Promise.all([
+    EmailTemplateModelPostgres.findByKey(key),
+    EmailTemplateModelPostgres.listVersions(key),
+  ]);
+  return {
+    ...toSummary(key, stored ?? undefined),
+    subject: stored?.subject ?? definition.subject,
+    html: stored?.html ?? definition.html,
+    defaultSubject: definition.subject,
+    defaultHtml: definition.html,
+    versions,
+  };
+}
+
+const emailTemplateSaveSchema = z.object({
+  subject: z.string().max(300).default(''),
+  html: z.string().min(1).max(100_000),
+  note: z.string().trim().max(300).optional(),
+});
+
+const emailTemplatePreviewSchema = z.object({
+  subject: z.string().max(300).optional(),
+  html: z.string().max(100_000).optional(),
+  postId: z.string().trim().min(1).optional(),
+  subscriberEmail: z.string().trim().email().optional(),
+});
+
+function checkTemplateSyntax(source: string): string | null {
+  try {
+    const unknownPartial = Array.from(source.matchAll(/\{\{\s*>\s*([\w.]+)\s*\}\}/g))
+      .map((match) => match[1])
+      .find((name) => !(emailPartialKeys as readonly string[]).includes(name));
+    if (unknownPartial) return `Unknown partial "${unknownPartial}"`;
+    parseEmailTemplate(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid template';
+  }
+}
+
+export async function saveEmailTemplate(
+  key: string,
+  data: unknown,
+  userId: string,
+): Promise<{ success: boolean; data?: StoredEmailTemplate; error?: string }> {
+  const definition = getDefaultEmailTemplate(key);
+  if (!definition) {
+    return { success: false, error: 'Unknown email template' };
+  }
+  const parse = emailTemplateSaveSchema.safeParse(data);
+  if (!parse.success) {
+    return { success: false, error: parse.error.message };
+  }
+  const syntaxError = checkTemplateSyntax(parse.data.subject) ?? checkTemplateSyntax(parse.data.html);
+  if (syntaxError) {
+    return { success: false, error: syntaxError };
+  }
+
+  try {
+    const saved = await EmailTemplateModelPostgres.saveVersion(key, definition.kind, {
+      subject: definition.kind === 'partial' ? '' : parse.data.subject,
+      html: parse.data.html,
+      note: parse.data.note,
+    }, userId);
+    deleteCache(STORED_TEMPLATES_CACHE_KEY);
+    return { success: true, data: saved };
+  } catch (error) {
+    console.error('[EmailTemplates] Error saving template:', error);
+    return { success: false, error: 'Failed to save email template' };
+  }
+}
+
+const SAMPLE_POST: AlertEmailPost & { summary: string } = {
+  title: 'SSC CGL 2026 Notification',
+  type: 'job',
+  organization: 'Staff Selection Commission',
+  category: 'Central Government',
+  deadline: new Date(Date.now() + 14 * 86_400_000),
+  url: `${config.frontendUrl}/job/ssc-cgl-2026`,
+  summary: 'Applications are open for Combined Graduate Level posts.\nApply before the last date.',
+};
+
+function toAlertPost(post: PostRecord): AlertEmailPost & { summary: string } {
+  return {
+    title: post.title,
+    type: post.type,
+    organization: post.organization?.name,
+    category: post.categories[0]?.name,
+    deadline: post.lastDate,
+    url: `${config.frontendUrl}/${post.type}/${post.slug}`,
+    summary: post.summary,
+  };
+}
+
+function previewContext(
+  key: string,
+  post: AlertEmailPost & { summary: string },
+  subscriber: { email: string; unsubscribeToken: string; locale: ContentLocale; categories: string[] },
+): Record<string, unknown> {
+  const { preferencesUrl, unsubscribeUrl } = buildSubscriptionLinks(subscriber.unsubscribeToken);
+  const digest = (frequency: 'daily' | 'weekly', windowLabel: string) => buildDigestEmailContext({
+    items: [post],
+    frequency,
+    windowLabel,
+    variant: 'A',
+    locale: subscriber.locale,
+    unsubscribeUrl,
+    preferencesUrl,
+    reminders: frequency === 'daily' ? [{ ...post, daysLeft: 3 }] : undefined,
+  });
+
+  switch (key) {
+    case 'verification':
+      return {
+        email: subscriber.email,
+        verifyUrl: `${config.frontendUrl}/verify?token=preview-token`,
+        categories: subscriber.categories.length > 0 ? subscriber.categories.join(', ') : 'All categories',
+      };
+    case 'password_recovery':
+      return {
+        email: subscriber.email,
+        resetUrl: `${config.frontendUrl}/reset?recovery_token=preview-token`,
+        recoveryToken: 'preview-token',
+      };
+    case 'instant_alert':
+      return buildAlertEmailContext({ post, locale: subscriber.locale, unsubscribeUrl, preferencesUrl });
+    case 'daily_digest':
+    case 'tracker_reminder':
+      return digest('daily', 'Last 24 hours');
+    case 'weekly_digest':
+      return digest('weekly', 'Last 7 days');
+    case 'deadline_reminder':
+      return buildDigestEmailContext({
+        items: [],
+        frequency: 'daily',
+        windowLabel: 'Closing in the next 3 days',
+        variant: 'A',
+        locale: subscriber.locale,
+        unsubscribeUrl,
+        preferencesUrl,
+        reminders: [{ ...post, daysLeft: 3 }],
+      });
+    case 'campaign':
+      return {
+        title: post.title,
+        body: post.summary,
+        bodyHtml: escapeHtml(post.summary).replace(/\n/g, '<br>'),
+        url: post.url,
+        unsubscribeUrl,
+        preferencesUrl,
+      };
+    default:
+      // Partials render against the union of the alert and digest contexts.
+      return {
+        ...digest('daily', 'Last 24 hours'),
+        ...buildAlertEmailContext({ post, locale: subscriber.locale, unsubscribeUrl, preferencesUrl }),
+        copy: {
+          ...(digest('daily', 'Last 24 hours').copy as Record<string, unknown>),
+          ...(buildAlertEmailContext({ post, locale: subscriber.locale, unsubscribeUrl, preferencesUrl }).copy as Record<string, unknown>),
+        },
+      };
+  }
+}
+
+/**
+ * Render a template (or an unsaved draft of it) against a real post and
+ * subscriber. Missing lookups fall back to sample data.
+ */
+export async function previewEmailTemplate(
+  key: string,
+  data: unknown,
+): Promise<{ success: boolean; data?: RenderedEmail; error?: string }> {
+  const definition = getDefaultEmailTemplate(key);
+  if (!definition) {
+    return { success: false, error: 'Unknown email template' };
+  }
+  const parse = emailTemplatePreviewSchema.safeParse(data ?? {});
+  if (!parse.success) {
+    return { success: false, error: parse.error.message };
+  }
+  for (const draft of [parse.data.subject, parse.data.html]) {
+    const syntaxError = draft ? checkTemplateSyntax(draft) : null;
+    if (syntaxError) return { success: false, error: syntaxError };
+  }
+
+  try {
+    const stored = await loadStoredTemplates();
+    const post = parse.data.postId ? await PostModelPostgres.findById(parse.data.postId) : null;
+    if (parse.data.postId && !post) {
+      return { success: false, error: 'Post not found' };
+    }
+    const [subscriber] = parse.data.subscriberEmail
+      ? await AlertSubscriptionModelPostgres.listByEmails([parse.data.subscriberEmail])
+      : [];
+
+    const context = previewContext(key, post ? toAlertPost(post) : SAMPLE_POST, {
+      email: subscriber?.email ?? parse.data.subscriberEmail ?? 'subscriber@example.com',
+      unsubscribeToken: subscriber?.unsubscribeToken ?? 'preview-token',
+      locale: subscriber?.locale ?? 'en',
+      categories: subscriber?.categoryNames ?? [],
+    });
+    const partials = resolvePartials(stored);
+    const current = stored.get(key) ?? definition;
+    const source = {
+      subject: parse.data.subject ?? current.subject,
+      html: parse.data.html ?? current.html,
+    };
+    if (definition.kind === 'partial') {
+      partials[key] = source.html;
+    }
+    return { success: true, data: renderWith(source, context, partials) };
+  } catch (error) {
+    console.error('[EmailTemplates] Error rendering preview:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to render preview' };
+  }
+}
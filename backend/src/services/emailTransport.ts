@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+import sgMail from '@sendgrid/mail';
+import nodemailer from 'nodemailer';
+
+import { config } from '../config.js';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  /** Extra headers, e.g. List-Unsubscribe. */
+  headers?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface CapturedEmail extends EmailMessage {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Delivers a rendered email. The active transport comes from EMAIL_TRANSPORT
+ * and can be replaced with `setEmailTransport`.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const [response] = await sgMail.send(message);
+      const messageId = response.headers?.['x-message-id'];
+      return { success: true, messageId: Array.isArray(messageId) ? messageId[0] : messageId };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'SendGrid request failed') };
+    }
+  }
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const info = await this.transporter.sendMail(message);
+      return { success: true, messageId: info.messageId };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'SMTP delivery failed') };
+    }
+  }
+}
+
+/**
+ * Appends each message as a JSON line to `<dir>/emails.jsonl` instead of
+ * sending it. The admin mailbox reads them back.
+ */
+export class CaptureEmailTransport implements EmailTransport {
+  readonly name = 'capture';
+
+  constructor(private readonly directory: string) {}
+
+  private get file() {
+    return path.join(this.directory, 'emails.jsonl');
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const captured: CapturedEmail = { id: randomUUID(), ...message, createdAt: new Date().toISOString() };
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.file, `${JSON.stringify(captured)}\n`, 'utf8');
+      return { success: true, messageId: captured.id };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to capture email') };
+    }
+  }
+
+  /** Captured messages, newest first. */
+  async list(options: { to?: string; limit?: number } = {}): Promise<CapturedEmail[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const recipient = options.to?.trim().toLowerCase();
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as CapturedEmail)
+      .filter((message) => !recipient || message.to.toLowerCase().includes(recipient))
+      .reverse()
+      .slice(0, options.limit ?? 100);
+  }
+
+  async get(id: string): Promise<CapturedEmail | null> {
+    return (await this.list({ limit: Number.MAX_SAFE_INTEGER })).find((message) => message.id === id) ?? null;
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.file, { force: true });
+  }
+}
+
+let overrideTransport: EmailTransport | null | undefined;
+let configuredTransport: EmailTransport | null | undefined;
+
+function createConfiguredTransport(): EmailTransport | null {
+  switch (config.emailTransport) {
+    case 'sendgrid':
+      if (config.emailPass) return new SendGridEmailTransport(config.emailPass);
+      console.warn('SENDGRID_API_KEY not configured. Email notifications disabled.');
+      return null;
+    case 'smtp':
+      if (config.smtpHost) {
+        return new SmtpEmailTransport({
+          host: config.smtpHost,
+          port: config.smtpPort,
+          secure: config.smtpSecure,
+          user: config.smtpUser,
+          pass: config.smtpPass,
+        });
+      }
+      console.warn('SMTP_HOST not configured. Email notifications disabled.');
+      return null;
+    case 'capture':
+      return new CaptureEmailTransport(config.emailCaptureDir);
+    case '':
+      return null;
+    default:
+      console.warn(`Unknown EMAIL_TRANSPORT "${config.emailTransport}". Email notifications disabled.`);
+      return null;
+  }
+}
+
+/**
+ * Transport selected by EMAIL_TRANSPORT, or null when email is disabled.
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (overrideTransport !== undefined) return overrideTransport;
+  if (configuredTransport === undefined) configuredTransport = createConfiguredTransport();
+  return configuredTransport;
+}
+
+/** Replaces the configured transport; pass `undefined` to go back to the config. */
+export function setEmailTransport(transport: EmailTransport | null | undefined): void {
+  overrideTransport = transport;
+}
+
+/** The capture mailbox, when the active transport is `capture`. */
+export function getCaptureMailbox(): CaptureEmailTransport | null {
+  const transport = getEmailTransport();
+  return transport instanceof CaptureEmailTransport ? transport : null;
+}
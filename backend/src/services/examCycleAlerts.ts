@@ -0,0 +1,68 @@
+import type { PostRecord } from '../content/types.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+import ProfileModelPostgres from '../models/profile.postgres.js';
+
+export interface ExamCycleAlertResult {
+    status: 'sent' | 'skipped';
+    trackers: number;
+    notified: number;
+}
+
+/** Stages after the job notice; publishing one tells everyone tracking the cycle's job. */
+const FOLLOW_UP_TYPES: ReadonlyArray<PostRecord['type']> = ['admit-card', 'answer-key', 'result'];
+
+const skipped = (): ExamCycleAlertResult => ({ status: 'skipped', trackers: 0, notified: 0 });
+
+/**
+ * Sends an in-app notification for a newly published admit card, answer key
+ * or result to every user tracking a job post of the same exam cycle.
+ * Notifications are unique per user, post and stage, so republishing is a no-op.
+ */
+export async function notifyExamCycleTrackers(post: PostRecord): Promise<ExamCycleAlertResult> {
+    if (post.status !== 'published' || !post.examCycle?.slug || !FOLLOW_UP_TYPES.includes(post.type)) {
+        return skipped();
+    }
+
+    const jobs = await PostModelPostgres.listExamCycleJobs(post.examCycle.slug);
+    if (jobs.length === 0) return skipped();
+
+    const tracked = await ProfileModelPostgres.listTrackedApplicationsForPosts({
+        announcementIds: jobs.map((job) => job.id),
+        slugs: jobs.flatMap((job) => job.slugs),
+    });
+    const userIds = Array.from(new Set(tracked.map((item) => item.userId)));
+
+    let notified = 0;
+    for (const userId of userIds) {
+        try {
+            notified += await ProfileModelPostgres.upsertNotifications(
+                userId,
+                [{
+                    announcementId: post.id,
+                    title: post.title,
+                    type: post.type,
+                    slug: post.slug,
+                    organization: post.organization?.name,
+                }],
+                `lifecycle:${post.type}`,
+            );
+        } catch (error) {
+            console.error(`[ExamCycleAlerts] Failed to notify user ${userId}:`, error);
+        }
+    }
+
+    return { status: 'sent', trackers: userIds.length, notified };
+}
+
+/** Fire-and-forget wrapper for publish paths; failures are logged, never thrown. */
+export function queueExamCycleAlerts(posts: PostRecord[]): void {
+    for (const post of posts) {
+        notifyExamCycleTrackers(post)
+            .then((result) => {
+                if (result.notified > 0) {
+                    console.log(`[ExamCycleAlerts] post=${post.id} cycle=${post.examCycle?.slug} trackers=${result.trackers} notified=${result.notified}`);
+                }
+            })
+            .catch((error) => console.error(`[ExamCycleAlerts] Failed to notify trackers of post ${post.id}:`, error));
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Minimal RFC 5545 writer for the calendar feeds. Only the pieces the feeds
+ * use are covered: all-day and timed VEVENTs, cancellations and one VALARM.
+ */
+
+export interface CalendarEvent {
+  /** Stable across rebuilds so calendar apps update the event instead of duplicating it. */
+  uid: string;
+  summary: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+  /** All-day events use the UTC calendar date of `start`; timed events the instant. */
+  start: Date;
+  allDay: boolean;
+  durationMinutes?: number;
+  /** Must grow whenever the event changes, cancellation included. */
+  sequence: number;
+  lastModified: Date;
+  cancelled?: boolean;
+  alarmMinutesBefore?: number;
+}
+
+export interface CalendarDocument {
+  name: string;
+  description?: string;
+  refreshMinutes?: number;
+  events: CalendarEvent[];
+}
+
+const PRODID = '-//SarkariExams//Calendar Feeds//EN';
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export function formatIcsDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+export function formatIcsDateTime(date: Date): string {
+  return `${formatIcsDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Splits a content line at 75 octets without breaking a multi-byte character. */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their 75 octets.
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function durationValue(minutes: number): string {
+  if (minutes === 0) return 'PT0S';
+  return minutes % 60 === 0 ? `PT${minutes / 60}H` : `PT${minutes}M`;
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatIcsDateTime(event.lastModified)}`,
+    `SEQUENCE:${Math.max(0, Math.floor(event.sequence))}`,
+  ];
+
+  if (event.allDay) {
+    const end = new Date(event.start.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`, `DTEND;VALUE=DATE:${formatIcsDate(end)}`);
+  } else {
+    lines.push(`DTSTART:${formatIcsDateTime(event.start)}`, `DURATION:${durationValue(event.durationMinutes ?? 30)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`);
+  lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'TRANSP:TRANSPARENT');
+
+  if (event.alarmMinutesBefore !== undefined && !event.cancelled) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(event.summary)}`,
+      `TRIGGER:-${durationValue(event.alarmMinutesBefore)}`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildICalendar(document: CalendarDocument, now = new Date()): string {
+  const stamp = formatIcsDateTime(now);
+  const refresh = durationValue(document.refreshMinutes ?? 360);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(document.name)}`,
+    ...(document.description ? [`X-WR-CALDESC:${escapeIcsText(document.description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+    ...document.events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
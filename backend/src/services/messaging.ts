@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { config } from '../config.js';
+
+export interface OutboundMessage {
+  to: string;
+  text: string;
+  campaignId?: string;
+}
+
+export interface MessagingResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Sends short text messages (WhatsApp, SMS) to a phone number. Real gateways
+ * implement this and are registered with `setMessagingProvider`.
+ */
+export interface MessagingProvider {
+  name: string;
+  send(message: OutboundMessage): Promise<MessagingResult>;
+}
+
+/** Appends each message as a JSON line to `<dir>/messages.jsonl` instead of sending it. */
+export class FileMessagingProvider implements MessagingProvider {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: OutboundMessage): Promise<MessagingResult> {
+    try {
+      const messageId = randomUUID();
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(
+        path.join(this.directory, 'messages.jsonl'),
+        `${JSON.stringify({ id: messageId, ...message, createdAt: new Date().toISOString() })}\n`,
+        'utf8',
+      );
+      return { success: true, messageId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to write message' };
+    }
+  }
+}
+
+let overrideProvider: MessagingProvider | null | undefined;
+
+/**
+ * Provider selected by MESSAGING_PROVIDER, or null when messaging is disabled.
+ */
+export function getMessagingProvider(): MessagingProvider | null {
+  if (overrideProvider !== undefined) return overrideProvider;
+  if (config.messagingProvider === 'file') return new FileMessagingProvider(config.messagingOutboxDir);
+  return null;
+}
+
+/** Replaces the configured provider; pass `undefined` to go back to the config. */
+export function setMessagingProvider(provider: MessagingProvider | null | undefined): void {
+  overrideProvider = provider;
+}
@@ -0,0 +1,234 @@
+import type {
+  EligibilityRecord,
+  FeeRuleRecord,
+  ImportantDateRecord,
+  OfficialSource,
+  VacancyRowRecord,
+} from '../content/types.js';
+
+import { parseEligibilityDate } from './eligibilityMatcher.js';
+import type { PdfTextLine } from './pdfText.js';
+
+/** Draft fields read from a notification; every key listed in `needsReview` was guessed. */
+export interface NotificationExtraction {
+  title?: string;
+  organization?: string;
+  summary?: string;
+  postCount?: string;
+  applicationStartDate?: string;
+  lastDate?: string;
+  examDate?: string;
+  importantDates: ImportantDateRecord[];
+  feeRules: FeeRuleRecord[];
+  vacancyRows: VacancyRowRecord[];
+  eligibility: EligibilityRecord[];
+  officialSources: OfficialSource[];
+  needsReview: string[];
+}
+
+const MONTH_PATTERN = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const DATE_PATTERN = new RegExp(
+  `\\b(\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{1,2}(?:st|nd|rd|th)?[\\s-]+${MONTH_PATTERN},?[\\s-]+\\d{4}|${MONTH_PATTERN}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4})`,
+  'i',
+);
+
+const DATE_KINDS: Array<{ kind: NonNullable<ImportantDateRecord['kind']>; label: string; pattern: RegExp }> = [
+  { kind: 'admit_card', label: 'Admit Card', pattern: /admit card|call letter|hall ticket/i },
+  { kind: 'result_date', label: 'Result', pattern: /\bresult/i },
+  { kind: 'exam_date', label: 'Exam Date', pattern: /exam(?:ination)?\b.*\bdate|date of (?:exam|written|cbt)|\bcbt\b|written test|tier[- ]?i\b/i },
+  { kind: 'application_start', label: 'Application Start', pattern: /start|commence|opening|begin|from\b/i },
+  { kind: 'last_date', label: 'Last Date', pattern: /last date|closing|\bclose|end date|last day|till|upto|up to/i },
+  { kind: 'counselling', label: 'Counselling', pattern: /counsell?ing/i },
+];
+
+const FEE_CATEGORY = /\b(general|gen|ur|unreserved|obc|ews|sc|st|pwbd|pwd|ph|female|women|ex-?servicem[ae]n|esm|all (?:other )?candidates|others)\b/i;
+const FEE_AMOUNT = /(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d+)?)\s*\/?-?|\b(nil|exempted|no fee)\b|\b([\d,]{2,6})\s*\/-/i;
+
+function cleanLabel(value: string): string {
+  return value.replace(/[:\-–|]+\s*$/, '').replace(/^\s*[\d.)]+\s+/, '').replace(/\s+/g, ' ').trim();
+}
+
+function extractDates(lines: PdfTextLine[]): ImportantDateRecord[] {
+  const dates: ImportantDateRecord[] = [];
+  const seen = new Set<string>();
+  for (const line of lines) {
+    const match = line.text.match(DATE_PATTERN);
+    if (!match) continue;
+    const context = line.text.slice(0, match.index);
+    const kind = DATE_KINDS.find((item) => item.pattern.test(context))?.kind;
+    // Undated context ("Dated 12.09.2026", page footers) is noise, not a schedule entry.
+    if (!kind) continue;
+    const key = `${kind}:${match[1]}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const label = cleanLabel(line.cells.length > 1 ? line.cells[0] : context) || DATE_KINDS.find((item) => item.kind === kind)!.label;
+    dates.push({ label: label.slice(0, 120), value: match[1].slice(0, 120), kind });
+  }
+  return dates;
+}
+
+function normalizeAmount(match: RegExpMatchArray): string {
+  if (match[2]) return /nil|no fee/i.test(match[2]) ? 'Nil' : 'Exempted';
+  return `₹${(match[1] ?? match[3]).replace(/,/g, '')}`;
+}
+
+function extractFees(lines: PdfTextLine[]): FeeRuleRecord[] {
+  const fees: FeeRuleRecord[] = [];
+  const start = lines.findIndex((line) => /\b(application|examination|exam)?\s*fee/i.test(line.text));
+  if (start < 0) return fees;
+  // Fee tables sit right under their heading, so look a short way down.
+  for (const line of lines.slice(start, start + 15)) {
+    const category = line.text.match(FEE_CATEGORY);
+    const amount = line.text.match(FEE_AMOUNT);
+    if (!category || !amount || (category.index ?? 0) > (amount.index ?? 0)) continue;
+    const label = cleanLabel(line.cells.length > 1 ? line.cells[0] : line.text.slice(0, amount.index));
+    if (!label || fees.some((fee) => fee.category === label)) continue;
+    fees.push({ category: label.slice(0, 120), amount: normalizeAmount(amount) });
+  }
+  return fees;
+}
+
+function findColumn(cells: string[], pattern: RegExp): number {
+  return cells.findIndex((cell) => pattern.test(cell));
+}
+
+function extractVacancies(lines: PdfTextLine[]): { rows: VacancyRowRecord[]; total?: string } {
+  const rows: VacancyRowRecord[] = [];
+  let total = lines
+    .map((line) => line.text.match(/total\s+(?:no\.?\s+of\s+)?(?:vacanc(?:y|ies)|posts?)\s*[:-]?\s*(\d[\d,]*)/i)?.[1])
+    .find(Boolean);
+
+  const headerIndex = lines.findIndex((line) => line.cells.length >= 2
+    && findColumn(line.cells, /post|name of|designation|trade/i) >= 0
+    && findColumn(line.cells, /vacanc|no\.? of posts|total|posts/i) >= 0);
+  if (headerIndex < 0) return { rows, total: total?.replace(/,/g, '') };
+
+  const header = lines[headerIndex].cells;
+  const nameColumn = findColumn(header, /post|name of|designation|trade/i);
+  const totalColumn = header.findIndex((cell, index) => index !== nameColumn && /total/i.test(cell));
+  const vacancyColumn = totalColumn >= 0 ? totalColumn : header.findIndex((cell, index) => index !== nameColumn && /vacanc|posts/i.test(cell));
+  const payColumn = findColumn(header, /pay|level|scale|salary/i);
+
+  let misses = 0;
+  for (const line of lines.slice(headerIndex + 1, headerIndex + 80)) {
+    const cells = line.cells;
+    if (/^total\b/i.test(cells[0] ?? '')) {
+      total = total ?? cells.find((cell) => /^\d[\d,]*$/.test(cell));
+      break;
+    }
+    // Cells can be missing on a row, so fall back to the last number on the line.
+    const numbers = cells.filter((cell) => /^\d[\d,]*$/.test(cell));
+    const vacancies = /^\d[\d,]*$/.test(cells[vacancyColumn] ?? '') ? cells[vacancyColumn] : numbers[numbers.length - 1];
+    const name = cells[nameColumn] && !/^\d[\d,]*$/.test(cells[nameColumn]) ? cells[nameColumn] : cells.find((cell) => /[a-z]{3}/i.test(cell));
+    if (!vacancies || !name || cells.length < 2) {
+      misses += 1;
+      if (misses >= 2) break;
+      continue;
+    }
+    misses = 0;
+    rows.push({
+      postName: cleanLabel(name).slice(0, 180),
+      vacancies: vacancies.replace(/,/g, ''),
+      ...(payColumn >= 0 && cells[payColumn] && payColumn !== vacancyColumn ? { payLevel: cells[payColumn].slice(0, 120) } : {}),
+    });
+  }
+  return { rows, total: total?.replace(/,/g, '') };
+}
+
+function toIsoDate(value: string): string | undefined {
+  const parsed = parseEligibilityDate(value.replace(/(\d)(st|nd|rd|th)\b/i, '$1'));
+  return parsed ? parsed.toISOString().slice(0, 10) : undefined;
+}
+
+function extractAgeLimit(lines: PdfTextLine[]): EligibilityRecord[] {
+  const index = lines.findIndex((line) => /\bage\b/i.test(line.text) && /\d{2}\s*(?:to|-|–|and)\s*\d{2}\s*years?|(?:minimum|maximum|upper|lower)[^.]*\d{2}\s*years?/i.test(line.text));
+  if (index < 0) return [];
+  const text = lines.slice(index, index + 2).map((line) => line.text).join(' ');
+  const range = text.match(/(\d{2})\s*(?:to|-|–|and)\s*(\d{2})\s*years?/i);
+  const min = range?.[1] ?? text.match(/minimum[^.\d]*(\d{2})/i)?.[1];
+  const max = range?.[2] ?? text.match(/(?:maximum|upper)[^.\d]*(\d{2})/i)?.[1];
+  const cutoff = text.match(new RegExp(`as on\\s*[:-]?\\s*${DATE_PATTERN.source}`, 'i'))?.[1];
+  const ageCutoffDate = cutoff ? toIsoDate(cutoff) : undefined;
+  return [{
+    label: 'Age Limit',
+    description: lines[index].text.slice(0, 600),
+    ...(min ? { minAge: Number(min) } : {}),
+    ...(max ? { maxAge: Number(max) } : {}),
+    ...(ageCutoffDate ? { ageCutoffDate } : {}),
+  }];
+}
+
+function extractWebsite(lines: PdfTextLine[]): OfficialSource | undefined {
+  const candidates = lines.flatMap((line) => Array.from(
+    line.text.matchAll(/\b((?:https?:\/\/|www\.)[a-z0-9.-]+\.[a-z]{2,}(?:\/[^\s)\]>,;"']*)?)/gi),
+    (match) => ({ url: match[1].replace(/[.]+$/, ''), line: line.text }),
+  ));
+  // Prefer the address the notice calls its website, then government domains.
+  const score = (item: { url: string; line: string }) => (/website|apply online|online application/i.test(item.line) ? 2 : 0)
+    + (/\.(gov|nic)\.in\b/i.test(item.url) ? 1 : 0);
+  const best = candidates.sort((a, b) => score(b) - score(a))[0];
+  if (!best) return undefined;
+  const url = best.url.startsWith('http') ? best.url : `https://${best.url}`;
+  try {
+    return { label: 'Official Website', url: new URL(url).toString(), sourceType: 'website' };
+  } catch {
+    return undefined;
+  }
+}
+
+function extractHeading(lines: PdfTextLine[]): { title?: string; organization?: string } {
+  const firstPage = lines.filter((line) => line.page === 1).slice(0, 25);
+  const organization = firstPage.find((line) => /commission|board|ministry|department|corporation|authority|university|institute|bank|limited|council|agency|academy/i.test(line.text)
+    && line.text.length <= 120)?.text;
+  const title = firstPage.find((line) => /recruitment|examination|notification|advertisement|admission|vacanc/i.test(line.text)
+    && line.text.length >= 12 && line.text.length <= 300 && line.text !== organization)?.text;
+  return {
+    title: title?.replace(/^(?:advt|advertisement|notice)\.?\s*(?:no\.?)?\s*[:-]?\s*[\w/.-]*\s*/i, '').trim() || title,
+    organization,
+  };
+}
+
+/**
+ * Reads recruitment details out of notification text with layout heuristics.
+ * The result is a starting point for an editor, never publishable as is:
+ * every field it fills is listed in `needsReview`.
+ */
+export function extractNotificationFields(lines: PdfTextLine[]): NotificationExtraction {
+  const { title, organization } = extractHeading(lines);
+  const importantDates = extractDates(lines);
+  const feeRules = extractFees(lines);
+  const vacancies = extractVacancies(lines);
+  const eligibility = extractAgeLimit(lines);
+  const website = extractWebsite(lines);
+  const dateOf = (kind: ImportantDateRecord['kind']) => importantDates.find((item) => item.kind === kind)?.value;
+
+  const extraction: NotificationExtraction = {
+    title,
+    organization,
+    postCount: vacancies.total,
+    applicationStartDate: dateOf('application_start'),
+    lastDate: dateOf('last_date'),
+    examDate: dateOf('exam_date'),
+    importantDates,
+    feeRules,
+    vacancyRows: vacancies.rows,
+    eligibility,
+    officialSources: website ? [{ ...website, isPrimary: true }] : [],
+    needsReview: [],
+  };
+  if (title) {
+    const parts = [
+      `${organization ? `${organization} has published ` : ''}${title}.`,
+      extraction.postCount ? `${extraction.postCount} posts.` : '',
+      extraction.lastDate ? `Last date to apply: ${extraction.lastDate}.` : '',
+    ];
+    extraction.summary = parts.filter(Boolean).join(' ').slice(0, 500);
+  }
+
+  extraction.needsReview = (Object.keys(extraction) as Array<keyof NotificationExtraction>).filter((key) => {
+    if (key === 'needsReview') return false;
+    const value = extraction[key];
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+  });
+  return extraction;
+}
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { z } from 'zod';
+
+import { config } from '../config.js';
+import type { OfficialSource } from '../content/types.js';
+
+import { extractNotificationFields } from './notificationExtractor.js';
+import { extractPdfText, PdfTextError } from './pdfText.js';
+
+export const NOTIFICATION_PDF_MAX_BYTES = 7 * 1024 * 1024;
+
+const STORED_NAME_PATTERN = /^[a-f0-9]{64}\.pdf$/;
+
+export const notificationPdfUploadSchema = z.object({
+  fileName: z.string().trim().min(1).max(200),
+  /** Base64-encoded PDF bytes. */
+  content: z.string().min(1).max(Math.ceil(NOTIFICATION_PDF_MAX_BYTES / 3) * 4 + 4),
+});
+
+export type NotificationPdfUpload = z.infer<typeof notificationPdfUploadSchema>;
+
+export interface NotificationPdfImport {
+  file: {
+    id: string;
+    fileName: string;
+    size: number;
+    pageCount: number;
+    url: string;
+  };
+  /** Post editor fields; `officialSources` ends with the stored PDF. */
+  draft: Record<string, unknown>;
+  needsReview: string[];
+  textPreview: string;
+  warnings: string[];
+}
+
+/** Absolute path of a stored PDF, or null when `name` is not one this store wrote. */
+export function notificationPdfPath(name: string): string | null {
+  if (!STORED_NAME_PATTERN.test(name)) return null;
+  return path.resolve(config.notificationPdfDir, name);
+}
+
+/** Stores the PDF under its SHA-256 so re-uploading the same notice reuses the file. */
+async function storeNotificationPdf(buffer: Buffer): Promise<{ id: string; url: string }> {
+  const id = createHash('sha256').update(buffer).digest('hex');
+  const name = `${id}.pdf`;
+  await fs.mkdir(config.notificationPdfDir, { recursive: true });
+  await fs.writeFile(path.join(config.notificationPdfDir, name), buffer, { flag: 'wx' }).catch((error: NodeJS.ErrnoException) => {
+    if (error.code !== 'EEXIST') throw error;
+  });
+  return { id, url: `${config.publicApiUrl}/content/notification-pdfs/${name}` };
+}
+
+/**
+ * Stores an uploaded notification PDF and pre-fills a draft from its text.
+ * Nothing is saved as a post here; the editor reviews the draft in the post
+ * form, where the stored PDF is already listed as an official source.
+ */
+export async function importNotificationPdf(upload: NotificationPdfUpload, now: Date = new Date()): Promise<NotificationPdfImport> {
+  const buffer = Buffer.from(upload.content, 'base64');
+  if (buffer.length > NOTIFICATION_PDF_MAX_BYTES) {
+    throw new PdfTextError(`PDF is larger than ${NOTIFICATION_PDF_MAX_BYTES / (1024 * 1024)} MB`);
+  }
+  const text = extractPdfText(buffer);
+  const stored = await storeNotificationPdf(buffer);
+  const fields = extractNotificationFields(text.lines);
+
+  const attachment: OfficialSource = {
+    label: `Notification PDF (${upload.fileName})`.slice(0, 180),
+    url: stored.url,
+    sourceType: 'notification',
+    isPrimary: fields.officialSources.length === 0,
+    capturedAt: now.toISOString(),
+  };
+  const draft: Record<string, unknown> = {
+    type: 'job',
+    ...(fields.title ? { title: fields.title.slice(0, 300) } : {}),
+    ...(fields.summary ? { summary: fields.summary } : {}),
+    organization: fields.organization ? { name: fields.organization } : null,
+    ...(fields.postCount ? { postCount: fields.postCount } : {}),
+    ...(fields.applicationStartDate ? { applicationStartDate: fields.applicationStartDate } : {}),
+    ...(fields.lastDate ? { lastDate: fields.lastDate } : {}),
+    ...(fields.examDate ? { examDate: fields.examDate } : {}),
+    importantDates: fields.importantDates,
+    feeRules: fields.feeRules,
+    vacancyRows: fields.vacancyRows,
+    eligibility: fields.eligibility,
+    officialSources: [...fields.officialSources, attachment],
+    verificationNote: `Pre-filled from notification PDF ${upload.fileName}. Check every extracted field against the notice.`.slice(0, 500),
+  };
+
+  const warnings: string[] = [];
+  if (!text.text.trim()) warnings.push('No text layer found. The PDF may be a scan; fill the form by hand.');
+  else if (fields.needsReview.length === 0) warnings.push('No recruitment details were recognised in the text.');
+
+  return {
+    file: { id: stored.id, fileName: upload.fileName, size: buffer.length, pageCount: text.pageCount, url: stored.url },
+    draft,
+    needsReview: fields.needsReview,
+    textPreview: text.text.slice(0, 4000),
+    warnings,
+  };
+}
@@ -2,35 +2,41 @@ import { randomUUID } from 'crypto';
 import { hostname } from 'os';
 
 import { PostType as PrismaPostType, type Prisma } from '@prisma/client';
-import webpush from 'web-push';
 import { z } from 'zod';
 
-import { config } from '../config.js';
 import CampaignDispatchLogModelPostgres, {
+  campaignDispatchChannels,
+  type CampaignDispatchChannel,
   type CampaignDispatchLogInput,
   type CampaignDispatchLogRecord,
 } from '../models/campaignDispatchLogs.postgres.js';
 import CampaignJobModelPostgres, { type CampaignJobRecord } from '../models/campaignJobs.postgres.js';
+import CampaignSegmentModelPostgres, { type SegmentGroup } from '../models/campaignSegments.postgres.js';
 import NotificationCampaignModelPostgres, {
   type NotificationCampaignRecord,
   type NotificationCampaignSegmentType,
   type NotificationCampaignStatus,
 } from '../models/notificationCampaigns.postgres.js';
-import PushSubscriptionModelPostgres, { type PushSubscriptionRecord } from '../models/pushSubscriptions.postgres.js';
 import { slugify } from '../utils/slugify.js';
 
-import { sendCampaignEmail } from './email.js';
-import { prisma, prismaApp } from './postgres/prisma.js';
+import {
+  getCampaignChannelAdapter,
+  mapWithConcurrency,
+  type CampaignChannelBatch,
+  type CampaignSubscriber,
+} from './campaignChannels.js';
+import { compileSegmentRule, describeSegmentRule, segmentExpressionSchema } from './campaignSegments.js';
+import { prisma } from './postgres/prisma.js';
 
 const notificationCampaignSchema = z.object({
   title: z.string().min(5).max(200),
   body: z.string().min(10).max(1000),
   url: z.string().url().optional(),
   segment: z.object({
-    type: z.enum(['all', 'state', 'category', 'organization', 'qualification', 'type']),
+    type: z.enum(['all', 'state', 'category', 'organization', 'qualification', 'type', 'custom']),
     value: z.string().trim(),
   }).superRefine((segment, ctx) => {
-    if (segment.type !== 'all' && segment.value.length === 0) {
+    if (segment.type !== 'all' && segment.type !== 'custom' && segment.value.length === 0) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: 'Segment value is required for targeted campaigns',
@@ -38,31 +44,41 @@ const notificationCampaignSchema = z.object({
       });
     }
   }),
+  audience: segmentExpressionSchema.optional(),
+  savedSegmentId: z.string().trim().min(1).optional(),
+  channels: z.array(z.enum(campaignDispatchChannels)).min(1).optional(),
+  channelTemplates: z.record(
+    z.enum(campaignDispatchChannels),
+    z.object({
+      title: z.string().trim().max(200).optional(),
+      body: z.string().trim().max(2000).optional(),
+    }),
+  ).optional(),
   scheduledAt: z.string().datetime().optional(),
   abTest: z.object({
     enabled: z.boolean(),
     variantA: z.object({ title: z.string(), body: z.string() }).optional(),
     variantB: z.object({ title: z.string(), body: z.string() }).optional(),
   }).optional(),
+}).superRefine((campaign, ctx) => {
+  if (campaign.segment.type === 'custom' && !campaign.audience && !campaign.savedSegmentId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Custom segments need an audience expression or a saved segment',
+      path: ['audience'],
+    });
+  }
 });
 
-type NotificationCampaign = NotificationCampaignRecord;
-
-interface EmailRecipient {
-  id: string;
-  email: string;
-}
+const segmentEstimateSchema = z.object({
+  audience: segmentExpressionSchema,
+  channels: z.array(z.enum(campaignDispatchChannels)).min(1).optional(),
+});
 
-interface CampaignEstimate {
-  email: number;
-  push: number;
-  total: number;
-}
+type NotificationCampaign = NotificationCampaignRecord;
 
-interface CampaignRecipients {
-  emailRecipients: EmailRecipient[];
-  pushRecipients: PushSubscriptionRecord[];
-}
+/** Recipient counts for each of the campaign's channels, plus the overall total. */
+type CampaignEstimate = Partial<Record<CampaignDispatchChannel, number>> & { total: number };
 
 const DEFAULT_CAMPAIGN_DELIVERY_CONCURRENCY = 10;
 const DEFAULT_CAMPAIGN_SCHEDULER_INTERVAL_MS = 60_000;
@@ -151,7 +167,8 @@ function mapSegmentType(value: string): NotificationCampaignSegmentType {
     value === 'organization' ||
     value === 'qualification' ||
     value === 'type' ||
-    value === 'language'
+    value === 'language' ||
+    value === 'custom'
   ) {
     return value;
   }
@@ -248,12 +265,29 @@ function buildSegmentWhere(
       // Language preferences are not persisted in the PostgreSQL subscription schema.
       where.id = '__unsupported_language_segment__';
       return where;
+    case 'custom':
+      // Custom segments are resolved from their expression in buildCampaignWhere.
+      where.id = '__missing_segment_expression__';
+      return where;
     case 'all':
     default:
       return where;
   }
 }
 
+async function buildCampaignWhere(
+  campaign: Pick<NotificationCampaignRecord, 'segment' | 'segmentExpression'>,
+  options?: { verified?: boolean },
+): Promise<Prisma.SubscriptionWhereInput> {
+  if (campaign.segment.type === 'custom' && campaign.segmentExpression) {
+    return {
+      ...buildSegmentWhere('all', 'all', options),
+      AND: [await compileSegmentRule(campaign.segmentExpression)],
+    };
+  }
+  return buildSegmentWhere(mapSegmentType(campaign.segment.type), campaign.segment.value, options);
+}
+
 /**
  * Create a new notification campaign
  */
@@ -271,6 +305,21 @@ export async function createCampaign(
       type: parse.data.segment.type,
       value: parse.data.segment.type === 'all' ? 'all' : parse.data.segment.value,
     };
+    let segmentExpression: SegmentGroup | undefined;
+    if (normalizedSegment.type === 'custom') {
+      // The expression is copied onto the campaign so later edits to a saved segment do not retarget it.
+      if (parse.data.savedSegmentId) {
+        const saved = await CampaignSegmentModelPostgres.findById(parse.data.savedSegmentId);
+        if (!saved) {
+          return { success: false, error: 'Saved segment not found' };
+        }
+        segmentExpression = saved.expression;
+        normalizedSegment.value = saved.name;
+      } else {
+        segmentExpression = parse.data.audience;
+        normalizedSegment.value = normalizedSegment.value || describeSegmentRule(parse.data.audience).slice(0, 200);
+      }
+    }
 
     const campaign = await NotificationCampaignModelPostgres.create(
       {
@@ -278,6 +327,9 @@ export async function createCampaign(
         body: parse.data.body,
         url: parse.data.url,
         segment: normalizedSegment,
+        segmentExpression,
+        channels: parse.data.channels ? Array.from(new Set(parse.data.channels)) : undefined,
+        channelTemplates: parse.data.channelTemplates,
         scheduledAt: parse.data.scheduledAt ? new Date(parse.data.scheduledAt) : undefined,
         abTest: normalizeAbTest(parse.data.abTest),
       },
@@ -313,11 +365,13 @@ export async function getCampaigns(limit = 50): Promise<NotificationCampaign[]>
 export async function getUserSegments(): Promise<{
   states: string[];
   categories: string[];
+  organizations: string[];
+  qualifications: string[];
   languages: string[];
   totalUsers: number;
 }> {
   try {
-    const [stateRows, categoryRows, totalUsers] = await Promise.all([
+    const [stateRows, categoryRows, organizationRows, qualificationRows, totalUsers] = await Promise.all([
       prisma.subscriptionState.groupBy({
         by: ['stateId'],
         where: {
@@ -356,13 +410,53 @@ export async function getUserSegments(): Promise<{
         },
         take: 20,
       }),
+      prisma.subscriptionOrganization.groupBy({
+        by: ['organizationId'],
+        where: {
+          subscription: {
+            is: {
+              isActive: true,
+            },
+          },
+        },
+        _count: {
+          organizationId: true,
+        },
+        orderBy: {
+          _count: {
+            organizationId: 'desc',
+          },
+        },
+        take: 20,
+      }),
+      prisma.subscriptionQualification.groupBy({
+        by: ['qualificationId'],
+        where: {
+          subscription: {
+            is: {
+              isActive: true,
+            },
+          },
+        },
+        _count: {
+          qualificationId: true,
+        },
+        orderBy: {
+          _count: {
+            qualificationId: 'desc',
+          },
+        },
+        take: 20,
+      }),
       prisma.subscription.count({ where: { isActive: true } }),
     ]);
 
     const stateIds = stateRows.map((item) => item.stateId);
     const categoryIds = categoryRows.map((item) => item.categoryId);
+    const organizationIds = organizationRows.map((item) => item.organizationId);
+    const qualificationIds = qualificationRows.map((item) => item.qualificationId);
 
-    const [stateRecords, categoryRecords] = await Promise.all([
+    const [stateRecords, categoryRecords, organizationRecords, qualificationRecords] = await Promise.all([
       stateIds.length > 0
         ? prisma.state.findMany({
             where: { id: { in: stateIds } },
@@ -375,10 +469,24 @@ export async function getUserSegments(): Promise<{
             select: { id: true, name: true },
           })
         : Promise.resolve([]),
+      organizationIds.length > 0
+        ? prisma.organization.findMany({
+            where: { id: { in: organizationIds } },
+            select: { id: true, name: true },
+          })
+        : Promise.resolve([]),
+      qualificationIds.length > 0
+        ? prisma.qualification.findMany({
+            where: { id: { in: qualificationIds } },
+            select: { id: true, name: true },
+          })
+        : Promise.resolve([]),
     ]);
 
     const stateNameById = new Map(stateRecords.map((item) => [item.id, item.name]));
     const categoryNameById = new Map(categoryRecords.map((item) => [item.id, item.name]));
+    const organizationNameById = new Map(organizationRecords.map((item) => [item.id, item.name]));
+    const qualificationNameById = new Map(qualificationRecords.map((item) => [item.id, item.name]));
 
     return {
       states: stateRows
@@ -387,12 +495,25 @@ export async function getUserSegments(): Promise<{
       categories: categoryRows
         .map((item) => categoryNameById.get(item.categoryId))
         .filter((value): value is string => Boolean(value)),
+      organizations: organizationRows
+        .map((item) => organizationNameById.get(item.organizationId))
+        .filter((value): value is string => Boolean(value)),
+      qualifications: qualificationRows
+        .map((item) => qualificationNameById.get(item.qualificationId))
+        .filter((value): value is string => Boolean(value)),
       languages: [],
       totalUsers,
     };
   } catch (error) {
     console.error('[NotificationService] Error fetching segments:', error);
-    return { states: [], categories: [], languages: [], totalUsers: 0 };
+    return {
+      states: [],
+      categories: [],
+      organizations: [],
+      qualifications: [],
+      languages: [],
+      totalUsers: 0,
+    };
   }
 }
 
@@ -412,179 +533,39 @@ export async function getSegmentUserCount(
   }
 }
 
-async function resolveEmailRecipients(campaign: NotificationCampaignRecord): Promise<EmailRecipient[]> {
-  const where = buildSegmentWhere(
-    mapSegmentType(campaign.segment.type),
-    campaign.segment.value,
-    { verified: true },
-  );
+async function resolveSegmentSubscribers(campaign: NotificationCampaignRecord): Promise<CampaignSubscriber[]> {
+  const where = await buildCampaignWhere(campaign, { verified: true });
 
   return prisma.subscription.findMany({
     where,
     select: {
       id: true,
       email: true,
+      phone: true,
+      unsubscribeToken: true,
     },
     orderBy: { createdAt: 'asc' },
   });
 }
 
-async function resolveUserIdsForEmails(emails: string[]): Promise<string[]> {
-  const uniqueEmails = Array.from(new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean)));
-  if (uniqueEmails.length === 0) {
-    return [];
-  }
-
-  const users = await prismaApp.userAccountEntry.findMany({
-    where: {
-      email: { in: uniqueEmails, mode: 'insensitive' },
-      isActive: true,
-    },
-    select: { id: true },
-  });
-
-  return users.map((user: { id: string }) => user.id);
-}
-
-async function resolveCampaignRecipients(campaign: NotificationCampaignRecord): Promise<CampaignRecipients> {
-  const emailRecipients = await resolveEmailRecipients(campaign);
-  const userIds = await resolveUserIdsForEmails(emailRecipients.map((recipient) => recipient.email));
-
-  const pushRecipients = campaign.segment.type === 'all'
-    ? await PushSubscriptionModelPostgres.listAll()
-    : await PushSubscriptionModelPostgres.listForUserIds(userIds);
-
-  return { emailRecipients, pushRecipients };
-}
-
-async function mapWithConcurrency<T, R>(
-  items: T[],
-  concurrency: number,
-  handler: (item: T) => Promise<R>,
-): Promise<R[]> {
-  if (items.length === 0) {
-    return [];
-  }
-
-  const results = new Array<R>(items.length);
-  let nextIndex = 0;
-  const workerCount = Math.min(Math.max(1, concurrency), items.length);
-
-  await Promise.all(Array.from({ length: workerCount }, async () => {
-    while (nextIndex < items.length) {
-      const currentIndex = nextIndex;
-      nextIndex += 1;
-      results[currentIndex] = await handler(items[currentIndex]);
-    }
-  }));
-
-  return results;
-}
-
-function campaignPushPayload(campaign: NotificationCampaignRecord): string {
-  const url = campaign.url
-    ? (() => {
-        const trackedUrl = new URL(campaign.url, config.frontendUrl);
-        trackedUrl.searchParams.set('source', 'campaign');
-        trackedUrl.searchParams.set('medium', 'push');
-        trackedUrl.searchParams.set('campaign', campaign.id);
-        return trackedUrl.toString();
-      })()
-    : config.frontendUrl;
-
-  return JSON.stringify({
-    title: campaign.title,
-    body: campaign.body,
-    url,
-    campaignId: campaign.id,
-  });
-}
-
-function configureWebPush(): boolean {
-  if (!config.vapidPublicKey || !config.vapidPrivateKey) {
-    return false;
-  }
-
-  webpush.setVapidDetails('mailto:admin@sarkariexams.me', config.vapidPublicKey, config.vapidPrivateKey);
-  return true;
-}
-
-async function dispatchEmail(campaign: NotificationCampaignRecord, recipient: EmailRecipient): Promise<CampaignDispatchLogInput> {
-  const result = await sendCampaignEmail({
-    to: recipient.email,
-    title: campaign.title,
-    body: campaign.body,
-    url: campaign.url,
-    campaignId: campaign.id,
-  });
-
-  const deliveredAt = result.success ? new Date() : undefined;
-  return {
-    campaignId: campaign.id,
-    channel: 'email',
-    recipient: recipient.email,
-    subscriptionId: recipient.id,
-    status: result.success ? 'sent' : 'failed',
-    messageId: result.messageId,
-    error: result.error,
-    metadata: { source: 'campaign' },
-    deliveredAt,
-  };
-}
-
-async function dispatchPush(
+async function prepareCampaignChannels(
   campaign: NotificationCampaignRecord,
-  subscription: PushSubscriptionRecord,
-  options?: { vapidConfigured?: boolean },
-): Promise<CampaignDispatchLogInput> {
-  if (options?.vapidConfigured === false) {
-    return {
-      campaignId: campaign.id,
-      channel: 'push',
-      recipient: subscription.endpoint,
-      recipientUserId: subscription.userId,
-      pushEndpoint: subscription.endpoint,
-      status: 'failed',
-      error: 'VAPID keys are not configured',
-      metadata: { source: 'campaign' },
-    };
+): Promise<Array<{ channel: CampaignDispatchChannel; batch: CampaignChannelBatch }>> {
+  const subscribers = await resolveSegmentSubscribers(campaign);
+  const prepared: Array<{ channel: CampaignDispatchChannel; batch: CampaignChannelBatch }> = [];
+  for (const channel of campaign.channels) {
+    prepared.push({ channel, batch: await getCampaignChannelAdapter(channel).prepare({ campaign, subscribers }) });
   }
+  return prepared;
+}
 
-  try {
-    await webpush.sendNotification(
-      { endpoint: subscription.endpoint, keys: subscription.keys },
-      campaignPushPayload(campaign),
-    );
-
-    return {
-      campaignId: campaign.id,
-      channel: 'push',
-      recipient: subscription.endpoint,
-      recipientUserId: subscription.userId,
-      pushEndpoint: subscription.endpoint,
-      status: 'sent',
-      metadata: { source: 'campaign' },
-      deliveredAt: new Date(),
-    };
-  } catch (error) {
-    const statusCode = typeof (error as { statusCode?: unknown }).statusCode === 'number'
-      ? (error as { statusCode: number }).statusCode
-      : undefined;
-    if (statusCode === 404 || statusCode === 410) {
-      await PushSubscriptionModelPostgres.deleteByEndpoint(subscription.endpoint).catch(() => undefined);
-    }
-
-    return {
-      campaignId: campaign.id,
-      channel: 'push',
-      recipient: subscription.endpoint,
-      recipientUserId: subscription.userId,
-      pushEndpoint: subscription.endpoint,
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Failed to send push notification',
-      metadata: { source: 'campaign', statusCode },
-    };
+function estimateFromBatches(prepared: Array<{ channel: CampaignDispatchChannel; batch: CampaignChannelBatch }>): CampaignEstimate {
+  const estimate: CampaignEstimate = { total: 0 };
+  for (const { channel, batch } of prepared) {
+    estimate[channel] = batch.recipientCount;
+    estimate.total += batch.recipientCount;
   }
+  return estimate;
 }
 
 function summarizeDispatch(logs: CampaignDispatchLogInput[]): { sent: number; failed: number } {
@@ -602,13 +583,45 @@ function summarizeDispatch(logs: CampaignDispatchLogInput[]): { sent: number; fa
   );
 }
 
-export async function estimateCampaignRecipients(campaignId: string): Promise<{
+function draftCampaign(audience: SegmentGroup, channels?: CampaignDispatchChannel[]): NotificationCampaignRecord {
+  return {
+    id: 'draft',
+    title: '',
+    body: '',
+    segment: { type: 'custom', value: '' },
+    segmentExpression: audience,
+    channels: channels?.length ? Array.from(new Set(channels)) : ['email', 'push'],
+    status: 'draft',
+    unsupportedSegment: false,
+    sentCount: 0,
+    failedCount: 0,
+    openCount: 0,
+    clickCount: 0,
+    createdBy: '',
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Estimate recipients per channel for a saved campaign, or for a draft
+ * `{ audience, channels }` while the segment is still being built.
+ */
+export async function estimateCampaignRecipients(target: string | { audience: unknown; channels?: unknown }): Promise<{
   success: boolean;
   error?: string;
   data?: CampaignEstimate;
 }> {
+  let draft: NotificationCampaignRecord | undefined;
+  if (typeof target !== 'string') {
+    const parse = segmentEstimateSchema.safeParse(target);
+    if (!parse.success) {
+      return { success: false, error: parse.error.message };
+    }
+    draft = draftCampaign(parse.data.audience, parse.data.channels);
+  }
+
   try {
-    const campaign = await NotificationCampaignModelPostgres.findById(campaignId);
+    const campaign = draft ?? await NotificationCampaignModelPostgres.findById(target as string);
     if (!campaign) {
       return { success: false, error: 'Campaign not found' };
     }
@@ -616,15 +629,9 @@ export async function estimateCampaignRecipients(campaignId: string): Promise<{
       return { success: false, error: 'Campaign segment is no longer supported' };
     }
 
-    const { emailRecipients, pushRecipients } = await resolveCampaignRecipients(campaign);
-
     return {
       success: true,
-      data: {
-        email: emailRecipients.length,
-        push: pushRecipients.length,
-        total: emailRecipients.length + pushRecipients.length,
-      },
+      data: estimateFromBatches(await prepareCampaignChannels(campaign)),
     };
   } catch (error) {
     console.error('[NotificationService] Error estimating campaign recipients:', error);
@@ -699,28 +706,15 @@ async function validateCampaignForQueue(
 async function deliverClaimedCampaign(campaign: NotificationCampaignRecord): Promise<CampaignDeliveryResult> {
   const campaignId = campaign.id;
   try {
-    const { emailRecipients, pushRecipients } = await resolveCampaignRecipients(campaign);
-
-    const vapidConfigured = configureWebPush();
-    const emailLogs = await mapWithConcurrency(
-      emailRecipients,
-      campaignRuntimeConfig.deliveryConcurrency,
-      (recipient) => dispatchEmail(campaign, recipient),
-    );
-    const pushLogs = await mapWithConcurrency(
-      pushRecipients,
-      campaignRuntimeConfig.deliveryConcurrency,
-      (subscription) => dispatchPush(campaign, subscription, { vapidConfigured }),
-    );
-    const dispatchLogs: CampaignDispatchLogInput[] = [...emailLogs, ...pushLogs];
+    const prepared = await prepareCampaignChannels(campaign);
+    const dispatchLogs: CampaignDispatchLogInput[] = [];
+    for (const { batch } of prepared) {
+      dispatchLogs.push(...await batch.send(campaignRuntimeConfig.deliveryConcurrency));
+    }
 
     await CampaignDispatchLogModelPostgres.createMany(dispatchLogs);
     const summary = summarizeDispatch(dispatchLogs);
-    const totals = {
-      email: emailRecipients.length,
-      push: pushRecipients.length,
-      total: emailRecipients.length + pushRecipients.length,
-    };
+    const totals = estimateFromBatches(prepared);
 
     if (summary.sent > 0 && summary.failed > 0) {
       await NotificationCampaignModelPostgres.markPartialFailed(campaignId, summary.sent, summary.failed);
@@ -799,35 +793,8 @@ export async function getCampaignStats(campaignId: string): Promise<{
   }
 }
 
-async function retryEmailLog(campaign: NotificationCampaignRecord, log: CampaignDispatchLogRecord): Promise<CampaignDispatchLogInput> {
-  const retryResult = await dispatchEmail(campaign, {
-    id: log.subscriptionId ?? log.id,
-    email: log.recipient,
-  });
-  return {
-    ...retryResult,
-    metadata: { retryOf: log.id },
-    attemptCount: log.attemptCount + 1,
-  };
-}
-
-async function retryPushLog(campaign: NotificationCampaignRecord, log: CampaignDispatchLogRecord): Promise<CampaignDispatchLogInput> {
-  const endpoint = log.pushEndpoint ?? log.recipient;
-  const subscription = await PushSubscriptionModelPostgres.findByEndpoint(endpoint);
-  if (!subscription) {
-    return {
-      campaignId: campaign.id,
-      channel: 'push',
-      recipient: endpoint,
-      recipientUserId: log.recipientUserId,
-      pushEndpoint: endpoint,
-      status: 'failed',
-      error: 'Push subscription no longer exists',
-      metadata: { retryOf: log.id },
-      attemptCount: log.attemptCount + 1,
-    };
-  }
-  const retryResult = await dispatchPush(campaign, subscription, { vapidConfigured: configureWebPush() });
+async function retryDispatchLog(campaign: NotificationCampaignRecord, log: CampaignDispatchLogRecord): Promise<CampaignDispatchLogInput> {
+  const retryResult = await getCampaignChannelAdapter(log.channel).retry(campaign, log);
   return {
     ...retryResult,
     metadata: { retryOf: log.id },
@@ -861,7 +828,7 @@ async function retryClaimedCampaign(campaign: NotificationCampaignRecord): Promi
     const retryLogs = await mapWithConcurrency(
       failedLogs,
       campaignRuntimeConfig.deliveryConcurrency,
-      (log) => log.channel === 'email' ? retryEmailLog(campaign, log) : retryPushLog(campaign, log),
+      (log) => retryDispatchLog(campaign, log),
     );
 
     await CampaignDispatchLogModelPostgres.createMany(retryLogs);
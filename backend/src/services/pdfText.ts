@@ -0,0 +1,501 @@
+import { inflateSync } from 'zlib';
+
+/** One visual line of a page; `cells` are runs separated by a wide horizontal gap, as in table columns. */
+export interface PdfTextLine {
+  page: number;
+  cells: string[];
+  text: string;
+}
+
+export interface PdfTextResult {
+  pageCount: number;
+  lines: PdfTextLine[];
+  text: string;
+}
+
+/** The upload is not a PDF this extractor will read; the message is safe to show the uploader. */
+export class PdfTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfTextError';
+  }
+}
+
+interface PdfObject {
+  body: string;
+  stream?: Buffer;
+}
+
+interface TextRun {
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+}
+
+interface FontCMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 5;
+const MAX_TEXT_LENGTH = 400_000;
+// Compressed streams can expand a thousandfold, so decoding is budgeted per document.
+const MAX_OBJECTS = 20_000;
+const MAX_STREAM_DECODES = 5_000;
+const MAX_DECODED_BYTES = 32 * 1024 * 1024;
+
+interface DecodeBudget {
+  bytes: number;
+  streams: number;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function readObjects(raw: string, buffer: Buffer): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  const boundary = /\bstream\r?\n|endobj/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(raw))) {
+    if (objects.size >= MAX_OBJECTS) throw new PdfTextError('PDF has too many objects');
+    const start = match.index + match[0].length;
+    boundary.lastIndex = start;
+    const next = boundary.exec(raw);
+    if (!next) break;
+    const body = raw.slice(start, next.index);
+    if (next[0] === 'endobj') {
+      objects.set(Number(match[1]), { body });
+      header.lastIndex = boundary.lastIndex;
+      continue;
+    }
+
+    const dataStart = next.index + next[0].length;
+    const declared = Number(body.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/)?.[1]);
+    const dataEnd = Number.isFinite(declared) && /^\s*endstream/.test(raw.slice(dataStart + declared, dataStart + declared + 12))
+      ? dataStart + declared
+      : raw.indexOf('endstream', dataStart);
+    if (dataEnd < 0) break;
+    objects.set(Number(match[1]), { body, stream: buffer.subarray(dataStart, dataEnd) });
+    const end = raw.indexOf('endobj', dataEnd);
+    header.lastIndex = end < 0 ? raw.length : end;
+  }
+  return objects;
+}
+
+function decodeStream(object: PdfObject | undefined, budget: DecodeBudget): Buffer | null {
+  if (!object?.stream) return null;
+  const filters = Array.from(object.body.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].matchAll(/\/(\w+)/g) ?? [], (item) => item[1]);
+  if (filters.length > 1 || (filters.length === 1 && filters[0] !== 'FlateDecode')) return null;
+  if (budget.streams >= MAX_STREAM_DECODES) throw new PdfTextError('PDF has too many content streams');
+  budget.streams += 1;
+
+  let data: Buffer;
+  try {
+    data = filters.length === 0 ? object.stream : inflateSync(object.stream, { maxOutputLength: Math.max(1, budget.bytes) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw new PdfTextError('PDF content is too large to read');
+    return null;
+  }
+  if (data.length > budget.bytes) throw new PdfTextError('PDF content is too large to read');
+  budget.bytes -= data.length;
+  return data;
+}
+
+/** Object streams pack plain objects; unpack them into the same map. */
+function expandObjectStreams(objects: Map<number, PdfObject>, budget: DecodeBudget) {
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.body)) continue;
+    const data = decodeStream(object, budget)?.toString('latin1');
+    const first = Number(object.body.match(/\/First\s+(\d+)/)?.[1]);
+    if (!data || !Number.isFinite(first)) continue;
+    const numbers = data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let index = 0; index + 1 < numbers.length; index += 2) {
+      const from = first + numbers[index + 1];
+      const to = index + 3 < numbers.length ? first + numbers[index + 3] : data.length;
+      if (objects.has(numbers[index])) continue;
+      if (objects.size >= MAX_OBJECTS) throw new PdfTextError('PDF has too many objects');
+      objects.set(numbers[index], { body: data.slice(from, to) });
+    }
+  }
+}
+
+function balanced(text: string, open: string, close: string): string {
+  let depth = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    if (text.startsWith(open, index)) {
+      depth += 1;
+      index += open.length - 1;
+    } else if (text.startsWith(close, index)) {
+      depth -= 1;
+      index += close.length - 1;
+      if (depth === 0) return text.slice(0, index + 1);
+    }
+  }
+  return text;
+}
+
+/** Raw value of `/key` in a dictionary: a nested dictionary, array, reference, name or number. */
+function valueOf(dict: string, key: string): string | undefined {
+  const match = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!match) return undefined;
+  const rest = dict.slice(match.index + match[0].length);
+  if (rest.startsWith('<<')) return balanced(rest, '<<', '>>');
+  if (rest.startsWith('[')) return balanced(rest, '[', ']');
+  return rest.match(/^(\d+\s+\d+\s+R|\/[^\s/<>[\]()]+|[-+\d.]+)/)?.[0];
+}
+
+function references(value: string | undefined): number[] {
+  return Array.from(value?.matchAll(/(\d+)\s+\d+\s+R/g) ?? [], (match) => Number(match[1]));
+}
+
+function resolveDict(objects: Map<number, PdfObject>, value: string | undefined): string {
+  if (!value) return '';
+  const reference = value.match(/^(\d+)\s+\d+\s+R$/);
+  return reference ? objects.get(Number(reference[1]))?.body ?? '' : value;
+}
+
+/** Named entries of a dictionary that point at indirect objects, e.g. `/F1 12 0 R`. */
+function namedReferences(dict: string): Map<string, number> {
+  return new Map(Array.from(dict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g), (match) => [match[1], Number(match[2])]));
+}
+
+function utf16(hex: string): string {
+  let text = '';
+  for (let index = 0; index + 3 < hex.length; index += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 4), 16));
+  }
+  return text;
+}
+
+function parseCMap(source: string): FontCMap {
+  const map = new Map<number, string>();
+  const spaces = Array.from(source.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g), (match) => match[1]).join(' ');
+  const codeLength = /<[0-9a-f]{4}>/i.test(spaces) ? 2 : 1;
+
+  for (const block of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      map.set(parseInt(pair[1], 16), utf16(pair[2]));
+    }
+  }
+  for (const block of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const from = parseInt(range[1], 16);
+      const to = Math.min(parseInt(range[2], 16), from + 0xffff);
+      if (range[3].startsWith('[')) {
+        Array.from(range[3].matchAll(/<([0-9a-f]*)>/gi), (item) => item[1]).forEach((target, offset) => map.set(from + offset, utf16(target)));
+      } else {
+        const base = range[3].slice(1, -1);
+        const start = parseInt(base.slice(-4) || '0', 16);
+        for (let code = from; code <= to; code += 1) {
+          map.set(code, utf16(base.slice(0, -4)) + String.fromCharCode(start + code - from));
+        }
+      }
+    }
+  }
+  return { codeLength, map };
+}
+
+function decodeText(bytes: string, cmap: FontCMap | undefined): string {
+  if (!cmap) return bytes;
+  let text = '';
+  for (let index = 0; index < bytes.length; index += cmap.codeLength) {
+    const code = cmap.codeLength === 2
+      ? (bytes.charCodeAt(index) << 8) | (bytes.charCodeAt(index + 1) || 0)
+      : bytes.charCodeAt(index);
+    text += cmap.map.get(code) ?? (cmap.codeLength === 1 ? bytes[index] : '');
+  }
+  return text;
+}
+
+type Operand = number | string | { name: string } | { bytes: string } | Operand[];
+
+function readLiteralString(source: string, start: number): { bytes: string; end: number } {
+  let depth = 1;
+  let bytes = '';
+  let index = start + 1;
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+  while (index < source.length && depth > 0) {
+    const char = source[index];
+    if (char === '\\') {
+      const next = source[index + 1];
+      if (/[0-7]/.test(next)) {
+        const octal = source.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)![0];
+        bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        index += 1 + octal.length;
+        continue;
+      }
+      if (next === '\r' || next === '\n') {
+        index += next === '\r' && source[index + 2] === '\n' ? 3 : 2;
+        continue;
+      }
+      bytes += escapes[next] ?? next;
+      index += 2;
+      continue;
+    }
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    if (depth > 0) bytes += char;
+    index += 1;
+  }
+  return { bytes, end: index };
+}
+
+interface ContentContext {
+  objects: Map<number, PdfObject>;
+  fonts: Map<number, FontCMap | undefined>;
+  runs: TextRun[];
+  length: number;
+  budget: DecodeBudget;
+}
+
+function fontCMaps(context: ContentContext, resources: string): Map<string, FontCMap | undefined> {
+  const fonts = new Map<string, FontCMap | undefined>();
+  for (const [name, reference] of namedReferences(resolveDict(context.objects, valueOf(resources, 'Font')))) {
+    if (!context.fonts.has(reference)) {
+      const toUnicode = references(valueOf(context.objects.get(reference)?.body ?? '', 'ToUnicode'))[0];
+      const data = toUnicode !== undefined ? decodeStream(context.objects.get(toUnicode), context.budget) : null;
+      context.fonts.set(reference, data ? parseCMap(data.toString('latin1')) : undefined);
+    }
+    fonts.set(name, context.fonts.get(reference));
+  }
+  return fonts;
+}
+
+/** Runs the text operators of one content stream, collecting positioned text. */
+function runContent(context: ContentContext, source: string, resources: string, baseCtm: Matrix, depth: number) {
+  const fonts = fontCMaps(context, resources);
+  const xObjects = namedReferences(resolveDict(context.objects, valueOf(resources, 'XObject')));
+  const stateStack: Matrix[] = [];
+  let ctm = baseCtm;
+  let tm: Matrix = IDENTITY;
+  let lm: Matrix = IDENTITY;
+  let font: FontCMap | undefined;
+  let fontSize = 10;
+  let leading = 0;
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+
+  const push = (value: Operand) => {
+    if (arrays.length > 0) arrays[arrays.length - 1].push(value);
+    else operands.push(value);
+  };
+  const num = (value: Operand | undefined) => (typeof value === 'number' ? value : 0);
+  const moveLine = (tx: number, ty: number) => {
+    lm = multiply([1, 0, 0, 1, tx, ty], lm);
+    tm = lm;
+  };
+  const show = (parts: Operand[]) => {
+    let text = '';
+    for (const part of parts) {
+      if (typeof part === 'number') {
+        // Large negative kerning is how many generators write a word space.
+        if (part < -200 && !text.endsWith(' ')) text += ' ';
+      } else if (typeof part === 'object' && 'bytes' in part) {
+        text += decodeText(part.bytes, font);
+      }
+    }
+    if (!text.trim() || context.length > MAX_TEXT_LENGTH) return;
+    const position = multiply(tm, ctm);
+    const size = Math.abs(fontSize * (Math.hypot(position[2], position[3]) || 1));
+    context.runs.push({ x: position[4], y: position[5], size, text });
+    context.length += text.length;
+    tm = multiply([1, 0, 0, 1, text.length * fontSize * 0.5, 0], tm);
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '%') {
+      const end = source.indexOf('\n', index);
+      index = end < 0 ? source.length : end;
+    } else if (char === '(') {
+      const literal = readLiteralString(source, index);
+      push({ bytes: literal.bytes });
+      index = literal.end;
+    } else if (source.startsWith('<<', index)) {
+      index = index + balanced(source.slice(index), '<<', '>>').length;
+    } else if (char === '<') {
+      const end = source.indexOf('>', index);
+      let hex = source.slice(index + 1, end < 0 ? source.length : end).replace(/\s+/g, '');
+      if (hex.length % 2) hex += '0';
+      push({ bytes: hex.replace(/../g, (pair) => String.fromCharCode(parseInt(pair, 16))) });
+      index = end < 0 ? source.length : end + 1;
+    } else if (char === '[') {
+      arrays.push([]);
+      index += 1;
+    } else if (char === ']') {
+      const array = arrays.pop() ?? [];
+      push(array);
+      index += 1;
+    } else if (char === '/') {
+      const name = source.slice(index + 1).match(/^[^\s/<>[\]()%{}]*/)![0];
+      push({ name });
+      index += 1 + name.length;
+    } else if (/[-+.\d]/.test(char)) {
+      const token = source.slice(index).match(/^[-+]?(\d+\.?\d*|\.\d+)/)?.[0] ?? char;
+      push(Number(token) || 0);
+      index += token.length;
+    } else {
+      const operator = source.slice(index).match(/^[^\s/<>[\]()%{}]+/)?.[0] ?? char;
+      index += operator.length;
+      const args = operands;
+      operands = [];
+      switch (operator) {
+        case 'q': stateStack.push(ctm); break;
+        case 'Q': ctm = stateStack.pop() ?? baseCtm; break;
+        case 'cm': ctm = multiply(args.slice(-6).map(num) as Matrix, ctm); break;
+        case 'BT': tm = IDENTITY; lm = IDENTITY; break;
+        case 'Tf': {
+          const name = args[args.length - 2];
+          font = typeof name === 'object' && 'name' in name ? fonts.get(name.name) : undefined;
+          fontSize = num(args[args.length - 1]) || fontSize;
+          break;
+        }
+        case 'TL': leading = num(args[0]); break;
+        case 'Td': moveLine(num(args[0]), num(args[1])); break;
+        case 'TD': leading = -num(args[1]); moveLine(num(args[0]), num(args[1])); break;
+        case 'Tm': lm = args.slice(-6).map(num) as Matrix; tm = lm; break;
+        case 'T*': moveLine(0, -leading); break;
+        case 'Tj': show(args.slice(-1)); break;
+        case 'TJ': show((args[args.length - 1] as Operand[] | undefined) ?? []); break;
+        case '\'': moveLine(0, -leading); show(args.slice(-1)); break;
+        case '"': moveLine(0, -leading); show(args.slice(-1)); break;
+        case 'ID': {
+          // Inline image data is binary; skip to its end marker.
+          const end = source.slice(index).search(/\sEI(?=\s|$)/);
+          index = end < 0 ? source.length : index + end + 3;
+          break;
+        }
+        case 'Do': {
+          const name = args[args.length - 1];
+          const reference = typeof name === 'object' && 'name' in name ? xObjects.get(name.name) : undefined;
+          const form = reference !== undefined ? context.objects.get(reference) : undefined;
+          if (form && depth < MAX_FORM_DEPTH && /\/Subtype\s*\/Form\b/.test(form.body)) {
+            const data = decodeStream(form, context.budget);
+            const matrix = valueOf(form.body, 'Matrix')?.match(/[-+]?(\d+\.?\d*|\.\d+)/g)?.map(Number);
+            const formCtm = matrix?.length === 6 ? multiply(matrix as Matrix, ctm) : ctm;
+            const formResources = resolveDict(context.objects, valueOf(form.body, 'Resources')) || resources;
+            if (data) runContent(context, data.toString('latin1'), formResources, formCtm, depth + 1);
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  }
+}
+
+function collectPages(raw: string, objects: Map<number, PdfObject>): Array<{ body: string; resources: string }> {
+  const pages: Array<{ body: string; resources: string }> = [];
+  const visited = new Set<number>();
+  const walk = (reference: number, inherited: string) => {
+    if (visited.has(reference)) return;
+    visited.add(reference);
+    const body = objects.get(reference)?.body ?? '';
+    const resources = resolveDict(objects, valueOf(body, 'Resources')) || inherited;
+    if (/\/Type\s*\/Pages\b/.test(body)) {
+      for (const kid of references(valueOf(body, 'Kids'))) walk(kid, resources);
+    } else if (/\/Type\s*\/Page\b/.test(body)) {
+      pages.push({ body, resources });
+    }
+  };
+
+  const roots = Array.from(raw.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g), (match) => Number(match[1]));
+  const root = roots.length > 0 ? objects.get(roots[roots.length - 1]) : undefined;
+  const pagesRef = references(valueOf(root?.body ?? '', 'Pages'))[0];
+  if (pagesRef !== undefined) walk(pagesRef, '');
+
+  if (pages.length === 0) {
+    for (const object of objects.values()) {
+      if (/\/Type\s*\/Page\b/.test(object.body)) {
+        pages.push({ body: object.body, resources: resolveDict(objects, valueOf(object.body, 'Resources')) });
+      }
+    }
+  }
+  return pages;
+}
+
+/** Groups runs into lines top to bottom, and each line into cells split at wide gaps. */
+function toLines(page: number, runs: TextRun[]): PdfTextLine[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: TextRun[][] = [];
+  for (const run of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(current[0].y - run.y) <= Math.max(1.5, run.size * 0.35)) current.push(run);
+    else groups.push([run]);
+  }
+
+  return groups.map((group) => {
+    const ordered = group.sort((a, b) => a.x - b.x);
+    const cells: string[] = [];
+    let previous: TextRun | undefined;
+    for (const run of ordered) {
+      const gap = previous ? run.x - (previous.x + previous.text.length * previous.size * 0.5) : Infinity;
+      if (previous && gap < previous.size * 1.2) {
+        const joiner = gap > previous.size * 0.2 && !cells[cells.length - 1].endsWith(' ') && !run.text.startsWith(' ') ? ' ' : '';
+        cells[cells.length - 1] += joiner + run.text;
+      } else {
+        cells.push(run.text);
+      }
+      previous = run;
+    }
+    const trimmed = cells.map((cell) => cell.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    return { page, cells: trimmed, text: trimmed.join(' ') };
+  }).filter((line) => line.cells.length > 0);
+}
+
+/**
+ * Extracts positioned text from a PDF without external tools. It covers the
+ * text-based notices government sites publish: Flate-compressed content
+ * streams, object streams, ToUnicode font maps and form XObjects. Scanned
+ * notices have no text layer and come back empty. Files that are not PDFs,
+ * are encrypted or exceed the decoding limits throw a `PdfTextError`.
+ */
+export function extractPdfText(buffer: Buffer): PdfTextResult {
+  const head = buffer.subarray(0, 1024).toString('latin1');
+  if (!head.includes('%PDF-')) throw new PdfTextError('Not a PDF file');
+  const raw = buffer.toString('latin1');
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(raw)) throw new PdfTextError('Encrypted PDFs are not supported');
+
+  const budget: DecodeBudget = { bytes: MAX_DECODED_BYTES, streams: 0 };
+  const objects = readObjects(raw, buffer);
+  expandObjectStreams(objects, budget);
+  const pages = collectPages(raw, objects);
+  const context: ContentContext = { objects, fonts: new Map(), runs: [], length: 0, budget };
+  const lines: PdfTextLine[] = [];
+
+  pages.forEach((page, index) => {
+    context.runs = [];
+    const contents = valueOf(page.body, 'Contents');
+    // Contents is a stream reference, an array of them, or a reference to such an array.
+    const data = references(contents)
+      .flatMap((reference) => (objects.get(reference)?.stream ? [reference] : references(objects.get(reference)?.body)))
+      .map((reference) => decodeStream(objects.get(reference), budget)?.toString('latin1') ?? '')
+      .join('\n');
+    runContent(context, data, page.resources, IDENTITY, 0);
+    lines.push(...toLines(index + 1, context.runs));
+  });
+
+  return {
+    pageCount: pages.length,
+    lines,
+    text: lines.map((line) => line.text).join('\n'),
+  };
+}
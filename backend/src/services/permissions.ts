@@ -0,0 +1,175 @@
+export const STAFF_ROLES = ['editor', 'reviewer', 'admin', 'superadmin'] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export type PermissionGroup = 'Content' | 'Workflow' | 'Audience' | 'Moderation' | 'Insights' | 'Operations';
+
+export interface PermissionDefinition {
+  key: string;
+  group: PermissionGroup;
+  description: string;
+}
+
+/**
+ * Every permission the API enforces. Role defaults, per-user overrides,
+ * route guards and the generated access matrix all read from this list.
+ */
+export const PERMISSION_DEFINITIONS = [
+  { key: 'posts:write', group: 'Content', description: 'Create and edit editorial posts' },
+  { key: 'posts:submit', group: 'Content', description: 'Submit drafts for review' },
+  { key: 'posts:approve', group: 'Content', description: 'Approve posts waiting in review' },
+  { key: 'posts:publish', group: 'Content', description: 'Publish, unpublish and change post status' },
+  { key: 'posts:archive', group: 'Content', description: 'Archive and restore posts' },
+  { key: 'posts:revert', group: 'Content', description: 'Revert a post to an earlier version' },
+  { key: 'announcements:manage', group: 'Content', description: 'Use the legacy announcement, calendar, import and export tools' },
+  { key: 'taxonomies:manage', group: 'Content', description: 'Create, edit and delete organizations, states, categories and other taxonomies' },
+  { key: 'workflow:manage', group: 'Workflow', description: 'Assign reviewers and approve or reject from the legacy workflow queue' },
+  { key: 'workflow:freshness', group: 'Workflow', description: 'Run the expired-post freshness sweep, check official sources and close source change tasks' },
+  { key: 'subscribers:read', group: 'Audience', description: 'View email, push and alert subscribers' },
+  { key: 'subscribers:manage', group: 'Audience', description: 'Remove subscribers and alert subscriptions' },
+  { key: 'campaigns:read', group: 'Audience', description: 'View campaigns, segments and delivery stats' },
+  { key: 'campaigns:write', group: 'Audience', description: 'Create and schedule campaigns' },
+  { key: 'campaigns:send', group: 'Audience', description: 'Send campaigns, retry failed deliveries and push broadcasts' },
+  { key: 'community:moderate', group: 'Moderation', description: 'Moderate forums, Q&A, groups, flags and comments' },
+  { key: 'reports:manage', group: 'Moderation', description: 'Triage error reports and user feedback' },
+  { key: 'analytics:read', group: 'Insights', description: 'View the admin dashboard, analytics, engagement and SEO metrics' },
+  { key: 'ai:assist', group: 'Insights', description: 'Generate metadata, tags and summaries with the AI assistant' },
+  { key: 'users:read', group: 'Operations', description: 'View user accounts' },
+  { key: 'users:manage', group: 'Operations', description: 'Change roles, status and permission overrides; delete accounts' },
+  { key: 'audit:read', group: 'Operations', description: 'Inspect the audit log' },
+  { key: 'settings:read', group: 'Operations', description: 'View site settings' },
+  { key: 'settings:write', group: 'Operations', description: 'Change site settings and feature flags' },
+  { key: 'system:read', group: 'Operations', description: 'View health, security, backup, performance and rate-limit data' },
+] as const satisfies readonly PermissionDefinition[];
+
+export type Permission = (typeof PERMISSION_DEFINITIONS)[number]['key'];
+
+export const PERMISSIONS: readonly Permission[] = PERMISSION_DEFINITIONS.map((definition) => definition.key);
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  editor: ['posts:write', 'posts:submit'],
+  reviewer: ['posts:write', 'posts:approve'],
+  admin: PERMISSIONS,
+  superadmin: PERMISSIONS,
+};
+
+export type PermissionEffect = 'grant' | 'deny';
+
+export interface PermissionOverride {
+  permission: Permission;
+  effect: PermissionEffect;
+}
+
+export interface AdminConsolePage {
+  route: string;
+  purpose: string;
+  permission?: Permission;
+  notes: string;
+}
+
+/**
+ * Admin console pages and the permission each one needs. Pages without a
+ * permission are open to every staff role. `admin-next` mirrors this list in
+ * its navigation; keep the two in step.
+ */
+export const ADMIN_CONSOLE_PAGES: readonly AdminConsolePage[] = [
+  { route: '/', purpose: 'Admin dashboard / command center', notes: 'Cards backed by admin-only endpoints show as unavailable without `analytics:read`.' },
+  { route: '/announcements', purpose: 'List and manage posts', notes: 'Per-action workflow buttons follow the `posts:*` permissions.' },
+  { route: '/announcements/new', purpose: 'Create a new post', permission: 'posts:submit', notes: 'Reviewers edit existing posts with `posts:write` but do not start new drafts.' },
+  { route: '/announcements/[id]', purpose: 'View/edit a post and workflow actions', notes: 'Mutations are enforced per action by the backend.' },
+  { route: '/imports', purpose: 'Bulk import posts from CSV, XLSX or JSON as drafts', permission: 'posts:write', notes: 'Dry runs validate without writing; imported drafts still go through review.' },
+  { route: '/workflow', purpose: 'Editorial review queues, approval, freshness sweeps', permission: 'posts:approve', notes: 'Freshness sweeps, source checks and closing source change tasks additionally need `workflow:freshness`.' },
+  { route: '/calendar', purpose: 'Editorial calendar and deadlines', notes: 'Read-oriented editorial planning page.' },
+  { route: '/data-quality', purpose: 'Editorial data quality queues and issue sweeps', notes: 'Read/workflow-oriented editorial quality page.' },
+  { route: '/taxonomies', purpose: 'Taxonomy management', permission: 'taxonomies:manage', notes: 'Taxonomy writes are enforced by the same permission.' },
+  { route: '/community', purpose: 'Community moderation', permission: 'community:moderate', notes: 'Grant to reviewers individually when they moderate.' },
+  { route: '/engagement', purpose: 'Engagement metrics and moderation signals', permission: 'analytics:read', notes: 'Treated as sensitive audience/operations data.' },
+  { route: '/error-reports', purpose: 'User error reports and report resolution', permission: 'reports:manage', notes: 'Sensitive user report data.' },
+  { route: '/analytics', purpose: 'Traffic, search, and funnel analytics', permission: 'analytics:read', notes: 'Sensitive operational analytics.' },
+  { route: '/seo', purpose: 'SEO inventory, issue fixing, metadata tools', permission: 'analytics:read', notes: 'AI metadata tools also need `ai:assist`.' },
+  { route: '/subscribers', purpose: 'Email/push subscriber administration', permission: 'subscribers:read', notes: 'Removing subscribers needs `subscribers:manage`.' },
+  { route: '/notifications', purpose: 'Campaign and notification management', permission: 'campaigns:read', notes: 'Creating needs `campaigns:write`; sending needs `campaigns:send`.' },
+  { route: '/email-templates', purpose: 'Email template editing, preview and test-send', permission: 'campaigns:read', notes: 'Saving and test-sending need `campaigns:write`.' },
+  { route: '/mailbox', purpose: 'Captured outgoing email when EMAIL_TRANSPORT=capture', permission: 'campaigns:read', notes: 'Clearing needs `campaigns:write`.' },
+  { route: '/users', purpose: 'User administration, roles and permission overrides', permission: 'users:read', notes: 'Changes need `users:manage`.' },
+  { route: '/audit-log', purpose: 'Audit activity inspection', permission: 'audit:read', notes: 'Sensitive operational audit data.' },
+  { route: '/system-admin', purpose: 'Health, security, backups, performance', permission: 'system:read', notes: 'Sensitive platform operations surface.' },
+  { route: '/settings', purpose: 'Site settings and feature flags', permission: 'settings:read', notes: 'Saving needs `settings:write`.' },
+];
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isStaffRole(role: string | undefined): role is StaffRole {
+  return STAFF_ROLES.includes(role as StaffRole);
+}
+
+export function roleHasPermission(role: string | undefined, permission: Permission): boolean {
+  return isStaffRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Effective permissions for a role after per-user overrides. Superadmins
+ * always hold everything so an override can never lock the platform out;
+ * non-staff roles never hold anything.
+ */
+export function resolvePermissions(role: string | undefined, overrides: readonly PermissionOverride[] = []): Permission[] {
+  if (!isStaffRole(role)) return [];
+  if (role === 'superadmin') return [...PERMISSIONS];
+
+  const granted = new Set<Permission>(ROLE_PERMISSIONS[role]);
+  for (const override of overrides) {
+    if (override.effect === 'grant') granted.add(override.permission);
+    else granted.delete(override.permission);
+  }
+  return PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+function formatRoles(roles: readonly StaffRole[]) {
+  return [...roles].reverse().map((role) => `\`${role}\``).join(', ');
+}
+
+function rolesWithPermission(permission?: Permission) {
+  return formatRoles(permission ? STAFF_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission)) : STAFF_ROLES);
+}
+
+/**
+ * Markdown for `docs/admin-role-access-matrix.md`, written by
+ * `npm run docs:permissions`.
+ */
+export function renderRoleAccessMatrix(): string {
+  const lines = [
+    '# Admin Role Access Matrix',
+    '',
+    '<!-- Generated by `npm run docs:permissions` in backend/ from src/services/permissions.ts. Do not edit by hand. -->',
+    '',
+    'The Admin Console is served with the `admin-next` base path, so app routes such as `/users` are reached in the browser as `/admin/users`.',
+    '',
+    'Access is permission-based. Each staff role (`editor`, `reviewer`, `admin`, `superadmin`) carries a default set of permissions, and administrators with `users:manage` can grant or deny individual permissions per user. Superadmins always hold every permission and cannot be restricted by overrides. `user` accounts and anonymous visitors never reach the console.',
+    '',
+    'The backend enforces these permissions on `/api/admin/*` and `/api/editorial/*`; the console only hides what the backend would refuse.',
+    '',
+    '## Permissions',
+    '',
+    '| Permission | Group | Description | Default roles |',
+    '| --- | --- | --- | --- |',
+    ...PERMISSION_DEFINITIONS.map((definition) => (
+      `| \`${definition.key}\` | ${definition.group} | ${definition.description} | ${rolesWithPermission(definition.key)} |`
+    )),
+    '',
+    '## Console pages',
+    '',
+    '| Route | Purpose | Required permission | Default roles | Notes |',
+    '| --- | --- | --- | --- | --- |',
+    '| `/login` | Admin sign-in and password recovery entry | None | Anonymous | Non-staff accounts are rejected by auth state and backend auth. |',
+    ...ADMIN_CONSOLE_PAGES.map((page) => (
+      `| \`${page.route}\` | ${page.purpose} | ${page.permission ? `\`${page.permission}\`` : 'Staff access'} | ${rolesWithPermission(page.permission)} | ${page.notes} |`
+    )),
+    '',
+    'Staff without the required permission see the shared `AdminGuard` access-denied message instead of an empty render:',
+    '',
+    '> Access denied. Your account does not have access to this admin page.',
+    '',
+  ];
+  return lines.join('\n');
+}
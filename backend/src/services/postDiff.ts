@@ -0,0 +1,218 @@
+import type {
+  PostDiffRowField,
+  PostFieldDiff,
+  PostRecord,
+  PostRowChange,
+} from '../content/types.js';
+
+type PostPatch = Partial<Omit<PostRecord, 'id' | 'createdAt' | 'updatedAt' | 'currentVersion' | 'searchText'>>;
+
+export const POST_DIFF_VALUE_FIELDS = [
+  'title',
+  'slug',
+  'summary',
+  'shortInfo',
+  'body',
+  'organization',
+  'institution',
+  'exam',
+  'examCycle',
+  'categories',
+  'states',
+  'qualifications',
+  'location',
+  'salary',
+  'postCount',
+  'applicationStartDate',
+  'lastDate',
+  'examDate',
+  'resultDate',
+  'expiresAt',
+  'tag',
+  'flags',
+  'home',
+  'seo.metaTitle',
+  'seo.metaDescription',
+  'seo.canonicalPath',
+  'seo.indexable',
+  'seo.ogImage',
+  'trust.verificationNote',
+  'trust.sourceNote',
+  'trust.correctionNote',
+  'trust.updatedLabel',
+] as const;
+
+export const POST_DIFF_ROW_FIELDS = [
+  'importantDates',
+  'eligibility',
+  'feeRules',
+  'vacancyRows',
+  'admissionPrograms',
+  'officialSources',
+] as const satisfies readonly PostDiffRowField[];
+
+export type PostDiffValueField = (typeof POST_DIFF_VALUE_FIELDS)[number];
+
+export interface PostRevertSelection {
+  fields?: PostDiffValueField[];
+  rows?: Partial<Record<PostDiffRowField, number[]>>;
+}
+
+const FIELD_LABELS: Record<PostDiffValueField | PostDiffRowField, string> = {
+  title: 'Title',
+  slug: 'Slug',
+  summary: 'Summary',
+  shortInfo: 'Short info',
+  body: 'Body',
+  organization: 'Organization',
+  institution: 'Institution',
+  exam: 'Exam',
+  examCycle: 'Exam cycle',
+  categories: 'Categories',
+  states: 'States',
+  qualifications: 'Qualifications',
+  location: 'Location',
+  salary: 'Salary',
+  postCount: 'Post count',
+  applicationStartDate: 'Application start date',
+  lastDate: 'Last date',
+  examDate: 'Exam date',
+  resultDate: 'Result date',
+  expiresAt: 'Expires at',
+  tag: 'Urgency tag',
+  flags: 'Flags',
+  home: 'Home placement',
+  'seo.metaTitle': 'Meta title',
+  'seo.metaDescription': 'Meta description',
+  'seo.canonicalPath': 'Canonical path',
+  'seo.indexable': 'Indexable',
+  'seo.ogImage': 'OG image',
+  'trust.verificationNote': 'Verification note',
+  'trust.sourceNote': 'Source note',
+  'trust.correctionNote': 'Correction note',
+  'trust.updatedLabel': 'Updated label',
+  importantDates: 'Important dates',
+  eligibility: 'Eligibility',
+  feeRules: 'Fee rules',
+  vacancyRows: 'Vacancy rows',
+  admissionPrograms: 'Admission programs',
+  officialSources: 'Official sources',
+};
+
+function readField(post: PostRecord, field: PostDiffValueField): unknown {
+  const [group, key] = field.split('.') as [string, string | undefined];
+  const value = (post as unknown as Record<string, unknown>)[group];
+  if (!key) return value;
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/** Snapshots round-trip through JSON, so empty values are all treated as "not set". */
+function normalize(value: unknown): unknown {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .map(([key, entry]) => [key, normalize(entry)] as const)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b)),
+    );
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+function readRows(post: PostRecord, field: PostDiffRowField): unknown[] {
+  const rows = (post as unknown as Record<string, unknown>)[field];
+  return Array.isArray(rows) ? rows : [];
+}
+
+function diffRows(before: unknown[], after: unknown[]): PostRowChange[] {
+  const changes: PostRowChange[] = [];
+  for (let index = 0; index < Math.max(before.length, after.length); index += 1) {
+    if (index >= after.length) {
+      changes.push({ index, change: 'removed', before: before[index] });
+    } else if (index >= before.length) {
+      changes.push({ index, change: 'added', after: after[index] });
+    } else if (!isEqual(before[index], after[index])) {
+      changes.push({ index, change: 'changed', before: before[index], after: after[index] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Field-by-field differences going from `before` to `after`. Rows are compared
+ * by position, so reordering a table shows up as changed rows.
+ */
+export function diffPostSnapshots(before: PostRecord, after: PostRecord): PostFieldDiff[] {
+  const changes: PostFieldDiff[] = [];
+
+  for (const field of POST_DIFF_VALUE_FIELDS) {
+    const from = readField(before, field);
+    const to = readField(after, field);
+    if (!isEqual(from, to)) {
+      changes.push({ kind: 'value', field, label: FIELD_LABELS[field], before: from, after: to });
+    }
+  }
+
+  for (const field of POST_DIFF_ROW_FIELDS) {
+    const rows = diffRows(readRows(before, field), readRows(after, field));
+    if (rows.length > 0) {
+      changes.push({ kind: 'rows', field, label: FIELD_LABELS[field], rows });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Builds an update that copies the selected fields and row positions from
+ * `version` onto `current`. A selected row that only exists in `current` is
+ * removed; one that only exists in `version` is restored at its position.
+ */
+export function buildSelectiveRevert(current: PostRecord, version: PostRecord, selection: PostRevertSelection): PostPatch {
+  const patch: Record<string, unknown> = {};
+  const seo = { ...(current.seo ?? {}) } as Record<string, unknown>;
+  const trust = { ...(current.trust ?? { officialSources: [] }) } as Record<string, unknown>;
+  let touchedSeo = false;
+  let touchedTrust = false;
+
+  for (const field of selection.fields ?? []) {
+    const value = readField(version, field);
+    if (field.startsWith('seo.')) {
+      seo[field.slice(4)] = value;
+      touchedSeo = true;
+    } else if (field.startsWith('trust.')) {
+      // Post updates keep existing trust text when a key is missing, so an
+      // empty string is what clears it.
+      trust[field.slice(6)] = value ?? '';
+      touchedTrust = true;
+    } else {
+      patch[field] = value;
+    }
+  }
+
+  if (touchedSeo) patch.seo = seo;
+  if (touchedTrust) patch.trust = trust;
+
+  for (const [field, indexes] of Object.entries(selection.rows ?? {}) as Array<[PostDiffRowField, number[]]>) {
+    if (!indexes?.length) continue;
+    const versionRows = readRows(version, field);
+    const merged: unknown[] = [...readRows(current, field)];
+    const removed = new Set<number>();
+    for (const index of indexes) {
+      if (index < versionRows.length) {
+        merged[index] = versionRows[index];
+      } else {
+        removed.add(index);
+      }
+    }
+    patch[field] = merged.filter((row, index) => row !== undefined && !removed.has(index));
+  }
+
+  return patch as PostPatch;
+}
@@ -0,0 +1,244 @@
+import { z } from 'zod';
+
+import type { PostRecord } from '../content/types.js';
+import PostDuplicateReviewModelPostgres from '../models/postDuplicateReviews.postgres.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+
+import { parseEligibilityDate } from './eligibilityMatcher.js';
+
+/** Score from which a pair is reported as a likely duplicate. */
+export const DUPLICATE_SCORE_THRESHOLD = 0.6;
+
+const MAX_MATCHES = 5;
+const MAX_TITLE_TERMS = 3;
+
+export const postDuplicateReasons = [
+  'advertisement_number',
+  'official_source',
+  'title',
+  'organization',
+  'exam',
+  'key_dates',
+] as const;
+export type PostDuplicateReason = typeof postDuplicateReasons[number];
+
+export const postDuplicateConfirmSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const postMergeSchema = z.object({
+  duplicateId: z.string().trim().min(1),
+  note: z.string().trim().max(500).optional(),
+});
+
+type FingerprintSubject = Pick<
+  PostRecord,
+  'title' | 'type' | 'summary' | 'shortInfo' | 'body' | 'organization' | 'exam' | 'officialSources' | 'applicationStartDate' | 'lastDate' | 'examDate'
+>;
+
+const KEY_DATE_FIELDS = ['applicationStartDate', 'lastDate', 'examDate'] as const;
+
+/** What two posts are compared on. Built from the post alone, so it is cheap to recompute. */
+export interface PostFingerprint {
+  titleTokens: string[];
+  years: string[];
+  organization?: string;
+  exam?: string;
+  advertisementNumbers: string[];
+  sourceUrls: string[];
+  keyDates: Partial<Record<typeof KEY_DATE_FIELDS[number], string>>;
+}
+
+export interface PostDuplicateMatch {
+  postId: string;
+  title: string;
+  slug: string;
+  type: PostRecord['type'];
+  status: PostRecord['status'];
+  score: number;
+  reasons: PostDuplicateReason[];
+  /** Set once an editor has confirmed the two posts are different notices. */
+  confirmedDistinct?: { by?: string; at: string; note?: string };
+}
+
+// Words every notice title carries; they say nothing about which notice it is.
+const TITLE_STOP_WORDS = new Set([
+  'the', 'for', 'and', 'of', 'in', 'to', 'on', 'at', 'by', 'a', 'an', 'out', 'now',
+  'recruitment', 'notification', 'notice', 'online', 'form', 'apply', 'application', 'vacancy', 'vacancies',
+  'post', 'posts', 'exam', 'examination', 'released', 'latest', 'govt', 'job', 'jobs',
+]);
+
+const ADVERTISEMENT_PATTERN = /\b(?:advt|advertisement|notice|notification|cen)\.?\s*(?:no|number)\.?\s*[:.-]?\s*([a-z0-9][a-z0-9/().-]*[a-z0-9)])/gi;
+
+function tokenizeTitle(title: string): string[] {
+  return Array.from(new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter((token) => token.length > 1 && !TITLE_STOP_WORDS.has(token)),
+  ));
+}
+
+function normalizeAdvertisementNumber(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Host without `www.`, path without trailing slash; query kept, fragment dropped. */
+export function normalizeSourceUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${url.hostname.toLowerCase().replace(/^www\./, '')}${path}${url.search}`;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeKeyDate(value?: string): string | undefined {
+  const parsed = parseEligibilityDate(value);
+  return parsed ? parsed.toISOString().slice(0, 10) : undefined;
+}
+
+export function fingerprintPost(post: FingerprintSubject): PostFingerprint {
+  const text = [post.title, post.summary, post.shortInfo, post.body, ...post.officialSources.map((item) => item.label)]
+    .filter(Boolean)
+    .join('\n');
+  const advertisementNumbers = Array.from(text.matchAll(ADVERTISEMENT_PATTERN))
+    .map((match) => normalizeAdvertisementNumber(match[1]))
+    .filter((value) => /\d/.test(value));
+  const titleTokens = tokenizeTitle(post.title);
+  const keyDates: PostFingerprint['keyDates'] = {};
+  for (const field of KEY_DATE_FIELDS) {
+    const value = normalizeKeyDate(post[field]);
+    if (value) keyDates[field] = value;
+  }
+
+  return {
+    titleTokens,
+    years: titleTokens.filter((token) => /^20\d{2}$/.test(token)),
+    organization: post.organization?.slug || undefined,
+    exam: post.exam?.slug || undefined,
+    advertisementNumbers: Array.from(new Set(advertisementNumbers)),
+    sourceUrls: Array.from(new Set(post.officialSources.map((item) => normalizeSourceUrl(item.url)).filter((item): item is string => Boolean(item)))),
+    keyDates,
+  };
+}
+
+const overlaps = (a: string[], b: string[]) => a.some((item) => b.includes(item));
+
+/**
+ * Scores how likely two posts describe the same notice, between 0 and 1.
+ * Shared identifiers (advertisement number, official source) weigh most; a
+ * different advertisement number or exam year counts against the pair, since
+ * boards reuse titles every cycle.
+ */
+export function scoreDuplicate(a: PostFingerprint, b: PostFingerprint): { score: number; reasons: PostDuplicateReason[] } {
+  let score = 0;
+  const reasons: PostDuplicateReason[] = [];
+
+  if (a.advertisementNumbers.length > 0 && b.advertisementNumbers.length > 0) {
+    if (overlaps(a.advertisementNumbers, b.advertisementNumbers)) {
+      score += 0.5;
+      reasons.push('advertisement_number');
+    } else {
+      score -= 0.3;
+    }
+  }
+  if (overlaps(a.sourceUrls, b.sourceUrls)) {
+    score += 0.45;
+    reasons.push('official_source');
+  }
+
+  const shared = a.titleTokens.filter((token) => b.titleTokens.includes(token)).length;
+  const union = new Set([...a.titleTokens, ...b.titleTokens]).size;
+  const similarity = union > 0 ? shared / union : 0;
+  if (similarity >= 0.5) {
+    score += 0.4 * similarity;
+    reasons.push('title');
+  }
+  if (a.years.length > 0 && b.years.length > 0 && !overlaps(a.years, b.years)) {
+    score -= 0.3;
+  }
+
+  if (a.organization && a.organization === b.organization) {
+    score += 0.1;
+    reasons.push('organization');
+  }
+  if (a.exam && a.exam === b.exam) {
+    score += 0.2;
+    reasons.push('exam');
+  }
+
+  const matchingDates = KEY_DATE_FIELDS.filter((field) => a.keyDates[field] && a.keyDates[field] === b.keyDates[field]).length;
+  if (matchingDates > 0) {
+    score += Math.min(0.3, 0.15 * matchingDates);
+    reasons.push('key_dates');
+  }
+
+  return { score: Math.max(0, Math.min(1, Math.round(score * 100) / 100)), reasons };
+}
+
+/**
+ * Likely duplicates of `post` among other posts of its type that are not
+ * archived, best match first, with any "distinct" verdict editors recorded.
+ */
+export async function findPostDuplicates(post: PostRecord): Promise<PostDuplicateMatch[]> {
+  const fingerprint = fingerprintPost(post);
+  const terms = [...fingerprint.titleTokens]
+    .filter((token) => !/^\d+$/.test(token))
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_TITLE_TERMS);
+  const candidates = await PostModelPostgres.listDuplicateCandidates({
+    excludeId: post.id,
+    type: post.type,
+    organizationSlug: fingerprint.organization,
+    examSlug: fingerprint.exam,
+    sourceUrls: post.officialSources.map((item) => item.url.trim()),
+    terms,
+  });
+
+  const matches = candidates
+    .map((candidate) => ({ candidate, ...scoreDuplicate(fingerprint, fingerprintPost(candidate)) }))
+    .filter((item) => item.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+  if (matches.length === 0) return [];
+
+  const reviews = await PostDuplicateReviewModelPostgres.listForPost(post.id);
+  return matches.map(({ candidate, score, reasons }) => {
+    const review = reviews.find((item) => item.decision === 'distinct' && [item.postId, item.otherPostId].includes(candidate.id));
+    return {
+      postId: candidate.id,
+      title: candidate.title,
+      slug: candidate.slug,
+      type: candidate.type,
+      status: candidate.status,
+      score,
+      reasons,
+      ...(review ? { confirmedDistinct: { by: review.reviewedBy, at: review.updatedAt.toISOString(), note: review.note } } : {}),
+    };
+  });
+}
+
+/** Why `post` cannot be submitted yet, or null when no flagged duplicate is left unresolved. */
+export async function getDuplicateSubmitBlock(post: PostRecord): Promise<string | null> {
+  const open = (await findPostDuplicates(post)).filter((match) => !match.confirmedDistinct);
+  if (open.length === 0) return null;
+  const [first] = open;
+  const more = open.length > 1 ? ` and ${open.length - 1} more` : '';
+  return `Possible duplicate of "${first.title}" (${first.slug})${more}. Confirm the posts are distinct or merge them before submitting.`;
+}
+
+export async function confirmPostDistinct(postId: string, otherPostId: string, reviewedBy?: string, note?: string) {
+  if (postId === otherPostId) throw new Error('A post cannot be compared with itself');
+  return PostDuplicateReviewModelPostgres.record({ postId, otherPostId, decision: 'distinct', reviewedBy, note });
+}
+
+/** Merges `duplicateId` into `keepId` and records the verdict for the pair. */
+export async function mergeDuplicatePost(keepId: string, duplicateId: string, actor: { userId?: string; role?: string }, note?: string) {
+  const result = await PostModelPostgres.mergeDuplicate(keepId, duplicateId, actor.userId, actor.role, note);
+  if (!result) return null;
+  await PostDuplicateReviewModelPostgres.record({ postId: keepId, otherPostId: duplicateId, decision: 'merged', reviewedBy: actor.userId, note });
+  return result;
+}
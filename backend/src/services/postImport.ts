@@ -0,0 +1,590 @@
+import { randomUUID } from 'crypto';
+
+import { z } from 'zod';
+
+import {
+  postEditorSchema,
+  postTypeValues,
+  publicSectionMap,
+  type PostType,
+  type PostWorkflowStatus,
+  type TaxonomyDocument,
+  type TaxonomyRef,
+  type TaxonomyType,
+} from '../content/types.js';
+import ContentTaxonomyModelPostgres from '../models/contentTaxonomies.postgres.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+import { slugify } from '../utils/slugify.js';
+
+import { excelSerialToDate, parseCsv, parseXlsx } from './spreadsheet.js';
+
+export const postImportFormats = ['csv', 'xlsx', 'json'] as const;
+export type PostImportFormat = (typeof postImportFormats)[number];
+
+/** Most rows a single import run will validate or create. */
+export const MAX_IMPORT_ROWS = 500;
+
+type PostImportFieldKind = 'text' | 'date' | 'type' | 'tag' | 'taxonomy' | 'taxonomyList' | 'rows';
+
+export interface PostImportField {
+  key: string;
+  label: string;
+  kind: PostImportFieldKind;
+  required?: boolean;
+  hint?: string;
+}
+
+/** Part order for list fields written as `a | b | c`, one entry per line. */
+const ROW_PARTS: Record<string, string[]> = {
+  importantDates: ['label', 'value', 'kind'],
+  eligibility: ['label', 'description', 'minAge', 'maxAge'],
+  feeRules: ['category', 'amount', 'paymentNote'],
+  vacancyRows: ['postName', 'vacancies', 'category', 'payLevel'],
+  admissionPrograms: ['programName', 'level', 'intake'],
+  officialSources: ['url', 'label', 'sourceType'],
+};
+
+const TAXONOMY_FIELDS: Record<string, TaxonomyType> = {
+  organization: 'organizations',
+  institution: 'institutions',
+  exam: 'exams',
+  categories: 'categories',
+  states: 'states',
+  qualifications: 'qualifications',
+};
+
+function rowsHint(key: string): string {
+  return `One per line (or separated by ;): ${ROW_PARTS[key].join(' | ')}. A JSON array also works.`;
+}
+
+export const POST_IMPORT_FIELDS: PostImportField[] = [
+  { key: 'title', label: 'Title', kind: 'text', required: true },
+  { key: 'slug', label: 'Slug', kind: 'text', hint: 'Defaults to the title.' },
+  { key: 'type', label: 'Post type', kind: 'type', required: true, hint: postTypeValues.join(', ') },
+  { key: 'summary', label: 'Summary', kind: 'text', required: true },
+  { key: 'shortInfo', label: 'Short info', kind: 'text' },
+  { key: 'body', label: 'Body', kind: 'text' },
+  { key: 'organization', label: 'Organization', kind: 'taxonomy' },
+  { key: 'institution', label: 'Institution', kind: 'taxonomy' },
+  { key: 'exam', label: 'Exam', kind: 'taxonomy' },
+  { key: 'categories', label: 'Categories', kind: 'taxonomyList', required: true, hint: 'Separate names with , ; or |' },
+  { key: 'states', label: 'States', kind: 'taxonomyList', hint: 'Separate names with , ; or |' },
+  { key: 'qualifications', label: 'Qualifications', kind: 'taxonomyList', hint: 'Separate names with , ; or |' },
+  { key: 'importantDates', label: 'Important dates', kind: 'rows', hint: rowsHint('importantDates') },
+  { key: 'eligibility', label: 'Eligibility', kind: 'rows', hint: rowsHint('eligibility') },
+  { key: 'feeRules', label: 'Fee rules', kind: 'rows', hint: rowsHint('feeRules') },
+  { key: 'vacancyRows', label: 'Vacancy rows', kind: 'rows', hint: rowsHint('vacancyRows') },
+  { key: 'admissionPrograms', label: 'Admission programs', kind: 'rows', hint: rowsHint('admissionPrograms') },
+  { key: 'officialSources', label: 'Official sources', kind: 'rows', hint: `${rowsHint('officialSources')} The first source is primary.` },
+  { key: 'location', label: 'Location', kind: 'text' },
+  { key: 'salary', label: 'Salary', kind: 'text' },
+  { key: 'postCount', label: 'Post count', kind: 'text' },
+  { key: 'applicationStartDate', label: 'Application start date', kind: 'date' },
+  { key: 'lastDate', label: 'Last date', kind: 'date' },
+  { key: 'examDate', label: 'Exam date', kind: 'date' },
+  { key: 'resultDate', label: 'Result date', kind: 'date' },
+  { key: 'expiresAt', label: 'Expires at', kind: 'date' },
+  { key: 'tag', label: 'Tag', kind: 'tag', hint: 'new, hot, update or last-date' },
+  { key: 'verificationNote', label: 'Verification note', kind: 'text' },
+  { key: 'sourceNote', label: 'Source note', kind: 'text' },
+  { key: 'correctionNote', label: 'Correction note', kind: 'text' },
+  { key: 'seo.metaTitle', label: 'SEO meta title', kind: 'text' },
+  { key: 'seo.metaDescription', label: 'SEO meta description', kind: 'text' },
+];
+
+const FIELDS_BY_KEY = new Map(POST_IMPORT_FIELDS.map((field) => [field.key, field]));
+
+const FIELD_ALIASES: Record<string, string[]> = {
+  title: ['posttitle', 'name', 'headline'],
+  type: ['posttype', 'section'],
+  summary: ['description', 'excerpt'],
+  body: ['content', 'details'],
+  organization: ['organisation', 'org', 'department', 'board', 'recruiter'],
+  institution: ['college', 'university'],
+  exam: ['examname'],
+  categories: ['category'],
+  states: ['state'],
+  qualifications: ['qualification', 'education'],
+  importantDates: ['dates'],
+  feeRules: ['fee', 'fees', 'applicationfee'],
+  vacancyRows: ['vacancy', 'vacancies', 'vacancydetails'],
+  admissionPrograms: ['programs', 'programmes', 'courses'],
+  officialSources: ['source', 'sources', 'officiallink', 'officialwebsite', 'notificationlink', 'url', 'link'],
+  postCount: ['totalposts', 'totalvacancies'],
+  applicationStartDate: ['startdate', 'applystart'],
+  lastDate: ['deadline', 'closingdate'],
+  expiresAt: ['expiry', 'expires'],
+  'seo.metaTitle': ['metatitle'],
+  'seo.metaDescription': ['metadescription'],
+};
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Maps each column to the first unused field whose key, label or alias matches its header. */
+export function suggestPostImportMapping(columns: string[]): Record<string, string> {
+  const lookup = new Map<string, string>();
+  for (const field of POST_IMPORT_FIELDS) {
+    for (const name of [field.key, field.label, ...(FIELD_ALIASES[field.key] ?? [])]) {
+      const normalized = normalizeHeader(name);
+      if (!lookup.has(normalized)) lookup.set(normalized, field.key);
+    }
+  }
+
+  const used = new Set<string>();
+  const mapping: Record<string, string> = {};
+  for (const column of columns) {
+    const field = lookup.get(normalizeHeader(column));
+    if (field && !used.has(field)) {
+      mapping[column] = field;
+      used.add(field);
+    }
+  }
+  return mapping;
+}
+
+interface ImportSheet {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+function readJsonSheet(content: string): ImportSheet {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('JSON file could not be parsed');
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { posts?: unknown } | null)?.posts;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON file must be an array of posts or an object with a "posts" array');
+  }
+
+  const columns: string[] = [];
+  const rows = list.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`JSON entry ${index + 1} is not an object`);
+    }
+    for (const key of Object.keys(item)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+    return item as Record<string, unknown>;
+  });
+  return { columns, rows };
+}
+
+function readSheet(format: PostImportFormat, content: string): ImportSheet {
+  if (format === 'json') return readJsonSheet(content);
+  if (format === 'xlsx') return parseXlsx(Buffer.from(content, 'base64'));
+  return parseCsv(content);
+}
+
+export const postImportSourceSchema = z.object({
+  format: z.enum(postImportFormats),
+  /** Text for CSV and JSON, base64 for XLSX. */
+  content: z.string().min(1).max(8_000_000),
+  fileName: z.string().trim().max(200).optional(),
+});
+
+export const postImportRunSchema = postImportSourceSchema.extend({
+  /** Column header to field key; columns left out or mapped to "" are ignored. */
+  mapping: z.record(z.string()).default({}),
+  defaults: z.object({
+    type: z.enum(postTypeValues).optional(),
+    categories: z.array(z.string().trim().min(1).max(160)).max(10).optional(),
+  }).optional(),
+  dryRun: z.boolean().default(true),
+  skipDuplicates: z.boolean().default(true),
+});
+
+export type PostImportSource = z.infer<typeof postImportSourceSchema>;
+export type PostImportRunInput = z.infer<typeof postImportRunSchema>;
+
+export interface PostImportPreview {
+  columns: string[];
+  rowCount: number;
+  sampleRows: Array<Record<string, unknown>>;
+  suggestedMapping: Record<string, string>;
+  fields: PostImportField[];
+}
+
+/** First step of the import wizard: reads the file and proposes a column mapping. */
+export function previewPostImport(source: PostImportSource): PostImportPreview {
+  const sheet = readSheet(source.format, source.content);
+  if (sheet.columns.length === 0) throw new Error('The file has no header row');
+  return {
+    columns: sheet.columns,
+    rowCount: sheet.rows.length,
+    sampleRows: sheet.rows.slice(0, 5),
+    suggestedMapping: suggestPostImportMapping(sheet.columns),
+    fields: POST_IMPORT_FIELDS,
+  };
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function normalizePostType(value: string): string {
+  const slug = slugify(value);
+  const bySection = (Object.keys(publicSectionMap) as PostType[]).find((type) => publicSectionMap[type] === slug);
+  return bySection ?? slug;
+}
+
+function splitEntries(value: string): string[] {
+  const separator = /\r?\n/.test(value) ? /\r?\n/ : /;/;
+  return value.split(separator).map((entry) => entry.trim()).filter(Boolean);
+}
+
+function toRowEntry(key: string, entry: string): Record<string, string> {
+  const parts = entry.split('|').map((part) => part.trim());
+  const names = ROW_PARTS[key];
+
+  if (key === 'officialSources') {
+    // Sources are often written as a bare URL or "label | url", so find the URL wherever it is.
+    const urlIndex = parts.findIndex((part) => /^https?:\/\//i.test(part));
+    const url = urlIndex >= 0 ? parts.splice(urlIndex, 1)[0] : parts.shift() ?? '';
+    const [label, sourceType] = parts;
+    let fallbackLabel = url;
+    try {
+      fallbackLabel = new URL(url).hostname;
+    } catch {
+      // Invalid URLs are reported by the schema.
+    }
+    return {
+      url,
+      label: label || fallbackLabel,
+      ...(sourceType ? { sourceType: slugify(sourceType) } : {}),
+    };
+  }
+
+  return Object.fromEntries(
+    names.flatMap((name, index) => (parts[index] ? [[name, key === 'importantDates' && name === 'kind' ? parts[index].toLowerCase().replace(/[^a-z]+/g, '_') : parts[index]]] : [])),
+  );
+}
+
+function toFieldValue(field: PostImportField, raw: unknown): unknown {
+  if (isBlank(raw)) return undefined;
+  const text = typeof raw === 'string' ? raw.trim() : typeof raw === 'number' || typeof raw === 'boolean' ? String(raw) : undefined;
+
+  switch (field.kind) {
+    case 'text':
+      return text ?? raw;
+    case 'date':
+      return text !== undefined ? excelSerialToDate(text) ?? text : raw;
+    case 'type':
+      return text !== undefined ? normalizePostType(text) : raw;
+    case 'tag':
+      return text !== undefined ? slugify(text) : raw;
+    case 'taxonomy':
+      return text !== undefined ? { name: text } : raw;
+    case 'taxonomyList': {
+      const names = Array.isArray(raw) ? raw : (text ?? '').split(/[,;|\n]/);
+      return names
+        .map((name) => (typeof name === 'string' ? name.trim() : name))
+        .filter((name) => !isBlank(name))
+        .map((name) => (typeof name === 'string' ? { name } : name));
+    }
+    case 'rows': {
+      if (Array.isArray(raw)) return raw;
+      if (text === undefined) return raw;
+      if (text.startsWith('[')) {
+        try {
+          return JSON.parse(text);
+        } catch {
+          // Fall through to the line format.
+        }
+      }
+      return splitEntries(text).map((entry) => toRowEntry(field.key, entry));
+    }
+  }
+}
+
+function setField(target: Record<string, unknown>, key: string, value: unknown) {
+  const [head, tail] = key.split('.');
+  if (tail) {
+    const nested = (target[head] as Record<string, unknown> | undefined) ?? {};
+    if (nested[tail] === undefined) nested[tail] = value;
+    target[head] = nested;
+    return;
+  }
+  // Several columns can feed one list field, e.g. "Source 1" and "Source 2".
+  if (Array.isArray(target[key]) && Array.isArray(value)) {
+    target[key] = [...(target[key] as unknown[]), ...value];
+  } else if (target[key] === undefined) {
+    target[key] = value;
+  }
+}
+
+function buildCandidate(row: Record<string, unknown>, mapping: Record<string, string>, defaults: PostImportRunInput['defaults']) {
+  const candidate: Record<string, unknown> = {};
+  for (const [column, key] of Object.entries(mapping)) {
+    const field = FIELDS_BY_KEY.get(key);
+    if (!field) continue;
+    const value = toFieldValue(field, row[column]);
+    if (value !== undefined) setField(candidate, key, value);
+  }
+
+  if (candidate.type === undefined && defaults?.type) candidate.type = defaults.type;
+  if ((!Array.isArray(candidate.categories) || candidate.categories.length === 0) && defaults?.categories?.length) {
+    candidate.categories = defaults.categories.map((name) => ({ name }));
+  }
+  const sources = candidate.officialSources;
+  if (Array.isArray(sources) && sources.length > 0 && !sources.some((source) => source?.isPrimary)) {
+    sources[0] = { ...sources[0], isPrimary: true };
+  }
+  return candidate;
+}
+
+type TaxonomyRefInput = { id?: string; name: string; slug?: string };
+type PostCreateInput = Parameters<typeof PostModelPostgres.create>[0];
+
+/** Matches names from the file against existing taxonomy entries by slug, name or short name. */
+function createTaxonomyResolver() {
+  const indexes = new Map<TaxonomyType, Promise<Map<string, TaxonomyDocument>>>();
+
+  const load = (type: TaxonomyType) => {
+    let index = indexes.get(type);
+    if (!index) {
+      index = ContentTaxonomyModelPostgres.list(type, 2000).then((items) => {
+        const map = new Map<string, TaxonomyDocument>();
+        for (const item of items) {
+          for (const key of [item.slug, slugify(item.name), item.shortName ? slugify(item.shortName) : '']) {
+            if (key && !map.has(key)) map.set(key, item);
+          }
+        }
+        return map;
+      });
+      indexes.set(type, index);
+    }
+    return index;
+  };
+
+  return async (type: TaxonomyType, ref: TaxonomyRefInput): Promise<{ ref: TaxonomyRefInput; matched: boolean }> => {
+    const index = await load(type);
+    const existing = index.get(slugify(ref.slug || ref.name));
+    if (!existing) return { ref, matched: false };
+    return { ref: { name: existing.name, slug: existing.slug }, matched: true };
+  };
+}
+
+const TAXONOMY_LABELS: Record<TaxonomyType, string> = {
+  organizations: 'organization',
+  institutions: 'institution',
+  exams: 'exam',
+  categories: 'category',
+  states: 'state',
+  qualifications: 'qualification',
+};
+
+export type PostImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created' | 'skipped' | 'failed';
+
+export interface PostImportDuplicate {
+  source: 'existing' | 'file';
+  /** Existing post id, for `existing` hits. */
+  postId?: string;
+  /** Earlier data row, for `file` hits. */
+  row?: number;
+  title: string;
+  status?: PostWorkflowStatus;
+}
+
+export interface PostImportRowReport {
+  /** 1-based data row, not counting the header. */
+  row: number;
+  title?: string;
+  slug?: string;
+  type?: string;
+  status: PostImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  duplicates: PostImportDuplicate[];
+  postId?: string;
+}
+
+export interface PostImportReport {
+  batchId: string;
+  dryRun: boolean;
+  totalRows: number;
+  summary: Record<PostImportRowStatus, number>;
+  rows: PostImportRowReport[];
+}
+
+type PostEditorData = z.infer<typeof postEditorSchema>;
+
+type TaxonomyRefData = PostEditorData['categories'][number];
+
+const toTaxonomyRef = (ref: TaxonomyRefData): TaxonomyRef => ({ id: ref.id, name: ref.name, slug: ref.slug });
+
+const toTaxonomyRefs = (refs: TaxonomyRefData[] = []) => refs.map(toTaxonomyRef);
+
+const toOfficialSources = (sources: PostEditorData['officialSources'] = []) =>
+  sources.map((source) => ({ ...source, label: source.label, url: source.url }));
+
+/**
+ * Shapes a validated editor row as a draft for `PostModelPostgres.create`. The
+ * schema has already enforced the required fields; nested rows are rebuilt
+ * field by field so their types line up with the post records.
+ */
+function toPostInput(data: PostEditorData): PostCreateInput {
+  const officialSources = toOfficialSources(data.officialSources);
+  return {
+    ...data,
+    title: data.title,
+    slug: data.slug,
+    type: data.type,
+    status: 'draft',
+    summary: data.summary,
+    legacySlugs: data.legacySlugs ?? [],
+    flags: data.flags ?? {},
+    home: data.home ?? {},
+    seo: data.seo ?? {},
+    officialSources,
+    organization: data.organization ? toTaxonomyRef(data.organization) : null,
+    institution: data.institution ? toTaxonomyRef(data.institution) : null,
+    exam: data.exam ? toTaxonomyRef(data.exam) : null,
+    examCycle: data.examCycle ? toTaxonomyRef(data.examCycle) : null,
+    categories: toTaxonomyRefs(data.categories),
+    states: toTaxonomyRefs(data.states),
+    qualifications: toTaxonomyRefs(data.qualifications),
+    importantDates: (data.importantDates ?? []).map((date) => ({ ...date, label: date.label, value: date.value })),
+    eligibility: (data.eligibility ?? []).map((rule) => ({
+      ...rule,
+      label: rule.label,
+      description: rule.description,
+      ageRelaxations: rule.ageRelaxations?.map((relaxation) => ({
+        ...relaxation,
+        category: relaxation.category,
+        years: relaxation.years,
+        appliesFrom: relaxation.appliesFrom,
+      })),
+    })),
+    feeRules: (data.feeRules ?? []).map((rule) => ({ ...rule, category: rule.category, amount: rule.amount })),
+    vacancyRows: (data.vacancyRows ?? []).map((row) => ({ ...row, postName: row.postName, vacancies: row.vacancies })),
+    admissionPrograms: (data.admissionPrograms ?? []).map((program) => ({ ...program, programName: program.programName })),
+    contentJson: data.contentJson ?? null,
+    translations: data.translations as PostCreateInput['translations'],
+    trust: {
+      verificationNote: data.verificationNote,
+      sourceNote: data.sourceNote,
+      correctionNote: data.correctionNote,
+      officialSources,
+    },
+  };
+}
+
+/**
+ * Validates every row against the post editor schema, resolves taxonomy names
+ * and flags duplicates by slug. Unless `dryRun` is set, valid rows become
+ * drafts through the post model, which records their versions and audit
+ * entries under a shared batch note.
+ */
+export async function runPostImport(
+  input: PostImportRunInput,
+  actor: { userId?: string; role?: string } = {},
+): Promise<PostImportReport> {
+  const sheet = readSheet(input.format, input.content);
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} rows at a time (file has ${sheet.rows.length})`);
+  }
+  const mapping = input.mapping ?? {};
+  const unknownFields = Object.values(mapping).filter((key) => key && !FIELDS_BY_KEY.has(key));
+  if (unknownFields.length > 0) {
+    throw new Error(`Unknown import field: ${unknownFields.join(', ')}`);
+  }
+
+  const dryRun = input.dryRun ?? true;
+  const skipDuplicates = input.skipDuplicates ?? true;
+  const batchId = randomUUID();
+  const resolveTaxonomy = createTaxonomyResolver();
+
+  const prepared = await Promise.all(sheet.rows.map(async (row, index) => {
+    const report: PostImportRowReport = { row: index + 1, status: 'valid', errors: [], warnings: [], duplicates: [] };
+    const candidate = buildCandidate(row, mapping, input.defaults);
+    report.title = typeof candidate.title === 'string' ? candidate.title : undefined;
+    report.type = typeof candidate.type === 'string' ? candidate.type : undefined;
+
+    const parse = postEditorSchema.safeParse(candidate);
+    if (!parse.success) {
+      report.errors = parse.error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`);
+      return { report, data: null };
+    }
+
+    const data = parse.data;
+    for (const [key, type] of Object.entries(TAXONOMY_FIELDS) as Array<[keyof typeof data, TaxonomyType]>) {
+      const value = data[key] as TaxonomyRefInput | TaxonomyRefInput[] | null | undefined;
+      if (!value) continue;
+      const refs = Array.isArray(value) ? value : [value];
+      const resolved = await Promise.all(refs.map((ref) => resolveTaxonomy(type, ref)));
+      for (const { ref, matched } of resolved) {
+        if (!matched) report.warnings.push(`New ${TAXONOMY_LABELS[type]} "${ref.name}" will be created`);
+      }
+      (data as Record<string, unknown>)[key] = Array.isArray(value)
+        ? resolved.map((item) => item.ref)
+        : resolved[0].ref;
+    }
+
+    report.slug = slugify(data.slug || data.title);
+    return { report, data };
+  }));
+
+  const existing = await PostModelPostgres.findBySlugs(
+    Array.from(new Set(prepared.flatMap(({ report }) => (report.slug ? [report.slug] : [])))),
+  );
+  const firstRowBySlug = new Map<string, PostImportRowReport>();
+  for (const { report } of prepared) {
+    if (!report.slug) continue;
+    for (const post of existing) {
+      if (post.slug === report.slug || post.legacySlugs.includes(report.slug)) {
+        report.duplicates.push({ source: 'existing', postId: post.id, title: post.title, status: post.status });
+      }
+    }
+    const earlier = firstRowBySlug.get(report.slug);
+    if (earlier) {
+      report.duplicates.push({ source: 'file', row: earlier.row, title: earlier.title ?? '' });
+    } else {
+      firstRowBySlug.set(report.slug, report);
+    }
+  }
+
+  const note = `Bulk import ${batchId}${input.fileName ? ` (${input.fileName})` : ''}`.slice(0, 280);
+  for (const { report, data } of prepared) {
+    if (!data) {
+      report.status = 'invalid';
+      continue;
+    }
+    if (report.duplicates.length > 0 && (dryRun || skipDuplicates)) {
+      report.status = dryRun ? 'duplicate' : 'skipped';
+      continue;
+    }
+    if (dryRun) continue;
+
+    try {
+      const post = await PostModelPostgres.create(
+        toPostInput(data),
+        actor.userId,
+        actor.role,
+        note,
+      );
+      report.status = 'created';
+      report.postId = post?.id;
+    } catch (error) {
+      report.status = 'failed';
+      report.errors.push(error instanceof Error ? error.message : 'Failed to create post');
+    }
+  }
+
+  const summary: Record<PostImportRowStatus, number> = { valid: 0, invalid: 0, duplicate: 0, created: 0, skipped: 0, failed: 0 };
+  for (const { report } of prepared) summary[report.status] += 1;
+
+  return {
+    batchId,
+    dryRun,
+    totalRows: sheet.rows.length,
+    summary,
+    rows: prepared.map(({ report }) => report),
+  };
+}
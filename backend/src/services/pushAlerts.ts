@@ -0,0 +1,150 @@
+import webpush from 'web-push';
+
+import { config } from '../config.js';
+import { publicSectionMap, type PostRecord } from '../content/types.js';
+import PushSubscriptionModelPostgres, { type PushSubscriptionRecord } from '../models/pushSubscriptions.postgres.js';
+
+import { configureWebPush, mapWithConcurrency } from './campaignChannels.js';
+import { prismaApp } from './postgres/prisma.js';
+
+export interface PushAlertDispatchResult {
+    status: 'sent' | 'skipped' | 'duplicate';
+    recipients: number;
+    sent: number;
+    failed: number;
+}
+
+/** Action buttons the service worker renders and handles on click. */
+export interface PushAlertAction {
+    action: 'apply' | 'save';
+    title: string;
+}
+
+const PUSH_CONCURRENCY = 10;
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+const TYPE_LABELS: Record<PostRecord['type'], string> = {
+    job: 'New job',
+    result: 'Result out',
+    'admit-card': 'Admit card out',
+    admission: 'Admission open',
+    'answer-key': 'Answer key out',
+    syllabus: 'Syllabus update',
+};
+
+const skipped = (status: PushAlertDispatchResult['status'] = 'skipped'): PushAlertDispatchResult =>
+    ({ status, recipients: 0, sent: 0, failed: 0 });
+
+function resolveApplyUrl(post: PostRecord): string | undefined {
+    if (!['job', 'admission'].includes(post.type)) return undefined;
+    const source = post.officialSources.find((item) => item.isPrimary) ?? post.officialSources[0];
+    return source?.url;
+}
+
+/** Notification JSON for a newly published post, read by `public/sw.js`. */
+export function buildPostPushPayload(post: PostRecord) {
+    const path = `/${publicSectionMap[post.type]}/${post.slug}`;
+    const url = new URL(path, config.frontendUrl);
+    url.searchParams.set('source', 'push');
+    url.searchParams.set('medium', 'push');
+    url.searchParams.set('campaign', 'instant_alert');
+
+    const applyUrl = resolveApplyUrl(post);
+    const actions: PushAlertAction[] = [
+        ...(applyUrl ? [{ action: 'apply' as const, title: 'Apply now' }] : []),
+        { action: 'save', title: 'Save' },
+    ];
+    const details = [post.organization?.name, post.lastDate ? `Last date: ${post.lastDate}` : undefined].filter(Boolean);
+
+    return {
+        title: `${TYPE_LABELS[post.type]}: ${post.title}`,
+        body: details.join(' · ') || post.summary.slice(0, 140),
+        url: url.toString(),
+        tag: `post:${post.id}`,
+        postId: post.id,
+        applyUrl,
+        actions,
+    };
+}
+
+async function reservePostPush(postId: string): Promise<boolean> {
+    try {
+        await prismaApp.pushAlertLog.create({ data: { postId } });
+        return true;
+    } catch (error) {
+        if (isUniqueConstraintError(error)) return false;
+        throw error;
+    }
+}
+
+async function sendOne(subscription: PushSubscriptionRecord, payload: string): Promise<boolean> {
+    try {
+        await webpush.sendNotification(
+            { endpoint: subscription.endpoint, keys: subscription.keys },
+            payload,
+            { TTL: PUSH_TTL_SECONDS },
+        );
+        return true;
+    } catch (error) {
+        const statusCode = (error as { statusCode?: unknown }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+            await PushSubscriptionModelPostgres.deleteByEndpoint(subscription.endpoint).catch(() => undefined);
+        }
+        return false;
+    }
+}
+
+/**
+ * Push a newly published post to subscribers whose topics match it. Each
+ * post is pushed at most once, so unpublishing and publishing again is quiet.
+ */
+export async function dispatchPostPushAlerts(post: PostRecord): Promise<PushAlertDispatchResult> {
+    if (post.status !== 'published' || !configureWebPush()) {
+        return skipped();
+    }
+    if (!(await reservePostPush(post.id))) {
+        return skipped('duplicate');
+    }
+
+    const subscriptions = await PushSubscriptionModelPostgres.listForInstantAlert({
+        type: post.type,
+        stateSlugs: post.states.map((item) => item.slug).filter(Boolean),
+        categorySlugs: post.categories.map((item) => item.slug).filter(Boolean),
+    });
+    const payload = JSON.stringify(buildPostPushPayload(post));
+    const results = await mapWithConcurrency(subscriptions, PUSH_CONCURRENCY, (subscription) => sendOne(subscription, payload));
+    const sent = results.filter(Boolean).length;
+    const result: PushAlertDispatchResult = {
+        status: 'sent',
+        recipients: subscriptions.length,
+        sent,
+        failed: subscriptions.length - sent,
+    };
+
+    await prismaApp.pushAlertLog.update({
+        where: { postId: post.id },
+        data: { recipients: result.recipients, sent: result.sent, failed: result.failed },
+    }).catch((error: unknown) => console.error('[PushAlerts] Failed to record dispatch:', error));
+
+    return result;
+}
+
+/** Fire-and-forget wrapper for publish paths; failures are logged, never thrown. */
+export function queuePostPushAlerts(posts: PostRecord[]): void {
+    for (const post of posts) {
+        dispatchPostPushAlerts(post)
+            .then((result) => {
+                if (result.status === 'sent') {
+                    console.log(`[PushAlerts] post=${post.id} recipients=${result.recipients} sent=${result.sent} failed=${result.failed}`);
+                }
+            })
+            .catch((error) => console.error(`[PushAlerts] Failed to push post ${post.id}:`, error));
+    }
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+    return typeof error === 'object'
+        && error !== null
+        && 'code' in error
+        && error.code === 'P2002';
+}
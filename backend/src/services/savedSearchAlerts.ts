@@ -8,6 +8,7 @@ import { UserModelPostgres } from '../models/users.postgres.js';
 import type { ContentType } from '../types.js';
 
 import { sendDigestEmail } from './email.js';
+import { getSuppressedEmails } from './emailSuppression.js';
 
 interface AnnouncementItem {
     id: string;
@@ -200,10 +201,13 @@ async function loadUserEmails(userIds: string[]): Promise<Map<string, string>> {
 
 async function loadSubscriptionTokens(emails: string[]): Promise<Map<string, string>> {
     const subscriptions = await AlertSubscriptionModelPostgres.listByEmails(emails);
-    return new Map(subscriptions.map((item) => [
-        normalizeEmail(item.email),
-        item.unsubscribeToken,
-    ]));
+    const suppressed = await getSuppressedEmails(emails);
+    return new Map(subscriptions
+        .filter((item) => !suppressed.has(normalizeEmail(item.email)))
+        .map((item) => [
+            normalizeEmail(item.email),
+            item.unsubscribeToken,
+        ]));
 }
 
 async function upsertNotifications(userId: string, searchId: string, items: AnnouncementItem[]): Promise<number> {
@@ -0,0 +1,122 @@
+import type { PostRecord } from '../content/types.js';
+import AuditLogModelPostgres from '../models/auditLogs.postgres.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+
+import { invalidateAnnouncementCaches } from './cacheInvalidation.js';
+import { queueExamCycleAlerts } from './examCycleAlerts.js';
+import { triggerFrontendRevalidation } from './frontendRevalidation.js';
+import { queuePostPushAlerts } from './pushAlerts.js';
+import { queueSearchVocabularyRefresh } from './searchSuggest.js';
+
+export interface ScheduledPublishingRunResult {
+    published: number;
+    unpublished: number;
+    failed: number;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const CLAIM_BATCH_SIZE = 50;
+
+const intervalMs = Math.min(
+    15 * 60 * 1000,
+    Math.max(15_000, Number(process.env.SCHEDULED_PUBLISHING_INTERVAL_MS ?? DEFAULT_INTERVAL_MS) || DEFAULT_INTERVAL_MS),
+);
+
+let schedulerInterval: NodeJS.Timeout | null = null;
+let runInFlight = false;
+
+async function runScheduledTransition(
+    kind: 'publish' | 'unpublish',
+    claim: { id: string; scheduledAt: Date },
+): Promise<PostRecord | null> {
+    const scheduledFor = claim.scheduledAt.toISOString();
+    try {
+        const post = await PostModelPostgres.transition(
+            claim.id,
+            kind,
+            'system',
+            'system',
+            `Scheduled ${kind} (set for ${scheduledFor})`,
+        );
+        if (post) {
+            await triggerFrontendRevalidation(post).catch((error) => {
+                console.warn(`[ScheduledPublishing] Revalidation failed for ${claim.id}:`, error);
+            });
+        }
+        return post;
+    } catch (error) {
+        // The slot is already cleared, so a failed transition is not retried;
+        // record why so editors can see it in the post history.
+        const message = error instanceof Error ? error.message : `Scheduled ${kind} failed`;
+        console.warn(`[ScheduledPublishing] Failed to ${kind} ${claim.id}: ${message}`);
+        await AuditLogModelPostgres.create({
+            entityType: 'workflow',
+            entityId: claim.id,
+            action: `scheduled_${kind}_failed`,
+            actorId: 'system',
+            actorRole: 'system',
+            summary: `Scheduled ${kind} failed: ${message}`,
+            metadata: { scheduledFor, error: message },
+        }).catch(console.error);
+        return null;
+    }
+}
+
+export async function processScheduledTransitionsOnce(now: Date = new Date()): Promise<ScheduledPublishingRunResult> {
+    const result: ScheduledPublishingRunResult = { published: 0, unpublished: 0, failed: 0 };
+
+    // Publishes run first so a post scheduled to go up and come down within
+    // the same tick still ends unpublished.
+    for (const kind of ['publish', 'unpublish'] as const) {
+        const claims = await PostModelPostgres.claimDueSchedules(kind, now, CLAIM_BATCH_SIZE);
+        for (const claim of claims) {
+            const post = await runScheduledTransition(kind, claim);
+            if (!post) {
+                result.failed += 1;
+            } else if (kind === 'publish') {
+                result.published += 1;
+                queuePostPushAlerts([post]);
+                queueExamCycleAlerts([post]);
+            } else {
+                result.unpublished += 1;
+            }
+        }
+    }
+
+    if (result.published > 0 || result.unpublished > 0) {
+        await invalidateAnnouncementCaches().catch(console.error);
+        queueSearchVocabularyRefresh();
+    }
+    return result;
+}
+
+async function runScheduledPublishingCycle(): Promise<void> {
+    if (runInFlight) return;
+    runInFlight = true;
+    try {
+        const result = await processScheduledTransitionsOnce();
+        if (result.published > 0 || result.unpublished > 0 || result.failed > 0) {
+            console.log(
+                `[ScheduledPublishing] published=${result.published} unpublished=${result.unpublished} failed=${result.failed}`
+            );
+        }
+    } catch (error) {
+        console.error('[ScheduledPublishing] cycle failed:', error);
+    } finally {
+        runInFlight = false;
+    }
+}
+
+export function scheduleScheduledPublishing(): void {
+    if (schedulerInterval) return;
+    void runScheduledPublishingCycle();
+    schedulerInterval = setInterval(() => {
+        void runScheduledPublishingCycle();
+    }, intervalMs);
+}
+
+export function stopScheduledPublishing(): void {
+    if (!schedulerInterval) return;
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+}
@@ -1,4 +1,10 @@
-import type { PostType } from '../content/types.js';
+import { Prisma } from '@prisma/client';
+
+import { config } from '../config.js';
+import type { PostType, SearchMatchField, SearchHighlight } from '../content/types.js';
+import { escapeHtml } from '../utils/html.js';
+
+import { prisma } from './postgres/prisma.js';
 
 export interface ContentSearchQuery {
   search?: string;
@@ -9,34 +15,361 @@ export interface ContentSearchQuery {
   qualification?: string;
 }
 
+export interface ContentSearchHit {
+  id: string;
+  score: number;
+  matchedFields: SearchMatchField[];
+  highlights: SearchHighlight[];
+}
+
+/**
+ * Visibility and taxonomy filters applied inside the ranked query, mirroring
+ * the public list filters. Taxonomy values are slugs.
+ */
+export interface RankedSearchFilters {
+  type?: PostType;
+  category?: string;
+  state?: string;
+  organization?: string;
+  qualification?: string;
+  status?: 'active' | 'expired' | 'archived' | 'all';
+}
+
+export interface RankedSearchOptions {
+  filters?: RankedSearchFilters;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RankedSearchResult {
+  hits: ContentSearchHit[];
+  total: number;
+}
+
 export interface ContentSearchAdapter {
   name: string;
   supportsAdvancedRanking: boolean;
   normalize(query: ContentSearchQuery): ContentSearchQuery;
+  rank?(search: string, options?: RankedSearchOptions): Promise<RankedSearchResult>;
 }
 
+export type ContentSearchAdapterName = 'postgres-tokenized' | 'postgres-ranked';
+
+const RANKED_SEARCH_MAX_TERMS = 8;
+const RANKED_SEARCH_MAX_LIMIT = 200;
+// ts_headline wraps matches in private-use sentinels; the text is HTML-escaped
+// before they are swapped for <mark> tags.
+const HIGHLIGHT_START_SENTINEL = '\uE000';
+const HIGHLIGHT_STOP_SENTINEL = '\uE001';
+
+// ts_rank weight order is {D, C, B, A}: searchText, summary, organization/exam, title.
+const RANKED_FIELD_WEIGHTS = '{0.1, 0.3, 0.6, 1.0}';
+
+// Hindi and Hinglish spellings users commonly type, mapped to the English terms
+// editors use in titles and taxonomy names. Multi-word keys are matched as phrases.
+const SEARCH_TRANSLITERATION_ALIASES: Record<string, string[]> = {
+  'sarkari naukri': ['government job', 'recruitment'],
+  'sarkari result': ['result'],
+  'admit card': ['hall ticket'],
+  'uttar pradesh': ['up'],
+  'madhya pradesh': ['mp'],
+  sarkari: ['government', 'govt'],
+  sarkar: ['government'],
+  govt: ['government'],
+  naukri: ['job', 'recruitment', 'vacancy'],
+  naukari: ['job', 'recruitment', 'vacancy'],
+  rojgar: ['employment', 'job'],
+  bharti: ['recruitment', 'vacancy'],
+  bharati: ['recruitment', 'vacancy'],
+  bhartiya: ['indian'],
+  rly: ['railway'],
+  rail: ['railway'],
+  rrb: ['railway'],
+  pariksha: ['exam'],
+  parinam: ['result'],
+  pravesh: ['admission', 'admit'],
+  shikshak: ['teacher'],
+  adhyapak: ['teacher'],
+  sipahi: ['constable'],
+  pulis: ['police'],
+  kendriya: ['central'],
+  rajya: ['state'],
+  vidyalaya: ['school'],
+  yojana: ['scheme'],
+  'सरकारी नौकरी': ['government job', 'recruitment'],
+  'प्रवेश पत्र': ['admit card'],
+  'उत्तर कुंजी': ['answer key'],
+  सरकारी: ['sarkari', 'government'],
+  नौकरी: ['naukri', 'job'],
+  भर्ती: ['bharti', 'recruitment'],
+  रिजल्ट: ['result'],
+  परिणाम: ['result'],
+  परीक्षा: ['exam'],
+  रेलवे: ['railway'],
+  पुलिस: ['police'],
+  शिक्षक: ['teacher'],
+  सिपाही: ['constable'],
+  पाठ्यक्रम: ['syllabus'],
+};
+
+const MAX_ALIAS_PHRASE_WORDS = 2;
+
 function normalizeSegment(value?: string) {
   return value?.trim().replace(/\s+/g, ' ');
 }
 
+function tokenizeSearch(value?: string): string[] {
+  return (value || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+
+/** Exact lexemes for a phrase; `prefixLastWord` lets the final word still be mid-typing. */
+function toTsTerm(phrase: string, prefixLastWord: boolean): string {
+  const words = tokenizeSearch(phrase);
+  if (words.length === 0) return '';
+  const terms = words.map((word, index) => (prefixLastWord && index === words.length - 1 ? `${word}:*` : word));
+  return terms.length === 1 ? terms[0] : `(${terms.join(' & ')})`;
+}
+
+/**
+ * Expand a raw search string into groups of alternatives, one group per
+ * searched word or alias phrase. Each group matches when any alternative does.
+ */
+export function expandSearchAliases(search?: string): string[][] {
+  const tokens = tokenizeSearch(search).slice(0, RANKED_SEARCH_MAX_TERMS);
+  const groups: string[][] = [];
+
+  for (let index = 0; index < tokens.length;) {
+    let consumed = 1;
+    let phrase = tokens[index];
+
+    for (let size = Math.min(MAX_ALIAS_PHRASE_WORDS, tokens.length - index); size > 1; size -= 1) {
+      const candidate = tokens.slice(index, index + size).join(' ');
+      if (SEARCH_TRANSLITERATION_ALIASES[candidate]) {
+        phrase = candidate;
+        consumed = size;
+        break;
+      }
+    }
+
+    groups.push(Array.from(new Set([phrase, ...(SEARCH_TRANSLITERATION_ALIASES[phrase] || [])])));
+    index += consumed;
+  }
+
+  return groups;
+}
+
+/**
+ * Build a `to_tsquery('simple', …)` expression with alias alternatives. Only
+ * the last word the user typed is prefix-matched; alias expansions are exact,
+ * so a short alias like `up` cannot match `upsc`. Tokens are restricted to
+ * letters and digits, so the result is always a valid tsquery.
+ */
+export function buildRankedTsQuery(search?: string, operator: '&' | '|' = '&'): string {
+  const groups = expandSearchAliases(search);
+  return groups
+    .map((group, groupIndex) => group
+      .map((alternative, index) => toTsTerm(alternative, index === 0 && groupIndex === groups.length - 1))
+      .filter(Boolean))
+    .filter((group) => group.length > 0)
+    .map((group) => (group.length === 1 ? group[0] : `(${group.join(' | ')})`))
+    .join(` ${operator} `);
+}
+
+function normalizeQuery(query: ContentSearchQuery): ContentSearchQuery {
+  return {
+    search: normalizeSegment(query.search),
+    type: query.type,
+    category: normalizeSegment(query.category),
+    state: normalizeSegment(query.state),
+    organization: normalizeSegment(query.organization),
+    qualification: normalizeSegment(query.qualification),
+  };
+}
+
 // Transitional Postgres-backed search adapter.
 // Ranking is still lightweight, but query normalization is now aligned with the
 // Prisma/Postgres content read path rather than the old Mongo regex mindset.
 export const postgresTokenSearchAdapter: ContentSearchAdapter = {
   name: 'postgres-tokenized',
   supportsAdvancedRanking: false,
-  normalize(query) {
+  normalize: normalizeQuery,
+};
+
+interface RankedSearchRow {
+  id: string;
+  score: number | string;
+  title_match: boolean;
+  organization_match: boolean;
+  exam_match: boolean;
+  summary_match: boolean;
+  search_text_match: boolean;
+  title_headline: string | null;
+  summary_headline: string | null;
+}
+
+/**
+ * Escape a ts_headline result for HTML and turn the sentinel delimiters into
+ * <mark> tags, so snippets never carry markup from the post text itself.
+ */
+export function toHighlightSnippet(headline: string): string {
+  return escapeHtml(headline)
+    .split(HIGHLIGHT_START_SENTINEL).join('<mark>')
+    .split(HIGHLIGHT_STOP_SENTINEL).join('</mark>');
+}
+
+function toSearchHit(row: RankedSearchRow): ContentSearchHit {
+  const matchedFields: SearchMatchField[] = [];
+  if (row.title_match) matchedFields.push('title');
+  if (row.organization_match) matchedFields.push('organization');
+  if (row.exam_match) matchedFields.push('exam');
+  if (row.summary_match) matchedFields.push('summary');
+  if (row.search_text_match) matchedFields.push('searchText');
+
+  const highlights: SearchHighlight[] = [];
+  if (row.title_match && row.title_headline) {
+    highlights.push({ field: 'title', snippet: toHighlightSnippet(row.title_headline) });
+  }
+  if (row.summary_match && row.summary_headline) {
+    highlights.push({ field: 'summary', snippet: toHighlightSnippet(row.summary_headline) });
+  }
+
+  return {
+    id: row.id,
+    score: Number(Number(row.score).toFixed(6)),
+    matchedFields,
+    highlights,
+  };
+}
+
+function taxonomyExists(joinTable: string, taxonomyTable: string, foreignKey: string, slug: string): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM ${Prisma.raw(`"${joinTable}"`)} link
+    JOIN ${Prisma.raw(`"${taxonomyTable}"`)} taxonomy ON taxonomy."id" = link.${Prisma.raw(`"${foreignKey}"`)}
+    WHERE link."postId" = p."id" AND taxonomy."slug" = ${slug}
+  )`;
+}
+
+/**
+ * SQL counterpart of the public list filters, so ranking, paging and the total
+ * only ever see posts the public listing would show.
+ */
+export function buildRankedFilterSql(filters: RankedSearchFilters = {}): Prisma.Sql {
+  const clauses: Prisma.Sql[] = [];
+  const now = new Date();
+
+  if (filters.type) {
+    clauses.push(Prisma.sql`p."type" = ${filters.type.replace(/-/g, '_')}::"PostType"`);
+  }
+  if (filters.organization) {
+    clauses.push(Prisma.sql`o."slug" = ${filters.organization}`);
+  }
+  if (filters.category) {
+    clauses.push(taxonomyExists('post_categories', 'categories', 'categoryId', filters.category));
+  }
+  if (filters.state) {
+    clauses.push(taxonomyExists('post_states', 'states', 'stateId', filters.state));
+  }
+  if (filters.qualification) {
+    clauses.push(taxonomyExists('post_qualifications', 'qualifications', 'qualificationId', filters.qualification));
+  }
+
+  if (filters.status === 'archived') {
+    clauses.push(Prisma.sql`p."status" = 'archived'::"WorkflowStatus"`);
+  } else if (filters.status === 'expired') {
+    clauses.push(Prisma.sql`p."status" = 'published'::"WorkflowStatus" AND p."expiresAt" <= ${now}`);
+  } else if (filters.status !== 'all') {
+    clauses.push(Prisma.sql`p."status" = 'published'::"WorkflowStatus" AND (p."expiresAt" IS NULL OR p."expiresAt" > ${now})`);
+  }
+
+  return clauses.length > 0 ? Prisma.sql`AND ${Prisma.join(clauses, ' AND ')}` : Prisma.empty;
+}
+
+// Ranked Postgres full-text adapter.
+// Title, organization/exam names, summary and the denormalized searchText are
+// weighted A-D; the WHERE clause reuses the posts_search_tsv_idx expression.
+export const postgresRankedSearchAdapter: ContentSearchAdapter = {
+  name: 'postgres-ranked',
+  supportsAdvancedRanking: true,
+  normalize: normalizeQuery,
+  async rank(search, options) {
+    const tsQuery = buildRankedTsQuery(search);
+    if (!tsQuery) return { hits: [], total: 0 };
+    // Per-field match flags use any-term semantics so a query spread across
+    // title and organization still reports both fields.
+    const anyTermQuery = buildRankedTsQuery(search, '|');
+
+    const limit = Math.min(Math.max(options?.limit ?? 20, 1), RANKED_SEARCH_MAX_LIMIT);
+    const offset = Math.max(options?.offset ?? 0, 0);
+    const filterSql = buildRankedFilterSql(options?.filters);
+    const headlineOptions = `StartSel="${HIGHLIGHT_START_SENTINEL}", StopSel="${HIGHLIGHT_STOP_SENTINEL}", HighlightAll=true`;
+    const summaryHeadlineOptions = `StartSel="${HIGHLIGHT_START_SENTINEL}", StopSel="${HIGHLIGHT_STOP_SENTINEL}", MaxWords=28, MinWords=10`;
+
+    const matchSql = Prisma.sql`
+      FROM "posts" p
+      CROSS JOIN query
+      LEFT JOIN "organizations" o ON o."id" = p."organizationId"
+      LEFT JOIN "exams" e ON e."id" = p."examId"
+      WHERE to_tsvector(
+        'simple',
+        COALESCE(p."title", '') || ' ' || COALESCE(p."summary", '') || ' ' || COALESCE(p."searchText", '')
+      ) @@ query.q
+      ${filterSql}
+    `;
+
+    const [rows, countRows] = await Promise.all([
+      prisma.$queryRaw<RankedSearchRow[]>(Prisma.sql`
+        WITH query AS (
+          SELECT to_tsquery('simple', ${tsQuery}) AS q, to_tsquery('simple', ${anyTermQuery}) AS any_q
+        )
+        SELECT
+          p."id" AS id,
+          ts_rank(
+            ${RANKED_FIELD_WEIGHTS}::float4[],
+            setweight(to_tsvector('simple', COALESCE(p."title", '')), 'A')
+              || setweight(to_tsvector('simple', COALESCE(o."name", '') || ' ' || COALESCE(o."shortName", '') || ' ' || COALESCE(e."name", '')), 'B')
+              || setweight(to_tsvector('simple', COALESCE(p."summary", '')), 'C')
+              || setweight(to_tsvector('simple', COALESCE(p."searchText", '')), 'D'),
+            query.q
+          ) AS score,
+          to_tsvector('simple', COALESCE(p."title", '')) @@ query.any_q AS title_match,
+          to_tsvector('simple', COALESCE(o."name", '') || ' ' || COALESCE(o."shortName", '')) @@ query.any_q AS organization_match,
+          to_tsvector('simple', COALESCE(e."name", '')) @@ query.any_q AS exam_match,
+          to_tsvector('simple', COALESCE(p."summary", '')) @@ query.any_q AS summary_match,
+          to_tsvector('simple', COALESCE(p."searchText", '')) @@ query.any_q AS search_text_match,
+          ts_headline('simple', p."title", query.any_q, ${headlineOptions}) AS title_headline,
+          ts_headline('simple', p."summary", query.any_q, ${summaryHeadlineOptions}) AS summary_headline
+        ${matchSql}
+        ORDER BY score DESC, p."publishedAt" DESC NULLS LAST, p."id" DESC
+        LIMIT ${limit}
+        OFFSET ${offset}
+      `),
+      prisma.$queryRaw<Array<{ total: number | bigint }>>(Prisma.sql`
+        WITH query AS (SELECT to_tsquery('simple', ${tsQuery}) AS q)
+        SELECT COUNT(*) AS total
+        ${matchSql}
+      `),
+    ]);
+
     return {
-      search: normalizeSegment(query.search),
-      type: query.type,
-      category: normalizeSegment(query.category),
-      state: normalizeSegment(query.state),
-      organization: normalizeSegment(query.organization),
-      qualification: normalizeSegment(query.qualification),
+      hits: rows.map(toSearchHit),
+      total: Number(countRows[0]?.total ?? 0),
     };
   },
 };
 
+const searchAdapters: Record<ContentSearchAdapterName, ContentSearchAdapter> = {
+  'postgres-tokenized': postgresTokenSearchAdapter,
+  'postgres-ranked': postgresRankedSearchAdapter,
+};
+
+export function getContentSearchAdapter(name: string = config.contentSearchAdapter): ContentSearchAdapter {
+  return searchAdapters[name as ContentSearchAdapterName] ?? postgresTokenSearchAdapter;
+}
+
 // Compatibility alias for older imports that still expect the old adapter name.
 export const mongoRegexSearchAdapter = postgresTokenSearchAdapter;
 
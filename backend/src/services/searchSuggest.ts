@@ -0,0 +1,360 @@
+import { Prisma } from '@prisma/client';
+
+import type { PostType } from '../content/types.js';
+import { publicSectionMap } from '../content/types.js';
+
+import { getTopSearches } from './analytics.js';
+import { prisma } from './postgres/prisma.js';
+
+export type SearchSuggestionKind = 'post' | 'organization' | 'exam' | 'state' | 'query';
+
+export interface SearchSuggestion {
+  kind: SearchSuggestionKind;
+  label: string;
+  value: string;
+  href?: string;
+  type?: PostType;
+  score: number;
+}
+
+export interface SearchSuggestionGroup {
+  kind: SearchSuggestionKind;
+  label: string;
+  items: SearchSuggestion[];
+}
+
+export interface SearchCorrection {
+  query: string;
+  score: number;
+}
+
+const GROUP_LABELS: Record<SearchSuggestionKind, string> = {
+  post: 'Posts',
+  organization: 'Organizations',
+  exam: 'Exams',
+  state: 'States',
+  query: 'Popular searches',
+};
+
+const GROUP_ORDER: SearchSuggestionKind[] = ['post', 'organization', 'exam', 'state', 'query'];
+
+const SUGGEST_MIN_SIMILARITY = 0.25;
+const CORRECTION_MIN_SIMILARITY = 0.3;
+const POPULAR_QUERY_POOL = 50;
+const POPULAR_QUERY_DAYS = 30;
+const MAX_CORRECTION_TOKENS = 6;
+
+// Run-together spellings seen in search logs, split before matching.
+const COMPOUND_SEARCH_TERMS: Record<string, string> = {
+  admitcard: 'admit card',
+  answerkey: 'answer key',
+  sarkariresult: 'sarkari result',
+  sarkarinaukri: 'sarkari naukri',
+  hallticket: 'hall ticket',
+  cutoff: 'cut off',
+};
+
+const PRISMA_TYPE_TO_CONTENT: Record<string, PostType> = {
+  job: 'job',
+  result: 'result',
+  admit_card: 'admit-card',
+  answer_key: 'answer-key',
+  admission: 'admission',
+  syllabus: 'syllabus',
+  scholarship: 'admission',
+  board_result: 'result',
+};
+
+/**
+ * Normalize a raw query before suggestion lookups: lowercase, split known
+ * run-together terms, and read a letter "o" inside year-like numbers as zero
+ * ("2o25" → "2025").
+ */
+export function normalizeSuggestQuery(value?: string): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[<>"'&$]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => {
+      if (COMPOUND_SEARCH_TERMS[token]) return COMPOUND_SEARCH_TERMS[token];
+      const digitCount = token.replace(/\D/g, '').length;
+      if (digitCount >= 2 && /^[\do]+$/.test(token)) return token.replace(/o/g, '0');
+      return token;
+    })
+    .join(' ')
+    .trim();
+}
+
+function trigrams(value: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let index = 0; index < padded.length - 2; index += 1) {
+      grams.add(padded.slice(index, index + 3));
+    }
+  }
+  return grams;
+}
+
+/**
+ * In-process equivalent of pg_trgm `similarity()`, used for the small list of
+ * popular queries that never reaches Postgres.
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const gram of left) {
+    if (right.has(gram)) shared += 1;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Replace each token with its closest vocabulary word. Returns null when
+ * nothing changed, so callers only surface real corrections.
+ */
+export function composeCorrection(
+  query: string,
+  replacements: Map<string, { word: string; score: number }>,
+): SearchCorrection | null {
+  const tokens = query.split(/\s+/).filter(Boolean);
+  let changed = false;
+  let scoreTotal = 0;
+
+  const corrected = tokens.map((token) => {
+    const replacement = replacements.get(token);
+    if (!replacement || replacement.word === token) {
+      scoreTotal += 1;
+      return token;
+    }
+    changed = true;
+    scoreTotal += replacement.score;
+    return replacement.word;
+  });
+
+  if (!changed) return null;
+  return {
+    query: corrected.join(' '),
+    score: Number((scoreTotal / Math.max(1, tokens.length)).toFixed(3)),
+  };
+}
+
+function roundScore(value: number | string) {
+  return Number(Number(value).toFixed(3));
+}
+
+/**
+ * Run a trigram lookup with `%` and `<%` bound to the given threshold, so the
+ * filters can use the gin_trgm_ops indexes instead of scoring every row.
+ */
+async function queryWithTrigramThreshold<T>(threshold: number, query: Prisma.Sql): Promise<T[]> {
+  const [, rows] = await prisma.$transaction([
+    prisma.$queryRaw`
+      SELECT set_config('pg_trgm.similarity_threshold', ${String(threshold)}, true),
+        set_config('pg_trgm.word_similarity_threshold', ${String(threshold)}, true)
+    `,
+    prisma.$queryRaw<T[]>(query),
+  ]);
+  return rows;
+}
+
+async function suggestPosts(query: string, limit: number, type?: PostType): Promise<SearchSuggestion[]> {
+  const typeClause = type
+    ? Prisma.sql`AND p."type"::text = ${type.replace('-', '_')}`
+    : Prisma.empty;
+
+  const rows = await queryWithTrigramThreshold<{ title: string; slug: string; type: string; score: number }>(SUGGEST_MIN_SIMILARITY, Prisma.sql`
+    SELECT p."title" AS title, p."slug" AS slug, p."type"::text AS type,
+      GREATEST(similarity(lower(p."title"), ${query}), word_similarity(${query}, lower(p."title"))) AS score
+    FROM "posts" p
+    WHERE p."status" = 'published'
+      AND (p."expiresAt" IS NULL OR p."expiresAt" > NOW())
+      ${typeClause}
+      AND (lower(p."title") % ${query} OR ${query} <% lower(p."title"))
+    ORDER BY score DESC, p."publishedAt" DESC NULLS LAST
+    LIMIT ${limit}
+  `);
+
+  return rows.map((row) => {
+    const postType = PRISMA_TYPE_TO_CONTENT[row.type] ?? 'job';
+    return {
+      kind: 'post' as const,
+      label: row.title,
+      value: row.title,
+      href: `/${publicSectionMap[postType]}/${row.slug}`,
+      type: postType,
+      score: roundScore(row.score),
+    };
+  });
+}
+
+async function suggestTaxonomy(
+  kind: 'organization' | 'exam' | 'state',
+  query: string,
+  limit: number,
+): Promise<SearchSuggestion[]> {
+  const table = kind === 'organization' ? 'organizations' : kind === 'exam' ? 'exams' : 'states';
+  const shortNameScore = kind === 'organization'
+    ? Prisma.sql`COALESCE(similarity(lower(t."shortName"), ${query}), 0)`
+    : Prisma.sql`0`;
+  const shortNameMatch = kind === 'organization'
+    ? Prisma.sql`OR lower(t."shortName") % ${query}`
+    : Prisma.empty;
+
+  const rows = await queryWithTrigramThreshold<{ name: string; slug: string; score: number }>(SUGGEST_MIN_SIMILARITY, Prisma.sql`
+    SELECT t."name" AS name, t."slug" AS slug,
+      GREATEST(
+        similarity(lower(t."name"), ${query}),
+        word_similarity(${query}, lower(t."name")),
+        ${shortNameScore}
+      ) AS score
+    FROM ${Prisma.raw(`"${table}"`)} t
+    WHERE lower(t."name") % ${query}
+      OR ${query} <% lower(t."name")
+      ${shortNameMatch}
+    ORDER BY score DESC, t."priority" DESC, t."name" ASC
+    LIMIT ${limit}
+  `);
+
+  return rows.map((row) => ({
+    kind,
+    label: row.name,
+    value: row.name,
+    href: kind === 'organization'
+      ? `/organizations/${row.slug}`
+      : kind === 'state'
+        ? `/states/${row.slug}`
+        : undefined,
+    score: roundScore(row.score),
+  }));
+}
+
+async function suggestPopularQueries(query: string, limit: number): Promise<SearchSuggestion[]> {
+  const rows = await getTopSearches(POPULAR_QUERY_DAYS, POPULAR_QUERY_POOL);
+  const normalizedRows = rows
+    .map((row) => ({ value: normalizeSuggestQuery(row.query), count: row.count }))
+    .filter((row) => row.value.length > 0);
+
+  if (!query) {
+    return normalizedRows.slice(0, limit).map((row) => ({
+      kind: 'query' as const,
+      label: row.value,
+      value: row.value,
+      score: 1,
+    }));
+  }
+
+  return normalizedRows
+    .map((row) => ({
+      row,
+      score: row.value.startsWith(query) ? 1 : trigramSimilarity(row.value, query),
+    }))
+    .filter((entry) => entry.score >= SUGGEST_MIN_SIMILARITY && entry.row.value !== query)
+    .sort((a, b) => b.score - a.score || b.row.count - a.row.count)
+    .slice(0, limit)
+    .map((entry) => ({
+      kind: 'query' as const,
+      label: entry.row.value,
+      value: entry.row.value,
+      score: roundScore(entry.score),
+    }));
+}
+
+/**
+ * Autocomplete entries for the public search box, grouped by kind.
+ * Empty groups are omitted.
+ */
+export async function getSearchSuggestions(
+  rawQuery: string,
+  options: { limit?: number; type?: PostType } = {},
+): Promise<{ query: string; groups: SearchSuggestionGroup[] }> {
+  const query = normalizeSuggestQuery(rawQuery);
+  const limit = Math.min(Math.max(options.limit ?? 5, 1), 10);
+
+  const lookups: Array<Promise<SearchSuggestion[]>> = query.length >= 2
+    ? [
+      suggestPosts(query, limit, options.type),
+      suggestTaxonomy('organization', query, limit),
+      suggestTaxonomy('exam', query, limit),
+      suggestTaxonomy('state', query, limit),
+      suggestPopularQueries(query, limit),
+    ]
+    : [suggestPopularQueries('', limit)];
+
+  const settled = await Promise.allSettled(lookups);
+  const items = settled.flatMap((result) => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error('[SearchSuggest] Suggestion lookup failed:', result.reason);
+    return [];
+  });
+
+  const groups = GROUP_ORDER
+    .map((kind) => ({
+      kind,
+      label: GROUP_LABELS[kind],
+      items: items.filter((item) => item.kind === kind),
+    }))
+    .filter((group) => group.items.length > 0);
+
+  return { query, groups };
+}
+
+/**
+ * "Did you mean" correction built from words that appear in published titles
+ * and taxonomy names (the `search_vocabulary` view). Each query token is
+ * swapped for its closest trigram match.
+ */
+export async function getSearchCorrection(rawQuery: string): Promise<SearchCorrection | null> {
+  const query = normalizeSuggestQuery(rawQuery);
+  const typed = rawQuery.toLowerCase().replace(/\s+/g, ' ').trim();
+  // Normalization alone ("admitcard" → "admit card") already counts as a correction.
+  const normalizedCorrection = query && query !== typed ? { query, score: 1 } : null;
+  const tokens = Array.from(new Set(query.split(/\s+/).filter((token) => token.length >= 3)))
+    .slice(0, MAX_CORRECTION_TOKENS);
+  if (tokens.length === 0) return normalizedCorrection;
+
+  const rows = await queryWithTrigramThreshold<{ token: string; word: string; score: number }>(CORRECTION_MIN_SIMILARITY, Prisma.sql`
+    WITH tokens AS (
+      SELECT unnest(${tokens}::text[]) AS token
+    )
+    SELECT DISTINCT ON (t.token) t.token AS token, v."word" AS word, similarity(v."word", t.token) AS score
+    FROM tokens t
+    JOIN "search_vocabulary" v ON v."word" % t.token
+    ORDER BY t.token, (v."word" = t.token) DESC, score DESC, length(v."word") ASC
+  `);
+
+  const replacements = new Map(rows.map((row) => [row.token, { word: row.word, score: Number(row.score) }]));
+  return composeCorrection(query, replacements) ?? normalizedCorrection;
+}
+
+let vocabularyRefresh: Promise<void> | null = null;
+let vocabularyRefreshPending = false;
+
+async function runVocabularyRefresh(): Promise<void> {
+  do {
+    vocabularyRefreshPending = false;
+    await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY "search_vocabulary"`;
+  } while (vocabularyRefreshPending);
+}
+
+/**
+ * Rebuild the correction vocabulary. Calls made while a refresh is running are
+ * folded into one follow-up refresh, so bulk publishes do not pile up.
+ */
+export function refreshSearchVocabulary(): Promise<void> {
+  if (vocabularyRefresh) {
+    vocabularyRefreshPending = true;
+    return vocabularyRefresh;
+  }
+  vocabularyRefresh = runVocabularyRefresh().finally(() => {
+    vocabularyRefresh = null;
+  });
+  return vocabularyRefresh;
+}
+
+export function queueSearchVocabularyRefresh(): void {
+  refreshSearchVocabulary().catch((error) => console.error('[SearchSuggest] Vocabulary refresh failed:', error));
+}
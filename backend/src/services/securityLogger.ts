@@ -11,7 +11,8 @@ export interface SecurityEvent {
     ip_address: string;
     event_type: 'rate_limit'
       | 'auth_failure'
-      | 'suspicious_activity';
+      | 'suspicious_activity'
+      | 'two_factor';
     endpoint: string;
     metadata?: any;
     incidentStatus?: 'new' | 'investigating' | 'resolved';
@@ -32,7 +33,7 @@ export interface SecurityLogFilters {
     end?: Date;
 }
 
-const SECURITY_EVENT_TYPES: SecurityEvent['event_type'][] = ['rate_limit', 'auth_failure', 'suspicious_activity'];
+const SECURITY_EVENT_TYPES: SecurityEvent['event_type'][] = ['rate_limit', 'auth_failure', 'suspicious_activity', 'two_factor'];
 const INCIDENT_STATUSES: NonNullable<SecurityEvent['incidentStatus']>[] = ['new', 'investigating', 'resolved'];
 
 const toSecurityEventType = (value: unknown): SecurityEvent['event_type'] => {
@@ -0,0 +1,115 @@
+import { UserSessionModelPostgres, type UserSessionRecord } from '../models/userSessions.postgres.js';
+
+import RedisCache from './redis.js';
+
+const STATE_KEY_PREFIX = 'auth:session:state';
+
+// How long a session's active/revoked state is trusted from cache. This also
+// throttles `last_seen_at` writes to one per window per session.
+const STATE_CACHE_TTL_SECONDS = 60;
+
+type SessionState = 'active' | 'revoked';
+
+const stateKey = (sessionId: string) => `${STATE_KEY_PREFIX}:${sessionId}`;
+
+const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+const matchVersion = (ua: string, pattern: RegExp) => ua.match(pattern)?.[1]?.split('.')[0];
+
+/**
+ * A short human label for a user agent, e.g. "Chrome 126 on Windows". Good
+ * enough to recognise your own devices; not a full UA parser.
+ */
+export const describeUserAgent = (userAgent: string | undefined): string => {
+  const ua = userAgent?.trim() ?? '';
+  if (!ua) return 'Unknown device';
+
+  const os = /Android/i.test(ua) ? 'Android'
+    : /iPhone|iPad|iPod/i.test(ua) ? 'iOS'
+      : /Windows/i.test(ua) ? 'Windows'
+        : /Mac OS X|Macintosh/i.test(ua) ? 'macOS'
+          : /CrOS/i.test(ua) ? 'ChromeOS'
+            : /Linux/i.test(ua) ? 'Linux'
+              : undefined;
+
+  const browser: [string, string | undefined] | undefined = /Edg\//.test(ua) ? ['Edge', matchVersion(ua, /Edg\/([\d.]+)/)]
+    : /OPR\//.test(ua) ? ['Opera', matchVersion(ua, /OPR\/([\d.]+)/)]
+      : /SamsungBrowser\//.test(ua) ? ['Samsung Internet', matchVersion(ua, /SamsungBrowser\/([\d.]+)/)]
+        : /Firefox\//.test(ua) ? ['Firefox', matchVersion(ua, /Firefox\/([\d.]+)/)]
+          : /Chrome\//.test(ua) ? ['Chrome', matchVersion(ua, /Chrome\/([\d.]+)/)]
+            : /Safari\//.test(ua) ? ['Safari', matchVersion(ua, /Version\/([\d.]+)/)]
+              : undefined;
+
+  const browserLabel = browser ? [browser[0], browser[1]].filter(Boolean).join(' ') : undefined;
+  if (browserLabel && os) return `${browserLabel} on ${os}`;
+  return browserLabel || os || 'Unknown device';
+};
+
+export const createUserSession = async (params: {
+  sessionId: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  country?: string;
+  expiresAt: Date;
+}): Promise<UserSessionRecord> => {
+  const session = await UserSessionModelPostgres.create({
+    id: params.sessionId,
+    userId: params.userId,
+    userAgent: params.userAgent?.slice(0, 500),
+    device: describeUserAgent(params.userAgent),
+    ipAddress: params.ipAddress,
+    country: params.country,
+    expiresAt: params.expiresAt,
+  });
+  await RedisCache.set(stateKey(session.id), 'active', STATE_CACHE_TTL_SECONDS);
+  return session;
+};
+
+/**
+ * Whether a session may still be used. Revocations are cached until the
+ * session would have expired anyway; active sessions are re-checked against
+ * the database (and their last-seen time refreshed) once per cache window.
+ */
+export const isSessionActive = async (
+  sessionId: string,
+  seen: { ipAddress?: string; country?: string } = {},
+): Promise<boolean> => {
+  const cached = (await RedisCache.get(stateKey(sessionId))) as SessionState | null;
+  if (cached === 'revoked') return false;
+  if (cached === 'active') return true;
+
+  const session = await UserSessionModelPostgres.findById(sessionId);
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    const ttl = session ? secondsUntil(session.expiresAt) : STATE_CACHE_TTL_SECONDS;
+    await RedisCache.set(stateKey(sessionId), 'revoked', ttl);
+    return false;
+  }
+
+  await UserSessionModelPostgres.touch(sessionId, seen);
+  await RedisCache.set(stateKey(sessionId), 'active', Math.min(STATE_CACHE_TTL_SECONDS, secondsUntil(session.expiresAt)));
+  return true;
+};
+
+export const listActiveSessions = (userId: string) => UserSessionModelPostgres.listActiveByUser(userId);
+
+export const revokeUserSessions = async (
+  userId: string,
+  options: { ids?: string[]; exceptId?: string; reason: string },
+): Promise<UserSessionRecord[]> => {
+  const revoked = await UserSessionModelPostgres.revokeForUser(userId, options);
+  await Promise.all(revoked.map((session) =>
+    RedisCache.set(stateKey(session.id), 'revoked', secondsUntil(session.expiresAt))));
+  return revoked;
+};
+
+export const toSessionSummary = (session: UserSessionRecord, currentSessionId?: string) => ({
+  id: session.id,
+  device: session.device || 'Unknown device',
+  ipAddress: session.ipAddress,
+  country: session.country,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  expiresAt: session.expiresAt,
+  current: session.id === currentSessionId,
+});
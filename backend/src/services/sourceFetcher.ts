@@ -0,0 +1,203 @@
+import dns from 'dns/promises';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+
+import { config } from '../config.js';
+
+export interface SourceFetchResult {
+  /** HTTP status of the last response after redirects. */
+  status: number;
+  /** URL that answered after redirects. */
+  finalUrl: string;
+  contentType?: string;
+  body: string;
+}
+
+/**
+ * Fetches an official source URL for the source monitor. The active fetcher
+ * comes from SOURCE_MONITOR_FETCHER and can be replaced with `setSourceFetcher`.
+ * Network failures throw; HTTP error statuses are returned.
+ */
+export interface SourceFetcher {
+  name: string;
+  fetch(url: string): Promise<SourceFetchResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Loopback, private, link-local (cloud metadata), CGNAT, documentation,
+// multicast and other reserved ranges. Source URLs are editor-supplied, so
+// the fetcher must never reach into the server's own network.
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.88.99.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001::', 23, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix, family] of BLOCKED_SUBNETS) {
+  blockedAddresses.addSubnet(network, prefix, family);
+}
+
+/** True for anything that is not a public unicast IP address. */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+type HostLookup = (hostname: string) => Promise<string[]>;
+
+const lookupHost: HostLookup = async (hostname) =>
+  (await dns.lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+async function assertFetchableUrl(url: string, lookup: HostLookup): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported source URL protocol ${parsed.protocol}`);
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname) ? [hostname] : await lookup(hostname);
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`Refusing to fetch ${parsed.hostname}: it resolves to a private or reserved address`);
+  }
+}
+
+/** Reads at most `maxBytes` of the body and cancels the rest of the download. */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let received = 0;
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = Buffer.from(value.subarray(0, maxBytes - received));
+      chunks.push(chunk);
+      received += chunk.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return Buffer.concat(chunks);
+}
+
+export class HttpSourceFetcher implements SourceFetcher {
+  readonly name = 'http';
+
+  constructor(private readonly options: { timeoutMs?: number; maxBytes?: number; lookup?: HostLookup } = {}) {}
+
+  async fetch(url: string): Promise<SourceFetchResult> {
+    const signal = AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const lookup = this.options.lookup ?? lookupHost;
+
+    // Redirects are followed by hand so every hop is checked before it is requested.
+    let currentUrl = url;
+    for (let hop = 0; ; hop += 1) {
+      await assertFetchableUrl(currentUrl, lookup);
+      const response = await fetch(currentUrl, {
+        redirect: 'manual',
+        signal,
+        headers: {
+          'User-Agent': 'SarkariResultSourceMonitor/1.0 (+official source change checks)',
+          Accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        await response.body?.cancel().catch(() => undefined);
+        if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects fetching ${url}`);
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      const bytes = await readLimitedBody(response, this.options.maxBytes ?? DEFAULT_MAX_BYTES);
+      const contentType = response.headers.get('content-type') || undefined;
+      const isPdf = contentType?.includes('pdf') ?? false;
+      return {
+        status: response.status,
+        finalUrl: currentUrl,
+        contentType,
+        // PDFs are kept byte-for-byte so the content hash changes with the file.
+        body: bytes.toString(isPdf ? 'latin1' : 'utf8'),
+      };
+    }
+  }
+}
+
+interface SourceFixture {
+  status?: number;
+  finalUrl?: string;
+  contentType?: string;
+  /** File next to `index.json` holding the response body. */
+  file?: string;
+  body?: string;
+}
+
+/**
+ * Answers from `<dir>/index.json`, a map of URL to fixture. Unknown URLs get
+ * a 404 so a missing fixture looks like a removed page.
+ */
+export class FixtureSourceFetcher implements SourceFetcher {
+  readonly name = 'fixture';
+
+  constructor(private readonly directory: string) {}
+
+  async fetch(url: string): Promise<SourceFetchResult> {
+    const index = JSON.parse(await fs.readFile(path.join(this.directory, 'index.json'), 'utf8')) as Record<string, SourceFixture>;
+    const fixture = index[url];
+    if (!fixture) {
+      return { status: 404, finalUrl: url, contentType: 'text/html', body: '' };
+    }
+    const body = fixture.file
+      ? await fs.readFile(path.join(this.directory, fixture.file), 'utf8')
+      : fixture.body ?? '';
+    return {
+      status: fixture.status ?? 200,
+      finalUrl: fixture.finalUrl ?? url,
+      contentType: fixture.contentType ?? 'text/html',
+      body,
+    };
+  }
+}
+
+let overrideFetcher: SourceFetcher | undefined;
+
+export function getSourceFetcher(): SourceFetcher {
+  if (overrideFetcher !== undefined) return overrideFetcher;
+  if (config.sourceMonitorFetcher === 'fixture') return new FixtureSourceFetcher(config.sourceMonitorFixtureDir);
+  return new HttpSourceFetcher();
+}
+
+/** Replaces the configured fetcher; pass `undefined` to go back to the config. */
+export function setSourceFetcher(fetcher: SourceFetcher | undefined): void {
+  overrideFetcher = fetcher;
+}
@@ -0,0 +1,397 @@
+import { createHash } from 'crypto';
+
+import PostModelPostgres from '../models/posts.postgres.js';
+import SourceMonitorModelPostgres, {
+    type SourceChangeDiff,
+    type SourceChangeKind,
+    type SourceChangeTaskRecord,
+    type SourceCheckState,
+    type SourceMonitorRecord,
+    type SourceMonitorStatus,
+    type SourceSnapshot,
+} from '../models/sourceMonitors.postgres.js';
+
+import { getSourceFetcher, type SourceFetchResult } from './sourceFetcher.js';
+
+export interface MonitoredSource {
+    postId: string;
+    url: string;
+}
+
+export interface SourceCheckOutcome {
+    postId: string;
+    status: SourceMonitorStatus;
+    kinds: SourceChangeKind[];
+    taskId?: string;
+}
+
+/** Monitor state shown next to a post in the editorial trust and freshness queues. */
+export interface SourceMonitorSummary {
+    status: SourceMonitorStatus;
+    url: string;
+    checkedAt?: string;
+    changedAt?: string;
+    httpStatus?: number;
+    finalUrl?: string;
+    lastError?: string;
+    openTask?: Pick<SourceChangeTaskRecord, 'id' | 'kinds' | 'createdAt'>;
+}
+
+export interface SourceMonitorRunResult {
+    candidates: number;
+    checked: number;
+    changed: number;
+    failed: number;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_RECHECK_HOURS = 24;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const MAX_CANDIDATES = 2000;
+const MAX_PDF_LINKS = 200;
+const MAX_DATES = 100;
+
+const parseBoundedInt = (value: string | undefined, fallback: number, min: number, max: number): number => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) return fallback;
+    const rounded = Math.round(parsed);
+    return Math.min(max, Math.max(min, rounded));
+};
+
+const schedulerConfig = {
+    intervalMs: parseBoundedInt(process.env.SOURCE_MONITOR_INTERVAL_MS, DEFAULT_INTERVAL_MS, 60_000, 86_400_000),
+    batchSize: parseBoundedInt(process.env.SOURCE_MONITOR_BATCH_SIZE, DEFAULT_BATCH_SIZE, 1, 500),
+    recheckHours: parseBoundedInt(process.env.SOURCE_MONITOR_RECHECK_HOURS, DEFAULT_RECHECK_HOURS, 1, 24 * 30),
+    // Consecutive failed fetches before an "unreachable" task is raised.
+    failureThreshold: parseBoundedInt(process.env.SOURCE_MONITOR_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD, 1, 20),
+};
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let monitorRunInFlight = false;
+
+const MONTHS: Record<string, number> = {
+    jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+function normalizeHost(url?: string): string | null {
+    if (!url) return null;
+    try {
+        return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+}
+
+function isPdfUrl(url: string): boolean {
+    try {
+        return /\.pdf$/i.test(new URL(url).pathname);
+    } catch {
+        return false;
+    }
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+}
+
+function pageText(html: string): string {
+    return html
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/&amp;/gi, '&')
+        .replace(/&quot;/gi, '"')
+        .replace(/&#0?39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function extractDates(text: string): string[] {
+    const dates: string[] = [];
+    const push = (value: string | null) => {
+        if (value) dates.push(value);
+    };
+    // Notices use day-first numeric dates (18/10/2026, 18.10.2026, 18-10-2026).
+    for (const match of text.matchAll(/\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/g)) {
+        push(toIsoDate(Number(match[3]), Number(match[2]), Number(match[1])));
+    }
+    for (const match of text.matchAll(/\b(\d{4})-(\d{2})-(\d{2})\b/g)) {
+        push(toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])));
+    }
+    for (const match of text.matchAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s-]+${MONTH_PATTERN},?[\\s-]+(\\d{4})\\b`, 'gi'))) {
+        push(toIsoDate(Number(match[3]), MONTHS[match[2].toLowerCase()], Number(match[1])));
+    }
+    for (const match of text.matchAll(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'))) {
+        push(toIsoDate(Number(match[3]), MONTHS[match[1].toLowerCase()], Number(match[2])));
+    }
+    return unique(dates).sort().slice(0, MAX_DATES);
+}
+
+function extractPdfLinks(html: string, baseUrl: string): string[] {
+    const links: string[] = [];
+    for (const match of html.matchAll(/href\s*=\s*["']([^"']+)["']/gi)) {
+        try {
+            const url = new URL(match[1].trim(), baseUrl);
+            url.hash = '';
+            if (/\.pdf$/i.test(url.pathname)) links.push(url.toString());
+        } catch {
+            // Ignore hrefs that are not URLs (javascript:, malformed).
+        }
+    }
+    return unique(links).sort().slice(0, MAX_PDF_LINKS);
+}
+
+/**
+ * Reduce a fetched page to what the monitor compares: PDF links, dates and a
+ * hash of the visible text. Scripts and markup are left out of the hash so
+ * rotating tokens do not read as changes. PDFs are hashed as-is.
+ */
+export function extractSourceSnapshot(body: string, baseUrl: string, contentType?: string): { snapshot: SourceSnapshot; contentHash: string } {
+    const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+    if (contentType?.includes('pdf') || isPdfUrl(baseUrl)) {
+        return { snapshot: { pdfLinks: [], dates: [] }, contentHash: hash(body) };
+    }
+
+    const text = pageText(body);
+    const title = body.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    return {
+        snapshot: {
+            ...(title ? { title: pageText(title) } : {}),
+            pdfLinks: extractPdfLinks(body, baseUrl),
+            dates: extractDates(text),
+        },
+        contentHash: hash(text),
+    };
+}
+
+export function diffSourceSnapshots(previous: SourceSnapshot | undefined, next: SourceSnapshot) {
+    const before = previous ?? { pdfLinks: [], dates: [] };
+    return {
+        addedPdfLinks: next.pdfLinks.filter((link) => !before.pdfLinks.includes(link)),
+        removedPdfLinks: before.pdfLinks.filter((link) => !next.pdfLinks.includes(link)),
+        addedDates: next.dates.filter((date) => !before.dates.includes(date)),
+        removedDates: before.dates.filter((date) => !next.dates.includes(date)),
+    };
+}
+
+function toCheckState(record: SourceMonitorRecord | null): SourceCheckState | undefined {
+    if (!record) return undefined;
+    return {
+        contentHash: record.contentHash,
+        httpStatus: record.httpStatus,
+        finalUrl: record.finalUrl,
+        checkedAt: record.checkedAt?.toISOString(),
+    };
+}
+
+function mergeDiff(existing: SourceChangeDiff, next: SourceChangeDiff): SourceChangeDiff {
+    const merge = (a: string[], b: string[], undone: string[]) => unique([...a, ...b]).filter((value) => !undone.includes(value));
+    return {
+        previous: existing.previous,
+        current: next.current,
+        addedPdfLinks: merge(existing.addedPdfLinks, next.addedPdfLinks, next.removedPdfLinks),
+        removedPdfLinks: merge(existing.removedPdfLinks, next.removedPdfLinks, next.addedPdfLinks),
+        addedDates: merge(existing.addedDates, next.addedDates, next.removedDates),
+        removedDates: merge(existing.removedDates, next.removedDates, next.addedDates),
+        ...(next.error ? { error: next.error } : {}),
+    };
+}
+
+/** Opens a review task for the post, or folds the change into the one already open. */
+async function raiseSourceChangeTask(source: MonitoredSource, kinds: SourceChangeKind[], diff: SourceChangeDiff): Promise<SourceChangeTaskRecord> {
+    const existing = await SourceMonitorModelPostgres.findOpenTask(source.postId);
+    if (!existing) {
+        return SourceMonitorModelPostgres.createTask({ postId: source.postId, url: source.url, kinds, diff });
+    }
+    return SourceMonitorModelPostgres.updateTask(existing.id, {
+        url: source.url,
+        kinds: Array.from(new Set([...existing.kinds, ...kinds])),
+        diff: mergeDiff(existing.diff, diff),
+    });
+}
+
+const emptyDiff = (previous: SourceCheckState | undefined, current: SourceCheckState): SourceChangeDiff =>
+    ({ previous, current, addedPdfLinks: [], removedPdfLinks: [], addedDates: [], removedDates: [] });
+
+/**
+ * Fetch one post's primary source and compare it with the last check. The
+ * first check only records a baseline; later checks raise a review task when
+ * PDF links, dates or the text change, the page disappears, or it starts
+ * redirecting to another domain.
+ */
+export async function checkPostSource(source: MonitoredSource, now: Date = new Date()): Promise<SourceCheckOutcome> {
+    const stored = await SourceMonitorModelPostgres.findByPostId(source.postId);
+    // A new primary URL starts a fresh baseline instead of reporting a change.
+    const baseline = stored?.url === source.url ? stored : null;
+    const previous = toCheckState(baseline);
+    const checkedAt = now.toISOString();
+
+    const finish = async (
+        status: SourceMonitorStatus,
+        kinds: SourceChangeKind[],
+        diff: SourceChangeDiff,
+        fields: { contentHash?: string; snapshot?: SourceSnapshot; lastError?: string; consecutiveFailures?: number },
+    ): Promise<SourceCheckOutcome> => {
+        await SourceMonitorModelPostgres.saveCheck({
+            postId: source.postId,
+            url: source.url,
+            status,
+            contentHash: fields.contentHash ?? baseline?.contentHash,
+            httpStatus: diff.current.httpStatus,
+            finalUrl: diff.current.finalUrl,
+            snapshot: fields.snapshot,
+            lastError: fields.lastError,
+            consecutiveFailures: fields.consecutiveFailures ?? 0,
+            checkedAt: now,
+            changedAt: kinds.length > 0 ? now : undefined,
+        });
+        if (kinds.length === 0) return { postId: source.postId, status, kinds };
+        const task = await raiseSourceChangeTask(source, kinds, diff);
+        return { postId: source.postId, status, kinds, taskId: task.id };
+    };
+
+    const failure = (httpStatus: number | undefined, error: string) => {
+        const consecutiveFailures = (baseline?.consecutiveFailures ?? 0) + 1;
+        const kinds: SourceChangeKind[] = consecutiveFailures === schedulerConfig.failureThreshold ? ['unreachable'] : [];
+        return finish('unreachable', kinds, { ...emptyDiff(previous, { httpStatus, checkedAt }), error }, { lastError: error, consecutiveFailures });
+    };
+
+    let fetched: SourceFetchResult;
+    try {
+        fetched = await getSourceFetcher().fetch(source.url);
+    } catch (error) {
+        return failure(undefined, error instanceof Error ? error.message : 'Fetch failed');
+    }
+
+    const current: SourceCheckState = { httpStatus: fetched.status, finalUrl: fetched.finalUrl, checkedAt };
+    if (fetched.status === 404 || fetched.status === 410) {
+        const kinds: SourceChangeKind[] = baseline?.status === 'not_found' ? [] : ['not_found'];
+        return finish('not_found', kinds, emptyDiff(previous, current), { lastError: `HTTP ${fetched.status}` });
+    }
+    if (fetched.status < 200 || fetched.status >= 300) {
+        return failure(fetched.status, `HTTP ${fetched.status}`);
+    }
+
+    const { snapshot, contentHash } = extractSourceSnapshot(fetched.body, fetched.finalUrl, fetched.contentType);
+    current.contentHash = contentHash;
+    const kinds: SourceChangeKind[] = [];
+    const finalHost = normalizeHost(fetched.finalUrl);
+    const redirected = finalHost !== normalizeHost(source.url);
+    if (redirected && finalHost !== normalizeHost(baseline?.finalUrl ?? source.url)) {
+        kinds.push('domain_redirect');
+    }
+
+    let diff = emptyDiff(previous, current);
+    const contentChanged = Boolean(baseline?.contentHash) && baseline?.contentHash !== contentHash;
+    if (contentChanged) {
+        diff = { ...diff, ...diffSourceSnapshots(baseline?.snapshot, snapshot) };
+        if (diff.addedPdfLinks.length > 0) kinds.push('new_pdf_links');
+        if (diff.removedPdfLinks.length > 0) kinds.push('removed_pdf_links');
+        if (diff.addedDates.length > 0 || diff.removedDates.length > 0) kinds.push('dates_changed');
+        if (!kinds.some((kind) => kind !== 'domain_redirect')) kinds.push('content_changed');
+    }
+
+    const status: SourceMonitorStatus = contentChanged ? 'changed' : redirected ? 'redirected' : 'ok';
+    return finish(status, kinds, diff, { contentHash, snapshot });
+}
+
+/** Monitor status and open task per post id, for the editorial queues. */
+export async function getSourceMonitorSummaries(postIds: string[]): Promise<Map<string, SourceMonitorSummary>> {
+    const [monitors, tasks] = await Promise.all([
+        SourceMonitorModelPostgres.listByPostIds(postIds),
+        SourceMonitorModelPostgres.listOpenTasksByPostIds(postIds),
+    ]);
+    const summaries = new Map<string, SourceMonitorSummary>();
+    for (const monitor of monitors) {
+        summaries.set(monitor.postId, {
+            status: monitor.status,
+            url: monitor.url,
+            checkedAt: monitor.checkedAt?.toISOString(),
+            changedAt: monitor.changedAt?.toISOString(),
+            httpStatus: monitor.httpStatus,
+            finalUrl: monitor.finalUrl,
+            lastError: monitor.lastError,
+        });
+    }
+    for (const task of tasks) {
+        const summary = summaries.get(task.postId);
+        if (summary && !summary.openTask) {
+            summary.openTask = { id: task.id, kinds: task.kinds, createdAt: task.createdAt };
+        }
+    }
+    return summaries;
+}
+
+/** Check the live posts whose primary source is due, least recently checked first. */
+export async function processSourceMonitorOnce(now: Date = new Date()): Promise<SourceMonitorRunResult> {
+    const sources = await PostModelPostgres.listPrimarySources(MAX_CANDIDATES);
+    const monitors = new Map(
+        (await SourceMonitorModelPostgres.listByPostIds(sources.map((source) => source.postId)))
+            .map((monitor) => [monitor.postId, monitor]),
+    );
+    const recheckBefore = now.getTime() - schedulerConfig.recheckHours * 60 * 60 * 1000;
+    const lastChecked = (source: MonitoredSource) => {
+        const monitor = monitors.get(source.postId);
+        return monitor?.url === source.url ? monitor.checkedAt?.getTime() ?? 0 : 0;
+    };
+    const due = sources
+        .filter((source) => lastChecked(source) <= recheckBefore)
+        .sort((a, b) => lastChecked(a) - lastChecked(b))
+        .slice(0, schedulerConfig.batchSize);
+
+    const result: SourceMonitorRunResult = { candidates: sources.length, checked: 0, changed: 0, failed: 0 };
+    // One at a time so a batch never hammers the same official site.
+    for (const source of due) {
+        try {
+            const outcome = await checkPostSource(source, now);
+            result.checked += 1;
+            if (outcome.taskId) result.changed += 1;
+        } catch (error) {
+            result.failed += 1;
+            console.error(`[SourceMonitor] Failed to check post ${source.postId}:`, error);
+        }
+    }
+    return result;
+}
+
+async function runMonitorCycle(): Promise<void> {
+    if (monitorRunInFlight) return;
+    monitorRunInFlight = true;
+    try {
+        const result = await processSourceMonitorOnce();
+        if (result.checked > 0 || result.failed > 0) {
+            console.log(
+                `[SourceMonitor] candidates=${result.candidates} checked=${result.checked} changed=${result.changed} failed=${result.failed}`
+            );
+        }
+    } catch (error) {
+        console.error('[SourceMonitor] cycle failed:', error);
+    } finally {
+        monitorRunInFlight = false;
+    }
+}
+
+export function scheduleSourceMonitor(): void {
+    if (monitorInterval) return;
+    runMonitorCycle().catch((error) => {
+        console.error('[SourceMonitor] initial run failed:', error);
+    });
+    monitorInterval = setInterval(() => {
+        runMonitorCycle().catch((error) => {
+            console.error('[SourceMonitor] scheduled run failed:', error);
+        });
+    }, schedulerConfig.intervalMs);
+}
+
+export function stopSourceMonitor(): void {
+    if (!monitorInterval) return;
+    clearInterval(monitorInterval);
+    monitorInterval = null;
+}
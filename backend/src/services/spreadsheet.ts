@@ -0,0 +1,187 @@
+import { inflateRawSync } from 'zlib';
+
+/** A parsed sheet: header names and one string record per data row. */
+export interface SheetData {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+const MAX_ROWS = 5000;
+
+function toSheet(matrix: string[][]): SheetData {
+  const [header = [], ...body] = matrix;
+  const seen = new Map<string, number>();
+  // Blank or repeated headers still need distinct keys for the column mapping.
+  const columns = header.map((raw, index) => {
+    const base = raw.trim() || `Column ${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+  const rows = body
+    .filter((cells) => cells.some((cell) => cell.trim() !== ''))
+    .slice(0, MAX_ROWS)
+    .map((cells) => Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()])));
+  return { columns, rows };
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const best = [',', ';', '\t']
+    .map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0];
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+/** RFC 4180 CSV with quoted fields; the delimiter (comma, semicolon or tab) is read from the header line. */
+export function parseCsv(input: string): SheetData {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const matrix: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      row.push(field);
+      matrix.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    matrix.push(row);
+  }
+  return toSheet(matrix);
+}
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65_557); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a valid XLSX file');
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let index = 0; index < count; index += 1) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt XLSX directory');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, inflateRawSync(data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Concatenated `<t>` runs inside a shared or inline string. */
+function textRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return Array.from(letters).reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const relationId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const relations = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const target = relationId
+    ? Array.from(relations.matchAll(/<Relationship\b[^>]*>/g))
+      .map((match) => match[0])
+      .find((tag) => tag.includes(`Id="${relationId}"`))
+      ?.match(/Target="([^"]+)"/)?.[1]
+    : undefined;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Reads the first worksheet of an XLSX workbook. Cells come back as their
+ * stored text, so dates stay Excel serial numbers; callers convert the
+ * columns they know hold dates.
+ */
+export function parseXlsx(buffer: Buffer): SheetData {
+  const entries = readZipEntries(buffer);
+  const sharedStrings = Array.from(
+    (entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    (match) => textRuns(match[1]),
+  );
+  const sheet = entries.get(firstSheetPath(entries))?.toString('utf8');
+  if (!sheet) throw new Error('XLSX workbook has no worksheet');
+
+  const matrix: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const inner = cellMatch[2] ?? '';
+      const reference = attributes.match(/\br="([A-Z]+)\d+"/i)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textRuns(inner);
+      else if (type === 'b') value = raw === '1' ? 'true' : 'false';
+      else if (raw !== undefined) value = decodeXml(raw);
+      cells[reference ? columnIndex(reference) : cells.length] = value;
+    }
+    matrix.push(Array.from(cells, (cell) => cell ?? ''));
+  }
+  return toSheet(matrix);
+}
+
+/** Converts an Excel date serial (days since 1899-12-30) to YYYY-MM-DD. */
+export function excelSerialToDate(value: string): string | null {
+  if (!/^\d{5}(\.\d+)?$/.test(value)) return null;
+  const serial = Number(value);
+  if (serial < 20_000 || serial > 80_000) return null;
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86_400_000).toISOString().slice(0, 10);
+}
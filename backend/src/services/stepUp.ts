@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+
+import { config } from '../config.js';
+
+import RedisCache from './redis.js';
+
+const TOKEN_KEY_PREFIX = 'auth:step-up:token';
+
+export const STEP_UP_HEADER_NAME = 'x-step-up-token';
+
+export type StepUpMethod = 'password' | 'totp';
+
+export type StepUpTokenPayload = {
+  userId: string;
+  sessionHash: string;
+  method: StepUpMethod;
+  issuedAt: string;
+  expiresAt: string;
+};
+
+const hashValue = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const tokenKeyFromHash = (hash: string) => `${TOKEN_KEY_PREFIX}:${hash}`;
+
+const createToken = () => crypto.randomBytes(32).toString('base64url');
+
+const normalizePayload = (raw: unknown): StepUpTokenPayload | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const value = raw as Record<string, unknown>;
+  if (typeof value.userId !== 'string' || !value.userId.trim()) return null;
+  if (typeof value.sessionHash !== 'string' || !value.sessionHash.trim()) return null;
+  if (value.method !== 'password' && value.method !== 'totp') return null;
+  if (typeof value.issuedAt !== 'string' || typeof value.expiresAt !== 'string') return null;
+
+  return {
+    userId: value.userId,
+    sessionHash: value.sessionHash,
+    method: value.method,
+    issuedAt: value.issuedAt,
+    expiresAt: value.expiresAt,
+  };
+};
+
+/**
+ * Issue a step-up token after the user re-confirmed their credentials. The
+ * token is bound to the session it was issued for, so it stops working once
+ * that session is logged out or replaced.
+ */
+export const issueStepUpToken = async (params: {
+  userId: string;
+  sessionToken: string;
+  method: StepUpMethod;
+}): Promise<{ token: string; payload: StepUpTokenPayload }> => {
+  const token = createToken();
+  const issuedAt = new Date();
+
+  const payload: StepUpTokenPayload = {
+    userId: params.userId,
+    sessionHash: hashValue(params.sessionToken),
+    method: params.method,
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: new Date(issuedAt.getTime() + config.adminStepUpTtlSeconds * 1000).toISOString(),
+  };
+
+  await RedisCache.set(tokenKeyFromHash(hashValue(token)), payload, config.adminStepUpTtlSeconds);
+
+  return { token, payload };
+};
+
+export const verifyStepUpToken = async (
+  token: string | undefined,
+  params: { userId: string; sessionToken: string | undefined },
+): Promise<StepUpTokenPayload | null> => {
+  if (!token?.trim() || !params.sessionToken) return null;
+
+  const payload = normalizePayload(await RedisCache.get(tokenKeyFromHash(hashValue(token))));
+  if (!payload) return null;
+  if (payload.userId !== params.userId) return null;
+  if (payload.sessionHash !== hashValue(params.sessionToken)) return null;
+  if (Date.parse(payload.expiresAt) <= Date.now()) return null;
+
+  return payload;
+};
+
+export const revokeStepUpToken = async (token: string | undefined): Promise<void> => {
+  if (!token?.trim()) return;
+  await RedisCache.del(tokenKeyFromHash(hashValue(token)));
+};
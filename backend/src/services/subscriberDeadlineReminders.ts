@@ -0,0 +1,248 @@
+import { config } from '../config.js';
+import { publicSectionMap, type AlertSubscriptionRecord, type PostRecord } from '../content/types.js';
+import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
+import PostModelPostgres from '../models/posts.postgres.js';
+import type { ContentType } from '../types.js';
+
+import { sendDigestEmail } from './email.js';
+import { getSuppressedEmails } from './emailSuppression.js';
+import { prisma } from './postgres/prisma.js';
+
+export interface SubscriberReminderItem {
+    postId: string;
+    title: string;
+    slug: string;
+    type: ContentType;
+    category: string;
+    organization: string;
+    deadline: Date;
+    daysLeft: number;
+    path?: string;
+}
+
+export interface DueSubscriberReminders {
+    subscriber: AlertSubscriptionRecord;
+    items: SubscriberReminderItem[];
+}
+
+export interface SubscriberReminderRunResult {
+    posts: number;
+    subscribers: number;
+    emailSent: number;
+    deduped: number;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_POST_SCAN = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseBoundedInt = (value: string | undefined, fallback: number, min: number, max: number): number => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) return fallback;
+    const rounded = Math.round(parsed);
+    return Math.min(max, Math.max(min, rounded));
+};
+
+const schedulerConfig = {
+    intervalMs: parseBoundedInt(process.env.SUBSCRIBER_REMINDER_INTERVAL_MS, DEFAULT_INTERVAL_MS, 60_000, 86_400_000),
+};
+
+let reminderInterval: NodeJS.Timeout | null = null;
+let reminderRunInFlight = false;
+
+const toDate = (value: string | null | undefined): Date | null => {
+    if (!value) return null;
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) return null;
+    return parsed;
+};
+
+const startOfUtcDay = (date: Date): number =>
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/** Whole UTC calendar days from `now` to the post's last date, or null when it has none. */
+export function daysUntilLastDate(post: Pick<PostRecord, 'lastDate' | 'expiresAt'>, now: Date): { deadline: Date; daysLeft: number } | null {
+    const deadline = toDate(post.lastDate) ?? toDate(post.expiresAt);
+    if (!deadline) return null;
+    return { deadline, daysLeft: Math.round((startOfUtcDay(deadline) - startOfUtcDay(now)) / DAY_MS) };
+}
+
+function toReminderItem(post: PostRecord, deadline: Date, daysLeft: number, subscriber: AlertSubscriptionRecord): SubscriberReminderItem {
+    const translatedTitle = subscriber.locale !== 'en' ? post.translations?.[subscriber.locale]?.title : undefined;
+    return {
+        postId: post.id,
+        title: translatedTitle || post.title,
+        slug: post.slug,
+        type: post.type,
+        category: post.categories[0]?.name || 'General',
+        organization: post.organization?.name || 'Government of India',
+        deadline,
+        daysLeft,
+        path: translatedTitle ? `/${subscriber.locale}/${publicSectionMap[post.type]}/${post.slug}` : undefined,
+    };
+}
+
+/**
+ * Subscribers owed a last-date reminder today, grouped per subscription.
+ * A post is due for a subscriber when its last date is exactly one of the
+ * subscriber's `reminderDays` away and it matches their alert filters.
+ */
+export async function collectDueSubscriberReminders(
+    now: Date,
+    frequencies: ReadonlyArray<AlertSubscriptionRecord['frequency']>,
+): Promise<Map<string, DueSubscriberReminders>> {
+    const offsets = new Set(config.subscriberReminderOffsets);
+    const due = new Map<string, DueSubscriberReminders>();
+    if (offsets.size === 0) return due;
+
+    const posts = await PostModelPostgres.listUpcomingDeadlines(DEFAULT_POST_SCAN);
+    for (const post of posts) {
+        const countdown = daysUntilLastDate(post, now);
+        if (!countdown || !offsets.has(countdown.daysLeft)) continue;
+
+        const subscribers = await AlertSubscriptionModelPostgres.listMatchingPost(post, undefined, { reminderDay: countdown.daysLeft });
+        for (const subscriber of subscribers) {
+            if (!frequencies.includes(subscriber.frequency) || !subscriber.email || !subscriber.unsubscribeToken) continue;
+            const entry = due.get(subscriber.id) ?? { subscriber, items: [] };
+            entry.items.push(toReminderItem(post, countdown.deadline, countdown.daysLeft, subscriber));
+            due.set(subscriber.id, entry);
+        }
+    }
+
+    if (due.size === 0) return due;
+    const suppressed = await getSuppressedEmails(Array.from(due.values()).map((entry) => entry.subscriber.email));
+    for (const [id, entry] of due) {
+        if (suppressed.has(entry.subscriber.email.toLowerCase())) due.delete(id);
+    }
+    return due;
+}
+
+const buildDedupeKey = (subscriptionId: string, item: SubscriberReminderItem): string =>
+    `deadline:${subscriptionId}:${item.postId}:${item.deadline.toISOString().slice(0, 10)}:${item.daysLeft}`;
+
+/**
+ * Claim the dispatch log slot for each reminder and return the ones not
+ * already sent. Reminders that were reserved before are dropped.
+ */
+export async function reserveSubscriberReminders(
+    subscriptionId: string,
+    items: SubscriberReminderItem[],
+): Promise<{ reserved: SubscriberReminderItem[]; logIds: string[]; deduped: number }> {
+    const reserved: SubscriberReminderItem[] = [];
+    const logIds: string[] = [];
+    let deduped = 0;
+
+    for (const item of items) {
+        try {
+            const log = await prisma.alertDispatchLog.create({
+                data: {
+                    subscriptionId,
+                    postId: item.postId,
+                    channel: 'email',
+                    status: 'pending',
+                    dedupeKey: buildDedupeKey(subscriptionId, item),
+                    metadata: { kind: 'deadline_reminder', daysLeft: item.daysLeft },
+                },
+                select: { id: true },
+            });
+            reserved.push(item);
+            logIds.push(log.id);
+        } catch (error) {
+            if (isUniqueConstraintError(error)) {
+                deduped += 1;
+                continue;
+            }
+            console.error('[SubscriberReminders] Failed to reserve dispatch slot:', error);
+        }
+    }
+
+    return { reserved, logIds, deduped };
+}
+
+/** Record the outcome of a reminder email against its reserved dispatch log rows. */
+export async function markSubscriberRemindersDispatched(logIds: string[], delivered: boolean): Promise<void> {
+    if (logIds.length === 0) return;
+    try {
+        await prisma.alertDispatchLog.updateMany({
+            where: { id: { in: logIds } },
+            data: { status: delivered ? 'sent' : 'failed', dispatchedAt: new Date() },
+        });
+    } catch (error) {
+        console.error('[SubscriberReminders] Failed to update dispatch log:', error);
+    }
+}
+
+/**
+ * Send standalone reminder emails to instant and weekly subscribers. Daily
+ * subscribers get their reminders inside the daily digest instead.
+ */
+export async function processSubscriberDeadlineRemindersOnce(now: Date = new Date()): Promise<SubscriberReminderRunResult> {
+    const due = await collectDueSubscriberReminders(now, ['instant', 'weekly']);
+    const posts = new Set<string>();
+    let emailSent = 0;
+    let deduped = 0;
+
+    for (const { subscriber, items } of due.values()) {
+        items.forEach((item) => posts.add(item.postId));
+        const reservation = await reserveSubscriberReminders(subscriber.id, items);
+        deduped += reservation.deduped;
+        if (reservation.reserved.length === 0) continue;
+
+        const delivered = await sendDigestEmail({
+            email: subscriber.email,
+            announcements: [],
+            reminders: reservation.reserved,
+            unsubscribeToken: subscriber.unsubscribeToken,
+            frequency: 'daily',
+            windowLabel: 'Last dates coming up',
+            locale: subscriber.locale,
+            template: 'deadline_reminder',
+        });
+        await markSubscriberRemindersDispatched(reservation.logIds, delivered);
+        if (delivered) emailSent += 1;
+    }
+
+    return { posts: posts.size, subscribers: due.size, emailSent, deduped };
+}
+
+async function runReminderCycle(): Promise<void> {
+    if (reminderRunInFlight) return;
+    reminderRunInFlight = true;
+    try {
+        const result = await processSubscriberDeadlineRemindersOnce();
+        if (result.subscribers > 0) {
+            console.log(
+                `[SubscriberReminders] posts=${result.posts} subscribers=${result.subscribers} email=${result.emailSent} deduped=${result.deduped}`
+            );
+        }
+    } catch (error) {
+        console.error('[SubscriberReminders] cycle failed:', error);
+    } finally {
+        reminderRunInFlight = false;
+    }
+}
+
+export function scheduleSubscriberDeadlineReminders(): void {
+    if (reminderInterval) return;
+    runReminderCycle().catch((error) => {
+        console.error('[SubscriberReminders] initial run failed:', error);
+    });
+    reminderInterval = setInterval(() => {
+        runReminderCycle().catch((error) => {
+            console.error('[SubscriberReminders] scheduled run failed:', error);
+        });
+    }, schedulerConfig.intervalMs);
+}
+
+export function stopSubscriberDeadlineReminders(): void {
+    if (!reminderInterval) return;
+    clearInterval(reminderInterval);
+    reminderInterval = null;
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+    return typeof error === 'object'
+        && error !== null
+        && 'code' in error
+        && error.code === 'P2002';
+}
@@ -1,8 +1,9 @@
-import type { AlertSubscriptionRecord } from '../content/types.js';
+import type { AlertSubscriptionRecord, ContentLocale } from '../content/types.js';
 import AlertSubscriptionModelPostgres from '../models/alertSubscriptions.postgres.js';
 import { Announcement } from '../types.js';
 
 import { sendAnnouncementEmail } from './email.js';
+import { getSuppressedEmails } from './emailSuppression.js';
 
 export interface SubscriberDispatchResult {
     matched: number;
@@ -87,11 +88,24 @@ export async function dispatchAnnouncementToSubscribers(
 
     const matchState = buildAnnouncementMatchState(announcement);
     const emailToToken = new Map<string, string>();
+    const emailsByLocale = new Map<ContentLocale, string[]>();
 
     for (const subscriber of subscribers) {
         if (!subscriber?.email || !subscriber?.unsubscribeToken) continue;
         if (!shouldDispatchToSubscriber(matchState, subscriber)) continue;
-        emailToToken.set(subscriber.email.toLowerCase(), subscriber.unsubscribeToken);
+        const email = subscriber.email.toLowerCase();
+        if (emailToToken.has(email)) continue;
+        emailToToken.set(email, subscriber.unsubscribeToken);
+        const locale = subscriber.locale || 'en';
+        emailsByLocale.set(locale, [...(emailsByLocale.get(locale) || []), email]);
+    }
+
+    const suppressed = await getSuppressedEmails(Array.from(emailToToken.keys()));
+    for (const email of suppressed) emailToToken.delete(email);
+    for (const [locale, emails] of emailsByLocale) {
+        const deliverable = emails.filter((email) => !suppressed.has(email));
+        if (deliverable.length > 0) emailsByLocale.set(locale, deliverable);
+        else emailsByLocale.delete(locale);
     }
 
     const matchedEmails = Array.from(emailToToken.keys());
@@ -100,7 +114,10 @@ export async function dispatchAnnouncementToSubscribers(
     }
 
     try {
-        const sent = await sendAnnouncementEmail(matchedEmails, announcement, emailToToken);
+        let sent = 0;
+        for (const [locale, emails] of emailsByLocale) {
+            sent += await sendAnnouncementEmail(emails, announcement, emailToToken, locale);
+        }
         const skipped = Math.max(0, matchedEmails.length - sent);
         return {
             matched: matchedEmails.length,
@@ -1,4 +1,5 @@
 import { config } from '../config.js';
+import type { ContentLocale } from '../content/types.js';
 import { Announcement } from '../types.js';
 
 const TELEGRAM_API_BASE = 'https://api.telegram.org/bot';
@@ -17,12 +18,33 @@ export function isTelegramConfigured(): boolean {
 }
 
 /**
- * Send a message to the configured Telegram channel
+ * Channel for a locale; Hindi posts only go out when a Hindi channel is set.
  */
-export async function sendTelegramMessage(text: string, parseMode: 'HTML' | 'Markdown' = 'HTML'): Promise<boolean> {
-  if (!isTelegramConfigured()) {
-    console.log('[Telegram] Not configured, skipping notification');
-    return false;
+function resolveChannelId(locale: ContentLocale): string {
+  return locale === 'hi' ? config.telegramChannelIdHi : config.telegramChannelId;
+}
+
+/**
+ * Configured broadcast channels, one per locale that has a channel ID.
+ */
+export function listTelegramChannels(): Array<{ locale: ContentLocale; chatId: string }> {
+  if (!config.telegramBotToken) return [];
+  const locales: ContentLocale[] = ['en', 'hi'];
+  return locales
+    .map((locale) => ({ locale, chatId: resolveChannelId(locale) }))
+    .filter((channel) => Boolean(channel.chatId));
+}
+
+/**
+ * Send a message to a specific Telegram chat or channel
+ */
+export async function sendTelegramMessageTo(
+  chatId: string,
+  text: string,
+  parseMode: 'HTML' | 'Markdown' = 'HTML'
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  if (!config.telegramBotToken || !chatId) {
+    return { success: false, error: 'Telegram is not configured' };
   }
 
   try {
@@ -31,7 +53,7 @@ export async function sendTelegramMessage(text: string, parseMode: 'HTML' | 'Mar
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        chat_id: config.telegramChannelId,
+        chat_id: chatId,
         text,
         parse_mode: parseMode,
         disable_web_page_preview: false,
@@ -42,44 +64,99 @@ export async function sendTelegramMessage(text: string, parseMode: 'HTML' | 'Mar
 
     if (!data.ok) {
       console.error('[Telegram] Failed to send message:', data.description);
-      return false;
+      return { success: false, error: data.description || 'Telegram rejected the message' };
     }
 
     console.log('[Telegram] Message sent successfully');
-    return true;
+    return { success: true, messageId: data.result?.message_id ? String(data.result.message_id) : undefined };
   } catch (error) {
     console.error('[Telegram] Error sending message:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send Telegram message' };
+  }
+}
+
+/**
+ * Send a message to the configured Telegram channel
+ */
+export async function sendTelegramMessage(
+  text: string,
+  parseMode: 'HTML' | 'Markdown' = 'HTML',
+  locale: ContentLocale = 'en'
+): Promise<boolean> {
+  const chatId = resolveChannelId(locale);
+  if (!config.telegramBotToken || !chatId) {
+    console.log(`[Telegram] Not configured for locale "${locale}", skipping notification`);
     return false;
   }
+
+  const result = await sendTelegramMessageTo(chatId, text, parseMode);
+  return result.success;
 }
 
+const MESSAGE_COPY: Record<ContentLocale, {
+  dateLocale: string;
+  new: string;
+  organization: string;
+  category: string;
+  totalPosts: string;
+  lastDate: string;
+  location: string;
+  viewDetails: string;
+}> = {
+  en: {
+    dateLocale: 'en-IN',
+    new: 'New',
+    organization: 'Organization',
+    category: 'Category',
+    totalPosts: 'Total Posts',
+    lastDate: 'Last Date',
+    location: 'Location',
+    viewDetails: 'View Details',
+  },
+  hi: {
+    dateLocale: 'hi-IN',
+    new: 'नया',
+    organization: 'संस्था',
+    category: 'श्रेणी',
+    totalPosts: 'कुल पद',
+    lastDate: 'अंतिम तिथि',
+    location: 'स्थान',
+    viewDetails: 'विवरण देखें',
+  },
+};
+
 /**
- * Format and send an announcement notification
+ * Format and send an announcement notification. For Hindi the caller passes
+ * the translated title and the `/hi/...` page as `path`.
  */
 export async function sendAnnouncementNotification(
   announcement: Announcement,
-  siteUrl: string = 'https://sarkariexams.me'
+  siteUrl: string = 'https://sarkariexams.me',
+  options: { locale?: ContentLocale; path?: string } = {}
 ): Promise<boolean> {
+  const locale = options.locale ?? 'en';
+  const copy = MESSAGE_COPY[locale];
   const typeEmoji = getTypeEmoji(announcement.type);
-  const typeName = getTypeName(announcement.type);
+  const typeName = getTypeName(announcement.type, locale);
+  const path = options.path ?? `/${announcement.type}/${announcement.slug}`;
 
   const message = `
-${typeEmoji} <b>New ${typeName}</b>
+${typeEmoji} <b>${locale === 'en' ? `${copy.new} ${typeName}` : typeName}</b>
 
 📌 <b>${escapeHtml(announcement.title)}</b>
 
-🏢 <b>Organization:</b> ${escapeHtml(announcement.organization)}
-📂 <b>Category:</b> ${escapeHtml(announcement.category)}
-${announcement.totalPosts ? `👥 <b>Total Posts:</b> ${announcement.totalPosts.toLocaleString()}` : ''}
-${announcement.deadline ? `📅 <b>Last Date:</b> ${formatDate(announcement.deadline)}` : ''}
-${announcement.location ? `📍 <b>Location:</b> ${escapeHtml(announcement.location)}` : ''}
+🏢 <b>${copy.organization}:</b> ${escapeHtml(announcement.organization)}
+📂 <b>${copy.category}:</b> ${escapeHtml(announcement.category)}
+${announcement.totalPosts ? `👥 <b>${copy.totalPosts}:</b> ${announcement.totalPosts.toLocaleString(copy.dateLocale)}` : ''}
+${announcement.deadline ? `📅 <b>${copy.lastDate}:</b> ${formatDate(announcement.deadline, copy.dateLocale)}` : ''}
+${announcement.location ? `📍 <b>${copy.location}:</b> ${escapeHtml(announcement.location)}` : ''}
 
-🔗 <a href="${siteUrl}/${announcement.type}/${announcement.slug}">View Details</a>
+🔗 <a href="${siteUrl}${path}">${copy.viewDetails}</a>
 
 #SarkariResult #${announcement.type.replace('-', '')} #GovtJobs
 `.trim();
 
-  return sendTelegramMessage(message, 'HTML');
+  return sendTelegramMessage(message, 'HTML', locale);
 }
 
 /**
@@ -100,22 +177,32 @@ function getTypeEmoji(type: string): string {
 /**
  * Get display name for announcement type
  */
-function getTypeName(type: string): string {
-  const names: Record<string, string> = {
-    'job': 'Job Notification',
-    'result': 'Result Declared',
-    'admit-card': 'Admit Card Available',
-    'answer-key': 'Answer Key Released',
-    'admission': 'Admission Open',
-    'syllabus': 'Syllabus Published',
+function getTypeName(type: string, locale: ContentLocale = 'en'): string {
+  const names: Record<ContentLocale, Record<string, string>> = {
+    en: {
+      'job': 'Job Notification',
+      'result': 'Result Declared',
+      'admit-card': 'Admit Card Available',
+      'answer-key': 'Answer Key Released',
+      'admission': 'Admission Open',
+      'syllabus': 'Syllabus Published',
+    },
+    hi: {
+      'job': 'नई भर्ती अधिसूचना',
+      'result': 'परिणाम घोषित',
+      'admit-card': 'प्रवेश पत्र जारी',
+      'answer-key': 'उत्तर कुंजी जारी',
+      'admission': 'प्रवेश शुरू',
+      'syllabus': 'पाठ्यक्रम प्रकाशित',
+    },
   };
-  return names[type] || 'Announcement';
+  return names[locale][type] || (locale === 'hi' ? 'सूचना' : 'Announcement');
 }
 
 /**
  * Escape HTML special characters
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -125,7 +212,7 @@ function escapeHtml(text: string): string {
 /**
  * Format date for display
  */
-function formatDate(date: Date | string): string {
+function formatDate(date: Date | string, dateLocale = 'en-IN'): string {
   const d = typeof date === 'string' ? new Date(date) : date;
-  return d.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+  return d.toLocaleDateString(dateLocale, { day: '2-digit', month: 'short', year: 'numeric' });
 }
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+
+/**
+ * RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second step),
+ * the profile every mainstream authenticator app understands.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+export const buildOtpAuthUri = (params: { secret: string; accountName: string; issuer: string }): string => {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${query.toString()}`;
+};
+
+const hotp = (key: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = ((digest[offset] & 0x7f) << 24)
+    | (digest[offset + 1] << 16)
+    | (digest[offset + 2] << 8)
+    | digest[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotpCode = (secret: string, at: number = Date.now()): string =>
+  hotp(base32Decode(secret), Math.floor(at / 1000 / TOTP_STEP_SECONDS));
+
+/**
+ * Returns the time step a code belongs to, or null when it does not match.
+ * Accepts the current step plus `window` steps either side to tolerate clock
+ * drift between the server and the authenticator.
+ */
+export const findTotpStep = (
+  secret: string,
+  code: string,
+  options: { window?: number; at?: number } = {},
+): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  let key: Buffer;
+  try {
+    key = base32Decode(secret);
+  } catch {
+    return null;
+  }
+
+  const window = options.window ?? 1;
+  const counter = Math.floor((options.at ?? Date.now()) / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -window; drift <= window; drift += 1) {
+    const candidate = hotp(key, counter + drift);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) return counter + drift;
+  }
+  return null;
+};
+
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  options: { window?: number; at?: number } = {},
+): boolean => findTotpStep(secret, code, options) !== null;
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+export const generateRecoveryCodes = (count: number = RECOVERY_CODE_COUNT): string[] =>
+  Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
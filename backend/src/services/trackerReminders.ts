@@ -8,6 +8,7 @@ import { UserModelPostgres } from '../models/users.postgres.js';
 import type { ContentType } from '../types.js';
 
 import { sendDigestEmail } from './email.js';
+import { getSuppressedEmails } from './emailSuppression.js';
 import { prismaApp } from './postgres/prisma.js';
 
 interface ReminderItem {
@@ -119,8 +120,11 @@ async function loadUserEmailMap(userIds: string[]): Promise<Map<string, string>>
 
 async function loadSubscriptionTokenMap(emails: string[]): Promise<Map<string, string>> {
     const subscriptions = await AlertSubscriptionModelPostgres.listByEmails(emails);
+    const suppressed = await getSuppressedEmails(emails);
     return new Map(
-        subscriptions.map((doc) => [normalizeEmail(doc.email), doc.unsubscribeToken]),
+        subscriptions
+            .filter((doc) => !suppressed.has(normalizeEmail(doc.email)))
+            .map((doc) => [normalizeEmail(doc.email), doc.unsubscribeToken]),
     );
 }
 
@@ -260,6 +264,7 @@ export async function processTrackerRemindersOnce(now: Date = new Date()): Promi
             unsubscribeToken,
             frequency: 'daily',
             windowLabel,
+            template: 'tracker_reminder',
         });
         if (delivered) {
             emailSent += 1;
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+
+import { SiteSettingsModelPostgres } from '../models/siteSettings.postgres.js';
+import type { UserAuth } from '../models/users.postgres.js';
+import { UserModelPostgres } from '../models/users.postgres.js';
+
+import { isStaffRole } from './permissions.js';
+import RedisCache from './redis.js';
+import { findTotpStep, generateRecoveryCodes, hashRecoveryCode } from './totp.js';
+
+const CHALLENGE_KEY_PREFIX = 'auth:two-factor:challenge';
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+/**
+ * `verify` challenges ask an enrolled user for a code; `setup` challenges are
+ * issued when the site requires 2FA for a staff account that has not enrolled.
+ */
+export type TwoFactorChallengeStage = 'verify' | 'setup';
+
+export type TwoFactorChallengePayload = {
+  userId: string;
+  stage: TwoFactorChallengeStage;
+  createdAt: string;
+  attempts: number;
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const challengeKey = (token: string) => `${CHALLENGE_KEY_PREFIX}:${hashToken(token)}`;
+
+const normalizeChallenge = (raw: unknown): TwoFactorChallengePayload | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const value = raw as Record<string, unknown>;
+  if (typeof value.userId !== 'string' || !value.userId.trim()) return null;
+  if (value.stage !== 'verify' && value.stage !== 'setup') return null;
+  if (typeof value.createdAt !== 'string') return null;
+
+  const attempts = Number(value.attempts ?? 0);
+
+  return {
+    userId: value.userId,
+    stage: value.stage,
+    createdAt: value.createdAt,
+    attempts: Number.isFinite(attempts) ? attempts : 0,
+  };
+};
+
+/**
+ * Whether the `requireStaffTwoFactor` site setting applies to this role.
+ */
+export const isTwoFactorEnforcedForRole = async (role: string | undefined): Promise<boolean> => {
+  if (!isStaffRole(role)) return false;
+  const settings = await SiteSettingsModelPostgres.getMain();
+  return settings?.requireStaffTwoFactor === true;
+};
+
+export const issueTwoFactorChallenge = async (params: {
+  userId: string;
+  stage: TwoFactorChallengeStage;
+}): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const payload: TwoFactorChallengePayload = {
+    userId: params.userId,
+    stage: params.stage,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await RedisCache.set(challengeKey(token), payload, CHALLENGE_TTL_SECONDS);
+  return token;
+};
+
+export const getTwoFactorChallenge = async (token: string): Promise<TwoFactorChallengePayload | null> => {
+  if (!token?.trim()) return null;
+  return normalizeChallenge(await RedisCache.get(challengeKey(token)));
+};
+
+/**
+ * Count a failed code against the challenge. The challenge is dropped once the
+ * attempt budget is spent, forcing the user back to the password step.
+ */
+export const markTwoFactorChallengeAttempt = async (token: string): Promise<number> => {
+  const payload = await getTwoFactorChallenge(token);
+  if (!payload) return 0;
+
+  const nextAttempts = payload.attempts + 1;
+  if (nextAttempts >= CHALLENGE_MAX_ATTEMPTS) {
+    await RedisCache.del(challengeKey(token));
+    return nextAttempts;
+  }
+
+  await RedisCache.set(challengeKey(token), { ...payload, attempts: nextAttempts }, CHALLENGE_TTL_SECONDS);
+  return nextAttempts;
+};
+
+export const consumeTwoFactorChallenge = async (token: string): Promise<void> => {
+  if (!token?.trim()) return;
+  await RedisCache.del(challengeKey(token));
+};
+
+export const countRemainingRecoveryCodes = (user: UserAuth): number =>
+  (user.twoFactorBackupCodes ?? []).filter((entry) => !entry.usedAt).length;
+
+/**
+ * Check a TOTP code or an unused recovery code. A matching recovery code is
+ * marked used, and a TOTP code's time step must be newer than the last one
+ * accepted, so neither can be replayed.
+ */
+export const verifySecondFactor = async (
+  user: UserAuth,
+  input: { code?: string; recoveryCode?: string },
+): Promise<{ method: 'totp' | 'recovery_code'; remainingRecoveryCodes: number } | null> => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+  if (input.code) {
+    const step = findTotpStep(user.twoFactorSecret, input.code);
+    if (step === null || !(await UserModelPostgres.claimTwoFactorStep(user.id, step))) return null;
+    return { method: 'totp', remainingRecoveryCodes: countRemainingRecoveryCodes(user) };
+  }
+
+  if (!input.recoveryCode) return null;
+
+  const remainingRecoveryCodes = await UserModelPostgres.claimRecoveryCode(user.id, hashRecoveryCode(input.recoveryCode));
+  if (remainingRecoveryCodes === null) return null;
+
+  return { method: 'recovery_code', remainingRecoveryCodes };
+};
+
+/**
+ * Promote the pending secret to the active one and issue fresh recovery codes.
+ * The plain codes are returned once; only their hashes are stored. `usedStep`
+ * is the step of the enrolment code, which then cannot be used to sign in.
+ */
+export const enableTwoFactor = async (userId: string, secret: string, usedStep: number | null = null): Promise<string[]> => {
+  const recoveryCodes = generateRecoveryCodes();
+  const now = new Date();
+
+  await UserModelPostgres.update(userId, {
+    twoFactorEnabled: true,
+    twoFactorSecret: secret,
+    twoFactorTempSecret: null,
+    twoFactorVerifiedAt: now,
+    twoFactorBackupCodes: recoveryCodes.map((code) => ({ codeHash: hashRecoveryCode(code), usedAt: null })),
+    twoFactorBackupCodesUpdatedAt: now,
+    twoFactorLastUsedStep: usedStep,
+  });
+
+  return recoveryCodes;
+};
+
+/**
+ * Replace every recovery code of an enrolled user, used or not. The plain codes
+ * are returned once; the old ones stop working immediately.
+ */
+export const regenerateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const recoveryCodes = generateRecoveryCodes();
+  await UserModelPostgres.update(userId, {
+    twoFactorBackupCodes: recoveryCodes.map((code) => ({ codeHash: hashRecoveryCode(code), usedAt: null })),
+    twoFactorBackupCodesUpdatedAt: new Date(),
+  });
+  return recoveryCodes;
+};
+
+export const resetTwoFactor = async (userId: string) =>
+  UserModelPostgres.update(userId, {
+    twoFactorEnabled: false,
+    twoFactorSecret: null,
+    twoFactorTempSecret: null,
+    twoFactorVerifiedAt: null,
+    twoFactorBackupCodes: [],
+    twoFactorBackupCodesUpdatedAt: new Date(),
+    twoFactorLastUsedStep: null,
+  });
@@ -2,12 +2,20 @@ import express from 'express';
 import request from 'supertest';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { resolvePermissions } from '../services/permissions.js';
+
 const mocks = vi.hoisted(() => ({
+  actor: {
+    user: { userId: 'admin-user', role: 'admin', email: 'admin@example.com' },
+    permissions: [] as string[],
+  },
   findAllUsers: vi.fn(),
   countUsers: vi.fn(),
   findUserById: vi.fn(),
   updateUser: vi.fn(),
   deleteUser: vi.fn(),
+  listPermissionOverrides: vi.fn(),
+  replacePermissionOverrides: vi.fn(),
   createAuditLog: vi.fn(),
   listPushSubscriptions: vi.fn(),
   listAllPushSubscriptions: vi.fn(),
@@ -38,10 +46,13 @@ const mocks = vi.hoisted(() => ({
 
 vi.mock('../middleware/auth.js', () => ({
   authenticateToken: (req: any, _res: any, next: any) => {
-    req.user = { userId: 'admin-user', role: 'admin', email: 'admin@example.com' };
+    req.user = { ...mocks.actor.user };
+    req.permissions = [...mocks.actor.permissions];
     next();
   },
-  requireAdmin: (_req: any, _res: any, next: any) => next(),
+  requireAdminStepUp: (_req: any, _res: any, next: any) => next(),
+  requireEditorialAccess: (_req: any, _res: any, next: any) => next(),
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
 }));
 
 vi.mock('../middleware/rateLimit.js', () => ({
@@ -58,6 +69,13 @@ vi.mock('../models/users.postgres.js', () => ({
   },
 }));
 
+vi.mock('../models/permissionOverrides.postgres.js', () => ({
+  default: {
+    listByUser: mocks.listPermissionOverrides,
+    replaceForUser: mocks.replacePermissionOverrides,
+  },
+}));
+
 vi.mock('../models/auditLogs.postgres.js', () => ({
   default: { create: mocks.createAuditLog },
 }));
@@ -149,11 +167,15 @@ const createApp = async () => {
 describe('admin routes', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mocks.actor.user = { userId: 'admin-user', role: 'admin', email: 'admin@example.com' };
+    mocks.actor.permissions = resolvePermissions('admin');
     mocks.findAllUsers.mockResolvedValue([]);
     mocks.countUsers.mockResolvedValue(0);
     mocks.findUserById.mockResolvedValue(null);
     mocks.updateUser.mockResolvedValue(null);
     mocks.deleteUser.mockResolvedValue(false);
+    mocks.listPermissionOverrides.mockResolvedValue([]);
+    mocks.replacePermissionOverrides.mockResolvedValue([]);
     mocks.createAuditLog.mockResolvedValue({ id: 'audit-1' });
     mocks.listPushSubscriptions.mockResolvedValue({ data: [], total: 0, count: 0 });
     mocks.listAllPushSubscriptions.mockResolvedValue([]);
@@ -236,6 +258,8 @@ describe('admin routes', () => {
   });
 
   it('blocks demoting the last active privileged user', async () => {
+    mocks.actor.user = { userId: 'super-user', role: 'superadmin', email: 'super@example.com' };
+    mocks.actor.permissions = resolvePermissions('superadmin');
     mocks.findUserById.mockResolvedValue({ id: 'user-1', role: 'admin', isActive: true });
     mocks.countUsers.mockResolvedValue(1);
 
@@ -252,11 +276,39 @@ describe('admin routes', () => {
     const response = await request(app).patch('/admin/users/admin-user').send({ role: 'editor' });
 
     expect(response.status).toBe(400);
-    expect(response.body.error).toContain('Cannot demote your own admin account');
+    expect(response.body.error).toContain('Cannot change your own role');
+    expect(mocks.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('blocks an editor with a users:manage override from promoting themselves', async () => {
+    mocks.actor.user = { userId: 'editor-1', role: 'editor', email: 'editor@example.com' };
+    mocks.actor.permissions = resolvePermissions('editor', [{ permission: 'users:manage', effect: 'grant' }]);
+    mocks.findUserById.mockResolvedValue({ id: 'editor-1', role: 'editor', isActive: true });
+
+    const app = await createApp();
+    const admin = await request(app).patch('/admin/users/editor-1').send({ role: 'admin' });
+    const reviewer = await request(app).patch('/admin/users/editor-1').send({ role: 'reviewer' });
+
+    expect(admin.status).toBe(403);
+    expect(admin.body.error).toContain('Only a superadmin');
+    expect(reviewer.status).toBe(403);
+    expect(reviewer.body.error).toContain('posts:approve');
+    expect(mocks.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('only lets a superadmin assign privileged roles', async () => {
+    mocks.findUserById.mockResolvedValue({ id: 'editor-1', role: 'editor', isActive: true });
+
+    const app = await createApp();
+    const response = await request(app).patch('/admin/users/editor-1').send({ role: 'superadmin' });
+
+    expect(response.status).toBe(403);
     expect(mocks.updateUser).not.toHaveBeenCalled();
   });
 
   it('records the supplied audit reason for a role change', async () => {
+    mocks.actor.user = { userId: 'super-user', role: 'superadmin', email: 'admin@example.com' };
+    mocks.actor.permissions = resolvePermissions('superadmin');
     mocks.findUserById.mockResolvedValue({ id: 'editor-1', role: 'editor', isActive: true });
     mocks.updateUser.mockResolvedValue({ id: 'editor-1', email: 'editor@example.com', role: 'admin', isActive: true });
 
@@ -270,7 +322,7 @@ describe('admin routes', () => {
     expect(mocks.updateUser).toHaveBeenCalledWith('editor-1', { role: 'admin' });
     expect(mocks.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
       action: 'admin_user_role_changed',
-      actorId: 'admin-user',
+      actorId: 'super-user',
       metadata: expect.objectContaining({
         actorEmail: 'admin@example.com',
         auditReason: 'Approved access escalation',
@@ -281,6 +333,8 @@ describe('admin routes', () => {
   });
 
   it('blocks demoting the last active superadmin even when another admin exists', async () => {
+    mocks.actor.user = { userId: 'super-user', role: 'superadmin', email: 'super@example.com' };
+    mocks.actor.permissions = resolvePermissions('superadmin');
     mocks.findUserById.mockResolvedValue({ id: 'super-1', role: 'superadmin', isActive: true });
     mocks.countUsers.mockResolvedValueOnce(1);
 
@@ -293,6 +347,8 @@ describe('admin routes', () => {
   });
 
   it('blocks deleting the last active privileged user', async () => {
+    mocks.actor.user = { userId: 'super-user', role: 'superadmin', email: 'super@example.com' };
+    mocks.actor.permissions = resolvePermissions('superadmin');
     mocks.findUserById.mockResolvedValue({ id: 'user-1', role: 'admin', isActive: true });
     mocks.countUsers.mockResolvedValue(1);
 
@@ -312,6 +368,67 @@ describe('admin routes', () => {
     expect(mocks.deleteUser).not.toHaveBeenCalled();
   });
 
+  it('keeps admins from demoting, deactivating, deleting or resetting other admins', async () => {
+    mocks.findUserById.mockResolvedValue({ id: 'admin-2', email: 'other@example.com', role: 'admin', isActive: true, twoFactorEnabled: true });
+
+    const app = await createApp();
+    const responses = [
+      await request(app).patch('/admin/users/admin-2').send({ role: 'editor' }),
+      await request(app).patch('/admin/users/admin-2').send({ isActive: false }),
+      await request(app).delete('/admin/users/admin-2'),
+      await request(app).post('/admin/users/admin-2/two-factor/reset').send({}),
+      await request(app).post('/admin/users/admin-2/sessions/revoke').send({}),
+      await request(app).put('/admin/users/admin-2/permissions').send({ overrides: [{ permission: 'users:manage', effect: 'deny' }] }),
+    ];
+
+    for (const response of responses) {
+      expect(response.status).toBe(403);
+      expect(response.body.error).toContain('Only a superadmin');
+    }
+    expect(mocks.updateUser).not.toHaveBeenCalled();
+    expect(mocks.deleteUser).not.toHaveBeenCalled();
+    expect(mocks.replacePermissionOverrides).not.toHaveBeenCalled();
+  });
+
+  it('keeps an editor with a users:manage override off accounts holding permissions they lack', async () => {
+    mocks.actor.user = { userId: 'editor-1', role: 'editor', email: 'editor@example.com' };
+    mocks.actor.permissions = resolvePermissions('editor', [{ permission: 'users:manage', effect: 'grant' }]);
+    mocks.findUserById.mockImplementation(async (id: string) => ({
+      id,
+      email: `${id}@example.com`,
+      role: id === 'super-1' ? 'superadmin' : 'reviewer',
+      isActive: true,
+      twoFactorEnabled: true,
+    }));
+
+    const app = await createApp();
+    const superadmin = await request(app).patch('/admin/users/super-1').send({ isActive: false });
+    const reviewer = await request(app).delete('/admin/users/reviewer-1');
+    const reset = await request(app).post('/admin/users/reviewer-1/two-factor/reset').send({});
+
+    expect(superadmin.status).toBe(403);
+    expect(superadmin.body.error).toContain('Only a superadmin');
+    expect(reviewer.status).toBe(403);
+    expect(reviewer.body.error).toContain('posts:approve');
+    expect(reset.status).toBe(403);
+    expect(mocks.updateUser).not.toHaveBeenCalled();
+    expect(mocks.deleteUser).not.toHaveBeenCalled();
+  });
+
+  it('weighs the target account overrides when checking who may change it', async () => {
+    mocks.findUserById.mockResolvedValue({ id: 'editor-2', email: 'editor2@example.com', role: 'editor', isActive: true });
+    mocks.listPermissionOverrides.mockResolvedValue([{ permission: 'settings:write', effect: 'grant' }]);
+    mocks.actor.permissions = resolvePermissions('admin').filter((permission) => permission !== 'settings:write');
+
+    const app = await createApp();
+    const response = await request(app).patch('/admin/users/editor-2').send({ isActive: false });
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toContain('settings:write');
+    expect(mocks.listPermissionOverrides).toHaveBeenCalledWith('editor-2');
+    expect(mocks.updateUser).not.toHaveBeenCalled();
+  });
+
   it('passes authenticated userId into actor-backed admin services', async () => {
     const app = await createApp();
 
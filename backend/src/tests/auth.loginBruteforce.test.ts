@@ -22,6 +22,12 @@ vi.mock('../models/users.postgres.js', () => ({
   },
 }));
 
+vi.mock('../models/userSessions.postgres.js', () => ({
+  UserSessionModelPostgres: {
+    create: vi.fn(async (data: { id: string }) => ({ ...data, createdAt: new Date(), lastSeenAt: new Date() })),
+  },
+}));
+
 vi.mock('../middleware/security.js', () => ({
   bruteForceProtection: (req: any, res: any, next: any) => bruteForceProtectionImpl(req, res, next),
   clearFailedLoginsWithEmail: clearFailedLoginsWithEmailMock,
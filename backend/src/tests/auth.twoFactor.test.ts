@@ -0,0 +1,358 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  verifyPassword: vi.fn(),
+  verifyPasswordById: vi.fn(),
+  findById: vi.fn(),
+  findByIdWithSecrets: vi.fn(),
+  updateUser: vi.fn(),
+  claimTwoFactorStep: vi.fn(),
+  claimRecoveryCode: vi.fn(),
+  getSettings: vi.fn(),
+  createAudit: vi.fn(),
+  logSecurityEvent: vi.fn(),
+}));
+
+vi.mock('../models/users.postgres.js', () => ({
+  UserModelPostgres: {
+    verifyPassword: mocks.verifyPassword,
+    verifyPasswordById: mocks.verifyPasswordById,
+    findById: mocks.findById,
+    findByIdWithSecrets: mocks.findByIdWithSecrets,
+    update: mocks.updateUser,
+    claimTwoFactorStep: mocks.claimTwoFactorStep,
+    claimRecoveryCode: mocks.claimRecoveryCode,
+  },
+}));
+
+vi.mock('../models/siteSettings.postgres.js', () => ({
+  SiteSettingsModelPostgres: { getMain: mocks.getSettings },
+}));
+
+vi.mock('../models/permissionOverrides.postgres.js', () => ({
+  PermissionOverrideModelPostgres: { listByUser: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock('../models/userSessions.postgres.js', () => ({
+  UserSessionModelPostgres: {
+    create: vi.fn(async (data: { id: string }) => ({ ...data, createdAt: new Date(), lastSeenAt: new Date() })),
+  },
+}));
+
+vi.mock('../models/auditLogs.postgres.js', () => ({
+  default: { create: mocks.createAudit },
+}));
+
+vi.mock('../services/securityLogger.js', () => ({
+  SecurityLogger: { log: mocks.logSecurityEvent },
+}));
+
+vi.mock('../middleware/security.js', () => ({
+  bruteForceProtection: (_req: any, _res: any, next: any) => next(),
+  clearFailedLoginsWithEmail: vi.fn(),
+  getClientIP: () => '203.0.113.9',
+  recordFailedLoginWithEmail: vi.fn(),
+}));
+
+import authRouter from '../routes/auth.js';
+import { base32Encode, findTotpStep, generateTotpCode, hashRecoveryCode, verifyTotpCode } from '../services/totp.js';
+
+// RFC 6238 appendix B seed for SHA-1.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const createAuthApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRouter);
+  return app;
+};
+
+const editor = (overrides: Record<string, unknown> = {}) => ({
+  id: 'editor-1',
+  email: 'editor@example.com',
+  username: 'Editor',
+  role: 'editor',
+  isActive: true,
+  createdAt: new Date().toISOString(),
+  twoFactorEnabled: false,
+  ...overrides,
+});
+
+describe('totp', () => {
+  it('matches the RFC 6238 reference values', () => {
+    expect(generateTotpCode(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotpCode(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+  });
+
+  it('accepts one step of clock drift and rejects malformed codes', () => {
+    const at = 1111111109 * 1000;
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, at - 30_000), { at })).toBe(true);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, at - 90_000), { at })).toBe(false);
+    expect(verifyTotpCode(RFC_SECRET, '12ab56', { at })).toBe(false);
+  });
+
+  it('reports the time step a code belongs to', () => {
+    const at = 1_700_000_000_000;
+    const step = Math.floor(at / 1000 / 30);
+    expect(findTotpStep(RFC_SECRET, generateTotpCode(RFC_SECRET, at), { at })).toBe(step);
+    expect(findTotpStep(RFC_SECRET, generateTotpCode(RFC_SECRET, at - 30_000), { at })).toBe(step - 1);
+    expect(findTotpStep(RFC_SECRET, generateTotpCode(RFC_SECRET, at - 90_000), { at })).toBeNull();
+  });
+});
+
+describe('auth two-factor login', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getSettings.mockResolvedValue({});
+    mocks.updateUser.mockResolvedValue(editor());
+    mocks.claimTwoFactorStep.mockResolvedValue(true);
+    mocks.claimRecoveryCode.mockResolvedValue(null);
+  });
+
+  it('issues a challenge instead of a session for enrolled accounts', async () => {
+    mocks.verifyPassword.mockResolvedValue(editor({ twoFactorEnabled: true }));
+
+    const response = await request(createAuthApp())
+      .post('/api/auth/login')
+      .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user).toBeUndefined();
+    expect(response.body.data.twoFactor).toMatchObject({ required: true, setupRequired: false });
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('requires enrolment when the site enforces 2FA for staff', async () => {
+    mocks.getSettings.mockResolvedValue({ requireStaffTwoFactor: true });
+    mocks.verifyPassword.mockResolvedValue(editor());
+    mocks.findById.mockResolvedValue(editor());
+    const app = createAuthApp();
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+    expect(login.body.data.twoFactor).toMatchObject({ required: true, setupRequired: true });
+
+    const setup = await request(app)
+      .post('/api/auth/2fa/setup')
+      .send({ challengeToken: login.body.data.twoFactor.challengeToken });
+    expect(setup.status).toBe(200);
+    expect(setup.body.data.otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+
+    const secret = setup.body.data.secret as string;
+    mocks.findByIdWithSecrets.mockResolvedValue(editor({ twoFactorTempSecret: secret }));
+
+    const enrolmentCode = generateTotpCode(secret);
+    const verify = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: login.body.data.twoFactor.challengeToken, code: enrolmentCode });
+
+    expect(verify.status).toBe(200);
+    expect(verify.body.data.user.id).toBe('editor-1');
+    expect(verify.body.data.recoveryCodes).toHaveLength(10);
+    expect(mocks.updateUser).toHaveBeenCalledWith('editor-1', expect.objectContaining({
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      twoFactorLastUsedStep: findTotpStep(secret, enrolmentCode),
+    }));
+    expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'two_factor_enabled' }));
+  });
+
+  it('signs in with a recovery code once and records its use', async () => {
+    mocks.claimRecoveryCode.mockResolvedValueOnce(1);
+    mocks.verifyPassword.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    mocks.findByIdWithSecrets.mockResolvedValue(editor({
+      twoFactorEnabled: true,
+      twoFactorSecret: RFC_SECRET,
+      twoFactorBackupCodes: [
+        { codeHash: hashRecoveryCode('abcde-12345'), usedAt: null },
+        { codeHash: hashRecoveryCode('fghij-67890'), usedAt: null },
+      ],
+    }));
+    const app = createAuthApp();
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+
+    const verify = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: login.body.data.twoFactor.challengeToken, recoveryCode: 'ABCDE-12345' });
+
+    expect(verify.status).toBe(200);
+    expect(verify.headers['set-cookie']).toBeDefined();
+    expect(mocks.claimRecoveryCode).toHaveBeenCalledWith('editor-1', hashRecoveryCode('abcde-12345'));
+    expect(mocks.logSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({
+      event_type: 'two_factor',
+      metadata: expect.objectContaining({ action: 'recovery_code_used', remainingRecoveryCodes: 1 }),
+    }));
+    expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'two_factor_recovery_code_used' }));
+
+    const replay = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: login.body.data.twoFactor.challengeToken, recoveryCode: 'ABCDE-12345' });
+    expect(replay.status).toBe(400);
+  });
+
+  it('refuses a recovery code that a parallel sign-in already redeemed', async () => {
+    mocks.verifyPassword.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    mocks.findByIdWithSecrets.mockResolvedValue(editor({
+      twoFactorEnabled: true,
+      twoFactorSecret: RFC_SECRET,
+      twoFactorBackupCodes: [{ codeHash: hashRecoveryCode('abcde-12345'), usedAt: null }],
+    }));
+    const app = createAuthApp();
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+    const verify = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: login.body.data.twoFactor.challengeToken, recoveryCode: 'abcde-12345' });
+
+    expect(verify.status).toBe(401);
+    expect(verify.headers['set-cookie']).toBeUndefined();
+    expect(mocks.updateUser).not.toHaveBeenCalledWith('editor-1', expect.objectContaining({ twoFactorBackupCodes: expect.anything() }));
+  });
+
+  it('rejects a TOTP code whose time step was already used', async () => {
+    mocks.verifyPassword.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    mocks.findByIdWithSecrets.mockResolvedValue(editor({ twoFactorEnabled: true, twoFactorSecret: RFC_SECRET }));
+    mocks.claimTwoFactorStep.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const app = createAuthApp();
+    const code = generateTotpCode(RFC_SECRET);
+
+    const signIn = async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+      return request(app)
+        .post('/api/auth/2fa/verify')
+        .send({ challengeToken: login.body.data.twoFactor.challengeToken, code });
+    };
+
+    expect((await signIn()).status).toBe(200);
+    const replay = await signIn();
+    expect(replay.status).toBe(401);
+    expect(replay.headers['set-cookie']).toBeUndefined();
+    expect(mocks.claimTwoFactorStep).toHaveBeenNthCalledWith(1, 'editor-1', findTotpStep(RFC_SECRET, code));
+    expect(mocks.claimTwoFactorStep).toHaveBeenNthCalledWith(2, 'editor-1', findTotpStep(RFC_SECRET, code));
+  });
+
+  it('rejects wrong codes without starting a session', async () => {
+    mocks.verifyPassword.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    mocks.findByIdWithSecrets.mockResolvedValue(editor({ twoFactorEnabled: true, twoFactorSecret: RFC_SECRET }));
+    const app = createAuthApp();
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+
+    const verify = await request(app)
+      .post('/api/auth/2fa/verify')
+      .send({ challengeToken: login.body.data.twoFactor.challengeToken, code: '000000' });
+
+    expect(verify.status).toBe(401);
+    expect(verify.headers['set-cookie']).toBeUndefined();
+  });
+});
+
+describe('self-service two-factor management', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getSettings.mockResolvedValue({});
+    mocks.updateUser.mockResolvedValue(editor());
+    mocks.verifyPasswordById.mockResolvedValue(true);
+  });
+
+  /** Signs in without 2FA and steps up with the password, as the admin UI does. */
+  const signInWithStepUp = async (app: express.Express) => {
+    mocks.verifyPassword.mockResolvedValue(editor());
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'editor@example.com', password: 'Valid1!Pass' });
+    const cookie = String(login.headers['set-cookie']).match(/auth_token=([^;]+)/)![1];
+    const stepUp = await request(app)
+      .post('/api/auth/step-up')
+      .set('Authorization', `Bearer ${cookie}`)
+      .send({ password: 'Valid1!Pass' });
+    return { authorization: `Bearer ${cookie}`, 'X-Step-Up-Token': stepUp.body.data.stepUpToken };
+  };
+
+  it('enrols from a signed-in session and returns recovery codes once', async () => {
+    const app = createAuthApp();
+    mocks.findById.mockResolvedValue(editor());
+    const headers = await signInWithStepUp(app);
+
+    const setup = await request(app).post('/api/auth/2fa/enrol').set(headers).send({});
+    expect(setup.status).toBe(200);
+    const { secret } = setup.body.data;
+    expect(mocks.updateUser).toHaveBeenCalledWith('editor-1', { twoFactorTempSecret: secret });
+
+    mocks.findByIdWithSecrets.mockResolvedValue(editor({ twoFactorTempSecret: secret }));
+    const code = generateTotpCode(secret);
+    const confirm = await request(app).post('/api/auth/2fa/enrol/confirm').set(headers).send({ code });
+
+    expect(confirm.status).toBe(200);
+    expect(confirm.body.data.recoveryCodes).toHaveLength(10);
+    expect(mocks.updateUser).toHaveBeenCalledWith('editor-1', expect.objectContaining({
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      twoFactorLastUsedStep: findTotpStep(secret, code),
+    }));
+    expect(mocks.logSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({
+      event_type: 'two_factor',
+      metadata: expect.objectContaining({ action: 'two_factor_enabled', userId: 'editor-1' }),
+    }));
+    expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'two_factor_enabled', actorId: 'editor-1' }));
+  });
+
+  it('requires a step-up for every self-service change', async () => {
+    const app = createAuthApp();
+    mocks.findById.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    const { authorization } = await signInWithStepUp(app);
+
+    for (const path of ['/api/auth/2fa/enrol', '/api/auth/2fa/enrol/confirm', '/api/auth/2fa/recovery-codes', '/api/auth/2fa/disable']) {
+      const response = await request(app).post(path).set('Authorization', authorization).send({ code: '123456' });
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('STEP_UP_REQUIRED');
+    }
+    expect(mocks.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('regenerates recovery codes and disables 2FA with audit entries', async () => {
+    const app = createAuthApp();
+    mocks.findById.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    const headers = await signInWithStepUp(app);
+
+    const regenerate = await request(app).post('/api/auth/2fa/recovery-codes').set(headers).send({});
+    expect(regenerate.status).toBe(200);
+    expect(regenerate.body.data.recoveryCodes).toHaveLength(10);
+    expect(mocks.updateUser).toHaveBeenCalledWith('editor-1', expect.objectContaining({
+      twoFactorBackupCodes: regenerate.body.data.recoveryCodes.map((code: string) => ({ codeHash: hashRecoveryCode(code), usedAt: null })),
+    }));
+    expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'two_factor_recovery_codes_regenerated' }));
+
+    const disable = await request(app).post('/api/auth/2fa/disable').set(headers).send({});
+    expect(disable.status).toBe(200);
+    expect(mocks.updateUser).toHaveBeenCalledWith('editor-1', expect.objectContaining({ twoFactorEnabled: false, twoFactorSecret: null }));
+    expect(mocks.logSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({
+      metadata: expect.objectContaining({ action: 'two_factor_disabled', userId: 'editor-1' }),
+    }));
+    expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'two_factor_disabled' }));
+  });
+
+  it('keeps 2FA on when the site enforces it for staff', async () => {
+    const app = createAuthApp();
+    mocks.findById.mockResolvedValue(editor({ twoFactorEnabled: true }));
+    const headers = await signInWithStepUp(app);
+    mocks.getSettings.mockResolvedValue({ requireStaffTwoFactor: true });
+
+    const disable = await request(app).post('/api/auth/2fa/disable').set(headers).send({});
+
+    expect(disable.status).toBe(400);
+    expect(mocks.updateUser).not.toHaveBeenCalledWith('editor-1', expect.objectContaining({ twoFactorEnabled: false }));
+  });
+});
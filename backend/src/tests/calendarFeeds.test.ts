@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findByToken: vi.fn(),
+  listTrackedApplications: vi.fn(),
+  findAnnouncementIdsByUser: vi.fn(),
+  listCalendarPosts: vi.fn(),
+  findTaxonomyBySlug: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: { frontendUrl: 'https://sarkariexams.me', publicApiUrl: 'https://sarkariexams.me/api' },
+}));
+
+vi.mock('../models/calendarFeeds.postgres.js', () => ({
+  default: { findByToken: mocks.findByToken },
+}));
+
+vi.mock('../models/profile.postgres.js', () => ({
+  default: { listTrackedApplications: mocks.listTrackedApplications },
+}));
+
+vi.mock('../models/bookmarks.postgres.js', () => ({
+  default: { findAnnouncementIdsByUser: mocks.findAnnouncementIdsByUser },
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+  default: { listCalendarPosts: mocks.listCalendarPosts },
+}));
+
+vi.mock('../models/contentTaxonomies.postgres.js', () => ({
+  default: { findBySlug: mocks.findTaxonomyBySlug },
+}));
+
+import type { PostRecord } from '../content/types.js';
+import { buildTaxonomyCalendar, buildUserCalendar, calendarFeedUrls } from '../services/calendarFeeds.js';
+
+import { buildPostRecord } from './fixtures/posts.js';
+
+const NOW = new Date('2026-10-18T00:00:00.000Z');
+
+const post = (overrides: Partial<PostRecord> = {}): PostRecord => buildPostRecord({
+  title: 'UPSC Civil Services 2027',
+  slug: 'upsc-cse-2027',
+  summary: 'Civil Services Examination 2027.',
+  organization: { name: 'Union Public Service Commission', slug: 'upsc' },
+  importantDates: [
+    { label: 'Last Date', value: '2027-02-11', kind: 'last_date' },
+    { label: 'Prelims Exam', value: '24/05/2027', kind: 'exam_date' },
+    { label: 'Notification', value: '2026-01-01', kind: 'other' },
+  ],
+  updatedAt: '2026-10-10T00:00:00.000Z',
+  currentVersion: 4,
+  ...overrides,
+});
+
+const uids = (ics: string) => Array.from(ics.matchAll(/^UID:(.+)$/gm), (match) => match[1].trim());
+
+describe('calendar feeds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('builds feed URLs for a token', () => {
+    expect(calendarFeedUrls('abc')).toEqual({
+      url: 'https://sarkariexams.me/api/calendar/feeds/abc.ics',
+      webcalUrl: 'webcal://sarkariexams.me/api/calendar/feeds/abc.ics',
+    });
+  });
+
+  it('returns null for an unknown token', async () => {
+    mocks.findByToken.mockResolvedValue(null);
+
+    expect(await buildUserCalendar('missing', NOW)).toBeNull();
+    expect(mocks.listTrackedApplications).not.toHaveBeenCalled();
+  });
+
+  it('merges tracked deadlines, reminders and bookmarked post dates', async () => {
+    mocks.findByToken.mockResolvedValue({ id: 'feed-1', userId: 'user-1', token: 'tok' });
+    mocks.findAnnouncementIdsByUser.mockResolvedValue(['post-1']);
+    mocks.listCalendarPosts.mockResolvedValue([post()]);
+    mocks.listTrackedApplications.mockResolvedValue([
+      {
+        id: 't1',
+        userId: 'user-1',
+        announcementId: 'post-1',
+        slug: 'upsc-cse-2027',
+        type: 'job',
+        title: 'UPSC Civil Services 2027',
+        deadline: new Date('2027-02-11T00:00:00.000Z'),
+        status: 'saved',
+        reminderAt: new Date('2027-02-09T04:30:00.000Z'),
+        trackedAt: NOW,
+        updatedAt: new Date('2026-10-12T00:00:00.000Z'),
+      },
+      {
+        id: 't2',
+        userId: 'user-1',
+        slug: 'ssc-gd-2027',
+        type: 'job',
+        title: 'SSC GD Constable 2027',
+        deadline: new Date('2026-12-31T00:00:00.000Z'),
+        status: 'applied',
+        trackedAt: NOW,
+        updatedAt: new Date('2026-10-12T00:00:00.000Z'),
+      },
+    ]);
+
+    const ics = await buildUserCalendar('tok', NOW);
+
+    expect(mocks.listCalendarPosts).toHaveBeenCalledWith({
+      ids: ['post-1'],
+      archivedSince: new Date('2026-08-19T00:00:00.000Z'),
+    });
+    // The bookmarked post's own last date replaces the tracked copy; the old notification date falls out of the window.
+    expect(uids(ics!)).toEqual([
+      'tracked-t1-reminder@sarkariexams.me',
+      'tracked-t2-deadline@sarkariexams.me',
+      'post-post-1-last_date-last-date@sarkariexams.me',
+      'post-post-1-exam_date-prelims-exam@sarkariexams.me',
+    ]);
+    expect(ics).toContain('SUMMARY:Prelims Exam: UPSC Civil Services 2027');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20270524');
+    expect(ics).toContain('SEQUENCE:4');
+    expect(ics).toContain('URL:https://sarkariexams.me/jobs/upsc-cse-2027');
+  });
+
+  it('filters a taxonomy feed by date kind and cancels archived posts', async () => {
+    mocks.findTaxonomyBySlug.mockResolvedValue({ name: 'Union Public Service Commission', shortName: 'UPSC', slug: 'upsc' });
+    mocks.listCalendarPosts.mockResolvedValue([
+      post(),
+      post({
+        id: 'post-2',
+        slug: 'upsc-ese-2027',
+        status: 'archived',
+        importantDates: [],
+        lastDate: '15/01/2027',
+      }),
+    ]);
+
+    const ics = await buildTaxonomyCalendar('organizations', 'UPSC', { kind: 'last_date' }, NOW);
+
+    expect(mocks.findTaxonomyBySlug).toHaveBeenCalledWith('organizations', 'upsc');
+    expect(mocks.listCalendarPosts).toHaveBeenCalledWith({
+      taxonomy: { type: 'organizations', slug: 'upsc' },
+      type: undefined,
+      archivedSince: new Date('2026-08-19T00:00:00.000Z'),
+    });
+    expect(ics).toContain('X-WR-CALNAME:UPSC Last Dates');
+    expect(uids(ics!)).toEqual([
+      'post-post-1-last_date-last-date@sarkariexams.me',
+      'post-post-2-last_date-last-date@sarkariexams.me',
+    ]);
+    expect(ics!.split('BEGIN:VEVENT')[2]).toContain('SEQUENCE:5\r\n');
+    expect(ics!.split('BEGIN:VEVENT')[2]).toContain('STATUS:CANCELLED');
+  });
+
+  it('returns null for an unknown taxonomy', async () => {
+    mocks.findTaxonomyBySlug.mockResolvedValue(null);
+
+    expect(await buildTaxonomyCalendar('states', 'atlantis', {}, NOW)).toBeNull();
+    expect(mocks.listCalendarPosts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  userAccountFindMany: vi.fn(),
+  trackedApplicationFindMany: vi.fn(),
+  dispatchLogFindMany: vi.fn(),
+}));
+
+vi.mock('../services/postgres/prisma.js', () => ({
+  prismaApp: {
+    userAccountEntry: { findMany: mocks.userAccountFindMany },
+    trackedApplicationEntry: { findMany: mocks.trackedApplicationFindMany },
+    campaignDispatchLogEntry: { findMany: mocks.dispatchLogFindMany },
+  },
+}));
+
+import {
+  compileSegmentRule,
+  describeSegmentRule,
+  segmentExpressionSchema,
+} from '../services/campaignSegments.js';
+
+describe('campaign segments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.userAccountFindMany.mockResolvedValue([{ email: 'active@example.com' }]);
+    mocks.trackedApplicationFindMany.mockResolvedValue([{ userId: 'user-1' }]);
+    mocks.dispatchLogFindMany.mockResolvedValue([{ subscriptionId: 'sub-1' }]);
+  });
+
+  it('compiles nested AND/OR/NOT groups into a subscription filter', async () => {
+    const where = await compileSegmentRule({
+      type: 'group',
+      combinator: 'and',
+      rules: [
+        { type: 'condition', field: 'state', values: ['Uttar Pradesh'] },
+        {
+          type: 'group',
+          combinator: 'or',
+          negate: true,
+          rules: [
+            { type: 'condition', field: 'postType', values: ['job', 'result'] },
+            { type: 'condition', field: 'frequency', values: ['weekly'] },
+          ],
+        },
+      ],
+    });
+
+    expect(where).toEqual({
+      AND: [
+        {
+          statePrefs: {
+            some: {
+              state: {
+                OR: [
+                  { slug: 'uttar-pradesh' },
+                  { name: { equals: 'Uttar Pradesh', mode: 'insensitive' } },
+                ],
+              },
+            },
+          },
+        },
+        {
+          NOT: {
+            OR: [
+              { postTypePrefs: { some: { postType: { in: ['JOB', 'RESULT'] } } } },
+              { frequency: { in: ['WEEKLY'] } },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('matches account activity and tracked applications by subscriber email', async () => {
+    const where = await compileSegmentRule({
+      type: 'group',
+      combinator: 'or',
+      rules: [
+        { type: 'condition', field: 'lastActive', days: 30 },
+        { type: 'condition', field: 'trackedStatus', values: ['applied'] },
+      ],
+    });
+
+    expect(mocks.userAccountFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { isActive: true, lastLogin: { gte: expect.any(Date) } },
+    }));
+    expect(mocks.trackedApplicationFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: { in: ['applied'] } },
+    }));
+    expect(where).toEqual({
+      OR: [
+        { email: { in: ['active@example.com'], mode: 'insensitive' } },
+        { email: { in: ['active@example.com'], mode: 'insensitive' } },
+      ],
+    });
+  });
+
+  it('targets subscribers who were sent an earlier campaign', async () => {
+    const where = await compileSegmentRule({
+      type: 'condition',
+      field: 'campaignReceived',
+      values: ['campaign-0'],
+    });
+
+    expect(mocks.dispatchLogFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { campaignId: { in: ['campaign-0'] }, status: 'sent', subscriptionId: { not: null } },
+    }));
+    expect(where).toEqual({ id: { in: ['sub-1'] } });
+  });
+
+  it('treats an empty group as every subscriber', async () => {
+    await expect(compileSegmentRule({ type: 'group', combinator: 'and', rules: [] })).resolves.toEqual({});
+  });
+
+  it('rejects conditions without values and overly deep nesting', () => {
+    expect(segmentExpressionSchema.safeParse({
+      type: 'group',
+      combinator: 'and',
+      rules: [{ type: 'condition', field: 'category', values: [] }],
+    }).success).toBe(false);
+
+    let nested: Record<string, unknown> = { type: 'group', combinator: 'and', rules: [] };
+    for (let depth = 0; depth < 5; depth++) {
+      nested = { type: 'group', combinator: 'and', rules: [nested] };
+    }
+    expect(segmentExpressionSchema.safeParse(nested).success).toBe(false);
+  });
+
+  it('describes an expression in one line', () => {
+    expect(describeSegmentRule({
+      type: 'group',
+      combinator: 'and',
+      rules: [
+        { type: 'condition', field: 'category', values: ['Railway', 'Bank'] },
+        { type: 'condition', field: 'lastActive', days: 14, negate: true },
+      ],
+    })).toBe('Category: Railway / Bank AND NOT Active in last 14 days');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PostRecord, PublicPostCard } from '../content/types.js';
+import {
+  hashTranslationSource,
+  localizeCard,
+  localizeContentPage,
+  localizePost,
+  localizeTaxonomy,
+  postTranslationStatus,
+  preparePostTranslations,
+} from '../services/contentLocalization.js';
+
+import { buildPostRecord } from './fixtures/posts.js';
+
+const english = {
+  title: 'SSC CGL 2026',
+  summary: 'Combined Graduate Level exam notification',
+  shortInfo: undefined,
+  body: 'Apply online before the last date.',
+};
+
+const buildPost = (overrides: Partial<PostRecord> = {}): PostRecord => buildPostRecord({
+  seo: {
+    metaTitle: 'SSC CGL 2026 notification',
+    metaDescription: 'Apply for SSC CGL 2026',
+    effectiveCanonicalPath: '/jobs/ssc-cgl-2026',
+  },
+  ...english,
+  ...overrides,
+});
+
+function buildCard(overrides: Partial<PublicPostCard> = {}): PublicPostCard {
+  return {
+    id: 'post-1',
+    title: 'SSC CGL 2026',
+    slug: 'ssc-cgl-2026',
+    type: 'job',
+    section: 'jobs',
+    href: '/jobs/ssc-cgl-2026',
+    summary: 'Combined Graduate Level exam notification',
+    ...overrides,
+  } as PublicPostCard;
+}
+
+describe('preparePostTranslations', () => {
+  it('drops locales without a title and stamps the English source hash', () => {
+    expect(preparePostTranslations({ hi: { title: '  ', summary: 'सारांश' } }, undefined, english)).toBeUndefined();
+
+    const prepared = preparePostTranslations({ hi: { title: ' एसएससी सीजीएल 2026 ', summary: '' } }, undefined, english);
+
+    expect(prepared?.hi).toMatchObject({ title: 'एसएससी सीजीएल 2026', sourceHash: hashTranslationSource(english) });
+    expect(prepared?.hi).not.toHaveProperty('summary');
+  });
+
+  it('keeps the old hash when only the English copy changed', () => {
+    const previous = { hi: { title: 'एसएससी सीजीएल 2026', sourceHash: 'old-hash', updatedAt: '2026-01-01T00:00:00.000Z' } };
+
+    const prepared = preparePostTranslations({ hi: { title: 'एसएससी सीजीएल 2026' } }, previous, { ...english, title: 'SSC CGL 2026 (revised)' });
+
+    expect(prepared?.hi?.sourceHash).toBe('old-hash');
+  });
+});
+
+describe('postTranslationStatus', () => {
+  it('reports missing, complete and outdated translations', () => {
+    const sourceHash = hashTranslationSource(english);
+
+    expect(postTranslationStatus(buildPost())).toEqual({ hi: 'missing' });
+    expect(postTranslationStatus(buildPost({ translations: { hi: { title: 'एसएससी', sourceHash } } }))).toEqual({ hi: 'complete' });
+    expect(postTranslationStatus(buildPost({
+      summary: 'Last date extended',
+      translations: { hi: { title: 'एसएससी', sourceHash } },
+    }))).toEqual({ hi: 'outdated' });
+  });
+});
+
+describe('localizePost', () => {
+  it('overlays translated text and falls back to English per field', () => {
+    const post = buildPost({ translations: { hi: { title: 'एसएससी सीजीएल 2026', summary: 'संयुक्त स्नातक स्तर परीक्षा' } } });
+
+    const localized = localizePost(post, 'hi');
+
+    expect(localized).toMatchObject({
+      title: 'एसएससी सीजीएल 2026',
+      summary: 'संयुक्त स्नातक स्तर परीक्षा',
+      body: english.body,
+      seo: {
+        metaTitle: 'एसएससी सीजीएल 2026',
+        metaDescription: 'संयुक्त स्नातक स्तर परीक्षा',
+        effectiveTitle: 'एसएससी सीजीएल 2026',
+        effectiveCanonicalPath: '/hi/jobs/ssc-cgl-2026',
+      },
+    });
+    expect(localized).not.toHaveProperty('translations');
+    expect(localizePost(post, 'en').title).toBe(english.title);
+  });
+});
+
+describe('localizeCard', () => {
+  it('points translated cards at the locale route and lists available locales', () => {
+    const card = buildCard({ translations: { hi: { title: 'एसएससी सीजीएल 2026' } } });
+
+    expect(localizeCard(card, 'hi')).toMatchObject({
+      title: 'एसएससी सीजीएल 2026',
+      href: '/hi/jobs/ssc-cgl-2026',
+      availableLocales: ['en', 'hi'],
+    });
+    expect(localizeCard(buildCard(), 'hi')).toMatchObject({ href: '/jobs/ssc-cgl-2026', availableLocales: ['en'] });
+  });
+});
+
+describe('taxonomy and page localization', () => {
+  it('uses translated names and merges translated payload keys', () => {
+    expect(localizeTaxonomy({ name: 'Uttar Pradesh', slug: 'uttar-pradesh', translations: { hi: { name: 'उत्तर प्रदेश' } } }, 'hi'))
+      .toEqual({ name: 'उत्तर प्रदेश', slug: 'uttar-pradesh', description: undefined });
+
+    const page = localizeContentPage({
+      id: 'page-1',
+      slug: 'about',
+      pageType: 'info',
+      title: 'About us',
+      payload: { intro: 'Hello', links: ['/jobs'] },
+      status: 'published',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      translations: { hi: { title: 'हमारे बारे में', payload: { intro: 'नमस्ते' } } },
+    }, 'hi');
+
+    expect(page.title).toBe('हमारे बारे में');
+    expect(page.payload).toEqual({ intro: 'नमस्ते', links: ['/jobs'] });
+  });
+});
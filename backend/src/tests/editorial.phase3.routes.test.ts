@@ -13,6 +13,19 @@ const {
   updatePostMock,
   getPreferenceCoverageMock,
   triggerFrontendRevalidationMock,
+  getVersionDiffMock,
+  revertFieldsMock,
+  revertToVersionMock,
+  findByIdsMock,
+  listSourceTasksMock,
+  closeSourceTaskMock,
+  getSourceMonitorSummariesMock,
+  findByIdMock,
+  transitionMock,
+  findPostDuplicatesMock,
+  getDuplicateSubmitBlockMock,
+  mergeDuplicatePostMock,
+  importNotificationPdfMock,
 } = vi.hoisted(() => ({
   bulkTransitionMock: vi.fn(),
   listAlertImpactQueueMock: vi.fn(),
@@ -24,34 +37,55 @@ const {
   updatePostMock: vi.fn(),
   getPreferenceCoverageMock: vi.fn(),
   triggerFrontendRevalidationMock: vi.fn(),
+  getVersionDiffMock: vi.fn(),
+  revertFieldsMock: vi.fn(),
+  revertToVersionMock: vi.fn(),
+  findByIdsMock: vi.fn(),
+  listSourceTasksMock: vi.fn(),
+  closeSourceTaskMock: vi.fn(),
+  getSourceMonitorSummariesMock: vi.fn(),
+  findByIdMock: vi.fn(),
+  transitionMock: vi.fn(),
+  findPostDuplicatesMock: vi.fn(),
+  getDuplicateSubmitBlockMock: vi.fn(),
+  mergeDuplicatePostMock: vi.fn(),
+  importNotificationPdfMock: vi.fn(),
 }));
 
 let currentRole = 'admin';
 
-vi.mock('../middleware/auth.js', () => ({
-  authenticateToken: (req: any, _res: any, next: any) => {
-    req.user = { userId: 'user-phase3', role: currentRole };
-    next();
-  },
-  requireEditorialAccess: (_req: any, _res: any, next: any) => next(),
-  requireRoles: (...roles: string[]) => (req: any, res: any, next: any) => {
-    if (!req.user || !roles.includes(req.user.role)) {
-      return res.status(403).json({ error: 'Insufficient permissions' });
-    }
-    next();
-  },
-}));
+vi.mock('../middleware/auth.js', async () => {
+  const { roleHasPermission } = await vi.importActual<typeof import('../services/permissions.js')>('../services/permissions.js');
+  return {
+    authenticateToken: (req: any, _res: any, next: any) => {
+      req.user = { userId: 'user-phase3', role: currentRole };
+      next();
+    },
+    requireEditorialAccess: (_req: any, _res: any, next: any) => next(),
+    requirePermission: (permission: any) => (req: any, res: any, next: any) => {
+      if (!req.user || !roleHasPermission(req.user.role, permission)) {
+        return res.status(403).json({ error: 'Insufficient permissions', permission });
+      }
+      next();
+    },
+    userHasPermission: async (req: any, permission: any) => roleHasPermission(req.user?.role, permission),
+  };
+});
 
 vi.mock('../services/editorialDataProvider.js', () => ({
   getEditorialDataProvider: () => ({
     postModel: {
       findAdmin: vi.fn().mockResolvedValue({ data: [], total: 0, count: 0 }),
-      findById: vi.fn().mockResolvedValue(null),
+      findById: findByIdMock,
+      findByIds: findByIdsMock,
       create: vi.fn(),
       update: updatePostMock,
-      transition: vi.fn(),
+      transition: transitionMock,
       getHistory: vi.fn().mockResolvedValue({ versions: [], audit: [] }),
       getAlertMatchPreview: vi.fn().mockResolvedValue(null),
+      getVersionDiff: getVersionDiffMock,
+      revertFields: revertFieldsMock,
+      revertToVersion: revertToVersionMock,
       listFreshnessQueue: listFreshnessQueueMock,
       listTrustQueue: listTrustQueueMock,
       listSearchReadinessQueue: listSearchReadinessQueueMock,
@@ -85,7 +119,34 @@ vi.mock('../models/alertSubscriptions.postgres.js', () => ({
   },
 }));
 
+vi.mock('../models/sourceMonitors.postgres.js', () => ({
+  sourceChangeTaskStatuses: ['open', 'resolved', 'dismissed'],
+  default: {
+    listTasks: listSourceTasksMock,
+    closeTask: closeSourceTaskMock,
+  },
+}));
+
+vi.mock('../services/sourceMonitor.js', () => ({
+  checkPostSource: vi.fn(),
+  getSourceMonitorSummaries: getSourceMonitorSummariesMock,
+}));
+
+vi.mock('../services/postDuplicates.js', async () => ({
+  ...await vi.importActual<typeof import('../services/postDuplicates.js')>('../services/postDuplicates.js'),
+  findPostDuplicates: findPostDuplicatesMock,
+  getDuplicateSubmitBlock: getDuplicateSubmitBlockMock,
+  confirmPostDistinct: vi.fn(),
+  mergeDuplicatePost: mergeDuplicatePostMock,
+}));
+
+vi.mock('../services/notificationPdfs.js', async () => ({
+  ...await vi.importActual<typeof import('../services/notificationPdfs.js')>('../services/notificationPdfs.js'),
+  importNotificationPdf: importNotificationPdfMock,
+}));
+
 import editorialRouter from '../routes/editorial.js';
+import { PdfTextError } from '../services/pdfText.js';
 
 describe('editorial Phase 3 endpoints', () => {
   const app = express();
@@ -97,6 +158,12 @@ describe('editorial Phase 3 endpoints', () => {
     vi.clearAllMocks();
 
     listTrustQueueMock.mockResolvedValue([{ id: 'trust-1' }]);
+    getSourceMonitorSummariesMock.mockResolvedValue(new Map([['trust-1', { status: 'changed', url: 'https://ssc.gov.in/' }]]));
+    listSourceTasksMock.mockResolvedValue([]);
+    findByIdsMock.mockResolvedValue([]);
+    findByIdMock.mockResolvedValue(null);
+    findPostDuplicatesMock.mockResolvedValue([]);
+    getDuplicateSubmitBlockMock.mockResolvedValue(null);
     listSearchReadinessQueueMock.mockResolvedValue([{ id: 'search-1' }]);
     listSeoQueueMock.mockResolvedValue([{ id: 'seo-1' }]);
     listAlertImpactQueueMock.mockResolvedValue([{ post: { id: 'post-1' }, preview: { total: 2, instant: 1, daily: 1, weekly: 0 } }]);
@@ -133,7 +200,41 @@ describe('editorial Phase 3 endpoints', () => {
 
     expect(response.status).toBe(200);
     expect(listTrustQueueMock).toHaveBeenCalledWith(12);
-    expect(response.body.data).toEqual([{ id: 'trust-1' }]);
+    expect(getSourceMonitorSummariesMock).toHaveBeenCalledWith(['trust-1']);
+    expect(response.body.data).toEqual([{ id: 'trust-1', sourceMonitor: { status: 'changed', url: 'https://ssc.gov.in/' } }]);
+  });
+
+  it('puts posts with open source change tasks at the top of the freshness queue', async () => {
+    listFreshnessQueueMock.mockResolvedValue([{ id: 'stale-1' }, { id: 'changed-1' }]);
+    listSourceTasksMock.mockResolvedValue([
+      { id: 'task-1', postId: 'changed-1', kinds: ['new_pdf_links'] },
+      { id: 'task-2', postId: 'changed-2', kinds: ['not_found'] },
+    ]);
+    findByIdsMock.mockResolvedValue([{ id: 'changed-2' }]);
+
+    const response = await request(app).get('/editorial/workflow/freshness?limit=5');
+
+    expect(response.status).toBe(200);
+    expect(listSourceTasksMock).toHaveBeenCalledWith({ status: 'open', limit: 5 });
+    expect(findByIdsMock).toHaveBeenCalledWith(['changed-2']);
+    expect(response.body.data.map((item: { id: string }) => item.id)).toEqual(['changed-2', 'changed-1', 'stale-1']);
+    expect(response.body.data[1].sourceChange).toMatchObject({ id: 'task-1' });
+    expect(response.body.data[2].sourceChange).toBeNull();
+  });
+
+  it('closes source change tasks for freshness managers only', async () => {
+    closeSourceTaskMock.mockResolvedValueOnce({ id: 'task-1', status: 'dismissed' }).mockResolvedValueOnce(null);
+
+    const closed = await request(app).post('/editorial/workflow/source-changes/task-1/close').send({ status: 'dismissed', note: 'Cosmetic' });
+    expect(closed.status).toBe(200);
+    expect(closeSourceTaskMock).toHaveBeenCalledWith('task-1', { status: 'dismissed', resolvedBy: 'user-phase3', note: 'Cosmetic' });
+
+    const missing = await request(app).post('/editorial/workflow/source-changes/task-9/close').send({});
+    expect(missing.status).toBe(404);
+
+    currentRole = 'editor';
+    const forbidden = await request(app).post('/editorial/workflow/source-changes/task-1/close').send({});
+    expect(forbidden.status).toBe(403);
   });
 
   it('returns search readiness queue', async () => {
@@ -172,6 +273,63 @@ describe('editorial Phase 3 endpoints', () => {
     expect(payload.trust).not.toHaveProperty('officialSources');
   });
 
+  it('returns likely duplicates with the saved post', async () => {
+    findPostDuplicatesMock.mockResolvedValueOnce([{ postId: 'post-2', score: 0.9, reasons: ['official_source'] }]);
+
+    const response = await request(app).put('/editorial/posts/post-1').send({ title: 'SSC CGL 2026' });
+
+    expect(response.status).toBe(200);
+    expect(findPostDuplicatesMock).toHaveBeenCalledWith({ id: 'post-1', status: 'draft' });
+    expect(response.body.duplicates).toEqual([{ postId: 'post-2', score: 0.9, reasons: ['official_source'] }]);
+  });
+
+  it('blocks submit while a flagged duplicate is unresolved', async () => {
+    findByIdMock.mockResolvedValue({ id: 'post-1', status: 'draft' });
+    getDuplicateSubmitBlockMock.mockResolvedValueOnce('Possible duplicate of "SSC CGL 2026" (ssc-cgl-2026).');
+    findPostDuplicatesMock.mockResolvedValueOnce([{ postId: 'post-2' }]);
+
+    const blocked = await request(app).post('/editorial/posts/post-1/submit').send({});
+    expect(blocked.status).toBe(409);
+    expect(blocked.body).toMatchObject({ error: expect.stringContaining('Possible duplicate'), duplicates: [{ postId: 'post-2' }] });
+    expect(transitionMock).not.toHaveBeenCalled();
+
+    transitionMock.mockResolvedValueOnce({ id: 'post-1', status: 'in_review' });
+    const submitted = await request(app).post('/editorial/posts/post-1/submit').send({});
+    expect(submitted.status).toBe(200);
+    expect(transitionMock).toHaveBeenCalledWith('post-1', 'submit', 'user-phase3', 'admin', undefined);
+  });
+
+  it('leaves posts with unresolved duplicates out of a bulk submit', async () => {
+    findByIdsMock.mockResolvedValue([{ id: 'post-1' }, { id: 'post-2' }]);
+    getDuplicateSubmitBlockMock.mockImplementation(async (post: { id: string }) => (post.id === 'post-2' ? 'Possible duplicate' : null));
+
+    const response = await request(app).post('/editorial/workflow/bulk-transition').send({ ids: ['post-1', 'post-2'], action: 'submit' });
+
+    expect(response.status).toBe(200);
+    expect(bulkTransitionMock).toHaveBeenCalledWith(['post-1'], 'submit', 'user-phase3', 'admin', undefined);
+    expect(response.body.data).toMatchObject({ total: 2, failureCount: 1, failures: [{ id: 'post-2', error: 'Possible duplicate' }] });
+  });
+
+  it('merges a live duplicate only for users who may archive it', async () => {
+    findByIdMock.mockResolvedValue({ id: 'post-2', status: 'published' });
+    mergeDuplicatePostMock.mockResolvedValue({
+      post: { id: 'post-1', status: 'published' },
+      merged: { id: 'post-2', status: 'archived' },
+    });
+
+    currentRole = 'editor';
+    const forbidden = await request(app).post('/editorial/posts/post-1/merge').send({ duplicateId: 'post-2' });
+    expect(forbidden.status).toBe(403);
+    expect(mergeDuplicatePostMock).not.toHaveBeenCalled();
+
+    currentRole = 'admin';
+    const merged = await request(app).post('/editorial/posts/post-1/merge').send({ duplicateId: 'post-2', note: 'Same notice' });
+    expect(merged.status).toBe(200);
+    expect(mergeDuplicatePostMock).toHaveBeenCalledWith('post-1', 'post-2', { userId: 'user-phase3', role: 'admin' }, 'Same notice');
+    expect(triggerFrontendRevalidationMock).toHaveBeenCalledWith({ id: 'post-2', status: 'archived' });
+    expect(merged.body).toMatchObject({ data: { id: 'post-1' }, merged: { id: 'post-2', status: 'archived' } });
+  });
+
   it('clamps alert impact limit to 30', async () => {
     const response = await request(app).get('/editorial/workflow/alerts-impact?limit=100');
 
@@ -298,4 +456,72 @@ describe('editorial Phase 3 endpoints', () => {
     expect(response.status).toBe(400);
     expect(getPreferenceCoverageMock).not.toHaveBeenCalled();
   });
+
+  it('returns a version diff against the current post by default', async () => {
+    getVersionDiffMock.mockResolvedValue({ postId: 'post-1', fromVersion: 2, toVersion: 'current', changes: [] });
+
+    const response = await request(app).get('/editorial/posts/post-1/diff?from=2');
+
+    expect(response.status).toBe(200);
+    expect(getVersionDiffMock).toHaveBeenCalledWith('post-1', 2, undefined);
+    expect(response.body.data.toVersion).toBe('current');
+  });
+
+  it('returns 404 when a compared version does not exist', async () => {
+    getVersionDiffMock.mockResolvedValue(null);
+
+    const response = await request(app).get('/editorial/posts/post-1/diff?from=2&to=9');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('reverts only the selected fields and rows when a selection is given', async () => {
+    revertFieldsMock.mockResolvedValue({ id: 'post-1', status: 'draft' });
+
+    const response = await request(app)
+      .post('/editorial/posts/post-1/revert')
+      .send({ version: 3, fields: ['lastDate', 'seo.metaTitle'], rows: { feeRules: [0] } });
+
+    expect(response.status).toBe(200);
+    expect(revertFieldsMock).toHaveBeenCalledWith(
+      'post-1',
+      3,
+      { fields: ['lastDate', 'seo.metaTitle'], rows: { feeRules: [0] } },
+      'user-phase3',
+      'admin',
+      undefined,
+    );
+    expect(revertToVersionMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown revert fields', async () => {
+    const response = await request(app)
+      .post('/editorial/posts/post-1/revert')
+      .send({ version: 3, fields: ['currentVersion'] });
+
+    expect(response.status).toBe(400);
+    expect(revertFieldsMock).not.toHaveBeenCalled();
+  });
+
+  it('returns parser rejections of a notification PDF as 400 with their message', async () => {
+    importNotificationPdfMock.mockRejectedValue(new PdfTextError('Encrypted PDFs are not supported'));
+
+    const response = await request(app)
+      .post('/editorial/notification-pdfs')
+      .send({ fileName: 'notice.pdf', content: Buffer.from('%PDF-1.7').toString('base64') });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Encrypted PDFs are not supported' });
+  });
+
+  it('hides unexpected notification PDF failures behind a generic 500', async () => {
+    importNotificationPdfMock.mockRejectedValue(new Error("EACCES: permission denied, open '/srv/uploads/notification-pdfs/abc.pdf'"));
+
+    const response = await request(app)
+      .post('/editorial/notification-pdfs')
+      .send({ fileName: 'notice.pdf', content: Buffer.from('%PDF-1.7').toString('base64') });
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: 'Failed to import notification PDF' });
+  });
 });
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PostRecord } from '../content/types.js';
+import {
+  ageOnDate,
+  evaluatePostEligibility,
+  getAgeRelaxationYears,
+  getQualificationLevel,
+  parseEligibilityDate,
+} from '../services/eligibilityMatcher.js';
+
+import { buildPostRecord } from './fixtures/posts.js';
+
+const buildPost = (overrides: Partial<PostRecord> = {}): PostRecord => buildPostRecord({
+  title: 'SSC Multi Tasking Staff Recruitment 2026',
+  slug: 'ssc-mts-2026',
+  qualifications: [{ id: 'q-12', name: '12th Pass', slug: '12th-pass' }],
+  importantDates: [{ label: 'Last Date', value: '31/03/2026', kind: 'last_date' }],
+  eligibility: [{ label: 'Age Limit', description: '18 to 27 years', minAge: 18, maxAge: 27 }],
+  ...overrides,
+});
+
+const now = new Date('2026-02-01T00:00:00.000Z');
+
+describe('eligibility date helpers', () => {
+  it('parses day-first, ISO and long-form dates as UTC midnight', () => {
+    expect(parseEligibilityDate('31/03/2026')?.toISOString()).toBe('2026-03-31T00:00:00.000Z');
+    expect(parseEligibilityDate('31-03-2026')?.toISOString()).toBe('2026-03-31T00:00:00.000Z');
+    expect(parseEligibilityDate('2026-03-31')?.toISOString()).toBe('2026-03-31T00:00:00.000Z');
+    expect(parseEligibilityDate('31 March 2026')?.toISOString()).toBe('2026-03-31T00:00:00.000Z');
+    expect(parseEligibilityDate('31/02/2026')).toBeNull();
+    expect(parseEligibilityDate('to be announced')).toBeNull();
+  });
+
+  it('counts completed years up to the day before the birthday', () => {
+    const dob = new Date('1998-04-01T00:00:00.000Z');
+    expect(ageOnDate(dob, new Date('2026-03-31T00:00:00.000Z'))).toBe(27);
+    expect(ageOnDate(dob, new Date('2026-04-01T00:00:00.000Z'))).toBe(28);
+  });
+});
+
+describe('getAgeRelaxationYears', () => {
+  it('stacks PwBD or ex-servicemen relaxation on the category relaxation', () => {
+    expect(getAgeRelaxationYears({ category: 'general' })).toBe(0);
+    expect(getAgeRelaxationYears({ category: 'obc' })).toBe(3);
+    expect(getAgeRelaxationYears({ category: 'sc', pwbd: true })).toBe(15);
+    expect(getAgeRelaxationYears({ category: 'general', exServiceman: true, militaryServiceYears: 5 })).toBe(8);
+    expect(getAgeRelaxationYears({ category: 'st' }, { includeCategory: false })).toBe(0);
+  });
+});
+
+describe('getQualificationLevel', () => {
+  it('places common qualification names on the ladder', () => {
+    expect(getQualificationLevel('10th Pass')).toBe(1);
+    expect(getQualificationLevel('12th-pass')).toBe(2);
+    expect(getQualificationLevel('ITI')).toBe(2);
+    expect(getQualificationLevel('B.Tech')).toBe(4);
+    expect(getQualificationLevel('Post Graduate')).toBe(5);
+    expect(getQualificationLevel('Certificate course')).toBeNull();
+  });
+});
+
+describe('evaluatePostEligibility', () => {
+  const baseCandidate = {
+    dateOfBirth: '1997-01-15',
+    qualification: 'Graduate',
+    gender: 'male' as const,
+  };
+
+  it('computes age on the last date and rejects a general candidate over the limit', () => {
+    const result = evaluatePostEligibility(buildPost(), { ...baseCandidate, category: 'general' }, now);
+
+    expect(result.cutoffDate).toBe('2026-03-31');
+    expect(result.cutoffSource).toBe('last_date');
+    expect(result.ageOnCutoff).toBe(29);
+    expect(result.status).toBe('not_eligible');
+    expect(result.reasons.find((reason) => reason.check === 'age')?.outcome).toBe('fail');
+  });
+
+  it('accepts the same candidate with OBC relaxation', () => {
+    const result = evaluatePostEligibility(buildPost(), { ...baseCandidate, category: 'obc' }, now);
+
+    expect(result.status).toBe('eligible');
+    expect(result.ageLimit).toEqual({ min: 18, max: 27, relaxationYears: 3, effectiveMax: 30 });
+    expect(result.reasons.find((reason) => reason.check === 'age')?.message).toContain('OBC relaxation');
+  });
+
+  it('checks the qualification hierarchy', () => {
+    const below = evaluatePostEligibility(
+      buildPost({ qualifications: [{ id: 'q-grad', name: 'Graduate', slug: 'graduate' }] }),
+      { ...baseCandidate, category: 'obc', qualification: '10th Pass' },
+      now,
+    );
+    expect(below.status).toBe('not_eligible');
+    expect(below.reasons.find((reason) => reason.check === 'qualification')?.outcome).toBe('fail');
+
+    const sameLevel = evaluatePostEligibility(
+      buildPost(),
+      { ...baseCandidate, category: 'obc', qualification: 'ITI' },
+      now,
+    );
+    expect(sameLevel.status).toBe('borderline');
+  });
+
+  it('marks state posts borderline for other-state candidates and drops category relaxation', () => {
+    const post = buildPost({ states: [{ id: 's-up', name: 'Uttar Pradesh', slug: 'uttar-pradesh' }] });
+
+    const home = evaluatePostEligibility(post, { ...baseCandidate, category: 'obc', state: 'Uttar Pradesh' }, now);
+    expect(home.status).toBe('eligible');
+
+    const outside = evaluatePostEligibility(post, { ...baseCandidate, category: 'obc', state: 'bihar' }, now);
+    expect(outside.status).toBe('not_eligible');
+    expect(outside.ageLimit?.relaxationYears).toBe(0);
+    expect(outside.reasons.filter((reason) => reason.check === 'domicile')).toHaveLength(2);
+  });
+
+  it('applies gender restrictions found in the notice', () => {
+    const post = buildPost({ title: 'Anganwadi Worker Recruitment 2026 (Female Candidates Only)' });
+
+    expect(evaluatePostEligibility(post, { ...baseCandidate, category: 'obc' }, now).status).toBe('not_eligible');
+    expect(evaluatePostEligibility(post, { ...baseCandidate, category: 'obc', gender: 'female' }, now).status).toBe('eligible');
+  });
+
+  it('treats ages near the limit as borderline when no cut-off date is published', () => {
+    const post = buildPost({ importantDates: [], lastDate: undefined });
+    const result = evaluatePostEligibility(post, { ...baseCandidate, dateOfBirth: '1998-06-01', category: 'general' }, now);
+
+    expect(result.cutoffSource).toBe('evaluation_date');
+    expect(result.ageOnCutoff).toBe(27);
+    expect(result.status).toBe('borderline');
+  });
+});
+
+describe('notified age rules', () => {
+  const candidate = {
+    dateOfBirth: '1996-05-10',
+    qualification: 'Graduate',
+    gender: 'male' as const,
+  };
+
+  it('counts age on the rule cut-off date instead of the last date', () => {
+    const post = buildPost({
+      eligibility: [{ label: 'Age Limit', description: '18 to 30 years', minAge: 18, maxAge: 30, ageCutoffDate: '2026-01-01' }],
+    });
+    const result = evaluatePostEligibility(post, { ...candidate, category: 'general' }, now);
+
+    expect(result.cutoffSource).toBe('age_cutoff_date');
+    expect(result.cutoffDate).toBe('2026-01-01');
+    expect(result.ageOnCutoff).toBe(29);
+    expect(result.status).toBe('eligible');
+  });
+
+  it('uses notified relaxation rows in place of the standard norms', () => {
+    const post = buildPost({
+      eligibility: [{
+        label: 'Age Limit',
+        description: '21 to 27 years',
+        minAge: 21,
+        maxAge: 27,
+        ageRelaxations: [
+          { category: 'sc', years: 5, appliesFrom: 'upper_age_limit' },
+          { category: 'ex_serviceman', years: 3, appliesFrom: 'after_service_deduction' },
+        ],
+      }],
+    });
+
+    // OBC is not listed in this notice, so no relaxation applies.
+    expect(evaluatePostEligibility(post, { ...candidate, category: 'obc' }, now).status).toBe('not_eligible');
+    expect(evaluatePostEligibility(post, { ...candidate, category: 'sc' }, now).status).toBe('eligible');
+    expect(getAgeRelaxationYears(
+      { category: 'general', exServiceman: true, militaryServiceYears: 4 },
+      { relaxations: post.eligibility[0].ageRelaxations },
+    )).toBe(7);
+  });
+
+  it('accepts a candidate who fits any one of several age rules', () => {
+    const post = buildPost({
+      eligibility: [
+        { label: 'Constable', description: '18 to 23 years', minAge: 18, maxAge: 23 },
+        { label: 'Sub Inspector', description: '20 to 30 years', minAge: 20, maxAge: 30 },
+      ],
+    });
+    const result = evaluatePostEligibility(post, { ...candidate, category: 'general' }, now);
+
+    expect(result.status).toBe('eligible');
+    expect(result.ageLimit?.max).toBe(30);
+  });
+});
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+
+import express from 'express';
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  listSuppressedEmails: vi.fn(),
+  upsert: vi.fn(),
+  recordEvent: vi.fn(),
+  countHardBounces: vi.fn(),
+  deactivateByEmail: vi.fn(),
+}));
+
+vi.mock('../models/emailSuppressions.postgres.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../models/emailSuppressions.postgres.js')>()),
+  default: {
+    listSuppressedEmails: mocks.listSuppressedEmails,
+    upsert: mocks.upsert,
+    recordEvent: mocks.recordEvent,
+    countHardBounces: mocks.countHardBounces,
+  },
+}));
+
+vi.mock('../models/alertSubscriptions.postgres.js', () => ({
+  default: { deactivateByEmail: mocks.deactivateByEmail },
+}));
+
+import { config } from '../config.js';
+import webhooksRouter, { captureWebhookRawBody } from '../routes/webhooks.js';
+import { processDeliveryEvents, verifyWebhookSignature } from '../services/emailSuppression.js';
+
+const SECRET = 'test-webhook-secret';
+
+function sign(body: string, timestamp: string) {
+  return `sha256=${crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+describe('email suppression', () => {
+  const originalSecret = config.emailWebhookSecret;
+  const originalLimit = config.emailHardBounceLimit;
+
+  beforeAll(() => {
+    config.emailWebhookSecret = SECRET;
+    config.emailHardBounceLimit = 2;
+  });
+
+  afterAll(() => {
+    config.emailWebhookSecret = originalSecret;
+    config.emailHardBounceLimit = originalLimit;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.listSuppressedEmails.mockResolvedValue(new Set());
+    mocks.recordEvent.mockResolvedValue(true);
+    mocks.countHardBounces.mockResolvedValue(1);
+  });
+
+  it('verifies signatures over the timestamp and raw body', () => {
+    const now = Date.now();
+    const timestamp = String(Math.floor(now / 1000));
+    const body = '{"events":[]}';
+
+    expect(verifyWebhookSignature({ rawBody: body, timestamp, signature: sign(body, timestamp), now })).toBe(true);
+    expect(verifyWebhookSignature({ rawBody: `${body} `, timestamp, signature: sign(body, timestamp), now })).toBe(false);
+    expect(verifyWebhookSignature({ rawBody: body, timestamp, signature: sign(body, timestamp), now: now + 10 * 60_000 })).toBe(false);
+    expect(verifyWebhookSignature({ rawBody: body, timestamp, signature: undefined, now })).toBe(false);
+  });
+
+  it('suppresses complaints at once and hard bounces at the limit', async () => {
+    mocks.countHardBounces.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    const result = await processDeliveryEvents({
+      events: [
+        { type: 'complaint', email: 'Angry@Example.com' },
+        { type: 'bounce', email: 'gone@example.com', reason: 'mailbox does not exist' },
+        { type: 'bounce', email: 'gone@example.com', bounceType: 'hard' },
+        { type: 'bounce', email: 'full@example.com', bounceType: 'soft' },
+      ],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: { received: 4, recorded: 4, duplicates: 0, suppressed: ['angry@example.com', 'gone@example.com'] },
+    });
+    expect(mocks.recordEvent).toHaveBeenCalledWith(expect.objectContaining({ email: 'gone@example.com', bounceType: 'hard' }));
+    expect(mocks.countHardBounces).toHaveBeenCalledTimes(2);
+    expect(mocks.upsert).toHaveBeenCalledWith(expect.objectContaining({ email: 'angry@example.com', reason: 'complaint' }));
+    expect(mocks.upsert).toHaveBeenCalledWith(expect.objectContaining({ email: 'gone@example.com', reason: 'hard_bounce' }));
+    expect(mocks.deactivateByEmail.mock.calls.map(([email]) => email)).toEqual(['angry@example.com', 'gone@example.com']);
+  });
+
+  it('ignores replayed events and keeps existing suppressions', async () => {
+    mocks.recordEvent.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    mocks.listSuppressedEmails.mockResolvedValue(new Set(['manual@example.com']));
+
+    const result = await processDeliveryEvents({
+      events: [
+        { id: 'evt-1', type: 'complaint', email: 'seen@example.com' },
+        { id: 'evt-2', type: 'complaint', email: 'manual@example.com' },
+      ],
+    });
+
+    expect(result.data).toEqual({ received: 2, recorded: 1, duplicates: 1, suppressed: [] });
+    expect(mocks.upsert).not.toHaveBeenCalled();
+  });
+
+  it('accepts signed webhook requests and rejects unsigned ones', async () => {
+    const app = express();
+    app.use(express.json({ verify: captureWebhookRawBody }));
+    app.use('/api/webhooks', webhooksRouter);
+
+    const body = JSON.stringify({ events: [{ type: 'delivered', email: 'ok@example.com' }] });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const signed = await request(app)
+      .post('/api/webhooks/email-events')
+      .set('Content-Type', 'application/json')
+      .set('X-Webhook-Timestamp', timestamp)
+      .set('X-Webhook-Signature', sign(body, timestamp))
+      .send(body);
+    expect(signed.status).toBe(200);
+    expect(signed.body.data).toMatchObject({ received: 1, recorded: 1 });
+
+    const unsigned = await request(app)
+      .post('/api/webhooks/email-events')
+      .set('Content-Type', 'application/json')
+      .send(body);
+    expect(unsigned.status).toBe(401);
+  });
+});
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  listAll: vi.fn(),
+  saveVersion: vi.fn(),
+  findPostById: vi.fn(),
+  listSubscribersByEmails: vi.fn(),
+}));
+
+vi.mock('../models/emailTemplates.postgres.js', () => ({
+  default: {
+    listAll: mocks.listAll,
+    saveVersion: mocks.saveVersion,
+  },
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+  default: { findById: mocks.findPostById },
+}));
+
+vi.mock('../models/alertSubscriptions.postgres.js', () => ({
+  default: { listByEmails: mocks.listSubscribersByEmails },
+}));
+
+import { EmailTemplateSyntaxError, renderEmailTemplateSource } from '../services/emailTemplateEngine.js';
+import {
+  buildAlertEmailContext,
+  buildDigestEmailContext,
+  previewEmailTemplate,
+  renderEmailTemplate,
+  saveEmailTemplate,
+} from '../services/emailTemplates.js';
+import { deleteCache } from '../utils/cache.js';
+
+describe('email template engine', () => {
+  it('escapes variables unless triple-braced', () => {
+    const html = renderEmailTemplateSource('<p>{{name}}</p>{{{raw}}}', { name: '<b>A&B</b>', raw: '<i>ok</i>' });
+    expect(html).toBe('<p>&lt;b&gt;A&amp;B&lt;/b&gt;</p><i>ok</i>');
+  });
+
+  it('renders dotted paths, list sections and inverted sections', () => {
+    const html = renderEmailTemplateSource(
+      '{{post.title}}:{{#items}}[{{title}}@{{siteName}}]{{/items}}{{^missing}}none{{/missing}}',
+      { siteName: 'Site', post: { title: 'Hello' }, items: [{ title: 'a' }, { title: 'b' }] },
+    );
+    expect(html).toBe('Hello:[a@Site][b@Site]none');
+  });
+
+  it('includes partials with the current context', () => {
+    const html = renderEmailTemplateSource('<div>{{> footer}}</div>', { year: 2026 }, { footer: '© {{year}}' });
+    expect(html).toBe('<div>© 2026</div>');
+  });
+
+  it('rejects unbalanced sections and runaway partials', () => {
+    expect(() => renderEmailTemplateSource('{{#items}}x', {})).toThrow(EmailTemplateSyntaxError);
+    expect(() => renderEmailTemplateSource('{{#a}}x{{/b}}', {})).toThrow(EmailTemplateSyntaxError);
+    expect(() => renderEmailTemplateSource('{{> loop}}', {}, { loop: '{{> loop}}' })).toThrow(/deeper/);
+  });
+
+  it('leaves subjects unescaped when asked to', () => {
+    expect(renderEmailTemplateSource('{{title}}', { title: 'Q&A' }, {}, { escape: false })).toBe('Q&A');
+  });
+});
+
+describe('email templates service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deleteCache('email-templates:stored');
+    mocks.listAll.mockResolvedValue([]);
+  });
+
+  it('renders the built-in alert template when nothing is stored', async () => {
+    const rendered = await renderEmailTemplate('instant_alert', buildAlertEmailContext({
+      post: { title: 'SSC <CGL>', type: 'job', organization: 'SSC', category: 'Central', url: 'https://example.com/job/ssc' },
+      unsubscribeUrl: 'https://example.com/unsubscribe?token=t1',
+    }));
+
+    expect(rendered.subject).toBe('🆕 New job: SSC <CGL>');
+    expect(rendered.html).toContain('<h2>SSC &lt;CGL&gt;</h2>');
+    expect(rendered.html).toContain('href="https://example.com/unsubscribe?token=t1"');
+    expect(rendered.html).not.toContain('{{');
+  });
+
+  it('renders a reminder-only daily digest without the empty update list', async () => {
+    const rendered = await renderEmailTemplate('daily_digest', buildDigestEmailContext({
+      items: [],
+      frequency: 'daily',
+      windowLabel: 'Today',
+      variant: 'A',
+      unsubscribeUrl: 'https://example.com/unsubscribe?token=t1',
+      reminders: [{ title: 'SSC CGL', url: 'https://example.com/job/ssc-cgl', deadline: '2026-10-21', daysLeft: 3 }],
+    }));
+
+    expect(rendered.html).toContain('Last dates coming up');
+    expect(rendered.html).toContain('3 days left');
+    expect(rendered.html).not.toContain('Here are the latest updates');
+  });
+
+  it('prefers the stored version of a template and its partials', async () => {
+    mocks.listAll.mockResolvedValue([
+      { key: 'campaign', kind: 'template', subject: 'Hi {{title}}', html: '{{> footer}}|{{{bodyHtml}}}', version: 2, updatedAt: new Date() },
+      { key: 'footer', kind: 'partial', subject: '', html: 'custom footer', version: 1, updatedAt: new Date() },
+    ]);
+
+    const rendered = await renderEmailTemplate('campaign', { title: 'News', bodyHtml: '<b>body</b>' });
+    expect(rendered).toEqual({ subject: 'Hi News', html: 'custom footer|<b>body</b>' });
+  });
+
+  it('falls back to the default when a stored template cannot render', async () => {
+    mocks.listAll.mockResolvedValue([
+      { key: 'campaign', kind: 'template', subject: '{{title}}', html: '{{#broken}}', version: 3, updatedAt: new Date() },
+    ]);
+
+    const rendered = await renderEmailTemplate('campaign', { title: 'News', bodyHtml: 'body', url: 'https://example.com' });
+    expect(rendered.html).toContain('<h1>News</h1>');
+  });
+
+  it('validates syntax and partial names before saving', async () => {
+    await expect(saveEmailTemplate('campaign', { subject: 'x', html: '{{#a}}' }, 'admin-1'))
+      .resolves.toMatchObject({ success: false, error: expect.stringMatching(/never closed/) });
+    await expect(saveEmailTemplate('campaign', { subject: 'x', html: '{{> nope}}' }, 'admin-1'))
+      .resolves.toMatchObject({ success: false, error: 'Unknown partial "nope"' });
+    await expect(saveEmailTemplate('unknown', { subject: 'x', html: 'y' }, 'admin-1'))
+      .resolves.toMatchObject({ success: false, error: 'Unknown email template' });
+    expect(mocks.saveVersion).not.toHaveBeenCalled();
+
+    mocks.saveVersion.mockResolvedValue({ key: 'campaign', kind: 'template', subject: 'x', html: 'y', version: 1, updatedAt: new Date() });
+    await expect(saveEmailTemplate('campaign', { subject: 'x', html: 'y', note: 'first' }, 'admin-1'))
+      .resolves.toMatchObject({ success: true, data: { version: 1 } });
+    expect(mocks.saveVersion).toHaveBeenCalledWith('campaign', 'template', { subject: 'x', html: 'y', note: 'first' }, 'admin-1');
+  });
+
+  it('previews a draft against a real post and subscriber', async () => {
+    mocks.findPostById.mockResolvedValue({
+      title: 'UP Police Result',
+      slug: 'up-police-result',
+      type: 'result',
+      summary: 'Result declared',
+      organization: { name: 'UPPRPB' },
+      categories: [{ name: 'Police' }],
+    });
+    mocks.listSubscribersByEmails.mockResolvedValue([
+      { email: 'reader@example.com', unsubscribeToken: 'tok-9', locale: 'hi', categoryNames: [] },
+    ]);
+
+    const result = await previewEmailTemplate('instant_alert', {
+      html: '{{post.title}}|{{copy.viewDetails}}|{{unsubscribeUrl}}',
+      postId: 'post-1',
+      subscriberEmail: 'reader@example.com',
+    });
+
+    expect(mocks.findPostById).toHaveBeenCalledWith('post-1');
+    expect(result.success).toBe(true);
+    expect(result.data?.subject).toBe('🆕 नया result: UP Police Result');
+    expect(result.data?.html).toMatch(/^UP Police Result\|विवरण देखें\|.*preferences\?token=tok-9&amp;action=unsubscribe$/);
+  });
+});
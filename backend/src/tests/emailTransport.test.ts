@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../models/emailTemplates.postgres.js', () => ({
+  default: { listAll: vi.fn().mockResolvedValue([]) },
+}));
+
+import { isEmailConfigured, sendCampaignEmail, sendDigestEmail } from '../services/email.js';
+import { CaptureEmailTransport, getCaptureMailbox, setEmailTransport } from '../services/emailTransport.js';
+
+describe('CaptureEmailTransport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-capture-'));
+  });
+
+  afterEach(async () => {
+    setEmailTransport(undefined);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores messages and lists them newest first', async () => {
+    const transport = new CaptureEmailTransport(path.join(directory, 'mail'));
+
+    const first = await transport.send({ to: 'a@example.com', from: 'noreply@example.com', subject: 'First', html: '<p>1</p>' });
+    await transport.send({ to: 'b@example.com', from: 'noreply@example.com', subject: 'Second', html: '<p>2</p>' });
+
+    expect(first).toEqual({ success: true, messageId: expect.any(String) });
+    expect((await transport.list()).map((message) => message.subject)).toEqual(['Second', 'First']);
+    expect((await transport.list({ to: 'A@EXAMPLE' })).map((message) => message.subject)).toEqual(['First']);
+    expect(await transport.get(first.messageId!)).toMatchObject({ to: 'a@example.com', html: '<p>1</p>' });
+
+    await transport.clear();
+    expect(await transport.list()).toEqual([]);
+  });
+
+  it('runs a digest end-to-end without an outside service', async () => {
+    setEmailTransport(new CaptureEmailTransport(directory));
+    expect(isEmailConfigured()).toBe(true);
+
+    const delivered = await sendDigestEmail({
+      email: 'reader@example.com',
+      announcements: [{ title: 'SSC CGL', slug: 'ssc-cgl', type: 'job', category: 'Central', organization: 'SSC' }],
+      unsubscribeToken: 'tok-1',
+      frequency: 'weekly',
+      windowLabel: 'Last 7 days',
+      variant: 'A',
+    });
+
+    expect(delivered).toBe(true);
+    const [message] = await getCaptureMailbox()!.list();
+    expect(message).toMatchObject({ to: 'reader@example.com', subject: 'Your weekly SarkariExams digest' });
+    expect(message.html).toContain('SSC CGL');
+    expect(message.html).toContain('preferences?token=tok-1');
+    expect(message.headers).toEqual({
+      'List-Unsubscribe': expect.stringMatching(/^<https?:\/\/.+\/subscriptions\/unsubscribe\?token=tok-1>$/),
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('gives campaign mail the subscriber links and one-click unsubscribe headers', async () => {
+    setEmailTransport(new CaptureEmailTransport(directory));
+
+    const result = await sendCampaignEmail({
+      to: 'reader@example.com',
+      title: 'Exam calendar out',
+      body: 'The 2027 calendar is live.',
+      url: '/exam-calendar',
+      campaignId: 'campaign-1',
+      unsubscribeToken: 'tok-2',
+    });
+
+    expect(result.success).toBe(true);
+    const [message] = await getCaptureMailbox()!.list();
+    expect(message.html).toContain('preferences?token=tok-2');
+    expect(message.html).toContain('preferences?token=tok-2&amp;action=unsubscribe');
+    expect(message.headers).toEqual({
+      'List-Unsubscribe': expect.stringMatching(/^<https?:\/\/.+\/subscriptions\/unsubscribe\?token=tok-2>$/),
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('reports email as unconfigured without a transport', () => {
+    setEmailTransport(null);
+    expect(isEmailConfigured()).toBe(false);
+    expect(getCaptureMailbox()).toBeNull();
+  });
+});
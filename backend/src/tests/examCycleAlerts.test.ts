@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    listExamCycleJobs: vi.fn(),
+    listTrackedApplicationsForPosts: vi.fn(),
+    upsertNotifications: vi.fn(),
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+    default: { listExamCycleJobs: mocks.listExamCycleJobs },
+}));
+
+vi.mock('../models/profile.postgres.js', () => ({
+    default: {
+        listTrackedApplicationsForPosts: mocks.listTrackedApplicationsForPosts,
+        upsertNotifications: mocks.upsertNotifications,
+    },
+}));
+
+import { notifyExamCycleTrackers } from '../services/examCycleAlerts.js';
+
+const admitCard = {
+    id: 'post-admit',
+    title: 'SSC CGL 2026 Tier-I Admit Card',
+    slug: 'ssc-cgl-2026-admit-card',
+    type: 'admit-card',
+    status: 'published',
+    organization: { id: 'o1', name: 'Staff Selection Commission', slug: 'staff-selection-commission' },
+    examCycle: { id: 'cycle-1', name: 'SSC CGL 2026', slug: 'ssc-cgl-2026' },
+} as any;
+
+describe('exam cycle tracker alerts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.upsertNotifications.mockResolvedValue(1);
+    });
+
+    it('notifies each user tracking a job of the cycle once', async () => {
+        mocks.listExamCycleJobs.mockResolvedValue([
+            { id: 'post-job', slug: 'ssc-cgl-2026-online-form', slugs: ['ssc-cgl-2026-online-form', 'ssc-cgl-2026-notification'] },
+        ]);
+        mocks.listTrackedApplicationsForPosts.mockResolvedValue([
+            { id: 't1', userId: 'user-1', slug: 'ssc-cgl-2026-online-form' },
+            { id: 't2', userId: 'user-2', slug: 'ssc-cgl-2026-notification' },
+            { id: 't3', userId: 'user-1', slug: 'ssc-cgl-2026-notification' },
+        ]);
+
+        const result = await notifyExamCycleTrackers(admitCard);
+
+        expect(mocks.listExamCycleJobs).toHaveBeenCalledWith('ssc-cgl-2026');
+        expect(mocks.listTrackedApplicationsForPosts).toHaveBeenCalledWith({
+            announcementIds: ['post-job'],
+            slugs: ['ssc-cgl-2026-online-form', 'ssc-cgl-2026-notification'],
+        });
+        expect(mocks.upsertNotifications).toHaveBeenCalledTimes(2);
+        expect(mocks.upsertNotifications).toHaveBeenCalledWith(
+            'user-1',
+            [{
+                announcementId: 'post-admit',
+                title: 'SSC CGL 2026 Tier-I Admit Card',
+                type: 'admit-card',
+                slug: 'ssc-cgl-2026-admit-card',
+                organization: 'Staff Selection Commission',
+            }],
+            'lifecycle:admit-card',
+        );
+        expect(result).toEqual({ status: 'sent', trackers: 2, notified: 2 });
+    });
+
+    it('keeps notifying the remaining users when one write fails', async () => {
+        mocks.listExamCycleJobs.mockResolvedValue([{ id: 'post-job', slug: 'ssc-cgl-2026', slugs: ['ssc-cgl-2026'] }]);
+        mocks.listTrackedApplicationsForPosts.mockResolvedValue([
+            { id: 't1', userId: 'user-1', slug: 'ssc-cgl-2026' },
+            { id: 't2', userId: 'user-2', slug: 'ssc-cgl-2026' },
+        ]);
+        mocks.upsertNotifications.mockRejectedValueOnce(new Error('db down')).mockResolvedValueOnce(1);
+        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const result = await notifyExamCycleTrackers({ ...admitCard, type: 'result' });
+
+        expect(result).toEqual({ status: 'sent', trackers: 2, notified: 1 });
+        expect(mocks.upsertNotifications).toHaveBeenLastCalledWith('user-2', expect.any(Array), 'lifecycle:result');
+        consoleSpy.mockRestore();
+    });
+
+    it('skips job posts, unpublished posts and posts outside a cycle', async () => {
+        for (const post of [
+            { ...admitCard, type: 'job' },
+            { ...admitCard, status: 'approved' },
+            { ...admitCard, examCycle: null },
+        ]) {
+            expect(await notifyExamCycleTrackers(post)).toEqual({ status: 'skipped', trackers: 0, notified: 0 });
+        }
+        expect(mocks.listExamCycleJobs).not.toHaveBeenCalled();
+    });
+});
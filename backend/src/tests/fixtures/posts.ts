@@ -0,0 +1,32 @@
+import type { PostRecord } from '../../content/types.js';
+
+/** A complete, published job post; tests override only the fields they exercise. */
+export function buildPostRecord(overrides: Partial<PostRecord> = {}): PostRecord {
+  return {
+    id: 'post-1',
+    title: 'SSC CGL 2026',
+    slug: 'ssc-cgl-2026',
+    legacySlugs: [],
+    type: 'job',
+    status: 'published',
+    summary: '',
+    categories: [],
+    states: [],
+    qualifications: [],
+    importantDates: [],
+    eligibility: [],
+    feeRules: [],
+    vacancyRows: [],
+    admissionPrograms: [],
+    officialSources: [],
+    trust: { officialSources: [] },
+    seo: {},
+    flags: {},
+    home: {},
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    createdAt: '2026-10-01T00:00:00.000Z',
+    currentVersion: 1,
+    searchText: '',
+    ...overrides,
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildICalendar, escapeIcsText, foldIcsLine } from '../services/icalendar.js';
+
+describe('icalendar writer', () => {
+  it('escapes text values', () => {
+    expect(escapeIcsText('Last Date; Part-I, Tier\\II\nApply online')).toBe('Last Date\\; Part-I\\, Tier\\\\II\\nApply online');
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'परीक्षा '.repeat(12)}`;
+    const folded = foldIcsLine(line);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(Buffer.byteLength(parts[0], 'utf8')).toBeLessThanOrEqual(75);
+    for (const part of parts.slice(1)) {
+      expect(part.startsWith(' ')).toBe(true);
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+    expect(foldIcsLine('SUMMARY:short')).toBe('SUMMARY:short');
+  });
+
+  it('writes all-day, timed and cancelled events', () => {
+    const ics = buildICalendar({
+      name: 'UPSC Exam Dates',
+      events: [
+        {
+          uid: 'post-1-exam_date-prelims@sarkariexams.me',
+          summary: 'Prelims: UPSC CSE 2026',
+          start: new Date(Date.UTC(2026, 4, 24)),
+          allDay: true,
+          sequence: 3,
+          lastModified: new Date('2026-10-01T10:00:00.000Z'),
+        },
+        {
+          uid: 'tracked-t1-reminder@sarkariexams.me',
+          summary: 'Reminder: SSC CGL 2026',
+          start: new Date('2026-11-20T04:30:00.000Z'),
+          allDay: false,
+          durationMinutes: 15,
+          sequence: 1,
+          lastModified: new Date('2026-10-01T10:00:00.000Z'),
+          alarmMinutesBefore: 0,
+        },
+        {
+          uid: 'post-2-last_date-last-date@sarkariexams.me',
+          summary: 'Last Date: Archived Post',
+          start: new Date(Date.UTC(2026, 10, 30)),
+          allDay: true,
+          sequence: 5,
+          lastModified: new Date('2026-10-01T10:00:00.000Z'),
+          cancelled: true,
+          alarmMinutesBefore: 60,
+        },
+      ],
+    }, new Date('2026-10-18T00:00:00.000Z'));
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n').slice(0, 6)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//SarkariExams//Calendar Feeds//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:UPSC Exam Dates',
+    ]);
+    expect(ics).toContain('DTSTAMP:20261018T000000Z\r\nLAST-MODIFIED:20261001T100000Z\r\nSEQUENCE:3\r\nDTSTART;VALUE=DATE:20260524\r\nDTEND;VALUE=DATE:20260525\r\n');
+    expect(ics).toContain('DTSTART:20261120T043000Z\r\nDURATION:PT15M\r\n');
+    expect(ics).toContain('BEGIN:VALARM\r\nACTION:DISPLAY\r\nDESCRIPTION:Reminder: SSC CGL 2026\r\nTRIGGER:-PT0S\r\nEND:VALARM');
+    expect(ics).toContain('SEQUENCE:5');
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(1);
+  });
+});
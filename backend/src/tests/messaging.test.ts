@@ -0,0 +1,31 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { FileMessagingProvider } from '../services/messaging.js';
+
+describe('FileMessagingProvider', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await fs.rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('appends each message as a JSON line', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'messaging-'));
+    const provider = new FileMessagingProvider(path.join(directory, 'outbox'));
+
+    const first = await provider.send({ to: '+919876543210', text: 'First', campaignId: 'campaign-1' });
+    await provider.send({ to: '+919812345678', text: 'Second' });
+
+    const lines = (await fs.readFile(path.join(directory, 'outbox', 'messages.jsonl'), 'utf8')).trim().split('\n');
+    expect(first).toEqual({ success: true, messageId: expect.any(String) });
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ id: first.messageId, to: '+919876543210', text: 'First', campaignId: 'campaign-1' }),
+      expect.objectContaining({ to: '+919812345678', text: 'Second' }),
+    ]);
+  });
+});
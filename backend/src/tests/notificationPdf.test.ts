@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { deflateSync } from 'zlib';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { config } from '../config.js';
+import { extractNotificationFields } from '../services/notificationExtractor.js';
+import { importNotificationPdf, notificationPdfPath } from '../services/notificationPdfs.js';
+import { extractPdfText, PdfTextError } from '../services/pdfText.js';
+
+function line(x: number, y: number, ...cells: Array<[number, string]>) {
+  const shows = cells.map(([dx, text], index) => `${index === 0 ? '' : `${dx} 0 Td `}(${text}) Tj`).join(' ');
+  return `BT /F1 10 Tf ${x} ${y} Td ${shows} ET`;
+}
+
+const PAGE_ONE = [
+  'BT /F1 16 Tf 1 0 0 1 72 760 Tm (STAFF SELECTION COMMISSION) Tj ET',
+  'BT /F1 12 Tf 72 740 Td (Combined Graduate Level Examination 2026 Notification) Tj ET',
+  line(72, 700, [0, 'Online application start date:'], [250, '10/09/2026']),
+  line(72, 686, [0, 'Last date for receipt of online applications:'], [250, '30/11/2026']),
+  line(72, 672, [0, 'Date of Computer Based Examination \\(Tier-I\\)'], [250, '15 January 2027']),
+  line(72, 640, [0, 'Application Fee']),
+  line(72, 626, [0, 'General / OBC'], [250, 'Rs. 100/-']),
+  line(72, 612, [0, 'SC / ST / PwBD / Women'], [250, 'Exempted']),
+  line(72, 580, [0, 'Name of Post'], [230, 'Pay Level'], [120, 'Vacancies']),
+  line(72, 566, [0, 'Assistant Section Officer'], [230, 'Level 7'], [120, '1,200']),
+  line(72, 552, [0, 'Inspector of Income Tax'], [230, 'Level 7'], [120, '300']),
+  line(72, 538, [0, 'Total'], [350, '1,500']),
+  line(72, 500, [0, 'Age Limit: 18 to 32 years as on 01/08/2026']),
+  line(72, 486, [0, 'Apply online at the official website https://ssc.gov.in']),
+].join('\n');
+
+// Page two uses a two-byte font that only decodes through its ToUnicode map.
+const PAGE_TWO = 'BT /F2 12 Tf 72 760 Td <00010002000300040005> Tj ET';
+const TO_UNICODE = [
+  '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+  '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+  '1 beginbfchar <0001> <0041> endbfchar',
+  '1 beginbfrange <0002> <0005> <0042> endbfrange',
+  'endcmap',
+].join('\n');
+
+function buildPdf(): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const object = (id: number, dict: string, stream?: Buffer) => {
+    parts.push(Buffer.from(`${id} 0 obj\n${dict.replace('>>', stream ? ` /Length ${stream.length} >>` : '>>')}\n`, 'latin1'));
+    if (stream) parts.push(Buffer.from('stream\n', 'latin1'), stream, Buffer.from('\nendstream\n', 'latin1'));
+    parts.push(Buffer.from('endobj\n', 'latin1'));
+  };
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>');
+  object(3, '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>');
+  object(4, '<< /Type /Page /Parent 2 0 R /Contents [8 0 R] >>');
+  object(5, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  object(6, '<< /Type /Font /Subtype /Type0 /BaseFont /NotoSans /Encoding /Identity-H /ToUnicode 9 0 R >>');
+  object(7, '<< /Filter /FlateDecode >>', deflateSync(Buffer.from(PAGE_ONE, 'latin1')));
+  object(8, '<< >>', Buffer.from(PAGE_TWO, 'latin1'));
+  object(9, '<< >>', Buffer.from(TO_UNICODE, 'latin1'));
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'));
+  return Buffer.concat(parts);
+}
+
+describe('notification PDF text extraction', () => {
+  it('reads compressed pages in order, splits table cells and decodes ToUnicode fonts', () => {
+    const result = extractPdfText(buildPdf());
+
+    expect(result.pageCount).toBe(2);
+    expect(result.lines[0]).toEqual({ page: 1, cells: ['STAFF SELECTION COMMISSION'], text: 'STAFF SELECTION COMMISSION' });
+    expect(result.lines.find((item) => item.text.startsWith('Name of Post'))?.cells).toEqual(['Name of Post', 'Pay Level', 'Vacancies']);
+    expect(result.lines.find((item) => item.text.includes('Tier-I'))?.cells).toEqual(['Date of Computer Based Examination (Tier-I)', '15 January 2027']);
+    expect(result.lines[result.lines.length - 1]).toEqual({ page: 2, cells: ['ABCDE'], text: 'ABCDE' });
+  });
+
+  it('rejects files that are not PDFs', () => {
+    expect(() => extractPdfText(Buffer.from('<html></html>'))).toThrow('Not a PDF file');
+  });
+
+  it('stops decoding a stream that inflates past the per-document budget', () => {
+    const bomb = deflateSync(Buffer.alloc(40 * 1024 * 1024, 0x20));
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.7\n1 0 obj\n<< /Type /Page /Contents 2 0 R >>\nendobj\n2 0 obj\n<< /Filter /FlateDecode /Length ${bomb.length} >>\nstream\n`, 'latin1'),
+      bomb,
+      Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+    ]);
+
+    expect(() => extractPdfText(pdf)).toThrow(new PdfTextError('PDF content is too large to read'));
+  });
+
+  it('refuses documents with too many objects', () => {
+    const objects = Array.from({ length: 20_001 }, (_, index) => `${index + 1} 0 obj\n<< >>\nendobj\n`).join('');
+
+    expect(() => extractPdfText(Buffer.from(`%PDF-1.7\n${objects}%%EOF\n`, 'latin1'))).toThrow(PdfTextError);
+  });
+
+  it('detects dates, fees, vacancies, age limits and the official website', () => {
+    const fields = extractNotificationFields(extractPdfText(buildPdf()).lines);
+
+    expect(fields).toEqual(expect.objectContaining({
+      title: 'Combined Graduate Level Examination 2026 Notification',
+      organization: 'STAFF SELECTION COMMISSION',
+      postCount: '1500',
+      applicationStartDate: '10/09/2026',
+      lastDate: '30/11/2026',
+      examDate: '15 January 2027',
+    }));
+    expect(fields.importantDates.map((item) => item.kind)).toEqual(['application_start', 'last_date', 'exam_date']);
+    expect(fields.feeRules).toEqual([
+      { category: 'General / OBC', amount: '₹100' },
+      { category: 'SC / ST / PwBD / Women', amount: 'Exempted' },
+    ]);
+    expect(fields.vacancyRows).toEqual([
+      { postName: 'Assistant Section Officer', vacancies: '1200', payLevel: 'Level 7' },
+      { postName: 'Inspector of Income Tax', vacancies: '300', payLevel: 'Level 7' },
+    ]);
+    expect(fields.eligibility).toEqual([expect.objectContaining({ minAge: 18, maxAge: 32, ageCutoffDate: '2026-08-01' })]);
+    expect(fields.officialSources).toEqual([{ label: 'Official Website', url: 'https://ssc.gov.in/', sourceType: 'website', isPrimary: true }]);
+    expect(fields.needsReview).toEqual(expect.arrayContaining(['title', 'summary', 'feeRules', 'vacancyRows', 'eligibility', 'officialSources']));
+  });
+});
+
+describe('notification PDF import', () => {
+  const originalDir = config.notificationPdfDir;
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'notification-pdfs-'));
+    config.notificationPdfDir = dir;
+  });
+
+  afterEach(async () => {
+    config.notificationPdfDir = originalDir;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores the PDF by hash and attaches it as an official source of the draft', async () => {
+    const pdf = buildPdf();
+    const now = new Date('2026-10-18T09:00:00.000Z');
+
+    const result = await importNotificationPdf({ fileName: 'cgl-2026.pdf', content: pdf.toString('base64') }, now);
+    const again = await importNotificationPdf({ fileName: 'copy.pdf', content: pdf.toString('base64') }, now);
+
+    expect(again.file.id).toBe(result.file.id);
+    expect(await fs.readdir(dir)).toEqual([`${result.file.id}.pdf`]);
+    expect(notificationPdfPath(`${result.file.id}.pdf`)).toBe(path.join(dir, `${result.file.id}.pdf`));
+    expect(notificationPdfPath('../secrets.pdf')).toBeNull();
+    expect(result.draft.officialSources).toEqual([
+      expect.objectContaining({ url: 'https://ssc.gov.in/', isPrimary: true }),
+      {
+        label: 'Notification PDF (cgl-2026.pdf)',
+        url: `${config.publicApiUrl}/content/notification-pdfs/${result.file.id}.pdf`,
+        sourceType: 'notification',
+        isPrimary: false,
+        capturedAt: now.toISOString(),
+      },
+    ]);
+    expect(result.draft).toEqual(expect.objectContaining({ type: 'job', organization: { name: 'STAFF SELECTION COMMISSION' } }));
+    expect(result.warnings).toEqual([]);
+  });
+});
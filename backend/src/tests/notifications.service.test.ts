@@ -13,6 +13,7 @@ const mocks = vi.hoisted(() => ({
   campaignRemove: vi.fn(),
   campaignListScheduledDue: vi.fn(),
   campaignJobEnqueue: vi.fn(),
+  savedSegmentFindById: vi.fn(),
   campaignJobClaimNext: vi.fn(),
   campaignJobFailExhausted: vi.fn(),
   campaignJobHeartbeat: vi.fn(),
@@ -30,6 +31,7 @@ const mocks = vi.hoisted(() => ({
   pushDeleteByEndpoint: vi.fn(),
   subscriptionCount: vi.fn(),
   subscriptionFindMany: vi.fn(),
+  subscriptionFindUnique: vi.fn(),
   userAccountFindMany: vi.fn(),
   vapidPublicKey: '',
   vapidPrivateKey: '',
@@ -37,6 +39,8 @@ const mocks = vi.hoisted(() => ({
   subscriptionCategoryGroupBy: vi.fn(),
   stateFindMany: vi.fn(),
   categoryFindMany: vi.fn(),
+  telegramListChannels: vi.fn(),
+  telegramSendTo: vi.fn(),
 }));
 
 vi.mock('../models/campaignJobs.postgres.js', () => ({
@@ -66,6 +70,13 @@ vi.mock('../models/notificationCampaigns.postgres.js', () => ({
   },
 }));
 
+vi.mock('../models/campaignSegments.postgres.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../models/campaignSegments.postgres.js')>()),
+  default: {
+    findById: mocks.savedSegmentFindById,
+  },
+}));
+
 vi.mock('../models/pushSubscriptions.postgres.js', () => ({
   default: {
     listAll: mocks.pushListAll,
@@ -75,7 +86,8 @@ vi.mock('../models/pushSubscriptions.postgres.js', () => ({
   },
 }));
 
-vi.mock('../models/campaignDispatchLogs.postgres.js', () => ({
+vi.mock('../models/campaignDispatchLogs.postgres.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../models/campaignDispatchLogs.postgres.js')>()),
   default: {
     createMany: mocks.dispatchCreateMany,
     listFailed: mocks.dispatchListFailed,
@@ -87,6 +99,12 @@ vi.mock('../services/email.js', () => ({
   sendCampaignEmail: mocks.sendCampaignEmail,
 }));
 
+vi.mock('../services/telegram.js', () => ({
+  escapeHtml: (text: string) => text,
+  listTelegramChannels: mocks.telegramListChannels,
+  sendTelegramMessageTo: mocks.telegramSendTo,
+}));
+
 vi.mock('web-push', () => ({
   default: {
     sendNotification: mocks.webPushSendNotification,
@@ -111,6 +129,7 @@ vi.mock('../services/postgres/prisma.js', () => ({
     subscription: {
       count: mocks.subscriptionCount,
       findMany: mocks.subscriptionFindMany,
+      findUnique: mocks.subscriptionFindUnique,
     },
     subscriptionState: {
       groupBy: mocks.subscriptionStateGroupBy,
@@ -142,6 +161,7 @@ describe('notification service', () => {
       id: 'campaign-1',
       status: 'draft',
       segment: { type: 'all', value: '' },
+      channels: ['email', 'push'],
       unsupportedSegment: false,
     });
     mocks.campaignMarkFailed.mockResolvedValue(true);
@@ -166,14 +186,17 @@ describe('notification service', () => {
     mocks.pushDeleteByEndpoint.mockResolvedValue(true);
     mocks.subscriptionCount.mockResolvedValue(2);
     mocks.subscriptionFindMany.mockResolvedValue([
-      { id: 'sub-1', email: 'one@example.com' },
-      { id: 'sub-2', email: 'two@example.com' },
+      { id: 'sub-1', email: 'one@example.com', unsubscribeToken: 'token-1' },
+      { id: 'sub-2', email: 'two@example.com', unsubscribeToken: 'token-2' },
     ]);
+    mocks.subscriptionFindUnique.mockResolvedValue(null);
     mocks.userAccountFindMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
     mocks.subscriptionStateGroupBy.mockResolvedValue([]);
     mocks.subscriptionCategoryGroupBy.mockResolvedValue([]);
     mocks.stateFindMany.mockResolvedValue([]);
     mocks.categoryFindMany.mockResolvedValue([]);
+    mocks.telegramListChannels.mockReturnValue([{ locale: 'en', chatId: '@sarkari_en' }]);
+    mocks.telegramSendTo.mockResolvedValue({ success: true, messageId: '42' });
   });
 
   it('rejects unsupported language campaign segments', async () => {
@@ -220,6 +243,68 @@ describe('notification service', () => {
     );
   });
 
+  it('snapshots a saved segment expression onto custom campaigns', async () => {
+    const expression = {
+      type: 'group',
+      combinator: 'and',
+      rules: [{ type: 'condition', field: 'category', values: ['Railway'] }],
+    };
+    mocks.savedSegmentFindById.mockResolvedValue({ id: 'segment-1', name: 'Railway aspirants', expression });
+    const { createCampaign } = await import('../services/notifications.js');
+
+    const result = await createCampaign({
+      title: 'Railway campaign',
+      body: 'New railway vacancies are open.',
+      segment: { type: 'custom', value: '' },
+      savedSegmentId: 'segment-1',
+    }, 'admin-user');
+
+    expect(result.success).toBe(true);
+    expect(mocks.campaignCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        segment: { type: 'custom', value: 'Railway aspirants' },
+        segmentExpression: expression,
+      }),
+      'admin-user',
+    );
+  });
+
+  it('requires an audience for custom campaign segments', async () => {
+    const { createCampaign } = await import('../services/notifications.js');
+
+    const result = await createCampaign({
+      title: 'Custom campaign',
+      body: 'This should not be accepted.',
+      segment: { type: 'custom', value: '' },
+    }, 'admin-user');
+
+    expect(result.success).toBe(false);
+    expect(mocks.campaignCreate).not.toHaveBeenCalled();
+  });
+
+  it('estimates a draft audience expression per channel', async () => {
+    mocks.subscriptionFindMany.mockResolvedValue([{ id: 'sub-1', email: 'one@example.com', phone: null }]);
+    const { estimateCampaignRecipients } = await import('../services/notifications.js');
+
+    const result = await estimateCampaignRecipients({
+      audience: {
+        type: 'group',
+        combinator: 'or',
+        rules: [{ type: 'condition', field: 'frequency', values: ['daily'] }],
+      },
+      channels: ['email'],
+    });
+
+    expect(result).toEqual({ success: true, data: { email: 1, total: 1 } });
+    expect(mocks.subscriptionFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        isActive: true,
+        verified: true,
+        AND: [{ OR: [{ frequency: { in: ['DAILY'] } }] }],
+      },
+    }));
+  });
+
   it('delivers campaign recipients and records dispatch logs', async () => {
     const { sendCampaign } = await import('../services/notifications.js');
 
@@ -234,6 +319,10 @@ describe('notification service', () => {
     });
     expect(mocks.campaignMarkSending).toHaveBeenCalledWith('campaign-1', ['draft']);
     expect(mocks.sendCampaignEmail).toHaveBeenCalledTimes(2);
+    expect(mocks.sendCampaignEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'one@example.com', unsubscribeToken: 'token-1' }));
+    expect(mocks.subscriptionFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      select: expect.objectContaining({ unsubscribeToken: true }),
+    }));
     expect(mocks.dispatchCreateMany).toHaveBeenCalledWith(expect.arrayContaining([
       expect.objectContaining({ channel: 'email', status: 'sent', recipient: 'one@example.com' }),
       expect.objectContaining({ channel: 'push', status: 'failed', error: 'VAPID keys are not configured' }),
@@ -243,6 +332,65 @@ describe('notification service', () => {
     expect(mocks.campaignMarkSimulated).not.toHaveBeenCalled();
   });
 
+  it('fans out to the selected channels with per-channel templates', async () => {
+    const sent: Array<{ to: string; text: string }> = [];
+    const { setMessagingProvider } = await import('../services/messaging.js');
+    setMessagingProvider({
+      name: 'test',
+      send: async (message) => {
+        sent.push(message);
+        return { success: true, messageId: 'wa-1' };
+      },
+    });
+    mocks.campaignFindById.mockResolvedValue({
+      id: 'campaign-1',
+      title: 'SSC CGL form open',
+      body: 'Apply before 31 July.',
+      status: 'draft',
+      segment: { type: 'all', value: 'all' },
+      channels: ['telegram', 'whatsapp'],
+      channelTemplates: { whatsapp: { body: 'Reminder: {{body}}' } },
+      unsupportedSegment: false,
+    });
+    mocks.subscriptionFindMany.mockResolvedValue([
+      { id: 'sub-1', email: 'one@example.com', phone: '+919876543210' },
+      { id: 'sub-2', email: 'two@example.com', phone: null },
+    ]);
+    const { sendCampaign } = await import('../services/notifications.js');
+
+    const result = await sendCampaign('campaign-1');
+    setMessagingProvider(undefined);
+
+    expect(result).toMatchObject({ sentCount: 2, failedCount: 0, totals: { telegram: 1, whatsapp: 1, total: 2 } });
+    expect(mocks.sendCampaignEmail).not.toHaveBeenCalled();
+    expect(mocks.webPushSendNotification).not.toHaveBeenCalled();
+    expect(mocks.telegramSendTo).toHaveBeenCalledWith('@sarkari_en', expect.stringContaining('SSC CGL form open'));
+    expect(sent).toEqual([expect.objectContaining({ to: '+919876543210', text: expect.stringContaining('Reminder: Apply before 31 July.') })]);
+    expect(mocks.dispatchCreateMany).toHaveBeenCalledWith([
+      expect.objectContaining({ channel: 'telegram', recipient: '@sarkari_en', status: 'sent', messageId: '42' }),
+      expect.objectContaining({ channel: 'whatsapp', recipient: '+919876543210', subscriptionId: 'sub-1', status: 'sent' }),
+    ]);
+  });
+
+  it('fails WhatsApp deliveries when no messaging provider is configured', async () => {
+    mocks.campaignFindById.mockResolvedValue({
+      id: 'campaign-1',
+      status: 'draft',
+      segment: { type: 'all', value: 'all' },
+      channels: ['whatsapp'],
+      unsupportedSegment: false,
+    });
+    mocks.subscriptionFindMany.mockResolvedValue([{ id: 'sub-1', email: 'one@example.com', phone: '+919876543210' }]);
+    const { sendCampaign } = await import('../services/notifications.js');
+
+    await sendCampaign('campaign-1');
+
+    expect(mocks.dispatchCreateMany).toHaveBeenCalledWith([
+      expect.objectContaining({ channel: 'whatsapp', status: 'failed', error: 'WhatsApp provider is not configured' }),
+    ]);
+    expect(mocks.campaignMarkFailed).toHaveBeenCalledWith('campaign-1', { sentCount: 0, failedCount: 1 });
+  });
+
   it('marks campaign failed when all deliveries fail', async () => {
     mocks.sendCampaignEmail.mockResolvedValue({ success: false, error: 'SendGrid is not configured' });
     mocks.pushListAll.mockResolvedValue([]);
@@ -309,6 +457,7 @@ describe('notification service', () => {
       id: 'campaign-1',
       status: 'draft',
       segment: { type: 'state', value: 'Uttar Pradesh' },
+      channels: ['email', 'push'],
       unsupportedSegment: false,
     });
     const { sendCampaign } = await import('../services/notifications.js');
@@ -350,6 +499,7 @@ describe('notification service', () => {
       id: 'campaign-1',
       status: 'partial_failed',
       segment: { type: 'all', value: '' },
+      channels: ['email', 'push'],
       unsupportedSegment: false,
     });
     mocks.dispatchListFailed.mockResolvedValue([
@@ -364,6 +514,7 @@ describe('notification service', () => {
       },
     ]);
     mocks.dispatchStats.mockResolvedValue({ total: 2, sent: 1, failed: 1, byChannel: [], recentFailures: [] });
+    mocks.subscriptionFindUnique.mockResolvedValue({ unsubscribeToken: 'token-retry' });
     const { retryFailedCampaign } = await import('../services/notifications.js');
 
     const result = await retryFailedCampaign('campaign-1');
@@ -376,7 +527,7 @@ describe('notification service', () => {
       failedCount: 0,
     });
     expect(mocks.campaignMarkSending).toHaveBeenCalledWith('campaign-1', ['partial_failed']);
-    expect(mocks.sendCampaignEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'retry@example.com' }));
+    expect(mocks.sendCampaignEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'retry@example.com', unsubscribeToken: 'token-retry' }));
     expect(mocks.dispatchCreateMany).toHaveBeenCalledWith([
       expect.objectContaining({ channel: 'email', status: 'sent', metadata: { retryOf: 'failed-email' }, attemptCount: 2 }),
     ]);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  PERMISSIONS,
+  PERMISSION_DEFINITIONS,
+  renderRoleAccessMatrix,
+  resolvePermissions,
+  roleHasPermission,
+} from '../services/permissions.js';
+
+describe('resolvePermissions', () => {
+  it('returns role defaults when there are no overrides', () => {
+    expect(resolvePermissions('editor')).toEqual(['posts:write', 'posts:submit']);
+    expect(resolvePermissions('admin')).toEqual([...PERMISSIONS]);
+    expect(resolvePermissions('user')).toEqual([]);
+    expect(resolvePermissions(undefined)).toEqual([]);
+  });
+
+  it('applies grants and denies on top of the role defaults', () => {
+    const permissions = resolvePermissions('reviewer', [
+      { permission: 'community:moderate', effect: 'grant' },
+      { permission: 'posts:write', effect: 'deny' },
+    ]);
+
+    expect(permissions).toContain('community:moderate');
+    expect(permissions).toContain('posts:approve');
+    expect(permissions).not.toContain('posts:write');
+  });
+
+  it('ignores overrides for superadmins and non-staff accounts', () => {
+    expect(resolvePermissions('superadmin', [{ permission: 'users:manage', effect: 'deny' }])).toContain('users:manage');
+    expect(resolvePermissions('user', [{ permission: 'posts:write', effect: 'grant' }])).toEqual([]);
+  });
+});
+
+describe('roleHasPermission', () => {
+  it('checks role defaults only', () => {
+    expect(roleHasPermission('reviewer', 'posts:approve')).toBe(true);
+    expect(roleHasPermission('editor', 'posts:publish')).toBe(false);
+    expect(roleHasPermission('user', 'posts:write')).toBe(false);
+  });
+});
+
+describe('renderRoleAccessMatrix', () => {
+  it('lists every permission with its default roles', () => {
+    const matrix = renderRoleAccessMatrix();
+
+    for (const definition of PERMISSION_DEFINITIONS) {
+      expect(matrix).toContain(`| \`${definition.key}\` |`);
+    }
+    expect(matrix).toContain('| `posts:approve` | Content | Approve posts waiting in review | `superadmin`, `admin`, `reviewer` |');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PostRecord } from '../content/types.js';
+import { buildSelectiveRevert, diffPostSnapshots } from '../services/postDiff.js';
+
+import { buildPostRecord } from './fixtures/posts.js';
+
+const buildPost = (overrides: Partial<PostRecord> = {}): PostRecord => buildPostRecord({
+  summary: 'Combined Graduate Level exam',
+  lastDate: '2026-07-31',
+  seo: { metaTitle: 'SSC CGL 2026 notification' },
+  trust: { verificationNote: 'Checked against ssc.gov.in', officialSources: [] },
+  feeRules: [
+    { category: 'General', amount: '100' },
+    { category: 'SC/ST', amount: '0' },
+  ],
+  vacancyRows: [{ postName: 'Assistant', vacancies: '120' }],
+  ...overrides,
+});
+
+describe('diffPostSnapshots', () => {
+  it('reports changed scalar, SEO and trust fields', () => {
+    const before = buildPost();
+    const after = buildPost({
+      lastDate: '2026-08-15',
+      seo: { metaTitle: 'SSC CGL 2026 – last date extended' },
+      trust: { verificationNote: '', officialSources: [] },
+    });
+
+    expect(diffPostSnapshots(before, after)).toEqual([
+      { kind: 'value', field: 'lastDate', label: 'Last date', before: '2026-07-31', after: '2026-08-15' },
+      {
+        kind: 'value',
+        field: 'seo.metaTitle',
+        label: 'Meta title',
+        before: 'SSC CGL 2026 notification',
+        after: 'SSC CGL 2026 – last date extended',
+      },
+      {
+        kind: 'value',
+        field: 'trust.verificationNote',
+        label: 'Verification note',
+        before: 'Checked against ssc.gov.in',
+        after: '',
+      },
+    ]);
+  });
+
+  it('compares table rows by position', () => {
+    const before = buildPost();
+    const after = buildPost({
+      feeRules: [{ category: 'General', amount: '150' }],
+      vacancyRows: [{ postName: 'Assistant', vacancies: '120' }, { postName: 'Inspector', vacancies: '40' }],
+    });
+
+    const changes = diffPostSnapshots(before, after);
+
+    expect(changes).toContainEqual({
+      kind: 'rows',
+      field: 'feeRules',
+      label: 'Fee rules',
+      rows: [
+        { index: 0, change: 'changed', before: { category: 'General', amount: '100' }, after: { category: 'General', amount: '150' } },
+        { index: 1, change: 'removed', before: { category: 'SC/ST', amount: '0' } },
+      ],
+    });
+    expect(changes).toContainEqual({
+      kind: 'rows',
+      field: 'vacancyRows',
+      label: 'Vacancy rows',
+      rows: [{ index: 1, change: 'added', after: { postName: 'Inspector', vacancies: '40' } }],
+    });
+  });
+
+  it('treats missing, null and empty values as equal', () => {
+    const before = buildPost({ location: undefined, shortInfo: '' });
+    const after = buildPost({ location: null as unknown as string, shortInfo: undefined });
+
+    expect(diffPostSnapshots(before, after)).toEqual([]);
+  });
+});
+
+describe('buildSelectiveRevert', () => {
+  it('copies only the selected fields and keeps the rest of the current post', () => {
+    const version = buildPost();
+    const current = buildPost({
+      title: 'SSC CGL 2026 (revised)',
+      lastDate: '2026-08-15',
+      seo: { metaTitle: 'Changed', metaDescription: 'Kept' },
+    });
+
+    expect(buildSelectiveRevert(current, version, { fields: ['lastDate', 'seo.metaTitle'] })).toEqual({
+      lastDate: '2026-07-31',
+      seo: { metaTitle: 'SSC CGL 2026 notification', metaDescription: 'Kept' },
+    });
+  });
+
+  it('clears trust text that the version did not have', () => {
+    const version = buildPost({ trust: { officialSources: [] } });
+    const current = buildPost();
+
+    expect(buildSelectiveRevert(current, version, { fields: ['trust.verificationNote'] }).trust).toEqual({
+      verificationNote: '',
+      officialSources: [],
+    });
+  });
+
+  it('restores, replaces and drops selected rows', () => {
+    const version = buildPost();
+    const current = buildPost({
+      feeRules: [
+        { category: 'General', amount: '150' },
+        { category: 'SC/ST', amount: '0' },
+        { category: 'PwD', amount: '0' },
+      ],
+    });
+
+    expect(buildSelectiveRevert(current, version, { rows: { feeRules: [0, 2] } })).toEqual({
+      feeRules: [
+        { category: 'General', amount: '100' },
+        { category: 'SC/ST', amount: '0' },
+      ],
+    });
+  });
+});
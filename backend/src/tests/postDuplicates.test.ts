@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { listDuplicateCandidatesMock, listReviewsMock } = vi.hoisted(() => ({
+  listDuplicateCandidatesMock: vi.fn(),
+  listReviewsMock: vi.fn(),
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+  default: { listDuplicateCandidates: listDuplicateCandidatesMock },
+}));
+
+vi.mock('../models/postDuplicateReviews.postgres.js', () => ({
+  default: { listForPost: listReviewsMock },
+}));
+
+import type { PostRecord } from '../content/types.js';
+import {
+  findPostDuplicates,
+  fingerprintPost,
+  getDuplicateSubmitBlock,
+  normalizeSourceUrl,
+  scoreDuplicate,
+} from '../services/postDuplicates.js';
+
+import { buildPostRecord } from './fixtures/posts.js';
+
+const post = (overrides: Partial<PostRecord> = {}): PostRecord => buildPostRecord({
+  title: 'SSC CGL 2026 Recruitment Notification',
+  status: 'draft',
+  summary: 'Combined Graduate Level Examination 2026.',
+  organization: { name: 'Staff Selection Commission', slug: 'staff-selection-commission' },
+  officialSources: [{ label: 'Official Notice', url: 'https://ssc.gov.in/notices/cgl-2026.pdf', isPrimary: true }],
+  lastDate: '30/11/2026',
+  ...overrides,
+});
+
+describe('post duplicate fingerprints', () => {
+  it('normalizes source URLs, advertisement numbers and key dates', () => {
+    const fingerprint = fingerprintPost(post({
+      summary: 'Advt. No. HQ-PPI03/1/2026 published for CGL.',
+      officialSources: [{ label: 'Notice', url: 'https://WWW.ssc.gov.in/notices/cgl-2026.pdf/#page=2' }],
+      lastDate: '2026-11-30',
+    }));
+
+    expect(fingerprint).toMatchObject({
+      titleTokens: ['ssc', 'cgl', '2026'],
+      years: ['2026'],
+      organization: 'staff-selection-commission',
+      advertisementNumbers: ['hqppi0312026'],
+      sourceUrls: ['ssc.gov.in/notices/cgl-2026.pdf'],
+      keyDates: { lastDate: '2026-11-30' },
+    });
+    expect(normalizeSourceUrl('not a url')).toBeNull();
+  });
+
+  it('flags the same notice entered twice and clears the next cycle of the same exam', () => {
+    const original = fingerprintPost(post());
+    const retyped = fingerprintPost(post({
+      id: 'post-2',
+      title: 'SSC CGL Online Form 2026',
+      officialSources: [{ label: 'Notification', url: 'https://ssc.gov.in/notices/cgl-2026.pdf' }],
+      lastDate: '2026-11-30',
+    }));
+    const nextCycle = fingerprintPost(post({
+      id: 'post-3',
+      title: 'SSC CGL 2027 Recruitment Notification',
+      officialSources: [{ label: 'Notification', url: 'https://ssc.gov.in/notices/cgl-2027.pdf' }],
+      lastDate: '30/11/2027',
+    }));
+
+    expect(scoreDuplicate(original, retyped)).toEqual({
+      score: 1,
+      reasons: ['official_source', 'title', 'organization', 'key_dates'],
+    });
+    expect(scoreDuplicate(original, nextCycle).score).toBeLessThan(0.6);
+  });
+
+  it('counts a different advertisement number against the pair', () => {
+    const first = fingerprintPost(post({ summary: 'Advt No. 01/2026' }));
+    const second = fingerprintPost(post({ id: 'post-2', summary: 'Advt No. 02/2026', officialSources: [] }));
+
+    expect(scoreDuplicate(first, second)).toEqual({ score: 0.35, reasons: ['title', 'organization', 'key_dates'] });
+  });
+});
+
+describe('post duplicate detection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listReviewsMock.mockResolvedValue([]);
+  });
+
+  it('queries same-type candidates and reports likely duplicates with editor verdicts', async () => {
+    listDuplicateCandidatesMock.mockResolvedValue([
+      post({ id: 'post-2', slug: 'ssc-cgl-2026-2', status: 'published' }),
+      post({ id: 'post-3', title: 'SSC GD Constable 2026', slug: 'ssc-gd-2026', officialSources: [], lastDate: undefined }),
+    ]);
+    listReviewsMock.mockResolvedValue([
+      { id: 'review-1', postId: 'post-1', otherPostId: 'post-2', decision: 'distinct', reviewedBy: 'editor-1', updatedAt: new Date('2026-10-02T00:00:00.000Z') },
+    ]);
+
+    const matches = await findPostDuplicates(post());
+
+    expect(listDuplicateCandidatesMock).toHaveBeenCalledWith({
+      excludeId: 'post-1',
+      type: 'job',
+      organizationSlug: 'staff-selection-commission',
+      examSlug: undefined,
+      sourceUrls: ['https://ssc.gov.in/notices/cgl-2026.pdf'],
+      terms: ['ssc', 'cgl'],
+    });
+    expect(matches).toEqual([{
+      postId: 'post-2',
+      title: 'SSC CGL 2026 Recruitment Notification',
+      slug: 'ssc-cgl-2026-2',
+      type: 'job',
+      status: 'published',
+      score: 1,
+      reasons: ['official_source', 'title', 'organization', 'key_dates'],
+      confirmedDistinct: { by: 'editor-1', at: '2026-10-02T00:00:00.000Z', note: undefined },
+    }]);
+    expect(await getDuplicateSubmitBlock(post())).toBeNull();
+  });
+
+  it('blocks submit while a flagged duplicate has no verdict', async () => {
+    listDuplicateCandidatesMock.mockResolvedValue([post({ id: 'post-2', slug: 'ssc-cgl-2026-2' })]);
+
+    expect(await getDuplicateSubmitBlock(post())).toBe(
+      'Possible duplicate of "SSC CGL 2026 Recruitment Notification" (ssc-cgl-2026-2). Confirm the posts are distinct or merge them before submitting.',
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { deflateRawSync } from 'zlib';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  listTaxonomies: vi.fn(),
+  findBySlugs: vi.fn(),
+  createPost: vi.fn(),
+}));
+
+vi.mock('../models/contentTaxonomies.postgres.js', () => ({
+  default: { list: mocks.listTaxonomies },
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+  default: { findBySlugs: mocks.findBySlugs, create: mocks.createPost },
+}));
+
+import { previewPostImport, runPostImport, suggestPostImportMapping } from '../services/postImport.js';
+import { excelSerialToDate, parseCsv, parseXlsx } from '../services/spreadsheet.js';
+
+/** Builds a minimal XLSX zip (deflated entries, no CRCs) around the given sheet XML. */
+function buildXlsx(sheetXml: string, sharedStrings: string[]): Buffer {
+  const files: Record<string, string> = {
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Posts" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/sharedStrings.xml': `<sst>${sharedStrings.map((text) => `<si><t>${text}</t></si>`).join('')}</sst>`,
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetXml}</sheetData></worksheet>`,
+  };
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = deflateRawSync(Buffer.from(content, 'utf8'));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const CSV = [
+  'Title,Type,Summary,Organisation,Category,State,Last Date,Fees,Vacancies,Official Link',
+  '"SSC CGL 2026","Jobs","Combined Graduate Level exam notification for 2026.","Staff Selection Commission","Latest Jobs","Delhi; Bihar","30/11/2026","General | 100\nSC/ST | 0","Assistant | 500 | UR","https://ssc.gov.in/cgl-2026.pdf"',
+  '"Bad row","job","short","","","","","","",""',
+  '"SSC CGL 2026","job","Same title again, should be flagged in the file.","SSC","Latest Jobs","","","","","https://ssc.gov.in/"',
+].join('\n');
+
+describe('spreadsheet parsing', () => {
+  it('reads quoted CSV fields with embedded newlines and semicolon delimiters', () => {
+    const sheet = parseCsv('﻿name;note\n"A";"line 1\nline ""2"""\n\n"B";x');
+
+    expect(sheet.columns).toEqual(['name', 'note']);
+    expect(sheet.rows).toEqual([
+      { name: 'A', note: 'line 1\nline "2"' },
+      { name: 'B', note: 'x' },
+    ]);
+  });
+
+  it('reads shared strings, inline strings, numbers and sparse cells from the first XLSX sheet', () => {
+    const buffer = buildXlsx(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>'
+      + '<row r="2"><c r="A2" t="inlineStr"><is><t>UPSC &amp; CSE</t></is></c><c r="C2"><v>46356</v></c></row>',
+      ['Title', 'Summary', 'Last Date'],
+    );
+
+    const sheet = parseXlsx(buffer);
+
+    expect(sheet.columns).toEqual(['Title', 'Summary', 'Last Date']);
+    expect(sheet.rows).toEqual([{ Title: 'UPSC & CSE', Summary: '', 'Last Date': '46356' }]);
+    expect(excelSerialToDate('46356')).toBe('2026-11-30');
+    expect(excelSerialToDate('500')).toBeNull();
+  });
+});
+
+describe('structured post import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.listTaxonomies.mockImplementation(async (type: string) => {
+      if (type === 'organizations') {
+        return [{ id: 'org-1', name: 'Staff Selection Commission', slug: 'staff-selection-commission', shortName: 'SSC' }];
+      }
+      if (type === 'categories') return [{ id: 'cat-1', name: 'Latest Jobs', slug: 'latest-jobs' }];
+      return [];
+    });
+    mocks.findBySlugs.mockResolvedValue([]);
+    mocks.createPost.mockImplementation(async (input) => ({ id: `post-${input.title.length}`, ...input }));
+  });
+
+  it('suggests a mapping from headers and aliases', () => {
+    expect(suggestPostImportMapping(['Post Title', 'Organisation', 'Deadline', 'Official Link', 'Notes'])).toEqual({
+      'Post Title': 'title',
+      Organisation: 'organization',
+      Deadline: 'lastDate',
+      'Official Link': 'officialSources',
+    });
+    expect(previewPostImport({ format: 'csv', content: CSV }).rowCount).toBe(3);
+  });
+
+  it('reports validation errors, taxonomy matches and in-file duplicates on a dry run', async () => {
+    const { suggestedMapping } = previewPostImport({ format: 'csv', content: CSV });
+
+    const report = await runPostImport({ format: 'csv', content: CSV, mapping: suggestedMapping, dryRun: true, skipDuplicates: true });
+
+    expect(report.summary).toEqual({ valid: 1, invalid: 1, duplicate: 1, created: 0, skipped: 0, failed: 0 });
+    expect(report.rows[0]).toEqual(expect.objectContaining({
+      row: 1,
+      slug: 'ssc-cgl-2026',
+      status: 'valid',
+      warnings: ['New state "Delhi" will be created', 'New state "Bihar" will be created'],
+    }));
+    expect(report.rows[1].errors).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^summary:/),
+      expect.stringMatching(/^categories:/),
+    ]));
+    expect(report.rows[2].duplicates).toEqual([{ source: 'file', row: 1, title: 'SSC CGL 2026' }]);
+    expect(mocks.createPost).not.toHaveBeenCalled();
+  });
+
+  it('creates drafts with structured rows and resolved taxonomy, skipping existing slugs', async () => {
+    mocks.findBySlugs.mockResolvedValue([
+      { id: 'existing-1', title: 'Old CGL', slug: 'old-cgl', type: 'job', status: 'published', legacySlugs: ['ssc-cgl-2026'] },
+    ]);
+    const json = JSON.stringify([
+      {
+        title: 'SSC CGL 2026',
+        type: 'job',
+        summary: 'Combined Graduate Level exam notification for 2026.',
+        categories: ['Latest Jobs'],
+      },
+      {
+        title: 'SSC CHSL 2026',
+        type: 'job',
+        summary: 'Combined Higher Secondary Level notification for 2026.',
+        organization: 'SSC',
+        lastDate: '46356',
+        feeRules: [{ category: 'General', amount: '100' }],
+        officialSources: 'Notice | https://ssc.gov.in/chsl.pdf | notification',
+      },
+    ]);
+    const { suggestedMapping } = previewPostImport({ format: 'json', content: json });
+
+    const report = await runPostImport(
+      { format: 'json', content: json, mapping: suggestedMapping, defaults: { categories: ['Latest Jobs'] }, dryRun: false, skipDuplicates: true },
+      { userId: 'editor-1', role: 'editor' },
+    );
+
+    expect(report.rows.map((row) => row.status)).toEqual(['skipped', 'created']);
+    expect(report.rows[0].duplicates).toEqual([{ source: 'existing', postId: 'existing-1', title: 'Old CGL', status: 'published' }]);
+    expect(mocks.createPost).toHaveBeenCalledTimes(1);
+    expect(mocks.createPost).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'draft',
+        organization: { name: 'Staff Selection Commission', slug: 'staff-selection-commission' },
+        categories: [{ name: 'Latest Jobs', slug: 'latest-jobs' }],
+        lastDate: '2026-11-30',
+        feeRules: [{ category: 'General', amount: '100' }],
+        officialSources: [{ label: 'Notice', url: 'https://ssc.gov.in/chsl.pdf', sourceType: 'notification', isPrimary: true }],
+        trust: expect.objectContaining({ officialSources: [expect.objectContaining({ isPrimary: true })] }),
+      }),
+      'editor-1',
+      'editor',
+      `Bulk import ${report.batchId}`,
+    );
+  });
+
+  it('rejects mappings to unknown fields', async () => {
+    await expect(runPostImport({ format: 'csv', content: CSV, mapping: { Title: 'headline' } })).rejects.toThrow('Unknown import field: headline');
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    sendNotification: vi.fn().mockResolvedValue({}),
+    configureWebPush: vi.fn().mockReturnValue(true),
+    listForInstantAlert: vi.fn(),
+    deleteByEndpoint: vi.fn().mockResolvedValue(true),
+    logCreate: vi.fn().mockResolvedValue({}),
+    logUpdate: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('web-push', () => ({ default: { sendNotification: mocks.sendNotification } }));
+
+vi.mock('../services/campaignChannels.js', () => ({
+    configureWebPush: mocks.configureWebPush,
+    mapWithConcurrency: <T, R>(items: T[], _concurrency: number, handler: (item: T) => Promise<R>) => Promise.all(items.map(handler)),
+}));
+
+vi.mock('../models/pushSubscriptions.postgres.js', () => ({
+    default: {
+        listForInstantAlert: mocks.listForInstantAlert,
+        deleteByEndpoint: mocks.deleteByEndpoint,
+    },
+}));
+
+vi.mock('../services/postgres/prisma.js', () => ({
+    prismaApp: {
+        pushAlertLog: { create: mocks.logCreate, update: mocks.logUpdate },
+    },
+}));
+
+import { buildPostPushPayload, dispatchPostPushAlerts } from '../services/pushAlerts.js';
+
+const post = {
+    id: 'post-1',
+    title: 'SSC CGL 2026',
+    slug: 'ssc-cgl-2026',
+    type: 'job',
+    status: 'published',
+    summary: 'Combined Graduate Level exam.',
+    lastDate: '2026-11-30',
+    organization: { id: 'o1', name: 'SSC', slug: 'ssc' },
+    categories: [{ id: 'c1', name: 'Central', slug: 'central' }],
+    states: [{ id: 's1', name: 'Bihar', slug: 'bihar' }],
+    officialSources: [
+        { label: 'Notice', url: 'https://ssc.gov.in/notice.pdf' },
+        { label: 'Apply', url: 'https://ssc.gov.in/apply', isPrimary: true },
+    ],
+} as any;
+
+const subscription = (endpoint: string) => ({ endpoint, keys: { p256dh: 'k', auth: 'a' } });
+
+describe('publish push alerts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.configureWebPush.mockReturnValue(true);
+        mocks.sendNotification.mockResolvedValue({});
+        mocks.logCreate.mockResolvedValue({});
+    });
+
+    it('builds a payload with apply and save actions', () => {
+        const payload = buildPostPushPayload(post);
+
+        expect(payload.title).toBe('New job: SSC CGL 2026');
+        expect(payload.body).toBe('SSC · Last date: 2026-11-30');
+        expect(payload.url).toMatch(/\/jobs\/ssc-cgl-2026\?source=push&medium=push&campaign=instant_alert$/);
+        expect(payload.applyUrl).toBe('https://ssc.gov.in/apply');
+        expect(payload.actions.map((item) => item.action)).toEqual(['apply', 'save']);
+        expect(buildPostPushPayload({ ...post, type: 'result' }).actions.map((item) => item.action)).toEqual(['save']);
+    });
+
+    it('pushes to matching subscribers and drops expired endpoints', async () => {
+        mocks.listForInstantAlert.mockResolvedValue([subscription('https://push/1'), subscription('https://push/2')]);
+        mocks.sendNotification
+            .mockResolvedValueOnce({})
+            .mockRejectedValueOnce(Object.assign(new Error('gone'), { statusCode: 410 }));
+
+        const result = await dispatchPostPushAlerts(post);
+
+        expect(mocks.listForInstantAlert).toHaveBeenCalledWith({ type: 'job', stateSlugs: ['bihar'], categorySlugs: ['central'] });
+        expect(result).toEqual({ status: 'sent', recipients: 2, sent: 1, failed: 1 });
+        expect(mocks.deleteByEndpoint).toHaveBeenCalledWith('https://push/2');
+        expect(mocks.logUpdate).toHaveBeenCalledWith({
+            where: { postId: 'post-1' },
+            data: { recipients: 2, sent: 1, failed: 1 },
+        });
+    });
+
+    it('pushes a post only once', async () => {
+        mocks.logCreate.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+        const result = await dispatchPostPushAlerts(post);
+
+        expect(result.status).toBe('duplicate');
+        expect(mocks.listForInstantAlert).not.toHaveBeenCalled();
+    });
+
+    it('skips unpublished posts and unconfigured VAPID keys', async () => {
+        expect((await dispatchPostPushAlerts({ ...post, status: 'draft' })).status).toBe('skipped');
+        mocks.configureWebPush.mockReturnValue(false);
+        expect((await dispatchPostPushAlerts(post)).status).toBe('skipped');
+        expect(mocks.logCreate).not.toHaveBeenCalled();
+    });
+});
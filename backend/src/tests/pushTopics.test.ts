@@ -0,0 +1,95 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    upsert: vi.fn(),
+    findByEndpoint: vi.fn(),
+    updateTopics: vi.fn(),
+    recordAnalyticsEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../middleware/auth.js', () => ({
+    optionalAuth: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../models/pushSubscriptions.postgres.js', () => ({ default: mocks }));
+
+vi.mock('../services/analytics.js', () => ({
+    recordAnalyticsEvent: mocks.recordAnalyticsEvent,
+}));
+
+import pushRouter from '../routes/push.js';
+
+const ENDPOINT = 'https://push.example.com/sub/1';
+const topics = { instantAlerts: true, stateSlugs: ['bihar'], categorySlugs: [], postTypes: ['job'] };
+
+function buildApp() {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/push', pushRouter);
+    return app;
+}
+
+describe('push topics and click-through', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.recordAnalyticsEvent.mockResolvedValue(undefined);
+    });
+
+    it('stores topics sent with a new subscription as slugs', async () => {
+        mocks.upsert.mockResolvedValue({ id: 'p1', endpoint: ENDPOINT, topics });
+
+        await request(buildApp())
+            .post('/api/push/subscribe')
+            .send({
+                endpoint: ENDPOINT,
+                keys: { p256dh: 'key', auth: 'auth' },
+                topics: { states: ['Uttar Pradesh', 'uttar-pradesh'], categories: ['Banking'], postTypes: ['job'] },
+            })
+            .expect(200);
+
+        expect(mocks.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            topics: { instantAlerts: true, stateSlugs: ['uttar-pradesh'], categorySlugs: ['banking'], postTypes: ['job'] },
+        }));
+    });
+
+    it('reads and replaces topics by endpoint', async () => {
+        mocks.findByEndpoint.mockResolvedValue({ endpoint: ENDPOINT, topics });
+        const read = await request(buildApp()).get(`/api/push/topics?endpoint=${encodeURIComponent(ENDPOINT)}`).expect(200);
+        expect(read.body.data).toEqual(topics);
+
+        mocks.updateTopics.mockResolvedValue({ endpoint: ENDPOINT, topics: { ...topics, instantAlerts: false } });
+        const updated = await request(buildApp())
+            .put('/api/push/topics')
+            .send({ endpoint: ENDPOINT, instantAlerts: false, states: ['Bihar'] })
+            .expect(200);
+        expect(mocks.updateTopics).toHaveBeenCalledWith(ENDPOINT, {
+            instantAlerts: false,
+            stateSlugs: ['bihar'],
+            categorySlugs: [],
+            postTypes: [],
+        });
+        expect(updated.body.data.instantAlerts).toBe(false);
+    });
+
+    it('returns 404 for unknown endpoints and 400 for bad post types', async () => {
+        mocks.findByEndpoint.mockResolvedValue(null);
+        await request(buildApp()).get(`/api/push/topics?endpoint=${encodeURIComponent(ENDPOINT)}`).expect(404);
+        await request(buildApp()).get('/api/push/topics').expect(400);
+
+        mocks.updateTopics.mockResolvedValue(null);
+        await request(buildApp()).put('/api/push/topics').send({ endpoint: ENDPOINT }).expect(404);
+        await request(buildApp()).put('/api/push/topics').send({ endpoint: ENDPOINT, postTypes: ['news'] }).expect(400);
+    });
+
+    it('records notification clicks as push deep-link clicks', async () => {
+        await request(buildApp()).post('/api/push/click').send({ action: 'apply', postId: 'post-1' }).expect(204);
+
+        expect(mocks.recordAnalyticsEvent).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'deep_link_click',
+            announcementId: 'post-1',
+            metadata: expect.objectContaining({ action: 'apply', source: 'push', campaign: 'instant_alert' }),
+        }));
+    });
+});
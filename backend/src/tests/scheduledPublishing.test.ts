@@ -0,0 +1,179 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  claimDueSchedules: vi.fn(),
+  transition: vi.fn(),
+  setSchedule: vi.fn(),
+  listScheduled: vi.fn(),
+  createAudit: vi.fn(),
+  triggerFrontendRevalidation: vi.fn(),
+  invalidateAnnouncementCaches: vi.fn(),
+}));
+
+let currentRole = 'admin';
+
+vi.mock('../models/posts.postgres.js', () => ({
+  default: {
+    claimDueSchedules: mocks.claimDueSchedules,
+    transition: mocks.transition,
+  },
+}));
+
+vi.mock('../models/auditLogs.postgres.js', () => ({
+  default: { create: mocks.createAudit },
+}));
+
+vi.mock('../services/frontendRevalidation.js', () => ({
+  triggerFrontendRevalidation: mocks.triggerFrontendRevalidation,
+}));
+
+vi.mock('../services/cacheInvalidation.js', () => ({
+  invalidateAnnouncementCaches: mocks.invalidateAnnouncementCaches,
+}));
+
+vi.mock('../middleware/auth.js', async () => {
+  const { roleHasPermission } = await vi.importActual<typeof import('../services/permissions.js')>('../services/permissions.js');
+  return {
+    authenticateToken: (req: any, _res: any, next: any) => {
+      req.user = { userId: 'user-scheduler', role: currentRole };
+      next();
+    },
+    requireEditorialAccess: (_req: any, _res: any, next: any) => next(),
+    requirePermission: (permission: any) => (req: any, res: any, next: any) => {
+      if (!req.user || !roleHasPermission(req.user.role, permission)) {
+        return res.status(403).json({ error: 'Insufficient permissions', permission });
+      }
+      next();
+    },
+    userHasPermission: async (req: any, permission: any) => roleHasPermission(req.user?.role, permission),
+  };
+});
+
+vi.mock('../services/editorialDataProvider.js', () => ({
+  getEditorialDataProvider: () => ({
+    postModel: {
+      setSchedule: mocks.setSchedule,
+      listScheduled: mocks.listScheduled,
+    },
+    taxonomyModel: {},
+    auditLogModel: {},
+  }),
+}));
+
+vi.mock('../models/alertSubscriptions.postgres.js', () => ({
+  default: {},
+}));
+
+import editorialRouter from '../routes/editorial.js';
+import { processScheduledTransitionsOnce } from '../services/scheduledPublishing.js';
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/editorial', editorialRouter);
+  return app;
+};
+
+const post = (id: string, status: string) => ({ id, status, title: `Post ${id}`, type: 'job' });
+
+describe('processScheduledTransitionsOnce', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.triggerFrontendRevalidation.mockResolvedValue({ ok: true });
+    mocks.invalidateAnnouncementCaches.mockResolvedValue(undefined);
+    mocks.createAudit.mockResolvedValue({});
+  });
+
+  it('runs each claimed slot through the workflow as the system actor', async () => {
+    const scheduledAt = new Date('2026-06-23T04:30:00.000Z');
+    mocks.claimDueSchedules.mockImplementation(async (kind: string) =>
+      kind === 'publish' ? [{ id: 'post-1', scheduledAt }] : [{ id: 'post-2', scheduledAt }]);
+    mocks.transition.mockImplementation(async (id: string, action: string) =>
+      post(id, action === 'publish' ? 'published' : 'approved'));
+
+    const result = await processScheduledTransitionsOnce(new Date('2026-06-23T04:31:00.000Z'));
+
+    expect(result).toEqual({ published: 1, unpublished: 1, failed: 0 });
+    expect(mocks.transition).toHaveBeenCalledWith('post-1', 'publish', 'system', 'system', expect.stringContaining(scheduledAt.toISOString()));
+    expect(mocks.transition).toHaveBeenCalledWith('post-2', 'unpublish', 'system', 'system', expect.any(String));
+    expect(mocks.triggerFrontendRevalidation).toHaveBeenCalledTimes(2);
+    expect(mocks.invalidateAnnouncementCaches).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a failed transition in the audit log instead of retrying it', async () => {
+    mocks.claimDueSchedules.mockImplementation(async (kind: string) =>
+      kind === 'publish' ? [{ id: 'post-3', scheduledAt: new Date() }] : []);
+    mocks.transition.mockRejectedValue(new Error('Only approved content can be published'));
+
+    const result = await processScheduledTransitionsOnce();
+
+    expect(result).toEqual({ published: 0, unpublished: 0, failed: 1 });
+    expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+      entityType: 'workflow',
+      entityId: 'post-3',
+      action: 'scheduled_publish_failed',
+    }));
+    expect(mocks.invalidateAnnouncementCaches).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when no slots are due', async () => {
+    mocks.claimDueSchedules.mockResolvedValue([]);
+
+    expect(await processScheduledTransitionsOnce()).toEqual({ published: 0, unpublished: 0, failed: 0 });
+    expect(mocks.transition).not.toHaveBeenCalled();
+  });
+});
+
+describe('editorial schedule routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    currentRole = 'admin';
+  });
+
+  it('passes parsed times through to the model', async () => {
+    mocks.setSchedule.mockResolvedValue(post('post-1', 'approved'));
+
+    const response = await request(createApp())
+      .put('/api/editorial/posts/post-1/schedule')
+      .send({ publishAt: '2026-07-01T09:00:00+05:30', unpublishAt: null });
+
+    expect(response.status).toBe(200);
+    expect(mocks.setSchedule).toHaveBeenCalledWith(
+      'post-1',
+      { publishAt: new Date('2026-07-01T03:30:00.000Z'), unpublishAt: null },
+      'user-scheduler',
+      'admin',
+      undefined,
+    );
+  });
+
+  it('surfaces workflow validation errors as 400', async () => {
+    mocks.setSchedule.mockRejectedValue(new Error('Only approved content can be scheduled for publishing'));
+
+    const response = await request(createApp())
+      .put('/api/editorial/posts/post-1/schedule')
+      .send({ publishAt: '2026-07-01T09:00:00Z' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Only approved content can be scheduled for publishing');
+  });
+
+  it('requires the publish permission', async () => {
+    currentRole = 'editor';
+
+    const response = await request(createApp())
+      .put('/api/editorial/posts/post-1/schedule')
+      .send({ publishAt: '2026-07-01T09:00:00Z' });
+
+    expect(response.status).toBe(403);
+    expect(mocks.setSchedule).not.toHaveBeenCalled();
+  });
+
+  it('rejects an empty schedule body', async () => {
+    const response = await request(createApp()).put('/api/editorial/posts/post-1/schedule').send({});
+
+    expect(response.status).toBe(400);
+  });
+});
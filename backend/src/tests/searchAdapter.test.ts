@@ -1,6 +1,15 @@
 import { describe, expect, it } from 'vitest';
 
-import { mongoRegexSearchAdapter } from '../services/searchAdapter.js';
+import {
+  buildRankedFilterSql,
+  buildRankedTsQuery,
+  expandSearchAliases,
+  getContentSearchAdapter,
+  mongoRegexSearchAdapter,
+  postgresRankedSearchAdapter,
+  postgresTokenSearchAdapter,
+  toHighlightSnippet,
+} from '../services/searchAdapter.js';
 
 describe('mongoRegexSearchAdapter', () => {
   it('normalizes trimmed query values without changing supported filters', () => {
@@ -23,3 +32,104 @@ describe('mongoRegexSearchAdapter', () => {
     });
   });
 });
+
+/** Evaluates the `&`, `|`, parentheses and `:*` subset of tsquery that the builder emits. */
+function tsQueryMatches(query: string, lexemes: string[]): boolean {
+  const tokens = query.match(/\(|\)|&|\||[^\s()&|]+/g) ?? [];
+  let position = 0;
+  const term = (): boolean => {
+    const token = tokens[position++];
+    if (token === '(') {
+      const value = any();
+      position += 1;
+      return value;
+    }
+    return token.endsWith(':*')
+      ? lexemes.some((lexeme) => lexeme.startsWith(token.slice(0, -2)))
+      : lexemes.includes(token);
+  };
+  const all = (): boolean => {
+    let value = term();
+    while (tokens[position] === '&') {
+      position += 1;
+      value = term() && value;
+    }
+    return value;
+  };
+  const any = (): boolean => {
+    let value = all();
+    while (tokens[position] === '|') {
+      position += 1;
+      value = all() || value;
+    }
+    return value;
+  };
+  return any();
+}
+
+describe('postgresRankedSearchAdapter query building', () => {
+  it('prefix-matches only the last searched term', () => {
+    expect(buildRankedTsQuery('ssc cgl')).toBe('ssc & cgl:*');
+  });
+
+  it('expands Hinglish words and phrases into English alternatives', () => {
+    expect(expandSearchAliases('sarkari naukri rly')).toEqual([
+      ['sarkari naukri', 'government job', 'recruitment'],
+      ['rly', 'railway'],
+    ]);
+    expect(buildRankedTsQuery('rly bharti')).toBe('(rly | railway) & (bharti:* | recruitment | vacancy)');
+  });
+
+  it('matches state aliases exactly so they do not pull in unrelated prefixes', () => {
+    const query = buildRankedTsQuery('uttar pradesh');
+
+    expect(query).toBe('((uttar & pradesh:*) | up)');
+    expect(tsQueryMatches(query, ['up', 'police', 'constable', 'recruitment'])).toBe(true);
+    expect(tsQueryMatches(query, ['uttar', 'pradesh', 'teacher'])).toBe(true);
+    expect(tsQueryMatches(query, ['upsc', 'civil', 'services', 'update'])).toBe(false);
+  });
+
+  it('keeps Devanagari terms and strips tsquery operators from user input', () => {
+    expect(buildRankedTsQuery('रेलवे')).toBe('(रेलवे:* | railway)');
+    expect(buildRankedTsQuery("upsc & (cse) | ! 'x")).toBe('upsc & cse & x:*');
+    expect(buildRankedTsQuery('   ')).toBe('');
+  });
+
+  it('builds an any-term query for per-field match flags', () => {
+    expect(buildRankedTsQuery('ssc cgl', '|')).toBe('ssc | cgl:*');
+  });
+});
+
+describe('postgresRankedSearchAdapter filters and highlights', () => {
+  it('limits ranked matches to live published posts by default', () => {
+    const fragment = buildRankedFilterSql({ type: 'admit-card' });
+
+    expect(fragment.text).toContain('p."type" = $1::"PostType"');
+    expect(fragment.text).toContain(`p."status" = 'published'::"WorkflowStatus"`);
+    expect(fragment.text).toContain('p."expiresAt" IS NULL OR p."expiresAt" >');
+    expect(fragment.values[0]).toBe('admit_card');
+  });
+
+  it('adds taxonomy filters and honours the requested status', () => {
+    const fragment = buildRankedFilterSql({ organization: 'ssc', state: 'bihar', status: 'archived' });
+
+    expect(fragment.text).toContain('o."slug" = $1');
+    expect(fragment.text).toContain('"post_states"');
+    expect(fragment.text).toContain(`p."status" = 'archived'::"WorkflowStatus"`);
+    expect(fragment.values).toEqual(['ssc', 'bihar']);
+    expect(buildRankedFilterSql({ status: 'all' }).text).toBe('');
+  });
+
+  it('escapes post text before adding highlight marks', () => {
+    expect(toHighlightSnippet('\uE000SSC\uE001 <img src=x onerror=alert(1)> & "CGL"'))
+      .toBe('<mark>SSC</mark> &lt;img src=x onerror=alert(1)&gt; &amp; &quot;CGL&quot;');
+  });
+});
+
+describe('getContentSearchAdapter', () => {
+  it('selects the configured adapter and falls back to the tokenized adapter', () => {
+    expect(getContentSearchAdapter('postgres-ranked')).toBe(postgresRankedSearchAdapter);
+    expect(getContentSearchAdapter('postgres-ranked').supportsAdvancedRanking).toBe(true);
+    expect(getContentSearchAdapter('unknown')).toBe(postgresTokenSearchAdapter);
+  });
+});
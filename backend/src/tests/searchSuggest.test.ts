@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  executeRaw: vi.fn(),
+}));
+
+vi.mock('../services/analytics.js', () => ({
+  getTopSearches: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../services/postgres/prisma.js', () => ({
+  prisma: { $executeRaw: mocks.executeRaw },
+}));
+
+import {
+  composeCorrection,
+  normalizeSuggestQuery,
+  refreshSearchVocabulary,
+  trigramSimilarity,
+} from '../services/searchSuggest.js';
+
+describe('normalizeSuggestQuery', () => {
+  it('reads a letter o inside year-like numbers as zero', () => {
+    expect(normalizeSuggestQuery('SSC CGL 2o25')).toBe('ssc cgl 2025');
+    expect(normalizeSuggestQuery('police')).toBe('police');
+  });
+
+  it('splits known run-together terms', () => {
+    expect(normalizeSuggestQuery('  upsc   admitcard ')).toBe('upsc admit card');
+  });
+});
+
+describe('trigramSimilarity', () => {
+  it('scores near-misses above unrelated words', () => {
+    expect(trigramSimilarity('civl', 'civil')).toBeGreaterThanOrEqual(0.3);
+    expect(trigramSimilarity('civl', 'railway')).toBe(0);
+    expect(trigramSimilarity('upsc', 'upsc')).toBe(1);
+  });
+});
+
+describe('composeCorrection', () => {
+  it('replaces only the tokens that have a different closest word', () => {
+    const correction = composeCorrection('upsc civl', new Map([
+      ['upsc', { word: 'upsc', score: 1 }],
+      ['civl', { word: 'civil', score: 0.375 }],
+    ]));
+
+    expect(correction).toEqual({ query: 'upsc civil', score: 0.688 });
+  });
+
+  it('returns null when every token is already a known word', () => {
+    expect(composeCorrection('ssc cgl', new Map([['ssc', { word: 'ssc', score: 1 }]]))).toBeNull();
+  });
+});
+
+describe('refreshSearchVocabulary', () => {
+  it('folds calls made during a refresh into one follow-up refresh', async () => {
+    let release: () => void = () => undefined;
+    mocks.executeRaw
+      .mockImplementationOnce(() => new Promise<number>((resolve) => { release = () => resolve(0); }))
+      .mockResolvedValue(0);
+
+    const first = refreshSearchVocabulary();
+    const second = refreshSearchVocabulary();
+    const third = refreshSearchVocabulary();
+    release();
+    await Promise.all([first, second, third]);
+
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(mocks.executeRaw).toHaveBeenCalledTimes(2);
+  });
+});
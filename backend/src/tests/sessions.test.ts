@@ -0,0 +1,206 @@
+import express from 'express';
+import jwt, { type SignOptions } from 'jsonwebtoken';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  sessions: new Map<string, any>(),
+  verifyPassword: vi.fn(),
+  findById: vi.fn(),
+}));
+
+vi.mock('../models/users.postgres.js', () => ({
+  UserModelPostgres: {
+    verifyPassword: mocks.verifyPassword,
+    findById: mocks.findById,
+  },
+}));
+
+vi.mock('../models/siteSettings.postgres.js', () => ({
+  SiteSettingsModelPostgres: { getMain: vi.fn().mockResolvedValue({}) },
+}));
+
+vi.mock('../models/permissionOverrides.postgres.js', () => ({
+  PermissionOverrideModelPostgres: { listByUser: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock('../models/userSessions.postgres.js', () => {
+  const isActive = (session: any) => !session.revokedAt && session.expiresAt.getTime() > Date.now();
+  return {
+    UserSessionModelPostgres: {
+      create: vi.fn(async (data: any) => {
+        const session = { ...data, createdAt: new Date(), lastSeenAt: new Date() };
+        mocks.sessions.set(data.id, session);
+        return session;
+      }),
+      findById: vi.fn(async (id: string) => mocks.sessions.get(id) ?? null),
+      listActiveByUser: vi.fn(async (userId: string) =>
+        [...mocks.sessions.values()].filter((session) => session.userId === userId && isActive(session))),
+      touch: vi.fn(),
+      revokeForUser: vi.fn(async (userId: string, options: { ids?: string[]; exceptId?: string; reason: string }) => {
+        const revoked = [...mocks.sessions.values()].filter((session) =>
+          session.userId === userId
+          && isActive(session)
+          && (!options.ids || options.ids.includes(session.id))
+          && session.id !== options.exceptId);
+        revoked.forEach((session) => Object.assign(session, { revokedAt: new Date(), revokedReason: options.reason }));
+        return revoked;
+      }),
+    },
+  };
+});
+
+vi.mock('../middleware/security.js', () => ({
+  bruteForceProtection: (_req: any, _res: any, next: any) => next(),
+  clearFailedLoginsWithEmail: vi.fn(),
+  getClientIP: () => '203.0.113.9',
+  recordFailedLoginWithEmail: vi.fn(),
+}));
+
+import { config } from '../config.js';
+import authRouter from '../routes/auth.js';
+import { describeUserAgent } from '../services/sessions.js';
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+const createAuthApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRouter);
+  return app;
+};
+
+const member = {
+  id: 'user-1',
+  email: 'user@example.com',
+  username: 'User',
+  role: 'user',
+  isActive: true,
+  createdAt: new Date().toISOString(),
+  twoFactorEnabled: false,
+};
+
+const signIn = async (app: express.Express, userAgent: string) => {
+  const response = await request(app)
+    .post('/api/auth/login')
+    .set('User-Agent', userAgent)
+    .send({ email: member.email, password: 'Valid1!Pass' });
+  const cookie = response.headers['set-cookie'] as unknown as string[];
+  const authCookie = cookie.find((value) => value.startsWith('auth_token='))!;
+  return `Bearer ${authCookie.split(';')[0].slice('auth_token='.length)}`;
+};
+
+const signLegacyToken = (user: { id: string; email: string; role: string }) => {
+  const options: SignOptions = { expiresIn: '1h' };
+  if (config.jwtIssuer) options.issuer = config.jwtIssuer;
+  if (config.jwtAudience) options.audience = config.jwtAudience;
+  return `Bearer ${jwt.sign({ userId: user.id, email: user.email, role: user.role }, config.jwtSecret, options)}`;
+};
+
+describe('describeUserAgent', () => {
+  it('labels common browsers and platforms', () => {
+    expect(describeUserAgent(CHROME_WINDOWS)).toBe('Chrome 126 on Windows');
+    expect(describeUserAgent(SAFARI_IPHONE)).toBe('Safari 17 on iOS');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+  });
+});
+
+describe('auth sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.sessions.clear();
+    mocks.verifyPassword.mockResolvedValue(member);
+    mocks.findById.mockResolvedValue(member);
+  });
+
+  it('records a session per sign-in and lists them with the current one flagged', async () => {
+    const app = createAuthApp();
+    const laptop = await signIn(app, CHROME_WINDOWS);
+    await signIn(app, SAFARI_IPHONE);
+
+    const response = await request(app).get('/api/auth/sessions').set('Authorization', laptop);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.data.find((session: any) => session.current)).toMatchObject({
+      device: 'Chrome 126 on Windows',
+      ipAddress: '203.0.113.9',
+    });
+  });
+
+  it('rejects a token once its session is revoked', async () => {
+    const app = createAuthApp();
+    const laptop = await signIn(app, CHROME_WINDOWS);
+    const phone = await signIn(app, SAFARI_IPHONE);
+
+    const list = await request(app).get('/api/auth/sessions').set('Authorization', laptop);
+    const phoneSession = list.body.data.find((session: any) => !session.current);
+
+    const revoke = await request(app).delete(`/api/auth/sessions/${phoneSession.id}`).set('Authorization', laptop);
+    expect(revoke.status).toBe(200);
+
+    const denied = await request(app).get('/api/auth/sessions').set('Authorization', phone);
+    expect(denied.status).toBe(401);
+    expect(denied.body.code).toBe('SESSION_REVOKED');
+  });
+
+  it('signs out every other session but keeps the current one', async () => {
+    const app = createAuthApp();
+    const laptop = await signIn(app, CHROME_WINDOWS);
+    const phone = await signIn(app, SAFARI_IPHONE);
+    const tablet = await signIn(app, SAFARI_IPHONE);
+
+    const response = await request(app).post('/api/auth/sessions/revoke-others').set('Authorization', laptop);
+
+    expect(response.body.data.revoked).toBe(2);
+    expect((await request(app).get('/api/auth/sessions').set('Authorization', laptop)).status).toBe(200);
+    expect((await request(app).get('/api/auth/sessions').set('Authorization', phone)).status).toBe(401);
+    expect((await request(app).get('/api/auth/sessions').set('Authorization', tablet)).status).toBe(401);
+  });
+
+  it('makes staff sign in again when their token predates session tracking', async () => {
+    const app = createAuthApp();
+    const editor = { ...member, id: 'user-3', role: 'editor' };
+    mocks.findById.mockResolvedValue(editor);
+
+    const denied = await request(app).get('/api/auth/sessions').set('Authorization', signLegacyToken(editor));
+
+    expect(denied.status).toBe(401);
+    expect(denied.body.code).toBe('SESSION_REVOKED');
+  });
+
+  it('checks the current role, not the one baked into a legacy token', async () => {
+    const app = createAuthApp();
+    mocks.findById.mockResolvedValue({ ...member, role: 'admin' });
+
+    const denied = await request(app).get('/api/auth/sessions').set('Authorization', signLegacyToken(member));
+
+    expect(denied.status).toBe(401);
+  });
+
+  it('still accepts a legacy member token until it expires', async () => {
+    const app = createAuthApp();
+
+    const response = await request(app).get('/api/auth/sessions').set('Authorization', signLegacyToken(member));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('does not let users revoke sessions belonging to someone else', async () => {
+    const app = createAuthApp();
+    const laptop = await signIn(app, CHROME_WINDOWS);
+    mocks.sessions.set('other-session', {
+      id: 'other-session',
+      userId: 'user-2',
+      createdAt: new Date(),
+      lastSeenAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const response = await request(app).delete('/api/auth/sessions/other-session').set('Authorization', laptop);
+
+    expect(response.status).toBe(404);
+    expect(mocks.sessions.get('other-session').revokedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    findByPostId: vi.fn(),
+    saveCheck: vi.fn().mockResolvedValue({}),
+    findOpenTask: vi.fn(),
+    createTask: vi.fn(),
+    updateTask: vi.fn(),
+    listByPostIds: vi.fn(),
+    listPrimarySources: vi.fn(),
+}));
+
+vi.mock('../models/sourceMonitors.postgres.js', () => ({
+    default: {
+        findByPostId: mocks.findByPostId,
+        saveCheck: mocks.saveCheck,
+        findOpenTask: mocks.findOpenTask,
+        createTask: mocks.createTask,
+        updateTask: mocks.updateTask,
+        listByPostIds: mocks.listByPostIds,
+    },
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+    default: { listPrimarySources: mocks.listPrimarySources },
+}));
+
+import {
+    FixtureSourceFetcher,
+    HttpSourceFetcher,
+    isBlockedAddress,
+    setSourceFetcher,
+    type SourceFetchResult,
+} from '../services/sourceFetcher.js';
+import { checkPostSource, extractSourceSnapshot, processSourceMonitorOnce } from '../services/sourceMonitor.js';
+
+const NOW = new Date('2026-10-18T09:00:00.000Z');
+const SOURCE = { postId: 'post-1', url: 'https://ssc.gov.in/notices' };
+
+const NOTICE_V1 = `<html><head><title>SSC Notices</title><script>var token = "abc";</script></head>
+<body><a href="/pdf/cgl-2026.pdf">CGL notice</a> Last date: 30/11/2026</body></html>`;
+const NOTICE_V2 = `<html><head><title>SSC Notices</title><script>var token = "xyz";</script></head>
+<body><a href="/pdf/cgl-2026.pdf">CGL notice</a> <a href="https://ssc.gov.in/pdf/cgl-corrigendum.pdf#page=2">Corrigendum</a>
+Last date extended to 15 December 2026</body></html>`;
+
+function useFixtures(fixtures: Record<string, Partial<SourceFetchResult> | Error>) {
+    setSourceFetcher({
+        name: 'test',
+        async fetch(url) {
+            const fixture = fixtures[url];
+            if (fixture instanceof Error) throw fixture;
+            return { status: 200, finalUrl: url, contentType: 'text/html', body: '', ...fixture };
+        },
+    });
+}
+
+function storedMonitor(overrides: Record<string, unknown> = {}) {
+    const { snapshot, contentHash } = extractSourceSnapshot(NOTICE_V1, SOURCE.url);
+    return {
+        postId: SOURCE.postId,
+        url: SOURCE.url,
+        status: 'ok',
+        contentHash,
+        snapshot,
+        httpStatus: 200,
+        finalUrl: SOURCE.url,
+        consecutiveFailures: 0,
+        checkedAt: new Date('2026-10-17T09:00:00.000Z'),
+        ...overrides,
+    };
+}
+
+describe('official source monitor', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.saveCheck.mockResolvedValue({});
+        mocks.findOpenTask.mockResolvedValue(null);
+        mocks.createTask.mockImplementation(async (input) => ({ id: 'task-1', ...input }));
+        mocks.updateTask.mockImplementation(async (id, input) => ({ id, ...input }));
+    });
+
+    afterEach(() => {
+        setSourceFetcher(undefined);
+    });
+
+    it('extracts absolute PDF links and day-first dates, ignoring scripts in the hash', () => {
+        const first = extractSourceSnapshot(NOTICE_V1, SOURCE.url);
+        const sameText = extractSourceSnapshot(NOTICE_V1.replace('"abc"', '"def"'), SOURCE.url);
+
+        expect(first.snapshot).toEqual({
+            title: 'SSC Notices',
+            pdfLinks: ['https://ssc.gov.in/pdf/cgl-2026.pdf'],
+            dates: ['2026-11-30'],
+        });
+        expect(sameText.contentHash).toBe(first.contentHash);
+        expect(extractSourceSnapshot(NOTICE_V2, SOURCE.url).snapshot.dates).toEqual(['2026-12-15']);
+    });
+
+    it('records a baseline on the first check without raising a task', async () => {
+        mocks.findByPostId.mockResolvedValue(null);
+        useFixtures({ [SOURCE.url]: { body: NOTICE_V1 } });
+
+        const outcome = await checkPostSource(SOURCE, NOW);
+
+        expect(outcome).toEqual({ postId: 'post-1', status: 'ok', kinds: [] });
+        expect(mocks.saveCheck).toHaveBeenCalledWith(expect.objectContaining({
+            status: 'ok',
+            httpStatus: 200,
+            snapshot: expect.objectContaining({ pdfLinks: ['https://ssc.gov.in/pdf/cgl-2026.pdf'] }),
+            checkedAt: NOW,
+        }));
+        expect(mocks.createTask).not.toHaveBeenCalled();
+    });
+
+    it('raises a review task with a snapshot diff when PDFs and dates change', async () => {
+        mocks.findByPostId.mockResolvedValue(storedMonitor());
+        useFixtures({ [SOURCE.url]: { body: NOTICE_V2 } });
+
+        const outcome = await checkPostSource(SOURCE, NOW);
+
+        expect(outcome).toEqual({ postId: 'post-1', status: 'changed', kinds: ['new_pdf_links', 'dates_changed'], taskId: 'task-1' });
+        expect(mocks.createTask).toHaveBeenCalledWith(expect.objectContaining({
+            postId: 'post-1',
+            kinds: ['new_pdf_links', 'dates_changed'],
+            diff: expect.objectContaining({
+                addedPdfLinks: ['https://ssc.gov.in/pdf/cgl-corrigendum.pdf'],
+                removedPdfLinks: [],
+                addedDates: ['2026-12-15'],
+                removedDates: ['2026-11-30'],
+                previous: expect.objectContaining({ httpStatus: 200 }),
+            }),
+        }));
+        expect(mocks.saveCheck).toHaveBeenCalledWith(expect.objectContaining({ status: 'changed', changedAt: NOW }));
+    });
+
+    it('folds later changes into the open task for the post', async () => {
+        mocks.findByPostId.mockResolvedValue(storedMonitor());
+        mocks.findOpenTask.mockResolvedValue({
+            id: 'task-0',
+            kinds: ['content_changed'],
+            diff: { previous: { contentHash: 'old' }, current: {}, addedPdfLinks: ['https://ssc.gov.in/pdf/old.pdf'], removedPdfLinks: [], addedDates: [], removedDates: [] },
+        });
+        useFixtures({ [SOURCE.url]: { body: NOTICE_V2 } });
+
+        await checkPostSource(SOURCE, NOW);
+
+        expect(mocks.createTask).not.toHaveBeenCalled();
+        expect(mocks.updateTask).toHaveBeenCalledWith('task-0', expect.objectContaining({
+            kinds: ['content_changed', 'new_pdf_links', 'dates_changed'],
+            diff: expect.objectContaining({
+                previous: { contentHash: 'old' },
+                addedPdfLinks: ['https://ssc.gov.in/pdf/old.pdf', 'https://ssc.gov.in/pdf/cgl-corrigendum.pdf'],
+            }),
+        }));
+    });
+
+    it('flags a missing page once and a move to another domain', async () => {
+        mocks.findByPostId.mockResolvedValue(storedMonitor());
+        useFixtures({ [SOURCE.url]: { status: 404 } });
+        expect((await checkPostSource(SOURCE, NOW)).kinds).toEqual(['not_found']);
+
+        mocks.findByPostId.mockResolvedValue(storedMonitor({ status: 'not_found' }));
+        expect((await checkPostSource(SOURCE, NOW)).kinds).toEqual([]);
+
+        mocks.findByPostId.mockResolvedValue(storedMonitor());
+        useFixtures({ [SOURCE.url]: { body: NOTICE_V1, finalUrl: 'https://ssc.nic.in/notices' } });
+        const redirected = await checkPostSource(SOURCE, NOW);
+        expect(redirected).toEqual(expect.objectContaining({ status: 'redirected', kinds: ['domain_redirect'] }));
+    });
+
+    it('raises an unreachable task only when failures reach the threshold', async () => {
+        useFixtures({ [SOURCE.url]: new Error('ETIMEDOUT') });
+
+        mocks.findByPostId.mockResolvedValue(storedMonitor({ consecutiveFailures: 0 }));
+        expect((await checkPostSource(SOURCE, NOW)).kinds).toEqual([]);
+        expect(mocks.saveCheck).toHaveBeenLastCalledWith(expect.objectContaining({
+            status: 'unreachable',
+            lastError: 'ETIMEDOUT',
+            consecutiveFailures: 1,
+            contentHash: storedMonitor().contentHash,
+        }));
+
+        mocks.findByPostId.mockResolvedValue(storedMonitor({ consecutiveFailures: 2 }));
+        expect((await checkPostSource(SOURCE, NOW)).kinds).toEqual(['unreachable']);
+    });
+
+    it('checks due sources, least recently checked first', async () => {
+        mocks.listPrimarySources.mockResolvedValue([
+            { postId: 'fresh', url: 'https://a.gov.in/' },
+            { postId: 'stale', url: 'https://b.gov.in/' },
+            { postId: 'new', url: 'https://c.gov.in/' },
+        ]);
+        mocks.listByPostIds.mockResolvedValue([
+            { postId: 'fresh', url: 'https://a.gov.in/', checkedAt: new Date('2026-10-18T08:00:00.000Z') },
+            { postId: 'stale', url: 'https://b.gov.in/', checkedAt: new Date('2026-10-16T08:00:00.000Z') },
+        ]);
+        mocks.findByPostId.mockResolvedValue(null);
+        const fetched: string[] = [];
+        setSourceFetcher({
+            name: 'test',
+            async fetch(url) {
+                fetched.push(url);
+                return { status: 200, finalUrl: url, body: NOTICE_V1 };
+            },
+        });
+
+        const result = await processSourceMonitorOnce(NOW);
+
+        expect(result).toEqual({ candidates: 3, checked: 2, changed: 0, failed: 0 });
+        expect(fetched).toEqual(['https://c.gov.in/', 'https://b.gov.in/']);
+    });
+
+    it('serves fixtures from a directory and 404s unknown URLs', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'source-fixtures-'));
+        try {
+            await fs.writeFile(path.join(dir, 'notice.html'), NOTICE_V1, 'utf8');
+            await fs.writeFile(path.join(dir, 'index.json'), JSON.stringify({
+                [SOURCE.url]: { file: 'notice.html' },
+                'https://old.gov.in/': { status: 301, finalUrl: 'https://new.gov.in/' },
+            }), 'utf8');
+            const fetcher = new FixtureSourceFetcher(dir);
+
+            expect(await fetcher.fetch(SOURCE.url)).toEqual({ status: 200, finalUrl: SOURCE.url, contentType: 'text/html', body: NOTICE_V1 });
+            expect((await fetcher.fetch('https://old.gov.in/')).finalUrl).toBe('https://new.gov.in/');
+            expect((await fetcher.fetch('https://missing.gov.in/')).status).toBe(404);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('HttpSourceFetcher', () => {
+    const publicLookup = async (hostname: string) => (hostname === 'internal.example' ? ['10.0.0.5'] : ['164.100.1.1']);
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('blocks private, loopback, link-local and reserved addresses', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+            expect(isBlockedAddress(address), address).toBe(true);
+        }
+        expect(isBlockedAddress('164.100.1.1')).toBe(false);
+        expect(isBlockedAddress('2404:6800:4009:80a::200e')).toBe(false);
+    });
+
+    it('refuses non-http URLs and hosts that resolve to private addresses', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        const fetcher = new HttpSourceFetcher({ lookup: publicLookup });
+
+        await expect(fetcher.fetch('file:///etc/passwd')).rejects.toThrow('Unsupported source URL protocol');
+        await expect(fetcher.fetch('http://169.254.169.254/latest/meta-data/')).rejects.toThrow('private or reserved');
+        await expect(fetcher.fetch('https://internal.example/')).rejects.toThrow('private or reserved');
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('checks every redirect hop before following it', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: '/moved' } }))
+            .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: 'http://169.254.169.254/' } }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(new HttpSourceFetcher({ lookup: publicLookup }).fetch('https://ssc.gov.in/')).rejects.toThrow('private or reserved');
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://ssc.gov.in/', 'https://ssc.gov.in/moved']);
+    });
+
+    it('stops reading the body once maxBytes is reached', async () => {
+        let pulled = 0;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                pulled += 1;
+                controller.enqueue(new TextEncoder().encode('x'.repeat(1024)));
+            },
+        });
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200, headers: { 'content-type': 'text/html' } })));
+
+        const result = await new HttpSourceFetcher({ lookup: publicLookup, maxBytes: 2500 }).fetch('https://ssc.gov.in/');
+
+        expect(result.body).toHaveLength(2500);
+        expect(result.finalUrl).toBe('https://ssc.gov.in/');
+        expect(pulled).toBeLessThan(10);
+    });
+});
@@ -0,0 +1,74 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../models/users.postgres.js', () => ({
+  UserModelPostgres: {},
+}));
+
+vi.mock('../models/permissionOverrides.postgres.js', () => ({
+  PermissionOverrideModelPostgres: {},
+}));
+
+import { requireAdminStepUp } from '../middleware/auth.js';
+import { issueStepUpToken, revokeStepUpToken, verifyStepUpToken } from '../services/stepUp.js';
+
+const sessionToken = () => `session-${Math.random().toString(36).slice(2)}`;
+
+const createApp = (userId: string) => {
+  const app = express();
+  app.use((req, _res, next) => {
+    req.user = { userId, email: 'admin@example.com', role: 'admin' };
+    next();
+  });
+  app.delete('/danger', requireAdminStepUp, (_req, res) => res.json({ ok: true }));
+  return app;
+};
+
+describe('step-up tokens', () => {
+  it('verifies only for the user and session that requested them', async () => {
+    const session = sessionToken();
+    const { token, payload } = await issueStepUpToken({ userId: 'user-1', sessionToken: session, method: 'password' });
+
+    expect(payload.method).toBe('password');
+    expect(Date.parse(payload.expiresAt)).toBeGreaterThan(Date.now());
+    expect(await verifyStepUpToken(token, { userId: 'user-1', sessionToken: session })).toMatchObject({ userId: 'user-1' });
+    expect(await verifyStepUpToken(token, { userId: 'user-2', sessionToken: session })).toBeNull();
+    expect(await verifyStepUpToken(token, { userId: 'user-1', sessionToken: sessionToken() })).toBeNull();
+    expect(await verifyStepUpToken(undefined, { userId: 'user-1', sessionToken: session })).toBeNull();
+  });
+
+  it('stops verifying once revoked', async () => {
+    const session = sessionToken();
+    const { token } = await issueStepUpToken({ userId: 'user-1', sessionToken: session, method: 'password' });
+
+    await revokeStepUpToken(token);
+
+    expect(await verifyStepUpToken(token, { userId: 'user-1', sessionToken: session })).toBeNull();
+  });
+});
+
+describe('requireAdminStepUp', () => {
+  it('rejects requests without a valid step-up token', async () => {
+    const response = await request(createApp('user-1'))
+      .delete('/danger')
+      .set('Authorization', `Bearer ${sessionToken()}`)
+      .set('X-Step-Up-Token', 'not-a-real-token');
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: 'Step-up authentication required', code: 'STEP_UP_REQUIRED' });
+  });
+
+  it('allows requests carrying a token issued for the current session', async () => {
+    const session = sessionToken();
+    const { token } = await issueStepUpToken({ userId: 'user-1', sessionToken: session, method: 'password' });
+
+    const response = await request(createApp('user-1'))
+      .delete('/danger')
+      .set('Authorization', `Bearer ${session}`)
+      .set('X-Step-Up-Token', token);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    dispatchCreate: vi.fn(),
+    dispatchUpdateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    listUpcomingDeadlines: vi.fn(),
+    listMatchingPost: vi.fn(),
+    getSuppressedEmails: vi.fn().mockResolvedValue(new Set()),
+    sendDigestEmail: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('../services/postgres/prisma.js', () => ({
+    prisma: {
+        alertDispatchLog: {
+            create: mocks.dispatchCreate,
+            updateMany: mocks.dispatchUpdateMany,
+        },
+    },
+}));
+
+vi.mock('../models/posts.postgres.js', () => ({
+    default: { listUpcomingDeadlines: mocks.listUpcomingDeadlines },
+}));
+
+vi.mock('../models/alertSubscriptions.postgres.js', () => ({
+    default: { listMatchingPost: mocks.listMatchingPost },
+}));
+
+vi.mock('../services/emailSuppression.js', () => ({
+    getSuppressedEmails: mocks.getSuppressedEmails,
+}));
+
+vi.mock('../services/email.js', () => ({
+    sendDigestEmail: mocks.sendDigestEmail,
+}));
+
+import {
+    collectDueSubscriberReminders,
+    daysUntilLastDate,
+    processSubscriberDeadlineRemindersOnce,
+} from '../services/subscriberDeadlineReminders.js';
+
+const NOW = new Date('2026-10-18T09:00:00.000Z');
+
+function post(id: string, lastDate: string) {
+    return {
+        id,
+        title: `Post ${id}`,
+        slug: `post-${id}`,
+        type: 'job',
+        lastDate,
+        categories: [{ name: 'Central', slug: 'central' }],
+        organization: { name: 'SSC', slug: 'ssc' },
+        states: [],
+        qualifications: [],
+        translations: { hi: { title: `पोस्ट ${id}` } },
+    };
+}
+
+function subscriber(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+        id,
+        email: `${id}@example.com`,
+        frequency: 'instant',
+        locale: 'en',
+        unsubscribeToken: `tok-${id}`,
+        reminderDays: [3, 1],
+        ...overrides,
+    };
+}
+
+describe('subscriber deadline reminders', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.dispatchCreate.mockImplementation(async ({ data }: { data: { dedupeKey: string } }) => ({ id: `log:${data.dedupeKey}` }));
+        mocks.getSuppressedEmails.mockResolvedValue(new Set());
+        mocks.sendDigestEmail.mockResolvedValue(true);
+    });
+
+    it('counts whole UTC days to the last date', () => {
+        expect(daysUntilLastDate({ lastDate: '2026-10-21' }, NOW)?.daysLeft).toBe(3);
+        expect(daysUntilLastDate({ lastDate: '2026-10-19T23:59:00.000Z' }, NOW)?.daysLeft).toBe(1);
+        expect(daysUntilLastDate({ lastDate: 'soon' }, NOW)).toBeNull();
+    });
+
+    it('only asks for subscribers who opted into the matching offset', async () => {
+        mocks.listUpcomingDeadlines.mockResolvedValue([post('a', '2026-10-21'), post('b', '2026-10-20'), post('c', '2026-10-19')]);
+        mocks.listMatchingPost.mockResolvedValue([]);
+
+        await collectDueSubscriberReminders(NOW, ['instant']);
+
+        expect(mocks.listMatchingPost).toHaveBeenCalledTimes(2);
+        expect(mocks.listMatchingPost).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), undefined, { reminderDay: 3 });
+        expect(mocks.listMatchingPost).toHaveBeenCalledWith(expect.objectContaining({ id: 'c' }), undefined, { reminderDay: 1 });
+    });
+
+    it('groups reminders per subscriber and skips other frequencies and suppressed addresses', async () => {
+        mocks.listUpcomingDeadlines.mockResolvedValue([post('a', '2026-10-21'), post('c', '2026-10-19')]);
+        mocks.listMatchingPost.mockResolvedValue([
+            subscriber('s1', { locale: 'hi' }),
+            subscriber('s2', { frequency: 'daily' }),
+            subscriber('s3'),
+        ]);
+        mocks.getSuppressedEmails.mockResolvedValue(new Set(['s3@example.com']));
+
+        const due = await collectDueSubscriberReminders(NOW, ['instant', 'weekly']);
+
+        expect(Array.from(due.keys())).toEqual(['s1']);
+        expect(due.get('s1')?.items).toEqual([
+            expect.objectContaining({ postId: 'a', daysLeft: 3, title: 'पोस्ट a', path: '/hi/jobs/post-a' }),
+            expect.objectContaining({ postId: 'c', daysLeft: 1 }),
+        ]);
+    });
+
+    it('sends one reminder email and logs each post as sent', async () => {
+        mocks.listUpcomingDeadlines.mockResolvedValue([post('a', '2026-10-21')]);
+        mocks.listMatchingPost.mockResolvedValue([subscriber('s1')]);
+
+        const result = await processSubscriberDeadlineRemindersOnce(NOW);
+
+        expect(result).toEqual({ posts: 1, subscribers: 1, emailSent: 1, deduped: 0 });
+        expect(mocks.dispatchCreate).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({
+                subscriptionId: 's1',
+                postId: 'a',
+                dedupeKey: 'deadline:s1:a:2026-10-21:3',
+            }),
+        }));
+        expect(mocks.sendDigestEmail).toHaveBeenCalledWith(expect.objectContaining({
+            email: 's1@example.com',
+            announcements: [],
+            template: 'deadline_reminder',
+            reminders: [expect.objectContaining({ slug: 'post-a', daysLeft: 3 })],
+        }));
+        expect(mocks.dispatchUpdateMany).toHaveBeenCalledWith({
+            where: { id: { in: ['log:deadline:s1:a:2026-10-21:3'] } },
+            data: expect.objectContaining({ status: 'sent' }),
+        });
+    });
+
+    it('does not resend a reminder that was already logged', async () => {
+        mocks.listUpcomingDeadlines.mockResolvedValue([post('a', '2026-10-21')]);
+        mocks.listMatchingPost.mockResolvedValue([subscriber('s1')]);
+        mocks.dispatchCreate.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+        const result = await processSubscriberDeadlineRemindersOnce(NOW);
+
+        expect(result.deduped).toBe(1);
+        expect(result.emailSent).toBe(0);
+        expect(mocks.sendDigestEmail).not.toHaveBeenCalled();
+    });
+});
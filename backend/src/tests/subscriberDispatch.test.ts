@@ -1,13 +1,18 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-const { listMatchingPostMock } = vi.hoisted(() => ({
+const { listMatchingPostMock, getSuppressedEmailsMock } = vi.hoisted(() => ({
     listMatchingPostMock: vi.fn().mockResolvedValue([]),
+    getSuppressedEmailsMock: vi.fn().mockResolvedValue(new Set()),
 }));
 
 vi.mock('../services/email.js', () => ({
     sendAnnouncementEmail: vi.fn().mockResolvedValue(0),
 }));
 
+vi.mock('../services/emailSuppression.js', () => ({
+    getSuppressedEmails: getSuppressedEmailsMock,
+}));
+
 vi.mock('../models/alertSubscriptions.postgres.js', () => ({
     default: {
         listMatchingPost: listMatchingPostMock,
@@ -36,6 +41,7 @@ const baseAnnouncement: Announcement = {
 describe('subscriberDispatch', () => {
     beforeEach(() => {
         vi.clearAllMocks();
+        getSuppressedEmailsMock.mockResolvedValue(new Set());
     });
 
     it('sends instant notifications to category-matching or all-category subscribers', async () => {
@@ -101,6 +107,73 @@ describe('subscriberDispatch', () => {
         });
     });
 
+    it('sends one batch per subscriber locale', async () => {
+        const subscriber = (id: string, email: string, locale?: 'en' | 'hi') => ({
+            id,
+            email,
+            categorySlugs: [],
+            stateSlugs: [],
+            organizationSlugs: [],
+            qualificationSlugs: [],
+            postTypes: [],
+            frequency: 'instant',
+            locale,
+            unsubscribeToken: `tok-${id}`,
+            verified: true,
+            isActive: true,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        });
+        listMatchingPostMock.mockResolvedValue([
+            subscriber('sub-1', 'en@example.com', 'en'),
+            subscriber('sub-2', 'hi@example.com', 'hi'),
+            subscriber('sub-3', 'legacy@example.com'),
+        ]);
+        vi.mocked(sendAnnouncementEmail as any)
+            .mockResolvedValueOnce(2)
+            .mockResolvedValueOnce(1);
+
+        const result = await dispatchAnnouncementToSubscribers(baseAnnouncement, { frequency: 'instant' });
+
+        const calls = vi.mocked(sendAnnouncementEmail as any).mock.calls;
+        expect(calls.map(([emails, , , locale]) => [locale, emails])).toEqual([
+            ['en', ['en@example.com', 'legacy@example.com']],
+            ['hi', ['hi@example.com']],
+        ]);
+        expect(result.sent).toBe(3);
+    });
+
+    it('leaves out suppressed addresses', async () => {
+        const subscriber = (id: string, email: string, locale: 'en' | 'hi') => ({
+            id,
+            email,
+            categorySlugs: [],
+            stateSlugs: [],
+            organizationSlugs: [],
+            qualificationSlugs: [],
+            postTypes: [],
+            frequency: 'instant',
+            locale,
+            unsubscribeToken: `tok-${id}`,
+            verified: true,
+            isActive: true,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        });
+        listMatchingPostMock.mockResolvedValue([
+            subscriber('sub-1', 'ok@example.com', 'en'),
+            subscriber('sub-2', 'Bounced@example.com', 'en'),
+            subscriber('sub-3', 'complained@example.com', 'hi'),
+        ]);
+        getSuppressedEmailsMock.mockResolvedValue(new Set(['bounced@example.com', 'complained@example.com']));
+        vi.mocked(sendAnnouncementEmail as any).mockResolvedValue(1);
+
+        const result = await dispatchAnnouncementToSubscribers(baseAnnouncement, { frequency: 'instant' });
+
+        expect(vi.mocked(sendAnnouncementEmail as any).mock.calls.map(([emails]) => emails)).toEqual([['ok@example.com']]);
+        expect(result).toEqual({ matched: 1, sent: 1, skipped: 0, frequency: 'instant' });
+    });
+
     it('skips dispatch when announcement is not published', async () => {
         listMatchingPostMock.mockResolvedValue([]);
 
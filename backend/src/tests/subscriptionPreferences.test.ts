@@ -0,0 +1,135 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findByUnsubscribeToken: vi.fn(),
+  updatePreferencesByToken: vi.fn(),
+  setPausedUntilByToken: vi.fn(),
+  removeTopicByToken: vi.fn(),
+  unsubscribeByToken: vi.fn(),
+}));
+
+vi.mock('../models/alertSubscriptions.postgres.js', () => ({ default: mocks }));
+vi.mock('../services/analytics.js', () => ({ recordAnalyticsEvent: vi.fn().mockResolvedValue(undefined) }));
+
+import subscriptionsRouter from '../routes/subscriptions.js';
+
+const record = {
+  id: 'sub-1',
+  email: 'reader@example.com',
+  verified: true,
+  isActive: true,
+  frequency: 'daily',
+  categorySlugs: ['central', 'banking'],
+  categoryNames: ['Central', 'Banking'],
+  stateSlugs: ['bihar'],
+  stateNames: ['Bihar'],
+  organizationSlugs: [],
+  organizationNames: [],
+  qualificationSlugs: [],
+  qualificationNames: [],
+  postTypes: ['job'],
+  locale: 'en',
+  unsubscribeToken: 'tok-1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/subscriptions', subscriptionsRouter);
+  return app;
+}
+
+describe('subscription preference center', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findByUnsubscribeToken.mockResolvedValue(record);
+  });
+
+  it('returns preferences without ids or tokens', async () => {
+    const res = await request(buildApp()).get('/api/subscriptions/preferences?token=tok-1').expect(200);
+
+    expect(res.body.data).toMatchObject({
+      email: 'reader@example.com',
+      frequency: 'daily',
+      pausedUntil: null,
+      categories: [{ slug: 'central', name: 'Central' }, { slug: 'banking', name: 'Banking' }],
+    });
+    expect(JSON.stringify(res.body)).not.toContain('tok-1');
+    expect(res.body.data.id).toBeUndefined();
+  });
+
+  it('rejects unknown tokens', async () => {
+    mocks.findByUnsubscribeToken.mockResolvedValue(null);
+    await request(buildApp()).get('/api/subscriptions/preferences?token=nope').expect(404);
+    await request(buildApp()).get('/api/subscriptions/preferences').expect(400);
+  });
+
+  it('replaces preferences', async () => {
+    mocks.updatePreferencesByToken.mockResolvedValue({ ...record, frequency: 'weekly', stateSlugs: [], stateNames: [] });
+
+    const res = await request(buildApp())
+      .put('/api/subscriptions/preferences?token=tok-1')
+      .send({ frequency: 'weekly', categories: ['Central'], postTypes: ['job', 'result'] })
+      .expect(200);
+
+    expect(mocks.updatePreferencesByToken).toHaveBeenCalledWith('tok-1', expect.objectContaining({
+      frequency: 'weekly',
+      categories: ['Central'],
+      states: [],
+      postTypes: ['job', 'result'],
+    }));
+    expect(res.body.data.states).toEqual([]);
+  });
+
+  it('keeps only the reminder offsets the server sends', async () => {
+    mocks.updatePreferencesByToken.mockResolvedValue({ ...record, reminderDays: [3, 1] });
+
+    const res = await request(buildApp())
+      .put('/api/subscriptions/preferences?token=tok-1')
+      .send({ frequency: 'daily', reminderDays: [1, 7, 3, 1] })
+      .expect(200);
+
+    expect(mocks.updatePreferencesByToken).toHaveBeenCalledWith('tok-1', expect.objectContaining({ reminderDays: [3, 1] }));
+    expect(res.body.data).toMatchObject({ reminderDays: [3, 1], reminderOptions: [3, 1] });
+  });
+
+  it('pauses alerts for the requested number of weeks', async () => {
+    const until = new Date(Date.now() + 2 * 7 * 24 * 60 * 60 * 1000).toISOString();
+    mocks.setPausedUntilByToken.mockResolvedValue({ ...record, pausedUntil: until });
+
+    const res = await request(buildApp()).post('/api/subscriptions/preferences/pause?token=tok-1').send({ weeks: 2 }).expect(200);
+
+    const [, pausedUntil] = mocks.setPausedUntilByToken.mock.calls[0];
+    expect((pausedUntil as Date).getTime() - Date.now()).toBeGreaterThan(13 * 24 * 60 * 60 * 1000);
+    expect(res.body.data.pausedUntil).toBe(until);
+
+    await request(buildApp()).post('/api/subscriptions/preferences/pause?token=tok-1').send({ weeks: 52 }).expect(400);
+  });
+
+  it('removes a single topic but never the last one of its kind', async () => {
+    mocks.removeTopicByToken.mockResolvedValue({ ...record, categorySlugs: ['central'], categoryNames: ['Central'] });
+
+    await request(buildApp()).delete('/api/subscriptions/preferences/topics/category/banking?token=tok-1').expect(200);
+    expect(mocks.removeTopicByToken).toHaveBeenCalledWith('tok-1', 'category', 'banking');
+
+    await request(buildApp()).delete('/api/subscriptions/preferences/topics/state/bihar?token=tok-1').expect(409);
+    await request(buildApp()).delete('/api/subscriptions/preferences/topics/state/goa?token=tok-1').expect(404);
+    await request(buildApp()).delete('/api/subscriptions/preferences/topics/colour/red?token=tok-1').expect(400);
+    expect(mocks.removeTopicByToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts one-click unsubscribe posts', async () => {
+    mocks.unsubscribeByToken.mockResolvedValue({ ...record, isActive: false });
+
+    await request(buildApp())
+      .post('/api/subscriptions/unsubscribe?token=tok-1')
+      .type('form')
+      .send('List-Unsubscribe=One-Click')
+      .expect(200);
+    expect(mocks.unsubscribeByToken).toHaveBeenCalledWith('tok-1');
+  });
+});
@@ -182,6 +182,8 @@ export interface JwtPayload {
   userId: string;
   email: string;
   role: UserRole;
+  /** Session id; absent on tokens issued before sessions were tracked, which staff can no longer use. */
+  jti?: string;
 }
 
 export interface Bookmark {
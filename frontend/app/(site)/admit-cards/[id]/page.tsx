@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import { notFound, redirect } from 'next/navigation';
+import { LanguageSwitch } from '@/app/components/public-site/LanguageSwitch';
 import { PublicAnnouncementDetailPage } from '@/app/components/public-site/PublicAnnouncementDetailPage';
 import { normalizeInternalHref } from '@/app/lib/public-content';
 import { JsonLd } from '@/app/components/seo/JsonLd';
@@ -44,6 +45,7 @@ export default async function AdmitCardDetailPage({
   return (
     <>
       <JsonLd data={announcementJsonLd(resolved.item, resolved.seo?.effectiveCanonicalPath || resolved.canonicalPath, resolved.breadcrumbs)} />
+      <LanguageSwitch currentLocale="en" availableLocales={resolved.availableLocales} englishPath={resolved.englishPath} />
       <PublicAnnouncementDetailPage
         meta={resolved.meta}
         item={resolved.item}
@@ -0,0 +1,69 @@
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { LanguageSwitch } from '@/app/components/public-site/LanguageSwitch';
+import { PublicAnnouncementDetailPage } from '@/app/components/public-site/PublicAnnouncementDetailPage';
+import { JsonLd } from '@/app/components/seo/JsonLd';
+import type { AnnouncementSection } from '@/app/lib/public-content';
+import { normalizeInternalHref } from '@/app/lib/public-content';
+import { announcementJsonLd } from '@/app/lib/structured-data';
+import { buildDetailPageMetadata, loadDetailPage } from '@/lib/content-page';
+
+export const revalidate = 300;
+
+const HINDI_SECTIONS: AnnouncementSection[] = ['jobs', 'results', 'admit-cards', 'answer-keys', 'admissions', 'syllabus'];
+
+function parseSection(value: string): AnnouncementSection | null {
+  return (HINDI_SECTIONS as string[]).includes(value) ? (value as AnnouncementSection) : null;
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ section: string; id: string }> }): Promise<Metadata> {
+  try {
+    const { section, id } = await params;
+    const parsedSection = parseSection(section);
+    if (!parsedSection) notFound();
+    const resolved = await loadDetailPage(parsedSection, id, 'hi');
+    return buildDetailPageMetadata(resolved);
+  } catch {
+    notFound();
+  }
+}
+
+export default async function HindiDetailPage({
+  params,
+}: {
+  params: Promise<{ section: string; id: string }>;
+}) {
+  let resolved;
+  let id: string;
+
+  try {
+    let section: string;
+    ({ section, id } = await params);
+    const parsedSection = parseSection(section);
+    if (!parsedSection) notFound();
+    resolved = await loadDetailPage(parsedSection, id, 'hi');
+  } catch {
+    notFound();
+  }
+
+  // Posts without a Hindi translation are served from their English page.
+  if (resolved.locale !== 'hi' || !resolved.isCanonicalSection || resolved.item.slug !== id) {
+    const canonicalPath = normalizeInternalHref(resolved.canonicalPath);
+    if (!canonicalPath) {
+      notFound();
+    }
+    redirect(canonicalPath);
+  }
+
+  return (
+    <div lang="hi-IN">
+      <JsonLd data={announcementJsonLd(resolved.item, resolved.seo?.effectiveCanonicalPath || resolved.canonicalPath, resolved.breadcrumbs)} />
+      <LanguageSwitch currentLocale="hi" availableLocales={resolved.availableLocales} englishPath={resolved.englishPath} />
+      <PublicAnnouncementDetailPage
+        meta={resolved.meta}
+        item={resolved.item}
+        relatedEntries={resolved.relatedEntries}
+      />
+    </div>
+  );
+}
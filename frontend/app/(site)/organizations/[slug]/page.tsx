@@ -65,6 +65,7 @@ export default async function OrganizationDetailPage({
         }))}
         querySummary={`Showing official updates from ${landing.taxonomy.name}.`}
         clearHref={`/organizations/${landing.taxonomy.slug}`}
+        calendar={{ type: 'organizations', slug: landing.taxonomy.slug }}
       />
     </>
   );
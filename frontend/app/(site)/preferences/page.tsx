@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+
+import { PublicPreferenceCenter } from '@/app/components/public-site/PublicPreferenceCenter';
+import { buildNoIndexMetadata } from '@/app/lib/metadata';
+
+export const metadata: Metadata = buildNoIndexMetadata({
+  title: 'Alert Preferences',
+  description: 'Change how often you get SarkariExams.me alerts, pick topics, pause alerts or unsubscribe.',
+  canonicalPath: '/preferences',
+});
+
+export default async function PreferencesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string | string[]; action?: string | string[] }>;
+}) {
+  const { token, action } = await searchParams;
+
+  return (
+    <PublicPreferenceCenter
+      token={typeof token === 'string' ? token : ''}
+      confirmUnsubscribe={action === 'unsubscribe'}
+    />
+  );
+}
@@ -3,7 +3,7 @@ import type { Metadata } from 'next';
 import { PublicSearchPage } from '@/app/components/public-site/PublicSearchPage';
 import { buildNoIndexMetadata } from '@/app/lib/metadata';
 import { announcementCategoryMeta } from '@/app/lib/public-content';
-import { getRawListing } from '@/lib/content-api';
+import { getRawListing, getSearchCorrection } from '@/lib/content-api';
 
 export const metadata: Metadata = buildNoIndexMetadata({
   title: 'Search Updates',
@@ -77,5 +77,8 @@ export default async function SearchPage({
       ])
     : [];
 
-  return <PublicSearchPage query={query} results={results.filter((group) => group.entries.length > 0)} />;
+  const matchedResults = results.filter((group) => group.entries.length > 0);
+  const didYouMean = query && matchedResults.length === 0 ? await getSearchCorrection(query) : null;
+
+  return <PublicSearchPage query={query} results={matchedResults} didYouMean={didYouMean?.query} />;
 }
@@ -4,10 +4,13 @@ import { useState } from 'react';
 import { Search } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { buildSearchPath } from '@/app/lib/public-content';
+import { SearchSuggestionList } from '@/app/components/search/SearchSuggestionList';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
 
 export default function HomepageSearch() {
   const [query, setQuery] = useState('');
   const [isFocused, setIsFocused] = useState(false);
+  const { data: suggestions } = useSearchSuggestions(query, { enabled: isFocused });
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -30,7 +33,9 @@ export default function HomepageSearch() {
           onChange={(e) => setQuery(e.target.value)}
           onFocus={() => setIsFocused(true)}
           onBlur={() => setIsFocused(false)}
-          placeholder="Search for Latest Jobs, Results, Admit Cards..." 
+          placeholder="Search for Latest Jobs, Results, Admit Cards..."
+          autoComplete="off"
+          aria-autocomplete="list"
           className="w-full pl-6 pr-14 py-4 rounded-xl border-2 border-transparent bg-gray-50/50 dark:bg-gray-900/50 focus:bg-white dark:focus:bg-gray-800 transition-all duration-300 focus:outline-none focus:border-blue-500 dark:focus:border-blue-400 font-semibold text-gray-800 dark:text-gray-100 shadow-inner"
         />
         <button 
@@ -40,6 +45,7 @@ export default function HomepageSearch() {
         >
           <Search size={22} className="stroke-[2.5]" />
         </button>
+        {isFocused && suggestions ? <SearchSuggestionList suggestions={suggestions} /> : null}
       </form>
     </motion.div>
   );
@@ -1,12 +1,12 @@
 'use client';
 
-import { Bell, Bookmark, CalendarClock, LayoutDashboard, LoaderCircle, Settings, Trash2 } from 'lucide-react';
+import { Bell, Bookmark, CalendarClock, CalendarPlus, Copy, LayoutDashboard, LoaderCircle, Monitor, RefreshCw, Settings, Trash2 } from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { PushNotificationOptIn } from '@/app/components/public-site/PushNotificationOptIn';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
-import { deleteTrackedApplication, getProfile, listBookmarks, listSavedSearches, listTrackedApplications, removeBookmark, updateProfile, updateSavedSearch, updateTrackedApplication, type BookmarkItem, type SavedSearch, type TrackedApplication, type UserProfile } from '@/lib/user-api';
+import { deleteTrackedApplication, getCalendarFeed, getProfile, listBookmarks, listSavedSearches, listSessions, listTrackedApplications, removeBookmark, revokeOtherSessions, revokeSession, rotateCalendarFeed, updateProfile, updateSavedSearch, updateTrackedApplication, type BookmarkItem, type CalendarFeed, type SavedSearch, type TrackedApplication, type UserProfile, type UserSession } from '@/lib/user-api';
 import { cn } from '@/lib/utils';
 
 const links = [
@@ -61,8 +61,10 @@ export function UserDashboard() {
         {isOverview ? <><div className="grid gap-4 sm:grid-cols-3"><Card><Bookmark className="text-orange-600" /><div className="mt-3 text-3xl font-black">{bookmarks.length}</div><div className="text-sm text-gray-500">Saved updates</div></Card><Card><CalendarClock className="text-purple-600" /><div className="mt-3 text-3xl font-black">{tracked.length}</div><div className="text-sm text-gray-500">Tracked deadlines</div></Card><Card><Bell className="text-blue-600" /><div className="mt-3 text-3xl font-black">{searches.filter((item) => item.notificationsEnabled).length}</div><div className="text-sm text-gray-500">Active alerts</div></Card></div><Card><h2 className="font-extrabold">Upcoming deadlines</h2><ItemList items={tracked.slice(0, 4)} empty="No deadlines tracked yet." /></Card></> : null}
         {pathname === '/dashboard/saved' ? <Card><h2 className="mb-4 text-lg font-extrabold">Saved jobs and updates</h2>{bookmarks.length ? <div className="divide-y">{bookmarks.map((item) => <div key={item.id} className="flex items-center gap-3 py-4"><Link href={hrefFor(item)} className="min-w-0 flex-1 font-semibold text-gray-800 hover:text-orange-700">{item.title}</Link><button onClick={() => unsave(item.id)} aria-label="Remove saved item" className="rounded-lg p-2 text-gray-400 hover:bg-red-50 hover:text-red-600"><Trash2 size={16} /></button></div>)}</div> : <Empty text="You have not saved any updates yet." />}</Card> : null}
         {pathname === '/dashboard/tracked' ? <Card><h2 className="mb-4 text-lg font-extrabold">Tracked applications and deadlines</h2>{tracked.length ? <div className="divide-y">{tracked.map((item) => <div key={item.id} className="grid gap-3 py-4 sm:grid-cols-[1fr_auto_auto] sm:items-center"><div><Link href={hrefFor(item)} className="font-semibold hover:text-orange-700">{item.title}</Link><p className="mt-1 text-xs text-gray-500">{item.deadline ? `Deadline ${new Date(item.deadline).toLocaleDateString('en-IN')}` : 'No deadline available'}</p></div><select value={item.status} onChange={(e) => setStatus(item, e.target.value as TrackedApplication['status'])} className="rounded-lg border px-3 py-2 text-sm"><option value="saved">Saved</option><option value="applied">Applied</option><option value="admit-card">Admit card</option><option value="exam">Exam</option><option value="result">Result</option></select><button onClick={() => untrack(item.id)} className="rounded-lg p-2 text-red-600"><Trash2 size={16} /></button></div>)}</div> : <Empty text="No tracked applications yet." />}</Card> : null}
+        {pathname === '/dashboard/tracked' ? <CalendarFeedCard onMessage={setMessage} /> : null}
         {pathname === '/dashboard/alerts' ? <><Card><h2 className="mb-4 text-lg font-extrabold">Saved search alerts</h2>{searches.length ? searches.map((item) => <div key={item.id} className="flex items-center justify-between border-b py-3 last:border-0"><div><div className="font-semibold">{item.name}</div><div className="text-xs text-gray-500">{item.query || 'Filtered search'} · {item.frequency}</div></div><button onClick={() => toggleSearch(item)} className={cn('rounded-full px-3 py-1.5 text-xs font-bold', item.notificationsEnabled ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500')}>{item.notificationsEnabled ? 'On' : 'Off'}</button></div>) : <Empty text="No saved search alerts yet." />}</Card><PushNotificationOptIn /></> : null}
         {pathname === '/dashboard/settings' && profile ? <Card><h2 className="mb-5 text-lg font-extrabold">Notification settings</h2><div className="space-y-4"><Toggle label="Email notifications" checked={profile.emailNotifications} onChange={(value) => saveProfile({ emailNotifications: value })} /><Toggle label="Push notifications" checked={profile.pushNotifications} onChange={(value) => saveProfile({ pushNotifications: value })} /><label className="block text-sm font-semibold">Digest frequency<select value={profile.notificationFrequency} onChange={(e) => saveProfile({ notificationFrequency: e.target.value as UserProfile['notificationFrequency'] })} className="mt-2 block w-full rounded-xl border px-3 py-2 font-normal"><option value="instant">Instant</option><option value="daily">Daily</option><option value="weekly">Weekly</option></select></label><PushNotificationOptIn /></div></Card> : null}
+        {pathname === '/dashboard/settings' ? <SignedInDevices onMessage={setMessage} /> : null}
       </section>
     </div>
   </div>;
@@ -71,3 +73,18 @@ export function UserDashboard() {
 function Empty({ text }: { text: string }) { return <p className="rounded-xl bg-gray-50 p-5 text-sm text-gray-500">{text}</p> }
 function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (value: boolean) => void }) { return <label className="flex items-center justify-between text-sm font-semibold"><span>{label}</span><input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="h-5 w-5 accent-orange-600" /></label> }
 function ItemList({ items, empty }: { items: TrackedApplication[]; empty: string }) { return items.length ? <div className="mt-3 divide-y">{items.map((item) => <Link key={item.id} href={hrefFor(item)} className="flex justify-between gap-4 py-3 text-sm"><span className="font-semibold">{item.title}</span><span className="shrink-0 text-gray-500">{item.deadline ? new Date(item.deadline).toLocaleDateString('en-IN') : 'No date'}</span></Link>)}</div> : <Empty text={empty} /> }
+function SignedInDevices({ onMessage }: { onMessage: (text: string) => void }) {
+  const [sessions, setSessions] = useState<UserSession[] | null>(null);
+  useEffect(() => { listSessions().then(setSessions).catch((e) => { setSessions([]); onMessage(e instanceof Error ? e.message : 'Could not load your devices.'); }); }, [onMessage]);
+  async function signOut(session: UserSession) { try { await revokeSession(session.id); if (session.current) { window.location.assign('/login'); return; } setSessions((items) => items?.filter((item) => item.id !== session.id) ?? null); } catch (e) { onMessage(e instanceof Error ? e.message : 'Could not sign out that device.'); } }
+  async function signOutOthers() { try { const { revoked } = await revokeOtherSessions(); setSessions((items) => items?.filter((item) => item.current) ?? null); onMessage(revoked ? `Signed out of ${revoked} other device${revoked === 1 ? '' : 's'}.` : 'No other devices were signed in.'); } catch (e) { onMessage(e instanceof Error ? e.message : 'Could not sign out other devices.'); } }
+  return <Card><div className="mb-4 flex items-center justify-between gap-3"><h2 className="text-lg font-extrabold">Where you&apos;re signed in</h2>{sessions && sessions.some((item) => !item.current) ? <button onClick={signOutOthers} className="rounded-lg border px-3 py-1.5 text-xs font-bold text-red-600 hover:bg-red-50">Sign out all other devices</button> : null}</div>{!sessions ? <LoaderCircle className="animate-spin text-orange-600" /> : sessions.length ? <div className="divide-y">{sessions.map((item) => <div key={item.id} className="flex items-center gap-3 py-3"><Monitor size={18} className="shrink-0 text-gray-400" /><div className="min-w-0 flex-1"><div className="text-sm font-semibold">{item.device}{item.current ? <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs text-emerald-700">This device</span> : null}</div><div className="text-xs text-gray-500">{[item.ipAddress, item.country].filter(Boolean).join(' · ') || 'Unknown location'} · Last active {new Date(item.lastSeenAt).toLocaleString('en-IN')}</div></div><button onClick={() => signOut(item)} className="shrink-0 rounded-lg px-3 py-1.5 text-xs font-bold text-gray-600 hover:bg-red-50 hover:text-red-600">Sign out</button></div>)}</div> : <Empty text="No active sessions found." />}</Card>;
+}
+function CalendarFeedCard({ onMessage }: { onMessage: (text: string) => void }) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [busy, setBusy] = useState(false);
+  useEffect(() => { getCalendarFeed().then(setFeed).catch((e) => onMessage(e instanceof Error ? e.message : 'Could not load your calendar link.')); }, [onMessage]);
+  async function copy() { if (!feed) return; try { await navigator.clipboard.writeText(feed.url); onMessage('Calendar link copied. Paste it into your calendar app under "Subscribe by URL".'); } catch { onMessage('Could not copy the link. Select it and copy it manually.'); } }
+  async function reset() { if (!window.confirm('Reset your calendar link? Calendars subscribed with the current link will stop updating.')) return; setBusy(true); try { setFeed(await rotateCalendarFeed()); onMessage('Calendar link reset. Subscribe again with the new link.'); } catch (e) { onMessage(e instanceof Error ? e.message : 'Could not reset your calendar link.'); } finally { setBusy(false); } }
+  return <Card><div className="mb-2 flex items-center gap-2"><CalendarPlus size={18} className="text-orange-600" /><h2 className="text-lg font-extrabold">Add deadlines to your calendar</h2></div><p className="mb-4 text-sm text-gray-500">Subscribe once and your tracked deadlines, reminders and the dates of saved posts stay in sync on your phone. Keep this link private; anyone with it can see your list.</p>{!feed ? <LoaderCircle className="animate-spin text-orange-600" /> : <div className="space-y-3"><input readOnly value={feed.url} onFocus={(e) => e.target.select()} aria-label="Calendar feed link" className="w-full rounded-xl border bg-gray-50 px-3 py-2 font-mono text-xs text-gray-700" /><div className="flex flex-wrap gap-2"><a href={feed.webcalUrl} className="inline-flex items-center gap-1.5 rounded-lg bg-orange-600 px-3 py-2 text-xs font-bold text-white hover:bg-orange-700"><CalendarPlus size={14} />Subscribe</a><button onClick={copy} className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-xs font-bold text-gray-700 hover:bg-gray-50"><Copy size={14} />Copy link</button><button onClick={reset} disabled={busy} className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-xs font-bold text-red-600 hover:bg-red-50 disabled:opacity-50"><RefreshCw size={14} />Reset link</button></div><p className="text-xs text-gray-400">{feed.lastAccessedAt ? `Last synced by a calendar app ${new Date(feed.lastAccessedAt).toLocaleString('en-IN')}` : 'Not yet synced by any calendar app'}</p></div>}</Card>;
+}
@@ -189,7 +189,9 @@ export function HomePageLoginModal({ open, initialTab = 'login', onClose, onLogi
         ...(tab === 'register' ? { name: name.trim() } : {}),
       });
 
-      if (response.ok) {
+      if (response.ok && (payload as { data?: { twoFactor?: unknown } } | null)?.data?.twoFactor) {
+        setError('This account uses two-factor authentication. Sign in from the admin console instead.');
+      } else if (response.ok) {
         setIsDone(true);
         setTimeout(() => {
           setIsDone(false);
@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import { localizedPath, type SiteLocale } from '@/app/lib/metadata';
+
+const LANGUAGE_LINKS: Record<SiteLocale, { label: string; hrefLang: string }> = {
+  en: { label: 'Read in English', hrefLang: 'en-IN' },
+  hi: { label: 'हिंदी में पढ़ें', hrefLang: 'hi-IN' },
+};
+
+/** Links to the other language versions of a page; renders nothing for English-only content. */
+export function LanguageSwitch({
+  currentLocale,
+  availableLocales,
+  englishPath,
+}: {
+  currentLocale: SiteLocale;
+  availableLocales: SiteLocale[];
+  englishPath: string;
+}) {
+  const otherLocales = availableLocales.filter((locale) => locale !== currentLocale);
+  if (otherLocales.length === 0) return null;
+
+  return (
+    <nav aria-label="Language" className="mx-auto flex max-w-7xl justify-end gap-3 px-4 pt-3 text-sm">
+      {otherLocales.map((locale) => (
+        <Link
+          key={locale}
+          href={localizedPath(englishPath, locale)}
+          hrefLang={LANGUAGE_LINKS[locale].hrefLang}
+          lang={LANGUAGE_LINKS[locale].hrefLang}
+          className="font-semibold text-[#1a237e] hover:underline"
+        >
+          {LANGUAGE_LINKS[locale].label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
@@ -54,6 +54,8 @@ import { subscribeToAlerts } from '@/lib/alert-subscriptions';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { addBookmark, listBookmarkIds, listTrackedApplications, removeBookmark, trackApplication, type ContentType } from '@/lib/user-api';
 import { cn } from '@/lib/utils';
+import { DetailAgeCalculator } from './detail/DetailAgeCalculator';
+import { DetailLifecycleTimeline } from './detail/DetailLifecycleTimeline';
 import { PushNotificationOptIn } from './PushNotificationOptIn';
 import { SafeLink } from './SafeLink';
 
@@ -393,6 +395,7 @@ function PublicAnnouncementDetailPageInner({
   const visibleVacancyRows = showAllVacancies ? detail.vacancyTable?.rows ?? [] : (detail.vacancyTable?.rows ?? []).slice(0, 5);
   const navSections: NavSection[] = [
     { id: 'shortinfo', label: 'Short Info', icon: Info },
+    ...(detail.lifecycle ? [{ id: 'lifecycle', label: 'Timeline', icon: TrendingUp }] : []),
     { id: 'overview', label: 'Overview', icon: FileText },
     ...(detail.eligibility.length ? [{ id: 'eligibility', label: 'Eligibility', icon: GraduationCap }] : []),
     ...(detail.vacancyTable?.rows.length ? [{ id: 'vacancy', label: 'Vacancy', icon: Briefcase }] : []),
@@ -417,6 +420,19 @@ function PublicAnnouncementDetailPageInner({
     });
     return () => { active = false; };
   }, [isAuthLoading, isLoggedIn, item.id, item.slug]);
+  useEffect(() => {
+    // "Save" on a push notification opens the post with ?pushAction=save.
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('pushAction') !== 'save' || isAuthLoading) return;
+    if (isLoggedIn && !bookmarkStateReady) return;
+    params.delete('pushAction');
+    window.history.replaceState(null, '', `${window.location.pathname}${params.size ? `?${params}` : ''}${window.location.hash}`);
+    if (!isLoggedIn) { setActionMessage('Please sign in to save this update.'); return; }
+    if (saved || !item.id || item.id.startsWith('fallback-')) return;
+    addBookmark(item.id)
+      .then(() => { setSaved(true); setActionMessage('Saved to your dashboard.'); })
+      .catch((error: unknown) => setActionMessage(error instanceof Error ? error.message : 'Could not update saved status.'));
+  }, [bookmarkStateReady, isAuthLoading, isLoggedIn, item.id, saved]);
   useEffect(() => {
     const sectionIds = navKey ? navKey.split('|') : [];
 
@@ -914,6 +930,31 @@ function PublicAnnouncementDetailPageInner({
               </div>
             </div>
 
+            {detail.lifecycle ? (
+              <div
+                id="lifecycle"
+                ref={(node) => {
+                  sectionRefs.current.lifecycle = node;
+                }}
+                className="scroll-mt-[110px]"
+              >
+                <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm">
+                  <div className="flex items-center gap-2.5 border-b border-gray-100 px-5 py-3.5" style={{ background: 'linear-gradient(90deg, #fff8f5 0%, #ffffff 100%)' }}>
+                    <div className="flex h-8 w-8 items-center justify-center rounded-xl border border-[#e65100]/20" style={{ background: 'linear-gradient(135deg, rgba(230,81,0,0.13), rgba(230,81,0,0.07))' }}>
+                      <TrendingUp size={15} className="text-[#e65100]" />
+                    </div>
+                    <div>
+                      <h2 className="text-[13px] font-bold text-gray-800">Exam Timeline</h2>
+                      <p className="text-[11px] text-gray-500">{detail.lifecycle.cycleName}</p>
+                    </div>
+                  </div>
+                  <div className="p-5">
+                    <DetailLifecycleTimeline lifecycle={detail.lifecycle} />
+                  </div>
+                </div>
+              </div>
+            ) : null}
+
             <div
               id="overview"
               ref={(node) => {
@@ -1010,6 +1051,7 @@ function PublicAnnouncementDetailPageInner({
                           }[block.title] ?? block.title}
                         </h3>
                         <p className="mt-2 text-[12px] leading-[1.8] text-gray-700">{block.description}</p>
+                        {block.age ? <DetailAgeCalculator rule={block.age} /> : null}
                       </div>
                     ))}
                   </div>
@@ -3,8 +3,11 @@ import { HomePageLinkItem, HomePageSectionBox } from '@/app/components/homepage/
 import type { CategoryPageMeta, PortalListEntry, ResourceCard } from '@/app/lib/public-content';
 import { PublicPageHeader } from './PublicPageHeader';
 import { PublicPanel } from './PublicPanel';
+import { TaxonomyCalendarPanel, type CalendarTaxonomyType } from './TaxonomyCalendarPanel';
 
 interface PublicCategoryHubPageProps {
+  /** Taxonomy whose public calendar feeds are offered in the sidebar. */
+  calendar?: { type: CalendarTaxonomyType; slug: string };
   clearHref?: string;
   entries: PortalListEntry[];
   meta: CategoryPageMeta;
@@ -13,6 +16,7 @@ interface PublicCategoryHubPageProps {
 }
 
 export function PublicCategoryHubPage({
+  calendar,
   clearHref,
   entries,
   meta,
@@ -104,6 +108,8 @@ export function PublicCategoryHubPage({
             </div>
           </PublicPanel>
 
+          {calendar ? <TaxonomyCalendarPanel type={calendar.type} slug={calendar.slug} /> : null}
+
           <PublicPanel title="Why This Page Matters" headerColor="bg-[#1a237e]">
             <div className="space-y-3 p-4 text-sm leading-7 text-gray-600">
               {meta.highlights.map((highlight) => (
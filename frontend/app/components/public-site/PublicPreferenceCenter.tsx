@@ -0,0 +1,348 @@
+'use client';
+
+import { BellOff, BellRing, LoaderCircle, PauseCircle, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  getAlertPreferences,
+  pauseAlerts,
+  removeAlertTopic,
+  resumeAlerts,
+  unsubscribeFromAlerts,
+  updateAlertPreferences,
+  type AlertPostType,
+  type AlertPreferences,
+  type AlertTopicKind,
+} from '@/lib/alert-subscriptions';
+import { cn } from '@/lib/utils';
+import { PublicPanel } from './PublicPanel';
+
+const POST_TYPE_LABELS: Record<AlertPostType, string> = {
+  job: 'Jobs',
+  result: 'Results',
+  'admit-card': 'Admit Cards',
+  'answer-key': 'Answer Keys',
+  admission: 'Admissions',
+  syllabus: 'Syllabus',
+};
+
+const FREQUENCY_LABELS: Record<AlertPreferences['frequency'], string> = {
+  instant: 'Instant — as soon as a post is published',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+const TOPIC_GROUPS: Array<{ kind: Exclude<AlertTopicKind, 'postType'>; field: 'categories' | 'states' | 'organizations' | 'qualifications'; label: string }> = [
+  { kind: 'category', field: 'categories', label: 'Categories' },
+  { kind: 'state', field: 'states', label: 'States' },
+  { kind: 'organization', field: 'organizations', label: 'Organizations' },
+  { kind: 'qualification', field: 'qualifications', label: 'Qualifications' },
+];
+
+const PAUSE_OPTIONS = [1, 2, 4, 8, 12];
+
+type Drafts = Record<(typeof TOPIC_GROUPS)[number]['field'], string>;
+
+const EMPTY_DRAFTS: Drafts = { categories: '', states: '', organizations: '', qualifications: '' };
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function splitDraft(value: string) {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+export function PublicPreferenceCenter({ token, confirmUnsubscribe }: { token: string; confirmUnsubscribe: boolean }) {
+  const [preferences, setPreferences] = useState<AlertPreferences | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(token ? null : 'This link is missing its token. Use the link from one of our alert emails.');
+  const [frequency, setFrequency] = useState<AlertPreferences['frequency']>('daily');
+  const [postTypes, setPostTypes] = useState<AlertPostType[]>([]);
+  const [reminderDays, setReminderDays] = useState<number[]>([]);
+  const [drafts, setDrafts] = useState<Drafts>(EMPTY_DRAFTS);
+  const [pauseWeeks, setPauseWeeks] = useState(2);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  function apply(next: AlertPreferences | undefined, text?: string) {
+    if (!next) return;
+    setPreferences(next);
+    setFrequency(next.frequency);
+    setPostTypes(next.postTypes);
+    setReminderDays(next.reminderDays);
+    if (text) setMessage({ tone: 'success', text });
+  }
+
+  useEffect(() => {
+    if (!token) return;
+    getAlertPreferences(token)
+      .then((data) => apply(data))
+      .catch((error: unknown) => setLoadError(error instanceof Error ? error.message : 'Preferences could not be loaded.'));
+  }, [token]);
+
+  async function run(action: () => Promise<{ data?: AlertPreferences; message?: string }>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await action();
+      apply(response.data, response.message);
+      return true;
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Something went wrong.' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!preferences) return;
+    const names = (field: keyof Drafts) => [...preferences[field].map((topic) => topic.name), ...splitDraft(drafts[field])];
+    const saved = await run(() => updateAlertPreferences(token, {
+      frequency,
+      postTypes,
+      reminderDays,
+      categories: names('categories'),
+      states: names('states'),
+      organizations: names('organizations'),
+      qualifications: names('qualifications'),
+    }));
+    if (saved) setDrafts(EMPTY_DRAFTS);
+  }
+
+  async function unsubscribe() {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await unsubscribeFromAlerts(token);
+      setPreferences((current) => (current ? { ...current, isActive: false } : current));
+      setMessage({ tone: 'success', text: response.message || 'Unsubscribed successfully' });
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : 'Failed to unsubscribe.' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loadError) {
+    return (
+      <div className="mx-auto max-w-3xl px-3 py-8">
+        <PublicPanel title="Alert Preferences" headerColor="bg-[#b71c1c]">
+          <p className="p-4 text-sm text-gray-700">{loadError}</p>
+        </PublicPanel>
+      </div>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <div className="flex items-center justify-center gap-2 px-3 py-16 text-sm text-gray-500">
+        <LoaderCircle className="h-4 w-4 animate-spin" /> Loading your preferences…
+      </div>
+    );
+  }
+
+  const paused = Boolean(preferences.pausedUntil);
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-4 px-3 py-6">
+      <div className="rounded-xl border border-gray-200 bg-white p-4 shadow-sm">
+        <h1 className="text-lg font-extrabold text-gray-800">Alert preferences</h1>
+        <p className="mt-1 text-sm text-gray-500">{preferences.email}</p>
+        <span
+          className={cn(
+            'mt-3 inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-[11px] font-bold',
+            !preferences.isActive ? 'bg-red-100 text-red-700' : paused ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-700',
+          )}
+        >
+          {!preferences.isActive ? <BellOff className="h-3 w-3" /> : paused ? <PauseCircle className="h-3 w-3" /> : <BellRing className="h-3 w-3" />}
+          {!preferences.isActive
+            ? 'Unsubscribed'
+            : paused ? `Paused until ${formatDate(preferences.pausedUntil as string)}` : 'Receiving alerts'}
+        </span>
+      </div>
+
+      {message ? (
+        <div className={cn('rounded-xl border p-3 text-sm', message.tone === 'success' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-700')}>
+          {message.text}
+        </div>
+      ) : null}
+
+      {confirmUnsubscribe && preferences.isActive ? (
+        <PublicPanel title="Unsubscribe" headerColor="bg-[#b71c1c]">
+          <div className="space-y-3 p-4 text-sm text-gray-700">
+            <p>Stop all alert emails to {preferences.email}? You can also pause alerts or drop single topics below instead.</p>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void unsubscribe()}
+              className="rounded-lg bg-[#b71c1c] px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-[#9a1515] disabled:opacity-50"
+            >
+              Unsubscribe from all alerts
+            </button>
+          </div>
+        </PublicPanel>
+      ) : null}
+
+      {!preferences.isActive ? (
+        <PublicPanel title="Resubscribe" headerColor="bg-[#2e7d32]">
+          <div className="space-y-3 p-4 text-sm text-gray-700">
+            <p>You no longer receive alert emails. Changed your mind?</p>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void run(() => resumeAlerts(token))}
+              className="rounded-lg bg-[#2e7d32] px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-[#256628] disabled:opacity-50"
+            >
+              Resume alerts
+            </button>
+          </div>
+        </PublicPanel>
+      ) : null}
+
+      <PublicPanel title="What you receive" headerColor="bg-[#1a237e]">
+        <div className="space-y-5 p-4 text-sm text-gray-700">
+          <fieldset className="space-y-2">
+            <legend className="mb-1 font-semibold text-gray-800">How often</legend>
+            {(Object.keys(FREQUENCY_LABELS) as Array<AlertPreferences['frequency']>).map((value) => (
+              <label key={value} className="flex items-center gap-2">
+                <input type="radio" name="frequency" checked={frequency === value} onChange={() => setFrequency(value)} />
+                {FREQUENCY_LABELS[value]}
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset>
+            <legend className="mb-1 font-semibold text-gray-800">Post types</legend>
+            <p className="mb-2 text-xs text-gray-500">Leave all unticked to get every type.</p>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              {(Object.keys(POST_TYPE_LABELS) as AlertPostType[]).map((value) => (
+                <label key={value} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={postTypes.includes(value)}
+                    onChange={(event) => setPostTypes((current) => (event.target.checked
+                      ? [...current, value]
+                      : current.filter((item) => item !== value)))}
+                  />
+                  {POST_TYPE_LABELS[value]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {preferences.reminderOptions.length > 0 ? (
+            <fieldset>
+              <legend className="mb-1 font-semibold text-gray-800">Last date reminders</legend>
+              <p className="mb-2 text-xs text-gray-500">Get an extra email before the last date of posts matching your alerts.</p>
+              <div className="flex flex-wrap gap-4">
+                {preferences.reminderOptions.map((days) => (
+                  <label key={days} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={reminderDays.includes(days)}
+                      onChange={(event) => setReminderDays((current) => (event.target.checked
+                        ? [...current, days]
+                        : current.filter((item) => item !== days)))}
+                    />
+                    {days === 1 ? '1 day before' : `${days} days before`}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ) : null}
+
+          {TOPIC_GROUPS.map((group) => (
+            <div key={group.kind}>
+              <p className="mb-1 font-semibold text-gray-800">{group.label}</p>
+              <div className="mb-2 flex flex-wrap gap-1.5">
+                {preferences[group.field].map((topic) => (
+                  <span key={topic.slug} className="inline-flex items-center gap-1 rounded-full bg-orange-50 px-2.5 py-1 text-xs font-semibold text-[#bf360c]">
+                    {topic.name}
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => void run(() => removeAlertTopic(token, group.kind, topic.slug))}
+                      aria-label={`Stop alerts for ${topic.name}`}
+                      title={`Stop alerts for ${topic.name}`}
+                      className="rounded-full p-0.5 hover:bg-orange-100 disabled:opacity-50"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+                {preferences[group.field].length === 0 ? <span className="text-xs text-gray-500">All {group.label.toLowerCase()}</span> : null}
+              </div>
+              <input
+                value={drafts[group.field]}
+                onChange={(event) => setDrafts((current) => ({ ...current, [group.field]: event.target.value }))}
+                placeholder={`Add ${group.label.toLowerCase()}, separated by commas`}
+                className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm outline-none focus:border-orange-300"
+              />
+            </div>
+          ))}
+
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void save()}
+            className="rounded-lg bg-[#1a237e] px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-[#151c66] disabled:opacity-50"
+          >
+            Save preferences
+          </button>
+        </div>
+      </PublicPanel>
+
+      {preferences.isActive ? (
+        <PublicPanel title="Take a break" headerColor="bg-[#37474f]">
+          <div className="flex flex-wrap items-center gap-3 p-4 text-sm text-gray-700">
+            {paused ? (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => void run(() => resumeAlerts(token))}
+                className="rounded-lg border border-gray-300 px-4 py-2 font-semibold text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+              >
+                Resume alerts now
+              </button>
+            ) : (
+              <>
+                <label className="flex items-center gap-2">
+                  Pause for
+                  <select
+                    value={pauseWeeks}
+                    onChange={(event) => setPauseWeeks(Number(event.target.value))}
+                    className="rounded-lg border border-gray-200 px-2 py-1.5"
+                  >
+                    {PAUSE_OPTIONS.map((weeks) => (
+                      <option key={weeks} value={weeks}>{weeks} {weeks === 1 ? 'week' : 'weeks'}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void run(() => pauseAlerts(token, pauseWeeks))}
+                  className="rounded-lg border border-gray-300 px-4 py-2 font-semibold text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Pause alerts
+                </button>
+              </>
+            )}
+            {!confirmUnsubscribe ? (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  if (window.confirm('Stop all alert emails?')) void unsubscribe();
+                }}
+                className="ml-auto text-sm font-semibold text-red-600 hover:underline disabled:opacity-50"
+              >
+                Unsubscribe from everything
+              </button>
+            ) : null}
+          </div>
+        </PublicPanel>
+      ) : null}
+    </div>
+  );
+}
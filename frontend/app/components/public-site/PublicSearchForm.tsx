@@ -0,0 +1,41 @@
+'use client';
+
+import { useState } from 'react';
+import { SearchSuggestionList } from '@/app/components/search/SearchSuggestionList';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
+
+interface PublicSearchFormProps {
+  initialQuery: string;
+}
+
+export function PublicSearchForm({ initialQuery }: PublicSearchFormProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [isFocused, setIsFocused] = useState(false);
+  const { data: suggestions } = useSearchSuggestions(query, { enabled: isFocused && query.trim() !== initialQuery });
+
+  return (
+    <form action="/search" className="relative flex flex-col gap-3 p-4 sm:flex-row">
+      <div className="relative w-full">
+        <input
+          type="search"
+          name="q"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Search jobs, results, admit cards..."
+          autoComplete="off"
+          aria-autocomplete="list"
+          className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm text-gray-800 outline-none transition-colors focus:border-orange-300"
+        />
+        {isFocused && suggestions ? <SearchSuggestionList suggestions={suggestions} /> : null}
+      </div>
+      <button
+        type="submit"
+        className="rounded-lg bg-[#e65100] px-4 py-2.5 text-sm font-semibold text-white transition-opacity hover:opacity-90"
+      >
+        Search
+      </button>
+    </form>
+  );
+}
@@ -4,6 +4,7 @@ import type { AnnouncementSection, CategoryPageMeta, PortalListEntry } from '@/a
 import { buildAnnouncementCategoryPath, buildJobsPath, buildSearchPath } from '@/app/lib/public-content';
 import { PublicPageHeader } from './PublicPageHeader';
 import { PublicPanel } from './PublicPanel';
+import { PublicSearchForm } from './PublicSearchForm';
 
 interface SearchGroup {
   entries: PortalListEntry[];
@@ -14,9 +15,10 @@ interface SearchGroup {
 interface PublicSearchPageProps {
   query: string;
   results: SearchGroup[];
+  didYouMean?: string;
 }
 
-export function PublicSearchPage({ query, results }: PublicSearchPageProps) {
+export function PublicSearchPage({ query, results, didYouMean }: PublicSearchPageProps) {
   const trimmedQuery = query.trim();
 
   return (
@@ -41,21 +43,7 @@ export function PublicSearchPage({ query, results }: PublicSearchPageProps) {
       <div className="mt-4 grid gap-4 lg:grid-cols-[1.65fr_0.95fr]">
         <div className="space-y-4">
           <PublicPanel title="Search Input" headerColor="bg-[#e65100]">
-            <form action="/search" className="flex flex-col gap-3 p-4 sm:flex-row">
-              <input
-                type="search"
-                name="q"
-                defaultValue={trimmedQuery}
-                placeholder="Search jobs, results, admit cards..."
-                className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm text-gray-800 outline-none transition-colors focus:border-orange-300"
-              />
-              <button
-                type="submit"
-                className="rounded-lg bg-[#e65100] px-4 py-2.5 text-sm font-semibold text-white transition-opacity hover:opacity-90"
-              >
-                Search
-              </button>
-            </form>
+            <PublicSearchForm initialQuery={trimmedQuery} />
           </PublicPanel>
 
           {trimmedQuery ? (
@@ -85,6 +73,15 @@ export function PublicSearchPage({ query, results }: PublicSearchPageProps) {
               <PublicPanel title="No Results Found" headerColor="bg-[#37474f]">
                 <div className="space-y-3 p-4 text-sm leading-7 text-gray-700">
                   <p>No public announcements matched &quot;{trimmedQuery}&quot;.</p>
+                  {didYouMean ? (
+                    <p>
+                      Did you mean{' '}
+                      <Link href={buildSearchPath(didYouMean)} className="font-semibold text-[#e65100] hover:underline">
+                        {didYouMean}
+                      </Link>
+                      ?
+                    </p>
+                  ) : null}
                   <p>Try a broader keyword, or open the jobs feed for the latest default listing.</p>
                 </div>
               </PublicPanel>
@@ -3,6 +3,7 @@ import { HomePageLinkItem, HomePageSectionBox } from '@/app/components/homepage/
 import type { PortalListEntry, StatePageMeta } from '@/app/lib/public-content';
 import { PublicPageHeader } from './PublicPageHeader';
 import { PublicPanel } from './PublicPanel';
+import { TaxonomyCalendarPanel } from './TaxonomyCalendarPanel';
 
 interface PublicStateDetailPageProps {
   admitCardEntries: PortalListEntry[];
@@ -101,6 +102,8 @@ export function PublicStateDetailPage({
             </div>
           </PublicPanel>
 
+          <TaxonomyCalendarPanel type="states" slug={state.slug} />
+
           <PublicPanel title="Coverage Note" headerColor="bg-[#1a237e]">
             <div className="space-y-3 p-4 text-sm leading-7 text-gray-600">
               <p>State pages group jobs, results, admit cards, and admissions for faster regional browsing.</p>
@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react';
 import { resolvePublicApiBase } from '@/lib/api';
 import { subscribePush } from '@/lib/user-api';
 import { cn } from '@/lib/utils';
+import { PushTopicSettings } from './PushTopicSettings';
 
 type State = 'idle' | 'unsupported' | 'denied' | 'loading' | 'enabled' | 'failed';
 function decodeKey(value: string) {
@@ -16,6 +17,8 @@ function decodeKey(value: string) {
 export function PushNotificationOptIn({ compact = false }: { compact?: boolean }) {
   const [state, setState] = useState<State>('idle');
   const [message, setMessage] = useState('Get browser alerts for important updates.');
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [showTopics, setShowTopics] = useState(false);
   useEffect(() => {
     if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) {
       setState('unsupported'); setMessage('Browser notifications are not supported on this device.'); return;
@@ -24,7 +27,7 @@ export function PushNotificationOptIn({ compact = false }: { compact?: boolean }
       setState('denied'); setMessage('Notifications are blocked in your browser settings.'); return;
     }
     navigator.serviceWorker.getRegistration('/').then((registration) => registration?.pushManager.getSubscription()).then((value) => {
-      if (value) { setState('enabled'); setMessage('Browser notifications are enabled.'); }
+      if (value) { setState('enabled'); setEndpoint(value.endpoint); setMessage('Browser notifications are enabled.'); }
     }).catch(() => undefined);
   }, []);
 
@@ -45,7 +48,7 @@ export function PushNotificationOptIn({ compact = false }: { compact?: boolean }
       const existing = await registration.pushManager.getSubscription();
       const subscription = existing ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeKey(key) });
       await subscribePush(subscription.toJSON());
-      setState('enabled'); setMessage('Browser notifications are enabled.');
+      setState('enabled'); setEndpoint(subscription.endpoint); setShowTopics(true); setMessage('Browser notifications are enabled.');
     } catch (error) {
       setState('failed'); setMessage(error instanceof Error ? error.message : 'Could not enable notifications.');
     }
@@ -60,6 +63,11 @@ export function PushNotificationOptIn({ compact = false }: { compact?: boolean }
         </span>
         <span><span className="block text-xs font-bold text-gray-800">{state === 'enabled' ? 'Notifications enabled' : 'Enable browser alerts'}</span><span className="block text-[11px] leading-5 text-gray-500">{message}</span></span>
       </button>
+      {state === 'enabled' && endpoint ? (
+        showTopics
+          ? <PushTopicSettings endpoint={endpoint} />
+          : <button type="button" onClick={() => setShowTopics(true)} className="mt-2 text-[11px] font-bold text-[#e65100] hover:underline">Choose push topics</button>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getPushTopics, updatePushTopics, type ContentType } from '@/lib/user-api';
+
+const TYPE_LABELS: Record<ContentType, string> = {
+  job: 'Jobs',
+  result: 'Results',
+  'admit-card': 'Admit cards',
+  admission: 'Admissions',
+  'answer-key': 'Answer keys',
+  syllabus: 'Syllabus',
+};
+
+function splitList(value: string) {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+export function PushTopicSettings({ endpoint }: { endpoint: string }) {
+  const [instantAlerts, setInstantAlerts] = useState(false);
+  const [postTypes, setPostTypes] = useState<ContentType[]>([]);
+  const [states, setStates] = useState('');
+  const [categories, setCategories] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    getPushTopics(endpoint).then((topics) => {
+      setInstantAlerts(topics.instantAlerts);
+      setPostTypes(topics.postTypes);
+      setStates(topics.stateSlugs.join(', '));
+      setCategories(topics.categorySlugs.join(', '));
+    }).catch(() => undefined);
+  }, [endpoint]);
+
+  async function save() {
+    try {
+      setBusy(true); setMessage('');
+      await updatePushTopics(endpoint, { instantAlerts, postTypes, states: splitList(states), categories: splitList(categories) });
+      setMessage(instantAlerts ? 'You will get a push when a matching post is published.' : 'Instant pushes are off.');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not save push topics.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-orange-100 pt-3 text-xs text-gray-700">
+      <label className="flex items-center gap-2 font-semibold text-gray-800">
+        <input type="checkbox" checked={instantAlerts} onChange={(event) => setInstantAlerts(event.target.checked)} />
+        Push me new posts as they are published
+      </label>
+      {instantAlerts ? (
+        <>
+          <fieldset>
+            <legend className="mb-1 text-[11px] text-gray-500">Post types (none ticked = all)</legend>
+            <div className="grid grid-cols-2 gap-1.5">
+              {(Object.keys(TYPE_LABELS) as ContentType[]).map((value) => (
+                <label key={value} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={postTypes.includes(value)}
+                    onChange={(event) => setPostTypes((current) => (event.target.checked ? [...current, value] : current.filter((item) => item !== value)))}
+                  />
+                  {TYPE_LABELS[value]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <label className="block">
+            <span className="mb-1 block text-[11px] text-gray-500">States, comma separated (blank = all)</span>
+            <input value={states} onChange={(event) => setStates(event.target.value)} placeholder="Bihar, Uttar Pradesh" className="w-full rounded-lg border border-gray-200 bg-white px-2.5 py-1.5" />
+          </label>
+          <label className="block">
+            <span className="mb-1 block text-[11px] text-gray-500">Categories, comma separated (blank = all)</span>
+            <input value={categories} onChange={(event) => setCategories(event.target.value)} placeholder="Banking, Railway" className="w-full rounded-lg border border-gray-200 bg-white px-2.5 py-1.5" />
+          </label>
+        </>
+      ) : null}
+      <button type="button" disabled={busy} onClick={save} className="rounded-lg bg-[#e65100] px-3 py-1.5 font-bold text-white disabled:opacity-50">
+        {busy ? 'Saving…' : 'Save push topics'}
+      </button>
+      {message ? <p className="text-[11px] text-gray-500">{message}</p> : null}
+    </div>
+  );
+}
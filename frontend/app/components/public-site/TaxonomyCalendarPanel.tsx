@@ -0,0 +1,37 @@
+import { CalendarPlus } from 'lucide-react';
+import { siteConfig } from '@/lib/seo';
+import { PublicPanel } from './PublicPanel';
+
+export type CalendarTaxonomyType = 'states' | 'organizations';
+
+const FEEDS: Array<{ kind?: string; label: string }> = [
+  { label: 'All Important Dates' },
+  { kind: 'last_date', label: 'Last Dates Only' },
+  { kind: 'exam_date', label: 'Exam Dates Only' },
+];
+
+function calendarHref(type: CalendarTaxonomyType, slug: string, kind?: string) {
+  const url = `${siteConfig.url}/api/calendar/taxonomies/${type}/${encodeURIComponent(slug)}.ics${kind ? `?kind=${kind}` : ''}`;
+  return url.replace(/^https?:/, 'webcal:');
+}
+
+/** Public iCalendar subscriptions for one state or organization; calendar apps refresh them on their own. */
+export function TaxonomyCalendarPanel({ type, slug }: { type: CalendarTaxonomyType; slug: string }) {
+  return (
+    <PublicPanel title="Add Dates to Calendar" headerColor="bg-[#2e7d32]">
+      <div className="space-y-2 p-4">
+        {FEEDS.map((feed) => (
+          <a
+            key={feed.label}
+            href={calendarHref(type, slug, feed.kind)}
+            className="flex items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm font-semibold text-gray-700 transition-colors hover:border-orange-200 hover:bg-orange-50 hover:text-[#e65100]"
+          >
+            <CalendarPlus size={14} />
+            {feed.label}
+          </a>
+        ))}
+        <p className="pt-1 text-[12px] leading-5 text-gray-500">Subscribing keeps new and changed dates in sync on your phone or Google Calendar.</p>
+      </div>
+    </PublicPanel>
+  );
+}
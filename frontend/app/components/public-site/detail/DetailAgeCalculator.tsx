@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import type { DetailAgeRule } from '@/app/lib/public-content';
+
+const MONTHS: Record<string, number> = { jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11 };
+
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+function parseCutoffDate(value?: string): Date | null {
+  const normalized = value?.trim();
+  if (!normalized) return null;
+  const iso = normalized.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return utcDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  const dayFirst = normalized.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) return utcDate(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1]));
+  const longForm = normalized.match(/^(\d{1,2})\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})$/);
+  if (longForm) {
+    const month = MONTHS[longForm[2].slice(0, 3).toLowerCase()];
+    return month === undefined ? null : utcDate(Number(longForm[3]), month, Number(longForm[1]));
+  }
+  return null;
+}
+
+function shiftYears(date: Date, years: number, days = 0): Date {
+  const shifted = new Date(date);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() - years);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted;
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function ageParts(dateOfBirth: Date, on: Date) {
+  let years = on.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  let months = on.getUTCMonth() - dateOfBirth.getUTCMonth();
+  let days = on.getUTCDate() - dateOfBirth.getUTCDate();
+  if (days < 0) {
+    months -= 1;
+    days += new Date(Date.UTC(on.getUTCFullYear(), on.getUTCMonth(), 0)).getUTCDate();
+  }
+  if (months < 0) {
+    years -= 1;
+    months += 12;
+  }
+  return { years, months, days };
+}
+
+/**
+ * Per-category upper age limits and the birth-date window they imply,
+ * with an optional date-of-birth check against the notice's cut-off date.
+ */
+export function DetailAgeCalculator({ rule }: { rule: DetailAgeRule }) {
+  const [dobInput, setDobInput] = useState('');
+  const cutoff = parseCutoffDate(rule.cutoffDate);
+  const dateOfBirth = parseCutoffDate(dobInput);
+  const age = cutoff && dateOfBirth ? ageParts(dateOfBirth, cutoff) : null;
+
+  const rows = [
+    { label: 'General / UR', years: 0, afterServiceDeduction: false },
+    ...rule.relaxations.map((item) => ({ ...item, afterServiceDeduction: Boolean(item.afterServiceDeduction) })),
+  ].map((row) => {
+    const upperLimit = rule.maxAge !== undefined ? rule.maxAge + row.years : undefined;
+    return {
+      ...row,
+      upperLimit,
+      bornOnOrAfter: cutoff && upperLimit !== undefined ? shiftYears(cutoff, upperLimit + 1, 1) : null,
+      bornOnOrBefore: cutoff && rule.minAge !== undefined ? shiftYears(cutoff, rule.minAge) : null,
+      fits: age
+        ? (rule.minAge === undefined || age.years >= rule.minAge) && (upperLimit === undefined || age.years <= upperLimit)
+        : null,
+    };
+  });
+
+  return (
+    <div className="mt-3 rounded-xl border border-purple-100 bg-purple-50/40 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-[11px] font-bold uppercase tracking-[0.08em] text-purple-700">Age Calculator</div>
+        <div className="text-[11px] text-gray-600">
+          {cutoff
+            ? `Age as on ${formatDate(cutoff)}${rule.cutoffIsNotified ? '' : ' (last date)'}`
+            : 'Cut-off date not announced yet'}
+        </div>
+      </div>
+
+      <div className="mt-2 overflow-x-auto">
+        <table className="w-full text-left text-[12px] text-gray-700">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-[0.06em] text-gray-500">
+              <th className="py-1 pr-3 font-bold">Category</th>
+              <th className="py-1 pr-3 font-bold">Upper limit</th>
+              {cutoff ? <th className="py-1 pr-3 font-bold">Born between</th> : null}
+              {age ? <th className="py-1 font-bold">You</th> : null}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={`${row.label}-${index}`} className="border-t border-purple-100">
+                <td className="py-1.5 pr-3 font-semibold text-gray-900">{row.label}</td>
+                <td className="py-1.5 pr-3">
+                  {row.upperLimit !== undefined ? `${row.upperLimit} years` : 'No upper limit'}
+                  {row.years > 0 ? <span className="text-gray-500"> (+{row.years})</span> : null}
+                  {row.afterServiceDeduction ? <span className="block text-[10px] text-gray-500">after deducting military service</span> : null}
+                </td>
+                {cutoff ? (
+                  <td className="py-1.5 pr-3">
+                    {row.bornOnOrAfter ? formatDate(row.bornOnOrAfter) : 'Any'} – {row.bornOnOrBefore ? formatDate(row.bornOnOrBefore) : 'Any'}
+                  </td>
+                ) : null}
+                {age ? (
+                  <td className={row.fits ? 'py-1.5 font-bold text-emerald-700' : 'py-1.5 font-bold text-red-600'}>
+                    {row.fits ? 'Eligible' : 'Over / under age'}
+                  </td>
+                ) : null}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {cutoff ? (
+        <label className="mt-3 flex flex-wrap items-center gap-2 text-[12px] text-gray-700">
+          <span className="font-semibold">Your date of birth</span>
+          <input
+            type="date"
+            value={dobInput}
+            onChange={(event) => setDobInput(event.target.value)}
+            className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-[12px] outline-none focus:border-purple-300"
+          />
+          {age ? (
+            <span className="text-gray-600">
+              You will be <strong className="text-gray-900">{age.years} years, {age.months} months, {age.days} days</strong> on {formatDate(cutoff)}.
+            </span>
+          ) : null}
+        </label>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Check, Clock } from 'lucide-react';
+import Link from 'next/link';
+import type { DetailLifecycle, DetailLifecycleStage } from '@/app/lib/public-content';
+import { cn } from '@/lib/utils';
+
+const STAGES: Array<{ stage: DetailLifecycleStage; label: string }> = [
+  { stage: 'job', label: 'Notification' },
+  { stage: 'admit-card', label: 'Admit Card' },
+  { stage: 'answer-key', label: 'Answer Key' },
+  { stage: 'result', label: 'Result' },
+];
+
+/** Job → admit card → answer key → result for one exam cycle; stages not yet out show as awaited. */
+export function DetailLifecycleTimeline({ lifecycle }: { lifecycle: DetailLifecycle }) {
+  return (
+    <ol className="relative space-y-4 border-l-2 border-gray-100 pl-6">
+      {STAGES.map(({ stage, label }) => {
+        const entries = lifecycle.entries.filter((entry) => entry.stage === stage);
+        const released = entries.length > 0;
+        return (
+          <li key={stage} className="relative">
+            <span
+              className={cn(
+                'absolute -left-[33px] top-0.5 flex h-5 w-5 items-center justify-center rounded-full border-2 bg-white',
+                released ? 'border-emerald-500 text-emerald-600' : 'border-gray-200 text-gray-300',
+              )}
+            >
+              {released ? <Check size={11} strokeWidth={3} /> : <Clock size={10} />}
+            </span>
+            <div className={cn('text-[11px] font-bold uppercase tracking-[0.08em]', released ? 'text-gray-800' : 'text-gray-400')}>{label}</div>
+            {released ? (
+              <ul className="mt-1.5 space-y-1.5">
+                {entries.map((entry) => (
+                  <li key={entry.href} className="flex flex-wrap items-baseline justify-between gap-x-3 gap-y-0.5">
+                    {entry.current ? (
+                      <span className="text-[12px] font-bold text-[#e65100]">
+                        {entry.title}
+                        <span className="ml-1.5 rounded-full bg-orange-50 px-1.5 py-0.5 text-[10px] font-bold text-[#e65100]">You are here</span>
+                      </span>
+                    ) : (
+                      <Link href={entry.href} className="text-[12px] font-semibold text-blue-600 hover:text-[#e65100] hover:underline">
+                        {entry.title}
+                      </Link>
+                    )}
+                    {entry.date ? <span className="text-[11px] text-gray-500">{entry.date}</span> : null}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-1 text-[12px] text-gray-400">Awaited</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import { buildSearchPath } from '@/app/lib/public-content';
+import type { SearchSuggestResponse, SearchSuggestion } from '@/lib/search-suggest';
+
+interface SearchSuggestionListProps {
+  suggestions: SearchSuggestResponse;
+  onSelect?: (suggestion: SearchSuggestion) => void;
+}
+
+function suggestionHref(item: SearchSuggestion) {
+  return item.href ?? buildSearchPath(item.value);
+}
+
+export function SearchSuggestionList({ suggestions, onSelect }: SearchSuggestionListProps) {
+  const { groups, didYouMean } = suggestions;
+  if (groups.length === 0 && !didYouMean) return null;
+
+  return (
+    <div
+      role="listbox"
+      aria-label="Search suggestions"
+      className="absolute left-0 right-0 top-full z-30 mt-2 max-h-96 overflow-y-auto rounded-xl border border-gray-200 bg-white text-left shadow-xl dark:border-gray-700 dark:bg-gray-900"
+    >
+      {didYouMean ? (
+        <Link
+          href={buildSearchPath(didYouMean.query)}
+          className="block border-b border-gray-100 px-4 py-3 text-sm text-gray-700 hover:bg-orange-50 dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+        >
+          Did you mean <span className="font-semibold text-[#e65100]">{didYouMean.query}</span>?
+        </Link>
+      ) : null}
+      {groups.map((group) => (
+        <div key={group.kind} className="py-1">
+          <p className="px-4 pb-1 pt-2 text-[11px] font-bold uppercase tracking-wide text-gray-400">{group.label}</p>
+          {group.items.map((item) => (
+            <Link
+              key={`${group.kind}-${item.value}-${item.href ?? ''}`}
+              role="option"
+              aria-selected={false}
+              href={suggestionHref(item)}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => onSelect?.(item)}
+              className="block truncate px-4 py-2 text-sm font-medium text-gray-800 hover:bg-orange-50 hover:text-[#e65100] dark:text-gray-100 dark:hover:bg-gray-800"
+            >
+              {item.label}
+            </Link>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
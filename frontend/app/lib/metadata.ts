@@ -26,6 +26,8 @@ const NOINDEX_ROBOTS: NonNullable<Metadata['robots']> = {
   },
 };
 
+export type SiteLocale = 'en' | 'hi';
+
 type BuildPageMetadataOptions = {
   title: string;
   description: string;
@@ -33,6 +35,10 @@ type BuildPageMetadataOptions = {
   keywords?: string[];
   noindex?: boolean;
   type?: 'website' | 'article';
+  /** Language of this page; defaults to English. */
+  locale?: SiteLocale;
+  /** Path of each language version, including this one, for hreflang. */
+  languagePaths?: Partial<Record<SiteLocale, string>>;
 };
 
 type BuildNoIndexMetadataOptions = {
@@ -42,6 +48,9 @@ type BuildNoIndexMetadataOptions = {
   keywords?: string[];
 };
 
+const HREFLANG: Record<SiteLocale, string> = { en: 'en-IN', hi: 'hi-IN' };
+const OPEN_GRAPH_LOCALE: Record<SiteLocale, string> = { en: 'en_IN', hi: 'hi_IN' };
+
 const DEFAULT_DESCRIPTION =
   'Trusted government jobs and exam update platform for latest jobs, results, admit cards, answer keys, syllabus, admissions, scholarships, and official notices.';
 
@@ -80,6 +89,27 @@ function trimDescription(value: string, maxLength = 180): string {
   return `${slice}...`;
 }
 
+/** `/jobs/x` for English, `/hi/jobs/x` for Hindi. */
+export function localizedPath(path: string, locale: SiteLocale): string {
+  const normalized = normalizeCanonicalPath(path);
+  if (locale === 'en') return normalized;
+  return normalized === '/' ? `/${locale}` : `/${locale}${normalized}`;
+}
+
+function buildLanguageAlternates(languagePaths?: Partial<Record<SiteLocale, string>>) {
+  const entries = Object.entries(languagePaths ?? {}) as Array<[SiteLocale, string]>;
+  if (entries.length < 2) return undefined;
+
+  const languages: Record<string, string> = {};
+  for (const [locale, path] of entries) {
+    languages[HREFLANG[locale]] = normalizeCanonicalPath(path);
+  }
+  if (languagePaths?.en) {
+    languages['x-default'] = normalizeCanonicalPath(languagePaths.en);
+  }
+  return languages;
+}
+
 function dedupeKeywords(keywords: string[]): string[] {
   const seen = new Set<string>();
   const unique: string[] = [];
@@ -104,12 +134,15 @@ export function buildPageMetadata(options: BuildPageMetadataOptions): Metadata {
   const description = trimDescription(options.description);
   const keywords = dedupeKeywords([...BASE_KEYWORDS, ...(options.keywords ?? [])]);
   const imageUrl = siteConfig.ogImage;
+  const locale = options.locale ?? 'en';
+  const languages = buildLanguageAlternates(options.languagePaths);
 
   return {
     title: options.title,
     description,
     alternates: {
       canonical: canonicalPath,
+      ...(languages ? { languages } : {}),
     },
     keywords,
     openGraph: {
@@ -126,7 +159,14 @@ export function buildPageMetadata(options: BuildPageMetadataOptions): Metadata {
           alt: siteConfig.name,
         },
       ],
-      locale: 'en_IN',
+      locale: OPEN_GRAPH_LOCALE[locale],
+      ...(languages
+        ? {
+            alternateLocale: (Object.keys(options.languagePaths ?? {}) as SiteLocale[])
+              .filter((entry) => entry !== locale)
+              .map((entry) => OPEN_GRAPH_LOCALE[entry]),
+          }
+        : {}),
     },
     twitter: {
       card: 'summary_large_image',
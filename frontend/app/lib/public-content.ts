@@ -103,7 +103,23 @@ export interface DetailAgeLimit {
   summary: string;
 }
 
+export interface DetailAgeRelaxation {
+  afterServiceDeduction?: boolean;
+  label: string;
+  years: number;
+}
+
+export interface DetailAgeRule {
+  /** Raw date the notice counts age on; falls back to the last date. */
+  cutoffDate?: string;
+  cutoffIsNotified: boolean;
+  maxAge?: number;
+  minAge?: number;
+  relaxations: DetailAgeRelaxation[];
+}
+
 export interface DetailEligibilityBlock {
+  age?: DetailAgeRule;
   description: string;
   title: string;
 }
@@ -214,6 +230,21 @@ export interface DetailRelatedPost {
   title: string;
 }
 
+export type DetailLifecycleStage = 'job' | 'admit-card' | 'answer-key' | 'result';
+
+export interface DetailLifecycleEntry {
+  current: boolean;
+  date?: string;
+  href: string;
+  stage: DetailLifecycleStage;
+  title: string;
+}
+
+export interface DetailLifecycle {
+  cycleName: string;
+  entries: DetailLifecycleEntry[];
+}
+
 export interface AnnouncementDetailContent {
   ageLimit?: DetailAgeLimit;
   applicationFee?: {
@@ -235,6 +266,7 @@ export interface AnnouncementDetailContent {
   howToApply?: string[];
   importantDates: DetailDateRow[];
   importantLinks: DetailImportantLink[];
+  lifecycle?: DetailLifecycle;
   notice?: DetailNotice;
   overviewTitle?: string;
   qa: DetailQaQuestion[];
@@ -1,6 +1,7 @@
 import type { MetadataRoute } from 'next';
 import { siteConfig } from '@/lib/seo';
 import { getContentPagesByType, getRawListing, getTaxonomyList } from '@/lib/content-api';
+import { localizedPath } from '@/app/lib/metadata';
 import { auxiliaryPageMeta, infoPageMeta, resourceCategoryMeta } from '@/app/lib/public-content';
 
 export const revalidate = 300;
@@ -85,12 +86,27 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       entries.set(entry.url, entry);
     };
 
+    // Translated posts get a /hi entry, and both language versions list each other as hreflang alternates.
+    const addPostEntry = (item: (typeof jobs)[number], priority: number) => {
+      if (item.indexable === false) return;
+      const modified = lastModified(item.updatedAt || item.publishedAt);
+      const hasHindi = item.availableLocales?.includes('hi') ?? false;
+      const englishUrl = `${siteConfig.url}${item.href}`;
+      const hindiUrl = `${siteConfig.url}${localizedPath(item.href, 'hi')}`;
+      const alternates = hasHindi ? { languages: { 'en-IN': englishUrl, 'hi-IN': hindiUrl } } : undefined;
+
+      addEntry({ url: englishUrl, lastModified: modified, changeFrequency: 'daily', priority, ...(alternates ? { alternates } : {}) });
+      if (alternates) {
+        addEntry({ url: hindiUrl, lastModified: modified, changeFrequency: 'daily', priority, alternates });
+      }
+    };
+
     staticEntries.forEach(addEntry);
-    jobs.filter((item) => item.indexable !== false).forEach((item) => addEntry({ url: `${siteConfig.url}${item.href}`, lastModified: lastModified(item.updatedAt || item.publishedAt), changeFrequency: 'daily', priority: 0.8 }));
-    results.filter((item) => item.indexable !== false).forEach((item) => addEntry({ url: `${siteConfig.url}${item.href}`, lastModified: lastModified(item.updatedAt || item.publishedAt), changeFrequency: 'daily', priority: 0.8 }));
-    admitCards.filter((item) => item.indexable !== false).forEach((item) => addEntry({ url: `${siteConfig.url}${item.href}`, lastModified: lastModified(item.updatedAt || item.publishedAt), changeFrequency: 'daily', priority: 0.8 }));
-    admissions.filter((item) => item.indexable !== false).forEach((item) => addEntry({ url: `${siteConfig.url}${item.href}`, lastModified: lastModified(item.updatedAt || item.publishedAt), changeFrequency: 'daily', priority: 0.8 }));
-    answerKeys.filter((item) => item.indexable !== false).forEach((item) => addEntry({ url: `${siteConfig.url}${item.href}`, lastModified: lastModified(item.updatedAt || item.publishedAt), changeFrequency: 'daily', priority: 0.75 }));
+    jobs.forEach((item) => addPostEntry(item, 0.8));
+    results.forEach((item) => addPostEntry(item, 0.8));
+    admitCards.forEach((item) => addPostEntry(item, 0.8));
+    admissions.forEach((item) => addPostEntry(item, 0.8));
+    answerKeys.forEach((item) => addPostEntry(item, 0.75));
     states.forEach((item) => addEntry({ url: `${siteConfig.url}/states/${item.slug}`, lastModified: lastModified(item.updatedAt), changeFrequency: 'daily', priority: 0.7 }));
     organizations.forEach((item) => addEntry({ url: `${siteConfig.url}/organizations/${item.slug}`, lastModified: lastModified(item.updatedAt), changeFrequency: 'daily', priority: 0.7 }));
     contentPageResults
@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchSearchSuggestions, type SearchSuggestResponse } from '@/lib/search-suggest';
+
+const SUGGEST_DEBOUNCE_MS = 180;
+const SUGGEST_MIN_LENGTH = 2;
+
+export function useSearchSuggestions(query: string, options: { enabled?: boolean; limit?: number } = {}) {
+  const enabled = options.enabled ?? true;
+  const limit = options.limit;
+  const trimmed = query.trim();
+  const active = enabled && trimmed.length >= SUGGEST_MIN_LENGTH;
+  const [result, setResult] = useState<{ query: string; data: SearchSuggestResponse } | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const controller = new AbortController();
+    const timeout = globalThis.setTimeout(async () => {
+      const data = await fetchSearchSuggestions(trimmed, { limit, signal: controller.signal });
+      if (!controller.signal.aborted) {
+        setResult({ query: trimmed, data });
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      globalThis.clearTimeout(timeout);
+    };
+  }, [active, limit, trimmed]);
+
+  const isCurrent = active && result?.query === trimmed;
+  return {
+    data: isCurrent ? result.data : null,
+    isLoading: active && !isCurrent,
+  };
+}
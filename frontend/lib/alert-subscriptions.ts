@@ -40,3 +40,79 @@ export async function subscribeToAlerts(input: SubscribeToAlertsInput) {
 
   return body as { data?: { verified?: boolean }; message?: string };
 }
+
+export type AlertPostType = NonNullable<SubscribeToAlertsInput['postTypes']>[number];
+export type AlertTopicKind = 'category' | 'state' | 'organization' | 'qualification' | 'postType';
+
+interface AlertTopic {
+  slug: string;
+  name: string;
+}
+
+export interface AlertPreferences {
+  email: string;
+  verified: boolean;
+  isActive: boolean;
+  frequency: 'instant' | 'daily' | 'weekly';
+  locale: 'en' | 'hi';
+  pausedUntil: string | null;
+  categories: AlertTopic[];
+  states: AlertTopic[];
+  organizations: AlertTopic[];
+  qualifications: AlertTopic[];
+  postTypes: AlertPostType[];
+  /** Days before a last date to get a reminder; empty means none. */
+  reminderDays: number[];
+  /** Reminder offsets the server sends. */
+  reminderOptions: number[];
+}
+
+export interface AlertPreferencesUpdate {
+  frequency: AlertPreferences['frequency'];
+  categories: string[];
+  states: string[];
+  organizations: string[];
+  qualifications: string[];
+  postTypes: AlertPostType[];
+  reminderDays: number[];
+}
+
+async function requestPreferences(path: string, token: string, init: RequestInit = {}) {
+  const response = await fetch(`${resolvePublicApiBase()}/subscriptions${path}?token=${encodeURIComponent(token)}`, {
+    ...init,
+    credentials: 'omit',
+    headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = typeof body === 'object' && body && 'error' in body ? (body as Record<string, unknown>).error : null;
+    throw new Error(typeof error === 'string' ? error : 'Request failed. Please try again.');
+  }
+  return body as { data?: AlertPreferences; message?: string };
+}
+
+export async function getAlertPreferences(token: string) {
+  const body = await requestPreferences('/preferences', token);
+  return body.data as AlertPreferences;
+}
+
+export function updateAlertPreferences(token: string, input: AlertPreferencesUpdate) {
+  return requestPreferences('/preferences', token, { method: 'PUT', body: JSON.stringify(input) });
+}
+
+export function pauseAlerts(token: string, weeks: number) {
+  return requestPreferences('/preferences/pause', token, { method: 'POST', body: JSON.stringify({ weeks }) });
+}
+
+export function resumeAlerts(token: string) {
+  return requestPreferences('/preferences/resume', token, { method: 'POST' });
+}
+
+export function removeAlertTopic(token: string, kind: AlertTopicKind, value: string) {
+  return requestPreferences(`/preferences/topics/${kind}/${encodeURIComponent(value)}`, token, { method: 'DELETE' });
+}
+
+export function unsubscribeFromAlerts(token: string) {
+  return requestPreferences('/unsubscribe', token, { method: 'POST' });
+}
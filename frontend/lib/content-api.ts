@@ -8,7 +8,9 @@ import type {
   CategoryPageMeta,
   CommunityChannel,
   CommunityPageMeta,
+  DetailAgeRule,
   DetailImportantLink,
+  DetailLifecycleStage,
   DetailThemeTokens,
   InfoPageMeta,
   InfoPageSection,
@@ -24,6 +26,8 @@ import { announcementCategoryMeta } from '@/app/lib/public-content';
 
 type BackendSection = 'jobs' | 'results' | 'admit-cards' | 'admissions' | 'answer-keys' | 'syllabus';
 
+export type ContentLocale = 'en' | 'hi';
+
 interface BackendTaxonomyRef {
   name: string;
   slug: string;
@@ -36,6 +40,20 @@ interface BackendOfficialSource {
   isPrimary?: boolean;
 }
 
+interface BackendEligibilityRule {
+  label: string;
+  description: string;
+  minAge?: number;
+  maxAge?: number;
+  ageCutoffDate?: string;
+  ageRelaxations?: Array<{
+    category: string;
+    label?: string;
+    years: number;
+    appliesFrom: 'upper_age_limit' | 'after_service_deduction';
+  }>;
+}
+
 interface BackendPostRecord {
   id: string;
   legacyId?: string;
@@ -51,7 +69,7 @@ interface BackendPostRecord {
   states: BackendTaxonomyRef[];
   qualifications: BackendTaxonomyRef[];
   importantDates: Array<{ label: string; value: string; kind?: string }>;
-  eligibility: Array<{ label: string; description: string }>;
+  eligibility: BackendEligibilityRule[];
   feeRules: Array<{ category: string; amount: string; paymentNote?: string }>;
   vacancyRows: Array<{ postName: string; department?: string; vacancies: string; payLevel?: string; salaryNote?: string }>;
   admissionPrograms: Array<{ programName: string; level?: string; department?: string; intake?: string; eligibilityNote?: string }>;
@@ -98,6 +116,12 @@ interface BackendPublicCard {
   publishedAt?: string;
   updatedAt?: string;
   indexable?: boolean;
+  search?: {
+    score: number;
+    matchedFields: Array<'title' | 'organization' | 'exam' | 'summary' | 'searchText'>;
+    highlights: Array<{ field: 'title' | 'organization' | 'exam' | 'summary' | 'searchText'; snippet: string }>;
+  };
+  availableLocales?: ContentLocale[];
 }
 
 interface BackendPublicDetail {
@@ -108,6 +132,21 @@ interface BackendPublicDetail {
   relatedCards: BackendPublicCard[];
   breadcrumbs: Array<{ label: string; href: string }>;
   archiveState: 'active' | 'expired' | 'archived';
+  lifecycle?: {
+    cycle: BackendTaxonomyRef;
+    entries: Array<{
+      id: string;
+      type: DetailLifecycleStage;
+      title: string;
+      slug: string;
+      href: string;
+      publishedAt?: string;
+      keyDate?: string;
+      current: boolean;
+    }>;
+  };
+  locale?: ContentLocale;
+  availableLocales?: ContentLocale[];
 }
 
 interface BackendTaxonomyDocument {
@@ -689,6 +728,12 @@ function fallbackTaxonomyLanding(type: BackendTaxonomyType, slug: string): Backe
   };
 }
 
+/** English is the API default, so only other locales are sent explicitly. */
+function withLocale(path: string, locale: ContentLocale = 'en') {
+  if (locale === 'en') return path;
+  return `${path}${path.includes('?') ? '&' : '?'}locale=${locale}`;
+}
+
 async function fetchJson<T>(path: string): Promise<T> {
   if (!shouldFetchContentApi()) {
     throw new ContentApiDisabledError();
@@ -812,9 +857,9 @@ function canonicalPathFromPage(page: BackendContentPageRecord, fallback?: string
   return page.seoCanonicalPath || fallback || `/${page.slug}`;
 }
 
-export async function getContentPageBySlug(slug: string): Promise<BackendContentPageRecord | null> {
+export async function getContentPageBySlug(slug: string, locale: ContentLocale = 'en'): Promise<BackendContentPageRecord | null> {
   try {
-    const response = await fetchJson<{ data: BackendContentPageRecord }>(`/pages/${encodeURIComponent(slug)}`);
+    const response = await fetchJson<{ data: BackendContentPageRecord }>(withLocale(`/pages/${encodeURIComponent(slug)}`, locale));
     return response.data;
   } catch (error) {
     reportFallbackActivation(`content-page:${slug}`, error);
@@ -960,6 +1005,33 @@ function toSection(type: BackendPostRecord['type']): AnnouncementSection {
   return 'syllabus';
 }
 
+const ageRelaxationLabels: Record<string, string> = {
+  obc: 'OBC',
+  sc: 'SC',
+  st: 'ST',
+  ews: 'EWS',
+  pwbd: 'PwBD',
+  ex_serviceman: 'Ex-Servicemen',
+  women: 'Women',
+  other: 'Other',
+};
+
+function toDetailAgeRule(rule: BackendEligibilityRule, post: BackendPostRecord): DetailAgeRule | undefined {
+  if (rule.minAge === undefined && rule.maxAge === undefined) return undefined;
+  const lastDate = post.importantDates.find((item) => item.kind === 'last_date')?.value || post.lastDate;
+  return {
+    minAge: rule.minAge,
+    maxAge: rule.maxAge,
+    cutoffDate: rule.ageCutoffDate || lastDate,
+    cutoffIsNotified: Boolean(rule.ageCutoffDate),
+    relaxations: (rule.ageRelaxations || []).map((relaxation) => ({
+      label: relaxation.label || ageRelaxationLabels[relaxation.category] || relaxation.category,
+      years: relaxation.years,
+      afterServiceDeduction: relaxation.appliesFrom === 'after_service_deduction' || undefined,
+    })),
+  };
+}
+
 function sourceLinks(sources: BackendOfficialSource[]): DetailImportantLink[] {
   return sources.map((source, index) => ({
     href: source.url,
@@ -1017,6 +1089,7 @@ export function mapDetailToAnnouncementItem(detail: BackendPublicDetail): Announ
       eligibility: detail.post.eligibility.map((item) => ({
         title: item.label,
         description: item.description,
+        age: toDetailAgeRule(item, detail.post),
       })),
       eyebrow: announcementCategoryMeta[section].eyebrow,
       heroStats: [
@@ -1031,6 +1104,18 @@ export function mapDetailToAnnouncementItem(detail: BackendPublicDetail): Announ
         status: item.kind === 'last_date' ? 'active' : 'upcoming',
       })),
       importantLinks: officialLinks,
+      lifecycle: detail.lifecycle?.entries.length
+        ? {
+            cycleName: detail.lifecycle.cycle.name,
+            entries: detail.lifecycle.entries.map((entry) => ({
+              current: entry.current,
+              date: safeDateLabel(entry.keyDate) || safeDateLabel(entry.publishedAt) || undefined,
+              href: entry.href,
+              stage: entry.type,
+              title: entry.title,
+            })),
+          }
+        : undefined,
       notice: detail.archiveState !== 'active'
         ? {
             title: detail.archiveState === 'archived' ? 'Archived Notice' : 'Expired Notice',
@@ -1116,9 +1201,9 @@ export function mapDetailToAnnouncementItem(detail: BackendPublicDetail): Announ
   };
 }
 
-export async function getHomepageSections() {
+export async function getHomepageSections(locale: ContentLocale = 'en') {
   try {
-    const response = await fetchJson<{ data: Record<BackendSection, BackendPublicCard[]> }>('/homepage');
+    const response = await fetchJson<{ data: Record<BackendSection, BackendPublicCard[]> }>(withLocale('/homepage', locale));
     return response.data;
   } catch (error) {
     reportFallbackActivation('homepage', error);
@@ -1135,6 +1220,7 @@ export async function getListingEntries(params: {
   qualification?: string;
   status?: 'active' | 'expired' | 'archived' | 'all';
   limit?: number;
+  locale?: ContentLocale;
 }) {
   const searchParams = new URLSearchParams();
   for (const [key, value] of Object.entries(params)) {
@@ -1159,6 +1245,7 @@ export async function getRawListing(params: {
   qualification?: string;
   status?: 'active' | 'expired' | 'archived' | 'all';
   limit?: number;
+  locale?: ContentLocale;
 }) {
   const searchParams = new URLSearchParams();
   for (const [key, value] of Object.entries(params)) {
@@ -1173,9 +1260,21 @@ export async function getRawListing(params: {
   }
 }
 
-export async function getDetail(slug: string) {
+export async function getSearchCorrection(query: string) {
+  const searchParams = new URLSearchParams({ q: query, limit: '1' });
+  try {
+    const response = await fetchJson<{ data: { didYouMean: { query: string; score: number } | null } }>(
+      `/search/suggest?${searchParams.toString()}`,
+    );
+    return response.data.didYouMean;
+  } catch {
+    return null;
+  }
+}
+
+export async function getDetail(slug: string, locale: ContentLocale = 'en') {
   try {
-    const response = await fetchJson<{ data: BackendPublicDetail }>(`/posts/${encodeURIComponent(slug)}`);
+    const response = await fetchJson<{ data: BackendPublicDetail }>(withLocale(`/posts/${encodeURIComponent(slug)}`, locale));
     return response.data;
   } catch (error) {
     reportFallbackActivation(`detail:${slug}`, error);
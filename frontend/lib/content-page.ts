@@ -1,18 +1,24 @@
 import type { AnnouncementSection, PortalListEntry } from '@/app/lib/public-content';
 import { announcementCategoryMeta } from '@/app/lib/public-content';
-import { buildPageMetadata } from '@/app/lib/metadata';
-import { getDetail, mapDetailToAnnouncementItem } from './content-api';
+import { buildPageMetadata, localizedPath } from '@/app/lib/metadata';
+import { type ContentLocale, getDetail, mapDetailToAnnouncementItem } from './content-api';
 
-export async function loadDetailPage(section: AnnouncementSection, slug: string) {
-  const detail = await getDetail(slug);
+export async function loadDetailPage(section: AnnouncementSection, slug: string, locale: ContentLocale = 'en') {
+  const detail = await getDetail(slug, locale);
   const mapped = mapDetailToAnnouncementItem(detail);
   const canonicalSection = mapped.section;
+  const resolvedLocale = detail.locale ?? 'en';
+  const availableLocales = detail.availableLocales ?? ['en'];
+  const englishPath = resolvedLocale === 'en' ? detail.canonicalPath : detail.canonicalPath.replace(new RegExp(`^/${resolvedLocale}(?=/)`), '');
 
   return {
+    availableLocales,
     breadcrumbs: detail.breadcrumbs,
     canonicalPath: detail.canonicalPath,
+    englishPath,
     isCanonicalSection: canonicalSection === section,
     item: mapped,
+    locale: resolvedLocale,
     meta: announcementCategoryMeta[canonicalSection],
     relatedEntries: detail.relatedCards.map<PortalListEntry>((card) => ({
       href: card.href,
@@ -42,6 +48,10 @@ export function buildDetailPageMetadata(resolved: Awaited<ReturnType<typeof load
     canonicalPath,
     type: 'article',
     noindex: resolved.seo?.indexable === false,
+    locale: resolved.locale,
+    languagePaths: Object.fromEntries(
+      resolved.availableLocales.map((locale) => [locale, localizedPath(resolved.englishPath, locale)]),
+    ),
     keywords: [
       resolved.item.org,
       resolved.meta.title,
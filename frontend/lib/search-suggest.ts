@@ -0,0 +1,53 @@
+import { resolvePublicApiBase } from './api';
+
+export type SearchSuggestionKind = 'post' | 'organization' | 'exam' | 'state' | 'query';
+
+export interface SearchSuggestion {
+  kind: SearchSuggestionKind;
+  label: string;
+  value: string;
+  href?: string;
+  type?: 'job' | 'result' | 'admit-card' | 'admission' | 'answer-key' | 'syllabus';
+  score: number;
+}
+
+export interface SearchSuggestionGroup {
+  kind: SearchSuggestionKind;
+  label: string;
+  items: SearchSuggestion[];
+}
+
+export interface SearchSuggestResponse {
+  query: string;
+  groups: SearchSuggestionGroup[];
+  resultCount: number | null;
+  didYouMean: { query: string; score: number } | null;
+}
+
+const EMPTY_RESPONSE: SearchSuggestResponse = {
+  query: '',
+  groups: [],
+  resultCount: null,
+  didYouMean: null,
+};
+
+export async function fetchSearchSuggestions(
+  query: string,
+  options: { limit?: number; signal?: AbortSignal } = {},
+): Promise<SearchSuggestResponse> {
+  const params = new URLSearchParams({ q: query.trim() });
+  if (options.limit) params.set('limit', String(options.limit));
+
+  try {
+    const response = await fetch(`${resolvePublicApiBase()}/content/search/suggest?${params.toString()}`, {
+      headers: { Accept: 'application/json' },
+      signal: options.signal,
+    });
+    if (!response.ok) return EMPTY_RESPONSE;
+    const body = (await response.json().catch(() => null)) as { data?: SearchSuggestResponse } | null;
+    return body?.data ?? EMPTY_RESPONSE;
+  } catch {
+    // Suggestions are an enhancement; a missing API must never block search submit.
+    return EMPTY_RESPONSE;
+  }
+}
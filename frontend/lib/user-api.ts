@@ -5,6 +5,9 @@ export type TrackerStatus = 'saved' | 'applied' | 'admit-card' | 'exam' | 'resul
 export interface BookmarkItem { id: string; slug: string; title: string; type: ContentType; organization?: string | { name?: string }; lastDate?: string | null }
 export interface TrackedApplication { id: string; announcementId?: string; slug: string; type: ContentType; title: string; organization?: string; deadline?: string | null; reminderAt?: string | null; status: TrackerStatus; notes?: string }
 export interface UserProfile { preferredCategories: string[]; preferredQualifications: string[]; preferredLocations: string[]; preferredOrganizations: string[]; emailNotifications: boolean; pushNotifications: boolean; notificationFrequency: 'instant' | 'daily' | 'weekly'; alertWindowDays: number; alertMaxItems: number }
+export interface UserSession { id: string; device: string; ipAddress?: string; country?: string; createdAt: string; lastSeenAt: string; expiresAt: string; current: boolean }
+export interface PushTopics { instantAlerts: boolean; stateSlugs: string[]; categorySlugs: string[]; postTypes: ContentType[] }
+export interface CalendarFeed { url: string; webcalUrl: string; createdAt: string; lastAccessedAt: string | null }
 export interface SavedSearch { id: string; name: string; query: string; notificationsEnabled: boolean; frequency: 'instant' | 'daily' | 'weekly'; filters?: Record<string, string | number> }
 
 function cookie(name: string) {
@@ -42,8 +45,15 @@ export async function listTrackedApplications() { return (await request<{ data:
 export async function trackApplication(input: Omit<TrackedApplication, 'id'>) { return (await request<{ data: TrackedApplication }>('/profile/tracked-applications', { method: 'POST', body: JSON.stringify(input) })).data }
 export async function updateTrackedApplication(id: string, input: Partial<Pick<TrackedApplication, 'status' | 'notes' | 'reminderAt'>>) { return (await request<{ data: TrackedApplication }>(`/profile/tracked-applications/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(input) })).data }
 export function deleteTrackedApplication(id: string) { return request(`/profile/tracked-applications/${encodeURIComponent(id)}`, { method: 'DELETE' }) }
+export async function getCalendarFeed() { return (await request<{ data: CalendarFeed }>('/profile/calendar-feed')).data }
+export async function rotateCalendarFeed() { return (await request<{ data: CalendarFeed }>('/profile/calendar-feed/rotate', { method: 'POST' })).data }
 export async function getProfile() { return (await request<{ data: UserProfile }>('/profile')).data }
 export async function updateProfile(input: Partial<UserProfile>) { return (await request<{ data: UserProfile }>('/profile', { method: 'PUT', body: JSON.stringify(input) })).data }
 export async function listSavedSearches() { return (await request<{ data: SavedSearch[] }>('/profile/saved-searches')).data }
 export async function updateSavedSearch(id: string, input: Partial<SavedSearch>) { return (await request<{ data: SavedSearch }>(`/profile/saved-searches/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(input) })).data }
 export function subscribePush(subscription: PushSubscriptionJSON) { return request('/push/subscribe?source=public_opt_in', { method: 'POST', body: JSON.stringify(subscription) }) }
+export async function getPushTopics(endpoint: string) { return (await request<{ data: PushTopics }>(`/push/topics?endpoint=${encodeURIComponent(endpoint)}`)).data }
+export async function updatePushTopics(endpoint: string, input: { instantAlerts: boolean; states: string[]; categories: string[]; postTypes: ContentType[] }) { return (await request<{ data: PushTopics }>('/push/topics', { method: 'PUT', body: JSON.stringify({ endpoint, ...input }) })).data }
+export async function listSessions() { return (await request<{ data: UserSession[] }>('/auth/sessions')).data }
+export function revokeSession(id: string) { return request(`/auth/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' }) }
+export async function revokeOtherSessions() { return (await request<{ data: { revoked: number } }>('/auth/sessions/revoke-others', { method: 'POST' })).data }
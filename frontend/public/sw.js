@@ -80,13 +80,43 @@ async function handleAssetRequest(request) {
 self.addEventListener('push', (event) => {
   let payload = { title: 'Sarkari Exams Update', body: 'A new update is available.', url: '/' };
   try { payload = { ...payload, ...event.data.json() }; } catch {}
+  const maxActions = self.Notification?.maxActions ?? 2;
   event.waitUntil(self.registration.showNotification(payload.title, {
     body: payload.body,
-    data: { url: payload.url || '/' },
+    tag: payload.tag,
+    actions: Array.isArray(payload.actions) ? payload.actions.slice(0, maxActions) : [],
+    data: {
+      url: payload.url || '/',
+      applyUrl: payload.applyUrl,
+      postId: payload.postId,
+      campaignId: payload.campaignId,
+    },
   }));
 });
 
+function reportClick(action, data) {
+  return fetch('/api/push/click', {
+    method: 'POST',
+    credentials: 'omit',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, postId: data.postId, campaignId: data.campaignId }),
+  }).catch(() => undefined);
+}
+
+function resolveClickUrl(action, data) {
+  if (action === 'apply' && data.applyUrl) return data.applyUrl;
+  const url = new URL(data.url || '/', self.location.origin);
+  // The post page finishes the save once it knows who is signed in.
+  if (action === 'save') url.searchParams.set('pushAction', 'save');
+  return url.toString();
+}
+
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
-  event.waitUntil(clients.openWindow(event.notification.data?.url || '/'));
+  const data = event.notification.data || {};
+  const action = event.action || 'open';
+  event.waitUntil(Promise.all([
+    reportClick(action, data),
+    clients.openWindow(resolveClickUrl(action, data)),
+  ]));
 });